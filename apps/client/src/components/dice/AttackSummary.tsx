@@ -0,0 +1,64 @@
+// ============================================================================
+// ATTACK SUMMARY - the attack half of a roll-log row
+// ============================================================================
+// A named attack is one log entry: RollEntry draws the to-hit roll as it
+// draws any roll, and this adds who attacked whom with what, and the damage.
+// Its own file so RollEntry stays the generic row it was extracted as.
+
+import React from "react";
+import type { AttackRollDetail } from "@herobyte/shared";
+import { sanitizeText } from "../../utils/sanitize";
+
+interface AttackSummaryProps {
+  attack: AttackRollDetail;
+  /**
+   * Present for the DM only. The server refuses the message from anyone else,
+   * so a player is shown where the damage stands rather than a button.
+   */
+  onApplyDamage?: () => void;
+}
+
+export const AttackSummary: React.FC<AttackSummaryProps> = ({ attack, onApplyDamage }) => {
+  const { damage } = attack;
+  return (
+    <div
+      className="jrpg-text-small"
+      style={{ color: "var(--jrpg-white)", marginBottom: "4px" }}
+      data-testid="roll-attack-summary"
+    >
+      <div style={{ marginBottom: "2px" }}>
+        {sanitizeText(attack.attackerName)} → {sanitizeText(attack.targetName)}:{" "}
+        <span style={{ color: "var(--jrpg-gold)" }}>{sanitizeText(attack.attackName)}</span>
+      </div>
+      <div style={{ display: "flex", alignItems: "center", gap: "6px", flexWrap: "wrap" }}>
+        <span>
+          Damage {damage.total}
+          {damage.damageType ? ` ${sanitizeText(damage.damageType)}` : ""}
+          <span style={{ opacity: 0.6 }}> ({damage.formula})</span>
+        </span>
+        {attack.applied ? (
+          <span style={{ opacity: 0.7 }}>✓ applied</span>
+        ) : onApplyDamage ? (
+          <button
+            onClick={(e) => {
+              // The row itself opens the breakdown; this must not.
+              e.stopPropagation();
+              onApplyDamage();
+            }}
+            style={{
+              background: "transparent",
+              border: "1px solid var(--jrpg-border-gold)",
+              color: "var(--jrpg-gold)",
+              padding: "2px 6px",
+              fontSize: "10px",
+              cursor: "pointer",
+            }}
+            title={`Take ${damage.total} HP off ${attack.targetName}`}
+          >
+            Apply damage
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+// ============================================================================
+// CHAT MESSAGE TEXT - a chat line with its [[...]] rolls as chips
+// ============================================================================
+// The server rolled the brackets when the message was sent and stored the
+// results on it (shared inlineRolls.ts); this only draws them. Each roll is a
+// chip showing its total, and clicking it opens the breakdown in place — the
+// formula the server rolled and every die. A bracket the server did not roll
+// stays as the text that was typed.
+//
+// Text runs are React text children, escaped by construction, for the same
+// reason ChatTab does not run them through sanitizeText.
+
+import React, { useState } from "react";
+import { splitInlineRolls, type ChatMessage, type InlineRoll } from "@herobyte/shared";
+import { RolledDiceFaces } from "./RolledDiceFaces";
+
+/** "d20 + 5: [14] + 5 = 19" — each die term's faces, then the total. */
+const InlineRollBreakdown: React.FC<{ roll: InlineRoll }> = ({ roll }) => (
+  <span
+    data-testid="inline-roll-breakdown"
+    style={{ marginLeft: "4px", fontStyle: "normal", opacity: 0.85 }}
+  >
+    {roll.formula}:{" "}
+    {roll.breakdown.map((term, index) => (
+      <React.Fragment key={term.tokenId}>
+        {index > 0 && (term.subtotal < 0 ? " − " : " + ")}
+        {term.dice ? (
+          <>
+            [<RolledDiceFaces dice={term.dice} />]
+          </>
+        ) : term.rolls ? (
+          `[${term.rolls.join(", ")}]`
+        ) : (
+          Math.abs(term.subtotal)
+        )}
+      </React.Fragment>
+    ))}{" "}
+    = {roll.total}
+  </span>
+);
+
+const InlineRollChip: React.FC<{ roll: InlineRoll; source: string }> = ({ roll, source }) => {
+  const [expanded, setExpanded] = useState(false);
+  return (
+    <>
+      <button
+        type="button"
+        data-testid="inline-roll"
+        aria-expanded={expanded}
+        title={`${source} → ${roll.formula}`}
+        onClick={() => setExpanded((open) => !open)}
+        style={{
+          display: "inline-block",
+          padding: "0 5px",
+          margin: "0 1px",
+          border: "1px solid var(--jrpg-border-gold)",
+          background: "var(--jrpg-black)",
+          color: "var(--jrpg-gold)",
+          font: "inherit",
+          fontWeight: "bold",
+          cursor: "pointer",
+        }}
+      >
+        🎲 {roll.total}
+      </button>
+      {expanded && <InlineRollBreakdown roll={roll} />}
+    </>
+  );
+};
+
+export const ChatMessageText: React.FC<{ message: ChatMessage }> = ({ message }) => (
+  <>
+    {splitInlineRolls(message.text, message.inlineRolls).map((segment, index) =>
+      segment.kind === "text" ? (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      ) : (
+        <InlineRollChip key={index} roll={segment.roll} source={segment.source} />
+      ),
+    )}
+  </>
+);
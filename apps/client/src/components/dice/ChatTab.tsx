@@ -12,6 +12,8 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import type { ChatMessage, Player } from "@herobyte/shared";
 import { JRPGPanel, JRPGButton } from "../ui/JRPGPanel";
+import { ChatMessageText } from "./ChatMessageText";
+import { chatSuggestions } from "./chatAutocomplete";
 
 /** Matches the server's STRING_LIMITS.CHAT_TEXT_MAX; the server rejects past it. */
 const CHAT_TEXT_MAX = 2000;
@@ -29,6 +31,7 @@ export interface ChatTabProps {
 export const ChatTab: React.FC<ChatTabProps> = ({ messages, players, currentUid, onSendChat }) => {
   const [draft, setDraft] = useState("");
   const [target, setTarget] = useState<string>(WHOLE_TABLE);
+  const [highlighted, setHighlighted] = useState(0);
   const scrollerRef = useRef<HTMLDivElement>(null);
 
   // Newest message last (chat reads top-to-bottom, unlike the roll log which
@@ -57,6 +60,19 @@ export const ChatTab: React.FC<ChatTabProps> = ({ messages, players, currentUid,
   const nameFor = (uid: string): string =>
     players.find((player) => player.uid === uid)?.name ?? "unknown";
 
+  // Slash-command completion (chatAutocomplete.ts). Tab takes the highlighted
+  // one, the arrows move it, and Enter still sends what is typed.
+  const isDM = players.some((player) => player.uid === currentUid && player.isDM);
+  const suggestions = useMemo(
+    () => chatSuggestions(draft, whisperTargets, isDM),
+    [draft, whisperTargets, isDM],
+  );
+  const activeSuggestion = Math.min(highlighted, Math.max(0, suggestions.length - 1));
+  const complete = (completion: string) => {
+    setDraft(completion);
+    setHighlighted(0);
+  };
+
   const send = () => {
     const text = draft.trim();
     if (!text) return;
@@ -82,28 +98,66 @@ export const ChatTab: React.FC<ChatTabProps> = ({ messages, players, currentUid,
             </div>
           ) : (
             messages.map((message) => {
+              // The table's own announcements ("Poisoned ends on Goblin 1.")
+              // have no author to name; a whispered one is DM-only news.
+              if (message.system) {
+                return (
+                  <div
+                    key={message.id}
+                    data-testid="chat-message"
+                    className="jrpg-text-small"
+                    style={{ color: "var(--jrpg-gold)", fontStyle: "italic", opacity: 0.85 }}
+                  >
+                    ⏳ {message.text}
+                    {message.to ? " (only you)" : ""}
+                  </div>
+                );
+              }
+              // /desc: the DM narrating, so no name on it.
+              if (message.style === "desc") {
+                return (
+                  <div
+                    key={message.id}
+                    data-testid="chat-message"
+                    data-style="desc"
+                    className="jrpg-text-small"
+                    style={{
+                      color: "var(--jrpg-gold)",
+                      fontStyle: "italic",
+                      textAlign: "center",
+                      wordBreak: "break-word",
+                    }}
+                  >
+                    <ChatMessageText message={message} />
+                  </div>
+                );
+              }
               const isMine = message.authorUid === currentUid;
               const isWhisper = Boolean(message.to);
+              const isEmote = message.style === "emote";
               return (
                 <div
                   key={message.id}
                   data-testid="chat-message"
+                  data-style={message.style}
                   className="jrpg-text-small"
                   style={{
                     color: "var(--jrpg-white)",
                     // Whispers read as set apart without relying on colour alone.
-                    fontStyle: isWhisper ? "italic" : "normal",
-                    opacity: isWhisper ? 0.85 : 1,
+                    fontStyle: isWhisper || isEmote ? "italic" : "normal",
+                    opacity: isWhisper ? 0.85 : message.style === "ooc" ? 0.6 : 1,
                     wordBreak: "break-word",
                   }}
                 >
+                  {message.style === "ooc" && "(OOC) "}
                   <span style={{ color: isMine ? "var(--jrpg-gold)" : "var(--jrpg-cyan)" }}>
+                    {isEmote && "* "}
                     {isWhisper
                       ? isMine
                         ? `→ ${nameFor(message.to as string)}`
                         : `${message.authorName} →`
                       : message.authorName}
-                    :{" "}
+                    {isEmote ? " " : ": "}
                   </span>
                   {/* Deliberately NOT sanitizeText. These are React text
                       children, which React escapes by construction — there is
@@ -112,8 +166,8 @@ export const ChatTab: React.FC<ChatTabProps> = ({ messages, players, currentUid,
                       any text containing "<" takes DOMPurify's parse path and
                       comes back entity-escaped, so "a < b" renders as
                       "a &lt; b". sanitizeText belongs on innerHTML paths;
-                      this is not one. */}
-                  {message.text}
+                      this is not one. [[...]] rolls come back as chips. */}
+                  <ChatMessageText message={message} />
                 </div>
               );
             })
@@ -138,13 +192,60 @@ export const ChatTab: React.FC<ChatTabProps> = ({ messages, players, currentUid,
             ))}
           </select>
         )}
+        {suggestions.length > 0 && (
+          <div
+            role="listbox"
+            aria-label="Chat commands"
+            style={{ display: "flex", flexDirection: "column" }}
+          >
+            {suggestions.map((suggestion, index) => (
+              <button
+                key={suggestion.completion}
+                type="button"
+                role="option"
+                aria-selected={index === activeSuggestion}
+                onClick={() => complete(suggestion.completion)}
+                className="jrpg-text-small"
+                style={{
+                  textAlign: "left",
+                  padding: "3px 6px",
+                  border: "none",
+                  background:
+                    index === activeSuggestion ? "var(--jrpg-border-gold)" : "var(--jrpg-black)",
+                  color: "var(--jrpg-white)",
+                  cursor: "pointer",
+                }}
+              >
+                <strong>{suggestion.label}</strong>{" "}
+                <span style={{ opacity: 0.7 }}>{suggestion.hint}</span>
+              </button>
+            ))}
+          </div>
+        )}
         <div style={{ display: "flex", gap: "4px" }}>
           <input
             aria-label="Chat message"
             value={draft}
             maxLength={CHAT_TEXT_MAX}
-            onChange={(event) => setDraft(event.target.value)}
+            onChange={(event) => {
+              setDraft(event.target.value);
+              setHighlighted(0);
+            }}
             onKeyDown={(event) => {
+              if (suggestions.length > 0 && event.key === "Tab") {
+                event.preventDefault();
+                complete(suggestions[activeSuggestion].completion);
+                return;
+              }
+              if (
+                suggestions.length > 0 &&
+                (event.key === "ArrowDown" || event.key === "ArrowUp")
+              ) {
+                event.preventDefault();
+                const step = event.key === "ArrowDown" ? 1 : suggestions.length - 1;
+                setHighlighted((activeSuggestion + step) % suggestions.length);
+                return;
+              }
               // Enter sends; Shift+Enter is left alone so a future multiline
               // composer does not have to relitigate the binding.
               if (event.key === "Enter" && !event.shiftKey) {
@@ -153,7 +254,9 @@ export const ChatTab: React.FC<ChatTabProps> = ({ messages, players, currentUid,
               }
             }}
             placeholder={
-              effectiveTarget === WHOLE_TABLE ? "Say something..." : "Whisper something..."
+              effectiveTarget === WHOLE_TABLE
+                ? "Say something... (/ for commands)"
+                : "Whisper something..."
             }
             className="jrpg-text-small"
             style={{
@@ -13,6 +13,7 @@ import type { DiceRollMode, DiceVisibility } from "./types";
 import { DiceBar } from "./DiceBar";
 import { BuildStrip } from "./BuildStrip";
 import { MacroBar } from "./MacroBar";
+import type { DiceMacrosControl } from "./useDiceMacros";
 import { ResultPanel } from "./ResultPanel";
 import { RollOptions } from "./RollOptions";
 import { DraggableWindow } from "./DraggableWindow";
@@ -20,13 +21,28 @@ import { JRPGPanel, JRPGButton } from "../ui/JRPGPanel";
 
 interface DiceRollerProps {
   /** Ask the server to roll. The result returns through `latestOwnRoll`. */
-  onRoll?: (request: { formula: string; mode: DiceRollMode; visibility: DiceVisibility }) => void;
+  onRoll?: (request: {
+    formula: string;
+    mode: DiceRollMode;
+    visibility: DiceVisibility;
+    targetId?: string;
+  }) => void;
   /** Newest roll in history authored by this player. */
   latestOwnRoll?: RollLogEntry | null;
   onClose?: () => void;
+  /** Characters a roll may be made against. */
+  targets?: { id: string; name: string }[];
+  /** The saved macros the bar shows (useDiceMacros). */
+  macros?: DiceMacrosControl;
 }
 
-export const DiceRoller: React.FC<DiceRollerProps> = ({ onRoll, latestOwnRoll, onClose }) => {
+export const DiceRoller: React.FC<DiceRollerProps> = ({
+  onRoll,
+  latestOwnRoll,
+  onClose,
+  targets,
+  macros,
+}) => {
   const {
     build,
     setBuild,
@@ -34,6 +50,8 @@ export const DiceRoller: React.FC<DiceRollerProps> = ({ onRoll, latestOwnRoll, o
     setMode,
     visibility,
     setVisibility,
+    targetId,
+    setTargetId,
     result,
     setResult,
     isAnimating,
@@ -101,6 +119,9 @@ export const DiceRoller: React.FC<DiceRollerProps> = ({ onRoll, latestOwnRoll, o
             onModeChange={setMode}
             visibility={visibility}
             onVisibilityChange={setVisibility}
+            targets={targets}
+            targetId={targetId}
+            onTargetChange={setTargetId}
             disabled={isAnimating}
           />
 
@@ -109,6 +130,7 @@ export const DiceRoller: React.FC<DiceRollerProps> = ({ onRoll, latestOwnRoll, o
             onRollMacro={rollFormula}
             currentFormula={build.length > 0 ? formulaFromBuild(build) : ""}
             currentMode={mode}
+            macros={macros}
             disabled={isAnimating}
           />
 
@@ -1,13 +1,16 @@
 // ============================================================================
 // MACRO BAR — the rolls you make every session, one tap away
 // ============================================================================
-// Shared by both roller surfaces. Built-ins are always present; saved macros
-// are client-local (see diceMacros.ts for why) and can be removed.
+// Shared by both roller surfaces. Built-ins are always present; after them
+// come the active character's macros and the table's, both room state (see
+// useDiceMacros). Without `macros` — no room to save into — the bar is the
+// built-ins alone.
 
-import React, { useCallback, useState } from "react";
-import type { DiceRollMode } from "@herobyte/shared";
+import React, { useState } from "react";
+import { MACRO_LIMITS, type DiceRollMode } from "@herobyte/shared";
 import { JRPGButton } from "../ui/JRPGPanel";
-import { BUILTIN_MACROS, deleteMacro, loadMacros, saveMacro, type DiceMacro } from "./diceMacros";
+import { BUILTIN_MACROS, type DiceMacro } from "./diceMacros";
+import type { DiceMacrosControl, MacroScope } from "./useDiceMacros";
 
 interface MacroBarProps {
   /** Roll a macro. Its own mode wins over whatever the panel has selected. */
@@ -15,78 +18,122 @@ interface MacroBarProps {
   /** The formula the build strip currently describes, or "" when it is empty. */
   currentFormula: string;
   currentMode: DiceRollMode;
+  /** The saved lists and where a save goes. */
+  macros?: DiceMacrosControl;
   disabled?: boolean;
   compact?: boolean;
 }
 
+const deleteButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  color: "var(--hero-text-dim)",
+  cursor: "pointer",
+  fontSize: "10px",
+  padding: "2px",
+};
+
 export const MacroBar: React.FC<MacroBarProps> = ({
   onRollMacro,
   currentFormula,
   currentMode,
+  macros,
   disabled = false,
   compact = false,
 }) => {
-  const [saved, setSaved] = useState<DiceMacro[]>(() => loadMacros());
   const [naming, setNaming] = useState(false);
   const [label, setLabel] = useState("");
 
-  const commitSave = useCallback(() => {
-    if (!currentFormula || !label.trim()) {
-      setNaming(false);
-      setLabel("");
-      return;
-    }
-    setSaved(saveMacro(label, currentFormula, currentMode));
+  const activeCharacter = macros?.activeCharacter ?? null;
+  const canEditTable = macros?.canEditTable ?? false;
+  const canSave = Boolean(activeCharacter) || canEditTable;
+
+  const stopNaming = () => {
     setNaming(false);
     setLabel("");
-  }, [currentFormula, currentMode, label]);
+  };
+
+  /** Enter saves for the character when there is one, else for the table. */
+  const commitSave = (scope: MacroScope = activeCharacter ? "character" : "table") => {
+    if (currentFormula && label.trim()) {
+      macros?.saveMacro(scope, label, currentFormula, currentMode);
+    }
+    stopNaming();
+  };
 
   const buttonStyle = compact
     ? { padding: "10px 12px", fontSize: "11px" }
     : { padding: "6px 10px", fontSize: "8px" };
 
+  const renderMacro = (macro: DiceMacro, scope?: MacroScope) => (
+    <span key={macro.id} style={{ display: "inline-flex", alignItems: "center", gap: "2px" }}>
+      <JRPGButton
+        onClick={() => onRollMacro(macro.formula, macro.mode)}
+        disabled={disabled}
+        title={`Roll ${macro.formula}${macro.mode === "normal" ? "" : ` (${macro.mode})`}${
+          scope === "table" ? " — table macro" : ""
+        }`}
+        style={buttonStyle}
+      >
+        {macro.label}
+      </JRPGButton>
+      {scope && (scope === "character" || canEditTable) && (
+        <button
+          type="button"
+          aria-label={`Delete ${scope === "table" ? "table " : ""}macro ${macro.label}`}
+          onClick={() => macros?.deleteMacro(scope, macro.id)}
+          style={deleteButtonStyle}
+        >
+          ✕
+        </button>
+      )}
+    </span>
+  );
+
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: "6px" }}>
+      {macros && macros.characters.length > 1 && (
+        <select
+          aria-label="Macros for"
+          value={activeCharacter?.id ?? ""}
+          onChange={(event) => macros.setActiveCharacterId(event.target.value)}
+          style={{
+            alignSelf: "flex-start",
+            padding: compact ? "8px" : "4px",
+            fontSize: compact ? "12px" : "10px",
+            background: "rgba(0,0,0,0.4)",
+            border: "1px solid var(--hero-gold)",
+            color: "var(--jrpg-white)",
+          }}
+        >
+          {!activeCharacter && <option value="">No character</option>}
+          {macros.characters.map((character) => (
+            <option key={character.id} value={character.id}>
+              {character.name}
+            </option>
+          ))}
+        </select>
+      )}
+
       <div
         role="group"
         aria-label="Dice macros"
         style={{ display: "flex", gap: "6px", flexWrap: "wrap", alignItems: "center" }}
       >
-        {[...BUILTIN_MACROS, ...saved].map((macro) => (
-          <span key={macro.id} style={{ display: "inline-flex", alignItems: "center", gap: "2px" }}>
-            <JRPGButton
-              onClick={() => onRollMacro(macro.formula, macro.mode)}
-              disabled={disabled}
-              title={`Roll ${macro.formula}${macro.mode === "normal" ? "" : ` (${macro.mode})`}`}
-              style={buttonStyle}
-            >
-              {macro.label}
-            </JRPGButton>
-            {!macro.id.startsWith("builtin-") && (
-              <button
-                type="button"
-                aria-label={`Delete macro ${macro.label}`}
-                onClick={() => setSaved(deleteMacro(macro.id))}
-                style={{
-                  background: "none",
-                  border: "none",
-                  color: "var(--hero-text-dim)",
-                  cursor: "pointer",
-                  fontSize: "10px",
-                  padding: "2px",
-                }}
-              >
-                ✕
-              </button>
-            )}
+        {BUILTIN_MACROS.map((macro) => renderMacro(macro))}
+        {macros?.characterMacros.map((macro) => renderMacro(macro, "character"))}
+        {macros && macros.tableMacros.length > 0 && (
+          <span style={{ color: "var(--hero-text-dim)", fontSize: compact ? "11px" : "8px" }}>
+            TABLE
           </span>
-        ))}
+        )}
+        {macros?.tableMacros.map((macro) => renderMacro(macro, "table"))}
 
-        {currentFormula && !naming && (
+        {currentFormula && canSave && !naming && (
           <JRPGButton
             onClick={() => setNaming(true)}
             disabled={disabled}
-            title={`Save "${currentFormula}" as a macro on this device`}
+            title={`Save "${currentFormula}" as a macro for ${activeCharacter?.name ?? "the table"}`}
             style={buttonStyle}
           >
             + SAVE
@@ -102,12 +149,9 @@ export const MacroBar: React.FC<MacroBarProps> = ({
             onChange={(event) => setLabel(event.target.value)}
             onKeyDown={(event) => {
               if (event.key === "Enter") commitSave();
-              if (event.key === "Escape") {
-                setNaming(false);
-                setLabel("");
-              }
+              if (event.key === "Escape") stopNaming();
             }}
-            maxLength={24}
+            maxLength={MACRO_LIMITS.LABEL_MAX}
             aria-label="Macro name"
             placeholder={currentFormula}
             style={{
@@ -120,9 +164,25 @@ export const MacroBar: React.FC<MacroBarProps> = ({
               color: "var(--jrpg-white)",
             }}
           />
-          <JRPGButton onClick={commitSave} variant="primary" style={buttonStyle}>
-            SAVE
-          </JRPGButton>
+          {activeCharacter && (
+            <JRPGButton
+              onClick={() => commitSave("character")}
+              variant="primary"
+              title={`Save for ${activeCharacter.name}`}
+              style={buttonStyle}
+            >
+              SAVE
+            </JRPGButton>
+          )}
+          {canEditTable && (
+            <JRPGButton
+              onClick={() => commitSave("table")}
+              title="Save for everyone at the table"
+              style={buttonStyle}
+            >
+              FOR TABLE
+            </JRPGButton>
+          )}
         </div>
       )}
     </div>
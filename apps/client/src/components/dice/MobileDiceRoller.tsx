@@ -17,20 +17,32 @@ import type { DiceRollMode, DiceVisibility } from "./types";
 import { DiceBar } from "./DiceBar";
 import { BuildStrip } from "./BuildStrip";
 import { MacroBar } from "./MacroBar";
+import type { DiceMacrosControl } from "./useDiceMacros";
 import { MobileResultOverlay } from "./MobileResultOverlay";
 import { RollOptions } from "./RollOptions";
 import { JRPGButton } from "../ui/JRPGPanel";
 
 interface MobileDiceRollerProps {
-  onRoll?: (request: { formula: string; mode: DiceRollMode; visibility: DiceVisibility }) => void;
+  onRoll?: (request: {
+    formula: string;
+    mode: DiceRollMode;
+    visibility: DiceVisibility;
+    targetId?: string;
+  }) => void;
   latestOwnRoll?: RollLogEntry | null;
   onClose: () => void;
+  /** Characters a roll may be made against. */
+  targets?: { id: string; name: string }[];
+  /** The saved macros the bar shows (useDiceMacros). */
+  macros?: DiceMacrosControl;
 }
 
 export const MobileDiceRoller: React.FC<MobileDiceRollerProps> = ({
   onRoll,
   latestOwnRoll,
   onClose,
+  targets,
+  macros,
 }) => {
   const {
     build,
@@ -39,6 +51,8 @@ export const MobileDiceRoller: React.FC<MobileDiceRollerProps> = ({
     setMode,
     visibility,
     setVisibility,
+    targetId,
+    setTargetId,
     result,
     setResult,
     isAnimating,
@@ -142,6 +156,9 @@ export const MobileDiceRoller: React.FC<MobileDiceRollerProps> = ({
           onModeChange={setMode}
           visibility={visibility}
           onVisibilityChange={setVisibility}
+          targets={targets}
+          targetId={targetId}
+          onTargetChange={setTargetId}
           disabled={isAnimating}
           compact
         />
@@ -151,6 +168,7 @@ export const MobileDiceRoller: React.FC<MobileDiceRollerProps> = ({
           onRollMacro={rollFormula}
           currentFormula={build.length > 0 ? formulaFromBuild(build) : ""}
           currentMode={mode}
+          macros={macros}
           disabled={isAnimating}
           compact
         />
@@ -8,7 +8,11 @@
 // shell room to host two tabs instead.
 
 import React, { useState } from "react";
+import { DEATH_SAVE_RESULT_LABELS } from "@herobyte/shared";
 import { DIE_SYMBOLS } from "./types";
+import { thrownQty } from "./diceLogic";
+import { AttackSummary } from "./AttackSummary";
+import { RolledDiceFaces } from "./RolledDiceFaces";
 import { sanitizeText } from "../../utils/sanitize";
 import type { RollLogEntry } from "./rollLogTypes";
 
@@ -21,9 +25,16 @@ function isLongFormula(roll: RollLogEntry): boolean {
   return roll.formula.length > 30;
 }
 
-/** ADV / DIS / who could see it — the two things a total alone cannot say. */
+/**
+ * The verdict, ADV / DIS, and who could see it — the things a total alone
+ * cannot say. The verdict is the server's: the AC it was judged against never
+ * reaches a player, so the badge is all the log can show. A death save's
+ * verdict is what it did to the tally.
+ */
 function badgesFor(roll: RollLogEntry): string[] {
   const badges: string[] = [];
+  if (roll.outcome) badges.push(roll.outcome.toUpperCase());
+  if (roll.deathSave) badges.push(DEATH_SAVE_RESULT_LABELS[roll.deathSave].toUpperCase());
   if (roll.mode === "advantage") badges.push("ADV");
   if (roll.mode === "disadvantage") badges.push("DIS");
   if (roll.visibility === "dm") badges.push("DM ONLY");
@@ -38,7 +49,9 @@ function badgesFor(roll: RollLogEntry): string[] {
 export const RollEntry: React.FC<{
   roll: RollLogEntry;
   onViewRoll: (roll: RollLogEntry) => void;
-}> = ({ roll, onViewRoll }) => {
+  /** DM-only; offered on attack rows whose damage has not been applied yet. */
+  onApplyAttackDamage?: (rollId: string) => void;
+}> = ({ roll, onViewRoll, onApplyAttackDamage }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   // The formula is the SERVER's canonical string now, and the breakdown
   // carries each term's die. Both used to be read off a `tokens` array that
@@ -113,6 +126,24 @@ export const RollEntry: React.FC<{
         </div>
       </div>
 
+      {roll.attack && (
+        <AttackSummary
+          attack={roll.attack}
+          onApplyDamage={onApplyAttackDamage ? () => onApplyAttackDamage(roll.id) : undefined}
+        />
+      )}
+
+      {!roll.attack && roll.target && (
+        <div
+          className="jrpg-text-small"
+          style={{ color: "var(--jrpg-white)", marginBottom: "4px" }}
+          data-testid="roll-target"
+        >
+          {roll.deathSave ? "💀 Death save: " : "→ "}
+          {sanitizeText(roll.target.name)}
+        </div>
+      )}
+
       {/* Roll formula - improved formatting for long formulas */}
       <div
         className="jrpg-text-small"
@@ -168,7 +199,7 @@ export const RollEntry: React.FC<{
               }}
             >
               {roll.perDie.map((term, idx) => {
-                const qty = term.rolls?.length ?? 0;
+                const qty = thrownQty(term);
                 const negated = term.subtotal < 0;
                 return (
                   <React.Fragment key={term.tokenId}>
@@ -184,6 +215,7 @@ export const RollEntry: React.FC<{
                       >
                         <span style={{ fontSize: "12px" }}>{DIE_SYMBOLS[term.die]}</span>
                         <span>{qty > 1 ? `${qty}${term.die}` : term.die}</span>
+                        {term.dice && <RolledDiceFaces dice={term.dice} />}
                       </span>
                     ) : (
                       <span style={{ whiteSpace: "nowrap" }}>{Math.abs(term.subtotal)}</span>
@@ -35,6 +35,8 @@ export interface RollLogContentProps {
    * unchanged.
    */
   canClearLog?: boolean;
+  /** DM-only: apply an attack row's damage. Absent, no row offers the button. */
+  onApplyAttackDamage?: (rollId: string) => void;
 }
 
 type LogTab = "rolls" | "chat";
@@ -48,6 +50,7 @@ export const RollLogContent: React.FC<RollLogContentProps> = ({
   currentUid,
   onSendChat,
   canClearLog = true,
+  onApplyAttackDamage,
 }) => {
   const [tab, setTab] = useState<LogTab>("rolls");
   const chatEnabled = Boolean(onSendChat);
@@ -129,7 +132,14 @@ export const RollLogContent: React.FC<RollLogContentProps> = ({
               rolls
                 .slice()
                 .reverse()
-                .map((roll) => <RollEntry key={roll.id} roll={roll} onViewRoll={onViewRoll} />)
+                .map((roll) => (
+                  <RollEntry
+                    key={roll.id}
+                    roll={roll}
+                    onViewRoll={onViewRoll}
+                    onApplyAttackDamage={onApplyAttackDamage}
+                  />
+                ))
             )}
           </div>
         </JRPGPanel>
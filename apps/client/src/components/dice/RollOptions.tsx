@@ -1,11 +1,14 @@
 // ============================================================================
-// ROLL OPTIONS — advantage/disadvantage and who sees the result
+// ROLL OPTIONS — advantage/disadvantage, who sees the result, and at whom
 // ============================================================================
 // One component for both surfaces. The mobile dock is a hardcoded 5-column
 // grid (herobyte.css), so a new control cannot become a sixth dock button;
 // putting these inside the roller itself is how they reach a phone at all —
 // the same reasoning that made chat a tab in the roll log rather than a
 // button of its own.
+//
+// The target list is whatever characters this client was sent, so a hidden
+// NPC is never offered to a player: the recipient filter already took it out.
 
 import React from "react";
 import type { DiceRollMode, DiceVisibility } from "@herobyte/shared";
@@ -16,6 +19,10 @@ interface RollOptionsProps {
   onModeChange: (mode: DiceRollMode) => void;
   visibility: DiceVisibility;
   onVisibilityChange: (visibility: DiceVisibility) => void;
+  /** Characters a roll may be made against; no picker without them. */
+  targets?: { id: string; name: string }[];
+  targetId?: string;
+  onTargetChange?: (targetId: string) => void;
   disabled?: boolean;
   /** Touch targets and labels grow on the mobile overlay. */
   compact?: boolean;
@@ -38,6 +45,9 @@ export const RollOptions: React.FC<RollOptionsProps> = ({
   onModeChange,
   visibility,
   onVisibilityChange,
+  targets = [],
+  targetId = "",
+  onTargetChange,
   disabled = false,
   compact = false,
 }) => {
@@ -86,6 +96,30 @@ export const RollOptions: React.FC<RollOptionsProps> = ({
           </JRPGButton>
         ))}
       </div>
+
+      {onTargetChange && targets.length > 0 && (
+        <select
+          aria-label="Roll against"
+          value={targetId}
+          onChange={(e) => onTargetChange(e.target.value)}
+          disabled={disabled}
+          title="Judge a d20 roll against this character’s AC"
+          style={{
+            background: "#111",
+            color: "var(--jrpg-white)",
+            border: "1px solid var(--jrpg-border-gold)",
+            fontSize: compact ? "12px" : "10px",
+            padding: compact ? "8px" : "4px",
+          }}
+        >
+          <option value="">No target</option>
+          {targets.map((target) => (
+            <option key={target.id} value={target.id}>
+              {target.name}
+            </option>
+          ))}
+        </select>
+      )}
     </div>
   );
 };
@@ -7,6 +7,8 @@
 import React from "react";
 import type { RollResult } from "./types";
 import { DIE_SYMBOLS } from "./types";
+import { thrownQty } from "./diceLogic";
+import { RolledDiceFaces } from "./RolledDiceFaces";
 import { detectRollFlavor } from "../../features/juice";
 
 interface RollResultContentProps {
@@ -45,7 +47,7 @@ export const RollResultContent: React.FC<RollResultContentProps> = ({
           // no history entry has, so every roll opened from the log bailed out
           // here and showed a bare total. The server sends the die and its
           // faces on the entry itself; nothing else is needed.
-          const qty = roll.rolls?.length ?? 0;
+          const qty = thrownQty(roll);
           const negated = roll.subtotal < 0;
 
           return (
@@ -87,11 +89,18 @@ export const RollResultContent: React.FC<RollResultContentProps> = ({
                   </div>
                 )}
 
-                {/* Rolls breakdown */}
-                {roll.rolls && roll.rolls.length > 0 && (
+                {/* Rolls breakdown: every die, flagged, when keep/drop, explode or reroll applied */}
+                {roll.dice ? (
                   <div style={{ fontSize: "14px", color: "var(--hero-text-dim)" }}>
-                    [{roll.rolls.join(" + ")}]
+                    [<RolledDiceFaces dice={roll.dice} />]
                   </div>
+                ) : (
+                  roll.rolls &&
+                  roll.rolls.length > 0 && (
+                    <div style={{ fontSize: "14px", color: "var(--hero-text-dim)" }}>
+                      [{roll.rolls.join(" + ")}]
+                    </div>
+                  )
                 )}
 
                 {/* What advantage/disadvantage threw away */}
@@ -0,0 +1,49 @@
+// ============================================================================
+// ROLLED DICE FACES - every die of a keep/drop, exploding or rerolled term
+// ============================================================================
+// The server sends `dice` on a breakdown term only when its notation carried
+// a suffix (shared dice.ts), so a plain "2d6" never comes through here. The
+// roll log and the result window both draw it, which is why it is its own
+// file: one look for "this die did not count" across the two.
+
+import React from "react";
+import type { RolledDie } from "./types";
+
+/** What each flag looks like, and what its tooltip says it means. */
+function faceStyle(die: RolledDie): { style: React.CSSProperties; title?: string } {
+  if (die.rerolled) {
+    return { style: { textDecoration: "line-through", opacity: 0.4 }, title: "Rerolled" };
+  }
+  if (die.discarded) {
+    return { style: { textDecoration: "line-through", opacity: 0.5 }, title: "Dropped" };
+  }
+  if (die.exploded) {
+    return { style: { color: "var(--jrpg-gold)", fontWeight: "bold" }, title: "Exploded" };
+  }
+  return { style: {} };
+}
+
+/**
+ * The faces in the order they were thrown: struck through when a reroll or
+ * keep/drop left them out, gold with a "!" when an explosion added them.
+ */
+export const RolledDiceFaces: React.FC<{ dice: RolledDie[] }> = ({ dice }) => (
+  <span data-testid="rolled-dice-faces" style={{ display: "inline-flex", gap: "3px" }}>
+    {dice.map((die, index) => {
+      const { style, title } = faceStyle(die);
+      const counted = !die.rerolled && !die.discarded;
+      return (
+        <span
+          key={index}
+          data-testid="rolled-die"
+          data-counted={counted}
+          title={title}
+          style={style}
+        >
+          {die.value}
+          {die.exploded ? "!" : ""}
+        </span>
+      );
+    })}
+  </span>
+);
@@ -0,0 +1,77 @@
+/**
+ * Tests for attack rows in the roll log: who hit whom with what, and the DM's
+ * one-time "Apply damage".
+ */
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { RollLogContent } from "../RollLogContent";
+import type { RollLogEntry } from "../rollLogTypes";
+
+afterEach(() => cleanup());
+
+function attackRoll(applied?: boolean): RollLogEntry {
+  return {
+    id: "roll-1",
+    playerName: "DM",
+    formula: "d20 + 4",
+    perDie: [
+      { tokenId: "t0", die: "d20", rolls: [15], subtotal: 15 },
+      { tokenId: "t1", subtotal: 4 },
+    ],
+    total: 19,
+    timestamp: Date.now(),
+    attack: {
+      attackerId: "goblin-1",
+      attackerName: "Goblin 1",
+      attackName: "Scimitar",
+      targetId: "char-1",
+      targetName: "Aria",
+      damage: { formula: "d6 + 2", total: 6, breakdown: [], damageType: "slashing" },
+      ...(applied ? { applied } : {}),
+    },
+  };
+}
+
+describe("RollLogContent - attack rows", () => {
+  it("names the attacker, target and attack, with the damage rolled", () => {
+    render(<RollLogContent rolls={[attackRoll()]} onClearLog={vi.fn()} onViewRoll={vi.fn()} />);
+
+    expect(screen.getByTestId("roll-attack-summary")).toHaveTextContent(
+      "Goblin 1 → Aria: Scimitar",
+    );
+    expect(screen.getByText(/Damage 6 slashing/)).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Apply damage" })).not.toBeInTheDocument();
+  });
+
+  it("lets the DM apply the damage without opening the roll", () => {
+    const onApplyAttackDamage = vi.fn();
+    const onViewRoll = vi.fn();
+    render(
+      <RollLogContent
+        rolls={[attackRoll()]}
+        onClearLog={vi.fn()}
+        onViewRoll={onViewRoll}
+        onApplyAttackDamage={onApplyAttackDamage}
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "Apply damage" }));
+
+    expect(onApplyAttackDamage).toHaveBeenCalledWith("roll-1");
+    expect(onViewRoll).not.toHaveBeenCalled();
+  });
+
+  it("does not offer damage that was already applied", () => {
+    render(
+      <RollLogContent
+        rolls={[attackRoll(true)]}
+        onClearLog={vi.fn()}
+        onViewRoll={vi.fn()}
+        onApplyAttackDamage={vi.fn()}
+      />,
+    );
+
+    expect(screen.getByText("✓ applied")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Apply damage" })).not.toBeInTheDocument();
+  });
+});
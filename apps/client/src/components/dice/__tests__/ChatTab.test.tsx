@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, within } from "@testing-library/react";
 import type { ChatMessage, Player } from "@herobyte/shared";
 import { ChatTab } from "../ChatTab";
 import { RollLog } from "../RollLog";
@@ -41,6 +41,23 @@ describe("ChatTab", () => {
     expect(screen.getByText(/the door creaks/)).toBeInTheDocument();
   });
 
+  it("shows the table's own announcements without an author", () => {
+    render(
+      <ChatTab
+        messages={[
+          {
+            ...message({ authorUid: "", authorName: "", text: "Prone ends on Bob." }),
+            system: true,
+          },
+        ]}
+        players={players}
+        currentUid={ALICE}
+        onSendChat={vi.fn()}
+      />,
+    );
+    expect(screen.getByTestId("chat-message")).toHaveTextContent(/^⏳ Prone ends on Bob\.$/);
+  });
+
   it("sends a public message on the SEND button and clears the box", () => {
     const onSendChat = vi.fn();
     render(<ChatTab messages={[]} players={players} currentUid={ALICE} onSendChat={onSendChat} />);
@@ -139,6 +156,82 @@ describe("ChatTab", () => {
     expect(entry.textContent).not.toContain("&amp;");
   });
 
+  it("shows the server's [[...]] rolls as chips that open to their breakdown", () => {
+    const swing: ChatMessage = {
+      ...message({ text: "I swing [[1d20+5]] for [[sic]]" }),
+      inlineRolls: [
+        {
+          index: 0,
+          formula: "d20 + 5",
+          total: 19,
+          breakdown: [
+            { tokenId: "t0", die: "d20", rolls: [14], subtotal: 14 },
+            { tokenId: "t1", subtotal: 5 },
+          ],
+        },
+      ],
+    };
+    render(
+      <ChatTab messages={[swing]} players={players} currentUid={ALICE} onSendChat={vi.fn()} />,
+    );
+
+    // The unrolled bracket stays as typed.
+    expect(screen.getByTestId("chat-message").textContent).toContain("for [[sic]]");
+    const chip = screen.getByTestId("inline-roll");
+    expect(chip).toHaveTextContent("🎲 19");
+    expect(screen.queryByTestId("inline-roll-breakdown")).toBeNull();
+
+    fireEvent.click(chip);
+    expect(chip).toHaveAttribute("aria-expanded", "true");
+    expect(screen.getByTestId("inline-roll-breakdown")).toHaveTextContent("d20 + 5: [14] + 5 = 19");
+  });
+
+  it("draws /me as an emote, /ooc set apart and /desc without a name", () => {
+    render(
+      <ChatTab
+        messages={[
+          { ...message({ id: "a", text: "draws a sword" }), style: "emote" },
+          { ...message({ id: "b", text: "brb" }), style: "ooc" },
+          { ...message({ id: "c", text: "The door creaks." }), style: "desc" },
+        ]}
+        players={players}
+        currentUid={BOB}
+        onSendChat={vi.fn()}
+      />,
+    );
+
+    expect(screen.getAllByTestId("chat-message").map((entry) => entry.textContent)).toEqual([
+      "* Alice draws a sword",
+      "(OOC) Alice: brb",
+      "The door creaks.",
+    ]);
+  });
+
+  it("completes slash commands and whisper names with Tab", () => {
+    const onSendChat = vi.fn();
+    render(<ChatTab messages={[]} players={players} currentUid={ALICE} onSendChat={onSendChat} />);
+    const input = screen.getByLabelText("Chat message");
+
+    fireEvent.change(input, { target: { value: "/g" } });
+    const commands = () => screen.queryByRole("listbox", { name: "Chat commands" });
+    expect(
+      within(commands()!)
+        .getAllByRole("option")
+        .map((option) => option.textContent),
+    ).toEqual(["/gmr /gmr d20 — Roll dice only you and the DM see"]);
+    fireEvent.keyDown(input, { key: "Tab" });
+    expect(input).toHaveValue("/gmr ");
+
+    fireEvent.change(input, { target: { value: "/w b" } });
+    fireEvent.keyDown(input, { key: "Tab" });
+    expect(input).toHaveValue("/w Bob ");
+    expect(commands()).toBeNull();
+
+    // A player is not offered the DM's narration.
+    fireEvent.change(input, { target: { value: "/d" } });
+    expect(commands()).toBeNull();
+  });
+
   it("scrolls to the newest message when the log grows", () => {
     // Newest-last means a new message lands below the fold; without an
     // autoscroll you send a message and watch nothing happen.
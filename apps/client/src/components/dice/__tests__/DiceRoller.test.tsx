@@ -211,6 +211,30 @@ describe("DiceRoller", () => {
       });
     });
 
+    it("names the picked target, and offers no picker without targets", () => {
+      const { unmount } = render(<DiceRoller onClose={mockOnClose} onRoll={mockOnRoll} />);
+      expect(screen.queryByLabelText("Roll against")).not.toBeInTheDocument();
+      unmount();
+
+      render(
+        <DiceRoller
+          onClose={mockOnClose}
+          onRoll={mockOnRoll}
+          targets={[{ id: "goblin", name: "Goblin" }]}
+        />,
+      );
+      fireEvent.change(screen.getByLabelText("Roll against"), { target: { value: "goblin" } });
+      fireEvent.click(screen.getByRole("button", { name: /add d20/i }));
+      fireEvent.click(screen.getByRole("button", { name: /roll dice/i }));
+
+      expect(mockOnRoll).toHaveBeenCalledWith({
+        formula: "d20",
+        mode: "normal",
+        visibility: "public",
+        targetId: "goblin",
+      });
+    });
+
     it("rolls a built-in macro with the macro's own mode", () => {
       render(<DiceRoller onClose={mockOnClose} onRoll={mockOnRoll} />);
 
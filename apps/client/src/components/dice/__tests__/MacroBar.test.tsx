@@ -0,0 +1,142 @@
+/**
+ * Component tests for MacroBar with the real useDiceMacros behind it: which
+ * character's macros are on the bar, the table's beside them, and what a save
+ * or a delete sends to the server. Nothing is stored on the client, so the
+ * assertions are on the messages.
+ *
+ * Source: apps/client/src/components/dice/MacroBar.tsx
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import type { SnapshotCharacter } from "@herobyte/shared";
+import { MacroBar } from "../MacroBar";
+import { useDiceMacros, type UseDiceMacrosOptions } from "../useDiceMacros";
+import type { DiceMacro } from "../diceMacros";
+
+const LONGSWORD: DiceMacro = { id: "m1", label: "Longsword", formula: "1d8+3", mode: "normal" };
+const BITE: DiceMacro = { id: "m2", label: "Bite", formula: "2d4", mode: "normal" };
+const PERCEPTION: DiceMacro = { id: "t1", label: "Perception", formula: "d20", mode: "normal" };
+
+const ARIA: SnapshotCharacter = {
+  id: "aria",
+  name: "Aria",
+  type: "pc",
+  ownedByPlayerUID: "p1",
+  macros: [LONGSWORD],
+};
+const WOLF: SnapshotCharacter = { id: "wolf", name: "Wolf", type: "npc", macros: [BITE] };
+
+function Harness(props: UseDiceMacrosOptions & { currentFormula?: string }) {
+  const macros = useDiceMacros(props);
+  return (
+    <MacroBar
+      onRollMacro={vi.fn()}
+      currentFormula={props.currentFormula ?? ""}
+      currentMode="normal"
+      macros={macros}
+    />
+  );
+}
+
+const bar = () => within(screen.getByRole("group", { name: "Dice macros" }));
+
+describe("MacroBar", () => {
+  it("shows the player's character's macros and the table's, editing only their own", () => {
+    render(
+      <Harness
+        characters={[ARIA, WOLF]}
+        tableMacros={[PERCEPTION]}
+        uid="p1"
+        isDM={false}
+        sendMessage={vi.fn()}
+      />,
+    );
+
+    expect(bar().getByRole("button", { name: "Longsword" })).toBeInTheDocument();
+    expect(bar().getByRole("button", { name: "Perception" })).toBeInTheDocument();
+    expect(bar().queryByRole("button", { name: "Bite" })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Delete macro Longsword" })).toBeInTheDocument();
+    expect(
+      screen.queryByRole("button", { name: "Delete table macro Perception" }),
+    ).not.toBeInTheDocument();
+    // One character of their own: nothing to choose between.
+    expect(screen.queryByRole("combobox", { name: "Macros for" })).not.toBeInTheDocument();
+  });
+
+  it("saves into the active character's list and sends the whole list", () => {
+    const sendMessage = vi.fn();
+    render(
+      <Harness
+        characters={[ARIA]}
+        uid="p1"
+        isDM={false}
+        sendMessage={sendMessage}
+        currentFormula="d20+7"
+      />,
+    );
+
+    fireEvent.click(screen.getByRole("button", { name: "+ SAVE" }));
+    fireEvent.change(screen.getByRole("textbox", { name: "Macro name" }), {
+      target: { value: "Stealth" },
+    });
+    fireEvent.keyDown(screen.getByRole("textbox", { name: "Macro name" }), { key: "Enter" });
+
+    expect(sendMessage).toHaveBeenCalledWith({
+      t: "set-character-macros",
+      characterId: "aria",
+      macros: [LONGSWORD, expect.objectContaining({ label: "Stealth", formula: "d20+7" })],
+    });
+    expect(screen.queryByRole("button", { name: "FOR TABLE" })).not.toBeInTheDocument();
+  });
+
+  it("lets the DM pick any character, default to whoever's turn it is, and keep table macros", () => {
+    const sendMessage = vi.fn();
+    render(
+      <Harness
+        characters={[ARIA, WOLF]}
+        tableMacros={[PERCEPTION]}
+        currentTurnCharacterId="wolf"
+        uid="dm"
+        isDM
+        sendMessage={sendMessage}
+        currentFormula="d6"
+      />,
+    );
+
+    expect(screen.getByRole("combobox", { name: "Macros for" })).toHaveValue("wolf");
+    expect(bar().getByRole("button", { name: "Bite" })).toBeInTheDocument();
+
+    fireEvent.change(screen.getByRole("combobox", { name: "Macros for" }), {
+      target: { value: "aria" },
+    });
+    expect(bar().getByRole("button", { name: "Longsword" })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "Delete table macro Perception" }));
+    expect(sendMessage).toHaveBeenLastCalledWith({ t: "set-table-macros", macros: [] });
+
+    fireEvent.click(screen.getByRole("button", { name: "+ SAVE" }));
+    fireEvent.change(screen.getByRole("textbox", { name: "Macro name" }), {
+      target: { value: "Morale" },
+    });
+    fireEvent.click(screen.getByRole("button", { name: "FOR TABLE" }));
+    expect(sendMessage).toHaveBeenLastCalledWith({
+      t: "set-table-macros",
+      macros: [PERCEPTION, expect.objectContaining({ label: "Morale", formula: "d6" })],
+    });
+  });
+
+  it("offers no save to a player without a character", () => {
+    render(
+      <Harness
+        characters={[WOLF]}
+        uid="p1"
+        isDM={false}
+        sendMessage={vi.fn()}
+        currentFormula="d6"
+      />,
+    );
+
+    expect(screen.queryByRole("button", { name: "+ SAVE" })).not.toBeInTheDocument();
+  });
+});
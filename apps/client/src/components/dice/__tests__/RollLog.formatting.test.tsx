@@ -189,6 +189,51 @@ describe("RollLog - Long Formula Formatting", () => {
     expect(screen.getByTitle("Expand formula")).toBeInTheDocument();
   });
 
+  it("labels a keep-highest term by the dice thrown and strikes out the dropped ones", () => {
+    const stat: RollLogEntry = {
+      ...createRoll([{ kind: "die", die: "d6", qty: 4, id: "1" }]),
+      formula: "4d6!kh3",
+      perDie: [
+        {
+          tokenId: "t0",
+          die: "d6",
+          rolls: [6, 6, 4],
+          dice: [
+            { value: 6 },
+            { value: 6, exploded: true },
+            { value: 1, discarded: true },
+            { value: 3, discarded: true },
+            { value: 4 },
+          ],
+          subtotal: 16,
+        },
+      ],
+    };
+
+    render(
+      <RollLog
+        rolls={[stat]}
+        onClearLog={mockOnClearLog}
+        onViewRoll={mockOnViewRoll}
+        onClose={mockOnClose}
+      />,
+    );
+
+    // Three faces counted and five landed, but the formula threw four.
+    expect(screen.getByText("4d6")).toBeInTheDocument();
+    const faces = screen.getAllByTestId("rolled-die");
+    expect(faces.map((face) => face.textContent)).toEqual(["6", "6!", "1", "3", "4"]);
+    expect(faces.map((face) => face.dataset.counted)).toEqual([
+      "true",
+      "true",
+      "false",
+      "false",
+      "true",
+    ]);
+    expect(faces[2]).toHaveStyle({ textDecoration: "line-through" });
+    expect(faces[1]).toHaveAttribute("title", "Exploded");
+  });
+
   describe("badges", () => {
     // The badge row is the ONLY thing in the log that distinguishes an
     // advantage roll from a normal one, or a private roll from a public one.
@@ -229,5 +274,23 @@ describe("RollLog - Long Formula Formatting", () => {
         "PRIVATE",
       ]);
     });
+
+    it("leads with the server's verdict and names a plain roll's target", () => {
+      renderLog(
+        withFlags({ outcome: "crit", mode: "advantage", target: { id: "g", name: "Goblin" } }),
+      );
+      expect(screen.getAllByTestId("roll-badge").map((n) => n.textContent)).toEqual([
+        "CRIT",
+        "ADV",
+      ]);
+      expect(screen.getByTestId("roll-target")).toHaveTextContent("→ Goblin");
+    });
+
+    it("says what a death save did and whose it was", () => {
+      renderLog(withFlags({ deathSave: "revived", target: { id: "a", name: "Aria" } }));
+
+      expect(screen.getByTestId("roll-badge")).toHaveTextContent("REVIVED");
+      expect(screen.getByTestId("roll-target")).toHaveTextContent("💀 Death save: Aria");
+    });
   });
 });
@@ -1,46 +1,22 @@
 /**
- * Tests for diceMacros — the client-local saved-roll store.
+ * Tests for diceMacros — the list edits the macro bar makes before sending a
+ * list to the server, and the one-time hand-over of macros an older build
+ * kept in localStorage.
  *
- * Every accessor goes through a defensive localStorage wrapper, and every
- * entry is re-validated with the SERVER's parser on read, because the store is
- * user-editable through devtools. Both of those are the point of the module,
- * so both are pinned here rather than assumed.
+ * The edits decide what a player's saved rolls become, so the rules (trim,
+ * refuse, replace on rename, cap) are pinned here rather than assumed. The
+ * old store was user-editable through devtools, so reading it is checked
+ * against junk as well.
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
-import { BUILTIN_MACROS, deleteMacro, loadMacros, saveMacro } from "../diceMacros";
+import { MACRO_LIMITS, type DiceMacro } from "@herobyte/shared";
+import { BUILTIN_MACROS, takeLegacyMacros, withMacro, withoutMacro } from "../diceMacros";
 
 const KEY = "herobyte.dice.macros";
+const MAX = MACRO_LIMITS.CHARACTER_MAX;
 
 describe("diceMacros", () => {
-  let store: Record<string, string>;
-
-  beforeEach(() => {
-    // The environment's localStorage is a partial stub, so the suite installs
-    // its own — the same shape DraggableWindow.test.tsx uses.
-    store = {};
-    Object.defineProperty(window, "localStorage", {
-      value: {
-        getItem: vi.fn((key: string) => store[key] ?? null),
-        setItem: vi.fn((key: string, value: string) => {
-          store[key] = value;
-        }),
-        removeItem: vi.fn((key: string) => {
-          delete store[key];
-        }),
-        clear: vi.fn(() => {
-          store = {};
-        }),
-      },
-      writable: true,
-      configurable: true,
-    });
-  });
-
-  afterEach(() => {
-    vi.restoreAllMocks();
-  });
-
   describe("built-ins", () => {
     it("are every one a formula the server would accept", async () => {
       const { parseDiceFormula } = await import("@herobyte/shared");
@@ -59,47 +35,47 @@ describe("diceMacros", () => {
   });
 
   describe("saving", () => {
-    it("round-trips a saved macro", () => {
-      const saved = saveMacro("Sneak", "2d6 + 3", "normal");
+    it("appends a macro with a fresh id", () => {
+      const saved = withMacro([], "Sneak", "2d6 + 3", "normal", MAX);
 
       expect(saved).toHaveLength(1);
       expect(saved[0]).toMatchObject({ label: "Sneak", formula: "2d6 + 3", mode: "normal" });
-      expect(loadMacros()).toEqual(saved);
+      expect(saved[0]?.id).toBeTruthy();
     });
 
     it("trims and caps the label", () => {
-      const saved = saveMacro(`   ${"x".repeat(40)}   `, "d20", "normal");
-      expect(saved[0]?.label).toHaveLength(24);
+      const saved = withMacro([], `   ${"x".repeat(40)}   `, "d20", "normal", MAX);
+      expect(saved[0]?.label).toHaveLength(MACRO_LIMITS.LABEL_MAX);
     });
 
     it("refuses an empty label or a formula the server would reject", () => {
-      expect(saveMacro("   ", "d20", "normal")).toEqual([]);
-      expect(saveMacro("Nope", "2d7", "normal")).toEqual([]);
-      expect(saveMacro("Nope", "", "normal")).toEqual([]);
-      expect(loadMacros()).toEqual([]);
+      const kept = withMacro([], "A", "d4", "normal", MAX);
+      expect(withMacro(kept, "   ", "d20", "normal", MAX)).toEqual(kept);
+      expect(withMacro(kept, "Nope", "2d7", "normal", MAX)).toEqual(kept);
+      expect(withMacro(kept, "Nope", "", "normal", MAX)).toEqual(kept);
     });
 
     it("replaces rather than duplicating when the same roll is renamed", () => {
-      saveMacro("Attack", "d20 + 5", "advantage");
-      const saved = saveMacro("Sneak Attack", "d20 + 5", "advantage");
+      const first = withMacro([], "Attack", "d20 + 5", "advantage", MAX);
+      const saved = withMacro(first, "Sneak Attack", "d20 + 5", "advantage", MAX);
 
       expect(saved).toHaveLength(1);
       expect(saved[0]?.label).toBe("Sneak Attack");
     });
 
     it("replaces rather than duplicating when a name is reused", () => {
-      saveMacro("Attack", "d20 + 5", "normal");
-      const saved = saveMacro("Attack", "2d6", "normal");
+      const first = withMacro([], "Attack", "d20 + 5", "normal", MAX);
+      const saved = withMacro(first, "Attack", "2d6", "normal", MAX);
 
       expect(saved).toHaveLength(1);
       expect(saved[0]?.formula).toBe("2d6");
     });
 
     it("keeps only the newest entries past the cap", () => {
-      for (let i = 0; i < 20; i++) saveMacro(`m${i}`, `${i + 1}d6`, "normal");
+      let saved: DiceMacro[] = [];
+      for (let i = 0; i < 20; i++) saved = withMacro(saved, `m${i}`, `${i + 1}d6`, "normal", MAX);
 
-      const saved = loadMacros();
-      expect(saved).toHaveLength(12);
+      expect(saved).toHaveLength(MAX);
       expect(saved.at(-1)?.label).toBe("m19");
       expect(saved.map((macro) => macro.label)).not.toContain("m0");
     });
@@ -107,35 +83,69 @@ describe("diceMacros", () => {
 
   describe("deleting", () => {
     it("forgets one macro and leaves the rest", () => {
-      saveMacro("A", "d4", "normal");
-      const saved = saveMacro("B", "d6", "normal");
+      const saved = withMacro(withMacro([], "A", "d4", "normal", MAX), "B", "d6", "normal", MAX);
       const target = saved.find((macro) => macro.label === "A")!;
 
-      const left = deleteMacro(target.id);
+      expect(withoutMacro(saved, target.id).map((macro) => macro.label)).toEqual(["B"]);
+    });
+  });
 
-      expect(left.map((macro) => macro.label)).toEqual(["B"]);
-      expect(loadMacros()).toEqual(left);
+  describe("macros an older build kept in this browser", () => {
+    let store: Record<string, string>;
+
+    beforeEach(() => {
+      // The environment's localStorage is a partial stub, so the suite installs
+      // its own — the same shape DraggableWindow.test.tsx uses.
+      store = {};
+      Object.defineProperty(window, "localStorage", {
+        value: {
+          getItem: vi.fn((key: string) => store[key] ?? null),
+          setItem: vi.fn((key: string, value: string) => {
+            store[key] = value;
+          }),
+          removeItem: vi.fn((key: string) => {
+            delete store[key];
+          }),
+          clear: vi.fn(() => {
+            store = {};
+          }),
+        },
+        writable: true,
+        configurable: true,
+      });
     });
 
-    it("cannot remove a built-in", () => {
-      saveMacro("A", "d4", "normal");
-      expect(deleteMacro("builtin-d20")).toHaveLength(1);
+    afterEach(() => {
+      vi.restoreAllMocks();
     });
-  });
 
-  describe("a hostile or broken store", () => {
-    it("ignores stored junk rather than rendering it", () => {
+    it("are handed over once, with new ids, and then forgotten", () => {
+      store[KEY] = JSON.stringify([
+        {
+          id: `macro-Sneak-${"1d6+".repeat(20)}1-normal`,
+          label: "Sneak",
+          formula: "2d6",
+          mode: "normal",
+        },
+      ]);
+
+      const taken = takeLegacyMacros();
+      expect(taken).toHaveLength(1);
+      expect(taken[0]).toMatchObject({ label: "Sneak", formula: "2d6", mode: "normal" });
+      expect(taken[0]?.id.length).toBeLessThanOrEqual(MACRO_LIMITS.ID_MAX);
+      expect(store[KEY]).toBeUndefined();
+      expect(takeLegacyMacros()).toEqual([]);
+    });
+
+    it("ignores stored junk rather than handing it over", () => {
       store[KEY] = "not json at all";
-      expect(loadMacros()).toEqual([]);
+      expect(takeLegacyMacros()).toEqual([]);
 
       store[KEY] = JSON.stringify({ not: "an array" });
-      expect(loadMacros()).toEqual([]);
+      expect(takeLegacyMacros()).toEqual([]);
     });
 
     it("drops an entry whose formula the server would now refuse", () => {
-      // Hand-edited through devtools, or written by an older build with looser
-      // limits. It should disappear from the bar, not sit there failing every
-      // time it is tapped.
       store[KEY] = JSON.stringify([
         { id: "ok", label: "Good", formula: "d20", mode: "normal" },
         { id: "bad", label: "Bad", formula: "999d20", mode: "normal" },
@@ -143,7 +153,7 @@ describe("diceMacros", () => {
         { id: "shapeless", label: 42, formula: "d6", mode: "normal" },
       ]);
 
-      expect(loadMacros().map((macro) => macro.id)).toEqual(["ok"]);
+      expect(takeLegacyMacros().map((macro) => macro.label)).toEqual(["Good"]);
     });
 
     it("degrades to no macros when localStorage throws", () => {
@@ -151,16 +161,8 @@ describe("diceMacros", () => {
         throw new Error("SecurityError");
       });
 
-      expect(() => loadMacros()).not.toThrow();
-      expect(loadMacros()).toEqual([]);
-    });
-
-    it("does not lose the roll in progress when the store is full", () => {
-      vi.mocked(window.localStorage.setItem).mockImplementation(() => {
-        throw new Error("QuotaExceededError");
-      });
-
-      expect(() => saveMacro("Big", "d20", "normal")).not.toThrow();
+      expect(() => takeLegacyMacros()).not.toThrow();
+      expect(takeLegacyMacros()).toEqual([]);
     });
   });
 });
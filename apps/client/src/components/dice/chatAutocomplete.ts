@@ -0,0 +1,62 @@
+// ============================================================================
+// CHAT AUTOCOMPLETE - what the chat box offers while a command is typed
+// ============================================================================
+// Pure, so ChatTab only has to draw the list. Two things complete: the
+// command name itself ("/g" → "/gmr "), and the player a /w is for
+// ("/w al" → "/w Alice "). The command list is shared CHAT_COMMANDS, the same
+// table the server parses against, so a completion is always a command the
+// server knows.
+
+import { CHAT_COMMANDS, findChatCommand, type Player } from "@herobyte/shared";
+
+export interface ChatSuggestion {
+  /** What the list shows: "/gmr" or "Alice". */
+  label: string;
+  /** A word on what it does. */
+  hint: string;
+  /** The draft after choosing it, trailing space included. */
+  completion: string;
+}
+
+/** A name with a space in it goes in quotes, which is how /w reads it back. */
+function whisperName(name: string): string {
+  return /\s/.test(name) ? `"${name}"` : name;
+}
+
+/**
+ * Suggestions for the draft as it stands, or none. DM-only commands are not
+ * offered to players; the server would refuse them anyway.
+ */
+export function chatSuggestions(
+  draft: string,
+  whisperTargets: Pick<Player, "name">[],
+  isDM: boolean,
+): ChatSuggestion[] {
+  const typingCommand = /^\/(\S*)$/.exec(draft);
+  if (typingCommand) {
+    const typed = typingCommand[1].toLowerCase();
+    return CHAT_COMMANDS.filter(
+      (command) =>
+        (isDM || !command.dmOnly) &&
+        [command.name, ...command.aliases].some((name) => name.startsWith(typed)),
+    ).map((command) => ({
+      label: `/${command.name}`,
+      hint: `${command.usage} — ${command.description}`,
+      completion: `/${command.name} `,
+    }));
+  }
+
+  const typingName = /^\/(\S+)\s+([^\s"]*)$/.exec(draft);
+  if (typingName && findChatCommand(typingName[1])?.name === "w") {
+    const typed = typingName[2].toLowerCase();
+    return whisperTargets
+      .filter((player) => player.name.toLowerCase().startsWith(typed))
+      .map((player) => ({
+        label: player.name,
+        hint: "Whisper",
+        completion: `/w ${whisperName(player.name)} `,
+      }));
+  }
+
+  return [];
+}
@@ -30,6 +30,19 @@ export function formulaFromBuild(build: Build): string {
   return formatDiceTerms(terms);
 }
 
+/**
+ * How many dice a breakdown term was written with — the 4 of "4d6kh3".
+ *
+ * `rolls` holds only the faces that counted, so once keep/drop, rerolls or
+ * explosions are in play its length is the wrong answer: the dice the
+ * formula asked for are the ones that were neither a reroll's replaced face
+ * nor an explosion's extra die.
+ */
+export function thrownQty(term: RollResult["perDie"][number]): number {
+  if (!term.dice) return term.rolls?.length ?? 0;
+  return term.dice.filter((die) => !die.rerolled && !die.exploded).length;
+}
+
 /**
  * Format a settled roll as copyable text.
  * Example: "2d20 + 5 → 26"
@@ -1,28 +1,28 @@
 // ============================================================================
 // SAVED MACROS — a formula you roll often, one tap away
 // ============================================================================
-// Deliberately CLIENT-LOCAL (localStorage), not room state. A macro is a
-// personal shortcut, like a browser bookmark: it changes nothing another
-// player can observe, and putting it in RoomState would mean a new persisted
-// collection, a snapshot limit, and a per-player namespace inside shared state
-// — real cost for something whose whole value is that it is yours.
+// Macros are room state now (shared diceMacros.ts): each character carries
+// its own, and the DM keeps a list for the whole table. That is what lets a
+// player who saved "Longsword" on their laptop find it on their tablet the
+// next session. This file is the list editing the macro bar does before it
+// sends a list back — pure, so the rules below are testable without a socket.
 //
-// The consequence, and it is the honest trade: macros do not follow you to
-// another browser or device. Say so rather than pretending otherwise.
+// Macros used to live in this browser's localStorage alone. Whatever is still
+// stored there is handed over once (takeLegacyMacros) to the player's
+// character, then forgotten.
 
-import type { DiceRollMode } from "@herobyte/shared";
-import { parseDiceFormula } from "@herobyte/shared";
+import {
+  MACRO_LIMITS,
+  coerceDiceMacros,
+  parseDiceFormula,
+  type DiceMacro,
+  type DiceRollMode,
+} from "@herobyte/shared";
+import { generateUUID } from "../../utils/uuid";
 
-export interface DiceMacro {
-  id: string;
-  label: string;
-  formula: string;
-  mode: DiceRollMode;
-}
+export type { DiceMacro };
 
-const STORAGE_KEY = "herobyte.dice.macros";
-const MAX_MACROS = 12;
-const MAX_LABEL = 24;
+const LEGACY_STORAGE_KEY = "herobyte.dice.macros";
 
 /** Always present, never editable — the rolls every table makes. */
 export const BUILTIN_MACROS: readonly DiceMacro[] = [
@@ -35,11 +35,40 @@ export const BUILTIN_MACROS: readonly DiceMacro[] = [
   { id: "builtin-2d6", label: "2d6", formula: "2d6", mode: "normal" },
 ];
 
+/**
+ * The list with a macro saved into it, newest last, or the list unchanged
+ * when the label is empty or the formula would not roll.
+ *
+ * Saving the same formula+mode under a new name REPLACES the old entry rather
+ * than stacking a duplicate, because the common gesture is "rename the one I
+ * just made". Past `max` the oldest entries go.
+ */
+export function withMacro(
+  macros: readonly DiceMacro[],
+  label: string,
+  formula: string,
+  mode: DiceRollMode,
+  max: number,
+): DiceMacro[] {
+  const trimmed = label.trim().slice(0, MACRO_LIMITS.LABEL_MAX);
+  if (!trimmed || !parseDiceFormula(formula).ok) return [...macros];
+
+  const kept = macros.filter(
+    (macro) => !(macro.formula === formula && macro.mode === mode) && macro.label !== trimmed,
+  );
+  const macro: DiceMacro = { id: generateUUID(), label: trimmed, formula, mode };
+  return [...kept, macro].slice(-max);
+}
+
+/** The list without one macro. */
+export function withoutMacro(macros: readonly DiceMacro[], id: string): DiceMacro[] {
+  return macros.filter((macro) => macro.id !== id);
+}
+
 /**
  * localStorage is not guaranteed present (private modes, embedded webviews,
- * SSR-ish test environments). Every accessor goes through this, so a missing
- * or throwing store degrades to "no saved macros" rather than a crash on
- * panel open — same defensive shape as DraggableWindow's position storage.
+ * SSR-ish test environments), so a missing or throwing store reads as "no old
+ * macros" rather than a crash on panel open.
  */
 function storage(): Storage | null {
   try {
@@ -49,73 +78,28 @@ function storage(): Storage | null {
   }
 }
 
-function isMacro(value: unknown): value is DiceMacro {
-  if (typeof value !== "object" || value === null) return false;
-  const macro = value as Partial<DiceMacro>;
-  return (
-    typeof macro.id === "string" &&
-    typeof macro.label === "string" &&
-    typeof macro.formula === "string" &&
-    parseDiceFormula(macro.formula).ok
-  );
-}
-
 /**
- * The player's own macros, newest last.
- *
- * Entries are re-validated on read, not just on write: the value is
- * user-editable through devtools, and a stored formula the server would refuse
- * should disappear from the bar rather than sit there failing every time it is
- * tapped.
+ * The macros an older build saved in this browser, removed from it as they
+ * are read. They are re-validated with the server's rules: the value was
+ * user-editable through devtools, and one the server would refuse is dropped
+ * here rather than refusing the whole list it is sent in.
  */
-export function loadMacros(): DiceMacro[] {
+export function takeLegacyMacros(): DiceMacro[] {
   const store = storage();
   if (!store) return [];
   try {
-    const raw = store.getItem(STORAGE_KEY);
+    const raw = store.getItem(LEGACY_STORAGE_KEY);
     if (!raw) return [];
+    store.removeItem(LEGACY_STORAGE_KEY);
     const parsed: unknown = JSON.parse(raw);
     if (!Array.isArray(parsed)) return [];
-    return parsed.filter(isMacro).slice(0, MAX_MACROS);
+    // Fresh ids: the old ones were built from the label and formula, and can
+    // run past ID_MAX.
+    const renamed = parsed.map((entry: unknown) =>
+      entry && typeof entry === "object" ? { ...entry, id: generateUUID() } : entry,
+    );
+    return coerceDiceMacros(renamed, MACRO_LIMITS.CHARACTER_MAX);
   } catch {
     return [];
   }
 }
-
-function persist(macros: DiceMacro[]): DiceMacro[] {
-  const store = storage();
-  try {
-    store?.setItem(STORAGE_KEY, JSON.stringify(macros));
-  } catch {
-    // A full or disabled store must not lose the roll the player is making.
-  }
-  return macros;
-}
-
-/**
- * Save a macro and return the new list.
- *
- * Saving the same formula+mode under a new name REPLACES the old entry rather
- * than stacking a duplicate, because the common gesture is "rename the one I
- * just made".
- */
-export function saveMacro(label: string, formula: string, mode: DiceRollMode): DiceMacro[] {
-  const trimmed = label.trim().slice(0, MAX_LABEL);
-  if (!trimmed || !parseDiceFormula(formula).ok) return loadMacros();
-
-  const existing = loadMacros().filter(
-    (macro) => !(macro.formula === formula && macro.mode === mode) && macro.label !== trimmed,
-  );
-  const macro: DiceMacro = {
-    id: `macro-${trimmed}-${formula}-${mode}`,
-    label: trimmed,
-    formula,
-    mode,
-  };
-  return persist([...existing, macro].slice(-MAX_MACROS));
-}
-
-/** Forget one macro and return the new list. Built-ins are not removable. */
-export function deleteMacro(id: string): DiceMacro[] {
-  return persist(loadMacros().filter((macro) => macro.id !== id));
-}
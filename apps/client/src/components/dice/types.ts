@@ -8,11 +8,24 @@
 // (S5). Before that, `rollBuild` did the conversion here and the server stored
 // whatever it was handed (arc defect D2).
 
-import type { DiceRollMode, DiceVisibility, DieType } from "@herobyte/shared";
+import type {
+  AttackRollDetail,
+  DeathSaveResult,
+  DiceRollMode,
+  DiceVisibility,
+  DieType,
+  FUDGE_DIE,
+  RolledDie,
+  RollOutcome,
+  RollTarget,
+} from "@herobyte/shared";
 
 // Re-exported rather than redeclared: the die list is the roller's contract
 // with the server's parser, and two copies of it would eventually disagree.
-export type { DieType, DiceRollMode, DiceVisibility };
+export type { DieType, DiceRollMode, DiceVisibility, RolledDie };
+
+/** A die a settled roll can name: the build strip's, or a fudge die from typed notation. */
+export type RolledDieType = DieType | typeof FUDGE_DIE;
 
 export type Token =
   | { kind: "die"; die: DieType; qty: number; id: string }
@@ -36,15 +49,25 @@ export type RollResult = {
   formula: string;
   perDie: {
     tokenId: string;
-    die?: DieType;
+    die?: RolledDieType;
     rolls?: number[];
     /** Under advantage/disadvantage, the set that was thrown away. */
     dropped?: number[];
+    /** Every die, flagged, when the term kept, dropped, exploded or rerolled. */
+    dice?: RolledDie[];
     subtotal: number;
   }[];
   total: number;
   mode?: DiceRollMode;
   visibility?: DiceVisibility;
+  /** Present when this was a named attack; the formula and total above are its to-hit roll. */
+  attack?: AttackRollDetail;
+  /** Who a plain targeted roll was made against (an attack names its own). */
+  target?: RollTarget;
+  /** Hit, miss or crit, settled by the server against an AC this side never sees. */
+  outcome?: RollOutcome;
+  /** A death save, and what it did to the PC named in `target`. */
+  deathSave?: DeathSaveResult;
   timestamp: number;
 };
 
@@ -58,7 +81,7 @@ export const DIE_COLORS: Record<DieType, string> = {
   d100: "#F3C64E", // HeroByte gold
 };
 
-export const DIE_SYMBOLS: Record<DieType, string> = {
+export const DIE_SYMBOLS: Record<RolledDieType, string> = {
   d4: "▲",
   d6: "⬢",
   d8: "◆",
@@ -66,4 +89,5 @@ export const DIE_SYMBOLS: Record<DieType, string> = {
   d12: "⬣",
   d20: "◉",
   d100: "%",
+  dF: "±",
 };
@@ -35,7 +35,12 @@ const RESPONSE_TIMEOUT_MS = 6000;
 
 export interface UseDiceBuildOptions {
   /** Ask the server to roll. The result comes back via `latestOwnRoll`. */
-  onRoll?: (request: { formula: string; mode: DiceRollMode; visibility: DiceVisibility }) => void;
+  onRoll?: (request: {
+    formula: string;
+    mode: DiceRollMode;
+    visibility: DiceVisibility;
+    targetId?: string;
+  }) => void;
   /** Newest roll in history authored by this player, straight from the snapshot. */
   latestOwnRoll?: RollLogEntry | null;
 }
@@ -44,6 +49,8 @@ export function useDiceBuild({ onRoll, latestOwnRoll }: UseDiceBuildOptions) {
   const [build, setBuild] = useState<Build>([]);
   const [mode, setMode] = useState<DiceRollMode>("normal");
   const [visibility, setVisibility] = useState<DiceVisibility>("public");
+  /** The character the next roll is made against; "" rolls at no one. */
+  const [targetId, setTargetId] = useState("");
   const [result, setResult] = useState<RollResult | null>(null);
   const [isAnimating, setIsAnimating] = useState(false);
   /** Why the last roll was refused, or null. Shown next to the ROLL button. */
@@ -118,7 +125,7 @@ export function useDiceBuild({ onRoll, latestOwnRoll }: UseDiceBuildOptions) {
       rollStartedAt.current = Date.now();
       setIsAnimating(true);
       play("diceRattle");
-      onRoll({ formula, mode: macroMode, visibility });
+      onRoll({ formula, mode: macroMode, visibility, ...(targetId ? { targetId } : {}) });
       timers.current.push(
         setTimeout(() => {
           // Give the controls back, but stay ARMED: the request is not
@@ -128,7 +135,7 @@ export function useDiceBuild({ onRoll, latestOwnRoll }: UseDiceBuildOptions) {
         }, RESPONSE_TIMEOUT_MS),
       );
     },
-    [clearTimers, isAnimating, latestOwnRoll, mode, onRoll, play, visibility],
+    [clearTimers, isAnimating, latestOwnRoll, mode, onRoll, play, targetId, visibility],
   );
 
   const roll = useCallback(() => {
@@ -173,6 +180,8 @@ export function useDiceBuild({ onRoll, latestOwnRoll }: UseDiceBuildOptions) {
     setMode,
     visibility,
     setVisibility,
+    targetId,
+    setTargetId,
     result,
     setResult,
     isAnimating,
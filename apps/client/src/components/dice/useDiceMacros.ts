@@ -0,0 +1,131 @@
+// ============================================================================
+// useDiceMacros — which macros the bar shows, and where a save goes
+// ============================================================================
+// The macro bar shows three lists: the built-ins, the ACTIVE character's own
+// macros, and the table's. Nothing is stored here — both saved lists come in
+// the snapshot, and every edit sends the whole edited list back
+// (`set-character-macros`, `set-table-macros`), so the bar on a player's
+// tablet shows what they saved on their laptop.
+//
+// Which character is active: the one picked in the bar, when there is a
+// choice and one was picked; otherwise the one whose turn it is, if it is
+// yours to roll for; otherwise your first. A player may pick among their own
+// characters, the DM among every character — that is how an NPC gets its
+// macros. The server checks the same rule (owner or DM) on every save.
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  MACRO_LIMITS,
+  type ClientMessage,
+  type DiceRollMode,
+  type SnapshotCharacter,
+} from "@herobyte/shared";
+import { takeLegacyMacros, withMacro, withoutMacro, type DiceMacro } from "./diceMacros";
+
+/** Which saved list a save or a delete is for. */
+export type MacroScope = "character" | "table";
+
+export interface UseDiceMacrosOptions {
+  /** Every character this client was sent. */
+  characters: SnapshotCharacter[];
+  tableMacros?: DiceMacro[];
+  currentTurnCharacterId?: string;
+  uid: string;
+  isDM: boolean;
+  sendMessage: (message: ClientMessage) => void;
+}
+
+/** Everything MacroBar needs to show and edit the saved lists. */
+export interface DiceMacrosControl {
+  /** The characters whose macros this client may show and edit. */
+  characters: { id: string; name: string }[];
+  activeCharacter: { id: string; name: string } | null;
+  setActiveCharacterId: (id: string) => void;
+  characterMacros: DiceMacro[];
+  tableMacros: DiceMacro[];
+  /** Only the DM edits the table's list. */
+  canEditTable: boolean;
+  saveMacro: (scope: MacroScope, label: string, formula: string, mode: DiceRollMode) => void;
+  deleteMacro: (scope: MacroScope, id: string) => void;
+}
+
+export function useDiceMacros({
+  characters,
+  tableMacros = [],
+  currentTurnCharacterId,
+  uid,
+  isDM,
+  sendMessage,
+}: UseDiceMacrosOptions): DiceMacrosControl {
+  const [pickedId, setPickedId] = useState<string | null>(null);
+
+  const controllable = useMemo(
+    () => characters.filter((character) => isDM || character.ownedByPlayerUID === uid),
+    [characters, isDM, uid],
+  );
+
+  const active =
+    controllable.find((character) => character.id === pickedId) ??
+    controllable.find((character) => character.id === currentTurnCharacterId) ??
+    controllable.find((character) => character.ownedByPlayerUID === uid) ??
+    null;
+  const characterMacros = useMemo(() => active?.macros ?? [], [active]);
+
+  const sendCharacterMacros = useCallback(
+    (characterId: string, macros: DiceMacro[]) =>
+      sendMessage({ t: "set-character-macros", characterId, macros }),
+    [sendMessage],
+  );
+
+  const saveMacro = useCallback(
+    (scope: MacroScope, label: string, formula: string, mode: DiceRollMode) => {
+      if (scope === "table") {
+        if (!isDM) return;
+        const macros = withMacro(tableMacros, label, formula, mode, MACRO_LIMITS.TABLE_MAX);
+        sendMessage({ t: "set-table-macros", macros });
+        return;
+      }
+      if (!active) return;
+      const macros = withMacro(characterMacros, label, formula, mode, MACRO_LIMITS.CHARACTER_MAX);
+      sendCharacterMacros(active.id, macros);
+    },
+    [active, characterMacros, isDM, sendCharacterMacros, sendMessage, tableMacros],
+  );
+
+  const deleteMacro = useCallback(
+    (scope: MacroScope, id: string) => {
+      if (scope === "table") {
+        if (isDM) sendMessage({ t: "set-table-macros", macros: withoutMacro(tableMacros, id) });
+        return;
+      }
+      if (active) sendCharacterMacros(active.id, withoutMacro(characterMacros, id));
+    },
+    [active, characterMacros, isDM, sendCharacterMacros, sendMessage, tableMacros],
+  );
+
+  // Macros an older build kept in this browser go to the player's own
+  // character the first time there is one, ahead of what it already has.
+  // Once per mount: takeLegacyMacros empties the store as it reads it.
+  const migrated = useRef(false);
+  const ownCharacter = characters.find((character) => character.ownedByPlayerUID === uid);
+  useEffect(() => {
+    if (migrated.current || !ownCharacter) return;
+    migrated.current = true;
+    const legacy = takeLegacyMacros();
+    if (legacy.length === 0) return;
+    const kept = ownCharacter.macros ?? [];
+    const merged = [...legacy, ...kept].slice(-MACRO_LIMITS.CHARACTER_MAX);
+    sendCharacterMacros(ownCharacter.id, merged);
+  }, [ownCharacter, sendCharacterMacros]);
+
+  return {
+    characters: controllable.map(({ id, name }) => ({ id, name })),
+    activeCharacter: active ? { id: active.id, name: active.name } : null,
+    setActiveCharacterId: setPickedId,
+    characterMacros,
+    tableMacros,
+    canEditTable: isDM,
+    saveMacro,
+    deleteMacro,
+  };
+}
@@ -4,7 +4,9 @@
 // Fixed bottom panel displaying both players and NPCs in the scene.
 
 import React, { useEffect, useMemo, useState } from "react";
+import { tracksDeathSaves } from "@herobyte/shared";
 import type {
+  DeathSaves,
   Drawing,
   Player,
   PlayerState,
@@ -12,16 +14,27 @@ import type {
   SceneObject,
   SnapshotCharacter,
 } from "@herobyte/shared";
-import { PlayerCard } from "../../features/players/components";
+import { AttackBar, ConditionBar, PlayerCard } from "../../features/players/components";
 import { NpcCard } from "../../features/players/components/NpcCard";
 import { JRPGPanel, JRPGButton } from "../ui/JRPGPanel";
 import { InitiativeModal } from "../../features/initiative/components/InitiativeModal";
 import { TurnNavigationControls } from "../../features/initiative/components/TurnNavigationControls";
+import { TurnTimerBadge } from "../../features/initiative/components/TurnTimerBadge";
 import { useCombatOrdering } from "../../hooks/useCombatOrdering";
 import { useInitiativeModal } from "../../hooks/useInitiativeModal";
 import { useCharacterCreation } from "../../hooks/useCharacterCreation";
+import type { AttackRequest, CharacterDefenses } from "../../hooks/useAttacks";
 
-import type { TokenSize } from "@herobyte/shared";
+import type {
+  CharacterStatus,
+  CombatEvent,
+  CombatMode,
+  Condition,
+  NamedAttack,
+  SenseProfile,
+  TokenLight,
+  TokenSize,
+} from "@herobyte/shared";
 
 interface EntitiesPanelProps {
   players: Player[];
@@ -78,6 +91,24 @@ interface EntitiesPanelProps {
   /** DM-only: set a token's sight limit in feet, or null for unlimited (S7;
    * optional so the layout fixtures stay untouched). */
   onTokenVisionRadiusChange?: (tokenId: string, radiusFeet: number | null) => void;
+  /** DM-only: set a token's special senses, or null for none (optional, as above). */
+  onTokenSensesChange?: (tokenId: string, senses: SenseProfile | null) => void;
+  /** Owner or DM: set a token's carried light, or null to put it out (optional, as above). */
+  onTokenLightChange?: (tokenId: string, light: TokenLight | null) => void;
+  /** DM-only: set a token's walking speed, or null for the default (optional, as above). */
+  onTokenSpeedChange?: (tokenId: string, speedFeet: number | null) => void;
+  /** Owner or DM: roll a named attack. Optional; without it no card shows an attack bar. */
+  onRollAttack?: (request: AttackRequest) => void;
+  /** Owner or DM: replace a character's attack list (optional, as above). */
+  onSetCharacterAttacks?: (characterId: string, attacks: NamedAttack[]) => void;
+  /** Owner or DM: set a character's AC and saving throws (optional, as above). */
+  onSetCharacterDefenses?: (characterId: string, defenses: CharacterDefenses) => void;
+  /** Owner or DM: replace a character's conditions. Without it the badges are read-only. */
+  onSetCharacterConditions?: (characterId: string, conditions: Condition[]) => void;
+  /** Owner or DM: have the server roll a downed PC's death save. */
+  onRollDeathSave?: (characterId: string) => void;
+  /** Owner or DM: set a downed PC's death-save counts by hand. */
+  onSetDeathSaves?: (characterId: string, deathSaves: DeathSaves) => void;
   onAddCharacter: (name: string) => void;
   onDeleteCharacter: (characterId: string) => void;
   onFocusToken: (tokenId: string) => void;
@@ -85,12 +116,24 @@ interface EntitiesPanelProps {
   // Combat/Initiative props
   combatActive?: boolean;
   currentTurnCharacterId?: string;
+  combatRound?: number;
+  combatLog?: CombatEvent[];
+  initiativeOrder?: string[];
+  combatMode?: CombatMode;
+  turnDeadline?: number;
   onSetInitiative: (characterId: string, initiative: number, modifier: number) => void;
   onClearInitiative?: (characterId: string) => void;
   isSettingInitiative?: boolean;
   initiativeError?: string | null;
   onNextTurn?: () => void;
   onPreviousTurn?: () => void;
+  /** Delay (after someone) or hold (no target); with the others, shows the turn order in the modal */
+  onDelayTurn?: (characterId: string, afterCharacterId?: string) => void;
+  onResumeTurn?: (characterId: string) => void;
+  onReadyAction?: (characterId: string, trigger?: string) => void;
+  onReorderInitiative?: (order: string[]) => void;
+  /** DM: a combatant's status, set from the modal's turn order */
+  onSetCharacterStatus?: (characterId: string, status: CharacterStatus) => void;
 }
 
 /**
@@ -139,6 +182,15 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
   onToggleTokenLock,
   onTokenSizeChange,
   onTokenVisionRadiusChange,
+  onTokenSensesChange,
+  onTokenLightChange,
+  onTokenSpeedChange,
+  onRollAttack,
+  onSetCharacterAttacks,
+  onSetCharacterDefenses,
+  onSetCharacterConditions,
+  onRollDeathSave,
+  onSetDeathSaves,
   onAddCharacter,
   onDeleteCharacter,
   onFocusToken,
@@ -146,12 +198,22 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
   // Combat/Initiative props
   combatActive = false,
   currentTurnCharacterId,
+  combatRound,
+  combatLog,
+  initiativeOrder,
+  combatMode,
+  turnDeadline,
   onSetInitiative,
   onClearInitiative,
   isSettingInitiative = false,
   initiativeError = null,
   onNextTurn,
   onPreviousTurn,
+  onDelayTurn,
+  onResumeTurn,
+  onReadyAction,
+  onReorderInitiative,
+  onSetCharacterStatus,
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [editingCharacterId, setEditingCharacterId] = useState<string | null>(null);
@@ -175,6 +237,8 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
     currentUid: uid,
     combatActive: combatActive ?? false,
     currentTurnCharacterId,
+    initiativeOrder,
+    combatMode,
   });
 
   const {
@@ -184,6 +248,46 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
     closeModal: closeInitiativeModal,
   } = useInitiativeModal();
 
+  // The attack bar for one card, or nothing for a viewer who may not roll for
+  // that character. Targets are every character this viewer can see — the
+  // server decides whether the roll is shown to the table.
+  const attackSlotFor = (character: SnapshotCharacter, canRoll: boolean) =>
+    canRoll && onRollAttack && onSetCharacterAttacks ? (
+      <AttackBar
+        attacker={character}
+        targets={characters}
+        isDM={currentIsDM}
+        onRoll={onRollAttack}
+        onSave={(attacks) => onSetCharacterAttacks(character.id, attacks)}
+        onSaveDefenses={
+          onSetCharacterDefenses
+            ? (defenses) => onSetCharacterDefenses(character.id, defenses)
+            : undefined
+        }
+      />
+    ) : undefined;
+
+  // Condition badges for one card: everyone sees them, the owner and the DM
+  // may edit. Clocks may tick on the turn of anyone this viewer can see.
+  const conditionSlotFor = (character: SnapshotCharacter, canEdit: boolean) => (
+    <ConditionBar
+      character={character}
+      characters={characters}
+      onSave={
+        canEdit && onSetCharacterConditions
+          ? (conditions) => onSetCharacterConditions(character.id, conditions)
+          : undefined
+      }
+    />
+  );
+
+  // A downed PC's tally for the card's tracker, or nothing while they are up.
+  // Before the first roll there is no tally on the wire yet; it starts empty.
+  const deathSavesFor = (character: SnapshotCharacter) =>
+    tracksDeathSaves(character)
+      ? (character.deathSaves ?? { successes: 0, failures: 0 })
+      : undefined;
+
   // Use character creation hook for proper state synchronization
   const characterCreation = useCharacterCreation({
     addCharacter: onAddCharacter,
@@ -306,11 +410,13 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
                       {initiativeCombatants.length}
                     </span>
                   )}
+                  <TurnTimerBadge deadline={turnDeadline} />
                   {onNextTurn && onPreviousTurn && (
                     <TurnNavigationControls
                       combatActive={combatActive}
                       onNextTurn={onNextTurn}
                       onPreviousTurn={onPreviousTurn}
+                      round={combatRound}
                     />
                   )}
                 </JRPGPanel>
@@ -441,6 +547,19 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
                               onClearInitiative ? () => onClearInitiative(character.id) : undefined
                             }
                             isCurrentTurn={false}
+                            attackSlot={attackSlotFor(character, isMe || currentIsDM)}
+                            conditionSlot={conditionSlotFor(character, isMe || currentIsDM)}
+                            deathSaves={deathSavesFor(character)}
+                            onRollDeathSave={
+                              (isMe || currentIsDM) && onRollDeathSave
+                                ? () => onRollDeathSave(character.id)
+                                : undefined
+                            }
+                            onDeathSavesChange={
+                              (isMe || currentIsDM) && onSetDeathSaves
+                                ? (saves) => onSetDeathSaves(character.id, saves)
+                                : undefined
+                            }
                           />
                         </div>
                       );
@@ -585,6 +704,26 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
                                   onTokenVisionRadiusChange(token.id, radiusFeet)
                               : undefined
                           }
+                          tokenSenses={token?.senses}
+                          onTokenSensesChange={
+                            currentIsDM && token && onTokenSensesChange
+                              ? (senses: SenseProfile | null) =>
+                                  onTokenSensesChange(token.id, senses)
+                              : undefined
+                          }
+                          tokenLight={token?.light}
+                          onTokenLightChange={
+                            (isMe || currentIsDM) && token && onTokenLightChange
+                              ? (light: TokenLight | null) => onTokenLightChange(token.id, light)
+                              : undefined
+                          }
+                          tokenSpeed={token?.speed}
+                          onTokenSpeedChange={
+                            currentIsDM && token && onTokenSpeedChange
+                              ? (speedFeet: number | null) =>
+                                  onTokenSpeedChange(token.id, speedFeet)
+                              : undefined
+                          }
                           onAddCharacter={isMe ? characterCreation.createCharacter : undefined}
                           isCreatingCharacter={isMe ? characterCreation.isCreating : false}
                           characterId={character.id}
@@ -597,6 +736,19 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
                             onClearInitiative ? () => onClearInitiative(character.id) : undefined
                           }
                           isCurrentTurn={isCurrentTurn}
+                          attackSlot={attackSlotFor(character, isMe || currentIsDM)}
+                          conditionSlot={conditionSlotFor(character, isMe || currentIsDM)}
+                          deathSaves={deathSavesFor(character)}
+                          onRollDeathSave={
+                            (isMe || currentIsDM) && onRollDeathSave
+                              ? () => onRollDeathSave(character.id)
+                              : undefined
+                          }
+                          onDeathSavesChange={
+                            (isMe || currentIsDM) && onSetDeathSaves
+                              ? (saves) => onSetDeathSaves(character.id, saves)
+                              : undefined
+                          }
                         />
                       </div>
                     );
@@ -660,6 +812,8 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
                             : undefined
                         }
                         isCurrentTurn={entity.isCurrentTurn}
+                        attackSlot={attackSlotFor(entity.character, currentIsDM)}
+                        conditionSlot={conditionSlotFor(entity.character, currentIsDM)}
                       />
                     </div>
                   );
@@ -687,6 +841,30 @@ export const EntitiesPanel: React.FC<EntitiesPanelProps> = ({
           }}
           isLoading={isSettingInitiative}
           error={initiativeError}
+          combatLog={combatLog}
+          turnOrder={
+            combatActive &&
+            onDelayTurn &&
+            onResumeTurn &&
+            onReadyAction &&
+            onReorderInitiative &&
+            initiativeModalCharacter.initiative !== undefined
+              ? {
+                  combatants: initiativeCombatants.map((entity) => entity.character),
+                  currentTurnCharacterId,
+                  combatMode,
+                  canReorder: currentIsDM,
+                  onDelay: (afterId) => onDelayTurn(initiativeModalCharacter.id, afterId),
+                  onResume: () => onResumeTurn(initiativeModalCharacter.id),
+                  onReady: (trigger) => onReadyAction(initiativeModalCharacter.id, trigger),
+                  onReorder: onReorderInitiative,
+                  onSetStatus:
+                    currentIsDM && onSetCharacterStatus
+                      ? (status) => onSetCharacterStatus(initiativeModalCharacter.id, status)
+                      : undefined,
+                }
+              : undefined
+          }
         />
       )}
     </div>
@@ -17,6 +17,7 @@ export type ToolMode =
   | "select"
   | "align"
   | "map-edit"
+  | "fog"
   | null;
 
 interface HeaderProps {
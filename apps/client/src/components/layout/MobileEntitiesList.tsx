@@ -6,7 +6,7 @@
 // retired the right-edge drawer this file used to be.
 
 import React from "react";
-import type { Player, SnapshotCharacter, Token } from "@herobyte/shared";
+import type { Player, SenseProfile, SnapshotCharacter, Token, TokenLight } from "@herobyte/shared";
 import { MobilePlayerRow } from "./MobilePlayerRow";
 
 interface MobileEntitiesListProps {
@@ -36,6 +36,9 @@ interface MobileEntitiesListProps {
   /** Live tokens, so a DM can set each player's sight radius from a phone (S7). */
   tokens?: Token[];
   onTokenVisionRadiusChange?: (tokenId: string, radiusFeet: number | null) => void;
+  onTokenSensesChange?: (tokenId: string, senses: SenseProfile | null) => void;
+  onTokenLightChange?: (tokenId: string, light: TokenLight | null) => void;
+  onTokenSpeedChange?: (tokenId: string, speedFeet: number | null) => void;
 }
 
 export const MobileEntitiesList: React.FC<MobileEntitiesListProps> = ({
@@ -60,6 +63,9 @@ export const MobileEntitiesList: React.FC<MobileEntitiesListProps> = ({
   onCharacterPortraitUpdate,
   tokens,
   onTokenVisionRadiusChange,
+  onTokenSensesChange,
+  onTokenLightChange,
+  onTokenSpeedChange,
 }) => {
   // One row per (player, character) PAIR — the desktop model, and the same
   // flatMap useCombatOrdering builds EntitiesPanel's rows from. This used to be
@@ -156,6 +162,24 @@ export const MobileEntitiesList: React.FC<MobileEntitiesListProps> = ({
                 ? (radiusFeet) => onTokenVisionRadiusChange(entityToken.id, radiusFeet)
                 : undefined
             }
+            onTokenSensesChange={
+              isDM && entityToken && onTokenSensesChange
+                ? (senses) => onTokenSensesChange(entityToken.id, senses)
+                : undefined
+            }
+            // A carried light is the owner's to light, so this one is NOT
+            // DM-only — the server takes it from the owner or a DM.
+            onTokenLightChange={
+              (isDM || entityToken?.owner === uid) && entityToken && onTokenLightChange
+                ? (light) => onTokenLightChange(entityToken.id, light)
+                : undefined
+            }
+            // Speed is DM-only again: it is what the movement budget charges.
+            onTokenSpeedChange={
+              isDM && entityToken && onTokenSpeedChange
+                ? (speedFeet) => onTokenSpeedChange(entityToken.id, speedFeet)
+                : undefined
+            }
             isDM={isDM}
             onToggleDMMode={onToggleDMMode}
             editingHpUID={editingHpUID}
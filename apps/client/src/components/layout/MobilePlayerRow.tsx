@@ -4,7 +4,7 @@
 // Compact player/character row for mobile list view.
 
 import React, { memo, useState } from "react";
-import type { Player, Token } from "@herobyte/shared";
+import type { Player, SenseProfile, Token, TokenLight } from "@herobyte/shared";
 import { HPBar } from "../../features/players/components/HPBar";
 import { STATUS_OPTIONS } from "../../features/players/constants/statusOptions";
 import { JRPGButton } from "../ui/JRPGPanel";
@@ -37,6 +37,9 @@ interface MobilePlayerRowProps {
   /** This player's token, for the DM-only sight controls (S7). */
   token?: Token;
   onTokenVisionRadiusChange?: (radiusFeet: number | null) => void;
+  onTokenSensesChange?: (senses: SenseProfile | null) => void;
+  onTokenLightChange?: (light: TokenLight | null) => void;
+  onTokenSpeedChange?: (speedFeet: number | null) => void;
 }
 
 export const MobilePlayerRow = memo<MobilePlayerRowProps>(
@@ -61,6 +64,9 @@ export const MobilePlayerRow = memo<MobilePlayerRowProps>(
     onCharacterPortraitUpdate,
     token,
     onTokenVisionRadiusChange,
+    onTokenSensesChange,
+    onTokenLightChange,
+    onTokenSpeedChange,
   }) => {
     const isEditingHp = editingHpUID === player.characterId;
     const isEditingMaxHp = editingMaxHpUID === player.characterId;
@@ -277,6 +283,12 @@ export const MobilePlayerRow = memo<MobilePlayerRowProps>(
           onClose={() => setSettingsOpen(false)}
           tokenVisionRadius={token?.visionRadius}
           onTokenVisionRadiusChange={onTokenVisionRadiusChange}
+          tokenSenses={token?.senses}
+          onTokenSensesChange={onTokenSensesChange}
+          tokenLight={token?.light}
+          onTokenLightChange={onTokenLightChange}
+          tokenSpeed={token?.speed}
+          onTokenSpeedChange={onTokenSpeedChange}
           compactControls
           nameInput={localNameInput}
           onNameInputChange={setLocalNameInput}
@@ -134,6 +134,7 @@ describe("buildDMMenuProps", () => {
         "onSelectPlayerTokens",
         "onSetInitiative",
         "mapStudio",
+        "fogBrush",
       ].sort(),
     );
   });
@@ -94,6 +94,10 @@ export function buildDMMenuProps(
     onAlignmentCancel: props.handleAlignmentCancel,
     onAlignmentApply: props.handleAlignmentApply,
 
+    // Fog brush — the tool lives in App (it owns the canvas mode); the Map
+    // tab is only its palette.
+    fogBrush: props.fogBrush,
+
     // Room password / session
     onSetRoomPassword: props.handleSetRoomPassword,
     onSaveAsPrivateTable: props.onSaveAsPrivateTable,
@@ -2,6 +2,7 @@ import { JRPGButton } from "../../../components/ui/JRPGPanel";
 import { DraggableWindow } from "../../../components/dice/DraggableWindow";
 import MapTab from "./tab-views/MapTab";
 import NPCsTab from "./tab-views/NPCsTab";
+import BestiaryTab from "./tab-views/BestiaryTab";
 import PropsTab from "./tab-views/PropsTab";
 import PlayersTab from "./tab-views/PlayersTab";
 import SessionTab from "./tab-views/SessionTab";
@@ -23,6 +24,8 @@ export function DMMenu({
   onFogEnabledChange,
   defaultVisionRadius,
   onDefaultVisionRadiusChange,
+  exploredFog,
+  onExploredFogChange,
   onClearDrawings,
   onSetMapBackground,
   mapBackground,
@@ -41,6 +44,7 @@ export function DMMenu({
   onDuplicateNPC,
   onUpdateNPC,
   onDeleteNPC,
+  onRemoveDefeatedNPCs,
   onPlaceNPCToken,
   isCreatingNpc,
   npcCreationError,
@@ -75,6 +79,13 @@ export function DMMenu({
   onAlignmentReset,
   onAlignmentCancel,
   onAlignmentApply,
+  fogBrush,
+  fogRegionCount,
+  scenes,
+  activeSceneId,
+  onSceneCommand,
+  bestiary,
+  onBestiaryCommand,
   onSetRoomPassword,
   roomPasswordStatus = null,
   roomPasswordPending = false,
@@ -85,13 +96,21 @@ export function DMMenu({
   combatActive,
   diagonalRule,
   onDiagonalRuleChange,
+  movementBudgetEnabled,
+  onMovementBudgetChange,
   monsterHpDisplay,
   onMonsterHpDisplayChange,
+  combatMode,
+  onCombatModeChange,
+  turnTimer,
+  onTurnTimerChange,
   onStartCombat,
   onEndCombat,
   onClearAllInitiative,
   onNextTurn,
   onPreviousTurn,
+  combatRound,
+  combatLog,
   toast,
   onSetInitiative,
   playerPropsEnabled,
@@ -152,11 +171,16 @@ export function DMMenu({
           onGridLockToggle={onGridLockToggle}
           diagonalRule={diagonalRule}
           onDiagonalRuleChange={onDiagonalRuleChange}
+          movementBudgetEnabled={movementBudgetEnabled}
+          onMovementBudgetChange={onMovementBudgetChange}
           fogEnabled={fogEnabled}
           hasCompiledScene={hasCompiledScene}
           onFogEnabledChange={onFogEnabledChange}
           defaultVisionRadius={defaultVisionRadius}
           onDefaultVisionRadiusChange={onDefaultVisionRadiusChange}
+          players={players}
+          exploredFog={exploredFog}
+          onExploredFogChange={onExploredFogChange}
           alignmentModeActive={alignmentModeActive}
           alignmentPoints={alignmentPoints}
           alignmentSuggestion={alignmentSuggestion}
@@ -165,6 +189,11 @@ export function DMMenu({
           onAlignmentReset={onAlignmentReset}
           onAlignmentCancel={onAlignmentCancel}
           onAlignmentApply={onAlignmentApply}
+          fogBrush={fogBrush}
+          fogRegionCount={fogRegionCount}
+          scenes={scenes}
+          activeSceneId={activeSceneId}
+          onSceneCommand={onSceneCommand}
           playerStagingZone={playerStagingZone}
           camera={camera}
           stagingZoneLocked={stagingZoneLocked}
@@ -182,6 +211,7 @@ export function DMMenu({
           onUpdateNPC={onUpdateNPC}
           onPlaceNPCToken={onPlaceNPCToken}
           onDeleteNPC={onDeleteNPC}
+          onRemoveDefeated={onRemoveDefeatedNPCs}
           isCreatingNpc={isCreatingNpc}
           npcCreationError={npcCreationError}
           isUpdatingNpc={isUpdatingNpc}
@@ -192,8 +222,12 @@ export function DMMenu({
           placingTokenForNpcId={placingTokenForNpcId}
           toast={toast}
           onSetInitiative={onSetInitiative}
+          combatMode={combatMode}
         />
       )}
+      {activeTab === "bestiary" && onBestiaryCommand && (
+        <BestiaryTab templates={bestiary} onBestiaryCommand={onBestiaryCommand} toast={toast} />
+      )}
       {activeTab === "props" && (
         <PropsTab
           props={props}
@@ -219,11 +253,17 @@ export function DMMenu({
           combatActive={combatActive}
           monsterHpDisplay={monsterHpDisplay}
           onMonsterHpDisplayChange={onMonsterHpDisplayChange}
+          combatMode={combatMode}
+          onCombatModeChange={onCombatModeChange}
+          turnTimer={turnTimer}
+          onTurnTimerChange={onTurnTimerChange}
           onStartCombat={onStartCombat}
           onEndCombat={onEndCombat}
           onClearAllInitiative={onClearAllInitiative}
           onNextTurn={onNextTurn}
           onPreviousTurn={onPreviousTurn}
+          combatRound={combatRound}
+          combatLog={combatLog}
         />
       )}
       {activeTab === "session" && (
@@ -6,12 +6,22 @@ import type {
   SceneObject,
   SnapshotCharacter,
   DiagonalRule,
+  ExploredFogAction,
+  ExploredFogMask,
   MonsterHpDisplay,
+  CombatMode,
+  TurnTimer,
+  SceneSummary,
+  MonsterTemplate,
+  CombatEvent,
 } from "@herobyte/shared";
 import type { AlignmentPoint, AlignmentSuggestion } from "../../../types/alignment";
 import type { Camera } from "../../../hooks/useCamera";
 import type { CreateNpcRequest } from "../hooks/useNpcCreation";
 import type { MapStudioController } from "../../map-studio";
+import type { FogBrushController } from "../../map/useFogBrush";
+import type { SceneCommand } from "./map-controls/SceneListControl";
+import type { BestiaryCommand } from "./tab-views/BestiaryTab";
 
 export interface DMMenuProps {
   isDM: boolean;
@@ -24,11 +34,16 @@ export interface DMMenuProps {
   onGridSquareSizeChange?: (size: number) => void;
   diagonalRule?: DiagonalRule;
   onDiagonalRuleChange?: (rule: DiagonalRule) => void;
+  movementBudgetEnabled?: boolean;
+  onMovementBudgetChange?: (enabled: boolean) => void;
   fogEnabled?: boolean;
   hasCompiledScene?: boolean;
   onFogEnabledChange?: (enabled: boolean) => void;
   defaultVisionRadius?: number;
   onDefaultVisionRadiusChange?: (radiusFeet: number | null) => void;
+  /** Every player's memory of the published scene (Map tab, Explored Areas). */
+  exploredFog?: ExploredFogMask[];
+  onExploredFogChange?: (action: ExploredFogAction, uid?: string) => void;
   onClearDrawings: () => void;
   onSetMapBackground: (url: string) => void;
   mapBackground?: string;
@@ -47,6 +62,8 @@ export interface DMMenuProps {
   onUpdateNPC: (id: string, updates: Partial<Character>) => void;
   onDuplicateNPC: (id: string) => void;
   onDeleteNPC: (id: string) => void;
+  /** Delete every unconscious, dead or fled NPC, with its token */
+  onRemoveDefeatedNPCs?: () => void;
   onPlaceNPCToken: (id: string) => void;
   isCreatingNpc?: boolean;
   npcCreationError?: string | null;
@@ -84,6 +101,16 @@ export interface DMMenuProps {
   onAlignmentReset: () => void;
   onAlignmentCancel: () => void;
   onAlignmentApply: () => void;
+  /** The DM's reveal/conceal painting tool (Map tab), and how much is painted. */
+  fogBrush?: FogBrushController;
+  fogRegionCount?: number;
+  /** The room's saved scenes (Map tab, Scenes); the DM's snapshot carries all of them. */
+  scenes?: SceneSummary[];
+  activeSceneId?: string;
+  onSceneCommand?: (command: SceneCommand) => void;
+  /** The room's monster templates (Bestiary tab); only the DM's snapshot carries them. */
+  bestiary?: MonsterTemplate[];
+  onBestiaryCommand?: (command: BestiaryCommand) => void;
   onSetRoomPassword?: (secret?: string) => void;
   roomPasswordStatus?: { type: "success" | "error"; message: string } | null;
   roomPasswordPending?: boolean;
@@ -99,11 +126,19 @@ export interface DMMenuProps {
   combatActive?: boolean;
   monsterHpDisplay?: MonsterHpDisplay;
   onMonsterHpDisplayChange?: (mode: MonsterHpDisplay) => void;
+  /** Individual, group or side initiative; also how "Roll Missing Initiative" rolls */
+  combatMode?: CombatMode;
+  onCombatModeChange?: (mode: CombatMode) => void;
+  /** Each turn's length and what happens when it runs out; absent = no timer */
+  turnTimer?: TurnTimer;
+  onTurnTimerChange?: (timer?: TurnTimer) => void;
   onStartCombat?: () => void;
   onEndCombat?: () => void;
   onClearAllInitiative?: () => void;
   onNextTurn?: () => void;
   onPreviousTurn?: () => void;
+  combatRound?: number;
+  combatLog?: CombatEvent[];
   toast?: {
     success: (message: string) => void;
     error: (message: string) => void;
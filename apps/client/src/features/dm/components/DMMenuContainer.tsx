@@ -18,6 +18,7 @@ import type { Camera } from "../../../hooks/useCamera";
 import { useDMContext, type UseDMContextOptions } from "../hooks/useDMContext";
 import { DMMenu } from "./DMMenu";
 import type { MapStudioController } from "../../map-studio";
+import type { FogBrushController } from "../../map/useFogBrush";
 
 // Exported for buildDMMenuProps, which maps the MainLayoutProps bag onto this
 // shape once, for BOTH layouts. Import it `type`-only: a value import here
@@ -67,6 +68,9 @@ export interface DMMenuContainerProps {
   onAlignmentCancel: () => void;
   onAlignmentApply: () => void;
 
+  // Fog brush
+  fogBrush?: FogBrushController;
+
   // Room Password
   onSetRoomPassword?: (secret?: string) => void;
   roomPasswordStatus?: { type: "success" | "error"; message: string } | null;
@@ -141,6 +145,7 @@ export function DMMenuContainer({
   onAlignmentReset,
   onAlignmentCancel,
   onAlignmentApply,
+  fogBrush,
   onSetRoomPassword,
   roomPasswordStatus,
   roomPasswordPending,
@@ -203,6 +208,7 @@ export function DMMenuContainer({
       onDuplicateNPC={dmContext.npcManagement.duplicateNpc}
       onUpdateNPC={dmContext.npcManagement.updateNpc}
       onDeleteNPC={dmContext.npcManagement.deleteNpc}
+      onRemoveDefeatedNPCs={dmContext.npcManagement.removeDefeated}
       onPlaceNPCToken={dmContext.npcManagement.placeToken}
       isCreatingNpc={dmContext.npcManagement.isCreating}
       npcCreationError={dmContext.npcManagement.creationError}
@@ -237,6 +243,14 @@ export function DMMenuContainer({
       onAlignmentReset={onAlignmentReset}
       onAlignmentCancel={onAlignmentCancel}
       onAlignmentApply={onAlignmentApply}
+      fogBrush={fogBrush}
+      fogRegionCount={snapshot?.fogRegions?.length ?? 0}
+      scenes={snapshot?.scenes}
+      activeSceneId={snapshot?.activeSceneId}
+      // Inline: each command is already the message the server wants.
+      onSceneCommand={sendMessage}
+      bestiary={snapshot?.bestiary}
+      onBestiaryCommand={sendMessage}
       onSetRoomPassword={onSetRoomPassword}
       roomPasswordStatus={roomPasswordStatus}
       roomPasswordPending={roomPasswordPending}
@@ -249,11 +263,17 @@ export function DMMenuContainer({
       onDiagonalRuleChange={dmContext.combatControls.handleSetDiagonalRule}
       monsterHpDisplay={snapshot?.monsterHpDisplay ?? "exact"}
       onMonsterHpDisplayChange={dmContext.combatControls.handleSetMonsterHpDisplay}
+      combatMode={snapshot?.combatMode ?? "individual"}
+      onCombatModeChange={dmContext.combatControls.handleSetCombatMode}
+      turnTimer={snapshot?.turnTimer}
+      onTurnTimerChange={dmContext.combatControls.handleSetTurnTimer}
       onStartCombat={dmContext.combatControls.handleStartCombat}
       onEndCombat={dmContext.combatControls.handleEndCombat}
       onClearAllInitiative={dmContext.combatControls.handleClearAllInitiative}
       onNextTurn={dmContext.combatControls.handleNextTurn}
       onPreviousTurn={dmContext.combatControls.handlePreviousTurn}
+      combatRound={snapshot?.combatRound}
+      combatLog={snapshot?.combatLog}
       toast={toast}
       onSetInitiative={onSetInitiative}
       playerPropsEnabled={snapshot?.playerPropsEnabled ?? false}
@@ -267,6 +287,11 @@ export function DMMenuContainer({
       onDefaultVisionRadiusChange={(radius) =>
         sendMessage({ t: "set-default-vision-radius", radius })
       }
+      exploredFog={snapshot?.exploredFog}
+      onExploredFogChange={(action, uid) => sendMessage({ t: "set-explored-fog", action, uid })}
+      movementBudgetEnabled={snapshot?.movementBudgetEnabled ?? false}
+      // Inline too: one message, no state to manage.
+      onMovementBudgetChange={(enabled) => sendMessage({ t: "set-movement-budget", enabled })}
       mapStudio={mapStudio}
       presentation={presentation}
     />
@@ -4,6 +4,7 @@ import type { DMMenuTab } from "../hooks/useDMMenuState";
 const DM_MENU_TABS: Array<{ tab: DMMenuTab; label: string }> = [
   { tab: "map", label: "Map Setup" },
   { tab: "npcs", label: "NPCs & Monsters" },
+  { tab: "bestiary", label: "Bestiary" },
   { tab: "props", label: "Props & Objects" },
   { tab: "players", label: "Players" },
   { tab: "session", label: "Session" },
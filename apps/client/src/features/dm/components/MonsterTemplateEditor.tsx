@@ -0,0 +1,215 @@
+// ============================================================================
+// MONSTER TEMPLATE EDITOR
+// ============================================================================
+// The Bestiary tab's stat block form: AC, HP formula, initiative, speed,
+// senses, named attacks and notes. Numbers are edited as text so a field can
+// be empty mid-edit; the draft becomes a template only on Save, and the server
+// coerces it again on arrival. The HP formula and each attack's damage are
+// checked with the same parser the server rolls with, so Save is never
+// offered for a stat block the server would refuse.
+
+import { useState } from "react";
+import {
+  BESTIARY_LIMITS,
+  SENSE_KINDS,
+  parseDiceFormula,
+  type MonsterTemplate,
+  type MonsterTemplateInput,
+  type SenseKind,
+} from "@herobyte/shared";
+import { JRPGButton, JRPGPanel } from "../../../components/ui/JRPGPanel";
+import {
+  ATTACK_INPUT_STYLE as INPUT_STYLE,
+  AttackRows,
+  attackDraftProblem,
+  fromAttackDrafts,
+  toAttackDrafts,
+  type AttackDraft,
+} from "../../players/components/AttackRows";
+
+interface TemplateDraft {
+  name: string;
+  ac: string;
+  hpFormula: string;
+  initiativeModifier: string;
+  speed: string;
+  senses: Record<SenseKind, string>;
+  attacks: AttackDraft[];
+  tokenImage: string;
+  portrait: string;
+  notes: string;
+}
+
+const SENSE_LABELS: Record<SenseKind, string> = {
+  darkvision: "Darkvision",
+  blindsight: "Blindsight",
+  tremorsense: "Tremorsense",
+  truesight: "Truesight",
+};
+
+function toDraft(template?: MonsterTemplate): TemplateDraft {
+  return {
+    name: template?.name ?? "",
+    ac: String(template?.ac ?? 10),
+    hpFormula: template?.hpFormula ?? "",
+    initiativeModifier: String(template?.initiativeModifier ?? 0),
+    speed: template?.speed === undefined ? "" : String(template.speed),
+    senses: Object.fromEntries(
+      SENSE_KINDS.map((kind) => [kind, String(template?.senses?.[kind] ?? "")]),
+    ) as Record<SenseKind, string>,
+    attacks: toAttackDrafts(template?.attacks),
+    tokenImage: template?.tokenImage ?? "",
+    portrait: template?.portrait ?? "",
+    notes: template?.notes ?? "",
+  };
+}
+
+/** A number typed into a field, or undefined when it is blank or not a number. */
+function typed(value: string): number | undefined {
+  if (value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function fromDraft(draft: TemplateDraft, id?: string): MonsterTemplateInput {
+  const senses = Object.fromEntries(
+    SENSE_KINDS.map((kind) => [kind, typed(draft.senses[kind])]).filter(
+      ([, range]) => range !== undefined && (range as number) > 0,
+    ),
+  );
+  return {
+    ...(id ? { id } : {}),
+    name: draft.name.trim(),
+    ac: typed(draft.ac) ?? 10,
+    hpFormula: draft.hpFormula.trim(),
+    initiativeModifier: typed(draft.initiativeModifier) ?? 0,
+    speed: typed(draft.speed),
+    senses: Object.keys(senses).length > 0 ? senses : undefined,
+    attacks: fromAttackDrafts(draft.attacks),
+    tokenImage: draft.tokenImage.trim() || undefined,
+    portrait: draft.portrait.trim() || undefined,
+    notes: draft.notes.trim() || undefined,
+  };
+}
+
+/** Why Save is unavailable, or null when the draft is a usable stat block. */
+function draftProblem(draft: TemplateDraft): string | null {
+  if (!draft.name.trim()) return "Give the template a name.";
+  const hp = parseDiceFormula(draft.hpFormula);
+  if (!hp.ok) return `HP formula: ${hp.error}`;
+  return attackDraftProblem(draft.attacks);
+}
+
+interface MonsterTemplateEditorProps {
+  /** The template being edited; absent for a new one. */
+  template?: MonsterTemplate;
+  onSave: (template: MonsterTemplateInput) => void;
+  onCancel: () => void;
+}
+
+export function MonsterTemplateEditor({ template, onSave, onCancel }: MonsterTemplateEditorProps) {
+  const [draft, setDraft] = useState(() => toDraft(template));
+  const problem = draftProblem(draft);
+
+  const set = (update: Partial<TemplateDraft>) =>
+    setDraft((current) => ({ ...current, ...update }));
+
+  const field = (
+    label: string,
+    key: "name" | "ac" | "hpFormula" | "initiativeModifier" | "speed",
+  ) => (
+    <label className="jrpg-text-small">
+      {label}
+      <input
+        aria-label={`Template ${label}`}
+        type="text"
+        value={draft[key]}
+        onChange={(e) => set({ [key]: e.target.value })}
+        style={INPUT_STYLE}
+      />
+    </label>
+  );
+
+  return (
+    <JRPGPanel variant="simple" style={{ padding: "8px" }}>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "6px" }}>
+        <div style={{ gridColumn: "1 / -1" }}>{field("Name", "name")}</div>
+        {field("AC", "ac")}
+        {field("HP formula", "hpFormula")}
+        {field("Initiative", "initiativeModifier")}
+        {field("Speed (ft)", "speed")}
+        {SENSE_KINDS.map((kind) => (
+          <label key={kind} className="jrpg-text-small">
+            {SENSE_LABELS[kind]} (ft)
+            <input
+              aria-label={`Template ${SENSE_LABELS[kind]}`}
+              type="number"
+              min={0}
+              value={draft.senses[kind]}
+              onChange={(e) => set({ senses: { ...draft.senses, [kind]: e.target.value } })}
+              style={INPUT_STYLE}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="jrpg-text-small" style={{ marginTop: "8px" }}>
+        Attacks
+      </div>
+      <AttackRows drafts={draft.attacks} onChange={(attacks) => set({ attacks })} />
+
+      <div
+        style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "6px", marginTop: "8px" }}
+      >
+        <label className="jrpg-text-small">
+          Token image URL
+          <input
+            aria-label="Template token image"
+            value={draft.tokenImage}
+            onChange={(e) => set({ tokenImage: e.target.value })}
+            style={INPUT_STYLE}
+          />
+        </label>
+        <label className="jrpg-text-small">
+          Portrait URL
+          <input
+            aria-label="Template portrait"
+            value={draft.portrait}
+            onChange={(e) => set({ portrait: e.target.value })}
+            style={INPUT_STYLE}
+          />
+        </label>
+        <label className="jrpg-text-small" style={{ gridColumn: "1 / -1" }}>
+          Notes
+          <textarea
+            aria-label="Template notes"
+            maxLength={BESTIARY_LIMITS.NOTES_MAX}
+            value={draft.notes}
+            onChange={(e) => set({ notes: e.target.value })}
+            rows={3}
+            style={INPUT_STYLE}
+          />
+        </label>
+      </div>
+
+      {problem && (
+        <div className="jrpg-text-small" style={{ color: "var(--jrpg-red)", marginTop: "6px" }}>
+          {problem}
+        </div>
+      )}
+      <div style={{ display: "flex", gap: "8px", marginTop: "8px" }}>
+        <JRPGButton
+          variant="success"
+          disabled={problem !== null}
+          onClick={() => onSave(fromDraft(draft, template?.id))}
+          style={{ fontSize: "10px", flex: 1 }}
+        >
+          Save Template
+        </JRPGButton>
+        <JRPGButton onClick={onCancel} style={{ fontSize: "10px", flex: 1 }}>
+          Cancel
+        </JRPGButton>
+      </div>
+    </JRPGPanel>
+  );
+}
@@ -0,0 +1,66 @@
+// ============================================================================
+// TURN TIMER CONTROL
+// ============================================================================
+// DM dial for the turn timer (shared turnTimer.ts): how long each turn lasts,
+// and whether running out passes the turn on or just tells the DM. The server
+// keeps the clock; changing either starts the turn in progress a full clock.
+
+import { TURN_TIMER_EXPIRY, TURN_TIMER_EXPIRY_LABELS, type TurnTimer } from "@herobyte/shared";
+import { JRPGButton } from "../../../../components/ui/JRPGPanel";
+
+export interface TurnTimerControlProps {
+  /** The room's timer; absent = off. */
+  turnTimer?: TurnTimer;
+  /** Set the timer, or turn it off with no argument. */
+  onTurnTimerChange: (timer?: TurnTimer) => void;
+}
+
+/** Turn lengths offered, in seconds; the server accepts any within the shared limits. */
+const TURN_TIMER_PRESETS = [30, 60, 90, 120, 180, 300];
+
+export function TurnTimerControl({ turnTimer, onTurnTimerChange }: TurnTimerControlProps) {
+  return (
+    <div>
+      <label className="jrpg-text-small" style={{ display: "block", marginBottom: "4px" }}>
+        Turn Timer
+        <select
+          value={turnTimer?.seconds ?? ""}
+          onChange={(event) =>
+            onTurnTimerChange(
+              event.target.value
+                ? {
+                    seconds: Number(event.target.value),
+                    // A new timer only tells the DM until they choose otherwise:
+                    // skipping someone's turn should never be a surprise.
+                    onExpire: turnTimer?.onExpire ?? "notify",
+                  }
+                : undefined,
+            )
+          }
+          style={{ marginLeft: "8px", background: "#111", color: "var(--jrpg-white)" }}
+        >
+          <option value="">Off</option>
+          {TURN_TIMER_PRESETS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}
+            </option>
+          ))}
+        </select>
+      </label>
+      {turnTimer && (
+        <div style={{ display: "flex", gap: "8px" }}>
+          {TURN_TIMER_EXPIRY.map((onExpire) => (
+            <JRPGButton
+              key={onExpire}
+              onClick={() => onTurnTimerChange({ ...turnTimer, onExpire })}
+              variant={turnTimer.onExpire === onExpire ? "primary" : "default"}
+              style={{ flex: 1, fontSize: "10px", padding: "6px 8px" }}
+            >
+              {TURN_TIMER_EXPIRY_LABELS[onExpire]}
+            </JRPGButton>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+// ============================================================================
+// EXPLORED FOG CONTROL
+// ============================================================================
+// What each player remembers of the published scene, and the DM's two levers
+// over it: Reset (forget it — the party was teleported, or the dungeon shifted)
+// and Reveal (they found the map). The server keeps the memories, so a reset
+// here reaches every device the player uses, not just this tab.
+//
+// The snapshot hands the DM every player's mask for the published scene only,
+// so the percentages below are always about the map on screen.
+
+import {
+  exploredFraction,
+  type ExploredFogAction,
+  type ExploredFogMask,
+  type Player,
+} from "@herobyte/shared";
+import { JRPGPanel, JRPGButton } from "../../../../components/ui/JRPGPanel";
+
+export interface ExploredFogControlProps {
+  players: Player[];
+  /** Every player's memory of the published scene, from the DM's snapshot. */
+  exploredFog?: ExploredFogMask[];
+  /** Without fog there is no explored band to change, and the panel says so. */
+  fogEnabled: boolean;
+  hasCompiledScene: boolean;
+  /** Omit `uid` to apply to every player at the table. */
+  onExploredFogChange: (action: ExploredFogAction, uid?: string) => void;
+}
+
+const BUTTON_STYLE = { fontSize: "10px", padding: "4px 8px" };
+
+export function ExploredFogControl({
+  players,
+  exploredFog = [],
+  fogEnabled,
+  hasCompiledScene,
+  onExploredFogChange,
+}: ExploredFogControlProps) {
+  const party = players.filter((player) => !player.isDM);
+  const ready = fogEnabled && hasCompiledScene;
+
+  return (
+    <JRPGPanel variant="simple" title="Explored Areas" style={{ padding: "12px" }}>
+      <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+        {!ready && (
+          <span className="jrpg-text-body" style={{ opacity: 0.85, display: "block" }}>
+            {hasCompiledScene
+              ? "Turn fog on above; players remember what they have seen once it is."
+              : "Publish a Map Studio map first — memory is kept per published map."}
+          </span>
+        )}
+        {ready && party.length === 0 && (
+          <span className="jrpg-text-body" style={{ opacity: 0.85, display: "block" }}>
+            No players at the table yet.
+          </span>
+        )}
+        {ready &&
+          party.map((player) => {
+            const mask = exploredFog.find((entry) => entry.uid === player.uid);
+            const percent = Math.round((mask ? exploredFraction(mask) : 0) * 100);
+            return (
+              <div key={player.uid} style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+                <span className="jrpg-text-body" style={{ flex: 1 }}>
+                  {player.name} — {percent}% explored
+                </span>
+                <JRPGButton
+                  onClick={() => onExploredFogChange("reset", player.uid)}
+                  style={BUTTON_STYLE}
+                  aria-label={`Reset ${player.name}'s explored area`}
+                >
+                  Reset
+                </JRPGButton>
+                <JRPGButton
+                  onClick={() => onExploredFogChange("reveal", player.uid)}
+                  style={BUTTON_STYLE}
+                  aria-label={`Reveal the map to ${player.name}`}
+                >
+                  Reveal
+                </JRPGButton>
+              </div>
+            );
+          })}
+        {ready && party.length > 1 && (
+          <div style={{ display: "flex", gap: "6px" }}>
+            <JRPGButton
+              onClick={() => onExploredFogChange("reset")}
+              style={{ ...BUTTON_STYLE, flex: 1 }}
+            >
+              Reset everyone
+            </JRPGButton>
+            <JRPGButton
+              onClick={() => onExploredFogChange("reveal")}
+              style={{ ...BUTTON_STYLE, flex: 1 }}
+            >
+              Reveal to everyone
+            </JRPGButton>
+          </div>
+        )}
+      </div>
+    </JRPGPanel>
+  );
+}
@@ -0,0 +1,142 @@
+// ============================================================================
+// FOG BRUSH CONTROL
+// ============================================================================
+// The palette for the DM's reveal/conceal tool (useFogBrush): which way it
+// paints, the shape it lays down, the brush width, and the arm button that
+// hands the canvas over to it. Undo/Redo step through the published scene's
+// painted regions one at a time (Ctrl+Z / Ctrl+Y do the same while armed);
+// Clear wipes them, which is why it alone asks first.
+//
+// Painted regions overrule sightlines either way, so a reveal shows a room to
+// a party with no token near it and a conceal hides one they are standing in.
+
+import type { FogRegionMode } from "@herobyte/shared";
+import { JRPGPanel, JRPGButton } from "../../../../components/ui/JRPGPanel";
+import {
+  FOG_BRUSH_SIZES,
+  type FogBrushController,
+  type FogBrushShape,
+} from "../../../map/useFogBrush";
+
+export interface FogBrushControlProps {
+  fogBrush: FogBrushController;
+  /** Regions painted on the published scene, for the Clear button's label. */
+  regionCount: number;
+  fogEnabled: boolean;
+  hasCompiledScene: boolean;
+}
+
+const MODES: Array<[FogRegionMode, string]> = [
+  ["reveal", "Reveal"],
+  ["conceal", "Conceal"],
+];
+const SHAPES: Array<[FogBrushShape, string]> = [
+  ["brush", "Brush"],
+  ["rect", "Rectangle"],
+  ["polygon", "Polygon"],
+];
+const BUTTON_STYLE = { fontSize: "10px", padding: "4px 8px", flex: 1 };
+
+export function FogBrushControl({
+  fogBrush,
+  regionCount,
+  fogEnabled,
+  hasCompiledScene,
+}: FogBrushControlProps) {
+  const { active, settings, setSettings } = fogBrush;
+
+  if (!hasCompiledScene) {
+    return (
+      <JRPGPanel variant="simple" title="Paint Fog" style={{ padding: "12px" }}>
+        <span className="jrpg-text-body" style={{ opacity: 0.85, display: "block" }}>
+          Publish a Map Studio map first — painted fog belongs to a published map.
+        </span>
+      </JRPGPanel>
+    );
+  }
+
+  const handleClear = () => {
+    if (confirm(`Clear all ${regionCount} painted fog regions from this map?`)) {
+      fogBrush.clear();
+    }
+  };
+
+  return (
+    <JRPGPanel variant="simple" title="Paint Fog" style={{ padding: "12px" }}>
+      <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+        <div style={{ display: "flex", gap: "6px" }}>
+          {MODES.map(([mode, label]) => (
+            <JRPGButton
+              key={mode}
+              onClick={() => setSettings({ mode })}
+              variant={settings.mode === mode ? "primary" : "default"}
+              style={BUTTON_STYLE}
+            >
+              {label}
+            </JRPGButton>
+          ))}
+        </div>
+        <div style={{ display: "flex", gap: "6px" }}>
+          {SHAPES.map(([shape, label]) => (
+            <JRPGButton
+              key={shape}
+              onClick={() => setSettings({ shape })}
+              variant={settings.shape === shape ? "primary" : "default"}
+              style={BUTTON_STYLE}
+            >
+              {label}
+            </JRPGButton>
+          ))}
+        </div>
+        {settings.shape === "brush" && (
+          <label className="jrpg-text-body" style={{ display: "flex", gap: "6px" }}>
+            Brush size
+            <select
+              value={settings.size}
+              onChange={(event) => setSettings({ size: Number(event.target.value) })}
+            >
+              {FOG_BRUSH_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size} px
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <JRPGButton
+          onClick={fogBrush.toggle}
+          variant={active ? "primary" : "default"}
+          style={{ fontSize: "11px", fontWeight: "bold", padding: "8px" }}
+        >
+          {active ? "🖌 PAINTING — click to stop" : "🖌 Paint on the map"}
+        </JRPGButton>
+        {settings.shape === "polygon" && active && (
+          <span className="jrpg-text-body" style={{ opacity: 0.85, display: "block" }}>
+            Click each corner; click the first corner again or double-click to close.
+          </span>
+        )}
+        <div style={{ display: "flex", gap: "6px" }}>
+          <JRPGButton onClick={fogBrush.undo} style={BUTTON_STYLE} disabled={regionCount === 0}>
+            Undo
+          </JRPGButton>
+          <JRPGButton onClick={fogBrush.redo} style={BUTTON_STYLE}>
+            Redo
+          </JRPGButton>
+          <JRPGButton
+            onClick={handleClear}
+            variant="danger"
+            style={BUTTON_STYLE}
+            disabled={regionCount === 0}
+          >
+            Clear
+          </JRPGButton>
+        </div>
+        {!fogEnabled && (
+          <span className="jrpg-text-body" style={{ opacity: 0.85, display: "block" }}>
+            Fog is off, so players see the whole map; painted areas apply once it is on.
+          </span>
+        )}
+      </div>
+    </JRPGPanel>
+  );
+}
@@ -25,6 +25,9 @@ export interface GridControlProps {
   /** The table's diagonal rule (S6). Absent handler = no control, as elsewhere. */
   diagonalRule?: DiagonalRule;
   onDiagonalRuleChange?: (rule: DiagonalRule) => void;
+  /** Hold players to their tokens' speed on their turn in combat. */
+  movementBudgetEnabled?: boolean;
+  onMovementBudgetChange?: (enabled: boolean) => void;
 }
 
 export function GridControl({
@@ -36,6 +39,8 @@ export function GridControl({
   onGridLockToggle,
   diagonalRule = "5e",
   onDiagonalRuleChange,
+  movementBudgetEnabled = false,
+  onMovementBudgetChange,
 }: GridControlProps) {
   const formatSquareSize = (value: number) =>
     Number.isInteger(value) ? `${value}` : value.toFixed(1);
@@ -156,6 +161,33 @@ export function GridControl({
             </span>
           </div>
         )}
+        {/* Beside the diagonal rule, outside the collapsible for the same
+            reason: it is a rules decision, and the walk it charges is
+            counted under that rule. */}
+        {onMovementBudgetChange && (
+          <div style={{ marginTop: "8px" }}>
+            <JRPGButton
+              onClick={() => onMovementBudgetChange(!movementBudgetEnabled)}
+              variant={movementBudgetEnabled ? "primary" : "default"}
+              aria-pressed={movementBudgetEnabled}
+              style={{ width: "100%", fontSize: "10px", padding: "6px" }}
+            >
+              {movementBudgetEnabled ? "Movement Budget: ON" : "Movement Budget: OFF"}
+            </JRPGButton>
+            <span
+              style={{
+                fontSize: "10px",
+                opacity: 0.8,
+                lineHeight: 1.3,
+                display: "block",
+                marginTop: "4px",
+              }}
+            >
+              In combat, players move only on their turn and only as far as their speed. Your moves
+              are never limited.
+            </span>
+          </div>
+        )}
       </div>
     </JRPGPanel>
   );
@@ -0,0 +1,135 @@
+// ============================================================================
+// SCENE LIST CONTROL
+// ============================================================================
+// The room's saved scenes: the town, the dungeon, the boss room. Activating one
+// swaps the whole table over — map, tokens, props, drawings, doors, fog and
+// staging zone — and the party's tokens walk across into its staging zone. The
+// scene being left is stored exactly as it stands, so coming back finds every
+// token and door where it was.
+//
+// The active scene cannot be deleted (there would be nothing on the table);
+// every other delete asks first, since a scene holds a whole map's worth of
+// work.
+
+import { useState } from "react";
+import {
+  MAX_SCENES,
+  MAX_SCENE_NAME_LENGTH,
+  sanitizeSceneName,
+  type ClientMessage,
+  type SceneSummary,
+} from "@herobyte/shared";
+import { JRPGPanel, JRPGButton } from "../../../../components/ui/JRPGPanel";
+
+/** The four DM messages this panel sends. */
+export type SceneCommand = Extract<
+  ClientMessage,
+  { t: "create-scene" | "activate-scene" | "duplicate-scene" | "delete-scene" }
+>;
+
+export interface SceneListControlProps {
+  /** From the DM's snapshot; absent until the room has a second scene. */
+  scenes?: SceneSummary[];
+  activeSceneId?: string;
+  onSceneCommand: (command: SceneCommand) => void;
+}
+
+const BUTTON_STYLE = { fontSize: "10px", padding: "4px 8px" };
+
+export function SceneListControl({
+  scenes = [],
+  activeSceneId,
+  onSceneCommand,
+}: SceneListControlProps) {
+  const [name, setName] = useState("");
+  const newName = sanitizeSceneName(name);
+  const full = scenes.length >= MAX_SCENES;
+
+  const handleCreate = () => {
+    if (!newName || full) return;
+    onSceneCommand({ t: "create-scene", name: newName });
+    setName("");
+  };
+
+  const handleDelete = (scene: SceneSummary) => {
+    if (confirm(`Delete the scene "${scene.name}"? Its map, tokens and fog go with it.`)) {
+      onSceneCommand({ t: "delete-scene", sceneId: scene.id });
+    }
+  };
+
+  return (
+    <JRPGPanel variant="simple" title="Scenes" style={{ padding: "12px" }}>
+      <div style={{ display: "flex", flexDirection: "column", gap: "8px" }}>
+        {scenes.length === 0 && (
+          <span className="jrpg-text-body" style={{ opacity: 0.85, display: "block" }}>
+            The table is a single scene. Add another and this one is kept as “Scene 1”.
+          </span>
+        )}
+        {scenes.map((scene) => {
+          const active = scene.id === activeSceneId;
+          return (
+            <div key={scene.id} style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+              <span
+                className="jrpg-text-body"
+                style={{ flex: 1, fontWeight: active ? "bold" : "normal" }}
+              >
+                {active ? `▶ ${scene.name}` : scene.name}
+              </span>
+              <JRPGButton
+                onClick={() => onSceneCommand({ t: "activate-scene", sceneId: scene.id })}
+                style={BUTTON_STYLE}
+                disabled={active}
+                aria-label={`Switch to ${scene.name}`}
+              >
+                Go
+              </JRPGButton>
+              <JRPGButton
+                onClick={() =>
+                  onSceneCommand({
+                    t: "duplicate-scene",
+                    sceneId: scene.id,
+                    name: `${scene.name} (copy)`.slice(0, MAX_SCENE_NAME_LENGTH),
+                  })
+                }
+                style={BUTTON_STYLE}
+                disabled={full}
+                aria-label={`Duplicate ${scene.name}`}
+              >
+                Copy
+              </JRPGButton>
+              <JRPGButton
+                onClick={() => handleDelete(scene)}
+                variant="danger"
+                style={BUTTON_STYLE}
+                disabled={active}
+                aria-label={`Delete ${scene.name}`}
+              >
+                Delete
+              </JRPGButton>
+            </div>
+          );
+        })}
+        <div style={{ display: "flex", gap: "6px" }}>
+          <input
+            type="text"
+            value={name}
+            maxLength={MAX_SCENE_NAME_LENGTH}
+            placeholder="New scene name"
+            aria-label="New scene name"
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={(event) => event.key === "Enter" && handleCreate()}
+            style={{ flex: 1 }}
+          />
+          <JRPGButton onClick={handleCreate} style={BUTTON_STYLE} disabled={!newName || full}>
+            Add scene
+          </JRPGButton>
+        </div>
+        {full && (
+          <span className="jrpg-text-body" style={{ opacity: 0.85, display: "block" }}>
+            {MAX_SCENES} scenes is the limit; delete one to add another.
+          </span>
+        )}
+      </div>
+    </JRPGPanel>
+  );
+}
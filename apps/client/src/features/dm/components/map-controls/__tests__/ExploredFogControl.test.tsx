@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import {
+  fullExploredBits,
+  maskGeometryFor,
+  type ExploredFogMask,
+  type Player,
+} from "@herobyte/shared";
+import { ExploredFogControl } from "../ExploredFogControl";
+
+const META = maskGeometryFor(80, 40);
+
+function player(uid: string, name: string, isDM = false): Player {
+  return { uid, name, hp: 10, maxHp: 10, isDM } as Player;
+}
+
+function revealed(uid: string): ExploredFogMask {
+  return {
+    uid,
+    sceneId: "map",
+    sceneWidth: 80,
+    sceneHeight: 40,
+    ...META,
+    epoch: 1,
+    bits: fullExploredBits(META),
+  };
+}
+
+const PLAYERS = [player("dm", "Dungeon Master", true), player("a", "Aria"), player("b", "Bram")];
+
+function renderControl(overrides: Partial<Parameters<typeof ExploredFogControl>[0]> = {}) {
+  const onExploredFogChange = vi.fn();
+  render(
+    <ExploredFogControl
+      players={PLAYERS}
+      exploredFog={[revealed("a")]}
+      fogEnabled
+      hasCompiledScene
+      onExploredFogChange={onExploredFogChange}
+      {...overrides}
+    />,
+  );
+  return { onExploredFogChange };
+}
+
+describe("ExploredFogControl", () => {
+  // The DM's own memory is never the point, so the DM has no row.
+  it("lists each player with how much of the map they remember", () => {
+    renderControl();
+
+    expect(screen.getByText("Aria — 100% explored")).toBeInTheDocument();
+    expect(screen.getByText("Bram — 0% explored")).toBeInTheDocument();
+    expect(screen.queryByText(/Dungeon Master/)).not.toBeInTheDocument();
+  });
+
+  it("resets or reveals one player by uid", () => {
+    const { onExploredFogChange } = renderControl();
+
+    fireEvent.click(screen.getByRole("button", { name: "Reset Aria's explored area" }));
+    fireEvent.click(screen.getByRole("button", { name: "Reveal the map to Bram" }));
+
+    expect(onExploredFogChange).toHaveBeenNthCalledWith(1, "reset", "a");
+    expect(onExploredFogChange).toHaveBeenNthCalledWith(2, "reveal", "b");
+  });
+
+  it("resets everyone with no uid at all", () => {
+    const { onExploredFogChange } = renderControl();
+
+    fireEvent.click(screen.getByRole("button", { name: "Reset everyone" }));
+
+    expect(onExploredFogChange).toHaveBeenCalledWith("reset");
+  });
+
+  it("explains itself instead of offering buttons while fog is off", () => {
+    renderControl({ fogEnabled: false });
+
+    expect(screen.getByText(/Turn fog on/i)).toBeInTheDocument();
+    expect(screen.queryByRole("button")).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import type { FogBrushController } from "../../../../map/useFogBrush";
+import { FogBrushControl } from "../FogBrushControl";
+
+function controller(overrides: Partial<FogBrushController> = {}): FogBrushController {
+  return {
+    active: false,
+    settings: { mode: "reveal", shape: "brush", size: 50 },
+    setSettings: vi.fn(),
+    toggle: vi.fn(),
+    undo: vi.fn(),
+    redo: vi.fn(),
+    clear: vi.fn(),
+    ...overrides,
+  };
+}
+
+function renderControl(fogBrush = controller(), regionCount = 2) {
+  render(
+    <FogBrushControl fogBrush={fogBrush} regionCount={regionCount} fogEnabled hasCompiledScene />,
+  );
+  return fogBrush;
+}
+
+describe("FogBrushControl", () => {
+  it("picks the mode and shape, and arms the brush", () => {
+    const fogBrush = renderControl();
+
+    fireEvent.click(screen.getByRole("button", { name: "Conceal" }));
+    fireEvent.click(screen.getByRole("button", { name: "Rectangle" }));
+    fireEvent.click(screen.getByRole("button", { name: /Paint on the map/ }));
+
+    expect(fogBrush.setSettings).toHaveBeenNthCalledWith(1, { mode: "conceal" });
+    expect(fogBrush.setSettings).toHaveBeenNthCalledWith(2, { shape: "rect" });
+    expect(fogBrush.toggle).toHaveBeenCalled();
+  });
+
+  it("clears only once the DM confirms", () => {
+    const confirm = vi
+      .spyOn(window, "confirm")
+      .mockReturnValueOnce(false)
+      .mockReturnValueOnce(true);
+    const fogBrush = renderControl();
+
+    fireEvent.click(screen.getByRole("button", { name: "Clear" }));
+    expect(fogBrush.clear).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole("button", { name: "Clear" }));
+    expect(fogBrush.clear).toHaveBeenCalledTimes(1);
+    confirm.mockRestore();
+  });
+
+  it("has nothing to undo or clear on an unpainted map", () => {
+    renderControl(controller(), 0);
+
+    expect(screen.getByRole("button", { name: "Undo" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Clear" })).toBeDisabled();
+  });
+
+  it("explains itself instead of offering tools with nothing published", () => {
+    render(
+      <FogBrushControl
+        fogBrush={controller()}
+        regionCount={0}
+        fogEnabled
+        hasCompiledScene={false}
+      />,
+    );
+
+    expect(screen.getByText(/Publish a Map Studio map first/)).toBeInTheDocument();
+    expect(screen.queryByRole("button")).not.toBeInTheDocument();
+  });
+});
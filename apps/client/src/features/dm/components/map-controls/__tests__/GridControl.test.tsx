@@ -84,3 +84,31 @@ describe("GridControl — diagonal rule", () => {
     expect(screen.queryByRole("button", { name: "Pathfinder" })).not.toBeInTheDocument();
   });
 });
+
+describe("GridControl — movement budget", () => {
+  it("asks to turn the budget on when it is off", () => {
+    const onMovementBudgetChange = vi.fn();
+    renderControl({ onMovementBudgetChange });
+
+    fireEvent.click(screen.getByRole("button", { name: "Movement Budget: OFF" }));
+    expect(onMovementBudgetChange).toHaveBeenCalledWith(true);
+  });
+
+  it("shows the room's current setting, even with the grid locked", () => {
+    renderControl({
+      gridLocked: true,
+      movementBudgetEnabled: true,
+      onMovementBudgetChange: vi.fn(),
+    });
+
+    expect(screen.getByRole("button", { name: "Movement Budget: ON" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+  });
+
+  it("shows nothing when there is no handler", () => {
+    renderControl();
+    expect(screen.queryByRole("button", { name: /Movement Budget/ })).toBeNull();
+  });
+});
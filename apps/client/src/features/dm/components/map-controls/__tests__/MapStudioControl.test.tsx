@@ -42,7 +42,10 @@ function controller(overrides: Partial<MapStudioController> = {}): MapStudioCont
     addDoor: vi.fn(() => "door-id"),
     addLight: vi.fn(() => "light-id"),
     addSpline: vi.fn(() => "spline-id"),
+    addArea: vi.fn(() => "area-id"),
+    addLink: vi.fn(() => "link-id"),
     updateDoor: vi.fn(),
+    updateLink: vi.fn(),
     removeElement: vi.fn(),
     updateElement: vi.fn(),
     generate: vi.fn(),
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MAX_SCENES } from "@herobyte/shared";
+import { SceneListControl } from "../SceneListControl";
+
+const SCENES = [
+  { id: "town", name: "Town" },
+  { id: "crypt", name: "Crypt" },
+];
+
+function renderControl(scenes = SCENES, activeSceneId = "town") {
+  const onSceneCommand = vi.fn();
+  render(
+    <SceneListControl
+      scenes={scenes}
+      activeSceneId={activeSceneId}
+      onSceneCommand={onSceneCommand}
+    />,
+  );
+  return onSceneCommand;
+}
+
+describe("SceneListControl", () => {
+  it("switches to and copies a scene", () => {
+    const onSceneCommand = renderControl();
+
+    fireEvent.click(screen.getByRole("button", { name: "Switch to Crypt" }));
+    fireEvent.click(screen.getByRole("button", { name: "Duplicate Town" }));
+
+    expect(onSceneCommand).toHaveBeenNthCalledWith(1, { t: "activate-scene", sceneId: "crypt" });
+    expect(onSceneCommand).toHaveBeenNthCalledWith(2, {
+      t: "duplicate-scene",
+      sceneId: "town",
+      name: "Town (copy)",
+    });
+  });
+
+  it("adds a scene under its trimmed name and clears the field", () => {
+    const onSceneCommand = renderControl();
+    const input = screen.getByLabelText("New scene name");
+
+    expect(screen.getByRole("button", { name: "Add scene" })).toBeDisabled();
+    fireEvent.change(input, { target: { value: "  Boss Room " } });
+    fireEvent.click(screen.getByRole("button", { name: "Add scene" }));
+
+    expect(onSceneCommand).toHaveBeenCalledWith({ t: "create-scene", name: "Boss Room" });
+    expect(input).toHaveValue("");
+  });
+
+  it("deletes only once the DM confirms, and never the scene on the table", () => {
+    const confirm = vi
+      .spyOn(window, "confirm")
+      .mockReturnValueOnce(false)
+      .mockReturnValueOnce(true);
+    const onSceneCommand = renderControl();
+
+    expect(screen.getByRole("button", { name: "Delete Town" })).toBeDisabled();
+    fireEvent.click(screen.getByRole("button", { name: "Delete Crypt" }));
+    expect(onSceneCommand).not.toHaveBeenCalled();
+    fireEvent.click(screen.getByRole("button", { name: "Delete Crypt" }));
+    expect(onSceneCommand).toHaveBeenCalledWith({ t: "delete-scene", sceneId: "crypt" });
+    confirm.mockRestore();
+  });
+
+  it("stops offering new scenes at the limit", () => {
+    const full = Array.from({ length: MAX_SCENES }, (_, i) => ({ id: `s${i}`, name: `S${i}` }));
+    renderControl(full, "s0");
+
+    expect(screen.getByRole("button", { name: "Add scene" })).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Duplicate S1" })).toBeDisabled();
+    expect(screen.getByText(/is the limit/)).toBeInTheDocument();
+  });
+});
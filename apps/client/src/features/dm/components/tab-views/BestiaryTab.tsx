@@ -0,0 +1,245 @@
+// ============================================================================
+// BESTIARY TAB COMPONENT
+// ============================================================================
+// The room's monster templates, for the Bestiary tab in DMMenu. Each row is a
+// stat block the DM can stamp out as numbered NPCs ("Goblin 1", "Goblin 2")
+// with hit points rolled on the server, edit, or delete. Export downloads the
+// whole bestiary as a file another table can import.
+//
+// Everything here is a message to the server; the list is whatever the DM's
+// snapshot last carried, so two DMs editing at once see each other's work.
+
+import { useRef, useState } from "react";
+import {
+  BESTIARY_LIMITS,
+  NPC_CREATE_LIMITS,
+  type ClientMessage,
+  type MonsterTemplate,
+  type MonsterTemplateInput,
+} from "@herobyte/shared";
+import { JRPGButton, JRPGPanel } from "../../../../components/ui/JRPGPanel";
+import { loadBestiaryFile, saveBestiaryFile } from "../../../../utils/bestiaryFile";
+import { MonsterTemplateEditor } from "../MonsterTemplateEditor";
+
+/** The four DM messages this tab sends. */
+export type BestiaryCommand = Extract<
+  ClientMessage,
+  {
+    t:
+      | "upsert-monster-template"
+      | "delete-monster-template"
+      | "import-bestiary"
+      | "create-npc-from-template";
+  }
+>;
+
+interface BestiaryTabProps {
+  /** From the DM's snapshot; absent while the bestiary is empty. */
+  templates?: MonsterTemplate[];
+  onBestiaryCommand: (command: BestiaryCommand) => void;
+  toast?: {
+    success: (message: string) => void;
+    error: (message: string) => void;
+  };
+}
+
+const BUTTON_STYLE = { fontSize: "10px", padding: "4px 8px" };
+
+function signed(value: number): string {
+  return value >= 0 ? `+${value}` : String(value);
+}
+
+/** "AC 15 · HP 2d6 · Init +2 · 30 ft" */
+function statLine(template: MonsterTemplate): string {
+  const parts = [
+    `AC ${template.ac}`,
+    `HP ${template.hpFormula}`,
+    `Init ${signed(template.initiativeModifier)}`,
+  ];
+  if (template.speed !== undefined) parts.push(`${template.speed} ft`);
+  return parts.join(" · ");
+}
+
+export default function BestiaryTab({
+  templates = [],
+  onBestiaryCommand,
+  toast,
+}: BestiaryTabProps) {
+  // "new" for the blank form, a template id while editing one, null when closed.
+  const [editing, setEditing] = useState<string | null>(null);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const full = templates.length >= BESTIARY_LIMITS.TEMPLATES_MAX;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!file) return;
+    try {
+      const imported = await loadBestiaryFile(file);
+      onBestiaryCommand({
+        t: "import-bestiary",
+        // Unchecked on purpose: the server coerces each one and skips the rest.
+        templates: imported.slice(0, BESTIARY_LIMITS.TEMPLATES_MAX) as MonsterTemplateInput[],
+      });
+      toast?.success(`Importing ${imported.length} template${imported.length === 1 ? "" : "s"}`);
+    } catch (error) {
+      toast?.error(error instanceof Error ? error.message : "Failed to import bestiary");
+    }
+  };
+
+  const handleDelete = (template: MonsterTemplate) => {
+    if (confirm(`Delete the template "${template.name}"? NPCs made from it are kept.`)) {
+      onBestiaryCommand({ t: "delete-monster-template", id: template.id });
+    }
+  };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: "8px",
+        }}
+      >
+        <h4 className="jrpg-text-command" style={{ margin: 0 }}>
+          Bestiary
+        </h4>
+        <div style={{ display: "flex", gap: "8px", flexWrap: "wrap" }}>
+          <JRPGButton
+            onClick={() => saveBestiaryFile(templates)}
+            disabled={templates.length === 0}
+            style={BUTTON_STYLE}
+          >
+            Export
+          </JRPGButton>
+          <JRPGButton onClick={() => fileInputRef.current?.click()} style={BUTTON_STYLE}>
+            Import
+          </JRPGButton>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json"
+            aria-label="Import bestiary file"
+            style={{ display: "none" }}
+            onChange={handleImport}
+          />
+          <JRPGButton
+            variant="success"
+            onClick={() => setEditing("new")}
+            disabled={full || editing === "new"}
+            title={
+              full ? `The bestiary holds ${BESTIARY_LIMITS.TEMPLATES_MAX} templates` : undefined
+            }
+            style={BUTTON_STYLE}
+          >
+            + New Template
+          </JRPGButton>
+        </div>
+      </div>
+
+      {editing === "new" && (
+        <MonsterTemplateEditor
+          onSave={(template) => {
+            onBestiaryCommand({ t: "upsert-monster-template", template });
+            setEditing(null);
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {templates.length === 0 && editing !== "new" && (
+        <JRPGPanel variant="simple" style={{ color: "var(--jrpg-white)", fontSize: "12px" }}>
+          No templates yet. Write a stat block once with “New Template”, then add as many copies as
+          the encounter needs.
+        </JRPGPanel>
+      )}
+
+      {templates.map((template) =>
+        editing === template.id ? (
+          <MonsterTemplateEditor
+            key={template.id}
+            template={template}
+            onSave={(updated) => {
+              onBestiaryCommand({ t: "upsert-monster-template", template: updated });
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <JRPGPanel key={template.id} variant="simple" style={{ padding: "8px" }}>
+            <div style={{ display: "flex", alignItems: "center", gap: "6px", flexWrap: "wrap" }}>
+              <div style={{ flex: 1, minWidth: "140px" }}>
+                <div className="jrpg-text-body" style={{ fontWeight: "bold" }}>
+                  {template.name}
+                </div>
+                <div className="jrpg-text-small" style={{ opacity: 0.85 }}>
+                  {statLine(template)}
+                </div>
+                {template.attacks.length > 0 && (
+                  <div className="jrpg-text-small" style={{ opacity: 0.85 }}>
+                    {template.attacks
+                      .map((attack) => `${attack.name} ${signed(attack.toHit)} (${attack.damage})`)
+                      .join(", ")}
+                  </div>
+                )}
+              </div>
+              <label
+                className="jrpg-text-small"
+                style={{ display: "flex", alignItems: "center", gap: "4px", fontSize: "10px" }}
+              >
+                <span aria-hidden="true">×</span>
+                <input
+                  type="number"
+                  min={NPC_CREATE_LIMITS.COUNT_MIN}
+                  max={NPC_CREATE_LIMITS.COUNT_MAX}
+                  step={1}
+                  value={counts[template.id] ?? 1}
+                  onChange={(e) => {
+                    const count = Number.parseInt(e.target.value, 10);
+                    if (!Number.isFinite(count)) return;
+                    setCounts((current) => ({
+                      ...current,
+                      [template.id]: Math.min(
+                        Math.max(count, NPC_CREATE_LIMITS.COUNT_MIN),
+                        NPC_CREATE_LIMITS.COUNT_MAX,
+                      ),
+                    }));
+                  }}
+                  aria-label={`How many ${template.name} to add`}
+                  style={{ width: "44px", fontSize: "10px", padding: "4px" }}
+                />
+              </label>
+              <JRPGButton
+                variant="success"
+                onClick={() =>
+                  onBestiaryCommand({
+                    t: "create-npc-from-template",
+                    templateId: template.id,
+                    count: counts[template.id] ?? 1,
+                  })
+                }
+                style={BUTTON_STYLE}
+              >
+                + Add
+              </JRPGButton>
+              <JRPGButton onClick={() => setEditing(template.id)} style={BUTTON_STYLE}>
+                Edit
+              </JRPGButton>
+              <JRPGButton
+                variant="danger"
+                onClick={() => handleDelete(template)}
+                style={BUTTON_STYLE}
+              >
+                Delete
+              </JRPGButton>
+            </div>
+          </JRPGPanel>
+        ),
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@
 // This component orchestrates the map configuration workflow by arranging
 // specialized control components in a vertical layout. It handles:
 //
+// 0. Scenes - The room's saved scenes, and switching between them
 // 1. Map Background - Upload/set the background image
 // 2. Map Transform - Adjust position, scale, and rotation (conditional)
 // 3. Grid Control - Configure grid size and square dimensions
@@ -16,18 +17,29 @@
 // This is purely a composition component - it does not contain business logic,
 // only arranges child components and passes through their props.
 
-import type { DiagonalRule, PlayerStagingZone } from "@herobyte/shared";
+import type {
+  DiagonalRule,
+  ExploredFogAction,
+  ExploredFogMask,
+  Player,
+  PlayerStagingZone,
+  SceneSummary,
+} from "@herobyte/shared";
 import type { AlignmentPoint, AlignmentSuggestion } from "../../../../types/alignment";
 import type { Camera } from "../../../../hooks/useCamera";
+import type { FogBrushController } from "../../../map/useFogBrush";
 import { MapBackgroundControl } from "../map-controls/MapBackgroundControl";
 import { MapTransformControl } from "../map-controls/MapTransformControl";
 import { GridControl } from "../map-controls/GridControl";
 import { FogControl } from "../map-controls/FogControl";
 import { DefaultVisionControl } from "../map-controls/DefaultVisionControl";
+import { ExploredFogControl } from "../map-controls/ExploredFogControl";
+import { FogBrushControl } from "../map-controls/FogBrushControl";
 import { GridAlignmentWizard } from "../map-controls/GridAlignmentWizard";
 import { StagingZoneControl } from "../map-controls/StagingZoneControl";
 import { DrawingControls } from "../map-controls/DrawingControls";
 import { MapStudioControl } from "../map-controls/MapStudioControl";
+import { SceneListControl, type SceneCommand } from "../map-controls/SceneListControl";
 import type { MapStudioController } from "../../../map-studio";
 
 /**
@@ -60,6 +72,8 @@ export interface MapTabProps {
   onGridLockToggle: () => void;
   diagonalRule?: DiagonalRule;
   onDiagonalRuleChange?: (rule: DiagonalRule) => void;
+  movementBudgetEnabled?: boolean;
+  onMovementBudgetChange?: (enabled: boolean) => void;
 
   // FogControl props
   fogEnabled?: boolean;
@@ -68,6 +82,20 @@ export interface MapTabProps {
   defaultVisionRadius?: number;
   onDefaultVisionRadiusChange?: (radiusFeet: number | null) => void;
 
+  // ExploredFogControl props
+  players?: Player[];
+  exploredFog?: ExploredFogMask[];
+  onExploredFogChange?: (action: ExploredFogAction, uid?: string) => void;
+
+  // FogBrushControl props
+  fogBrush?: FogBrushController;
+  fogRegionCount?: number;
+
+  // SceneListControl props
+  scenes?: SceneSummary[];
+  activeSceneId?: string;
+  onSceneCommand?: (command: SceneCommand) => void;
+
   // GridAlignmentWizard props
   alignmentModeActive: boolean;
   alignmentPoints: AlignmentPoint[];
@@ -117,11 +145,21 @@ export default function MapTab({
   onGridLockToggle,
   diagonalRule,
   onDiagonalRuleChange,
+  movementBudgetEnabled,
+  onMovementBudgetChange,
   fogEnabled,
   hasCompiledScene,
   onFogEnabledChange,
   defaultVisionRadius,
   onDefaultVisionRadiusChange,
+  players,
+  exploredFog,
+  onExploredFogChange,
+  fogBrush,
+  fogRegionCount,
+  scenes,
+  activeSceneId,
+  onSceneCommand,
   alignmentModeActive,
   alignmentPoints,
   alignmentSuggestion,
@@ -140,6 +178,14 @@ export default function MapTab({
 }: MapTabProps) {
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
+      {onSceneCommand && (
+        <SceneListControl
+          scenes={scenes}
+          activeSceneId={activeSceneId}
+          onSceneCommand={onSceneCommand}
+        />
+      )}
+
       <MapBackgroundControl
         mapBackground={mapBackground}
         onSetMapBackground={onSetMapBackground}
@@ -181,6 +227,8 @@ export default function MapTab({
         onGridLockToggle={onGridLockToggle}
         diagonalRule={diagonalRule}
         onDiagonalRuleChange={onDiagonalRuleChange}
+        movementBudgetEnabled={movementBudgetEnabled}
+        onMovementBudgetChange={onMovementBudgetChange}
       />
 
       {onFogEnabledChange && (
@@ -199,6 +247,25 @@ export default function MapTab({
         />
       )}
 
+      {onExploredFogChange && (
+        <ExploredFogControl
+          players={players ?? []}
+          exploredFog={exploredFog}
+          fogEnabled={fogEnabled ?? false}
+          hasCompiledScene={hasCompiledScene ?? false}
+          onExploredFogChange={onExploredFogChange}
+        />
+      )}
+
+      {fogBrush && (
+        <FogBrushControl
+          fogBrush={fogBrush}
+          regionCount={fogRegionCount ?? 0}
+          fogEnabled={fogEnabled ?? false}
+          hasCompiledScene={hasCompiledScene ?? false}
+        />
+      )}
+
       {/* Step 4: Align Grid to Map (optional) */}
       <GridAlignmentWizard
         alignmentModeActive={alignmentModeActive}
@@ -5,7 +5,8 @@
 // Extracted from DMMenu.tsx as part of Phase 5: Tab Views refactoring.
 //
 // This component is responsible for:
-// - Displaying the NPCs tab header with "Add NPC" button
+// - Displaying the NPCs tab header with "Add NPC" button, and "Remove
+//   Defeated" once any NPC is unconscious, dead or fled
 // - Rendering an empty state message when no NPCs exist
 // - Rendering a list of NPCEditor components for each NPC
 //
@@ -13,8 +14,8 @@
 // (JRPGPanel, JRPGButton, NPCEditor) without implementing business logic.
 
 import { useState } from "react";
-import type { Character, SnapshotCharacter } from "@herobyte/shared";
-import { NPC_CREATE_LIMITS } from "@herobyte/shared";
+import type { Character, CombatMode, SnapshotCharacter } from "@herobyte/shared";
+import { NPC_CREATE_LIMITS, isDefeated } from "@herobyte/shared";
 import { JRPGButton, JRPGPanel } from "../../../../components/ui/JRPGPanel";
 import { NPCEditor } from "../NPCEditor";
 import { useBulkInitiativeRoll } from "../../../../hooks/useBulkInitiativeRoll";
@@ -36,6 +37,8 @@ interface NPCsTabProps {
   onPlaceNPCToken: (id: string) => void;
   /** Callback to delete an NPC */
   onDeleteNPC: (id: string) => void;
+  /** Callback to delete every defeated NPC, with its token */
+  onRemoveDefeated?: () => void;
   /** Whether NPC creation is in progress */
   isCreatingNpc?: boolean;
   /** Error message from NPC creation attempt */
@@ -59,6 +62,8 @@ interface NPCsTabProps {
   };
   /** Callback to set initiative for a character */
   onSetInitiative?: (characterId: string, initiative: number, modifier: number) => void;
+  /** The room's combat mode: group and side initiative roll once per group */
+  combatMode?: CombatMode;
 }
 
 /**
@@ -79,6 +84,7 @@ export default function NPCsTab({
   onUpdateNPC,
   onPlaceNPCToken,
   onDeleteNPC,
+  onRemoveDefeated,
   isCreatingNpc = false,
   npcCreationError = null,
   isUpdatingNpc = false,
@@ -89,6 +95,7 @@ export default function NPCsTab({
   placingTokenForNpcId = null,
   toast,
   onSetInitiative,
+  combatMode,
 }: NPCsTabProps) {
   // Callback to set initiative for a character - uses proper set-initiative WebSocket message
   const handleSetInitiative = (
@@ -101,7 +108,11 @@ export default function NPCsTab({
     }
   };
 
-  const { rollAllInitiative, isRolling } = useBulkInitiativeRoll(npcs, handleSetInitiative);
+  const { rollAllInitiative, isRolling } = useBulkInitiativeRoll(
+    npcs,
+    handleSetInitiative,
+    combatMode,
+  );
 
   // How many the next "+ Add NPC" makes. Kept as a string so the field can be
   // empty mid-edit instead of snapping back to 1 under the DM's cursor.
@@ -111,6 +122,14 @@ export default function NPCsTab({
     ? Math.min(Math.max(parsedCount, NPC_CREATE_LIMITS.COUNT_MIN), NPC_CREATE_LIMITS.COUNT_MAX)
     : NPC_CREATE_LIMITS.COUNT_MIN;
 
+  // The log and the tracker keep the defeated until the DM clears them away.
+  const defeatedCount = npcs.filter(isDefeated).length;
+  const handleRemoveDefeated = () => {
+    if (confirm(`Remove ${defeatedCount} defeated NPC(s)? Their tokens go with them.`)) {
+      onRemoveDefeated?.();
+    }
+  };
+
   const handleRollAllInitiative = async () => {
     const count = await rollAllInitiative();
     if (count > 0 && toast) {
@@ -150,6 +169,15 @@ export default function NPCsTab({
               {isRolling ? "Rolling..." : "⚔️ Roll Missing Initiative"}
             </JRPGButton>
           )}
+          {onRemoveDefeated && defeatedCount > 0 && (
+            <JRPGButton
+              variant="danger"
+              onClick={handleRemoveDefeated}
+              style={{ fontSize: "10px", padding: "6px 12px" }}
+            >
+              💀 Remove Defeated ({defeatedCount})
+            </JRPGButton>
+          )}
           {/* The count sits BEFORE the button so it reads as "× 5 → + Add NPC",
               and so a DM who wants one never has to touch it. */}
           <label
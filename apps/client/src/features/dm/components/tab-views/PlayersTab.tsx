@@ -13,10 +13,19 @@
 // This is a pure composition component that arranges existing UI components
 // (JRPGPanel, JRPGButton) without implementing business logic.
 
-import { MONSTER_HP_DISPLAY_MODES } from "@herobyte/shared";
-import type { Player, SceneObject, MonsterHpDisplay } from "@herobyte/shared";
+import { COMBAT_MODES, COMBAT_MODE_LABELS, MONSTER_HP_DISPLAY_MODES } from "@herobyte/shared";
+import type {
+  CombatEvent,
+  CombatMode,
+  Player,
+  SceneObject,
+  MonsterHpDisplay,
+  TurnTimer,
+} from "@herobyte/shared";
 import { JRPGButton, JRPGPanel } from "../../../../components/ui/JRPGPanel";
+import { saveCombatLogMarkdown } from "../../../../utils/combatLogFile";
 import { TurnNavigationControls } from "../../../initiative/components/TurnNavigationControls";
+import { TurnTimerControl } from "../combat-controls/TurnTimerControl";
 
 /**
  * Props for the PlayersTab component
@@ -40,10 +49,22 @@ interface PlayersTabProps {
   onNextTurn?: () => void;
   /** Callback to go to previous turn */
   onPreviousTurn?: () => void;
+  /** The fight's round, shown between the turn arrows */
+  combatRound?: number;
+  /** The current (or last) fight's log; kept after End Combat for export */
+  combatLog?: CombatEvent[];
   /** Current monster HP display mode (S4) */
   monsterHpDisplay?: MonsterHpDisplay;
   /** Callback to change how much monster HP players see (S4) */
   onMonsterHpDisplayChange?: (mode: MonsterHpDisplay) => void;
+  /** Who takes a turn together: individual, group or side initiative */
+  combatMode?: CombatMode;
+  /** Callback to change the combat mode */
+  onCombatModeChange?: (mode: CombatMode) => void;
+  /** The room's turn timer; absent = no timer */
+  turnTimer?: TurnTimer;
+  /** Callback to set the turn timer, or turn it off with no argument */
+  onTurnTimerChange?: (timer?: TurnTimer) => void;
 }
 
 /**
@@ -76,8 +97,14 @@ export default function PlayersTab({
   onClearAllInitiative,
   onNextTurn,
   onPreviousTurn,
+  combatRound,
+  combatLog = [],
   monsterHpDisplay = "exact",
   onMonsterHpDisplayChange,
+  combatMode = "individual",
+  onCombatModeChange,
+  turnTimer,
+  onTurnTimerChange,
 }: PlayersTabProps) {
   return (
     <div style={{ display: "flex", flexDirection: "column", gap: "16px" }}>
@@ -131,12 +158,50 @@ export default function PlayersTab({
               🗑️ Clear All Initiative
             </JRPGButton>
 
+            {/* Export Combat Log — the log outlives End Combat for this */}
+            <JRPGButton
+              onClick={() => saveCombatLogMarkdown(combatLog)}
+              variant="default"
+              disabled={combatLog.length === 0}
+              style={{ width: "100%", fontSize: "10px", padding: "6px 8px" }}
+            >
+              📜 Export Combat Log
+            </JRPGButton>
+
+            {/* Turn Mode — the server walks and enforces it; this is the dial */}
+            {onCombatModeChange && (
+              <div>
+                <div className="jrpg-text-small" style={{ marginBottom: "4px" }}>
+                  Turn Mode: NPCs added together act together in Group; all PCs, then all NPCs, in
+                  Side.
+                </div>
+                <div style={{ display: "flex", gap: "8px" }}>
+                  {COMBAT_MODES.map((mode) => (
+                    <JRPGButton
+                      key={mode}
+                      onClick={() => onCombatModeChange(mode)}
+                      variant={combatMode === mode ? "primary" : "default"}
+                      style={{ flex: 1, fontSize: "10px", padding: "6px 8px" }}
+                    >
+                      {COMBAT_MODE_LABELS[mode]}
+                    </JRPGButton>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Turn Timer — the server keeps the clock and acts when it runs out */}
+            {onTurnTimerChange && (
+              <TurnTimerControl turnTimer={turnTimer} onTurnTimerChange={onTurnTimerChange} />
+            )}
+
             {/* Turn Navigation */}
             {onNextTurn && onPreviousTurn && (
               <TurnNavigationControls
                 combatActive={combatActive}
                 onNextTurn={onNextTurn}
                 onPreviousTurn={onPreviousTurn}
+                round={combatRound}
               />
             )}
           </div>
@@ -0,0 +1,85 @@
+/**
+ * Tests for the Bestiary tab: stamping NPCs out of a template, and the stat
+ * block editor's save. Both are messages to the server, so these check what
+ * gets sent rather than what the list shows afterwards.
+ */
+
+import React from "react";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import type { MonsterTemplate } from "@herobyte/shared";
+import BestiaryTab from "../BestiaryTab";
+
+afterEach(() => cleanup());
+
+const GOBLIN: MonsterTemplate = {
+  id: "goblin",
+  name: "Goblin",
+  ac: 15,
+  hpFormula: "2d6",
+  speed: 30,
+  initiativeModifier: 2,
+  attacks: [{ name: "Scimitar", toHit: 4, damage: "1d6+2", damageType: "slashing" }],
+};
+
+function renderTab(overrides: Partial<React.ComponentProps<typeof BestiaryTab>> = {}) {
+  const onBestiaryCommand = vi.fn();
+  render(<BestiaryTab templates={[GOBLIN]} onBestiaryCommand={onBestiaryCommand} {...overrides} />);
+  return { onBestiaryCommand };
+}
+
+describe("BestiaryTab", () => {
+  it("shows each template's stat line", () => {
+    renderTab();
+
+    expect(screen.getByText("AC 15 · HP 2d6 · Init +2 · 30 ft")).toBeInTheDocument();
+    expect(screen.getByText("Scimitar +4 (1d6+2)")).toBeInTheDocument();
+  });
+
+  it("adds the typed number of NPCs from a template", () => {
+    const props = renderTab();
+
+    fireEvent.change(screen.getByLabelText("How many Goblin to add"), { target: { value: "4" } });
+    fireEvent.click(screen.getByRole("button", { name: "+ Add" }));
+
+    expect(props.onBestiaryCommand).toHaveBeenCalledWith({
+      t: "create-npc-from-template",
+      templateId: "goblin",
+      count: 4,
+    });
+  });
+
+  it("saves a new template only once it has a name and a rollable HP formula", () => {
+    const props = renderTab({ templates: [] });
+
+    fireEvent.click(screen.getByRole("button", { name: "+ New Template" }));
+    const save = screen.getByRole("button", { name: "Save Template" });
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Template Name"), { target: { value: "Wolf" } });
+    fireEvent.change(screen.getByLabelText("Template HP formula"), { target: { value: "two" } });
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Template HP formula"), { target: { value: "2d8+2" } });
+    fireEvent.click(save);
+
+    expect(props.onBestiaryCommand).toHaveBeenCalledWith({
+      t: "upsert-monster-template",
+      template: expect.objectContaining({ name: "Wolf", hpFormula: "2d8+2", ac: 10, attacks: [] }),
+    });
+    expect(props.onBestiaryCommand.mock.calls[0][0].template).not.toHaveProperty("id");
+  });
+
+  it("keeps the template's id when editing, so the server replaces it", () => {
+    const props = renderTab();
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit" }));
+    fireEvent.change(screen.getByLabelText("Template AC"), { target: { value: "16" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Template" }));
+
+    expect(props.onBestiaryCommand).toHaveBeenCalledWith({
+      t: "upsert-monster-template",
+      template: expect.objectContaining({ id: "goblin", ac: 16 }),
+    });
+  });
+});
@@ -171,3 +171,37 @@ describe("NPCsTab — duplicating", () => {
     expect(screen.getByRole("button", { name: /copying/i })).toBeDisabled();
   });
 });
+
+describe("NPCsTab — removing the defeated", () => {
+  const dead = (id: string, name: string) => ({ ...npc(id, name), status: "dead" as const });
+
+  it("only offers the sweep once someone is out of the fight", () => {
+    renderTab({ npcs: [npc("a", "Goblin 1")], onRemoveDefeated: vi.fn() });
+
+    expect(screen.queryByRole("button", { name: /remove defeated/i })).not.toBeInTheDocument();
+  });
+
+  it("counts the defeated and removes them after confirming", () => {
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(true);
+    const props = renderTab({
+      npcs: [dead("a", "Goblin 1"), dead("b", "Goblin 2"), npc("c", "Orc")],
+      onRemoveDefeated: vi.fn(),
+    });
+
+    fireEvent.click(screen.getByRole("button", { name: "💀 Remove Defeated (2)" }));
+
+    expect(confirmSpy).toHaveBeenCalledTimes(1);
+    expect(props.onRemoveDefeated).toHaveBeenCalledTimes(1);
+    confirmSpy.mockRestore();
+  });
+
+  it("does nothing when the DM backs out", () => {
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(false);
+    const props = renderTab({ npcs: [dead("a", "Goblin 1")], onRemoveDefeated: vi.fn() });
+
+    fireEvent.click(screen.getByRole("button", { name: /remove defeated/i }));
+
+    expect(props.onRemoveDefeated).not.toHaveBeenCalled();
+    confirmSpy.mockRestore();
+  });
+});
@@ -5,6 +5,9 @@
 import { describe, expect, it, vi } from "vitest";
 import { fireEvent, render, screen } from "@testing-library/react";
 import PlayersTab from "../PlayersTab";
+import { saveCombatLogMarkdown } from "../../../../../utils/combatLogFile";
+
+vi.mock("../../../../../utils/combatLogFile", () => ({ saveCombatLogMarkdown: vi.fn() }));
 
 vi.mock("../../../../juice", () => ({
   useSfx: () => ({ play: vi.fn() }),
@@ -47,3 +50,51 @@ describe("PlayersTab — Monster HP Display", () => {
     expect(screen.queryByText("Monster HP Display")).not.toBeInTheDocument();
   });
 });
+
+describe("PlayersTab — Combat log export", () => {
+  it("is disabled until there is a log", () => {
+    renderTab();
+    expect(screen.getByRole("button", { name: /Export Combat Log/ })).toBeDisabled();
+  });
+
+  it("downloads the kept log after combat has ended", () => {
+    const combatLog = [{ id: "e", kind: "combat-ended" as const, round: 4, at: 0 }];
+    renderTab({ combatActive: false, combatLog });
+
+    fireEvent.click(screen.getByRole("button", { name: /Export Combat Log/ }));
+
+    expect(saveCombatLogMarkdown).toHaveBeenCalledWith(combatLog);
+  });
+});
+
+describe("PlayersTab — Turn mode", () => {
+  it("each button dispatches its mode and the current one is highlighted", () => {
+    const onCombatModeChange = vi.fn();
+    renderTab({ combatMode: "group", onCombatModeChange });
+
+    expect(screen.getByRole("button", { name: "Group" })).toHaveClass("jrpg-button-primary");
+    fireEvent.click(screen.getByRole("button", { name: "Side" }));
+    expect(onCombatModeChange).toHaveBeenCalledWith("side");
+  });
+});
+
+describe("PlayersTab — Turn timer", () => {
+  it("a length starts a timer that notifies the DM; Off clears it", () => {
+    const onTurnTimerChange = vi.fn();
+    renderTab({ onTurnTimerChange });
+
+    fireEvent.change(screen.getByLabelText("Turn Timer"), { target: { value: "60" } });
+    expect(onTurnTimerChange).toHaveBeenLastCalledWith({ seconds: 60, onExpire: "notify" });
+    fireEvent.change(screen.getByLabelText("Turn Timer"), { target: { value: "" } });
+    expect(onTurnTimerChange).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it("switches what running out does, keeping the length", () => {
+    const onTurnTimerChange = vi.fn();
+    renderTab({ turnTimer: { seconds: 90, onExpire: "notify" }, onTurnTimerChange });
+
+    expect(screen.getByRole("button", { name: "Notify DM" })).toHaveClass("jrpg-button-primary");
+    fireEvent.click(screen.getByRole("button", { name: "Auto-advance" }));
+    expect(onTurnTimerChange).toHaveBeenCalledWith({ seconds: 90, onExpire: "advance" });
+  });
+});
@@ -25,6 +25,8 @@ import type {
   Prop,
   DiagonalRule,
   MonsterHpDisplay,
+  CombatMode,
+  TurnTimer,
 } from "@herobyte/shared";
 import { useNpcCreation, type CreateNpcRequest } from "./useNpcCreation";
 import { useNpcUpdate } from "./useNpcUpdate";
@@ -36,24 +38,13 @@ import { usePropDeletion } from "./usePropDeletion";
 import { useSessionManagement, type ToastManager } from "../../session/useSessionManagement";
 
 export interface UseDMContextOptions {
-  /**
-   * Current room snapshot containing all game state
-   */
+  /** Current room snapshot containing all game state */
   snapshot: RoomSnapshot | null;
-
-  /**
-   * WebSocket message sender for client-server communication
-   */
+  /** WebSocket message sender for client-server communication */
   sendMessage: (message: ClientMessage) => void;
-
-  /**
-   * Camera state for prop positioning
-   */
+  /** Camera state for prop positioning */
   cameraState: { x: number; y: number; scale: number };
-
-  /**
-   * Toast notification manager
-   */
+  /** Toast notification manager */
   toast: ToastManager;
 }
 
@@ -75,6 +66,8 @@ export interface UseDMContextReturn {
     isDeleting: boolean;
     deleteNpc: (id: string) => void;
     deletionError: string | null;
+    /** Delete every defeated NPC at once; the server picks them. */
+    removeDefeated: () => void;
     // Token Placement
     isPlacing: boolean;
     placeToken: (id: string) => void;
@@ -116,6 +109,8 @@ export interface UseDMContextReturn {
     handleDeletePlayerToken: (tokenId: string) => void;
     handleSetMonsterHpDisplay: (mode: MonsterHpDisplay) => void;
     handleSetDiagonalRule: (rule: DiagonalRule) => void;
+    handleSetCombatMode: (mode: CombatMode) => void;
+    handleSetTurnTimer: (timer?: TurnTimer) => void;
   };
 }
 
@@ -217,6 +212,8 @@ export function useDMContext({
     [createNpc, snapshot?.characters],
   );
 
+  const removeDefeated = useCallback(() => sendMessage({ t: "remove-defeated" }), [sendMessage]);
+
   // Prop Management Hooks
   const {
     isCreating: isCreatingProp,
@@ -256,44 +253,39 @@ export function useDMContext({
   });
 
   // Combat Controls (simple message senders)
-  const handleStartCombat = useCallback(() => {
-    sendMessage({ t: "start-combat" });
-  }, [sendMessage]);
-
-  const handleEndCombat = useCallback(() => {
-    sendMessage({ t: "end-combat" });
-  }, [sendMessage]);
+  const handleStartCombat = useCallback(() => sendMessage({ t: "start-combat" }), [sendMessage]);
+  const handleEndCombat = useCallback(() => sendMessage({ t: "end-combat" }), [sendMessage]);
 
-  const handleClearAllInitiative = useCallback(() => {
-    sendMessage({ t: "clear-all-initiative" });
-  }, [sendMessage]);
-
-  const handleNextTurn = useCallback(() => {
-    sendMessage({ t: "next-turn" });
-  }, [sendMessage]);
+  const handleClearAllInitiative = useCallback(
+    () => sendMessage({ t: "clear-all-initiative" }),
+    [sendMessage],
+  );
 
-  const handlePreviousTurn = useCallback(() => {
-    sendMessage({ t: "previous-turn" });
-  }, [sendMessage]);
+  const handleNextTurn = useCallback(() => sendMessage({ t: "next-turn" }), [sendMessage]);
+  const handlePreviousTurn = useCallback(() => sendMessage({ t: "previous-turn" }), [sendMessage]);
 
   const handleSetMonsterHpDisplay = useCallback(
-    (mode: MonsterHpDisplay) => {
-      sendMessage({ t: "set-monster-hp-display", mode });
-    },
+    (mode: MonsterHpDisplay) => sendMessage({ t: "set-monster-hp-display", mode }),
     [sendMessage],
   );
 
   const handleSetDiagonalRule = useCallback(
-    (rule: DiagonalRule) => {
-      sendMessage({ t: "set-diagonal-rule", rule });
-    },
+    (rule: DiagonalRule) => sendMessage({ t: "set-diagonal-rule", rule }),
+    [sendMessage],
+  );
+
+  const handleSetCombatMode = useCallback(
+    (mode: CombatMode) => sendMessage({ t: "set-combat-mode", mode }),
+    [sendMessage],
+  );
+
+  const handleSetTurnTimer = useCallback(
+    (timer?: TurnTimer) => sendMessage({ t: "set-turn-timer", timer }),
     [sendMessage],
   );
 
   const handleDeletePlayerToken = useCallback(
-    (tokenId: string) => {
-      sendMessage({ t: "delete-token", id: tokenId });
-    },
+    (tokenId: string) => sendMessage({ t: "delete-token", id: tokenId }),
     [sendMessage],
   );
 
@@ -311,6 +303,7 @@ export function useDMContext({
       isDeleting: isDeletingNpc,
       deleteNpc,
       deletionError: npcDeletionError,
+      removeDefeated,
       isPlacing: isPlacingToken,
       placeToken,
       tokenPlacementError,
@@ -342,6 +335,8 @@ export function useDMContext({
       handleDeletePlayerToken,
       handleSetMonsterHpDisplay,
       handleSetDiagonalRule,
+      handleSetCombatMode,
+      handleSetTurnTimer,
     },
   };
 }
@@ -0,0 +1,76 @@
+// ============================================================================
+// COMBAT LOG
+// ============================================================================
+// The current (or last) fight as the server recorded it: one line per event,
+// grouped under the round it happened in, newest round last. The server has
+// already filtered the list for this viewer — hidden NPCs left out, monster
+// HP numbers dropped outside "exact" — so this only lays it out.
+
+import { combatEventText, type CombatEvent } from "@herobyte/shared";
+import { JRPGButton } from "../../../components/ui/JRPGPanel";
+import { sanitizeText } from "../../../utils/sanitize";
+import { saveCombatLogMarkdown } from "../../../utils/combatLogFile";
+
+interface CombatLogProps {
+  events: CombatEvent[];
+}
+
+export function CombatLog({ events }: CombatLogProps) {
+  const rounds: { round: number; events: CombatEvent[] }[] = [];
+  for (const event of events) {
+    const last = rounds[rounds.length - 1];
+    if (last && last.round === event.round) last.events.push(event);
+    else rounds.push({ round: event.round, events: [event] });
+  }
+
+  return (
+    <div data-testid="combat-log">
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+          marginBottom: "8px",
+        }}
+      >
+        <span className="jrpg-text-small">Combat Log</span>
+        <JRPGButton
+          onClick={() => saveCombatLogMarkdown(events)}
+          disabled={events.length === 0}
+          style={{ fontSize: "10px", padding: "4px 8px" }}
+        >
+          📜 Export Markdown
+        </JRPGButton>
+      </div>
+      <div
+        style={{
+          maxHeight: "180px",
+          overflowY: "auto",
+          padding: "8px",
+          background: "#111",
+          border: "2px solid var(--jrpg-border-gold)",
+        }}
+      >
+        {rounds.length === 0 && (
+          <div className="jrpg-text-small" style={{ opacity: 0.7 }}>
+            Nothing has happened yet.
+          </div>
+        )}
+        {rounds.map(({ round, events: inRound }) => (
+          <div key={`${round}-${inRound[0].id}`} style={{ marginBottom: "6px" }}>
+            <div className="jrpg-text-small" style={{ color: "var(--jrpg-gold)" }}>
+              Round {round}
+            </div>
+            <ul style={{ margin: 0, paddingLeft: "16px" }}>
+              {inRound.map((event) => (
+                <li key={event.id} className="jrpg-text-small" data-testid="combat-log-event">
+                  {sanitizeText(combatEventText(event))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
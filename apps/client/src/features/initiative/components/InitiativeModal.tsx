@@ -1,11 +1,16 @@
 // ============================================================================
 // INITIATIVE MODAL COMPONENT
 // ============================================================================
-// Modal for setting character initiative with roll or manual entry options
+// Modal for setting character initiative with roll or manual entry options.
+// Beneath the roll it shows the combat log, so the table can check what has
+// happened so far without leaving the tracker. During combat the turn order
+// sits above the log, with delay, hold and ready for this character.
 
 import React, { useState, useCallback, useEffect } from "react";
 import { JRPGPanel, JRPGButton } from "../../../components/ui/JRPGPanel";
-import type { SnapshotCharacter } from "@herobyte/shared";
+import type { CombatEvent, SnapshotCharacter } from "@herobyte/shared";
+import { CombatLog } from "./CombatLog";
+import { TurnOrderList, type TurnOrderListProps } from "./TurnOrderList";
 
 interface InitiativeModalProps {
   character: SnapshotCharacter;
@@ -13,6 +18,10 @@ interface InitiativeModalProps {
   onSetInitiative: (initiative: number, modifier: number) => void;
   isLoading?: boolean;
   error?: string | null;
+  /** The current (or last) fight's log; the section is left out while empty. */
+  combatLog?: CombatEvent[];
+  /** The running fight's order and controls; the section is left out without it. */
+  turnOrder?: Omit<TurnOrderListProps, "character">;
 }
 
 export function InitiativeModal({
@@ -21,6 +30,8 @@ export function InitiativeModal({
   onSetInitiative,
   isLoading = false,
   error = null,
+  combatLog = [],
+  turnOrder,
 }: InitiativeModalProps) {
   // State for initiative modifier and rolled value
   const [modifier, setModifier] = useState(character.initiativeModifier ?? 0);
@@ -252,6 +263,10 @@ export function InitiativeModal({
               </div>
             )}
 
+            {turnOrder && <TurnOrderList {...turnOrder} character={character} />}
+
+            {combatLog.length > 0 && <CombatLog events={combatLog} />}
+
             {/* Action Buttons */}
             <div style={{ display: "flex", gap: "8px", marginTop: "8px" }}>
               <JRPGButton onClick={onClose} disabled={isLoading} style={{ flex: 1 }}>
@@ -26,6 +26,8 @@ export interface TurnNavigationControlsProps {
   isFirstTurn?: boolean;
   /** Optional: Whether currently at the last turn (disables Next) */
   isLastTurn?: boolean;
+  /** Optional: The combat round, shown between the arrows in place of "Turn" */
+  round?: number;
 }
 
 /**
@@ -37,6 +39,7 @@ export const TurnNavigationControls: React.FC<TurnNavigationControlsProps> = ({
   onPreviousTurn,
   isFirstTurn = false,
   isLastTurn = false,
+  round,
 }) => {
   // Don't render anything if combat is not active
   if (!combatActive) {
@@ -77,7 +80,7 @@ export const TurnNavigationControls: React.FC<TurnNavigationControlsProps> = ({
           textTransform: "uppercase",
         }}
       >
-        Turn
+        {round === undefined ? "Turn" : `Round ${round}`}
       </span>
 
       <JRPGButton
@@ -0,0 +1,200 @@
+// ============================================================================
+// TURN ORDER LIST
+// ============================================================================
+// The tracker's order as the server walks it (shared initiativeOrder.ts), with
+// the ways to bend it. For the character the modal is open on: delay until
+// after someone later this round, hold, resume a hold, ready an action. For
+// the DM: drag any row to a new place, which is also how a tie is settled by
+// choice. The server checks turns and ownership; this only asks. In group and
+// side modes a turn is shared, so every sharer is marked and nobody can delay
+// or hold out of it. The DM also sets the character's status here: anyone
+// down, dead or fled is marked and dimmed, and the turn passes them by
+// (shared combatantStatus.ts). A PC down at 0 HP keeps their turn and shows
+// their death-save tally beside the mark, so the table can see how close it is.
+
+import { useState, type DragEvent } from "react";
+import {
+  CHARACTER_STATUSES,
+  CHARACTER_STATUS_ICONS,
+  CHARACTER_STATUS_LABELS,
+  INITIATIVE_LIMITS,
+  sharesTurn,
+  skipsTurn,
+  tracksDeathSaves,
+  type CharacterStatus,
+  type CombatMode,
+  type SnapshotCharacter,
+} from "@herobyte/shared";
+import { JRPGButton } from "../../../components/ui/JRPGPanel";
+import { sanitizeText } from "../../../utils/sanitize";
+
+export interface TurnOrderListProps {
+  /** Everyone with initiative, in turn order. */
+  combatants: SnapshotCharacter[];
+  currentTurnCharacterId?: string;
+  combatMode?: CombatMode;
+  /** The character the actions apply to. */
+  character: SnapshotCharacter;
+  /** DM: rows can be dragged into a new order. */
+  canReorder: boolean;
+  /** Act after `afterCharacterId`, or hold when it is absent. */
+  onDelay: (afterCharacterId?: string) => void;
+  onResume: () => void;
+  /** A trigger readies the action; undefined clears it. */
+  onReady: (trigger?: string) => void;
+  onReorder: (order: string[]) => void;
+  /** DM: mark the character down, dead, fled or back in the fight. */
+  onSetStatus?: (status: CharacterStatus) => void;
+}
+
+const controlStyle = { fontSize: "10px", padding: "4px 8px" } as const;
+
+export function TurnOrderList({
+  combatants,
+  currentTurnCharacterId,
+  combatMode = "individual",
+  character: opened,
+  canReorder,
+  onDelay,
+  onResume,
+  onReady,
+  onReorder,
+  onSetStatus,
+}: TurnOrderListProps) {
+  // The modal keeps the character as it was when opened; the live row has
+  // the hold and readied flags as they are now.
+  const character = combatants.find((c) => c.id === opened.id) ?? opened;
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [delayTarget, setDelayTarget] = useState("");
+  const [trigger, setTrigger] = useState(character.readiedAction ?? "");
+
+  // The walk skips holders and the defeated, so only the rest can be delayed behind.
+  const walk = combatants.filter((c) => !c.initiativeHeld && !skipsTurn(c));
+  const holder = combatants.find((c) => c.id === currentTurnCharacterId);
+  const onTurn = (c: SnapshotCharacter) => !!holder && sharesTurn(c, holder, combatMode);
+  const myTurn = currentTurnCharacterId === character.id && combatMode === "individual";
+  const laterThisRound = walk.slice(walk.findIndex((c) => c.id === character.id) + 1);
+
+  const handleDrop = (event: DragEvent, targetId: string) => {
+    event.preventDefault();
+    if (!dragId || dragId === targetId) return;
+    const ids = combatants.map((c) => c.id).filter((id) => id !== dragId);
+    ids.splice(ids.indexOf(targetId), 0, dragId);
+    setDragId(null);
+    onReorder(ids);
+  };
+
+  return (
+    <div data-testid="turn-order">
+      <div className="jrpg-text-small" style={{ marginBottom: "8px" }}>
+        Turn Order{canReorder ? " (drag to reorder)" : ""}
+      </div>
+      <ol
+        style={{
+          margin: 0,
+          padding: "8px 8px 8px 28px",
+          background: "#111",
+          border: "2px solid var(--jrpg-border-gold)",
+        }}
+      >
+        {combatants.map((c) => (
+          <li
+            key={c.id}
+            data-testid="turn-order-entry"
+            draggable={canReorder}
+            onDragStart={() => setDragId(c.id)}
+            onDragOver={(event) => canReorder && event.preventDefault()}
+            onDrop={(event) => handleDrop(event, c.id)}
+            className="jrpg-text-small"
+            style={{
+              cursor: canReorder ? "grab" : "default",
+              color: onTurn(c) ? "var(--jrpg-gold)" : undefined,
+              opacity: c.initiativeHeld || skipsTurn(c) ? 0.6 : 1,
+            }}
+          >
+            {onTurn(c) ? "▶ " : ""}
+            {sanitizeText(c.name)} ({c.initiative}){c.initiativeHeld && " ⏸ Holding"}
+            {c.status &&
+              c.status !== "active" &&
+              ` ${CHARACTER_STATUS_ICONS[c.status]} ${CHARACTER_STATUS_LABELS[c.status]}`}
+            {tracksDeathSaves(c) &&
+              ` (✓${c.deathSaves?.successes ?? 0} ✗${c.deathSaves?.failures ?? 0})`}
+            {c.readiedAction !== undefined &&
+              ` ⚡ Readied${c.readiedAction ? `: ${sanitizeText(c.readiedAction)}` : ""}`}
+          </li>
+        ))}
+      </ol>
+
+      <div style={{ display: "flex", flexDirection: "column", gap: "6px", marginTop: "8px" }}>
+        {onSetStatus && (
+          <label className="jrpg-text-small">
+            Status
+            <select
+              value={character.status ?? "active"}
+              onChange={(event) => onSetStatus(event.target.value as CharacterStatus)}
+              style={{ marginLeft: "8px", background: "#111", color: "var(--jrpg-white)" }}
+            >
+              {CHARACTER_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {CHARACTER_STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {character.initiativeHeld ? (
+          <JRPGButton onClick={() => onResume()} style={controlStyle}>
+            ▶ Act Now
+          </JRPGButton>
+        ) : (
+          myTurn &&
+          walk.length > 1 && (
+            <div style={{ display: "flex", gap: "6px" }}>
+              <select
+                aria-label="Delay until after"
+                value={delayTarget}
+                onChange={(event) => setDelayTarget(event.target.value)}
+                style={{ flex: 1, background: "#111", color: "var(--jrpg-white)" }}
+              >
+                <option value="">Delay until after…</option>
+                {laterThisRound.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+              </select>
+              <JRPGButton
+                onClick={() => onDelay(delayTarget)}
+                disabled={!delayTarget}
+                style={controlStyle}
+              >
+                ⏬ Delay
+              </JRPGButton>
+              <JRPGButton onClick={() => onDelay()} style={controlStyle}>
+                ⏸ Hold
+              </JRPGButton>
+            </div>
+          )
+        )}
+        <div style={{ display: "flex", gap: "6px" }}>
+          <input
+            aria-label="Readied action trigger"
+            value={trigger}
+            maxLength={INITIATIVE_LIMITS.TRIGGER_MAX}
+            onChange={(event) => setTrigger(event.target.value)}
+            placeholder="Trigger, e.g. when the door opens"
+            style={{ flex: 1, background: "#111", color: "var(--jrpg-white)" }}
+          />
+          <JRPGButton onClick={() => onReady(trigger)} style={controlStyle}>
+            ⚡ Ready
+          </JRPGButton>
+          {character.readiedAction !== undefined && (
+            <JRPGButton onClick={() => onReady(undefined)} style={controlStyle}>
+              Clear
+            </JRPGButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
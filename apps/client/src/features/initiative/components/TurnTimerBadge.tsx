@@ -0,0 +1,49 @@
+/**
+ * TurnTimerBadge Component
+ *
+ * The time left in the current turn when the room runs a turn timer (shared
+ * turnTimer.ts). It only counts down to the deadline the server sent; the
+ * server decides when time is up, so a wrong local clock can misreport the
+ * seconds but can never end or extend anyone's turn.
+ */
+
+import { useEffect, useState } from "react";
+import { TURN_TIMER_LIMITS, turnSecondsLeft } from "@herobyte/shared";
+
+export interface TurnTimerBadgeProps {
+  /** The snapshot's turnDeadline (epoch ms); absent renders nothing. */
+  deadline?: number;
+}
+
+/** A few redraws a second keep the displayed second from lagging a whole one. */
+const REDRAW_MS = 250;
+
+export function TurnTimerBadge({ deadline }: TurnTimerBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (deadline === undefined) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), REDRAW_MS);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (deadline === undefined) return null;
+  const left = turnSecondsLeft(deadline, now);
+  const urgent = left <= TURN_TIMER_LIMITS.WARNING_SECONDS;
+
+  return (
+    <span
+      data-testid="turn-timer"
+      role="timer"
+      aria-label={`${left} seconds left this turn`}
+      className="jrpg-text-tiny"
+      style={{
+        color: urgent ? "var(--jrpg-red)" : "var(--jrpg-white)",
+        fontWeight: urgent ? "bold" : undefined,
+      }}
+    >
+      ⏳ {Math.floor(left / 60)}:{String(left % 60).padStart(2, "0")}
+    </span>
+  );
+}
@@ -0,0 +1,55 @@
+/**
+ * Tests for the combat log list: events are grouped under their round in the
+ * order they happened, and the export button hands the same events to the
+ * Markdown download.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup, within } from "@testing-library/react";
+import type { CombatEvent } from "@herobyte/shared";
+import { CombatLog } from "../CombatLog";
+import { saveCombatLogMarkdown } from "../../../../utils/combatLogFile";
+
+vi.mock("../../../../utils/combatLogFile", () => ({ saveCombatLogMarkdown: vi.fn() }));
+
+afterEach(() => cleanup());
+
+const EVENTS: CombatEvent[] = [
+  { id: "1", kind: "combat-started", round: 1, at: 0 },
+  { id: "2", kind: "turn-started", round: 1, at: 1, characterId: "aria", name: "Aria" },
+  { id: "3", kind: "turn-started", round: 2, at: 2, characterId: "gob", name: "Goblin", npc: true },
+  {
+    id: "4",
+    kind: "hp-changed",
+    round: 2,
+    at: 3,
+    characterId: "gob",
+    name: "Goblin",
+    npc: true,
+    change: "damage",
+  },
+];
+
+describe("CombatLog", () => {
+  it("lists each round's events under its heading", () => {
+    render(<CombatLog events={EVENTS} />);
+
+    const log = screen.getByTestId("combat-log");
+    expect(within(log).getByText("Round 1")).toBeInTheDocument();
+    expect(within(log).getByText("Round 2")).toBeInTheDocument();
+    expect(screen.getAllByTestId("combat-log-event").map((item) => item.textContent)).toEqual([
+      "Combat begins.",
+      "Aria’s turn.",
+      "Goblin’s turn.",
+      "Goblin takes damage.",
+    ]);
+  });
+
+  it("exports the events as Markdown", () => {
+    render(<CombatLog events={EVENTS} />);
+
+    fireEvent.click(screen.getByRole("button", { name: /Export Markdown/ }));
+
+    expect(saveCombatLogMarkdown).toHaveBeenCalledWith(EVENTS);
+  });
+});
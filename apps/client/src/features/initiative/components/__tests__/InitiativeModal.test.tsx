@@ -2407,3 +2407,67 @@ describe("InitiativeModal - Integration Tests", () => {
     expect(onClose).toHaveBeenCalledTimes(3);
   });
 });
+
+// ============================================================================
+// COMBAT LOG TESTS (SoC: The fight so far)
+// ============================================================================
+
+describe("InitiativeModal - Combat Log", () => {
+  it("shows the combat log when there is one", () => {
+    const props = createDefaultProps();
+    render(
+      <InitiativeModal
+        {...props}
+        combatLog={[{ id: "e", kind: "combat-started", round: 1, at: 0 }]}
+      />,
+    );
+
+    expect(screen.getByTestId("combat-log")).toHaveTextContent("Combat begins.");
+  });
+
+  it("leaves the section out while the log is empty", () => {
+    const props = createDefaultProps();
+    render(<InitiativeModal {...props} />);
+
+    expect(screen.queryByTestId("combat-log")).not.toBeInTheDocument();
+  });
+});
+
+// ============================================================================
+// TURN ORDER TESTS (SoC: Bending the order)
+// ============================================================================
+
+describe("InitiativeModal - Turn Order", () => {
+  it("shows the turn order for the opened character during combat", () => {
+    const props = createDefaultProps();
+    const onDelay = vi.fn();
+    render(
+      <InitiativeModal
+        {...props}
+        turnOrder={{
+          combatants: [
+            { ...props.character, initiative: 15 },
+            { ...props.character, id: "other", name: "Other", initiative: 10 },
+          ],
+          currentTurnCharacterId: props.character.id,
+          canReorder: false,
+          onDelay,
+          onResume: vi.fn(),
+          onReady: vi.fn(),
+          onReorder: vi.fn(),
+        }}
+      />,
+    );
+
+    expect(screen.getAllByTestId("turn-order-entry")).toHaveLength(2);
+    fireEvent.click(screen.getByText("⏸ Hold"));
+    expect(onDelay).toHaveBeenCalledWith();
+  });
+
+  it("leaves the section out without turn order controls", () => {
+    const props = createDefaultProps();
+    render(<InitiativeModal {...props} />);
+
+    expect(screen.queryByTestId("turn-order")).not.toBeInTheDocument();
+  });
+});
@@ -118,4 +118,20 @@ describe("TurnNavigationControls", () => {
       expect(screen.getByRole("button", { name: /next/i })).toBeDisabled();
     });
   });
+
+  describe("Round", () => {
+    it("shows the round between the arrows when given", () => {
+      render(
+        <TurnNavigationControls
+          combatActive={true}
+          onNextTurn={vi.fn()}
+          onPreviousTurn={vi.fn()}
+          round={3}
+        />,
+      );
+
+      expect(screen.getByText("Round 3")).toBeInTheDocument();
+      expect(screen.queryByText("Turn")).not.toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,147 @@
+/**
+ * Tests for the turn order list: the order and badges as the server sent
+ * them, the delay/hold/ready controls for the opened character, and the DM's
+ * drag reorder.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import type { SnapshotCharacter } from "@herobyte/shared";
+import { TurnOrderList, type TurnOrderListProps } from "../TurnOrderList";
+
+afterEach(() => cleanup());
+
+const combatant = (
+  id: string,
+  initiative: number,
+  extra: Partial<SnapshotCharacter> = {},
+): SnapshotCharacter => ({
+  id,
+  type: "pc",
+  name: id[0].toUpperCase() + id.slice(1),
+  ownedByPlayerUID: "p1",
+  initiative,
+  ...extra,
+});
+
+const ARIA = combatant("aria", 18);
+const BRAM = combatant("bram", 12, { readiedAction: "when the door opens" });
+const CORA = combatant("cora", 9, { initiativeHeld: true });
+const DREG = combatant("dreg", 5);
+
+function renderList(overrides: Partial<TurnOrderListProps> = {}) {
+  const props: TurnOrderListProps = {
+    combatants: [ARIA, BRAM, CORA, DREG],
+    currentTurnCharacterId: "aria",
+    character: ARIA,
+    canReorder: false,
+    onDelay: vi.fn(),
+    onResume: vi.fn(),
+    onReady: vi.fn(),
+    onReorder: vi.fn(),
+    ...overrides,
+  };
+  render(<TurnOrderList {...props} />);
+  return props;
+}
+
+describe("TurnOrderList", () => {
+  it("lists combatants in order with turn, hold and readied markers", () => {
+    renderList();
+
+    expect(screen.getAllByTestId("turn-order-entry").map((row) => row.textContent)).toEqual([
+      "▶ Aria (18)",
+      "Bram (12) ⚡ Readied: when the door opens",
+      "Cora (9) ⏸ Holding",
+      "Dreg (5)",
+    ]);
+  });
+
+  it("on their turn, delays until after someone later who is not holding", () => {
+    const props = renderList();
+
+    const select = screen.getByLabelText("Delay until after");
+    expect(Array.from(select.querySelectorAll("option")).map((o) => o.value)).toEqual([
+      "",
+      "bram",
+      "dreg",
+    ]);
+    fireEvent.change(select, { target: { value: "dreg" } });
+    fireEvent.click(screen.getByText("⏬ Delay"));
+    expect(props.onDelay).toHaveBeenCalledWith("dreg");
+
+    fireEvent.click(screen.getByText("⏸ Hold"));
+    expect(props.onDelay).toHaveBeenLastCalledWith();
+  });
+
+  it("offers no delay off-turn, and Act Now to a holder", () => {
+    const props = renderList({ character: CORA });
+
+    expect(screen.queryByText("⏸ Hold")).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText("▶ Act Now"));
+    expect(props.onResume).toHaveBeenCalled();
+  });
+
+  it("readies with the typed trigger and clears a readied action", () => {
+    const props = renderList({ character: BRAM });
+
+    const input = screen.getByLabelText("Readied action trigger");
+    expect(input).toHaveValue("when the door opens");
+    fireEvent.change(input, { target: { value: "when it moves" } });
+    fireEvent.click(screen.getByText("⚡ Ready"));
+    expect(props.onReady).toHaveBeenCalledWith("when it moves");
+
+    fireEvent.click(screen.getByText("Clear"));
+    expect(props.onReady).toHaveBeenLastCalledWith(undefined);
+  });
+
+  it("lets the DM drag a row in front of another", () => {
+    const props = renderList({ canReorder: true });
+
+    const rows = screen.getAllByTestId("turn-order-entry");
+    expect(rows[3]).toHaveAttribute("draggable", "true");
+    fireEvent.dragStart(rows[3]);
+    fireEvent.drop(rows[1]);
+    expect(props.onReorder).toHaveBeenCalledWith(["aria", "dreg", "bram", "cora"]);
+  });
+
+  it("marks the defeated and leaves them out of the delay choices", () => {
+    const goblin = combatant("gob", 7, { type: "npc", status: "dead" });
+    renderList({ combatants: [ARIA, BRAM, goblin, DREG] });
+
+    expect(screen.getAllByTestId("turn-order-entry")[2]).toHaveTextContent("Gob (7) 💀 Dead");
+    const options = screen.getByLabelText("Delay until after").querySelectorAll("option");
+    expect(Array.from(options).map((o) => o.value)).toEqual(["", "bram", "dreg"]);
+  });
+
+  it("shows a downed PC's death-save tally beside the mark", () => {
+    const down = combatant("bram", 12, {
+      hp: 0,
+      status: "unconscious",
+      deathSaves: { successes: 1, failures: 2 },
+    });
+    renderList({ combatants: [ARIA, down, DREG] });
+
+    expect(screen.getAllByTestId("turn-order-entry")[1]).toHaveTextContent(
+      "Bram (12) 💤 Unconscious (✓1 ✗2)",
+    );
+  });
+
+  it("lets the DM set the character's status, and nobody else", () => {
+    const onSetStatus = vi.fn();
+    renderList({ onSetStatus });
+
+    fireEvent.change(screen.getByLabelText("Status"), { target: { value: "fled" } });
+    expect(onSetStatus).toHaveBeenCalledWith("fled");
+
+    cleanup();
+    renderList();
+    expect(screen.queryByLabelText("Status")).not.toBeInTheDocument();
+  });
+
+  it("is not draggable for players", () => {
+    renderList();
+
+    expect(screen.getAllByTestId("turn-order-entry")[0]).toHaveAttribute("draggable", "false");
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, render, screen } from "@testing-library/react";
+import { TurnTimerBadge } from "../TurnTimerBadge";
+
+describe("TurnTimerBadge", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("renders nothing without a running clock", () => {
+    const { container } = render(<TurnTimerBadge />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it("counts down to the server's deadline", () => {
+    render(<TurnTimerBadge deadline={90_000} />);
+    expect(screen.getByTestId("turn-timer")).toHaveTextContent("1:30");
+
+    act(() => {
+      vi.advanceTimersByTime(31_000);
+    });
+    expect(screen.getByTestId("turn-timer")).toHaveTextContent("0:59");
+  });
+
+  it("turns urgent for the last seconds and stops at zero", () => {
+    render(<TurnTimerBadge deadline={6_000} />);
+    expect(screen.getByTestId("turn-timer")).toHaveStyle({ color: "var(--jrpg-white)" });
+
+    act(() => {
+      vi.advanceTimersByTime(2_000);
+    });
+    expect(screen.getByTestId("turn-timer")).toHaveStyle({ color: "var(--jrpg-red)" });
+
+    act(() => {
+      vi.advanceTimersByTime(10_000);
+    });
+    expect(screen.getByTestId("turn-timer")).toHaveTextContent("0:00");
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { renderHook } from "@testing-library/react";
 import { useTurnChime } from "../useTurnChime";
 import { sfxEngine } from "../sfxEngine";
@@ -8,7 +8,7 @@ beforeEach(() => {
 });
 
 /** A snapshot naming this turn. `null` snapshot = not connected / socket dropped. */
-type Props = { snap: { currentTurnCharacterId?: string } | null };
+type Props = { snap: { currentTurnCharacterId?: string; turnDeadline?: number } | null };
 const at = (id?: string): Props => ({ snap: { currentTurnCharacterId: id } });
 const NO_SNAPSHOT: Props = { snap: null };
 
@@ -114,3 +114,50 @@ describe("useTurnChime", () => {
     expect(sfxEngine.play).toHaveBeenCalledOnce();
   });
 });
+
+describe("useTurnChime — turn timer countdown", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const timed = (deadline?: number): Props => ({
+    snap: { currentTurnCharacterId: "char-1", turnDeadline: deadline },
+  });
+
+  it("ticks once a second through the last five seconds, rising in pitch", () => {
+    mount(timed(20_000));
+
+    vi.advanceTimersByTime(14_999);
+    expect(sfxEngine.play).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(5_001);
+    const rates = vi.mocked(sfxEngine.play).mock.calls.map(([name, options]) => {
+      expect(name).toBe("buttonBlip");
+      return options?.rate ?? 1;
+    });
+    expect(rates).toHaveLength(5);
+    expect([...rates].sort((a, b) => a - b)).toEqual(rates);
+  });
+
+  it("stops ticking when the clock stops or the turn moves on", () => {
+    const { rerender } = mount(timed(20_000));
+    vi.advanceTimersByTime(16_500); // two ticks in
+    rerender(timed(undefined));
+    vi.advanceTimersByTime(10_000);
+
+    expect(sfxEngine.play).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not replay seconds already past when it joins late", () => {
+    vi.setSystemTime(17_500);
+    mount(timed(20_000));
+    vi.advanceTimersByTime(5_000);
+
+    expect(sfxEngine.play).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,7 +1,8 @@
 // ============================================================================
 // useTurnChime
 // ============================================================================
-// Plays the "your turn" chime whenever the active combatant changes.
+// Plays the "your turn" chime whenever the active combatant changes, and
+// ticks through the last seconds of a timed turn (shared turnTimer.ts).
 //
 // It takes the SNAPSHOT, not the id, and that is deliberate. There are three
 // states, and the difference between the last two is the whole design:
@@ -25,13 +26,22 @@
 // that never advanced — on every network blip. Skipping it means the id compares
 // equal across the gap and stays silent, while a turn that really did advance
 // mid-drop still chimes.
+//
+// The countdown needs none of that care. It is scheduled against the server's
+// deadline, and whenever the deadline changes or goes away — the turn moved,
+// the DM stopped the clock, the socket dropped — the pending ticks are simply
+// cancelled. A reconnect brings the same deadline back and reschedules
+// whatever ticks are still ahead; the ones already past are not replayed.
 
 import { useEffect, useRef } from "react";
-import type { RoomSnapshot } from "@herobyte/shared";
+import { TURN_TIMER_LIMITS, type RoomSnapshot } from "@herobyte/shared";
 import { sfxEngine } from "./sfxEngine";
 
+/** Each tick a little higher than the last, so the final one reads as urgent. */
+const TICK_RATE_STEP = 0.12;
+
 export function useTurnChime(
-  snapshot: Pick<RoomSnapshot, "currentTurnCharacterId"> | null | undefined,
+  snapshot: Pick<RoomSnapshot, "currentTurnCharacterId" | "turnDeadline"> | null | undefined,
 ): void {
   const prev = useRef<string | null>(null);
   const observed = useRef(false);
@@ -52,4 +62,17 @@ export function useTurnChime(
 
     sfxEngine.play("turnAdvance");
   }, [turn]);
+
+  const deadline = snapshot?.turnDeadline;
+  useEffect(() => {
+    if (deadline === undefined) return;
+    const ticks: ReturnType<typeof setTimeout>[] = [];
+    for (let left = TURN_TIMER_LIMITS.WARNING_SECONDS; left >= 1; left -= 1) {
+      const delay = deadline - left * 1000 - Date.now();
+      if (delay < 0) continue; // already past: never replay it late
+      const rate = 1 + (TURN_TIMER_LIMITS.WARNING_SECONDS - left) * TICK_RATE_STEP;
+      ticks.push(setTimeout(() => sfxEngine.play("buttonBlip", { rate }), delay));
+    }
+    return () => ticks.forEach(clearTimeout);
+  }, [deadline]);
 }
@@ -2,19 +2,23 @@
 // MAP-EDIT INSPECTOR POPOVER
 // ============================================================================
 // Numeric transform editor (position / scale / rotation), layer + hidden/locked,
-// a door state+width form, and delete for the selected element — driving the
-// existing update-element / update-door / remove-element commands. Ported from
+// a door state+width form, a map link form, and delete for the selected element
+// — driving the update-element / update-door / update-link / remove-element
+// commands. Ported from
 // the Studio's MapElementInspector (which S13 deletes) and shrunk for the palette.
 
 import { useEffect, useState } from "react";
 import type {
+  MapDocumentSummary,
   MapDoorState,
   MapElement,
   MapElementTransform,
   MapElementUpdate,
   MapLayer,
+  MapLinkElement,
 } from "@herobyte/shared";
 import { JRPGButton } from "../../components/ui/JRPGPanel";
+import { MapLinkForm } from "./MapLinkForm";
 
 interface MapEditInspectorPopoverProps {
   element: MapElement;
@@ -22,6 +26,8 @@ interface MapEditInspectorPopoverProps {
   disabled: boolean;
   onUpdate: (elementId: string, update: MapElementUpdate) => void;
   onUpdateDoor: (elementId: string, update: { state: MapDoorState; width: number }) => void;
+  onUpdateLink: (elementId: string, link: MapLinkElement["data"]) => void;
+  documents: MapDocumentSummary[];
   onRemove: (elementId: string) => void;
 }
 
@@ -31,6 +37,8 @@ export function MapEditInspectorPopover({
   disabled,
   onUpdate,
   onUpdateDoor,
+  onUpdateLink,
+  documents,
   onRemove,
 }: MapEditInspectorPopoverProps) {
   const [transform, setTransform] = useState(element.transform);
@@ -168,6 +176,9 @@ export function MapEditInspectorPopover({
           </JRPGButton>
         </div>
       )}
+      {element.type === "link" && (
+        <MapLinkForm element={element} documents={documents} onUpdateLink={onUpdateLink} />
+      )}
     </fieldset>
   );
 }
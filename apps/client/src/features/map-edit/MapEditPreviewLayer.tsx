@@ -136,10 +136,14 @@ export function MapEditPreviewLayer({
           </Group>
         )}
         {previewDrag &&
-          (activeSubTool === "room" || activeSubTool === "generate" ? (
-            // Generate aims at the same cell-quantized rectangle a room does —
-            // it just fills it with a dungeon instead of one floor, so only
-            // the room fill tints with the armed family's chip.
+          (activeSubTool === "room" ||
+          activeSubTool === "generate" ||
+          activeSubTool === "difficult" ||
+          activeSubTool === "impassable" ||
+          activeSubTool === "link" ? (
+            // Generate, the movement areas and links cover the same
+            // cell-quantized rectangle a room does — only the room fills it
+            // with a floor, so only the room fill tints with the armed family's chip.
             renderRoom(
               previewDrag.start,
               previewDrag.end,
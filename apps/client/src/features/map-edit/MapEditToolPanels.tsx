@@ -59,6 +59,8 @@ export function MapEditToolPanels({
   onMoveLayer,
   onUpdateElement,
   onUpdateDoor,
+  onUpdateLink,
+  mapDocuments,
   onRemoveElement,
   layersOpen,
   onToggleLayers,
@@ -89,6 +91,28 @@ export function MapEditToolPanels({
     );
   }
 
+  // The movement areas have no dials; say what the drag will do instead, since
+  // an area draws nothing players can see.
+  if (activeSubTool === "difficult" || activeSubTool === "impassable") {
+    return (
+      <p className="jrpg-text-small" style={{ margin: 0, color: "var(--jrpg-white)" }}>
+        {activeSubTool === "difficult"
+          ? "Drag over rough ground: each square a token walks into costs double."
+          : "Drag over ground no token can enter, like a chasm or a rockfall."}{" "}
+        Only you see areas, on the walls overlay.
+      </p>
+    );
+  }
+
+  if (activeSubTool === "link") {
+    return (
+      <p className="jrpg-text-small" style={{ margin: 0, color: "var(--jrpg-white)" }}>
+        Drag over stairs, a ladder or a portal, then pick it with 👆 Select to say where it leads.
+        Tokens standing on it can be sent there; only you see links unless you let players use them.
+      </p>
+    );
+  }
+
   // The Generate dials replace the Populate block while its tool is armed —
   // both fill a region, and showing both at once is noise.
   if (activeSubTool === "generate") {
@@ -188,6 +212,8 @@ export function MapEditToolPanels({
             disabled={saving}
             onUpdate={onUpdateElement}
             onUpdateDoor={onUpdateDoor}
+            onUpdateLink={onUpdateLink}
+            documents={mapDocuments}
             onRemove={onRemoveElement}
           />
         ) : (
@@ -29,6 +29,9 @@ const SUB_TOOLS: { id: MapEditSubTool; label: string }[] = [
   { id: "select", label: "👆 Select" },
   { id: "generate", label: "🏰 Gen" },
   { id: "spline", label: "〰️ Spline" },
+  { id: "difficult", label: "🪨 Rough" },
+  { id: "impassable", label: "⛔ Block" },
+  { id: "link", label: "🪜 Link" },
 ];
 
 /** The Room tool's wall-ring choices: a material, or no ring at all. Derived
@@ -0,0 +1,126 @@
+// ============================================================================
+// MAP LINK FORM
+// ============================================================================
+// The inspector's section for a selected map link: what it is called, what
+// kind it reads as, where it leads (a map, and a point on it in document px),
+// and whether players may take it themselves. Applied in one update-link
+// command, like the door form above it.
+
+import { useEffect, useState } from "react";
+import {
+  MAP_LINK_KINDS,
+  MAP_LINK_KIND_LABELS,
+  type MapDocumentSummary,
+  type MapLinkElement,
+  type MapLinkKind,
+} from "@herobyte/shared";
+import { JRPGButton } from "../../components/ui/JRPGPanel";
+
+interface MapLinkFormProps {
+  element: MapLinkElement;
+  documents: MapDocumentSummary[];
+  onUpdateLink: (elementId: string, link: MapLinkElement["data"]) => void;
+}
+
+export function MapLinkForm({ element, documents, onUpdateLink }: MapLinkFormProps) {
+  const [link, setLink] = useState(element.data);
+
+  useEffect(() => setLink(element.data), [element]);
+
+  const setTarget = (update: Partial<MapLinkElement["data"]["target"]>) =>
+    setLink((current) => ({ ...current, target: { ...current.target, ...update } }));
+  const targetNumber = (key: "x" | "y", raw: string) => {
+    const value = Number(raw);
+    if (Number.isFinite(value)) setTarget({ [key]: value });
+  };
+  // A document deleted since the link was drawn still shows, so the select
+  // never silently re-points the link at whatever happens to be first.
+  const targetKnown = documents.some((document) => document.id === link.target.documentId);
+
+  return (
+    <div style={{ marginTop: "8px", borderTop: "1px solid #8a7445", paddingTop: "8px" }}>
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: "6px" }}>
+        <label className="jrpg-text-small">
+          Label
+          <input
+            aria-label="Link label"
+            type="text"
+            maxLength={60}
+            value={link.label}
+            onChange={(e) => setLink((current) => ({ ...current, label: e.target.value }))}
+            style={{ width: "100%" }}
+          />
+        </label>
+        <label className="jrpg-text-small">
+          Kind
+          <select
+            aria-label="Link kind"
+            value={link.kind}
+            onChange={(e) =>
+              setLink((current) => ({ ...current, kind: e.target.value as MapLinkKind }))
+            }
+          >
+            {MAP_LINK_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {MAP_LINK_KIND_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="jrpg-text-small" style={{ gridColumn: "1 / -1" }}>
+          Leads to
+          <select
+            aria-label="Link target map"
+            value={link.target.documentId}
+            onChange={(e) => setTarget({ documentId: e.target.value })}
+          >
+            {!targetKnown && <option value={link.target.documentId}>(missing map)</option>}
+            {documents.map((document) => (
+              <option key={document.id} value={document.id}>
+                {document.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="jrpg-text-small">
+          Arrive X
+          <input
+            aria-label="Link target X"
+            type="number"
+            value={link.target.x}
+            onChange={(e) => targetNumber("x", e.target.value)}
+            style={{ width: "100%" }}
+          />
+        </label>
+        <label className="jrpg-text-small">
+          Arrive Y
+          <input
+            aria-label="Link target Y"
+            type="number"
+            value={link.target.y}
+            onChange={(e) => targetNumber("y", e.target.value)}
+            style={{ width: "100%" }}
+          />
+        </label>
+        <label className="jrpg-text-small" style={{ gridColumn: "1 / -1" }}>
+          <input
+            aria-label="Players may use link"
+            type="checkbox"
+            checked={link.playersMayUse}
+            onChange={(e) =>
+              setLink((current) => ({ ...current, playersMayUse: e.target.checked }))
+            }
+          />{" "}
+          Players may use
+        </label>
+      </div>
+      <JRPGButton
+        style={{ width: "100%", marginTop: "8px", fontSize: "9px" }}
+        disabled={!link.label.trim() || !targetKnown}
+        onClick={() => onUpdateLink(element.id, link)}
+      >
+        APPLY LINK
+      </JRPGButton>
+    </div>
+  );
+}
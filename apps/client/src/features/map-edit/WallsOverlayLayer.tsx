@@ -6,28 +6,73 @@
 // (they only shape fog + block movement). Players NEVER see this: the mount
 // site in MapBoard gates it on isDM. listening={false} so it never intercepts
 // clicks. Same nested camera + map-transform groups as the compiled layers.
+//
+// The compiled movement costs ride along for the same reason: difficult and
+// impassable ground is invisible rules, whether it came from painted water or
+// a drawn area, and this is where a DM checks what a walk will cost.
 
-import { Group, Line } from "react-konva";
-import type { CompiledWallSegment, SceneObjectTransform } from "@herobyte/shared";
+import { useMemo } from "react";
+import { Group, Line, Shape } from "react-konva";
+import {
+  forEachTerrainCell,
+  type CompiledTerrainCosts,
+  type CompiledWallSegment,
+  type SceneObjectTransform,
+} from "@herobyte/shared";
+import type { WearStampContext2D } from "../render/wearStampDetail";
 import type { Camera } from "../map/types";
 
 interface WallsOverlayLayerProps {
   cam: Camera;
   mapTransform?: SceneObjectTransform;
   walls: CompiledWallSegment[];
+  /** The compiled scene's movement costs, shaded cell by cell. */
+  terrain?: CompiledTerrainCosts;
 }
 
 const WALL_COLOR = "#e9d8a6"; // muted parchment gold — reads without shouting
+const DIFFICULT_COLOR = "#c99b55"; // the door brown: "slow going", not "stop"
+const IMPASSABLE_COLOR = "#b5473a";
 
-export function WallsOverlayLayer({ cam, mapTransform, walls }: WallsOverlayLayerProps) {
-  if (!walls.length) return null;
+export function WallsOverlayLayer({ cam, mapTransform, walls, terrain }: WallsOverlayLayerProps) {
+  // One flat list per compile; the Shape below repaints from it every frame.
+  const costCells = useMemo(() => {
+    const cells: { x: number; y: number; impassable: boolean }[] = [];
+    if (!terrain) return cells;
+    const { size, offsetX, offsetY } = terrain.grid;
+    forEachTerrainCell(terrain.cells, (cellX, cellY, movement) => {
+      cells.push({
+        x: offsetX + cellX * size,
+        y: offsetY + cellY * size,
+        impassable: movement === "impassable",
+      });
+    });
+    return cells;
+  }, [terrain]);
+
+  if (!walls.length && !costCells.length) return null;
 
   const { x = 0, y = 0, scaleX = 1, scaleY = 1, rotation = 0 } = mapTransform ?? {};
   const strokeWidth = 2 / cam.scale;
+  const cellSize = terrain?.grid.size ?? 0;
 
   return (
     <Group x={cam.x} y={cam.y} scaleX={cam.scale} scaleY={cam.scale} listening={false}>
       <Group x={x} y={y} scaleX={scaleX} scaleY={scaleY} rotation={rotation} listening={false}>
+        {costCells.length > 0 && (
+          // One Shape, not a Rect per cell: a painted lake is thousands of cells.
+          <Shape
+            listening={false}
+            opacity={0.25}
+            sceneFunc={(ctx) => {
+              const paint = ctx as unknown as WearStampContext2D;
+              for (const cell of costCells) {
+                paint.fillStyle = cell.impassable ? IMPASSABLE_COLOR : DIFFICULT_COLOR;
+                paint.fillRect(cell.x, cell.y, cellSize, cellSize);
+              }
+            }}
+          />
+        )}
         {walls.map((wall) => (
           <Line
             key={wall.id}
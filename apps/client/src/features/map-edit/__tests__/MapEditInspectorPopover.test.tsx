@@ -44,6 +44,23 @@ const door: MapElement = {
   data: { width: 50, state: "closed", blocksMovement: true, blocksVision: true },
 };
 
+const link: MapElement = {
+  id: "link1",
+  layerId: "walls",
+  type: "link",
+  locked: false,
+  hidden: false,
+  transform: { x: 50, y: 50, scaleX: 1, scaleY: 1, rotation: 0 },
+  data: {
+    kind: "stairs",
+    label: "Stairs",
+    width: 50,
+    height: 50,
+    target: { documentId: "town", x: 75, y: 75 },
+    playersMayUse: false,
+  },
+};
+
 describe("MapEditInspectorPopover", () => {
   it("APPLY emits update-element with the edited transform", () => {
     const onUpdate = vi.fn();
@@ -54,6 +71,8 @@ describe("MapEditInspectorPopover", () => {
         disabled={false}
         onUpdate={onUpdate}
         onUpdateDoor={vi.fn()}
+        onUpdateLink={vi.fn()}
+        documents={[]}
         onRemove={vi.fn()}
       />,
     );
@@ -78,6 +97,8 @@ describe("MapEditInspectorPopover", () => {
         disabled={false}
         onUpdate={vi.fn()}
         onUpdateDoor={vi.fn()}
+        onUpdateLink={vi.fn()}
+        documents={[]}
         onRemove={onRemove}
       />,
     );
@@ -94,6 +115,8 @@ describe("MapEditInspectorPopover", () => {
         disabled={false}
         onUpdate={vi.fn()}
         onUpdateDoor={onUpdateDoor}
+        onUpdateLink={vi.fn()}
+        documents={[]}
         onRemove={vi.fn()}
       />,
     );
@@ -101,4 +124,50 @@ describe("MapEditInspectorPopover", () => {
     fireEvent.click(screen.getByRole("button", { name: "APPLY DOOR" }));
     expect(onUpdateDoor).toHaveBeenCalledWith("door1", { state: "secret", width: 50 });
   });
+
+  it("shows the link form and APPLY LINK points the link at another map", () => {
+    const onUpdateLink = vi.fn();
+    render(
+      <MapEditInspectorPopover
+        element={link}
+        layers={layers}
+        disabled={false}
+        onUpdate={vi.fn()}
+        onUpdateDoor={vi.fn()}
+        onUpdateLink={onUpdateLink}
+        documents={[
+          {
+            id: "town",
+            name: "Town",
+            width: 800,
+            height: 800,
+            revision: 1,
+            createdAt: 1,
+            updatedAt: 1,
+          },
+          {
+            id: "crypt",
+            name: "Crypt",
+            width: 800,
+            height: 800,
+            revision: 1,
+            createdAt: 1,
+            updatedAt: 1,
+          },
+        ]}
+        onRemove={vi.fn()}
+      />,
+    );
+    fireEvent.change(screen.getByLabelText("Link target map"), { target: { value: "crypt" } });
+    fireEvent.change(screen.getByLabelText("Link target X"), { target: { value: "40" } });
+    fireEvent.click(screen.getByLabelText("Players may use link"));
+    fireEvent.click(screen.getByRole("button", { name: "APPLY LINK" }));
+    expect(onUpdateLink).toHaveBeenCalledWith(
+      "link1",
+      expect.objectContaining({
+        target: { documentId: "crypt", x: 40, y: 75 },
+        playersMayUse: true,
+      }),
+    );
+  });
 });
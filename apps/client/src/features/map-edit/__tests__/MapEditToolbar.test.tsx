@@ -73,6 +73,8 @@ const toolbar = (overrides: Record<string, unknown> = {}) =>
     onMoveLayer: vi.fn(),
     onUpdateElement: vi.fn(),
     onUpdateDoor: vi.fn(),
+    onUpdateLink: vi.fn(),
+    mapDocuments: [],
     onRemoveElement: vi.fn(),
     layersOpen: false,
     onToggleLayers: vi.fn(),
@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { render } from "@testing-library/react";
 import type { ReactNode } from "react";
-import type { CompiledWallSegment } from "@herobyte/shared";
+import {
+  createTerrainMap,
+  setTerrainCells,
+  type CompiledTerrainCosts,
+  type CompiledWallSegment,
+} from "@herobyte/shared";
 import { WallsOverlayLayer } from "../WallsOverlayLayer";
 import type { Camera } from "../../map/types";
 
@@ -9,6 +14,7 @@ type MockProps = Record<string, unknown> & { children?: ReactNode };
 
 const lineProps: MockProps[] = [];
 const groupProps: MockProps[] = [];
+const shapeProps: MockProps[] = [];
 
 vi.mock("react-konva", () => ({
   Group: ({ children, ...props }: MockProps) => {
@@ -19,6 +25,10 @@ vi.mock("react-konva", () => ({
     lineProps.push(props);
     return <div data-testid="konva-line" />;
   },
+  Shape: (props: MockProps) => {
+    shapeProps.push(props);
+    return <div data-testid="konva-shape" />;
+  },
 }));
 
 const cam: Camera = { x: 10, y: 20, scale: 2 };
@@ -31,6 +41,7 @@ describe("WallsOverlayLayer", () => {
   beforeEach(() => {
     lineProps.length = 0;
     groupProps.length = 0;
+    shapeProps.length = 0;
   });
 
   it("renders nothing when there are no walls", () => {
@@ -53,4 +64,29 @@ describe("WallsOverlayLayer", () => {
     // Overlay is scenery, never interactive.
     expect(lineProps.every((l) => l.listening === false)).toBe(true);
   });
+
+  it("shades difficult and impassable cells on the document lattice, even with no walls", () => {
+    const terrain: CompiledTerrainCosts = {
+      grid: { size: 50, offsetX: 10, offsetY: 0 },
+      cells: setTerrainCells(createTerrainMap(), [
+        { x: 0, y: 0, assetId: "difficult" },
+        { x: 2, y: 1, assetId: "impassable" },
+      ]),
+    };
+    render(<WallsOverlayLayer cam={cam} walls={[]} terrain={terrain} />);
+
+    expect(shapeProps).toHaveLength(1);
+    const fills: [string, number, number, number][] = [];
+    const ctx = {
+      fillStyle: "",
+      fillRect(x: number, y: number, size: number) {
+        fills.push([this.fillStyle, x, y, size]);
+      },
+    };
+    (shapeProps[0]!.sceneFunc as (context: typeof ctx) => void)(ctx);
+    expect(fills).toEqual([
+      ["#c99b55", 10, 0, 50],
+      ["#b5473a", 110, 50, 50],
+    ]);
+  });
 });
@@ -389,6 +389,70 @@ describe("useMapEditTool", () => {
     expect(controller.addWall).not.toHaveBeenCalled();
   });
 
+  it("lays a movement area over the swept cells, its rule taken from the sub-tool", () => {
+    for (const movement of ["difficult", "impassable"] as const) {
+      const controller = makeController({ addArea: vi.fn(() => "area-1") });
+      const { result } = renderHook(() =>
+        useMapEditTool({
+          mapEditMode: true,
+          activeSubTool: movement,
+          controller,
+          liveDocumentId: "live",
+          floorFamily: "grass",
+          toWorld: identityToWorld,
+          mapTransform: undefined,
+        }),
+      );
+
+      act(() => result.current.onMouseDown(makeStage({ x: 100, y: 100 }).ref));
+      act(() => result.current.onMouseMove(makeStage({ x: 200, y: 150 }).ref));
+      act(() => result.current.onMouseUp());
+
+      expect(controller.addArea).toHaveBeenCalledWith({
+        layerId: "walls",
+        points: [
+          { x: 100, y: 100 },
+          { x: 250, y: 100 },
+          { x: 250, y: 200 },
+          { x: 100, y: 200 },
+        ],
+        movement,
+      });
+    }
+  });
+
+  it("lays a map link over the swept cells, leading to its own centre until edited", () => {
+    const controller = makeController({ addLink: vi.fn(() => "link-1") });
+    const { result } = renderHook(() =>
+      useMapEditTool({
+        mapEditMode: true,
+        activeSubTool: "link",
+        controller,
+        liveDocumentId: "live",
+        floorFamily: "grass",
+        toWorld: identityToWorld,
+        mapTransform: undefined,
+      }),
+    );
+
+    act(() => result.current.onMouseDown(makeStage({ x: 100, y: 100 }).ref));
+    act(() => result.current.onMouseMove(makeStage({ x: 200, y: 150 }).ref));
+    act(() => result.current.onMouseUp());
+
+    expect(controller.addLink).toHaveBeenCalledWith(
+      expect.objectContaining({
+        layerId: "walls",
+        x: 100,
+        y: 100,
+        width: 150,
+        height: 100,
+        kind: "stairs",
+        target: { documentId: makeDocument().id, x: 175, y: 150 },
+        playersMayUse: false,
+      }),
+    );
+  });
+
   it("paints the wall ring around the room when roomWallFamily is armed", () => {
     // Pins the ring WIRING (roomWallFamily → commitDragTool → buildRoomCommand),
     // not just the pure builder: floor + ring must land in ONE placeRoom call
@@ -1,7 +1,7 @@
 // The pointer-up commit for the map-edit drag tools (room / hallway / wall /
-// door). Extracted from useMapEditTool so the hook stays under the structure
-// cap and the tool→command mapping is one readable place. Not pure (it calls
-// controller methods) but has no React state of its own.
+// door / movement areas / map links). Extracted from useMapEditTool so the hook stays
+// under the structure cap and the tool→command mapping is one readable place.
+// Not pure (it calls controller methods) but has no React state of its own.
 
 import type { MapDocument } from "@herobyte/shared";
 import { commitSegmentDrag } from "../map-studio/components/wallDoorDrafts";
@@ -88,6 +88,46 @@ export function commitDragTool({
     return;
   }
 
+  if (subTool === "difficult" || subTool === "impassable") {
+    // A movement area over the swept cells: ground rules, not art, so it sits
+    // with the walls. The sub-tool IS the rule, like wall vs door.
+    const layer = document.layers.find((l) => l.kind === "walls" && !l.locked);
+    if (!layer) return;
+    const { x, y, width, height } = roomBoundsFromDrag(drag, document.grid.size);
+    controller.addArea({
+      layerId: layer.id,
+      points: [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+      movement: subTool,
+    });
+    return;
+  }
+
+  if (subTool === "link") {
+    // Stairs over the swept cells, leading back to their own centre until the
+    // DM points them somewhere in the inspector — a link has to go somewhere
+    // to be valid, and "here" is the one destination known to exist.
+    const layer = document.layers.find((l) => l.kind === "walls" && !l.locked);
+    if (!layer) return;
+    const { x, y, width, height } = roomBoundsFromDrag(drag, document.grid.size);
+    controller.addLink({
+      layerId: layer.id,
+      x,
+      y,
+      width,
+      height,
+      kind: "stairs",
+      label: "Stairs",
+      target: { documentId: document.id, x: x + width / 2, y: y + height / 2 },
+      playersMayUse: false,
+    });
+    return;
+  }
+
   if (subTool === "generate") {
     // Generate does not COMMIT on drop — the drag only aims the recipe. The DM
     // sets the dials and fires it from the panel, so a stray drag costs nothing.
@@ -1,7 +1,7 @@
 // Pure element selection for the live "select" sub-tool. Reuses the Studio's
 // rotation-aware tile/stamp hit-test (topmostTileAtPoint) and adds a bounds test
-// for shapes, so a click picks the top-most element under the cursor in document
-// space. elementSelectionRect returns the highlight footprint the preview draws.
+// for shapes, movement areas and map links, so a click picks the top-most
+// element under the cursor in document space. elementSelectionRect returns the highlight footprint the preview draws.
 
 import type { MapDocument, MapElement, MapLayer } from "@herobyte/shared";
 import {
@@ -35,11 +35,14 @@ export function selectElementAtPoint(
   // Tiles + stamps first (rotation-aware, top-of-stack), reusing the Studio helper.
   const tileOrStamp = topmostTileAtPoint(document, layers, point);
   if (tileOrStamp) return tileOrStamp;
-  // Then shapes: top-most visible shape whose axis-aligned bounds contain the point.
+  // Then shapes, areas and links: the top-most visible one whose axis-aligned
+  // bounds contain the point.
   const shapes = document.elements
     .map((element, index) => ({ element, index }))
     .filter(
-      ({ element }) => element.type === "shape" && isVisible(element, layers.get(element.layerId)),
+      ({ element }) =>
+        (element.type === "shape" || element.type === "area" || element.type === "link") &&
+        isVisible(element, layers.get(element.layerId)),
     )
     .sort(
       (a, b) =>
@@ -63,7 +66,7 @@ export function elementSelectionRect(element: MapElement, gridSize: number): Sel
     const height = element.data.height * scaleY;
     return { x, y, width, height, rotation, pivotX: width / 2, pivotY: height / 2 };
   }
-  if (element.type === "shape") {
+  if (element.type === "shape" || element.type === "area" || element.type === "link") {
     const b = shapeBounds(element);
     if (!b) return null;
     // Shapes rotate about the transform origin (x, y), which sits at the box's
@@ -74,15 +77,25 @@ export function elementSelectionRect(element: MapElement, gridSize: number): Sel
 }
 
 function shapeBounds(
-  element: Extract<MapElement, { type: "shape" }>,
+  element: Extract<MapElement, { type: "shape" | "area" | "link" }>,
 ): { x: number; y: number; width: number; height: number } | null {
-  const [start, end] = element.data.points;
-  if (!start || !end) return null;
+  // A shape's first two points are its box; an area's box spans every vertex;
+  // a link's box is its size from the origin.
+  const points =
+    element.type === "shape"
+      ? element.data.points.slice(0, 2)
+      : element.type === "area"
+        ? element.data.points
+        : [
+            { x: 0, y: 0 },
+            { x: element.data.width, y: element.data.height },
+          ];
+  if (points.length < 2) return null;
   const { x, y, scaleX, scaleY } = element.transform;
-  const left = Math.min(start.x, end.x);
-  const top = Math.min(start.y, end.y);
-  const width = Math.abs(end.x - start.x);
-  const height = Math.abs(end.y - start.y);
+  const left = Math.min(...points.map((point) => point.x));
+  const top = Math.min(...points.map((point) => point.y));
+  const width = Math.max(...points.map((point) => point.x)) - left;
+  const height = Math.max(...points.map((point) => point.y)) - top;
   return {
     x: x + left * scaleX,
     y: y + top * scaleY,
@@ -92,7 +105,7 @@ function shapeBounds(
 }
 
 function shapeContainsPoint(element: MapElement, point: { x: number; y: number }): boolean {
-  if (element.type !== "shape") return false;
+  if (element.type !== "shape" && element.type !== "area" && element.type !== "link") return false;
   const b = shapeBounds(element);
   if (!b) return false;
   return point.x >= b.x && point.x <= b.x + b.width && point.y >= b.y && point.y <= b.y + b.height;
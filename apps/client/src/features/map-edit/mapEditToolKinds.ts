@@ -13,7 +13,18 @@ import type { MapEditSubTool } from "./mapEditTypes";
  * killing for swatches. A new drag tool now has to be given a phone tile before
  * it compiles.
  */
-export const DRAG_TOOLS = ["wall", "door", "room", "hallway", "generate", "row", "spline"] as const;
+export const DRAG_TOOLS = [
+  "wall",
+  "door",
+  "room",
+  "hallway",
+  "generate",
+  "row",
+  "spline",
+  "difficult",
+  "impassable",
+  "link",
+] as const;
 
 /** A sub-tool that drives the drag machine — the set touch is armed for. */
 export type DragTool = (typeof DRAG_TOOLS)[number];
@@ -21,7 +32,7 @@ export type DragTool = (typeof DRAG_TOOLS)[number];
 const BRUSH_TOOLS: MapEditSubTool[] = ["terrain", "erase"];
 const CLICK_TOOLS: MapEditSubTool[] = ["place", "scatter", "light"];
 
-/** Wall, door, room, hallway, and generate all drive the same drag machine. */
+/** Wall, door, room, hallway, generate, the areas and links all drive the same drag machine. */
 export function isDragTool(subTool: MapEditSubTool): subTool is DragTool {
   return (DRAG_TOOLS as readonly MapEditSubTool[]).includes(subTool);
 }
@@ -57,8 +68,18 @@ export function isClickTool(subTool: MapEditSubTool): boolean {
  * also stops a hex-typed document (import/update-grid can make one) snapping the
  * drag to hex centers, which are not multiples of the cell size and would offset
  * floor from walls. Walls/doors respect the document's own snap + grid type.
+ * Movement areas snap the same way because the cost grid is counted in whole
+ * squares: an area edge between cell centres would only blur which side wins.
+ * Links snap too, so the box a token must stand in is whole squares.
  */
-const SQUARE_SNAP_TOOLS: MapEditSubTool[] = ["room", "hallway", "generate"];
+const SQUARE_SNAP_TOOLS: MapEditSubTool[] = [
+  "room",
+  "hallway",
+  "generate",
+  "difficult",
+  "impassable",
+  "link",
+];
 
 export function effectiveGrid(grid: MapGridSettings, subTool: MapEditSubTool): MapGridSettings {
   return SQUARE_SNAP_TOOLS.includes(subTool) ? { ...grid, snap: true, type: "square" } : grid;
@@ -6,11 +6,13 @@
 // widening the union.
 
 import type {
+  MapDocumentSummary,
   MapDoorState,
   MapElement,
   MapElementUpdate,
   MapLayer,
   MapLayerUpdate,
+  MapLinkElement,
 } from "@herobyte/shared";
 
 export type MapEditSubTool =
@@ -26,7 +28,10 @@ export type MapEditSubTool =
   | "row"
   | "select"
   | "generate"
-  | "spline";
+  | "spline"
+  | "difficult"
+  | "impassable"
+  | "link";
 
 /** Persistent curve kinds the spline sub-tool authors (splineDetail art). */
 export type MapEditSplineKind = "ribbon" | "filigree" | "rope" | "chain";
@@ -137,6 +142,8 @@ export interface MapEditToolbarProps {
   onMoveLayer: (layerId: string, targetIndex: number) => void;
   onUpdateElement: (elementId: string, update: MapElementUpdate) => void;
   onUpdateDoor: (elementId: string, update: { state: MapDoorState; width: number }) => void;
+  onUpdateLink: (elementId: string, link: MapLinkElement["data"]) => void;
+  mapDocuments: MapDocumentSummary[]; // where a map link may lead
   onRemoveElement: (elementId: string) => void;
   layersOpen: boolean;
   onToggleLayers: () => void;
@@ -26,7 +26,8 @@ export interface MobileToolTile {
 // Declaration order IS display order (string keys keep insertion order), so the
 // exhaustiveness check and the layout are one list rather than two. Room, Hall,
 // Wall and Door lead because they are the structural four; Row, Spline and Gen
-// follow. Labels stay short — the grid is 3 columns under 420px.
+// follow, then the two movement areas and the map link. Labels stay short —
+// the grid is 3 columns under 420px.
 const PRESENTATION: Record<DragTool, { icon: string; label: string }> = {
   room: { icon: "🏠", label: "Room" },
   hallway: { icon: "🚇", label: "Hall" },
@@ -35,6 +36,9 @@ const PRESENTATION: Record<DragTool, { icon: string; label: string }> = {
   row: { icon: "📏", label: "Row" },
   spline: { icon: "〰️", label: "Spline" },
   generate: { icon: "🏰", label: "Gen" },
+  difficult: { icon: "🪨", label: "Rough" },
+  impassable: { icon: "⛔", label: "Block" },
+  link: { icon: "🪜", label: "Link" },
 };
 
 export const MOBILE_TOOL_TILES: MobileToolTile[] = (Object.keys(PRESENTATION) as DragTool[]).map(
@@ -111,13 +111,11 @@ export function useMapEditState({
   // binding it live (createDocument returns synchronously, but the controller
   // no-ops every action until the server's map-studio-document reply lands).
   const [pendingLiveId, setPendingLiveId] = useState<string | null>(null);
-  // True from the moment START LIVE MAP is clicked until the room snapshot
-  // confirms the binding (isLive). Without it, the button briefly re-enables
-  // between "set-live sent" and "snapshot confirms", so a double-click would
-  // create a second orphan "Live Map" document.
+  // True from START LIVE MAP until the room snapshot confirms the binding
+  // (isLive). Without it the button re-enables between "set-live sent" and the
+  // snapshot, so a double-click would create a second orphan "Live Map" document.
   const [awaitingLiveBind, setAwaitingLiveBind] = useState(false);
-  // Pin the DM-only walls overlay so it stays visible after leaving map-edit
-  // mode (in map-edit it always shows; the pin persists it beyond that).
+  // Pins the DM-only walls overlay (always shown in map-edit) beyond the mode.
   const [wallsOverlayPinned, setWallsOverlayPinned] = useState(false);
 
   // Stable controller methods (useCallback-memoized inside useMapStudio); the
@@ -321,6 +319,8 @@ export function useMapEditState({
     onMoveLayer: controller.moveLayer,
     onUpdateElement: controller.updateElement,
     onUpdateDoor: controller.updateDoor,
+    onUpdateLink: controller.updateLink,
+    mapDocuments: controller.documents,
     onRemoveElement: controller.removeElement,
     layersOpen,
     onToggleLayers,
@@ -63,6 +63,25 @@ function door(state: "closed" | "open" | "locked" | "secret"): MapElement {
   };
 }
 
+function area(): MapElement {
+  return {
+    id: "area-1",
+    type: "area",
+    layerId: "walls",
+    locked: false,
+    hidden: false,
+    transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0 },
+    data: {
+      points: [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 0, y: 100 },
+      ],
+      movement: "impassable",
+    },
+  };
+}
+
 describe("visibleInRaster", () => {
   it("bakes an ordinary visible element", () => {
     expect(visibleInRaster(tile(), layer())).toBe(true);
@@ -104,4 +123,28 @@ describe("visibleInRaster", () => {
     expect(visibleInRaster(door("locked"), walls)).toBe(false);
     expect(visibleInRaster(door("secret"), walls)).toBe(true);
   });
+
+  it("never bakes a movement area", () => {
+    expect(visibleInRaster(area(), layer({ id: "walls", kind: "walls" }))).toBe(false);
+  });
+
+  it("never bakes a map link", () => {
+    const link: MapElement = {
+      id: "link-1",
+      type: "link",
+      layerId: "walls",
+      locked: false,
+      hidden: false,
+      transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0 },
+      data: {
+        kind: "portal",
+        label: "Portal",
+        width: 50,
+        height: 50,
+        target: { documentId: "elsewhere", x: 0, y: 0 },
+        playersMayUse: true,
+      },
+    };
+    expect(visibleInRaster(link, layer({ id: "walls", kind: "walls" }))).toBe(false);
+  });
 });
@@ -1,6 +1,8 @@
 import type {
+  MapAreaElement,
   MapDoorElement,
   MapLightElement,
+  MapLinkElement,
   MapShapeElement,
   MapSplineElement,
   MapStampElement,
@@ -8,8 +10,10 @@ import type {
   MapWallElement,
 } from "@herobyte/shared";
 import type {
+  MapAreaDraft,
   MapDoorDraft,
   MapLightDraft,
+  MapLinkDraft,
   MapShapeDraft,
   MapSplineDraft,
   MapStampDraft,
@@ -108,6 +112,40 @@ export function createSplineElement(id: string, draft: MapSplineDraft): MapSplin
   };
 }
 
+export function createAreaElement(id: string, draft: MapAreaDraft): MapAreaElement {
+  return {
+    id,
+    layerId: draft.layerId,
+    type: "area",
+    locked: false,
+    hidden: false,
+    transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0 },
+    data: {
+      points: draft.points.map((point) => ({ ...point })),
+      movement: draft.movement,
+    },
+  };
+}
+
+export function createLinkElement(id: string, draft: MapLinkDraft): MapLinkElement {
+  return {
+    id,
+    layerId: draft.layerId,
+    type: "link",
+    locked: false,
+    hidden: false,
+    transform: { x: draft.x, y: draft.y, scaleX: 1, scaleY: 1, rotation: 0 },
+    data: {
+      kind: draft.kind,
+      label: draft.label,
+      width: draft.width,
+      height: draft.height,
+      target: { ...draft.target },
+      playersMayUse: draft.playersMayUse,
+    },
+  };
+}
+
 export function createLightElement(id: string, draft: MapLightDraft): MapLightElement {
   return {
     id,
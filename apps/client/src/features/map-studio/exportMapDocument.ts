@@ -284,6 +284,7 @@ function renderElement(
   if (element.type === "text") {
     return `<text ${attributes} fill="${xml(element.data.color)}" font-size="${element.data.fontSize}">${xml(element.data.text)}</text>`;
   }
+  if (element.type === "area" || element.type === "link") return ""; // never baked — see rasterVisibility
   if (element.type === "spline") {
     // Same deterministic painter art as the live layer (splineSvg recorder).
     return `<g ${attributes} data-asset-id="spline:${element.data.kind}">${splineSvgMarkup(element.data.points, element.data.kind, wearStampSeed(element.id), gridSize, element.data.tint)}</g>`;
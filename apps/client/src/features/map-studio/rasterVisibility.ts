@@ -23,11 +23,19 @@ import type { MapElement, MapLayer } from "@herobyte/shared";
  * contains them, so nothing covers the one-cell gap their seam leaves in the
  * wall art, and a bare hole reads as "secret door here" with no socket
  * inspection at all.
+ *
+ * AREAS: never baked. A difficult or impassable area is a rule about the
+ * ground, not art; the painted terrain beneath it is what players see, and a
+ * baked outline would mark every pit the DM has not described yet.
+ *
+ * LINKS: never baked either. The stairs are already in the art; the link is
+ * only where using them takes you, and a DM-only one must not show at all.
  */
 export function visibleInRaster(element: MapElement, layer?: MapLayer): boolean {
   if (!layer?.visible || layer.opacity <= 0 || layer.kind === "notes") return false;
   if (element.hidden) return false;
   if (element.type === "text") return element.data.visibleToPlayers;
   if (element.type === "door") return element.data.state === "secret";
+  if (element.type === "area" || element.type === "link") return false;
   return true;
 }
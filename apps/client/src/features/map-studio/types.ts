@@ -7,8 +7,10 @@ import type {
   MapElementUpdate,
   MapGridUpdate,
   MapLayerUpdate,
+  MapLinkElement,
   MapPublishBackgroundMode,
   ServerMessage,
+  TerrainMovement,
   TerrainPaintCell,
 } from "@herobyte/shared";
 import type { UploadedAssetInfo } from "./uploads/assetUpload";
@@ -72,6 +74,23 @@ export interface MapSplineDraft {
   tint?: string;
 }
 
+/** A movement area: a closed polygon in document px, difficult or impassable. */
+export interface MapAreaDraft {
+  layerId: string;
+  points: { x: number; y: number }[];
+  movement: TerrainMovement;
+}
+
+/** What a map link element carries: kind, label, box size and destination. */
+export type MapLinkData = MapLinkElement["data"];
+
+/** A map link: a box in document px and everything the element carries. */
+export interface MapLinkDraft extends MapLinkData {
+  layerId: string;
+  x: number;
+  y: number;
+}
+
 export interface MapDoorDraft {
   layerId: string;
   x: number;
@@ -130,10 +149,14 @@ export interface MapStudioController {
   addDoor: (draft: MapDoorDraft) => string | null;
   addLight: (draft: MapLightDraft) => string | null;
   addSpline: (draft: MapSplineDraft) => string | null;
+  addArea: (draft: MapAreaDraft) => string | null;
+  addLink: (draft: MapLinkDraft) => string | null;
   removeElement: (elementId: string) => void;
   updateElement: (elementId: string, update: MapElementUpdate) => void;
   /** Author a placed door's initial state + width (dedicated data path). */
   updateDoor: (elementId: string, update: { state: MapDoorState; width: number }) => void;
+  /** Re-author a placed map link's kind, label, size and destination. */
+  updateLink: (elementId: string, link: MapLinkData) => void;
   /**
    * Run a server-side recipe over a region of the active document. The whole
    * result lands as ONE undo step; `saving` is the pending state and `error`
@@ -155,9 +155,12 @@ export function useMapStudio(
     addDoor,
     addLight,
     addSpline,
+    addArea,
+    addLink,
     removeElement,
     updateElement,
     updateDoor,
+    updateLink,
     generate,
     undo,
     redo,
@@ -278,9 +281,12 @@ export function useMapStudio(
     addDoor,
     addLight,
     addSpline,
+    addArea,
+    addLink,
     removeElement,
     updateElement,
     updateDoor,
+    updateLink,
     generate,
     undo,
     redo,
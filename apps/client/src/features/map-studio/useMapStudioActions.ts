@@ -12,7 +12,9 @@ import type {
 } from "@herobyte/shared";
 import { generateUUID } from "../../utils/uuid";
 import {
+  createAreaElement,
   createDoorElement,
+  createLinkElement,
   createShapeElement,
   createStampElement,
   createTileElement,
@@ -22,7 +24,10 @@ import {
 } from "./elementBuilders";
 import type {
   GenerateInput,
+  MapAreaDraft,
   MapDoorDraft,
+  MapLinkData,
+  MapLinkDraft,
   MapShapeDraft,
   MapStampDraft,
   MapTileDraft,
@@ -107,6 +112,8 @@ export function useMapStudioActions({
     () => elementAdder<MapSplineDraft>(createSplineElement),
     [elementAdder],
   );
+  const addArea = useMemo(() => elementAdder<MapAreaDraft>(createAreaElement), [elementAdder]);
+  const addLink = useMemo(() => elementAdder<MapLinkDraft>(createLinkElement), [elementAdder]);
   const addTiles = useMemo(() => elementsAdder<MapTileDraft>(createTileElement), [elementsAdder]);
   const addStamps = useMemo(
     () => elementsAdder<MapStampDraft>(createStampElement),
@@ -162,6 +169,11 @@ export function useMapStudioActions({
     [submit],
   );
 
+  const updateLink = useCallback(
+    (elementId: string, link: MapLinkData) => submit({ type: "update-link", elementId, link }),
+    [submit],
+  );
+
   /**
    * Run a server-side recipe over a region. Its own message type, not a
    * map-studio-command — the server builds the command from the recipe's output
@@ -203,9 +215,12 @@ export function useMapStudioActions({
     addDoor,
     addLight,
     addSpline,
+    addArea,
+    addLink,
     removeElement,
     updateElement,
     updateDoor,
+    updateLink,
     generate,
     undo,
     redo,
@@ -5,7 +5,13 @@
 
 import { describe, expect, it } from "vitest";
 import type { CompiledDoor, Token } from "@herobyte/shared";
-import { dmViewActive, fogViewers, fogViewerTokens, visibleDoors } from "../playerLens";
+import {
+  dmViewActive,
+  fogTremorTargets,
+  fogViewers,
+  fogViewerTokens,
+  visibleDoors,
+} from "../playerLens";
 
 const door = (id: string, state: CompiledDoor["state"]): CompiledDoor =>
   ({ id, state, x1: 0, y1: 0, x2: 50, y2: 0 }) as CompiledDoor;
@@ -101,3 +107,19 @@ describe("fogViewers", () => {
     ]);
   });
 });
+
+describe("sense profiles", () => {
+  it("carries a token's senses onto its viewer, and adds none to a token without", () => {
+    const keen = { ...token("t1", "me"), senses: { darkvision: 60 } };
+    const [withSenses, without] = fogViewers([keen, token("t2", "me")], "me", false, 50, undefined);
+    expect(withSenses!.senses).toEqual({ darkvision: 60 });
+    expect("senses" in without!).toBe(false);
+  });
+
+  it("offers tremorsense every token that is not a viewer, as world cell centres", () => {
+    const tokens = [token("mine", "me"), token("theirs", "them")];
+    expect(fogTremorTargets(tokens, "me", false, 50)).toEqual([{ x: 75, y: 125 }]);
+    // Under the lens the party are the viewers, so the DM's own tokens are felt.
+    expect(fogTremorTargets(tokens, "me", true, 50)).toEqual([{ x: 75, y: 125 }]);
+  });
+});
@@ -99,4 +99,15 @@ describe("buildTokenPlates", () => {
     });
     expect(plates["token:t7"]).toMatchObject({ hp: 5, maxHp: 20 });
   });
+
+  it("carries the status for the defeated marker, even through the lens", () => {
+    const plates = buildTokenPlates({
+      characters: [{ ...npc("t8", 0, 20), status: "dead" }],
+      tokens: [],
+      players: [],
+      monsterHpDisplay: "hidden",
+      lensRedact: true,
+    });
+    expect(plates["token:t8"]).toMatchObject({ name: "Goblin 3", status: "dead" });
+  });
 });
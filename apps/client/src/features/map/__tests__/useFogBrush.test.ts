@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import type { ToolMode } from "../../../components/layout/Header";
+import { useFogBrush } from "../useFogBrush";
+
+function setup(activeTool: ToolMode | null) {
+  const setActiveTool = vi.fn();
+  const sendMessage = vi.fn();
+  const hook = renderHook(() => useFogBrush({ activeTool, setActiveTool, sendMessage }));
+  return { hook, setActiveTool, sendMessage };
+}
+
+function press(key: string, init: KeyboardEventInit = {}) {
+  window.dispatchEvent(new KeyboardEvent("keydown", { key, ctrlKey: true, ...init }));
+}
+
+describe("useFogBrush", () => {
+  it("arms and disarms through the fog tool mode", () => {
+    const idle = setup(null);
+    expect(idle.hook.result.current.active).toBe(false);
+    idle.hook.result.current.toggle();
+    expect(idle.setActiveTool).toHaveBeenCalledWith("fog");
+
+    const armed = setup("fog");
+    expect(armed.hook.result.current.active).toBe(true);
+    armed.hook.result.current.toggle();
+    expect(armed.setActiveTool).toHaveBeenCalledWith(null);
+  });
+
+  it("merges setting changes", () => {
+    const { hook } = setup("fog");
+    act(() => hook.result.current.setSettings({ mode: "conceal" }));
+    act(() => hook.result.current.setSettings({ shape: "polygon" }));
+
+    expect(hook.result.current.settings).toMatchObject({ mode: "conceal", shape: "polygon" });
+  });
+
+  it("undoes and redoes fog strokes from the keyboard only while armed", () => {
+    const armed = setup("fog");
+    press("z");
+    press("y");
+    press("Z", { shiftKey: true });
+    expect(armed.sendMessage.mock.calls.map(([message]) => message.t)).toEqual([
+      "undo-fog-region",
+      "redo-fog-region",
+      "redo-fog-region",
+    ]);
+    armed.hook.unmount();
+
+    const idle = setup("draw");
+    press("z");
+    expect(idle.sendMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+// ============================================================================
+// CARRIED LIGHTS LAYER
+// ============================================================================
+// The warm glow of a torch, lantern or Light cantrip a token carries, drawn
+// live as a radial gradient per light. Authored and emissive lights are baked
+// into the terrain (TerrainLayer + emissiveLights.ts); a carried light moves
+// with its token, and re-baking the map on every step is not an option, so it
+// gets this cheap overlay instead. What the light REVEALS is the fog's job —
+// FogLayer reads the same compiled lights — so this layer is pure colour.
+//
+// Inputs are compiled lights in DOCUMENT space (withCarriedLights), so the
+// nested camera + map-transform groups match the other compiled layers.
+// Inert to input.
+
+import { Circle, Group } from "react-konva";
+import {
+  BRIGHT_BAND_FRACTION,
+  isTokenLightId,
+  type CompiledLight,
+  type SceneObjectTransform,
+} from "@herobyte/shared";
+import type { Camera } from "../types";
+
+interface CarriedLightsLayerProps {
+  cam: Camera;
+  mapTransform?: SceneObjectTransform;
+  /** The compiled scene's lights; only carried (`token:`) lights are drawn. */
+  lights: readonly CompiledLight[];
+}
+
+/** Peak glow opacity at the flame. Tinted, not floodlit: the map stays readable. */
+const GLOW_OPACITY = 0.35;
+
+export function CarriedLightsLayer({ cam, mapTransform, lights }: CarriedLightsLayerProps) {
+  const carried = lights.filter((light) => isTokenLightId(light.id) && light.radius > 0);
+  if (carried.length === 0) return null;
+
+  const { x = 0, y = 0, scaleX = 1, scaleY = 1, rotation = 0 } = mapTransform ?? {};
+
+  return (
+    <Group x={cam.x} y={cam.y} scaleX={cam.scale} scaleY={cam.scale} listening={false}>
+      <Group x={x} y={y} scaleX={scaleX} scaleY={scaleY} rotation={rotation} listening={false}>
+        {carried.map((light) => (
+          <Circle
+            key={light.id}
+            x={light.x}
+            y={light.y}
+            radius={light.radius}
+            fillRadialGradientStartPoint={{ x: 0, y: 0 }}
+            fillRadialGradientStartRadius={0}
+            fillRadialGradientEndPoint={{ x: 0, y: 0 }}
+            fillRadialGradientEndRadius={light.radius}
+            // Full glow across the bright core, fading out through the dim band.
+            fillRadialGradientColorStops={[
+              0,
+              light.color,
+              BRIGHT_BAND_FRACTION,
+              light.color,
+              1,
+              "rgba(0,0,0,0)",
+            ]}
+            opacity={GLOW_OPACITY}
+            globalCompositeOperation="lighter"
+            listening={false}
+          />
+        ))}
+      </Group>
+    </Group>
+  );
+}
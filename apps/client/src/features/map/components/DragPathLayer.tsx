@@ -0,0 +1,169 @@
+// ============================================================================
+// DRAG PATH LAYER
+// ============================================================================
+// The walk a token being dragged would take, drawn under the cursor while the
+// drag is live: the routed path through any Shift-pinned cells, and the
+// distance at its end in the measure overlay's own words ("6 Squares (30 ft)").
+//
+// Every entry is routed HERE, on this screen, from the route the drag-preview
+// channel carries (dragRoute.ts) — your own drag and everyone else's alike, so
+// the DM watching a player's drag sees the same line the player does. The
+// path turns to the warning colour when some leg has no legal walk (it is
+// then drawn straight through the wall in the way) or when the walk is longer
+// than the token's speed, which is what the server's movement budget refuses.
+
+import { memo, useMemo } from "react";
+import { Circle, Group, Line, Text } from "react-konva";
+import {
+  formatMeasurement,
+  gridCellToWorldPoint,
+  planDragRoute,
+  tokenSpeedFeet,
+  type CompiledScene,
+  type DiagonalRule,
+  type DragPreviewUpdate,
+  type DragRoute,
+  type SceneTransform,
+  type Token,
+} from "@herobyte/shared";
+import type { Camera } from "../types";
+
+interface DragPathLayerProps {
+  cam: Camera;
+  /** Preview updates carrying a route: the local drag's and everyone else's. */
+  routes: DragPreviewUpdate[];
+  tokens: Token[];
+  gridSize: number;
+  gridSquareSize?: number;
+  diagonalRule?: DiagonalRule;
+  scene?: CompiledScene;
+  mapTransform?: SceneTransform;
+}
+
+const PATH_COLOR = "#ffe066";
+const WARNING_COLOR = "#ff5a4f";
+/** Fixed so `align="center"` has a box to centre in (see MeasureLayer). */
+const LABEL_WIDTH = 260;
+
+interface DragPathProps extends Omit<DragPathLayerProps, "routes" | "tokens" | "cam"> {
+  update: DragPreviewUpdate & { route: DragRoute };
+  token: Token | undefined;
+  scale: number;
+  gridSquareSize: number;
+  diagonalRule: DiagonalRule;
+}
+
+const DragPath = memo(function DragPath({
+  update,
+  token,
+  gridSize,
+  gridSquareSize,
+  diagonalRule,
+  scene,
+  mapTransform,
+  scale,
+}: DragPathProps) {
+  // A drag re-sends the same cell on every pointer move, each time as a new
+  // object; keyed by value, the walk is routed only when it could change.
+  const routeKey = JSON.stringify(update.route);
+  const { x, y } = update;
+  const plan = useMemo(
+    () =>
+      planDragRoute({
+        scene,
+        mapTransform,
+        gridSize,
+        gridSquareSize,
+        rule: diagonalRule,
+        size: token?.size,
+        route: JSON.parse(routeKey) as DragRoute,
+        to: { x, y },
+      }),
+    [scene, mapTransform, gridSize, gridSquareSize, diagonalRule, token?.size, routeKey, x, y],
+  );
+
+  const speed = token ? tokenSpeedFeet(token) : undefined;
+  const overSpeed = speed !== undefined && plan.feet > speed;
+  const color = plan.blocked || overSpeed ? WARNING_COLOR : PATH_COLOR;
+  const points = plan.cells.flatMap((cell) => {
+    const centre = gridCellToWorldPoint(gridSize, cell);
+    return [centre.x, centre.y];
+  });
+  const end = gridCellToWorldPoint(gridSize, plan.cells[plan.cells.length - 1]!);
+  const readout = formatMeasurement({
+    ...plan,
+    from: gridCellToWorldPoint(gridSize, plan.cells[0]!),
+    to: end,
+  });
+  const warning = plan.blocked ? " — no way through" : overSpeed ? ` — over ${speed} ft speed` : "";
+
+  return (
+    <>
+      <Line
+        points={points}
+        stroke={color}
+        strokeWidth={3 / scale}
+        dash={[8 / scale, 6 / scale]}
+        lineCap="round"
+        lineJoin="round"
+      />
+      {plan.waypoints.map((cell, index) => {
+        const centre = gridCellToWorldPoint(gridSize, cell);
+        return (
+          <Circle
+            key={`${cell.x},${cell.y},${index}`}
+            x={centre.x}
+            y={centre.y}
+            radius={5 / scale}
+            fill={color}
+          />
+        );
+      })}
+      <Text
+        x={end.x}
+        y={end.y + gridSize / 2 + 4 / scale}
+        text={`${readout}${warning}`}
+        fill={color}
+        fontSize={14 / scale}
+        fontStyle="bold"
+        align="center"
+        width={LABEL_WIDTH / scale}
+        offsetX={LABEL_WIDTH / scale / 2}
+      />
+    </>
+  );
+});
+
+export function DragPathLayer({
+  cam,
+  routes,
+  tokens,
+  gridSize,
+  gridSquareSize = 5,
+  diagonalRule = "5e",
+  scene,
+  mapTransform,
+}: DragPathLayerProps) {
+  const routed = routes.filter(
+    (update): update is DragPathProps["update"] => update.route !== undefined,
+  );
+  if (routed.length === 0) return null;
+
+  return (
+    <Group x={cam.x} y={cam.y} scaleX={cam.scale} scaleY={cam.scale} listening={false}>
+      {routed.map((update) => (
+        <DragPath
+          key={update.id}
+          update={update}
+          token={tokens.find((token) => `token:${token.id}` === update.id)}
+          gridSize={gridSize}
+          gridSquareSize={gridSquareSize}
+          diagonalRule={diagonalRule}
+          scene={scene}
+          mapTransform={mapTransform}
+          scale={cam.scale}
+        />
+      ))}
+    </Group>
+  );
+}
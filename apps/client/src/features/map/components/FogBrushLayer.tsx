@@ -0,0 +1,198 @@
+// ============================================================================
+// FOG BRUSH LAYER (DM-only)
+// ============================================================================
+// The canvas half of the DM's reveal/conceal tool (useFogBrush holds the
+// settings). While the tool is armed this layer sits on top of the stage and
+// takes every press itself — `cancelBubble` keeps the stage event router from
+// also panning or marquee-selecting under the brush — and turns the gesture
+// into one region:
+//   brush    press-drag-release lays a stroke of the brush's radius;
+//   rect     press-drag-release lays the dragged rectangle;
+//   polygon  each click adds a corner; clicking the first corner again or
+//            double-clicking closes the outline.
+// Points are converted to map-document space on the way in, because that is
+// where regions live (they move with the map, not the camera).
+//
+// The DM sees through fog, so the painted stack is drawn here too, tinted:
+// cyan where it reveals, dark where it conceals. A finished region is only
+// SENT — it appears when the server's snapshot carries it back.
+//
+// MapBoard mounts this only for the DM with the tool armed.
+
+import { useState } from "react";
+import type Konva from "konva";
+import { Group, Layer, Line, Rect } from "react-konva";
+import {
+  MAX_FOG_REGION_POINTS,
+  inverseTransformScenePoint,
+  sanitizeFogRegionDraft,
+  type FogRegion,
+  type FogRegionDraft,
+  type FogRegionMode,
+  type SceneObjectTransform,
+  type ScenePoint,
+} from "@herobyte/shared";
+import type { FogBrushSettings } from "../useFogBrush";
+import type { Camera } from "../types";
+import { FogRegionShape, FogRegionShapes, type FogRegionPaint } from "./FogRegionShapes";
+
+interface FogBrushLayerProps {
+  cam: Camera;
+  viewport: { w: number; h: number };
+  mapTransform?: SceneObjectTransform;
+  /** The published scene's painted regions, bottom first. */
+  regions: FogRegion[];
+  settings: FogBrushSettings;
+  toWorld: (screenX: number, screenY: number) => ScenePoint;
+  onPaint: (region: FogRegionDraft) => void;
+}
+
+const DM_PAINT: Record<FogRegionMode, FogRegionPaint> = {
+  reveal: { color: "#4fd1ff", opacity: 0.25 },
+  conceal: { color: "#0b0b16", opacity: 0.6 },
+};
+/** How close, in screen pixels, a click must land to close a polygon. */
+const CLOSE_DISTANCE = 10;
+
+type KonvaPress = Konva.KonvaEventObject<MouseEvent | TouchEvent>;
+
+/** The gesture's region, or null when it has not yet enclosed anything. */
+function draftOf(
+  settings: FogBrushSettings,
+  points: ScenePoint[],
+  hover: ScenePoint | null,
+): FogRegionDraft | null {
+  const { mode, shape, size } = settings;
+  if (points.length === 0) return null;
+  if (shape === "brush") return { mode, shape: "stroke", points, radius: size };
+  if (shape === "rect") {
+    const [a, b] = [points[0]!, points.at(-1)!];
+    const corners = [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+    return { mode, shape: "polygon", points: corners };
+  }
+  return { mode, shape: "polygon", points: hover ? [...points, hover] : points };
+}
+
+export function FogBrushLayer({
+  cam,
+  viewport,
+  mapTransform,
+  regions,
+  settings,
+  toWorld,
+  onPaint,
+}: FogBrushLayerProps) {
+  const [points, setPoints] = useState<ScenePoint[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [hover, setHover] = useState<ScenePoint | null>(null);
+  // Screen pixels per document pixel, for distances the DM judges by eye.
+  const docScale = cam.scale * (Math.abs(mapTransform?.scaleX ?? 1) || 1);
+
+  const docPoint = (event: KonvaPress): ScenePoint | null => {
+    event.cancelBubble = true;
+    const pointer = event.target.getStage()?.getPointerPosition();
+    if (!pointer) return null;
+    const world = toWorld(pointer.x, pointer.y);
+    return mapTransform ? inverseTransformScenePoint(mapTransform, world) : world;
+  };
+
+  const finish = (gesture: ScenePoint[]) => {
+    const draft = sanitizeFogRegionDraft(draftOf(settings, gesture, null));
+    // A rectangle with no area encloses nothing a player could notice.
+    const degenerate =
+      settings.shape === "rect" &&
+      (gesture[0]!.x === gesture.at(-1)!.x || gesture[0]!.y === gesture.at(-1)!.y);
+    if (draft && !degenerate) onPaint(draft);
+    setPoints([]);
+    setDragging(false);
+    setHover(null);
+  };
+
+  const handleDown = (event: KonvaPress) => {
+    const point = docPoint(event);
+    if (!point) return;
+    if (settings.shape !== "polygon") {
+      setPoints([point]);
+      setDragging(true);
+      return;
+    }
+    const first = points[0];
+    const closes =
+      first &&
+      points.length >= 3 &&
+      Math.hypot(first.x - point.x, first.y - point.y) * docScale <= CLOSE_DISTANCE;
+    if (closes) finish(points);
+    else if (points.length < MAX_FOG_REGION_POINTS) setPoints([...points, point]);
+  };
+
+  const handleMove = (event: KonvaPress) => {
+    const point = docPoint(event);
+    if (!point) return;
+    if (settings.shape === "polygon") {
+      setHover(point);
+    } else if (dragging && settings.shape === "rect") {
+      setPoints([points[0]!, point]);
+    } else if (dragging && points.length < MAX_FOG_REGION_POINTS) {
+      // A quarter of the radius apart keeps a long drag well under the point
+      // cap without the stroke's edge visibly faceting.
+      const last = points.at(-1)!;
+      if (Math.hypot(last.x - point.x, last.y - point.y) >= settings.size / 4) {
+        setPoints([...points, point]);
+      }
+    }
+  };
+
+  const handleUp = (event: KonvaPress) => {
+    event.cancelBubble = true;
+    if (dragging) finish(points);
+  };
+
+  const handleDoubleClick = (event: KonvaPress) => {
+    event.cancelBubble = true;
+    if (settings.shape === "polygon" && points.length >= 3) finish(points);
+  };
+
+  const preview = draftOf(settings, points, hover);
+  const { x = 0, y = 0, scaleX = 1, scaleY = 1, rotation = 0 } = mapTransform ?? {};
+
+  return (
+    <Layer>
+      <Group x={cam.x} y={cam.y} scaleX={cam.scale} scaleY={cam.scale} listening={false}>
+        <Group x={x} y={y} scaleX={scaleX} scaleY={scaleY} rotation={rotation}>
+          <FogRegionShapes regions={regions} paint={DM_PAINT} />
+          {preview && (
+            <>
+              <FogRegionShape region={preview} paint={DM_PAINT[settings.mode]} />
+              {preview.shape === "polygon" && (
+                <Line
+                  points={preview.points.flatMap((point) => [point.x, point.y])}
+                  closed={settings.shape === "rect"}
+                  stroke="#4fd1ff"
+                  strokeWidth={2 / docScale}
+                  dash={[6 / docScale, 4 / docScale]}
+                />
+              )}
+            </>
+          )}
+        </Group>
+      </Group>
+      <Rect
+        x={0}
+        y={0}
+        width={viewport.w}
+        height={viewport.h}
+        fill="transparent"
+        onMouseDown={handleDown}
+        onTouchStart={handleDown}
+        onMouseMove={handleMove}
+        onTouchMove={handleMove}
+        onMouseUp={handleUp}
+        onTouchEnd={handleUp}
+        onClick={(event) => (event.cancelBubble = true)}
+        onTap={(event) => (event.cancelBubble = true)}
+        onDblClick={handleDoubleClick}
+        onDblTap={handleDoubleClick}
+      />
+    </Layer>
+  );
+}
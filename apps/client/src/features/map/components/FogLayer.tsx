@@ -19,18 +19,48 @@
 // `destination-out` image at 0.55 erases 55% of the fog rather than all of it.
 // The explored band is a RENDERING convenience only: it re-shows map art the
 // client already holds, never an entity, because the server never sent one.
+// The server keeps each player's copy of it (useExploredFog); this layer only
+// hands the memory in and the changes out.
+//
+// Lighting adds a fourth band between 2 and 3: areas the scene's lights reach
+// that the viewer has line of sight to, clipped to that line of sight — bright
+// light fully, dim light mostly. In a dark scene that is how a torchlit room
+// across the hall becomes visible to a token whose own sight ends at its feet.
+// The lights arrive already vision-filtered by the server, and the lit-area
+// math is the shared function the server's payload filter calls. Carried
+// lights (torches on tokens) are among them, re-placed at their tokens'
+// current cells by MapBoard (withCarriedLights) before they reach this layer.
+//
+// Special senses (shared senses.ts) punch their own holes alongside sight:
+// darkvision at the dim lift, truesight and blindsight fully. Tremorsense
+// reveals no map, so it punches only a token-sized dim hole over each token
+// it feels — the server has already decided which of those the player gets.
+//
+// The DM's painted regions (FogRegionShapes) go on last, over every band: a
+// reveal erases the fog outright, a conceal lays it back down — the same
+// overrule the server's payload filter applies.
 
 import { useMemo } from "react";
-import { Group, Image as KonvaImage, Layer, Line, Rect } from "react-konva";
+import { Circle, Group, Image as KonvaImage, Layer, Line, Rect } from "react-konva";
 import {
-  computeViewerVisionPolygon,
+  computeLitViewerVision,
+  computeSceneLighting,
   getVisionBlockingSegments,
+  inverseTransformScenePoint,
+  isPointLitVisible,
+  pointInPolygon,
+  senseProfileKey,
   type CompiledScene,
+  type ExploredFogMask,
+  type ExploredFogUpload,
+  type FogRegion,
   type SceneObjectTransform,
+  type ScenePoint,
 } from "@herobyte/shared";
 import type { FogViewer } from "../playerLens";
 import type { Camera } from "../types";
 import { useExploredFog } from "./useExploredFog";
+import { FogRegionShapes, type FogRegionPaint } from "./FogRegionShapes";
 
 interface FogLayerProps {
   cam: Camera;
@@ -42,20 +72,49 @@ interface FogLayerProps {
   gridSize: number;
   /** Feet per grid square (`RoomSnapshot.gridSquareSize`, default 5). */
   gridSquareSize: number;
+  /** Accumulate an explored band at all. Off, the viewer remembers nothing. */
+  remembersExplored?: boolean;
+  /** The server's copy of this viewer's memory of the scene, from the snapshot. */
+  exploredMemory?: ExploredFogMask;
   /**
-   * Where this viewer's memory of the map is kept, or null to remember nothing.
-   *
-   * Scoped per table, per PLAYER uid and per map document by the caller. The
-   * uid segment is the structural guard that a DM inspecting through the player
-   * lens — whose viewers are the whole party's union, not any one player's —
-   * accumulates under their OWN key and can never write into a player's memory.
+   * Where the viewer's newly explored area goes. The caller leaves it out for
+   * the DM's player lens — whose viewers are the whole party's union, not any
+   * one player's — so inspecting the party's view never writes a memory.
    */
-  exploredStorageKey?: string | null;
+  onExploredChange?: (mask: ExploredFogUpload) => void;
+  /**
+   * World-space centres of the tokens that are not viewers, for tremorsense
+   * to feel through the fog. Omit and tremorsense shows nothing.
+   */
+  tremorTargets?: ScenePoint[];
+  /** The published scene's painted regions (`RoomSnapshot.fogRegions`). */
+  regions?: FogRegion[];
 }
 
 const FOG_COLOR = "#0b0b16";
 /** How much of the fog a remembered area lifts. Dimmed, deliberately not clear. */
 const EXPLORED_LIFT = 0.55;
+/** How much of the fog dim light lifts: visible, but plainly not daylight. */
+const DIM_LIGHT_LIFT = 0.8;
+
+const NO_TARGETS: ScenePoint[] = [];
+const NO_REGIONS: FogRegion[] = [];
+const REGION_PAINT: Record<FogRegion["mode"], FogRegionPaint> = {
+  reveal: { color: "#000000", opacity: 1, erase: true },
+  conceal: { color: FOG_COLOR, opacity: 0.97 },
+};
+
+/** Trace a polygon as the current path — the clip shape of a lit region. */
+function tracePolygon(
+  context: Pick<CanvasRenderingContext2D, "moveTo" | "lineTo" | "closePath">,
+  polygon: readonly ScenePoint[],
+): void {
+  context.moveTo(polygon[0]!.x, polygon[0]!.y);
+  for (let index = 1; index < polygon.length; index += 1) {
+    context.lineTo(polygon[index]!.x, polygon[index]!.y);
+  }
+  context.closePath();
+}
 
 export function FogLayer({
   cam,
@@ -64,7 +123,11 @@ export function FogLayer({
   viewers,
   gridSize,
   gridSquareSize,
-  exploredStorageKey = null,
+  remembersExplored = false,
+  exploredMemory,
+  onExploredChange,
+  tremorTargets = NO_TARGETS,
+  regions = NO_REGIONS,
 }: FogLayerProps) {
   // VALUE keys, not object identity. A full room snapshot is re-parsed from
   // JSON on every broadcast, so `compiledScene` and `mapTransform` arrive as
@@ -81,6 +144,13 @@ export function FogLayer({
     compiledScene.width,
     compiledScene.height,
     compiledScene.doors.map((door) => door.state).join(","),
+    // Lights arrive vision-filtered, so the SET can change while the scene's
+    // revision does not — a door opening onto a lit room adds one. Position
+    // and reach are here too, because a carried light keeps its id and moves.
+    compiledScene.lights
+      .map((light) => `${light.id}@${light.x},${light.y},${light.radius}`)
+      .join(","),
+    compiledScene.ambient ?? "",
   ].join("|");
   const transformKey = mapTransform
     ? `${mapTransform.x},${mapTransform.y},${mapTransform.scaleX},${mapTransform.scaleY},${mapTransform.rotation}`
@@ -89,25 +159,48 @@ export function FogLayer({
   // radius returns the PREVIOUS polygons and the fog simply never repaints —
   // the client twin of the server's visionSignature, and a silent one.
   const viewersKey = viewers
-    .map((viewer) => `${viewer.x},${viewer.y},${viewer.radiusFeet ?? ""}`)
+    .map(
+      (viewer) =>
+        `${viewer.x},${viewer.y},${viewer.radiusFeet ?? ""},${senseProfileKey(viewer.senses)}`,
+    )
     .join(";");
+  const targetsKey = tremorTargets.map((point) => `${point.x},${point.y}`).join(";");
 
-  const polygons = useMemo(() => {
+  const visions = useMemo(() => {
     const segments = getVisionBlockingSegments(compiledScene);
     const bounds = { width: compiledScene.width, height: compiledScene.height };
+    const lighting = computeSceneLighting(compiledScene, segments);
     return viewers.map((viewer) =>
-      computeViewerVisionPolygon({
-        origin: viewer,
-        radiusFeet: viewer.radiusFeet,
-        segments,
-        bounds,
-        gridSize,
-        gridSquareSize,
-        mapTransform,
-      }),
+      computeLitViewerVision(
+        {
+          origin: viewer,
+          radiusFeet: viewer.radiusFeet,
+          segments,
+          bounds,
+          gridSize,
+          gridSquareSize,
+          mapTransform,
+        },
+        lighting,
+        viewer.senses,
+      ),
     );
     // The three string keys stand in for the object/array identities above.
   }, [sceneKey, transformKey, viewersKey, gridSize, gridSquareSize]);
+  const polygons = useMemo(() => visions.map((vision) => vision.sight), [visions]);
+  // What the explored mask remembers: sight plus the wall-bounded senses. A
+  // room crossed by darkvision has been seen; one felt by tremorsense has not.
+  const exploredPolygons = useMemo(
+    () => visions.flatMap((vision) => [vision.sight, ...vision.sensed.map((area) => area.polygon)]),
+    [visions],
+  );
+  const litRegions = useMemo(
+    () =>
+      visions.flatMap((vision) =>
+        vision.lineOfSight ? [{ clip: vision.lineOfSight, areas: vision.lit }] : [],
+      ),
+    [visions],
+  );
 
   // Memoized with the polygons, not rebuilt per render: `cam` is a fresh
   // object on every wheel tick and pan frame, so without this the flatMap
@@ -129,11 +222,83 @@ export function FogLayer({
     [polygons],
   );
 
+  // Each viewer's lit areas, clipped to that viewer's own line of sight: the
+  // light reaches further than the viewer can see, and only the overlap counts.
+  const litHoles = useMemo(
+    () =>
+      litRegions.map((region, index) => {
+        const clip = region.clip;
+        return (
+          <Group key={`lit-${index}`} clipFunc={(context) => tracePolygon(context, clip)}>
+            {region.areas.map((area, areaIndex) =>
+              area.polygon.length >= 3 ? (
+                <Line
+                  key={`${area.lightId}-${area.level}-${areaIndex}`}
+                  points={area.polygon.flatMap((vertex) => [vertex.x, vertex.y])}
+                  closed
+                  fill="#000000"
+                  opacity={area.level === "bright" ? 1 : DIM_LIGHT_LIFT}
+                  globalCompositeOperation="destination-out"
+                />
+              ) : null,
+            )}
+          </Group>
+        );
+      }),
+    [litRegions],
+  );
+
+  const senseHoles = useMemo(
+    () =>
+      visions.flatMap((vision, index) =>
+        vision.sensed.map((area) => (
+          <Line
+            key={`sense-${index}-${area.kind}`}
+            points={area.polygon.flatMap((vertex) => [vertex.x, vertex.y])}
+            closed
+            fill="#000000"
+            opacity={area.level === "bright" ? 1 : DIM_LIGHT_LIFT}
+            globalCompositeOperation="destination-out"
+          />
+        )),
+      ),
+    [visions],
+  );
+
+  // A token felt by tremorsense but not seen: a token-sized dim hole, so the
+  // token shows through without showing the room around it.
+  const tremorHoles = useMemo(() => {
+    if (!visions.some((vision) => vision.tremor)) return [];
+    const scale = Math.abs(mapTransform?.scaleX ?? 1) || 1;
+    return tremorTargets.flatMap((world, index) => {
+      const doc = mapTransform ? inverseTransformScenePoint(mapTransform, world) : world;
+      const felt = visions.some(
+        (vision) => vision.tremor !== null && pointInPolygon(doc, vision.tremor),
+      );
+      if (!felt || visions.some((vision) => isPointLitVisible(vision, doc))) return [];
+      return [
+        <Circle
+          key={`tremor-${index}`}
+          x={doc.x}
+          y={doc.y}
+          radius={gridSize / 2 / scale}
+          fill="#000000"
+          opacity={DIM_LIGHT_LIFT}
+          globalCompositeOperation="destination-out"
+        />,
+      ];
+    });
+    // targetsKey and transformKey stand in for the array/object identities.
+  }, [visions, targetsKey, transformKey, gridSize]);
+
   const explored = useExploredFog({
-    storageKey: exploredStorageKey,
+    sceneId: remembersExplored ? compiledScene.sourceDocumentId : null,
     sceneWidth: compiledScene.width,
     sceneHeight: compiledScene.height,
-    polygons,
+    polygons: exploredPolygons,
+    litRegions,
+    memory: exploredMemory,
+    onSave: onExploredChange,
   });
 
   const { x = 0, y = 0, scaleX = 1, scaleY = 1, rotation = 0 } = mapTransform ?? {};
@@ -165,7 +330,11 @@ export function FogLayer({
               globalCompositeOperation="destination-out"
             />
           )}
+          {litHoles}
+          {senseHoles}
+          {tremorHoles}
           {holes}
+          <FogRegionShapes regions={regions} paint={REGION_PAINT} />
         </Group>
       </Group>
     </Layer>
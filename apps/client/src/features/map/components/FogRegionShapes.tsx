@@ -0,0 +1,93 @@
+// ============================================================================
+// FOG REGION SHAPES
+// ============================================================================
+// Konva nodes for the DM's painted reveal/conceal regions (shared
+// fogRegions.ts), in map-document space. Two callers draw the same stack with
+// different paint: FogLayer composites it into the players' fog (reveal
+// erases, conceal re-fogs), and FogBrushLayer tints it for the DM, who sees
+// through fog and would otherwise paint blind.
+//
+// Drawn bottom first, so the later region lands on top — the same "last one
+// wins" rule `manualFogAt` applies on the server.
+
+import { memo } from "react";
+import { Circle, Line } from "react-konva";
+import {
+  fogRegionsKey,
+  type FogRegion,
+  type FogRegionDraft,
+  type FogRegionMode,
+} from "@herobyte/shared";
+
+export interface FogRegionPaint {
+  color: string;
+  opacity: number;
+  /** Punch the shape out of what is under it instead of painting over it. */
+  erase?: boolean;
+}
+
+interface FogRegionShapeProps {
+  region: FogRegionDraft;
+  paint: FogRegionPaint;
+}
+
+/** One region: a filled outline, or a round-capped stroke of its brush width. */
+export function FogRegionShape({ region, paint }: FogRegionShapeProps) {
+  const common = {
+    opacity: paint.opacity,
+    globalCompositeOperation: paint.erase ? "destination-out" : "source-over",
+    listening: false,
+  } as const;
+  if (region.shape === "polygon") {
+    return (
+      <Line
+        points={region.points.flatMap((point) => [point.x, point.y])}
+        closed
+        fill={paint.color}
+        {...common}
+      />
+    );
+  }
+  const radius = region.radius ?? 0;
+  // Konva draws nothing for a one-point line, and a single click is a dab.
+  if (region.points.length === 1) {
+    const [point] = region.points;
+    return <Circle x={point!.x} y={point!.y} radius={radius} fill={paint.color} {...common} />;
+  }
+  return (
+    <Line
+      points={region.points.flatMap((point) => [point.x, point.y])}
+      stroke={paint.color}
+      strokeWidth={radius * 2}
+      lineCap="round"
+      lineJoin="round"
+      {...common}
+    />
+  );
+}
+
+interface FogRegionShapesProps {
+  regions: FogRegion[];
+  paint: Record<FogRegionMode, FogRegionPaint>;
+}
+
+function FogRegionShapesImpl({ regions, paint }: FogRegionShapesProps) {
+  return (
+    <>
+      {regions.map((region) => (
+        <FogRegionShape key={region.id} region={region} paint={paint[region.mode]} />
+      ))}
+    </>
+  );
+}
+
+/**
+ * The whole stack. Memoized on the region ids: a snapshot re-parses the list
+ * on every broadcast, but regions never change in place, so the same ids are
+ * the same picture.
+ */
+export const FogRegionShapes = memo(
+  FogRegionShapesImpl,
+  (before, after) =>
+    before.paint === after.paint && fogRegionsKey(before.regions) === fogRegionsKey(after.regions),
+);
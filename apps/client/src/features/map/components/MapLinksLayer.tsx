@@ -0,0 +1,137 @@
+// ============================================================================
+// MAP LINKS LAYER COMPONENT
+// ============================================================================
+// Outlines the compiled scene's map links (stairs, ladders, portals, map
+// edges) and, when the selected tokens all stand on one, offers to send them
+// through it. Same nested camera + map-transform groups as DoorsLayer.
+//
+// A player's snapshot only carries the links they may use (compiledSceneView),
+// so whatever arrives here is fair to draw. "Standing on it" is asked through
+// the shared mapLinksUnder, the same question the server asks again before
+// moving anything.
+
+import { Group, Rect, Text } from "react-konva";
+import type Konva from "konva";
+import {
+  mapLinksUnder,
+  type CompiledMapLink,
+  type CompiledScene,
+  type SceneObjectTransform,
+  type Token,
+} from "@herobyte/shared";
+import type { Camera } from "../types";
+
+interface MapLinksLayerProps {
+  cam: Camera;
+  scene: CompiledScene;
+  mapTransform?: SceneObjectTransform;
+  gridSize: number;
+  /** Tokens the viewer has selected AND may move: their own, or any for the DM. */
+  selectedTokens: Token[];
+  /** Player lens off: DM-only links are drawn too, dimmer. */
+  isDM: boolean;
+  onUseLink: (linkId: string, tokenIds: string[]) => void;
+}
+
+const LINK_COLOR = "#7ce0d3";
+const BUTTON_FILL = "#2b2116";
+
+export function MapLinksLayer({
+  cam,
+  scene,
+  mapTransform,
+  gridSize,
+  selectedTokens,
+  isDM,
+  onUseLink,
+}: MapLinksLayerProps) {
+  const links = (scene.links ?? []).filter((link) => isDM || link.playersMayUse);
+  if (!links.length) return null;
+
+  const offered = new Set(
+    mapLinksUnder(scene, selectedTokens, gridSize, mapTransform).map((link) => link.id),
+  );
+  const { x = 0, y = 0, scaleX = 1, scaleY = 1, rotation = 0 } = mapTransform ?? {};
+  // Screen-constant stroke and type, whatever the zoom and map scale.
+  const pixel = 1 / (cam.scale * Math.abs(scaleX || 1));
+
+  return (
+    <Group x={cam.x} y={cam.y} scaleX={cam.scale} scaleY={cam.scale}>
+      <Group x={x} y={y} scaleX={scaleX} scaleY={scaleY} rotation={rotation}>
+        {links.map((link) => (
+          <LinkBox
+            key={link.id}
+            link={link}
+            pixel={pixel}
+            offered={offered.has(link.id)}
+            onUse={() =>
+              onUseLink(
+                link.id,
+                selectedTokens.map((token) => token.id),
+              )
+            }
+          />
+        ))}
+      </Group>
+    </Group>
+  );
+}
+
+interface LinkBoxProps {
+  link: CompiledMapLink;
+  pixel: number;
+  offered: boolean;
+  onUse: () => void;
+}
+
+function LinkBox({ link, pixel, offered, onUse }: LinkBoxProps) {
+  const handleUse = (event: Konva.KonvaEventObject<MouseEvent | Event>) => {
+    event.cancelBubble = true;
+    onUse();
+  };
+  const fontSize = 12 * pixel;
+  const label = offered ? `Take the ${link.label} ▸` : link.label;
+  const buttonWidth = (label.length * 7 + 16) * pixel;
+
+  return (
+    <Group>
+      <Rect
+        x={link.x}
+        y={link.y}
+        width={link.width}
+        height={link.height}
+        stroke={LINK_COLOR}
+        strokeWidth={2 * pixel}
+        dash={[6 * pixel, 4 * pixel]}
+        opacity={link.playersMayUse ? 0.8 : 0.45}
+        listening={false}
+      />
+      <Group
+        name={`map-link:${link.id}`}
+        x={link.x + link.width / 2 - buttonWidth / 2}
+        y={link.y - fontSize * 2}
+        listening={offered}
+        onClick={handleUse}
+        onTap={handleUse}
+      >
+        <Rect
+          width={buttonWidth}
+          height={fontSize * 1.7}
+          fill={BUTTON_FILL}
+          stroke={LINK_COLOR}
+          strokeWidth={pixel}
+          cornerRadius={3 * pixel}
+          opacity={offered ? 0.95 : 0.6}
+        />
+        <Text
+          text={label}
+          width={buttonWidth}
+          y={fontSize * 0.35}
+          align="center"
+          fontSize={fontSize}
+          fill={LINK_COLOR}
+        />
+      </Group>
+    </Group>
+  );
+}
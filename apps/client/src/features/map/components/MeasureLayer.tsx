@@ -9,7 +9,9 @@
 // the number on this screen, the number on everyone else's, and any future
 // server-side range check come from one implementation (arc defect D11: this
 // file used to do its own Euclidean `Math.sqrt`, so a 2-square diagonal read
-// "2.8 Squares (14 ft)" where 5e says 10).
+// "2.8 Squares (14 ft)" where 5e says 10). Difficult terrain is counted the
+// same way, so a line across a stream reads "(25 ft, difficult)" here and on
+// every other screen.
 
 import { Fragment } from "react";
 import { Group, Line, Circle, Text } from "react-konva";
@@ -18,6 +20,7 @@ import {
   measureGridDistance,
   type DiagonalRule,
   type MeasureEvent,
+  type TerrainMovementLookup,
 } from "@herobyte/shared";
 import type { Camera } from "../types";
 
@@ -30,6 +33,8 @@ interface MeasureLayerProps {
   diagonalRule?: DiagonalRule; // The room's rule (default: 5e)
   /** Other people's live measurements. The caller drops the viewer's own echo. */
   remoteMeasurements?: MeasureEvent[];
+  /** The scene's ground (createTerrainMovementLookup); absent is all open floor. */
+  terrain?: TerrainMovementLookup;
 }
 
 /** Your line. Everyone else's is dimmer so it never hides yours. */
@@ -49,6 +54,7 @@ interface MeasureLineProps {
   gridSize: number;
   gridSquareSize: number;
   diagonalRule: DiagonalRule;
+  terrain?: TerrainMovementLookup;
   scale: number;
   color: string;
   /** Prefixed to the readout for someone else's line. */
@@ -61,6 +67,7 @@ function MeasureLine({
   gridSize,
   gridSquareSize,
   diagonalRule,
+  terrain,
   scale,
   color,
   who,
@@ -71,6 +78,7 @@ function MeasureLine({
     gridSize,
     gridSquareSize,
     rule: diagonalRule,
+    terrain,
   });
   // Draw between the endpoints the rule actually counted: under a grid rule
   // those are cell centres, so the line and the number describe the same two
@@ -115,6 +123,7 @@ export function MeasureLayer({
   gridSquareSize = 5,
   diagonalRule = "5e",
   remoteMeasurements = [],
+  terrain,
 }: MeasureLayerProps) {
   // A remote entry without both endpoints IS the "I stopped measuring" signal;
   // it exists so the sender's line clears, and there is nothing to draw for it.
@@ -122,7 +131,7 @@ export function MeasureLayer({
   const own = measureStart && measureEnd;
   if (!own && remote.length === 0) return null;
 
-  const shared = { gridSize, gridSquareSize, diagonalRule, scale: cam.scale };
+  const shared = { gridSize, gridSquareSize, diagonalRule, terrain, scale: cam.scale };
 
   return (
     <Group x={cam.x} y={cam.y} scaleX={cam.scale} scaleY={cam.scale}>
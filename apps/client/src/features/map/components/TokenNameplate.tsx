@@ -13,9 +13,13 @@
 // as at 1× on a desktop. Font floor 11px matches the CSS mobile floor in
 // herobyte.css. Colors are literal hex: Konva cannot resolve CSS variables
 // (the var() strings elsewhere in TokensLayer silently fall back).
+//
+// A defeated combatant (shared combatantStatus.ts) also gets its mark drawn
+// over the token itself — 💤, 💀 or 🏃 on a dimmed disc — so a downed goblin
+// reads as down at a glance without deleting it from the board.
 
 import { Group, Rect, Text, Circle } from "react-konva";
-import type { HpBadge } from "@herobyte/shared";
+import { CHARACTER_STATUS_ICONS, type CharacterStatus, type HpBadge } from "@herobyte/shared";
 
 /** What one token's plate shows. Built per token in MapBoard (platesByTokenId). */
 export interface TokenPlateData {
@@ -23,6 +27,7 @@ export interface TokenPlateData {
   hp?: number;
   maxHp?: number;
   hpBadge?: HpBadge;
+  status?: CharacterStatus;
 }
 
 interface TokenNameplateProps {
@@ -69,6 +74,22 @@ export function TokenNameplate({ plate, x, y, tokenSize, camScale }: TokenNamepl
 
   return (
     <Group x={x} y={y} scaleX={1 / camScale} scaleY={1 / camScale} listening={false}>
+      {plate.status && plate.status !== "active" && (
+        <>
+          <Circle x={0} y={0} radius={tokenHalfScreen} fill="#0b0d1f" opacity={0.55} />
+          <Text
+            x={-tokenHalfScreen}
+            y={-tokenHalfScreen}
+            width={tokenHalfScreen * 2}
+            height={tokenHalfScreen * 2}
+            text={CHARACTER_STATUS_ICONS[plate.status]}
+            align="center"
+            verticalAlign="middle"
+            fontSize={Math.max(FONT_SIZE, tokenHalfScreen)}
+            name="token-defeated-marker"
+          />
+        </>
+      )}
       {hasBar && (
         <>
           <Rect
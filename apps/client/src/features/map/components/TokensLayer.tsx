@@ -15,6 +15,7 @@ import type { StatusOption } from "../../players/constants/statusOptions";
 import { TokenHpFeedback } from "../../juice/TokenHpFeedback";
 import { TokenNameplate, type TokenPlateData } from "./TokenNameplate";
 import { decorativeMotionDisabled, motionDisabled, useSfx } from "../../juice";
+import { useDragWaypoints } from "./useDragWaypoints";
 
 interface TokenSpriteProps {
   object: SceneObject & { type: "token" };
@@ -384,6 +385,7 @@ export const TokensLayer = memo(function TokensLayer({
   const [, forceRerender] = useState(0);
   const [draggingId, setDraggingId] = useState<string | null>(null);
   const { play } = useSfx();
+  const waypoints = useDragWaypoints(onDragPreview);
 
   const tokens = sceneObjects.filter((object): object is SceneObject & { type: "token" } => {
     return object.type === "token";
@@ -497,7 +499,7 @@ export const TokensLayer = memo(function TokensLayer({
       }
       localOverrides.current = { ...localOverrides.current, ...overrides };
       forceRerender((value) => value + 1);
-      onDragPreview?.(updates);
+      onDragPreview?.(waypoints.routed(updates));
     } catch (error) {
       console.warn("[TokensLayer] Drag move error:", error);
     }
@@ -512,6 +514,8 @@ export const TokensLayer = memo(function TokensLayer({
         y: gridPosition.y * gridSize + gridSize / 2,
       });
 
+      // The drop preview goes out route-less: that is what clears the path.
+      waypoints.end();
       const { overrides, updates } = computeDragPreviewPayload(sceneId, gridPosition);
       if (updates.length === 0) {
         setDraggingId(null);
@@ -531,6 +535,7 @@ export const TokensLayer = memo(function TokensLayer({
       multiDragStartRef.current = {};
     } catch (error) {
       console.warn("[TokensLayer] Drag error:", error);
+      waypoints.end();
       setDraggingId(null);
       multiDragStartRef.current = {};
     }
@@ -634,6 +639,7 @@ export const TokensLayer = memo(function TokensLayer({
     }
 
     multiDragStartRef.current = starts;
+    waypoints.begin(sceneId, starts[sceneId]);
   };
 
   useEffect(() => {
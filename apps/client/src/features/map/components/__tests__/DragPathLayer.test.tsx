@@ -0,0 +1,133 @@
+/**
+ * Component tests for DragPathLayer
+ *
+ * The readout and the colour are the feature: a drag says how far the walk is
+ * in the measure overlay's words, and turns red when the walk is over the
+ * token's speed or has no way through. The routing itself is planDragRoute's
+ * and is pinned in the shared tests; these pin what the layer makes of it.
+ *
+ * Source: apps/client/src/features/map/components/DragPathLayer.tsx
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import type { PropsWithChildren } from "react";
+import type { CompiledScene, DragPreviewUpdate, Token } from "@herobyte/shared";
+import { DragPathLayer } from "../DragPathLayer";
+import type { Camera } from "../../types";
+
+vi.mock("react-konva", () => ({
+  Group: ({ children }: PropsWithChildren) => <div data-testid="konva-group">{children}</div>,
+  Line: (props: Record<string, unknown>) => (
+    <div
+      data-testid="konva-line"
+      data-points={JSON.stringify(props.points)}
+      data-stroke={props.stroke}
+    />
+  ),
+  Circle: (props: Record<string, unknown>) => (
+    <div data-testid="konva-circle" data-x={props.x} data-y={props.y} />
+  ),
+  Text: (props: Record<string, unknown>) => (
+    <div data-testid="konva-text" data-fill={props.fill}>
+      {String(props.text)}
+    </div>
+  ),
+}));
+
+const CAM: Camera = { x: 0, y: 0, scale: 1 };
+const GRID = 50;
+const PATH = "#ffe066";
+const WARNING = "#ff5a4f";
+
+function token(overrides: Partial<Token> = {}): Token {
+  return { id: "t1", owner: "me", x: 0, y: 0, color: "red", ...overrides };
+}
+
+function drag(
+  to: { x: number; y: number },
+  waypoints: { x: number; y: number }[] = [],
+): DragPreviewUpdate {
+  return { id: "token:t1", ...to, route: { from: { x: 0, y: 0 }, waypoints } };
+}
+
+function readout(): string {
+  return screen.getByTestId("konva-text").textContent ?? "";
+}
+
+describe("DragPathLayer", () => {
+  it("renders nothing while no drag carries a route", () => {
+    const { container } = render(
+      <DragPathLayer
+        cam={CAM}
+        routes={[{ id: "token:t1", x: 2, y: 0 }]}
+        tokens={[token()]}
+        gridSize={GRID}
+      />,
+    );
+    expect(container.innerHTML).toBe("");
+  });
+
+  it("draws the walk through a pin and reads its length", () => {
+    render(
+      <DragPathLayer
+        cam={CAM}
+        routes={[drag({ x: 3, y: 3 }, [{ x: 0, y: 3 }])]}
+        tokens={[token()]}
+        gridSize={GRID}
+      />,
+    );
+
+    expect(readout()).toBe("6 Squares (30 ft)");
+    const points = JSON.parse(
+      screen.getByTestId("konva-line").getAttribute("data-points")!,
+    ) as number[];
+    expect(points.slice(0, 2)).toEqual([25, 25]);
+    expect(points.slice(-2)).toEqual([175, 175]);
+    expect(screen.getAllByTestId("konva-circle")).toHaveLength(1);
+    expect(screen.getByTestId("konva-line")).toHaveAttribute("data-stroke", PATH);
+  });
+
+  it("warns when the walk is longer than the token's speed", () => {
+    render(
+      <DragPathLayer
+        cam={CAM}
+        routes={[drag({ x: 5, y: 0 })]}
+        tokens={[token({ speed: 20 })]}
+        gridSize={GRID}
+      />,
+    );
+
+    expect(readout()).toBe("5 Squares (25 ft) — over 20 ft speed");
+    expect(screen.getByTestId("konva-line")).toHaveAttribute("data-stroke", WARNING);
+  });
+
+  it("warns, and draws straight, when a wall leaves no way through", () => {
+    // A wall sealing the whole of row 0 off from row 2, with no way round.
+    const scene: CompiledScene = {
+      schemaVersion: 1,
+      sourceDocumentId: "map",
+      sourceRevision: 1,
+      compiledAt: 1,
+      width: 200,
+      height: 200,
+      walls: [
+        { id: "w", x1: -500, y1: 50, x2: 700, y2: 50, blocksMovement: true, blocksVision: true },
+      ],
+      doors: [],
+      lights: [],
+    };
+    render(
+      <DragPathLayer
+        cam={CAM}
+        routes={[drag({ x: 0, y: 2 })]}
+        tokens={[token()]}
+        gridSize={GRID}
+        scene={scene}
+      />,
+    );
+
+    expect(readout()).toBe("2 Squares (10 ft) — no way through");
+    expect(screen.getByTestId("konva-text")).toHaveAttribute("data-fill", WARNING);
+  });
+});
@@ -8,7 +8,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render } from "@testing-library/react";
 import type { ReactNode } from "react";
 import { FogLayer } from "../FogLayer";
-import type { CompiledScene } from "@herobyte/shared";
+import type { CompiledScene, FogRegion } from "@herobyte/shared";
 import type { FogViewer } from "../../playerLens";
 import type { Camera } from "../../types";
 
@@ -396,7 +396,7 @@ describe("FogLayer", () => {
           cam={cam}
           compiledScene={scene()}
           viewers={[{ x: 50, y: 150 }]}
-          exploredStorageKey="herobyte:fog-explored:v1:t:uid:doc"
+          remembersExplored
           {...GRID}
         />,
       );
@@ -417,7 +417,7 @@ describe("FogLayer", () => {
           cam={cam}
           compiledScene={scene()}
           viewers={[{ x: 50, y: 150 }]}
-          exploredStorageKey="herobyte:fog-explored:v1:t:uid:doc"
+          remembersExplored
           {...GRID}
         />,
       );
@@ -427,4 +427,71 @@ describe("FogLayer", () => {
       expect(imageProps[0]!.opacity).toBeLessThan(1);
     });
   });
+
+  // ==========================================================================
+  // DM-painted fog regions
+  // ==========================================================================
+  describe("painted regions", () => {
+    function region(id: string, mode: FogRegion["mode"], x: number): FogRegion {
+      return {
+        id,
+        sceneId: "map",
+        mode,
+        shape: "polygon",
+        points: [
+          { x, y: 0 },
+          { x: x + 50, y: 0 },
+          { x: x + 50, y: 50 },
+        ],
+      };
+    }
+
+    // Last, so a reveal erases whatever fog the bands above left and a
+    // conceal lays it back over whatever they lifted.
+    it("draws the stack after the sightlines, reveal erasing and conceal re-fogging", () => {
+      render(
+        <FogLayer
+          cam={cam}
+          compiledScene={scene()}
+          viewers={[{ x: 50, y: 150 }]}
+          regions={[region("a", "reveal", 250), region("b", "conceal", 20)]}
+          {...GRID}
+        />,
+      );
+
+      expect(lineProps).toHaveLength(3);
+      expect(lineProps[1]).toMatchObject({ globalCompositeOperation: "destination-out" });
+      expect(lineProps[1]!.points).toEqual([250, 0, 300, 0, 300, 50]);
+      expect(lineProps[2]).toMatchObject({
+        globalCompositeOperation: "source-over",
+        fill: "#0b0b16",
+      });
+    });
+
+    it("does not redraw the stack when the same regions arrive re-parsed", () => {
+      const { rerender } = render(
+        <FogLayer
+          cam={cam}
+          compiledScene={scene()}
+          viewers={[]}
+          regions={[region("a", "reveal", 250)]}
+          {...GRID}
+        />,
+      );
+      expect(lineProps).toHaveLength(1);
+
+      lineProps.length = 0;
+      rerender(
+        <FogLayer
+          cam={cam}
+          compiledScene={scene()}
+          viewers={[]}
+          regions={[region("a", "reveal", 250)]}
+          {...GRID}
+        />,
+      );
+
+      expect(lineProps).toHaveLength(0);
+    });
+  });
 });
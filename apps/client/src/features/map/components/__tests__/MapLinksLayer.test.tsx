@@ -0,0 +1,139 @@
+// ============================================================================
+// MAPLINKSLAYER COMPONENT TESTS
+// ============================================================================
+// Verifies links are outlined for whoever may see them, and that the "Take
+// the …" button appears — and sends the selection — only when every selected
+// token stands on the link.
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { MapLinksLayer } from "../MapLinksLayer";
+import type { CompiledMapLink, CompiledScene, Token } from "@herobyte/shared";
+import type { Camera } from "../../types";
+
+type MockProps = Record<string, unknown> & { children?: ReactNode };
+
+const groupProps: MockProps[] = [];
+const textProps: MockProps[] = [];
+
+vi.mock("react-konva", () => ({
+  Group: ({ children, ...props }: MockProps) => {
+    groupProps.push(props);
+    return <div data-testid="konva-group">{children}</div>;
+  },
+  Rect: () => <div data-testid="konva-rect" />,
+  Text: (props: MockProps) => {
+    textProps.push(props);
+    return <div data-testid="konva-text" />;
+  },
+}));
+
+const cam: Camera = { x: 0, y: 0, scale: 1 };
+
+// One square at cell (2,4) on 50px squares.
+function link(overrides: Partial<CompiledMapLink> = {}): CompiledMapLink {
+  return {
+    id: "stairs",
+    kind: "stairs",
+    label: "Stairs down",
+    x: 100,
+    y: 200,
+    width: 50,
+    height: 50,
+    playersMayUse: true,
+    ...overrides,
+  };
+}
+
+function scene(links: CompiledMapLink[]): CompiledScene {
+  return {
+    schemaVersion: 1,
+    sourceDocumentId: "town",
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 1000,
+    height: 1000,
+    walls: [],
+    doors: [],
+    lights: [],
+    links,
+  };
+}
+
+function token(id: string, x: number, y: number): Token {
+  return { id, owner: "p1", x, y, color: "red" };
+}
+
+function button(linkId = "stairs"): MockProps | undefined {
+  return groupProps.find((props) => props.name === `map-link:${linkId}`);
+}
+
+describe("MapLinksLayer", () => {
+  beforeEach(() => {
+    groupProps.length = 0;
+    textProps.length = 0;
+  });
+
+  it("offers the link when the whole selection stands on it, and sends the selection", () => {
+    const onUseLink = vi.fn();
+    render(
+      <MapLinksLayer
+        cam={cam}
+        scene={scene([link()])}
+        gridSize={50}
+        selectedTokens={[token("t1", 2, 4), token("t2", 2, 5)]}
+        isDM={false}
+        onUseLink={onUseLink}
+      />,
+    );
+
+    expect(textProps.map((props) => props.text)).toEqual(["Take the Stairs down ▸"]);
+    expect(button()?.listening).toBe(true);
+    (button()!.onClick as (event: unknown) => void)({ cancelBubble: false });
+    expect(onUseLink).toHaveBeenCalledWith("stairs", ["t1", "t2"]);
+  });
+
+  it("only labels the link when someone selected is elsewhere", () => {
+    render(
+      <MapLinksLayer
+        cam={cam}
+        scene={scene([link()])}
+        gridSize={50}
+        selectedTokens={[token("t1", 2, 4), token("t2", 9, 9)]}
+        isDM={false}
+        onUseLink={vi.fn()}
+      />,
+    );
+
+    expect(textProps.map((props) => props.text)).toEqual(["Stairs down"]);
+    expect(button()?.listening).toBe(false);
+  });
+
+  it("draws DM-only links for the DM view alone", () => {
+    const links = [link(), link({ id: "portal", label: "Portal", playersMayUse: false })];
+    const { rerender } = render(
+      <MapLinksLayer
+        cam={cam}
+        scene={scene(links)}
+        gridSize={50}
+        selectedTokens={[]}
+        isDM={false}
+        onUseLink={vi.fn()}
+      />,
+    );
+    expect(button("portal")).toBeUndefined();
+
+    rerender(
+      <MapLinksLayer
+        cam={cam}
+        scene={scene(links)}
+        gridSize={50}
+        selectedTokens={[]}
+        isDM
+        onUseLink={vi.fn()}
+      />,
+    );
+    expect(button("portal")).toBeDefined();
+  });
+});
@@ -117,6 +117,22 @@ describe("MeasureLayer", () => {
     });
   });
 
+  it("charges difficult ground on the line and says so", () => {
+    // A stream down column 2.
+    const stream = (c: { x: number; y: number }) =>
+      c.x === 2 ? ("difficult" as const) : undefined;
+    render(
+      <MeasureLayer
+        cam={CAM}
+        measureStart={cell(0, 0)}
+        measureEnd={cell(4, 0)}
+        gridSize={GRID}
+        terrain={stream}
+      />,
+    );
+    expect(readouts()).toEqual(["5 Squares (25 ft, difficult)"]);
+  });
+
   it("draws the line between the cells the rule actually counted", () => {
     // Dragged from inside cell (0,0) to inside cell (2,2); the drawn line
     // snaps to those cells' centres so it describes the number shown.
@@ -96,4 +96,13 @@ describe("TokenNameplate", () => {
     expect(captured.Circle).toHaveLength(0);
     expect(captured.Text[0]!.text).toBe("Goblin 3");
   });
+
+  it("marks a defeated combatant over the token, and only a defeated one", () => {
+    renderPlate({ name: "Goblin 3", status: "dead" });
+    const marker = captured.Text.find((text) => text.name === "token-defeated-marker");
+    expect(marker?.text).toBe("💀");
+
+    renderPlate({ name: "Goblin 3", status: "active" });
+    expect(captured.Text.map((text) => text.name)).toEqual(["token-nameplate"]);
+  });
 });
@@ -998,6 +998,45 @@ describe("TokensLayer", () => {
       ]);
     });
 
+    it("carries the drag's route, pins a cell on Shift, and drops it on release", () => {
+      const onDragPreview = vi.fn();
+      const token = createTokenObject("token:1", "test-user", {
+        transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0 },
+      });
+      const props = createDefaultProps({
+        sceneObjects: [token],
+        selectedObjectIds: ["token:1"],
+        onDragPreview,
+        snapToGrid: true,
+        gridSize: 50,
+        uid: "test-user",
+      });
+
+      const { container } = render(<TokensLayer {...props} />);
+      const rectProps = getProps(container.querySelector('[data-testid="konva-rect"]'));
+      const at = (x: number, y: number) => ({ target: { position: () => ({ x, y }) } });
+
+      invokeHandler(rectProps.onDragStart, {
+        evt: { shiftKey: false, ctrlKey: false, metaKey: false },
+      });
+      invokeHandler(rectProps.onDragMove, at(25, 175));
+      expect(onDragPreview).toHaveBeenLastCalledWith([
+        { id: "token:1", x: 0, y: 3, route: { from: { x: 0, y: 0 }, waypoints: [] } },
+      ]);
+
+      // The pin re-sends at once, without waiting for the pointer to move.
+      window.dispatchEvent(new KeyboardEvent("keydown", { key: "Shift" }));
+      expect(onDragPreview).toHaveBeenLastCalledWith([
+        { id: "token:1", x: 0, y: 3, route: { from: { x: 0, y: 0 }, waypoints: [{ x: 0, y: 3 }] } },
+      ]);
+
+      invokeHandler(rectProps.onDragMove, at(175, 175));
+      expect(onDragPreview.mock.lastCall?.[0][0].route.waypoints).toEqual([{ x: 0, y: 3 }]);
+
+      invokeHandler(rectProps.onDragEnd, at(175, 175));
+      expect(onDragPreview).toHaveBeenLastCalledWith([{ id: "token:1", x: 3, y: 3 }]);
+    });
+
     it("handles multi-token drag", () => {
       const onTransformToken = vi.fn();
       const token1 = createTokenObject("token:1", "test-user", {
@@ -0,0 +1,70 @@
+// Carried lights → the live scene the fog and glow read. The server sends
+// carried lights already vision-filtered; these tests pin the merge: a held
+// token's light follows the token, a light the server sent for a token this
+// client does not hold is kept, and a torchless table keeps its identity.
+
+import { describe, expect, it } from "vitest";
+import { TOKEN_LIGHT_PRESETS, type CompiledScene, type Token } from "@herobyte/shared";
+import { withCarriedLights } from "../tokenLights";
+
+const SPACE = { gridSize: 50, gridSquareSize: 5 };
+
+const scene = (lights: CompiledScene["lights"] = []): CompiledScene => ({
+  schemaVersion: 1,
+  sourceDocumentId: "map",
+  sourceRevision: 1,
+  compiledAt: 1,
+  width: 400,
+  height: 400,
+  walls: [],
+  doors: [],
+  lights,
+  ambient: 0,
+});
+
+const sconce = {
+  id: "sconce",
+  x: 10,
+  y: 10,
+  radius: 50,
+  color: "#fa0",
+  intensity: 1,
+  castsShadows: true,
+};
+
+const token = (id: string, x: number, y: number, lit = true): Token => ({
+  id,
+  owner: "p1",
+  x,
+  y,
+  color: "red",
+  ...(lit ? { light: TOKEN_LIGHT_PRESETS.torch } : {}),
+});
+
+describe("withCarriedLights", () => {
+  it("returns the scene itself when nobody carries a light", () => {
+    const compiled = scene([sconce]);
+    expect(withCarriedLights(compiled, [token("a", 1, 1, false)], SPACE)).toBe(compiled);
+  });
+
+  it("places a held token's light where the token stands now, not where the server last saw it", () => {
+    const stale = { ...sconce, id: "token:a", x: 75, y: 75, radius: 400 };
+    const lit = withCarriedLights(scene([sconce, stale]), [token("a", 3, 1)], SPACE);
+    expect(lit.lights.map((light) => [light.id, light.x, light.y])).toEqual([
+      ["sconce", 10, 10],
+      ["token:a", 175, 75],
+    ]);
+  });
+
+  it("keeps a light the server sent for a token this client does not hold", () => {
+    const aroundTheCorner = { ...sconce, id: "token:unseen", x: 300, y: 300 };
+    const lit = withCarriedLights(scene([aroundTheCorner]), [], SPACE);
+    expect(lit.lights).toEqual([aroundTheCorner]);
+  });
+
+  it("drops a held token's stale light once it has been put out", () => {
+    const stale = { ...sconce, id: "token:a" };
+    const lit = withCarriedLights(scene([stale]), [token("a", 1, 1, false)], SPACE);
+    expect(lit.lights).toEqual([]);
+  });
+});
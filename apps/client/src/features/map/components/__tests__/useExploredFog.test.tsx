@@ -5,19 +5,33 @@
 
 import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
 import { renderHook, act } from "@testing-library/react";
-import type { ScenePoint } from "@herobyte/shared";
-import { useExploredFog } from "../useExploredFog";
 import {
-  byteLengthFor,
-  exploredFogKey,
-  loadExploredMask,
+  decodeExploredBits,
+  encodeExploredBits,
+  exploredMaskByteLength,
   maskGeometryFor,
-  saveExploredMask,
-} from "../../exploredFogStore";
+  type ExploredFogMask,
+  type ScenePoint,
+} from "@herobyte/shared";
+import { useExploredFog } from "../useExploredFog";
 
 const SCENE = { sceneWidth: 800, sceneHeight: 600 };
 const META = maskGeometryFor(SCENE.sceneWidth, SCENE.sceneHeight);
-const KEY = exploredFogKey("table", "uid-1", "doc-1");
+const SCENE_ID = "doc-1";
+
+/** The server's copy of the memory, with the given mask cells explored. */
+function memory(cells: number[], epoch = 0): ExploredFogMask {
+  const bits = new Uint8Array(exploredMaskByteLength(META));
+  for (const cell of cells) bits[cell >> 3]! |= 1 << (cell & 7);
+  return {
+    uid: "uid-1",
+    sceneId: SCENE_ID,
+    ...SCENE,
+    ...META,
+    epoch,
+    bits: encodeExploredBits(bits),
+  };
+}
 
 interface RecordedFill {
   transform: number[];
@@ -27,7 +41,6 @@ interface RecordedFill {
 let fills: RecordedFill[];
 let clears: number;
 let imageDataAlpha: Uint8ClampedArray;
-let store: Record<string, string>;
 /**
  * ONE context per canvas element, exactly as a browser does. An earlier version
  * handed out a fresh stub per `getContext` call, which made canvas persistence
@@ -87,20 +100,6 @@ describe("useExploredFog", () => {
     fills = [];
     clears = 0;
     imageDataAlpha = new Uint8ClampedArray(0);
-    store = {};
-    Object.defineProperty(globalThis, "localStorage", {
-      value: {
-        getItem: vi.fn((key: string) => store[key] ?? null),
-        setItem: vi.fn((key: string, value: string) => {
-          store[key] = value;
-        }),
-        removeItem: vi.fn((key: string) => {
-          delete store[key];
-        }),
-      },
-      writable: true,
-      configurable: true,
-    });
     vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(function (
       this: HTMLCanvasElement,
     ) {
@@ -126,12 +125,20 @@ describe("useExploredFog", () => {
     { x: 0, y: 80 },
   ];
 
-  function render(polygons: ScenePoint[][], storageKey: string | null = KEY) {
-    return renderHook(
-      (props: { polygons: ScenePoint[][]; storageKey: string | null }) =>
-        useExploredFog({ ...SCENE, ...props }),
-      { initialProps: { polygons, storageKey } },
+  interface Props {
+    polygons: ScenePoint[][];
+    sceneId?: string | null;
+    memory?: ExploredFogMask;
+  }
+
+  function render(polygons: ScenePoint[][], initial: Omit<Props, "polygons"> = {}) {
+    const onSave = vi.fn();
+    const hook = renderHook(
+      ({ sceneId = SCENE_ID, ...props }: Props) =>
+        useExploredFog({ ...SCENE, ...props, sceneId, onSave }),
+      { initialProps: { polygons, ...initial } as Props },
     );
+    return { ...hook, onSave };
   }
 
   it("makes a canvas at MASK resolution, not scene resolution", () => {
@@ -176,7 +183,7 @@ describe("useExploredFog", () => {
     const canvas = result.current.canvas!;
     expect(contexts.get(canvas)!.painted).toHaveLength(1);
 
-    rerender({ polygons: [[...square].map((p) => ({ x: p.x + 300, y: p.y }))], storageKey: KEY });
+    rerender({ polygons: [[...square].map((p) => ({ x: p.x + 300, y: p.y }))] });
 
     // Same canvas element — a rebuilt one would silently discard the memory.
     expect(result.current.canvas).toBe(canvas);
@@ -188,8 +195,8 @@ describe("useExploredFog", () => {
 
   it("never clears the mask", () => {
     const { rerender } = render([square]);
-    rerender({ polygons: [[...square].map((p) => ({ x: p.x + 300, y: p.y }))], storageKey: KEY });
-    rerender({ polygons: [[...square].map((p) => ({ x: p.x + 600, y: p.y }))], storageKey: KEY });
+    rerender({ polygons: [[...square].map((p) => ({ x: p.x + 300, y: p.y }))] });
+    rerender({ polygons: [[...square].map((p) => ({ x: p.x + 600, y: p.y }))] });
 
     expect(clears).toBe(0);
   });
@@ -199,7 +206,7 @@ describe("useExploredFog", () => {
     const first = result.current.revision;
     const firstCanvas = result.current.canvas;
 
-    rerender({ polygons: [[...square].map((p) => ({ x: p.x + 10, y: p.y }))], storageKey: KEY });
+    rerender({ polygons: [[...square].map((p) => ({ x: p.x + 10, y: p.y }))] });
 
     expect(result.current.revision).toBeGreaterThan(first);
     // The canvas ITSELF is stable — only its pixels moved, which is exactly
@@ -208,56 +215,92 @@ describe("useExploredFog", () => {
   });
 
   // Reading the canvas back is a full getImageData; it must not happen per frame.
-  it("debounces the write instead of saving on every update", () => {
-    render([square]);
+  it("debounces the upload instead of sending on every update", () => {
+    const { onSave } = render([square]);
 
-    expect(localStorage.setItem).not.toHaveBeenCalled();
+    expect(onSave).not.toHaveBeenCalled();
 
     act(() => {
       vi.advanceTimersByTime(5000);
     });
 
-    expect(localStorage.setItem).toHaveBeenCalled();
-    expect(loadExploredMask(KEY, { ...META, ...SCENE })).not.toBeNull();
+    expect(onSave).toHaveBeenCalledTimes(1);
+    const upload = onSave.mock.calls[0]![0] as ExploredFogMask;
+    expect(upload).toMatchObject({ sceneId: SCENE_ID, ...SCENE, ...META, epoch: 0 });
+    expect(decodeExploredBits(upload.bits, exploredMaskByteLength(META))![0]).toBe(0xff);
   });
 
   it("flushes on unmount, so closing the tab remembers the corridor", () => {
-    const { unmount } = render([square]);
-    expect(localStorage.setItem).not.toHaveBeenCalled();
+    const { unmount, onSave } = render([square]);
+    expect(onSave).not.toHaveBeenCalled();
 
     unmount();
 
-    expect(loadExploredMask(KEY, { ...META, ...SCENE })).not.toBeNull();
+    expect(onSave).toHaveBeenCalledTimes(1);
   });
 
-  it("restores a stored mask onto a fresh canvas", () => {
-    const bits = new Uint8Array(byteLengthFor(META));
-    bits[0] = 0b0000_0101; // cells 0 and 2
-    saveExploredMask(KEY, { ...META, ...SCENE }, bits);
-
-    render([]);
+  it("restores the server's memory onto a fresh canvas", () => {
+    render([], { memory: memory([0, 2]) });
 
     expect(imageDataAlpha[3]).toBe(255); // cell 0
     expect(imageDataAlpha[7]).toBe(0); // cell 1
     expect(imageDataAlpha[11]).toBe(255); // cell 2
   });
 
-  it("remembers nothing at all when given no key", () => {
-    const { result } = render([square], null);
+  // A snapshot can lag the canvas by an upload: what was explored since must
+  // survive it arriving.
+  it("adds a same-epoch update to what the canvas already holds", () => {
+    const { rerender } = render([square]);
+
+    rerender({ polygons: [square], memory: memory([2]) });
+
+    // The stub reads back a painted canvas as fully explored; kept, not replaced.
+    expect(imageDataAlpha[7]).toBe(255);
+  });
+
+  // The DM reset or revealed it: the canvas takes the server's word, and an
+  // upload built on the old epoch is not sent to undo it.
+  it("replaces the canvas on a new epoch and uploads on that epoch after", () => {
+    const { rerender, onSave } = render([square]);
+
+    rerender({ polygons: [square], memory: memory([2], 1) });
+
+    expect(imageDataAlpha[3]).toBe(0);
+    expect(imageDataAlpha[11]).toBe(255);
+
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+
+    // What the player sees right now is explored again at once, on the new epoch.
+    expect(onSave).toHaveBeenCalledTimes(1);
+    expect(onSave.mock.calls[0]![0]).toMatchObject({ epoch: 1 });
+  });
+
+  it("ignores memory of another scene", () => {
+    render([], { memory: { ...memory([0]), sceneId: "doc-2" } });
+
+    expect(imageDataAlpha).toHaveLength(0);
+  });
+
+  it("remembers nothing at all when given no scene", () => {
+    const { result, onSave } = render([square], { sceneId: null });
 
     expect(result.current.canvas).toBeNull();
     expect(fills).toHaveLength(0);
-    expect(localStorage.setItem).not.toHaveBeenCalled();
+    act(() => {
+      vi.advanceTimersByTime(5000);
+    });
+    expect(onSave).not.toHaveBeenCalled();
   });
 
-  // A different table, player or map is a different memory — and starting from
-  // the previous one would be the cross-table bleed the key scheme exists to
-  // prevent.
-  it("starts a fresh canvas when the key changes", () => {
+  // A different scene is a different memory, and starting from the previous
+  // one would paint one map's corridors over another's.
+  it("starts a fresh canvas when the scene changes", () => {
     const { result, rerender } = render([square]);
     const first = result.current.canvas;
 
-    rerender({ polygons: [square], storageKey: exploredFogKey("table", "uid-1", "doc-2") });
+    rerender({ polygons: [square], sceneId: "doc-2" });
 
     expect(result.current.canvas).not.toBe(first);
   });
@@ -6,13 +6,17 @@ export { GridLayer } from "./GridLayer";
 export { MapImageLayer } from "./MapImageLayer";
 export { TerrainLayer } from "./TerrainLayer";
 export { withEmissiveLights } from "./emissiveLights";
+export { withCarriedLights } from "./tokenLights";
+export { CarriedLightsLayer } from "./CarriedLightsLayer";
 export { MapElementsLayer } from "./MapElementsLayer";
 export { DoorsLayer } from "./DoorsLayer";
+export { MapLinksLayer } from "./MapLinksLayer";
 export { FogLayer } from "./FogLayer";
 export { TokensLayer } from "./TokensLayer";
 export { PointersLayer } from "./PointersLayer";
 export { DrawingsLayer } from "./DrawingsLayer";
 export { MeasureLayer } from "./MeasureLayer";
+export { DragPathLayer } from "./DragPathLayer";
 export { TransformGizmo } from "./TransformGizmo";
 export { LockIndicator } from "./LockIndicator";
 export { PropsLayer } from "./PropsLayer";
@@ -20,3 +24,4 @@ export { StagingZoneLayer } from "./StagingZoneLayer";
 export { AlignmentOverlay } from "./AlignmentOverlay";
 export { AlignmentInstructionOverlay } from "./AlignmentInstructionOverlay";
 export { MarqueeOverlay } from "./MarqueeOverlay";
+export { FogBrushLayer } from "./FogBrushLayer";
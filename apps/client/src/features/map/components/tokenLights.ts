@@ -0,0 +1,43 @@
+// Carried lights → the live lighting the fog and glow layers read. The server
+// already puts every carried light a player may know about into
+// snapshot.compiledScene.lights (`token:<id>`, vision-filtered like any other
+// light), but a token-updated delta moves the TOKEN without re-sending the
+// scene — so for every token this client holds, its light is recompiled here
+// from where the token stands now, through the same shared function the
+// server used. Lights for tokens this client does not hold (a torch around a
+// corner) are kept exactly as the server sent them.
+//
+// Deliberately NOT fed into the terrain bake the way emissiveLights.ts is: the
+// bake keys on its whole lighting list, and a light that moves with every step
+// would re-bake the map on every step. CarriedLightsLayer draws the glow live.
+
+import {
+  TOKEN_LIGHT_ID_PREFIX,
+  compileTokenLights,
+  isTokenLightId,
+  withTokenLights,
+  type CompiledScene,
+  type Token,
+  type TokenLightSpace,
+} from "@herobyte/shared";
+
+/**
+ * The compiled scene with every carried light where its token stands in
+ * `tokens`. Returns the scene itself (same reference) when neither the scene
+ * nor any held token has a carried light, so tables without torches keep the
+ * exact identity their memoized fog is keyed on.
+ */
+export function withCarriedLights(
+  scene: CompiledScene,
+  tokens: readonly Token[],
+  space: TokenLightSpace,
+): CompiledScene {
+  const held = new Set(tokens.map((token) => token.id));
+  const sentByServer = scene.lights.filter((light) => isTokenLightId(light.id));
+  const live = compileTokenLights(tokens, space);
+  if (sentByServer.length === 0 && live.length === 0) return scene;
+  const authored = scene.lights.filter(
+    (light) => !isTokenLightId(light.id) || !held.has(light.id.slice(TOKEN_LIGHT_ID_PREFIX.length)),
+  );
+  return withTokenLights({ ...scene, lights: authored }, live);
+}
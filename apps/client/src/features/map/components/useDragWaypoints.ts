@@ -0,0 +1,92 @@
+// ============================================================================
+// DRAG WAYPOINTS
+// ============================================================================
+// The route half of a token drag. TokensLayer owns where the token is; this
+// owns where the drag began and the cells the player pinned on the way, and
+// stamps them onto the preview update for the token under the cursor so the
+// path layer (and every other screen) can draw the walk.
+//
+// Pressing Shift mid-drag pins the cell under the token; pressing it again on
+// the cell just pinned takes the pin back. A key, not a click: the mouse
+// button is already held by the drag, and Shift at drag START means "add to
+// selection" (TokensLayer.handleDragStart), so it cannot double as a pin.
+// A pin re-sends the last preview at once rather than waiting for the pointer
+// to move, otherwise the path would not bend until the next cell.
+
+import { useEffect, useRef } from "react";
+import {
+  MAX_DRAG_ROUTE_WAYPOINTS,
+  type DragPreviewUpdate,
+  type MeasurePoint,
+} from "@herobyte/shared";
+
+export interface DragWaypoints {
+  /** A drag began on `sceneId` with the token standing at `from` (grid cells). */
+  begin: (sceneId: string, from: MeasurePoint | undefined) => void;
+  /** The same updates, the dragged token's carrying the route so far. */
+  routed: (updates: DragPreviewUpdate[]) => DragPreviewUpdate[];
+  /** The drag is over; the next update goes out without a route. */
+  end: () => void;
+}
+
+interface ActiveDrag {
+  sceneId: string;
+  from: MeasurePoint;
+  pins: MeasurePoint[];
+  /** The last updates sent, re-sent with the new route when a pin lands. */
+  last: DragPreviewUpdate[] | null;
+}
+
+function sameCell(a: MeasurePoint | undefined, b: MeasurePoint): boolean {
+  return !!a && a.x === b.x && a.y === b.y;
+}
+
+export function useDragWaypoints(
+  emit: ((updates: DragPreviewUpdate[]) => void) | undefined,
+): DragWaypoints {
+  const dragRef = useRef<ActiveDrag | null>(null);
+  const emitRef = useRef(emit);
+  emitRef.current = emit;
+
+  const api = useRef<DragWaypoints>({
+    begin: (sceneId, from) => {
+      dragRef.current = from ? { sceneId, from, pins: [], last: null } : null;
+    },
+    routed: (updates) => {
+      const drag = dragRef.current;
+      if (!drag) return updates;
+      const next = updates.map((update) =>
+        update.id === drag.sceneId
+          ? { ...update, route: { from: drag.from, waypoints: [...drag.pins] } }
+          : update,
+      );
+      drag.last = next;
+      return next;
+    },
+    end: () => {
+      dragRef.current = null;
+    },
+  }).current;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const drag = dragRef.current;
+      if (event.key !== "Shift" || event.repeat || !drag?.last) return;
+      const cursor = drag.last.find((update) => update.id === drag.sceneId);
+      if (!cursor) return;
+      const cell = { x: cursor.x, y: cursor.y };
+      if (sameCell(drag.pins.at(-1), cell)) {
+        drag.pins.pop();
+      } else if (drag.pins.length < MAX_DRAG_ROUTE_WAYPOINTS && !sameCell(drag.from, cell)) {
+        drag.pins.push(cell);
+      } else {
+        return;
+      }
+      emitRef.current?.(api.routed(drag.last));
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [api]);
+
+  return api;
+}
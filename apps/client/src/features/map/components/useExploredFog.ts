@@ -6,25 +6,32 @@
 // new polygon is filled into it without clearing, so the browser rasterises the
 // merge in native code instead of us maintaining polygon geometry.
 //
-// Resolution is a design constant (see exploredFogStore), never multiplied by
-// the device pixel ratio — Konva applies DPR once at the Stage, and this is
-// drawn as one upscaled image whose blur is a feature.
+// The server keeps the durable copy (shared exploredFog.ts owns the format):
+// it hands this player's mask back in the snapshot, and the changes made here
+// go up as a debounced upload it ORs in. Resolution is fixed by
+// `maskGeometryFor`, never multiplied by the device pixel ratio — Konva
+// applies DPR once at the Stage, and this is drawn as one upscaled image whose
+// blur is a feature.
 
 import { useEffect, useMemo, useRef, useState } from "react";
-import type { ScenePoint } from "@herobyte/shared";
 import {
-  byteLengthFor,
-  clearExploredMask,
-  loadExploredMask,
+  decodeExploredBits,
+  encodeExploredBits,
+  exploredMaskByteLength,
   maskGeometryFor,
-  saveExploredMask,
+  type ExploredFogMask,
+  type ExploredFogUpload,
   type ExploredMaskMeta,
-} from "../exploredFogStore";
+  type LitArea,
+  type ScenePoint,
+} from "@herobyte/shared";
 
-/** Writing to localStorage reads the whole canvas back, so it is not per-frame. */
+/** An upload reads the whole canvas back, so it is not per-frame. */
 const SAVE_DEBOUNCE_MS = 4000;
 /** A mask cell counts as explored once it is at least this opaque. */
 const EXPLORED_ALPHA_THRESHOLD = 32;
+/** Stable default, so an absent input does not re-run the accumulate effect. */
+const NO_LIT_REGIONS: ExploredLitRegion[] = [];
 
 export interface ExploredFogResult {
   /** The accumulated mask, or null before it exists. Alpha is the memory. */
@@ -34,12 +41,39 @@ export interface ExploredFogResult {
 }
 
 interface UseExploredFogInput {
-  /** Null disables accumulation entirely (fog off, or nothing published). */
-  storageKey: string | null;
+  /**
+   * `CompiledScene.sourceDocumentId` of the scene being explored. Null
+   * disables accumulation entirely (fog off, or nothing published).
+   */
+  sceneId: string | null;
   sceneWidth: number;
   sceneHeight: number;
   /** The viewers' current sight polygons, in DOCUMENT space. */
   polygons: ScenePoint[][];
+  /**
+   * Lit areas each viewer can see, clipped to that viewer's line of sight.
+   * Remembered like sight — a lit hall you looked down is a hall you have seen.
+   */
+  litRegions?: ExploredLitRegion[];
+  /** The server's copy of this memory, from the snapshot. */
+  memory?: ExploredFogMask;
+  /** Where changes go. Without it the memory lasts as long as this mount. */
+  onSave?: (mask: ExploredFogUpload) => void;
+}
+
+/** One viewer's lit areas and the line of sight that clips them. */
+export interface ExploredLitRegion {
+  clip: ScenePoint[];
+  areas: LitArea[];
+}
+
+function tracePath(context: CanvasRenderingContext2D, polygon: readonly ScenePoint[]): void {
+  context.beginPath();
+  context.moveTo(polygon[0]!.x, polygon[0]!.y);
+  for (let i = 1; i < polygon.length; i += 1) {
+    context.lineTo(polygon[i]!.x, polygon[i]!.y);
+  }
+  context.closePath();
 }
 
 function createCanvas(meta: ExploredMaskMeta): HTMLCanvasElement | null {
@@ -50,11 +84,24 @@ function createCanvas(meta: ExploredMaskMeta): HTMLCanvasElement | null {
   return canvas;
 }
 
-/** Paint a stored bitset back onto a fresh canvas. */
-function restore(canvas: HTMLCanvasElement, meta: ExploredMaskMeta, bits: Uint8Array): void {
-  const context = canvas.getContext("2d");
-  if (!context) return;
-  const image = context.createImageData(meta.cols, meta.rows);
+/**
+ * Paint the server's bits onto the canvas. `replace` throws away what the
+ * canvas held (the DM reset or revealed it); otherwise the bits are added to
+ * it, so a corridor explored since the last upload is not lost to a snapshot
+ * that has not caught up with it yet.
+ */
+function paintMemory(
+  canvas: HTMLCanvasElement,
+  meta: ExploredMaskMeta,
+  memory: ExploredFogMask,
+  replace: boolean,
+): void {
+  const bits = decodeExploredBits(memory.bits, exploredMaskByteLength(meta));
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!bits || !context) return;
+  const image = replace
+    ? context.createImageData(meta.cols, meta.rows)
+    : context.getImageData(0, 0, meta.cols, meta.rows);
   for (let index = 0; index < meta.cols * meta.rows; index += 1) {
     if ((bits[index >> 3]! >> (index & 7)) & 1) {
       image.data[index * 4 + 3] = 255;
@@ -63,12 +110,12 @@ function restore(canvas: HTMLCanvasElement, meta: ExploredMaskMeta, bits: Uint8A
   context.putImageData(image, 0, 0);
 }
 
-/** Read the canvas back out as a bitset, for persistence. */
+/** Read the canvas back out as a bitset, for upload. */
 function snapshotBits(canvas: HTMLCanvasElement, meta: ExploredMaskMeta): Uint8Array | null {
   const context = canvas.getContext("2d", { willReadFrequently: true });
   if (!context) return null;
   const image = context.getImageData(0, 0, meta.cols, meta.rows);
-  const bits = new Uint8Array(byteLengthFor(meta));
+  const bits = new Uint8Array(exploredMaskByteLength(meta));
   for (let index = 0; index < meta.cols * meta.rows; index += 1) {
     if (image.data[index * 4 + 3]! >= EXPLORED_ALPHA_THRESHOLD) {
       bits[index >> 3]! |= 1 << (index & 7);
@@ -77,67 +124,115 @@ function snapshotBits(canvas: HTMLCanvasElement, meta: ExploredMaskMeta): Uint8A
   return bits;
 }
 
+/** Whether the server's mask describes the scene and geometry this canvas is for. */
+function describes(
+  memory: ExploredFogMask | undefined,
+  sceneId: string,
+  meta: ExploredMaskMeta,
+): memory is ExploredFogMask {
+  return (
+    !!memory &&
+    memory.sceneId === sceneId &&
+    memory.cell === meta.cell &&
+    memory.cols === meta.cols &&
+    memory.rows === meta.rows
+  );
+}
+
+/** Hand the canvas to `onSave` as an upload; a no-op without a listener. */
+function upload(
+  save: UseExploredFogInput["onSave"],
+  canvas: HTMLCanvasElement,
+  scene: Pick<ExploredFogUpload, "sceneId" | "sceneWidth" | "sceneHeight" | "epoch">,
+  meta: ExploredMaskMeta,
+): void {
+  const bits = save ? snapshotBits(canvas, meta) : null;
+  if (!save || !bits) return;
+  save({ ...scene, ...meta, bits: encodeExploredBits(bits) });
+}
+
 interface MaskEntry {
   key: string | null;
   meta: ExploredMaskMeta;
   canvas: HTMLCanvasElement | null;
 }
 
-/** A fresh canvas for one map, pre-loaded with whatever this player remembers. */
-function buildEntry(
-  storageKey: string | null,
-  meta: ExploredMaskMeta,
-  sceneWidth: number,
-  sceneHeight: number,
-): MaskEntry {
-  if (!storageKey) return { key: null, meta, canvas: null };
-  const canvas = createCanvas(meta);
-  if (canvas) {
-    const stored = loadExploredMask(storageKey, { ...meta, sceneWidth, sceneHeight });
-    if (stored) {
-      restore(canvas, meta, stored);
-    } else {
-      // Either nothing was stored or it described a different map. Drop it so a
-      // stale entry does not sit in the quota until the LRU reaches it.
-      clearExploredMask(storageKey);
-    }
-  }
-  return { key: storageKey, meta, canvas };
+/** A fresh canvas for one scene; the memory effect paints what the server remembers. */
+function buildEntry(sceneId: string | null, meta: ExploredMaskMeta): MaskEntry {
+  if (!sceneId) return { key: null, meta, canvas: null };
+  return { key: sceneId, meta, canvas: createCanvas(meta) };
 }
 
 export function useExploredFog({
-  storageKey,
+  sceneId,
   sceneWidth,
   sceneHeight,
   polygons,
+  litRegions = NO_LIT_REGIONS,
+  memory,
+  onSave,
 }: UseExploredFogInput): ExploredFogResult {
   const meta = useMemo(() => maskGeometryFor(sceneWidth, sceneHeight), [sceneWidth, sceneHeight]);
   const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const dirty = useRef(false);
+  // Uploads go through a ref so a caller passing a fresh closure every render
+  // does not re-run the effects below, or flush on every re-render.
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
 
   // The canvas is built during the FIRST render rather than in an effect, so
-  // mounting the fog layer costs one render and not two. A new map (or a new
-  // table, or a different player) is a different memory, and the effect below
-  // swaps it — but only when the identity inputs really changed, so a re-render
-  // for any other reason does not churn the mask.
-  const [entry, setEntry] = useState(() => buildEntry(storageKey, meta, sceneWidth, sceneHeight));
+  // mounting the fog layer costs one render and not two. A new scene is a
+  // different memory, and the effect below swaps it — but only when the
+  // identity inputs really changed, so a re-render for any other reason does
+  // not churn the mask.
+  const [entry, setEntry] = useState(() => buildEntry(sceneId, meta));
   const [revision, setRevision] = useState(0);
+  // The DM's reset/reveal generation this canvas is built on. State rather
+  // than a ref so a new epoch re-runs the accumulate effect: what the player
+  // can see right now is explored again immediately, not on their next step.
+  const [epoch, setEpoch] = useState(0);
   const canvasRef = useRef<HTMLCanvasElement | null>(entry.canvas);
   canvasRef.current = entry.canvas;
+  const epochRef = useRef(epoch);
+  epochRef.current = epoch;
 
   useEffect(() => {
     setEntry((previous) =>
-      previous.key === storageKey && previous.meta === meta
-        ? previous
-        : buildEntry(storageKey, meta, sceneWidth, sceneHeight),
+      previous.key === sceneId && previous.meta === meta ? previous : buildEntry(sceneId, meta),
     );
-  }, [storageKey, meta, sceneWidth, sceneHeight]);
+  }, [sceneId, meta]);
+
+  // Take in the server's copy whenever it changes. Keyed on the bits and the
+  // epoch rather than the mask object, which is new on every snapshot.
+  const memoryBits = memory?.bits;
+  const memoryEpoch = memory?.epoch;
+  const memoryRef = useRef(memory);
+  memoryRef.current = memory;
+  useEffect(() => {
+    const canvas = entry.canvas;
+    const current = memoryRef.current;
+    if (!canvas || !entry.key) return;
+    if (!describes(current, entry.key, entry.meta)) {
+      // Nothing on the server for this scene: a fresh memory starts at epoch 0.
+      setEpoch(0);
+      return;
+    }
+    const replace = current.epoch !== epochRef.current;
+    paintMemory(canvas, entry.meta, current, replace);
+    if (replace) {
+      // Whatever was waiting to go up was built on the old epoch; the server
+      // would drop it anyway.
+      dirty.current = false;
+      setEpoch(current.epoch);
+    }
+    setRevision((value) => value + 1);
+  }, [entry, memoryBits, memoryEpoch]);
 
   // Accumulate. `polygons` is already memoized by the caller on a value key, so
   // this runs when vision actually changed — not on every camera frame.
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !storageKey || polygons.length === 0) return;
+    if (!canvas || !sceneId || (polygons.length === 0 && litRegions.length === 0)) return;
     const context = canvas.getContext("2d");
     if (!context) return;
 
@@ -147,15 +242,23 @@ export function useExploredFog({
     context.fillStyle = "#ffffff";
     for (const polygon of polygons) {
       if (polygon.length < 3) continue;
-      context.beginPath();
-      context.moveTo(polygon[0]!.x, polygon[0]!.y);
-      for (let i = 1; i < polygon.length; i += 1) {
-        context.lineTo(polygon[i]!.x, polygon[i]!.y);
-      }
-      context.closePath();
+      tracePath(context, polygon);
       context.fill();
       painted = true;
     }
+    for (const region of litRegions) {
+      if (region.clip.length < 3) continue;
+      context.save();
+      tracePath(context, region.clip);
+      context.clip();
+      for (const area of region.areas) {
+        if (area.polygon.length < 3) continue;
+        tracePath(context, area.polygon);
+        context.fill();
+        painted = true;
+      }
+      context.restore();
+    }
     context.restore();
 
     if (!painted) return;
@@ -168,11 +271,11 @@ export function useExploredFog({
         const current = canvasRef.current;
         if (!current || !dirty.current) return;
         dirty.current = false;
-        const bits = snapshotBits(current, meta);
-        if (bits) saveExploredMask(storageKey, { ...meta, sceneWidth, sceneHeight }, bits);
+        const scene = { sceneId, sceneWidth, sceneHeight, epoch: epochRef.current };
+        upload(onSaveRef.current, current, scene, meta);
       }, SAVE_DEBOUNCE_MS);
     }
-  }, [polygons, storageKey, meta, sceneWidth, sceneHeight]);
+  }, [polygons, litRegions, sceneId, meta, sceneWidth, sceneHeight, epoch]);
 
   // Flush on unmount, so closing the tab after exploring a corridor remembers it.
   useEffect(() => {
@@ -182,12 +285,12 @@ export function useExploredFog({
         saveTimer.current = null;
       }
       const canvas = canvasRef.current;
-      if (!canvas || !storageKey || !dirty.current) return;
+      if (!canvas || !sceneId || !dirty.current) return;
       dirty.current = false;
-      const bits = snapshotBits(canvas, meta);
-      if (bits) saveExploredMask(storageKey, { ...meta, sceneWidth, sceneHeight }, bits);
+      const scene = { sceneId, sceneWidth, sceneHeight, epoch: epochRef.current };
+      upload(onSaveRef.current, canvas, scene, meta);
     };
-  }, [storageKey, meta, sceneWidth, sceneHeight]);
+  }, [sceneId, meta, sceneWidth, sceneHeight]);
 
   return { canvas: entry.canvas, revision };
 }
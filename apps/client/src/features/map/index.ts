@@ -1,2 +1,9 @@
 export { useMapAlignment } from "./useMapAlignment";
 export type { UseMapAlignmentOptions, UseMapAlignmentReturn } from "./useMapAlignment";
+export { useFogBrush, FOG_BRUSH_SIZES } from "./useFogBrush";
+export type {
+  FogBrushController,
+  FogBrushSettings,
+  FogBrushShape,
+  UseFogBrushOptions,
+} from "./useFogBrush";
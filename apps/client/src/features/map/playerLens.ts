@@ -12,6 +12,7 @@ import {
   gridCellToWorldPoint,
   type CompiledDoor,
   type ScenePoint,
+  type SenseProfile,
   type Token,
 } from "@herobyte/shared";
 
@@ -19,6 +20,8 @@ import {
 export interface FogViewer extends ScenePoint {
   /** `Token.visionRadius` in feet. Undefined means unlimited. */
   radiusFeet?: number;
+  /** `Token.senses`. Undefined means none. */
+  senses?: SenseProfile;
 }
 
 /** DM chrome and DM-only data render only when this is true. */
@@ -79,5 +82,24 @@ export function fogViewers(
   return fogViewerTokens(tokens, uid, playerLens).map((token) => ({
     ...gridCellToWorldPoint(gridSize, { x: token.x, y: token.y }),
     radiusFeet: effectiveVisionRadiusFeet(token.visionRadius, defaultRadiusFeet),
+    ...(token.senses ? { senses: token.senses } : {}),
   }));
 }
+
+/**
+ * World-space centres of every token that is NOT a fog viewer — the tokens a
+ * viewer's tremorsense can feel through walls. For a player these already
+ * arrived server-filtered (the server is the one that decided tremorsense lets
+ * them through); the fog only needs to know where to let them show.
+ */
+export function fogTremorTargets(
+  tokens: readonly Token[],
+  uid: string,
+  playerLens: boolean,
+  gridSize: number,
+): ScenePoint[] {
+  const viewers = new Set(fogViewerTokens(tokens, uid, playerLens));
+  return tokens
+    .filter((token) => !viewers.has(token))
+    .map((token) => gridCellToWorldPoint(gridSize, { x: token.x, y: token.y }));
+}
@@ -11,6 +11,8 @@
 //   - The player lens simulates the server's NPC redaction with the SAME
 //     shared hpBadgeFor the recipient filter uses, so a DM previews exactly
 //     what players receive.
+//   - A character's status rides along for the defeated marker; it is not
+//     redacted, since a dead goblin lying on the map is no secret.
 
 import {
   hpBadgeFor,
@@ -46,7 +48,13 @@ export function buildTokenPlates(input: {
       hp = undefined;
       maxHp = undefined;
     }
-    result[`token:${character.tokenId}`] = { name: character.name, hp, maxHp, hpBadge };
+    result[`token:${character.tokenId}`] = {
+      name: character.name,
+      hp,
+      maxHp,
+      hpBadge,
+      status: character.status,
+    };
   }
 
   for (const token of tokens) {
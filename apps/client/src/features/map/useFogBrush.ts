@@ -0,0 +1,94 @@
+/**
+ * useFogBrush Hook
+ *
+ * The DM's reveal/conceal painting tool: which way it paints, what shape it
+ * lays down, and how wide the brush is, plus the undo/redo/clear messages.
+ * The regions themselves are room state (shared fogRegions.ts) — this hook
+ * holds only the settings of the tool in the DM's hand, so a co-DM painting
+ * from another tab sees every stroke through the snapshot.
+ *
+ * Armed like the alignment tool: the DM menu's Map tab calls `toggle`, which
+ * claims the `"fog"` tool mode, and Escape (useToolMode) puts it down again.
+ * While it is armed, Ctrl+Z / Ctrl+Y undo and redo fog strokes — the same keys
+ * the drawing tool uses, and useKeyboardShortcuts stands aside for them.
+ *
+ * @module features/map/useFogBrush
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import type { ClientMessage, FogRegionMode } from "@herobyte/shared";
+import type { ToolMode } from "../../components/layout/Header";
+import { isEditableTarget } from "../../utils/isEditableTarget";
+
+/** `brush` paints a stroke; `rect` drags a rectangle; `polygon` clicks an outline. */
+export type FogBrushShape = "brush" | "rect" | "polygon";
+
+export interface FogBrushSettings {
+  mode: FogRegionMode;
+  shape: FogBrushShape;
+  /** Brush radius in map-document pixels. Only the `brush` shape reads it. */
+  size: number;
+}
+
+export const FOG_BRUSH_SIZES = [25, 50, 100, 200] as const;
+
+const DEFAULT_SETTINGS: FogBrushSettings = { mode: "reveal", shape: "brush", size: 50 };
+
+export interface UseFogBrushOptions {
+  activeTool: ToolMode | null;
+  setActiveTool: (tool: ToolMode | null) => void;
+  sendMessage: (message: ClientMessage) => void;
+}
+
+export interface FogBrushController {
+  /** True while the tool is armed and the canvas paints fog. */
+  active: boolean;
+  settings: FogBrushSettings;
+  setSettings: (patch: Partial<FogBrushSettings>) => void;
+  /** Arm the tool, or put it down if it is already armed. */
+  toggle: () => void;
+  undo: () => void;
+  redo: () => void;
+  /** Remove every region from the published scene. The caller confirms. */
+  clear: () => void;
+}
+
+export function useFogBrush({
+  activeTool,
+  setActiveTool,
+  sendMessage,
+}: UseFogBrushOptions): FogBrushController {
+  const [settings, setSettingsState] = useState<FogBrushSettings>(DEFAULT_SETTINGS);
+  const active = activeTool === "fog";
+
+  const setSettings = useCallback((patch: Partial<FogBrushSettings>) => {
+    setSettingsState((previous) => ({ ...previous, ...patch }));
+  }, []);
+
+  const toggle = useCallback(() => {
+    setActiveTool(active ? null : "fog");
+  }, [active, setActiveTool]);
+
+  const undo = useCallback(() => sendMessage({ t: "undo-fog-region" }), [sendMessage]);
+  const redo = useCallback(() => sendMessage({ t: "redo-fog-region" }), [sendMessage]);
+  const clear = useCallback(() => sendMessage({ t: "clear-fog-regions" }), [sendMessage]);
+
+  useEffect(() => {
+    if (!active) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target) || !(event.ctrlKey || event.metaKey)) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === "y" || (key === "z" && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [active, undo, redo]);
+
+  return { active, settings, setSettings, toggle, undo, redo, clear };
+}
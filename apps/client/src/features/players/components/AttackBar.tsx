@@ -0,0 +1,181 @@
+// ============================================================================
+// ATTACK BAR
+// ============================================================================
+// A card's named attacks: pick a target, press an attack, and the server rolls
+// the to-hit and the damage and logs both as one roll-log entry. The bar never
+// sends a number — the bonus and formula are read off the attacker's record
+// on the server — so what it shows is only a label for what will be rolled.
+//
+// Rendered only for someone who may roll for this character (its owner, or
+// the DM). The DM also gets "Auto-apply damage", which takes the damage off the
+// target with the roll instead of waiting for "Apply damage" in the log.
+//
+// The same editor sets the character's AC and saving throws, and the bar
+// shows them. Only its owner or the DM ever sees this bar, so an NPC's AC
+// shown here is never one the recipient filter withheld.
+
+import { useState } from "react";
+import type { NamedAttack, SnapshotCharacter } from "@herobyte/shared";
+import type { AttackRequest, CharacterDefenses } from "../../../hooks/useAttacks";
+import { sanitizeText } from "../../../utils/sanitize";
+import {
+  ATTACK_INPUT_STYLE,
+  AttackRows,
+  attackDraftProblem,
+  fromAttackDrafts,
+  signed,
+  toAttackDrafts,
+  type AttackDraft,
+} from "./AttackRows";
+import {
+  DefenseFields,
+  defenseDraftProblem,
+  defenseSummary,
+  fromDefenseDraft,
+  toDefenseDraft,
+  type DefenseDraft,
+} from "./DefenseFields";
+
+interface AttackBarProps {
+  attacker: SnapshotCharacter;
+  /** Everyone this viewer can see; the attacker is left out of the list. */
+  targets: SnapshotCharacter[];
+  isDM: boolean;
+  onRoll: (request: AttackRequest) => void;
+  onSave: (attacks: NamedAttack[]) => void;
+  /** Save AC and saving throws; the editor offers no defense fields without it. */
+  onSaveDefenses?: (defenses: CharacterDefenses) => void;
+}
+
+const SMALL_BUTTON_STYLE = {
+  fontSize: "var(--player-card-control-font-size, 0.7rem)",
+  padding: "var(--player-card-control-padding, 4px 8px)",
+} as const;
+
+export function AttackBar({
+  attacker,
+  targets,
+  isDM,
+  onRoll,
+  onSave,
+  onSaveDefenses,
+}: AttackBarProps) {
+  const [targetId, setTargetId] = useState("");
+  const [autoApply, setAutoApply] = useState(false);
+  const [drafts, setDrafts] = useState<AttackDraft[] | null>(null);
+  const [defenseDraft, setDefenseDraft] = useState<DefenseDraft | null>(null);
+  const attacks = attacker.attacks ?? [];
+  const others = targets.filter((target) => target.id !== attacker.id);
+  // A target that left the scene (or was hidden) since it was picked is no target.
+  const target = others.find((candidate) => candidate.id === targetId);
+
+  const summary = defenseSummary(attacker);
+  const closeEditor = () => {
+    setDrafts(null);
+    setDefenseDraft(null);
+  };
+
+  if (drafts) {
+    const problem =
+      (defenseDraft && defenseDraftProblem(defenseDraft)) ?? attackDraftProblem(drafts);
+    return (
+      <div className="attack-bar" data-testid="attack-bar">
+        {onSaveDefenses && defenseDraft && (
+          <DefenseFields draft={defenseDraft} onChange={setDefenseDraft} />
+        )}
+        <AttackRows drafts={drafts} onChange={setDrafts} />
+        {problem && (
+          <div className="jrpg-text-small" style={{ color: "var(--jrpg-red)" }}>
+            {problem}
+          </div>
+        )}
+        <div style={{ display: "flex", gap: "4px", marginTop: "4px" }}>
+          <button
+            className="btn btn-primary"
+            style={SMALL_BUTTON_STYLE}
+            disabled={problem !== null}
+            onClick={() => {
+              onSave(fromAttackDrafts(drafts));
+              if (onSaveDefenses && defenseDraft) onSaveDefenses(fromDefenseDraft(defenseDraft));
+              closeEditor();
+            }}
+          >
+            Save Attacks
+          </button>
+          <button className="btn btn-secondary" style={SMALL_BUTTON_STYLE} onClick={closeEditor}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="attack-bar" data-testid="attack-bar">
+      {summary && (
+        <div className="jrpg-text-small" data-testid="defense-summary">
+          {summary}
+        </div>
+      )}
+      {attacks.length > 0 && (
+        <select
+          aria-label={`Target for ${attacker.name}`}
+          value={target ? target.id : ""}
+          onChange={(e) => setTargetId(e.target.value)}
+          style={ATTACK_INPUT_STYLE}
+        >
+          <option value="">Target…</option>
+          {others.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {sanitizeText(candidate.name)}
+            </option>
+          ))}
+        </select>
+      )}
+      <div style={{ display: "flex", gap: "4px", flexWrap: "wrap", marginTop: "4px" }}>
+        {attacks.map((attack) => (
+          <button
+            key={attack.name}
+            className="btn btn-secondary"
+            style={SMALL_BUTTON_STYLE}
+            disabled={!target}
+            title={`${attack.damage}${attack.damageType ? ` ${attack.damageType}` : ""}`}
+            onClick={() => {
+              if (!target) return;
+              onRoll({
+                attackerId: attacker.id,
+                attackName: attack.name,
+                targetId: target.id,
+                ...(isDM && autoApply ? { applyDamage: true } : {}),
+              });
+            }}
+          >
+            {sanitizeText(attack.name)} {signed(attack.toHit)}
+          </button>
+        ))}
+        <button
+          className="btn btn-secondary"
+          style={SMALL_BUTTON_STYLE}
+          onClick={() => {
+            setDrafts(toAttackDrafts(attacks));
+            setDefenseDraft(toDefenseDraft(attacker));
+          }}
+          aria-label={`Edit ${attacker.name}’s attacks`}
+          title="Edit attacks"
+        >
+          {attacks.length > 0 ? "✎" : "+ Attacks"}
+        </button>
+      </div>
+      {isDM && attacks.length > 0 && (
+        <label className="jrpg-text-small" style={{ display: "flex", gap: "4px" }}>
+          <input
+            type="checkbox"
+            checked={autoApply}
+            onChange={(e) => setAutoApply(e.target.checked)}
+          />
+          Auto-apply damage
+        </label>
+      )}
+    </div>
+  );
+}
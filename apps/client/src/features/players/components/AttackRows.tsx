@@ -0,0 +1,135 @@
+// ============================================================================
+// ATTACK ROWS
+// ============================================================================
+// The name / to-hit / damage / type rows for a list of named attacks, shared
+// by the Bestiary's stat block editor and a card's own attack list. Fields
+// are edited as text so one can be empty mid-edit; `fromAttackDrafts` turns
+// them into attacks on Save, and `attackDraftProblem` checks each damage
+// formula with the parser the server rolls with, so a list the server would
+// refuse is never offered for saving.
+
+import { ATTACK_LIMITS, parseDiceFormula, type NamedAttack } from "@herobyte/shared";
+import { JRPGButton } from "../../../components/ui/JRPGPanel";
+
+export interface AttackDraft {
+  name: string;
+  toHit: string;
+  damage: string;
+  damageType: string;
+}
+
+export const ATTACK_INPUT_STYLE = {
+  width: "100%",
+  padding: "4px",
+  background: "#111",
+  color: "var(--jrpg-white)",
+  border: "1px solid var(--jrpg-border-gold)",
+  fontSize: "11px",
+} as const;
+
+/** "+4" / "-1": how a bonus reads on a button or a stat line. */
+export function signed(value: number): string {
+  return value >= 0 ? `+${value}` : String(value);
+}
+
+export function toAttackDrafts(attacks: NamedAttack[] | undefined): AttackDraft[] {
+  return (attacks ?? []).map((attack) => ({
+    name: attack.name,
+    toHit: String(attack.toHit),
+    damage: attack.damage,
+    damageType: attack.damageType ?? "",
+  }));
+}
+
+export function fromAttackDrafts(drafts: AttackDraft[]): NamedAttack[] {
+  return drafts.map((draft) => {
+    const toHit = Number(draft.toHit);
+    const attack: NamedAttack = {
+      name: draft.name.trim(),
+      toHit: draft.toHit.trim() !== "" && Number.isFinite(toHit) ? toHit : 0,
+      damage: draft.damage.trim(),
+    };
+    const damageType = draft.damageType.trim();
+    if (damageType) attack.damageType = damageType;
+    return attack;
+  });
+}
+
+/** Why the list cannot be saved, or null when every row is a usable attack. */
+export function attackDraftProblem(drafts: AttackDraft[]): string | null {
+  for (const draft of drafts) {
+    if (!draft.name.trim()) return "Every attack needs a name.";
+    const damage = parseDiceFormula(draft.damage);
+    if (!damage.ok) return `${draft.name.trim()} damage: ${damage.error}`;
+  }
+  return null;
+}
+
+interface AttackRowsProps {
+  drafts: AttackDraft[];
+  onChange: (drafts: AttackDraft[]) => void;
+}
+
+export function AttackRows({ drafts, onChange }: AttackRowsProps) {
+  const setAttack = (index: number, update: Partial<AttackDraft>) =>
+    onChange(drafts.map((draft, i) => (i === index ? { ...draft, ...update } : draft)));
+
+  return (
+    <>
+      {drafts.map((attack, index) => (
+        <div
+          key={index}
+          style={{ display: "grid", gridTemplateColumns: "2fr 1fr 2fr 2fr auto", gap: "4px" }}
+        >
+          <input
+            aria-label="Attack name"
+            placeholder="Scimitar"
+            maxLength={ATTACK_LIMITS.NAME_MAX}
+            value={attack.name}
+            onChange={(e) => setAttack(index, { name: e.target.value })}
+            style={ATTACK_INPUT_STYLE}
+          />
+          <input
+            aria-label="Attack to-hit"
+            placeholder="+4"
+            value={attack.toHit}
+            onChange={(e) => setAttack(index, { toHit: e.target.value })}
+            style={ATTACK_INPUT_STYLE}
+          />
+          <input
+            aria-label="Attack damage"
+            placeholder="1d6+2"
+            value={attack.damage}
+            onChange={(e) => setAttack(index, { damage: e.target.value })}
+            style={ATTACK_INPUT_STYLE}
+          />
+          <input
+            aria-label="Attack damage type"
+            placeholder="slashing"
+            maxLength={ATTACK_LIMITS.DAMAGE_TYPE_MAX}
+            value={attack.damageType}
+            onChange={(e) => setAttack(index, { damageType: e.target.value })}
+            style={ATTACK_INPUT_STYLE}
+          />
+          <JRPGButton
+            aria-label={`Remove ${attack.name || "attack"}`}
+            onClick={() => onChange(drafts.filter((_, i) => i !== index))}
+            style={{ fontSize: "10px", padding: "2px 6px" }}
+          >
+            ✕
+          </JRPGButton>
+        </div>
+      ))}
+      {drafts.length < ATTACK_LIMITS.ATTACKS_MAX && (
+        <JRPGButton
+          onClick={() =>
+            onChange([...drafts, { name: "", toHit: "0", damage: "", damageType: "" }])
+          }
+          style={{ fontSize: "10px", padding: "4px 8px", marginTop: "4px" }}
+        >
+          + Attack
+        </JRPGButton>
+      )}
+    </>
+  );
+}
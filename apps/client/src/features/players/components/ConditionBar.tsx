@@ -0,0 +1,228 @@
+// ============================================================================
+// CONDITION BAR
+// ============================================================================
+// A card's conditions as badges — "Poisoned · 2" — with the source and the
+// clock spelled out in the badge's title. Everyone who can see the card sees
+// the badges; the owner and the DM also get ✕ on each and an "+ Condition"
+// form. The form only ever sends the whole list: the server keeps the clocks,
+// so the round counts shown here are whatever the last snapshot said.
+//
+// "Ticks on" is the turn edge that takes a round off. Left at the default it
+// is the start of the bearer's own turn; "End of Mage’s turn" reads as the
+// familiar "until the end of the caster's next turn" when rounds is 1.
+
+import { useState } from "react";
+import {
+  CONDITION_KEYS,
+  CONDITION_LIMITS,
+  conditionName,
+  type Condition,
+  type ConditionKey,
+  type SnapshotCharacter,
+} from "@herobyte/shared";
+import { sanitizeText } from "../../../utils/sanitize";
+import { conditionText } from "../constants/statusOptions";
+import { ATTACK_INPUT_STYLE } from "./AttackRows";
+
+export interface ConditionDraft {
+  key: ConditionKey;
+  label: string;
+  source: string;
+  rounds: string;
+  /** "" for the bearer's own turn start, else "start:<id>" or "end:<id>". */
+  ticksOn: string;
+}
+
+const EMPTY_DRAFT: ConditionDraft = {
+  key: "poisoned",
+  label: "",
+  source: "",
+  rounds: "",
+  ticksOn: "",
+};
+
+/** Why the draft cannot be added, or null when it can. */
+export function conditionDraftProblem(draft: ConditionDraft): string | null {
+  if (draft.key === "custom" && draft.label.trim() === "") {
+    return "A custom condition needs a name.";
+  }
+  const rounds = Number(draft.rounds);
+  if (
+    draft.rounds.trim() !== "" &&
+    !(Number.isInteger(rounds) && rounds >= 1 && rounds <= CONDITION_LIMITS.ROUNDS_MAX)
+  ) {
+    return `Rounds must be a whole number from 1 to ${CONDITION_LIMITS.ROUNDS_MAX}.`;
+  }
+  return null;
+}
+
+export function fromConditionDraft(draft: ConditionDraft): Condition {
+  const condition: Condition = { key: draft.key };
+  if (draft.key === "custom") condition.label = draft.label.trim();
+  if (draft.source.trim()) condition.source = draft.source.trim();
+  if (draft.rounds.trim()) condition.rounds = Number(draft.rounds);
+  const colon = draft.ticksOn.indexOf(":");
+  const boundary = draft.ticksOn.slice(0, colon);
+  const characterId = draft.ticksOn.slice(colon + 1);
+  if (colon > 0 && (boundary === "start" || boundary === "end") && characterId) {
+    condition.endsAt = { characterId, boundary };
+  }
+  return condition;
+}
+
+interface ConditionBarProps {
+  character: SnapshotCharacter;
+  /** Whose turns a clock may tick on — everyone this viewer can see. */
+  characters: SnapshotCharacter[];
+  /** Save the whole list; without it the badges are read-only. */
+  onSave?: (conditions: Condition[]) => void;
+}
+
+const BADGE_STYLE = {
+  display: "inline-flex",
+  alignItems: "center",
+  gap: "2px",
+  padding: "1px 6px",
+  border: "1px solid var(--jrpg-border-gold)",
+  borderRadius: "8px",
+  fontSize: "10px",
+} as const;
+
+const SMALL_BUTTON_STYLE = {
+  fontSize: "var(--player-card-control-font-size, 0.7rem)",
+  padding: "var(--player-card-control-padding, 4px 8px)",
+} as const;
+
+export function ConditionBar({ character, characters, onSave }: ConditionBarProps) {
+  const [draft, setDraft] = useState<ConditionDraft | null>(null);
+  const conditions = character.conditions ?? [];
+  if (conditions.length === 0 && !onSave) return null;
+
+  const save = (next: Condition[]) => onSave?.(next);
+  const problem = draft && conditionDraftProblem(draft);
+  const field = <K extends keyof ConditionDraft>(key: K, value: ConditionDraft[K]) =>
+    draft && setDraft({ ...draft, [key]: value });
+
+  return (
+    <div className="condition-bar" data-testid="condition-bar">
+      <div style={{ display: "flex", gap: "4px", flexWrap: "wrap" }}>
+        {conditions.map((condition, index) => (
+          <span
+            key={`${condition.key}-${index}`}
+            className="jrpg-text-small"
+            data-testid="condition-badge"
+            title={sanitizeText(conditionText(condition))}
+            style={BADGE_STYLE}
+          >
+            {sanitizeText(conditionName(condition))}
+            {condition.rounds !== undefined && ` · ${condition.rounds}`}
+            {onSave && (
+              <button
+                type="button"
+                aria-label={`Remove ${conditionName(condition)}`}
+                onClick={() => save(conditions.filter((_, other) => other !== index))}
+                style={{ background: "none", border: "none", color: "inherit", padding: 0 }}
+              >
+                ✕
+              </button>
+            )}
+          </span>
+        ))}
+        {onSave && !draft && conditions.length < CONDITION_LIMITS.CONDITIONS_MAX && (
+          <button
+            className="btn btn-secondary"
+            style={SMALL_BUTTON_STYLE}
+            onClick={() => setDraft(EMPTY_DRAFT)}
+            aria-label={`Add a condition to ${character.name}`}
+          >
+            + Condition
+          </button>
+        )}
+      </div>
+      {draft && (
+        <div style={{ display: "grid", gap: "4px", marginTop: "4px" }}>
+          <select
+            aria-label="Condition"
+            value={draft.key}
+            onChange={(e) => field("key", e.target.value as ConditionKey)}
+            style={ATTACK_INPUT_STYLE}
+          >
+            {CONDITION_KEYS.map((key) => (
+              <option key={key} value={key}>
+                {conditionName({ key })}
+              </option>
+            ))}
+            <option value="custom">Custom…</option>
+          </select>
+          {draft.key === "custom" && (
+            <input
+              aria-label="Condition name"
+              placeholder="Name"
+              maxLength={CONDITION_LIMITS.LABEL_MAX}
+              value={draft.label}
+              onChange={(e) => field("label", e.target.value)}
+              style={ATTACK_INPUT_STYLE}
+            />
+          )}
+          <input
+            aria-label="Source"
+            placeholder="Source (optional)"
+            maxLength={CONDITION_LIMITS.SOURCE_MAX}
+            value={draft.source}
+            onChange={(e) => field("source", e.target.value)}
+            style={ATTACK_INPUT_STYLE}
+          />
+          <input
+            aria-label="Rounds"
+            placeholder="Rounds (blank: until removed)"
+            value={draft.rounds}
+            onChange={(e) => field("rounds", e.target.value)}
+            style={ATTACK_INPUT_STYLE}
+          />
+          <select
+            aria-label="Ticks on"
+            value={draft.ticksOn}
+            onChange={(e) => field("ticksOn", e.target.value)}
+            style={ATTACK_INPUT_STYLE}
+          >
+            <option value="">Start of {sanitizeText(character.name)}’s turn</option>
+            {characters.flatMap((other) =>
+              (["start", "end"] as const)
+                .filter((boundary) => other.id !== character.id || boundary === "end")
+                .map((boundary) => (
+                  <option key={`${boundary}:${other.id}`} value={`${boundary}:${other.id}`}>
+                    {boundary === "start" ? "Start" : "End"} of {sanitizeText(other.name)}’s turn
+                  </option>
+                )),
+            )}
+          </select>
+          {problem && (
+            <div className="jrpg-text-small" style={{ color: "var(--jrpg-red)" }}>
+              {problem}
+            </div>
+          )}
+          <div style={{ display: "flex", gap: "4px" }}>
+            <button
+              className="btn btn-primary"
+              style={SMALL_BUTTON_STYLE}
+              disabled={problem !== null}
+              onClick={() => {
+                save([...conditions, fromConditionDraft(draft)]);
+                setDraft(null);
+              }}
+            >
+              Add
+            </button>
+            <button
+              className="btn btn-secondary"
+              style={SMALL_BUTTON_STYLE}
+              onClick={() => setDraft(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
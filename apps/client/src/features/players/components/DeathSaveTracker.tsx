@@ -0,0 +1,81 @@
+// ============================================================================
+// DEATH SAVE TRACKER
+// ============================================================================
+// Shown on a PC's card while they are down at 0 HP (shared deathSaves.ts):
+// three success pips and three failure pips, and a button that has the server
+// roll the d20. The owner and the DM may also click a pip to set the count by
+// hand — clicking the last filled pip takes it back off — for a table that
+// rolls real dice. Three successes reads "Stable" and the roll button goes,
+// since there is nothing left to roll.
+
+import { DEATH_SAVE_LIMIT, isStable, type DeathSaves } from "@herobyte/shared";
+
+interface DeathSaveTrackerProps {
+  /** Absent means a fresh tally: nothing rolled yet. */
+  deathSaves?: DeathSaves;
+  /** Roll the next save on the server; without it there is no button. */
+  onRoll?: () => void;
+  /** Set the counts by hand; without it the pips are read-only. */
+  onChange?: (deathSaves: DeathSaves) => void;
+}
+
+const PIPS = Array.from({ length: DEATH_SAVE_LIMIT }, (_, index) => index + 1);
+
+const PIP_STYLE = {
+  width: "12px",
+  height: "12px",
+  padding: 0,
+  borderRadius: "50%",
+  border: "1px solid var(--jrpg-border-gold)",
+} as const;
+
+export function DeathSaveTracker({ deathSaves, onRoll, onChange }: DeathSaveTrackerProps) {
+  const saves = deathSaves ?? { successes: 0, failures: 0 };
+  const stable = isStable(saves);
+
+  const row = (kind: keyof DeathSaves, label: string, color: string) => (
+    <div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+      <span style={{ width: "56px" }}>{label}</span>
+      {PIPS.map((pip) => {
+        const filled = saves[kind] >= pip;
+        const style = { ...PIP_STYLE, background: filled ? color : "transparent" };
+        return onChange ? (
+          <button
+            key={pip}
+            type="button"
+            aria-label={`${label} ${pip}`}
+            aria-pressed={filled}
+            onClick={() => onChange({ ...saves, [kind]: saves[kind] === pip ? pip - 1 : pip })}
+            style={{ ...style, cursor: "pointer" }}
+          />
+        ) : (
+          <span key={pip} data-filled={filled} style={style} />
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div
+      className="jrpg-text-small"
+      data-testid="death-save-tracker"
+      style={{ display: "grid", gap: "4px", color: "var(--jrpg-white)" }}
+    >
+      <div style={{ color: "var(--jrpg-gold)" }}>Death Saves{stable && " · Stable"}</div>
+      {row("successes", "Success", "var(--jrpg-green)")}
+      {row("failures", "Failure", "var(--jrpg-red)")}
+      {onRoll && !stable && (
+        <button
+          className="btn btn-primary"
+          style={{
+            fontSize: "var(--player-card-control-font-size, 0.7rem)",
+            padding: "var(--player-card-control-padding, 4px 8px)",
+          }}
+          onClick={onRoll}
+        >
+          🎲 Roll Death Save
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+// ============================================================================
+// DEFENSE FIELDS
+// ============================================================================
+// Armor class and saving throw bonuses, edited alongside a card's attacks. As
+// with AttackRows, every field is text so it can be blank mid-edit; a blank
+// field clears that value rather than saving a zero, because "AC 0" and "no
+// AC" are different things to the server — only a character with an AC has
+// rolls against it judged hit or miss.
+
+import {
+  DEFENSE_LIMITS,
+  SAVING_THROW_ABILITIES,
+  type SavingThrowAbility,
+  type SavingThrows,
+} from "@herobyte/shared";
+import type { CharacterDefenses } from "../../../hooks/useAttacks";
+import { ATTACK_INPUT_STYLE, signed } from "./AttackRows";
+
+export interface DefenseDraft {
+  ac: string;
+  saves: Record<SavingThrowAbility, string>;
+}
+
+/** "AC 15 · DEX +2 WIS -1", or null when there is nothing to show. */
+export function defenseSummary({ ac, savingThrows }: CharacterDefenses): string | null {
+  const saves = SAVING_THROW_ABILITIES.flatMap((ability) => {
+    const bonus = savingThrows?.[ability];
+    return bonus === undefined ? [] : [`${ability.toUpperCase()} ${signed(bonus)}`];
+  }).join(" ");
+  const parts = [ac !== undefined ? `AC ${ac}` : "", saves].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+export function toDefenseDraft({ ac, savingThrows }: CharacterDefenses): DefenseDraft {
+  const saves = {} as Record<SavingThrowAbility, string>;
+  for (const ability of SAVING_THROW_ABILITIES) {
+    const bonus = savingThrows?.[ability];
+    saves[ability] = bonus === undefined ? "" : String(bonus);
+  }
+  return { ac: ac === undefined ? "" : String(ac), saves };
+}
+
+function wholeNumberIn(text: string, min: number, max: number): number | undefined {
+  if (text.trim() === "") return undefined;
+  const value = Number(text);
+  return Number.isInteger(value) && value >= min && value <= max ? value : undefined;
+}
+
+export function fromDefenseDraft(draft: DefenseDraft): CharacterDefenses {
+  const defenses: CharacterDefenses = {};
+  const ac = wholeNumberIn(draft.ac, DEFENSE_LIMITS.AC_MIN, DEFENSE_LIMITS.AC_MAX);
+  if (ac !== undefined) defenses.ac = ac;
+  const saves: SavingThrows = {};
+  for (const ability of SAVING_THROW_ABILITIES) {
+    const bonus = wholeNumberIn(
+      draft.saves[ability],
+      -DEFENSE_LIMITS.SAVE_ABS_MAX,
+      DEFENSE_LIMITS.SAVE_ABS_MAX,
+    );
+    if (bonus !== undefined) saves[ability] = bonus;
+  }
+  if (Object.keys(saves).length > 0) defenses.savingThrows = saves;
+  return defenses;
+}
+
+/** Why the draft cannot be saved, or null when every filled field is in range. */
+export function defenseDraftProblem(draft: DefenseDraft): string | null {
+  const { AC_MIN, AC_MAX, SAVE_ABS_MAX } = DEFENSE_LIMITS;
+  if (draft.ac.trim() !== "" && wholeNumberIn(draft.ac, AC_MIN, AC_MAX) === undefined) {
+    return `AC must be a whole number from ${AC_MIN} to ${AC_MAX}.`;
+  }
+  for (const ability of SAVING_THROW_ABILITIES) {
+    const text = draft.saves[ability];
+    if (text.trim() !== "" && wholeNumberIn(text, -SAVE_ABS_MAX, SAVE_ABS_MAX) === undefined) {
+      return `${ability.toUpperCase()} save must be a whole number from −${SAVE_ABS_MAX} to +${SAVE_ABS_MAX}.`;
+    }
+  }
+  return null;
+}
+
+interface DefenseFieldsProps {
+  draft: DefenseDraft;
+  onChange: (draft: DefenseDraft) => void;
+}
+
+export function DefenseFields({ draft, onChange }: DefenseFieldsProps) {
+  return (
+    <div
+      style={{ display: "grid", gridTemplateColumns: "repeat(7, 1fr)", gap: "4px" }}
+      data-testid="defense-fields"
+    >
+      <input
+        aria-label="Armor class"
+        placeholder="AC"
+        value={draft.ac}
+        onChange={(e) => onChange({ ...draft, ac: e.target.value })}
+        style={ATTACK_INPUT_STYLE}
+      />
+      {SAVING_THROW_ABILITIES.map((ability) => (
+        <input
+          key={ability}
+          aria-label={`${ability.toUpperCase()} save`}
+          placeholder={ability.toUpperCase()}
+          value={draft.saves[ability]}
+          onChange={(e) =>
+            onChange({ ...draft, saves: { ...draft.saves, [ability]: e.target.value } })
+          }
+          style={ATTACK_INPUT_STYLE}
+        />
+      ))}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@
 // Displays an NPC in the entities panel with DM controls. Styled to mirror the
 // player card while using a red accent to indicate an enemy.
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useState, type ReactNode } from "react";
 import type { TokenSize, SnapshotCharacter } from "@herobyte/shared";
 import { normalizeHPValues, parseHPInput, parseMaxHPInput } from "@herobyte/shared";
 import { PortraitSection } from "./PortraitSection";
@@ -46,6 +46,10 @@ interface NpcCardProps {
   onToggleVisibility?: (id: string, visible: boolean) => void;
   onClearInitiative?: () => void;
   isCurrentTurn?: boolean;
+  /** The NPC's attack bar, built by the panel that knows the targets (DM only). */
+  attackSlot?: ReactNode;
+  /** The NPC's condition badges, which the panel makes editable for the DM. */
+  conditionSlot?: ReactNode;
 }
 
 export function NpcCard({
@@ -67,6 +71,8 @@ export function NpcCard({
   onToggleVisibility,
   onClearInitiative,
   isCurrentTurn = false,
+  attackSlot,
+  conditionSlot,
 }: NpcCardProps): JSX.Element {
   const [editingHp, setEditingHp] = useState(false);
   const [hpInput, setHpInput] = useState(String(character.hp));
@@ -191,11 +197,7 @@ export function NpcCard({
         {isCurrentTurn && (
           <div
             className="jrpg-text-small"
-            style={{
-              color: "#FFE8A3",
-              fontWeight: 700,
-              letterSpacing: "0.05em",
-            }}
+            style={{ color: "#FFE8A3", fontWeight: 700, letterSpacing: "0.05em" }}
           >
             ⚔️ CURRENT TURN
           </div>
@@ -277,6 +279,8 @@ export function NpcCard({
         // The server redacted this NPC's numbers (monsterHpDisplay).
         <RedactedHpBadge badge={character.hpBadge} />
       )}
+      {conditionSlot}
+      {attackSlot}
 
       <div className="player-card-controls">
         {onToggleVisibility && canEdit && (
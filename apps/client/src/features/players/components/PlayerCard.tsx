@@ -4,13 +4,24 @@
 // Displays a single player's portrait, name, HP bar, and controls
 // Memoized to prevent unnecessary re-renders
 
-import { memo, useEffect, useState } from "react";
-import type { Drawing, Player, PlayerState, SceneObject, Token, TokenSize } from "@herobyte/shared";
+import { memo, useEffect, useState, type ReactNode } from "react";
+import type {
+  DeathSaves,
+  Drawing,
+  Player,
+  PlayerState,
+  SceneObject,
+  SenseProfile,
+  Token,
+  TokenLight,
+  TokenSize,
+} from "@herobyte/shared";
 import { NameEditor } from "./NameEditor";
 import { PortraitSection } from "./PortraitSection";
 import { HPBar } from "./HPBar";
 import { CardControls } from "./CardControls";
 import { PlayerSettingsMenu } from "./PlayerSettingsMenu";
+import { DeathSaveTracker } from "./DeathSaveTracker";
 import { loadPlayerState, savePlayerState } from "../../../utils/playerPersistence";
 import { useHpFeedback, FloatingDamageNumber } from "../../juice";
 
@@ -62,6 +73,15 @@ export interface PlayerCardProps {
   /** Sight limit in feet; undefined is unlimited. DM-only (S7). */
   tokenVisionRadius?: number;
   onTokenVisionRadiusChange?: (radiusFeet: number | null) => void;
+  /** Special senses, feet per sense; undefined is none. DM-only, like the radius. */
+  tokenSenses?: SenseProfile;
+  onTokenSensesChange?: (senses: SenseProfile | null) => void;
+  /** The light the token carries; undefined is none. Owner or DM. */
+  tokenLight?: TokenLight;
+  onTokenLightChange?: (light: TokenLight | null) => void;
+  /** Walking speed in feet; undefined is the default. DM-only, like the radius. */
+  tokenSpeed?: number;
+  onTokenSpeedChange?: (speedFeet: number | null) => void;
   onAddCharacter?: (name: string) => boolean;
   isCreatingCharacter?: boolean;
   characterId?: string;
@@ -73,6 +93,24 @@ export interface PlayerCardProps {
   isCurrentTurn?: boolean;
   onClearInitiative?: () => void;
   canEditStatusEffects?: boolean;
+  /** The character's attack bar, built by the panel that knows the targets. */
+  attackSlot?: ReactNode;
+  /** The character's condition badges, editable for its owner and the DM. */
+  conditionSlot?: ReactNode;
+  /**
+   * Present only while the character is down at 0 HP and rolling death saves
+   * (an empty tally before the first roll); the tracker shows when it is.
+   */
+  deathSaves?: DeathSaves;
+  /** Owner or DM: have the server roll the next death save. */
+  onRollDeathSave?: () => void;
+  /** Owner or DM: set the death-save counts by hand. */
+  onDeathSavesChange?: (deathSaves: DeathSaves) => void;
+}
+
+/** Tallies arrive as fresh objects in every snapshot; the counts are what matter. */
+function sameDeathSaves(a?: DeathSaves, b?: DeathSaves): boolean {
+  return a?.successes === b?.successes && a?.failures === b?.failures;
 }
 
 export const PlayerCard = memo<PlayerCardProps>(
@@ -122,6 +160,12 @@ export const PlayerCard = memo<PlayerCardProps>(
     onTokenSizeChange,
     tokenVisionRadius,
     onTokenVisionRadiusChange,
+    tokenSenses,
+    onTokenSensesChange,
+    tokenLight,
+    onTokenLightChange,
+    tokenSpeed,
+    onTokenSpeedChange,
     onStatusEffectsChange,
     onAddCharacter,
     isCreatingCharacter,
@@ -134,6 +178,11 @@ export const PlayerCard = memo<PlayerCardProps>(
     isCurrentTurn = false,
     onClearInitiative,
     canEditStatusEffects = isMe,
+    attackSlot,
+    conditionSlot,
+    deathSaves,
+    onRollDeathSave,
+    onDeathSavesChange,
   }) => {
     const editing = editingPlayerUID === player.uid;
     const editingHp = editingHpUID === (characterId ?? player.uid);
@@ -333,6 +382,16 @@ export const PlayerCard = memo<PlayerCardProps>(
           onTempHpSubmit={onTempHpSubmit}
         />
 
+        {deathSaves && (
+          <DeathSaveTracker
+            deathSaves={deathSaves}
+            onRoll={onRollDeathSave}
+            onChange={onDeathSavesChange}
+          />
+        )}
+        {conditionSlot}
+        {attackSlot}
+
         <CardControls
           canControlMic={isMe}
           canOpenSettings={isMe || viewerIsDM}
@@ -368,6 +427,12 @@ export const PlayerCard = memo<PlayerCardProps>(
           onTokenSizeChange={onTokenSizeChange}
           tokenVisionRadius={tokenVisionRadius}
           onTokenVisionRadiusChange={onTokenVisionRadiusChange}
+          tokenSenses={tokenSenses}
+          onTokenSensesChange={onTokenSensesChange}
+          tokenLight={tokenLight}
+          onTokenLightChange={onTokenLightChange}
+          tokenSpeed={tokenSpeed}
+          onTokenSpeedChange={onTokenSpeedChange}
           onAddCharacter={onAddCharacter}
           isCreatingCharacter={isCreatingCharacter}
           characterId={characterId}
@@ -421,7 +486,9 @@ export const PlayerCard = memo<PlayerCardProps>(
     prevProps.viewerIsDM === nextProps.viewerIsDM &&
     prevProps.initiative === nextProps.initiative &&
     prevProps.initiativeModifier === nextProps.initiativeModifier &&
-    prevProps.isCurrentTurn === nextProps.isCurrentTurn,
+    prevProps.isCurrentTurn === nextProps.isCurrentTurn &&
+    sameDeathSaves(prevProps.deathSaves, nextProps.deathSaves) &&
+    !!prevProps.onRollDeathSave === !!nextProps.onRollDeathSave,
 );
 
 PlayerCard.displayName = "PlayerCard";
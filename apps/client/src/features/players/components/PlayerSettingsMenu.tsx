@@ -6,11 +6,13 @@
 import { useEffect, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 
-import type { TokenSize } from "@herobyte/shared";
+import type { SenseProfile, TokenLight, TokenSize } from "@herobyte/shared";
 import { DraggableWindow } from "../../../components/dice/DraggableWindow";
 import { JRPGPanel, JRPGButton } from "../../../components/ui/JRPGPanel";
 import { ImageField } from "../../../components/ui/ImageField";
 import { VisionRadiusField } from "./VisionRadiusField";
+import { TokenLightField } from "./TokenLightField";
+import { TokenSpeedField } from "./TokenSpeedField";
 import { STATUS_OPTIONS } from "../constants/statusOptions";
 import { CharacterCreationModal } from "./CharacterCreationModal";
 
@@ -59,6 +61,15 @@ interface PlayerSettingsMenuProps {
   /** Sight limit in feet; undefined is unlimited. DM-only (S7). */
   tokenVisionRadius?: number;
   onTokenVisionRadiusChange?: (radiusFeet: number | null) => void;
+  /** Special senses, feet per sense; undefined is none. DM-only, like the radius. */
+  tokenSenses?: SenseProfile;
+  onTokenSensesChange?: (senses: SenseProfile | null) => void;
+  /** The light the token carries; undefined is none. Owner or DM. */
+  tokenLight?: TokenLight;
+  onTokenLightChange?: (light: TokenLight | null) => void;
+  /** Walking speed in feet; undefined is the default. DM-only, like the radius. */
+  tokenSpeed?: number;
+  onTokenSpeedChange?: (speedFeet: number | null) => void;
   /** Render the sight controls at the 44px touch floor (mobile rows). */
   compactControls?: boolean;
   onAddCharacter?: (name: string) => boolean;
@@ -99,6 +110,12 @@ export function PlayerSettingsMenu({
   onTokenSizeChange,
   tokenVisionRadius,
   onTokenVisionRadiusChange,
+  tokenSenses,
+  onTokenSensesChange,
+  tokenLight,
+  onTokenLightChange,
+  tokenSpeed,
+  onTokenSpeedChange,
   compactControls = false,
   onAddCharacter,
   isCreatingCharacter,
@@ -403,6 +420,38 @@ export function PlayerSettingsMenu({
               value={tokenVisionRadius}
               inheritsTableDefault
               onChange={onTokenVisionRadiusChange}
+              senses={tokenSenses}
+              onSensesChange={onTokenSensesChange}
+              compact={compactControls}
+            />
+          </JRPGPanel>
+        )}
+
+        {/* Carried Light — supplied for the token's owner and for a DM, the
+            same pair the server accepts it from. */}
+        {onTokenLightChange && (
+          <JRPGPanel
+            variant="simple"
+            style={{ display: "flex", flexDirection: "column", gap: "8px", padding: "12px" }}
+          >
+            <TokenLightField
+              value={tokenLight}
+              onChange={onTokenLightChange}
+              compact={compactControls}
+            />
+          </JRPGPanel>
+        )}
+
+        {/* Speed — DM-only like the sight radius, since it is what the
+            combat movement budget holds the token's owner to. */}
+        {onTokenSpeedChange && (
+          <JRPGPanel
+            variant="simple"
+            style={{ display: "flex", flexDirection: "column", gap: "8px", padding: "12px" }}
+          >
+            <TokenSpeedField
+              value={tokenSpeed}
+              onChange={onTokenSpeedChange}
               compact={compactControls}
             />
           </JRPGPanel>
@@ -0,0 +1,79 @@
+// ============================================================================
+// TOKEN LIGHT FIELD
+// ============================================================================
+// The torch, Light cantrip, lantern or candle a token carries. Sits beside
+// VisionRadiusField in the same settings menus, but its gate is different: a
+// carried light is the OWNER'S choice (the server takes it from the owner or
+// a DM), because lighting a torch shows the DM's darkness to everyone who can
+// see the flame — which is exactly what a torch does at a real table.
+//
+// Presets only: the 5e sources a player actually reaches for. The range and
+// colour come from TOKEN_LIGHT_PRESETS, so what the button promises is what
+// the fog draws.
+
+import { TOKEN_LIGHT_PRESETS, type TokenLight } from "@herobyte/shared";
+
+interface TokenLightFieldProps {
+  /** The light the token carries; undefined is none. */
+  value?: TokenLight;
+  /** null puts the light out. */
+  onChange: (light: TokenLight | null) => void;
+  /** Rendered as thumb-sized controls on the mobile surface. */
+  compact?: boolean;
+}
+
+const OPTIONS: { label: string; light: TokenLight | null }[] = [
+  { label: "None", light: null },
+  { label: "Candle", light: TOKEN_LIGHT_PRESETS.candle },
+  { label: "Torch", light: TOKEN_LIGHT_PRESETS.torch },
+  { label: "Light", light: TOKEN_LIGHT_PRESETS.light },
+  { label: "Lantern", light: TOKEN_LIGHT_PRESETS.lantern },
+];
+
+function describe(light: TokenLight | null): string {
+  if (!light) return "Carry no light";
+  const bright = light.radiusFeet / 2;
+  return `${bright} ft bright, ${bright} ft more dim`;
+}
+
+export function TokenLightField({ value, onChange, compact = false }: TokenLightFieldProps) {
+  const buttonStyle = compact
+    ? { fontSize: "0.7rem", padding: "6px 8px", minHeight: "44px", flex: "1 1 auto" }
+    : { fontSize: "0.6rem", padding: "4px 2px" };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "6px", marginTop: "4px" }}>
+      <span className="jrpg-text-small" style={{ color: "var(--jrpg-gold)" }}>
+        Carried Light
+      </span>
+      <div
+        style={
+          compact
+            ? { display: "flex", flexWrap: "wrap", gap: "6px" }
+            : { display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: "4px" }
+        }
+      >
+        {OPTIONS.map((option) => {
+          const active =
+            option.light === null ? value === undefined : value?.kind === option.light.kind;
+          return (
+            <button
+              key={option.label}
+              className={active ? "btn btn-primary" : "btn btn-secondary"}
+              style={buttonStyle}
+              // Re-selecting the active option is not an edit: every send is a
+              // room-wide snapshot re-filter and a state-file write.
+              onClick={() => {
+                if (!active) onChange(option.light);
+              }}
+              aria-pressed={active}
+              title={describe(option.light)}
+            >
+              {option.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+// ============================================================================
+// TOKEN SPEED FIELD
+// ============================================================================
+// How far a token walks in one turn, in feet — what the combat movement
+// budget holds a player to. DM-only, like the sight radius: a speed the
+// owner could raise would be a budget the owner could ignore, so every call
+// site supplies `onChange` only for a DM and the server refuses anyone else.
+//
+// Blank means "the default" (TOKEN_SPEED_DEFAULT_FEET), which covers most
+// player characters; the presets are the other speeds 5e hands out often.
+
+import { useEffect, useState } from "react";
+import { TOKEN_SPEED_DEFAULT_FEET, TOKEN_SPEED_MAX_FEET } from "@herobyte/shared";
+
+interface TokenSpeedFieldProps {
+  /** Current speed in feet; undefined means the default. */
+  value?: number;
+  /** null clears the speed back to the default. */
+  onChange: (speedFeet: number | null) => void;
+  /** Rendered as thumb-sized controls on the mobile surface. */
+  compact?: boolean;
+}
+
+const PRESETS: { label: string; value: number | null }[] = [
+  { label: `Default (${TOKEN_SPEED_DEFAULT_FEET})`, value: null },
+  { label: "25 ft", value: 25 },
+  { label: "35 ft", value: 35 },
+  { label: "40 ft", value: 40 },
+];
+
+export function TokenSpeedField({ value, onChange, compact = false }: TokenSpeedFieldProps) {
+  // Same draft discipline as VisionRadiusField: nothing sends until blur or
+  // Enter, and a commit that changes nothing stays silent.
+  const [draft, setDraft] = useState(value === undefined ? "" : String(value));
+  useEffect(() => {
+    setDraft(value === undefined ? "" : String(value));
+  }, [value]);
+
+  const commit = (raw: string) => {
+    const trimmed = raw.trim();
+    if (trimmed === "") {
+      if (value !== undefined) onChange(null);
+      return;
+    }
+    const parsed = Number(trimmed);
+    if (!Number.isFinite(parsed)) {
+      setDraft(value === undefined ? "" : String(value));
+      return;
+    }
+    const clamped = Math.min(TOKEN_SPEED_MAX_FEET, Math.max(0, Math.round(parsed)));
+    if (clamped === value) {
+      setDraft(String(clamped));
+      return;
+    }
+    onChange(clamped);
+  };
+
+  const buttonStyle = compact
+    ? { fontSize: "0.7rem", padding: "6px 8px", minHeight: "44px", flex: "1 1 auto" }
+    : { fontSize: "0.6rem", padding: "4px 2px" };
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "6px", marginTop: "4px" }}>
+      <span className="jrpg-text-small" style={{ color: "var(--jrpg-gold)" }}>
+        Speed
+      </span>
+      <div
+        style={
+          compact
+            ? { display: "flex", flexWrap: "wrap", gap: "6px" }
+            : { display: "grid", gridTemplateColumns: "repeat(2, 1fr)", gap: "4px" }
+        }
+      >
+        {PRESETS.map((preset) => {
+          const active = preset.value === null ? value === undefined : value === preset.value;
+          return (
+            <button
+              key={preset.label}
+              className={active ? "btn btn-primary" : "btn btn-secondary"}
+              style={buttonStyle}
+              onClick={() => {
+                if (!active) onChange(preset.value);
+              }}
+              aria-pressed={active}
+            >
+              {preset.label}
+            </button>
+          );
+        })}
+      </div>
+      <label style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+        <span className="jrpg-text-small">Custom</span>
+        <input
+          aria-label="Speed in feet"
+          type="number"
+          inputMode="numeric"
+          min={0}
+          max={TOKEN_SPEED_MAX_FEET}
+          step={5}
+          placeholder={String(TOKEN_SPEED_DEFAULT_FEET)}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onBlur={(event) => commit(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") commit((event.target as HTMLInputElement).value);
+          }}
+          style={{ width: compact ? "100%" : "70px", minHeight: compact ? "44px" : undefined }}
+        />
+        <span className="jrpg-text-small">ft</span>
+      </label>
+    </div>
+  );
+}
@@ -10,9 +10,22 @@
 // (see EntitiesPanel), and the server refuses a non-DM change regardless. A
 // radius can only ever NARROW what the walls already allow, so a player able
 // to clear their own would just undo the darkness the DM authored.
+//
+// The per-token control also carries the token's special SENSES when the call
+// site supplies `onSensesChange` — one feet box per sense, blank for none.
+// The table default has no senses (a sense belongs to a creature, not to a
+// room), so DefaultVisionControl simply never passes it. Senses widen rather
+// than narrow, which makes the DM-only gate matter more, not less.
 
 import { useEffect, useState } from "react";
-import { VISION_RADIUS_MAX_FEET, VISION_RADIUS_MIN_FEET } from "@herobyte/shared";
+import {
+  SENSE_KINDS,
+  VISION_RADIUS_MAX_FEET,
+  VISION_RADIUS_MIN_FEET,
+  coerceSenseProfile,
+  type SenseKind,
+  type SenseProfile,
+} from "@herobyte/shared";
 
 interface VisionRadiusFieldProps {
   /** Current value in feet; undefined means unlimited. */
@@ -37,8 +50,19 @@ interface VisionRadiusFieldProps {
    * default IS unlimited, so the label stays honest either way.
    */
   inheritsTableDefault?: boolean;
+  /** The token's special senses; undefined is none. */
+  senses?: SenseProfile;
+  /** Supplied only on the per-token control. null clears every sense. */
+  onSensesChange?: (senses: SenseProfile | null) => void;
 }
 
+const SENSE_LABELS: Record<SenseKind, { label: string; title: string }> = {
+  darkvision: { label: "Darkvision", title: "Sees darkness as dim light out to this range" },
+  blindsight: { label: "Blindsight", title: "Perceives without sight, even blinded; walls block" },
+  tremorsense: { label: "Tremorsense", title: "Feels tokens through walls; reveals no map" },
+  truesight: { label: "Truesight", title: "Sees darkness as bright light out to this range" },
+};
+
 /** Darkvision as the rulebooks hand it out, plus the two ends of the scale. */
 const PRESETS: { label: string; value: number | null }[] = [
   { label: "Unlimited", value: null },
@@ -56,6 +80,8 @@ export function VisionRadiusField({
   subject = "This token",
   inputAriaLabel = "Sight radius in feet",
   inheritsTableDefault = false,
+  senses,
+  onSensesChange,
 }: VisionRadiusFieldProps) {
   const clearLabel = inheritsTableDefault ? "Table Default" : "Unlimited";
   const clearTitle = inheritsTableDefault
@@ -154,6 +180,98 @@ export function VisionRadiusField({
         />
         <span className="jrpg-text-small">ft</span>
       </label>
+      {onSensesChange && (
+        <>
+          <span className="jrpg-text-small" style={{ color: "var(--jrpg-gold)" }}>
+            Senses
+          </span>
+          <div
+            style={
+              compact
+                ? { display: "flex", flexDirection: "column", gap: "6px" }
+                : { display: "grid", gridTemplateColumns: "repeat(2, 1fr)", gap: "4px" }
+            }
+          >
+            {SENSE_KINDS.map((kind) => (
+              <SenseInput
+                key={kind}
+                kind={kind}
+                value={senses?.[kind]}
+                compact={compact}
+                onCommit={(feet) => {
+                  // Rebuilt from the authoritative profile, not a local copy,
+                  // so an edit here cannot undo another DM's edit to a
+                  // different sense.
+                  const next = coerceSenseProfile({ ...senses, [kind]: feet ?? 0 });
+                  onSensesChange(next ?? null);
+                }}
+              />
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 }
+
+/**
+ * One sense's range. Same draft discipline as the custom radius above: nothing
+ * sends until blur or Enter, and a commit that changes nothing stays silent.
+ */
+function SenseInput({
+  kind,
+  value,
+  compact,
+  onCommit,
+}: {
+  kind: SenseKind;
+  value?: number;
+  compact: boolean;
+  onCommit: (feet: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value === undefined ? "" : String(value));
+  useEffect(() => {
+    setDraft(value === undefined ? "" : String(value));
+  }, [value]);
+
+  const commit = (raw: string) => {
+    const trimmed = raw.trim();
+    const parsed = trimmed === "" ? 0 : Number(trimmed);
+    if (!Number.isFinite(parsed)) {
+      setDraft(value === undefined ? "" : String(value));
+      return;
+    }
+    const clamped = Math.min(VISION_RADIUS_MAX_FEET, Math.max(0, parsed));
+    const next = clamped > 0 ? clamped : undefined;
+    if (next === value) {
+      setDraft(next === undefined ? "" : String(next));
+      return;
+    }
+    onCommit(next ?? null);
+  };
+
+  const { label, title } = SENSE_LABELS[kind];
+  return (
+    <label style={{ display: "flex", alignItems: "center", gap: "6px" }} title={title}>
+      <span className="jrpg-text-small" style={{ flex: 1 }}>
+        {label}
+      </span>
+      <input
+        aria-label={`${label} in feet`}
+        type="number"
+        inputMode="numeric"
+        min={0}
+        max={VISION_RADIUS_MAX_FEET}
+        step={5}
+        placeholder="—"
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={(event) => commit(event.target.value)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter") commit((event.target as HTMLInputElement).value);
+        }}
+        style={{ width: compact ? "96px" : "52px", minHeight: compact ? "44px" : undefined }}
+      />
+    </label>
+  );
+}
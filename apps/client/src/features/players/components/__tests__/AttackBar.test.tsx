@@ -0,0 +1,114 @@
+/**
+ * Tests for a card's attack bar: an attack is rolled only at a picked target,
+ * only the DM can ask for the damage to land with the roll, and the attack
+ * list editor refuses damage the server could not roll or an AC out of range.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import type { SnapshotCharacter } from "@herobyte/shared";
+import { AttackBar } from "../AttackBar";
+
+afterEach(() => cleanup());
+
+function character(overrides: Partial<SnapshotCharacter>): SnapshotCharacter {
+  return { id: "c", name: "C", hp: 10, maxHp: 10, type: "npc", ...overrides } as SnapshotCharacter;
+}
+
+const GOBLIN = character({
+  id: "goblin-1",
+  name: "Goblin 1",
+  attacks: [{ name: "Scimitar", toHit: 4, damage: "1d6+2", damageType: "slashing" }],
+});
+const ARIA = character({ id: "char-1", name: "Aria", type: "pc" });
+
+function renderBar(isDM: boolean, attacker = GOBLIN) {
+  const onRoll = vi.fn();
+  const onSave = vi.fn();
+  const onSaveDefenses = vi.fn();
+  render(
+    <AttackBar
+      attacker={attacker}
+      targets={[attacker, ARIA]}
+      isDM={isDM}
+      onRoll={onRoll}
+      onSave={onSave}
+      onSaveDefenses={onSaveDefenses}
+    />,
+  );
+  return { onRoll, onSave, onSaveDefenses };
+}
+
+describe("AttackBar", () => {
+  it("rolls an attack only once a target is picked, and never at the attacker", () => {
+    const { onRoll } = renderBar(false);
+    const scimitar = screen.getByRole("button", { name: "Scimitar +4" });
+    expect(scimitar).toBeDisabled();
+    expect(screen.queryByRole("option", { name: "Goblin 1" })).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("Target for Goblin 1"), {
+      target: { value: "char-1" },
+    });
+    fireEvent.click(scimitar);
+
+    expect(onRoll).toHaveBeenCalledWith({
+      attackerId: "goblin-1",
+      attackName: "Scimitar",
+      targetId: "char-1",
+    });
+  });
+
+  it("lets the DM apply the damage with the roll", () => {
+    const { onRoll } = renderBar(true);
+
+    fireEvent.change(screen.getByLabelText("Target for Goblin 1"), {
+      target: { value: "char-1" },
+    });
+    fireEvent.click(screen.getByLabelText("Auto-apply damage"));
+    fireEvent.click(screen.getByRole("button", { name: "Scimitar +4" }));
+
+    expect(onRoll).toHaveBeenCalledWith(expect.objectContaining({ applyDamage: true }));
+  });
+
+  it("does not offer auto-apply to a player", () => {
+    renderBar(false);
+
+    expect(screen.queryByLabelText("Auto-apply damage")).not.toBeInTheDocument();
+  });
+
+  it("saves an edited attack list once every damage formula rolls", () => {
+    const { onSave } = renderBar(false, character({ id: "char-2", name: "Bran", type: "pc" }));
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit Bran’s attacks" }));
+    fireEvent.click(screen.getByRole("button", { name: "+ Attack" }));
+    fireEvent.change(screen.getByLabelText("Attack name"), { target: { value: "Longsword" } });
+    fireEvent.change(screen.getByLabelText("Attack to-hit"), { target: { value: "5" } });
+    fireEvent.change(screen.getByLabelText("Attack damage"), { target: { value: "sharp" } });
+    const save = screen.getByRole("button", { name: "Save Attacks" });
+    expect(save).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Attack damage"), { target: { value: "1d8+3" } });
+    fireEvent.click(save);
+
+    expect(onSave).toHaveBeenCalledWith([{ name: "Longsword", toHit: 5, damage: "1d8+3" }]);
+  });
+
+  it("shows and edits the character's AC and saving throws", () => {
+    const { onSaveDefenses } = renderBar(
+      false,
+      character({ id: "char-2", name: "Bran", type: "pc", ac: 16, savingThrows: { con: 3 } }),
+    );
+    expect(screen.getByTestId("defense-summary")).toHaveTextContent("AC 16 · CON +3");
+
+    fireEvent.click(screen.getByRole("button", { name: "Edit Bran’s attacks" }));
+    fireEvent.change(screen.getByLabelText("Armor class"), { target: { value: "99" } });
+    expect(screen.getByRole("button", { name: "Save Attacks" })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Armor class"), { target: { value: "17" } });
+    fireEvent.change(screen.getByLabelText("CON save"), { target: { value: "" } });
+    fireEvent.change(screen.getByLabelText("DEX save"), { target: { value: "-1" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save Attacks" }));
+
+    expect(onSaveDefenses).toHaveBeenCalledWith({ ac: 17, savingThrows: { dex: -1 } });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for a card's condition badges: everyone sees the name and rounds
+ * left, only an editor can add or remove one, and a condition is added with
+ * the source and clock the form was given.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import type { Condition, SnapshotCharacter } from "@herobyte/shared";
+import { ConditionBar } from "../ConditionBar";
+
+afterEach(() => cleanup());
+
+function character(overrides: Partial<SnapshotCharacter>): SnapshotCharacter {
+  return { id: "c", name: "C", hp: 10, maxHp: 10, type: "pc", ...overrides } as SnapshotCharacter;
+}
+
+const POISONED: Condition = { key: "poisoned", source: "Giant spider", rounds: 2 };
+const ARIA = character({ id: "aria", name: "Aria", conditions: [POISONED, { key: "prone" }] });
+const MAGE = character({ id: "mage", name: "Mage", type: "npc" });
+
+describe("ConditionBar", () => {
+  it("shows each condition with its rounds and source, read-only without onSave", () => {
+    render(<ConditionBar character={ARIA} characters={[ARIA, MAGE]} />);
+
+    const badges = screen.getAllByTestId("condition-badge");
+    expect(badges.map((badge) => badge.textContent)).toEqual(["Poisoned · 2", "Prone"]);
+    expect(badges[0]).toHaveAttribute("title", "Poisoned, 2 rounds (Giant spider)");
+    expect(screen.queryByRole("button")).not.toBeInTheDocument();
+  });
+
+  it("renders nothing for a read-only card with no conditions", () => {
+    render(<ConditionBar character={MAGE} characters={[ARIA, MAGE]} />);
+
+    expect(screen.queryByTestId("condition-bar")).not.toBeInTheDocument();
+  });
+
+  it("removes a condition and keeps the rest", () => {
+    const onSave = vi.fn();
+    render(<ConditionBar character={ARIA} characters={[ARIA, MAGE]} onSave={onSave} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Remove Prone" }));
+
+    expect(onSave).toHaveBeenCalledWith([POISONED]);
+  });
+
+  it("adds a custom condition that ends with another character's turn", () => {
+    const onSave = vi.fn();
+    render(<ConditionBar character={ARIA} characters={[ARIA, MAGE]} onSave={onSave} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Add a condition to Aria" }));
+    fireEvent.change(screen.getByLabelText("Condition"), { target: { value: "custom" } });
+    const add = screen.getByRole("button", { name: "Add" });
+    expect(add).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText("Condition name"), { target: { value: "Hexed" } });
+    fireEvent.change(screen.getByLabelText("Rounds"), { target: { value: "0" } });
+    expect(add).toBeDisabled();
+    fireEvent.change(screen.getByLabelText("Rounds"), { target: { value: "1" } });
+    fireEvent.change(screen.getByLabelText("Ticks on"), { target: { value: "end:mage" } });
+    fireEvent.click(add);
+
+    expect(onSave).toHaveBeenCalledWith([
+      ...ARIA.conditions!,
+      {
+        key: "custom",
+        label: "Hexed",
+        rounds: 1,
+        endsAt: { characterId: "mage", boundary: "end" },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import { DeathSaveTracker } from "../DeathSaveTracker";
+
+afterEach(() => cleanup());
+
+describe("DeathSaveTracker", () => {
+  it("fills a pip per success and failure", () => {
+    const onChange = vi.fn();
+    render(<DeathSaveTracker deathSaves={{ successes: 1, failures: 2 }} onChange={onChange} />);
+
+    expect(screen.getByRole("button", { name: "Success 1" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+    expect(screen.getByRole("button", { name: "Success 2" })).toHaveAttribute(
+      "aria-pressed",
+      "false",
+    );
+    expect(screen.getByRole("button", { name: "Failure 2" })).toHaveAttribute(
+      "aria-pressed",
+      "true",
+    );
+  });
+
+  it("sets the count from a pip, and takes the last filled one back off", () => {
+    const onChange = vi.fn();
+    render(<DeathSaveTracker deathSaves={{ successes: 1, failures: 2 }} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "Success 3" }));
+    expect(onChange).toHaveBeenLastCalledWith({ successes: 3, failures: 2 });
+
+    fireEvent.click(screen.getByRole("button", { name: "Failure 2" }));
+    expect(onChange).toHaveBeenLastCalledWith({ successes: 1, failures: 1 });
+  });
+
+  it("rolls through the server until the PC is stable", () => {
+    const onRoll = vi.fn();
+    const { rerender } = render(<DeathSaveTracker onRoll={onRoll} />);
+
+    fireEvent.click(screen.getByRole("button", { name: /roll death save/i }));
+    expect(onRoll).toHaveBeenCalledTimes(1);
+
+    rerender(<DeathSaveTracker deathSaves={{ successes: 3, failures: 1 }} onRoll={onRoll} />);
+    expect(screen.getByTestId("death-save-tracker")).toHaveTextContent("Stable");
+    expect(screen.queryByRole("button", { name: /roll death save/i })).not.toBeInTheDocument();
+  });
+
+  it("is read-only without handlers", () => {
+    render(<DeathSaveTracker deathSaves={{ successes: 2, failures: 0 }} />);
+
+    expect(screen.queryAllByRole("button")).toHaveLength(0);
+  });
+});
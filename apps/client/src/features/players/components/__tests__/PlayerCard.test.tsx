@@ -2478,6 +2478,36 @@ describe("PlayerCard", () => {
     });
   });
 
+  // ============================================================================
+  // TESTS - DEATH SAVES
+  // ============================================================================
+
+  describe("Death Saves", () => {
+    it("shows the tracker only while a tally is passed", () => {
+      const { rerender } = render(<PlayerCard {...createDefaultProps()} />);
+      expect(screen.queryByTestId("death-save-tracker")).not.toBeInTheDocument();
+
+      rerender(
+        <PlayerCard {...createDefaultProps({ deathSaves: { successes: 0, failures: 0 } })} />,
+      );
+      expect(screen.getByTestId("death-save-tracker")).toBeInTheDocument();
+    });
+
+    it("re-renders when only the tally changes", () => {
+      const { rerender } = render(
+        <PlayerCard {...createDefaultProps({ deathSaves: { successes: 1, failures: 0 } })} />,
+      );
+      rerender(
+        <PlayerCard {...createDefaultProps({ deathSaves: { successes: 1, failures: 2 } })} />,
+      );
+
+      expect(screen.getByTestId("death-save-tracker")).toHaveTextContent("Death Saves");
+      expect(
+        screen.getByTestId("death-save-tracker").querySelectorAll('[data-filled="true"]'),
+      ).toHaveLength(3);
+    });
+  });
+
   // ============================================================================
   // TESTS - COMPONENT METADATA
   // ============================================================================
@@ -0,0 +1,36 @@
+// The owner's control for a carried light. Every send is a room-wide snapshot
+// re-filter, so these pin that a click on the lit option stays silent, and
+// that "None" is null — the one spelling of "put it out" the server accepts.
+
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { TOKEN_LIGHT_PRESETS } from "@herobyte/shared";
+import { TokenLightField } from "../TokenLightField";
+
+function option(name: string) {
+  return screen.getByRole("button", { name });
+}
+
+describe("TokenLightField", () => {
+  it("sends the preset for each light and null for None", () => {
+    const onChange = vi.fn();
+    const view = render(<TokenLightField onChange={onChange} />);
+
+    fireEvent.click(option("Torch"));
+    expect(onChange).toHaveBeenLastCalledWith(TOKEN_LIGHT_PRESETS.torch);
+
+    view.rerender(<TokenLightField value={TOKEN_LIGHT_PRESETS.torch} onChange={onChange} />);
+    fireEvent.click(option("None"));
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it("marks the carried light and stays silent when it is clicked again", () => {
+    const onChange = vi.fn();
+    render(<TokenLightField value={TOKEN_LIGHT_PRESETS.lantern} onChange={onChange} />);
+
+    expect(option("Lantern").getAttribute("aria-pressed")).toBe("true");
+    expect(option("None").getAttribute("aria-pressed")).toBe("false");
+    fireEvent.click(option("Lantern"));
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
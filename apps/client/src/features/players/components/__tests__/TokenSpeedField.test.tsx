@@ -0,0 +1,35 @@
+// The DM's control for a token's walking speed. Pins that "Default" is null —
+// the one spelling of "back to 30 ft" the server accepts — and that the custom
+// box sends only a real change, clamped to what the server will take.
+
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { TOKEN_SPEED_MAX_FEET } from "@herobyte/shared";
+import { TokenSpeedField } from "../TokenSpeedField";
+
+describe("TokenSpeedField", () => {
+  it("sends a preset, and null for the default", () => {
+    const onChange = vi.fn();
+    const view = render(<TokenSpeedField onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "40 ft" }));
+    expect(onChange).toHaveBeenLastCalledWith(40);
+
+    view.rerender(<TokenSpeedField value={40} onChange={onChange} />);
+    fireEvent.click(screen.getByRole("button", { name: "Default (30)" }));
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it("commits a custom speed on Enter, clamped, and stays silent when nothing changed", () => {
+    const onChange = vi.fn();
+    render(<TokenSpeedField value={25} onChange={onChange} />);
+    const input = screen.getByLabelText("Speed in feet");
+
+    fireEvent.blur(input, { target: { value: "25" } });
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: "9000" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(onChange).toHaveBeenCalledWith(TOKEN_SPEED_MAX_FEET);
+  });
+});
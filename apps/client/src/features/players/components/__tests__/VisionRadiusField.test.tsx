@@ -214,3 +214,46 @@ describe("VisionRadiusField under a table default", () => {
     expect(screen.queryByRole("button", { name: "Table Default" })).not.toBeInTheDocument();
   });
 });
+
+describe("VisionRadiusField senses", () => {
+  function sensesField(senses?: Record<string, number>) {
+    const onSensesChange = vi.fn();
+    render(
+      <VisionRadiusField
+        value={undefined}
+        onChange={vi.fn()}
+        senses={senses}
+        onSensesChange={onSensesChange}
+      />,
+    );
+    return onSensesChange;
+  }
+
+  it("renders no senses without a handler — the table default has none", () => {
+    render(<VisionRadiusField value={undefined} onChange={vi.fn()} />);
+    expect(screen.queryByLabelText("Darkvision in feet")).not.toBeInTheDocument();
+  });
+
+  it("adds a sense on blur, keeping the senses already set", () => {
+    const onSensesChange = sensesField({ blindsight: 10 });
+    const darkvision = screen.getByLabelText("Darkvision in feet");
+    fireEvent.change(darkvision, { target: { value: "60" } });
+    fireEvent.blur(darkvision);
+    expect(onSensesChange).toHaveBeenCalledWith({ darkvision: 60, blindsight: 10 });
+  });
+
+  it("clears a sense when emptied, and sends null when none are left", () => {
+    const onSensesChange = sensesField({ tremorsense: 30 });
+    const tremorsense = screen.getByLabelText("Tremorsense in feet");
+    fireEvent.change(tremorsense, { target: { value: "" } });
+    fireEvent.blur(tremorsense);
+    expect(onSensesChange).toHaveBeenCalledWith(null);
+  });
+
+  it("stays silent on a blur that changed nothing", () => {
+    const onSensesChange = sensesField({ truesight: 120 });
+    fireEvent.blur(screen.getByLabelText("Truesight in feet"));
+    fireEvent.blur(screen.getByLabelText("Darkvision in feet"));
+    expect(onSensesChange).not.toHaveBeenCalled();
+  });
+});
@@ -8,3 +8,6 @@ export { PlayerSettingsMenu } from "./PlayerSettingsMenu";
 export { CharacterCreationModal } from "./CharacterCreationModal";
 export { NpcCard } from "./NpcCard";
 export { NpcSettingsMenu } from "./NpcSettingsMenu";
+export { AttackBar } from "./AttackBar";
+export { ConditionBar } from "./ConditionBar";
+export { DeathSaveTracker } from "./DeathSaveTracker";
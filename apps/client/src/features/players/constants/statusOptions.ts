@@ -3,6 +3,8 @@
 // ============================================================================
 // Comprehensive list of D&D status effects for character tokens
 
+import { conditionName, type Condition } from "@herobyte/shared";
+
 export interface StatusOption {
   value: string;
   emoji: string;
@@ -62,3 +64,21 @@ export const STATUS_OPTIONS: StatusOption[] = [
   { value: "dazed", emoji: "😵‍💫", label: "Dazed" },
   { value: "confused", emoji: "😕", label: "Confused" },
 ];
+
+/**
+ * A structured condition as a token badge. It borrows the emoji of the status
+ * with the same name ("exhaustion" is the "exhausted" status), and its label
+ * carries what a status cannot: the rounds left and where it came from.
+ */
+export function conditionBadge(condition: Condition): StatusOption {
+  const status = condition.key === "exhaustion" ? "exhausted" : condition.key;
+  const emoji = STATUS_OPTIONS.find((option) => option.value === status)?.emoji ?? "✨";
+  return { value: `condition:${condition.key}`, emoji, label: conditionText(condition) };
+}
+
+/** "Poisoned, 2 rounds (Giant spider)" — a condition in one line. */
+export function conditionText(condition: Condition): string {
+  const { rounds, source } = condition;
+  const clock = rounds === undefined ? "" : `, ${rounds} round${rounds === 1 ? "" : "s"}`;
+  return `${conditionName(condition)}${clock}${source ? ` (${source})` : ""}`;
+}
@@ -195,6 +195,7 @@ export function useSessionManagement({
           snapshot: session.snapshot,
           mapDocuments: session.mapDocuments,
           liveMapDocumentId: session.liveMapDocumentId,
+          scenes: session.scenes,
         });
 
         if (warnings.length > 0) {
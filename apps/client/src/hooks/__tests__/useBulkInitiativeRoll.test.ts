@@ -60,6 +60,44 @@ describe("useBulkInitiativeRoll", () => {
     expect(mockSetInitiative).toHaveBeenCalledWith("1", expect.any(Number), 0);
   });
 
+  describe("group and side initiative", () => {
+    const goblin = (id: string, extra: Partial<Character> = {}): Character => ({
+      id,
+      name: id,
+      type: "npc",
+      hp: 7,
+      maxHp: 7,
+      initiativeGroup: "goblins",
+      ...extra,
+    });
+
+    it("rolls once for a batch in group mode", async () => {
+      const npcs = [
+        goblin("g1"),
+        goblin("g2"),
+        goblin("g3"),
+        goblin("ogre", { initiativeGroup: undefined }),
+      ];
+
+      const { result } = renderHook(() => useBulkInitiativeRoll(npcs, mockSetInitiative, "group"));
+      await act(async () => result.current.rollAllInitiative());
+
+      const rolls = new Map(mockSetInitiative.mock.calls.map(([id, value]) => [id, value]));
+      expect(rolls.get("g2")).toBe(rolls.get("g1"));
+      expect(rolls.get("g3")).toBe(rolls.get("g1"));
+      expect(rolls.has("ogre")).toBe(true);
+    });
+
+    it("joins a newcomer to its side's existing roll in side mode", async () => {
+      const npcs = [goblin("g1", { initiative: 14 }), goblin("late", { initiativeGroup: "other" })];
+
+      const { result } = renderHook(() => useBulkInitiativeRoll(npcs, mockSetInitiative, "side"));
+      await act(async () => result.current.rollAllInitiative());
+
+      expect(mockSetInitiative).toHaveBeenCalledWith("late", 14, 0);
+    });
+  });
+
   describe("against the server's rate limiter", () => {
     const many = (n: number): Character[] =>
       Array.from({ length: n }, (_, i) => ({
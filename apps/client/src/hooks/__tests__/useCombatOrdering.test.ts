@@ -204,6 +204,88 @@ describe("useCombatOrdering", () => {
       expect(result.current.orderedEntities[0].character.id).toBe("char-1a");
       expect(result.current.orderedEntities[1].character.id).toBe("char-1b");
     });
+
+    it("breaks ties the way the server does: higher modifier, then PC before NPC", () => {
+      const players = [createMockPlayer("player-1")];
+      const characters = [
+        createMockCharacter("npc-1", "", 12, "npc"),
+        createMockCharacter("char-1", "player-1", 12),
+        { ...createMockCharacter("npc-2", "", 12, "npc"), initiativeModifier: 3 },
+      ];
+
+      const { result } = renderHook(() =>
+        useCombatOrdering({
+          players,
+          characters,
+          tokens: [],
+          currentUid: "player-1",
+          combatActive: true,
+        }),
+      );
+
+      expect(result.current.orderedEntities.map((entity) => entity.character.id)).toEqual([
+        "npc-2",
+        "char-1",
+        "npc-1",
+      ]);
+    });
+
+    it("lays the DM's arrangement over the initiative sort", () => {
+      const players = [createMockPlayer("player-1")];
+      const characters = [
+        createMockCharacter("char-1", "player-1", 20),
+        createMockCharacter("npc-1", "", 15, "npc"),
+        createMockCharacter("npc-2", "", 10, "npc"),
+      ];
+
+      const { result } = renderHook(() =>
+        useCombatOrdering({
+          players,
+          characters,
+          tokens: [],
+          currentUid: "player-1",
+          combatActive: true,
+          initiativeOrder: ["npc-2", "char-1"],
+        }),
+      );
+
+      // npc-1 is not in the arrangement, so it goes after char-1 as the sort has it
+      expect(result.current.orderedEntities.map((entity) => entity.character.id)).toEqual([
+        "npc-2",
+        "char-1",
+        "npc-1",
+      ]);
+    });
+  });
+
+  describe("shared turns", () => {
+    it("marks every member of the group whose turn it is in group mode", () => {
+      const players = [createMockPlayer("player-1")];
+      const characters = [
+        createMockCharacter("char-1", "player-1", 20),
+        { ...createMockCharacter("gob-1", "", 12, "npc"), initiativeGroup: "goblins" },
+        { ...createMockCharacter("gob-2", "", 12, "npc"), initiativeGroup: "goblins" },
+        createMockCharacter("ogre", "", 5, "npc"),
+      ];
+
+      const { result } = renderHook(() =>
+        useCombatOrdering({
+          players,
+          characters,
+          tokens: [],
+          currentUid: "player-1",
+          combatActive: true,
+          currentTurnCharacterId: "gob-1",
+          combatMode: "group",
+        }),
+      );
+
+      expect(
+        result.current.orderedEntities
+          .filter((entity) => entity.isCurrentTurn)
+          .map((entity) => entity.character.id),
+      ).toEqual(["gob-1", "gob-2"]);
+    });
   });
 
   describe("entity metadata", () => {
@@ -833,4 +833,57 @@ describe("useWebSocket", () => {
       expect(result.current.remoteMeasurements).toEqual([]);
     });
   });
+
+  describe("Remote drag routes", () => {
+    // Relayed like measurements: a drag's route lives only here on the
+    // receiving client, and the drop is what clears it.
+    async function connected(uid = "me") {
+      const hook = renderHook(() =>
+        useWebSocket({ url: "ws://localhost:3001", uid, autoConnect: true }),
+      );
+      await act(async () => {
+        await vi.advanceTimersByTimeAsync(20);
+      });
+      return { ...hook, ws: wsInstances[0] };
+    }
+
+    const ROUTE = { from: { x: 1, y: 1 }, waypoints: [{ x: 1, y: 3 }] };
+    const preview = (uid: string, object: Record<string, unknown>) => ({
+      t: "drag-preview",
+      preview: {
+        uid,
+        timestamp: 1,
+        objects: [{ tokenId: "t1", id: "token:t1", x: 4, y: 3, ...object }],
+      },
+    });
+
+    it("keeps another player's routed drag until its route-less drop arrives", async () => {
+      const { result, ws } = await connected();
+      await act(async () => {
+        ws.simulateMessage(preview("bob", { route: ROUTE }));
+      });
+      expect(result.current.remoteDragRoutes).toEqual([
+        { tokenId: "t1", id: "token:t1", x: 4, y: 3, route: ROUTE },
+      ]);
+
+      await act(async () => {
+        ws.simulateMessage(preview("bob", {}));
+      });
+      expect(result.current.remoteDragRoutes).toEqual([]);
+    });
+
+    it("drops your own echo and forgets a dragger who left", async () => {
+      const { result, ws } = await connected("me");
+      await act(async () => {
+        ws.simulateMessage(preview("me", { route: ROUTE }));
+      });
+      expect(result.current.remoteDragRoutes).toEqual([]);
+
+      await act(async () => {
+        ws.simulateMessage(preview("bob", { route: ROUTE }));
+        ws.simulateMessage({ users: ["me"], tokens: [], players: [], characters: [] });
+      });
+      expect(result.current.remoteDragRoutes).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,103 @@
+/**
+ * useAttacks Hook
+ *
+ * The attack messages: rolling a named attack at a target, the DM applying a
+ * logged attack's damage, and saving a character's attack list and the
+ * defenses (AC, saving throws) attacks are rolled against.
+ * Nothing is rolled or subtracted here — the server reads the to-hit bonus
+ * and damage formula off the attacker's own record, and the result arrives
+ * in the next snapshot as a roll-log entry.
+ *
+ * @module hooks/useAttacks
+ */
+
+import { useCallback } from "react";
+import type { ClientMessage, DiceRollMode, NamedAttack, SavingThrows } from "@herobyte/shared";
+
+export interface UseAttacksOptions {
+  /**
+   * Function to send messages to the server
+   */
+  sendMessage: (message: ClientMessage) => void;
+}
+
+/** What an attack button asks for. `applyDamage` is honoured for the DM only. */
+export interface AttackRequest {
+  attackerId: string;
+  attackName: string;
+  targetId: string;
+  mode?: DiceRollMode;
+  applyDamage?: boolean;
+}
+
+/** A character's AC and saving throws; whichever is absent is cleared. */
+export interface CharacterDefenses {
+  ac?: number;
+  savingThrows?: SavingThrows;
+}
+
+export interface UseAttacksReturn {
+  /** Ask the server to roll one of the attacker's attacks at a target. */
+  rollAttack: (request: AttackRequest) => void;
+  /** DM-only: take a logged attack's damage off its target (once). */
+  applyAttackDamage: (rollId: string) => void;
+  /** Owner or DM: replace a character's attack list. */
+  setCharacterAttacks: (characterId: string, attacks: NamedAttack[]) => void;
+  /** Owner or DM: set a character's AC and saving throws. */
+  setCharacterDefenses: (characterId: string, defenses: CharacterDefenses) => void;
+}
+
+/**
+ * Hook to send attack rolls and attack edits.
+ *
+ * @example
+ * ```tsx
+ * const { rollAttack } = useAttacks({ sendMessage });
+ *
+ * rollAttack({ attackerId: 'npc-1', attackName: 'Scimitar', targetId: 'char-2' });
+ * ```
+ */
+export function useAttacks(options: UseAttacksOptions): UseAttacksReturn {
+  const { sendMessage } = options;
+
+  const rollAttack = useCallback(
+    ({ attackerId, attackName, targetId, mode, applyDamage }: AttackRequest) => {
+      const message: ClientMessage = { t: "roll-attack", attackerId, attackName, targetId };
+      if (mode && mode !== "normal") message.mode = mode;
+      if (applyDamage) message.applyDamage = true;
+      sendMessage(message);
+    },
+    [sendMessage],
+  );
+
+  const applyAttackDamage = useCallback(
+    (rollId: string) => {
+      sendMessage({ t: "apply-attack-damage", rollId });
+    },
+    [sendMessage],
+  );
+
+  const setCharacterAttacks = useCallback(
+    (characterId: string, attacks: NamedAttack[]) => {
+      sendMessage({ t: "set-character-attacks", characterId, attacks });
+    },
+    [sendMessage],
+  );
+
+  const setCharacterDefenses = useCallback(
+    (characterId: string, { ac, savingThrows }: CharacterDefenses) => {
+      const message: ClientMessage = { t: "set-character-defenses", characterId };
+      if (ac !== undefined) message.ac = ac;
+      if (savingThrows) message.savingThrows = savingThrows;
+      sendMessage(message);
+    },
+    [sendMessage],
+  );
+
+  return {
+    rollAttack,
+    applyAttackDamage,
+    setCharacterAttacks,
+    setCharacterDefenses,
+  };
+}
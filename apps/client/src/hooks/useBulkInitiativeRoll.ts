@@ -4,7 +4,7 @@
 // Custom hook for rolling initiative for multiple NPCs at once
 
 import { useState, useCallback } from "react";
-import type { SnapshotCharacter } from "@herobyte/shared";
+import { turnGroupKey, type CombatMode, type SnapshotCharacter } from "@herobyte/shared";
 
 /**
  * How many set-initiative messages to send before pausing for the rate limiter.
@@ -30,15 +30,19 @@ const RATE_LIMIT_WINDOW_MS = 1100;
  * Hook for bulk initiative rolling
  *
  * Provides functionality to roll initiative for all NPCs that don't
- * already have an initiative value set.
+ * already have an initiative value set. Under group or side initiative
+ * (shared combatModes.ts) it rolls once per group instead, and an NPC whose
+ * group already has a roll joins it at that value.
  *
  * @param npcs - Array of NPC characters
  * @param onSetInitiative - Callback to set initiative for a character
+ * @param combatMode - The room's combat mode (absent = individual)
  * @returns Object with rollAllInitiative function and isRolling state
  */
 export function useBulkInitiativeRoll(
   npcs: SnapshotCharacter[],
   onSetInitiative: (characterId: string, initiative: number, initiativeModifier: number) => void,
+  combatMode: CombatMode = "individual",
 ) {
   const [isRolling, setIsRolling] = useState(false);
 
@@ -46,8 +50,8 @@ export function useBulkInitiativeRoll(
    * Roll initiative for all NPCs without existing initiative values
    *
    * For each NPC without initiative:
-   * - Rolls d20 (1-20)
-   * - Adds the NPC's initiative modifier
+   * - Rolls d20 (1-20), or reuses its group's roll
+   * - Adds the NPC's initiative modifier (the roller's, for a group)
    * - Sends update to server
    *
    * @returns Promise resolving to the number of NPCs that had initiative rolled
@@ -60,6 +64,16 @@ export function useBulkInitiativeRoll(
       return 0;
     }
 
+    // Every member is still sent its own set-initiative: the server spreads
+    // a roll across a batch in group mode, but not across a side.
+    const groupRolls = new Map<string, number>();
+    for (const npc of npcs) {
+      const key = turnGroupKey(npc, combatMode);
+      if (npc.initiative !== undefined && !groupRolls.has(key)) {
+        groupRolls.set(key, npc.initiative);
+      }
+    }
+
     setIsRolling(true);
 
     try {
@@ -72,14 +86,14 @@ export function useBulkInitiativeRoll(
           await new Promise((resolve) => setTimeout(resolve, RATE_LIMIT_WINDOW_MS));
         }
 
-        // Roll d20
-        const roll = Math.floor(Math.random() * 20) + 1;
-
         // Get modifier (default to 0 if not set)
         const modifier = npc.initiativeModifier ?? 0;
 
-        // Calculate final initiative
-        const finalInitiative = roll + modifier;
+        // Roll d20 once per group, or take the group's roll
+        const key = turnGroupKey(npc, combatMode);
+        const finalInitiative =
+          groupRolls.get(key) ?? Math.floor(Math.random() * 20) + 1 + modifier;
+        groupRolls.set(key, finalInitiative);
 
         // Send to server
         onSetInitiative(npc.id, finalInitiative, modifier);
@@ -89,7 +103,7 @@ export function useBulkInitiativeRoll(
     } finally {
       setIsRolling(false);
     }
-  }, [npcs, onSetInitiative]);
+  }, [npcs, onSetInitiative, combatMode]);
 
   return {
     rollAllInitiative,
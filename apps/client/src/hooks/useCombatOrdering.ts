@@ -5,8 +5,13 @@
 // Separates combat ordering logic from presentation concerns
 
 import { useMemo } from "react";
-import type { Player, Token, SnapshotCharacter } from "@herobyte/shared";
-import { shouldCharacterParticipateInCombat } from "@herobyte/shared";
+import type { CombatMode, Player, Token, SnapshotCharacter } from "@herobyte/shared";
+import {
+  applyManualOrder,
+  compareInitiative,
+  sharesTurn,
+  shouldCharacterParticipateInCombat,
+} from "@herobyte/shared";
 
 export interface EntityInfo {
   kind: "character" | "npc" | "dm";
@@ -26,15 +31,20 @@ interface UseCombatOrderingProps {
   currentUid: string;
   combatActive: boolean;
   currentTurnCharacterId?: string;
+  /** The DM's arrangement of the tracker, from the snapshot */
+  initiativeOrder?: string[];
+  /** Group and side modes mark everyone sharing the turn, not just its holder */
+  combatMode?: CombatMode;
 }
 
 /**
  * Custom hook for ordering entities based on combat state.
  *
  * **Responsibilities**:
- * - Order entities by initiative when combat is active
+ * - Order entities by initiative when combat is active, with the server's
+ *   tie-breaks and the DM's arrangement (shared initiativeOrder.ts)
  * - Separate DM entities from combatants (DM always displayed, never in combat)
- * - Mark current turn entity
+ * - Mark current turn entities (several when a group or side shares the turn)
  * - Link characters to their tokens and players
  *
  * **Does NOT handle**:
@@ -49,11 +59,21 @@ export function useCombatOrdering({
   currentUid,
   combatActive,
   currentTurnCharacterId,
+  initiativeOrder,
+  combatMode,
 }: UseCombatOrderingProps) {
   const { dmEntities, orderedEntities } = useMemo<{
     dmEntities: EntityInfo[];
     orderedEntities: EntityInfo[];
   }>(() => {
+    const turnHolder = characters.find((c) => c.id === currentTurnCharacterId);
+    const onTurn = (character: SnapshotCharacter) =>
+      combatActive &&
+      (character.id === currentTurnCharacterId ||
+        (turnHolder !== undefined &&
+          character.initiative !== undefined &&
+          sharesTurn(character, turnHolder, combatMode)));
+
     // Build character entities (PCs)
     const characterEntities = players.flatMap((player) => {
       const playerCharacters = characters.filter(
@@ -80,7 +100,7 @@ export function useCombatOrdering({
           token,
           isMe: player.uid === currentUid,
           isFirstDM: false, // Will be set below for DM entities
-          isCurrentTurn: combatActive && currentTurnCharacterId === character.id,
+          isCurrentTurn: onTurn(character),
         };
       });
     });
@@ -94,7 +114,7 @@ export function useCombatOrdering({
         character,
         isMe: false,
         isFirstDM: false,
-        isCurrentTurn: combatActive && currentTurnCharacterId === character.id,
+        isCurrentTurn: onTurn(character),
       }));
 
     // Separate DM from regular entities
@@ -126,24 +146,13 @@ export function useCombatOrdering({
         indexMap.set(c.id, index);
       });
 
-      // Sort non-DM entities by initiative with stable tiebreakers
-      const sorted = allCombatants.sort((a, b) => {
-        const aInit = a.character.initiative ?? -1;
-        const bInit = b.character.initiative ?? -1;
-
-        // Primary: Initiative value (highest first)
-        const initDiff = bInit - aInit;
-        if (initDiff !== 0) return initDiff;
-
-        // Secondary: PC before NPC (when initiative is tied)
-        if (a.character.type === "pc" && b.character.type === "npc") return -1;
-        if (a.character.type === "npc" && b.character.type === "pc") return 1;
-
-        // Tertiary: Creation order (preserve original array position)
-        const aIndex = indexMap.get(a.character.id) ?? 0;
-        const bIndex = indexMap.get(b.character.id) ?? 0;
-        return aIndex - bIndex;
-      });
+      // Sort non-DM entities the way the server walks them: by initiative
+      // with its tiebreakers, then the DM's arrangement laid over the top
+      const sorted = applyManualOrder(
+        allCombatants.sort((a, b) => compareInitiative(a.character, b.character, indexMap)),
+        (entity) => entity.character.id,
+        initiativeOrder,
+      );
 
       const orderSummary = sorted
         .map(
@@ -161,7 +170,16 @@ export function useCombatOrdering({
 
     // Default order (non-combat): DM separate, then players, then NPCs
     return { dmEntities, orderedEntities: [...regularEntities, ...npcEntities] };
-  }, [players, characters, tokens, currentUid, combatActive, currentTurnCharacterId]);
+  }, [
+    players,
+    characters,
+    tokens,
+    currentUid,
+    combatActive,
+    currentTurnCharacterId,
+    initiativeOrder,
+    combatMode,
+  ]);
 
   return { dmEntities, orderedEntities };
 }
@@ -0,0 +1,50 @@
+/**
+ * useConditions Hook
+ *
+ * Saves a character's structured conditions (5e conditions or custom ones,
+ * each with an optional source and round clock). The whole list is sent each
+ * time; the server owns the clocks from then on, taking rounds off as turns
+ * advance and announcing in chat when one runs out.
+ *
+ * @module hooks/useConditions
+ */
+
+import { useCallback } from "react";
+import type { ClientMessage, Condition } from "@herobyte/shared";
+
+export interface UseConditionsOptions {
+  /**
+   * Function to send messages to the server
+   */
+  sendMessage: (message: ClientMessage) => void;
+}
+
+export interface UseConditionsReturn {
+  /** Owner or DM: replace a character's conditions (an empty list clears them). */
+  setCharacterConditions: (characterId: string, conditions: Condition[]) => void;
+}
+
+/**
+ * Hook to save a character's conditions.
+ *
+ * @example
+ * ```tsx
+ * const { setCharacterConditions } = useConditions({ sendMessage });
+ *
+ * setCharacterConditions('char-1', [{ key: 'poisoned', source: 'Giant spider', rounds: 3 }]);
+ * ```
+ */
+export function useConditions(options: UseConditionsOptions): UseConditionsReturn {
+  const { sendMessage } = options;
+
+  const setCharacterConditions = useCallback(
+    (characterId: string, conditions: Condition[]) => {
+      sendMessage({ t: "set-character-conditions", characterId, conditions });
+    },
+    [sendMessage],
+  );
+
+  return {
+    setCharacterConditions,
+  };
+}
@@ -0,0 +1,61 @@
+/**
+ * useDeathSaves Hook
+ *
+ * A downed PC's death saving throws. Rolling asks the server to throw the d20
+ * and count it, so the result lands in the roll log and on the card together;
+ * setting the tally by hand is for a table that rolls physical dice, and only
+ * ever changes the counts.
+ *
+ * @module hooks/useDeathSaves
+ */
+
+import { useCallback } from "react";
+import type { ClientMessage, DeathSaves } from "@herobyte/shared";
+
+export interface UseDeathSavesOptions {
+  /**
+   * Function to send messages to the server
+   */
+  sendMessage: (message: ClientMessage) => void;
+}
+
+export interface UseDeathSavesReturn {
+  /** Owner or DM: the server rolls a d20 for the character and records it. */
+  rollDeathSave: (characterId: string) => void;
+  /** Owner or DM: set the successes and failures by hand. */
+  setDeathSaves: (characterId: string, deathSaves: DeathSaves) => void;
+}
+
+/**
+ * Hook to roll and record death saves.
+ *
+ * @example
+ * ```tsx
+ * const { rollDeathSave, setDeathSaves } = useDeathSaves({ sendMessage });
+ *
+ * rollDeathSave('char-1');
+ * setDeathSaves('char-1', { successes: 1, failures: 2 });
+ * ```
+ */
+export function useDeathSaves(options: UseDeathSavesOptions): UseDeathSavesReturn {
+  const { sendMessage } = options;
+
+  const rollDeathSave = useCallback(
+    (characterId: string) => {
+      sendMessage({ t: "roll-death-save", characterId });
+    },
+    [sendMessage],
+  );
+
+  const setDeathSaves = useCallback(
+    (characterId: string, deathSaves: DeathSaves) => {
+      sendMessage({ t: "set-death-saves", characterId, deathSaves });
+    },
+    [sendMessage],
+  );
+
+  return {
+    rollDeathSave,
+    setDeathSaves,
+  };
+}
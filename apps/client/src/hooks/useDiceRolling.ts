@@ -23,7 +23,7 @@ import type {
   DiceVisibility,
 } from "@herobyte/shared";
 import type { RollLogEntry } from "../components/dice/rollLogTypes";
-import type { DieType, RollResult } from "../components/dice/types";
+import type { RolledDieType, RollResult } from "../components/dice/types";
 
 /** What the roller asks the server to roll. Deliberately carries no result. */
 export interface DiceRollRequest {
@@ -31,6 +31,8 @@ export interface DiceRollRequest {
   formula: string;
   mode: DiceRollMode;
   visibility: DiceVisibility;
+  /** A character to resolve the roll against; the server judges hit or miss. */
+  targetId?: string;
 }
 
 /**
@@ -150,14 +152,19 @@ export function useDiceRolling({
       // a TypeError takes the whole table's UI down.
       perDie: (Array.isArray(roll.breakdown) ? roll.breakdown : []).map((b) => ({
         tokenId: b.tokenId,
-        die: b.die as DieType | undefined,
+        die: b.die as RolledDieType | undefined,
         rolls: b.rolls,
         dropped: b.dropped,
+        dice: b.dice,
         subtotal: b.subtotal,
       })),
       total: roll.total,
       mode: roll.mode,
       visibility: roll.visibility,
+      attack: roll.attack,
+      target: roll.target,
+      outcome: roll.outcome,
+      deathSave: roll.deathSave,
       timestamp: roll.timestamp,
     }));
   }, [snapshot]);
@@ -208,11 +215,12 @@ export function useDiceRolling({
    * stored it verbatim.
    */
   const handleRoll = useCallback(
-    ({ formula, mode, visibility }: DiceRollRequest) => {
+    ({ formula, mode, visibility, targetId }: DiceRollRequest) => {
       if (!formula.trim()) return;
       const message: ClientMessage = { t: "dice-roll", formula };
       if (mode !== "normal") message.mode = mode;
       if (visibility !== "public") message.visibility = visibility;
+      if (targetId) message.targetId = targetId;
       sendMessage(message);
     },
     [sendMessage],
@@ -104,6 +104,12 @@ export interface UseKeyboardShortcutsOptions {
    * selection-undo branch below is skipped — exactly one handler acts.
    */
   mapEditMode?: boolean;
+
+  /**
+   * Optional: Whether the DM's fog brush is armed. Ctrl+Z/Ctrl+Y then undo
+   * fog strokes (useFogBrush), so selection undo stands aside the same way.
+   */
+  fogBrushMode?: boolean;
 }
 
 /**
@@ -157,6 +163,7 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions): void
     undoSelection,
     canUndoSelection,
     mapEditMode,
+    fogBrushMode,
   } = options;
 
   useEffect(() => {
@@ -282,7 +289,8 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions): void
         // Priority 2: Undo player token selection (DM only) if available.
         // Skipped in live map-edit mode — there Ctrl+Z undoes the map document
         // (useMapEditHotkeys), and this branch would otherwise double-fire.
-        if (isDM && canUndoSelection && undoSelection && !mapEditMode) {
+        // Likewise with the fog brush armed (useFogBrush).
+        if (isDM && canUndoSelection && undoSelection && !mapEditMode && !fogBrushMode) {
           e.preventDefault();
           console.log("[KeyDown] Ctrl+Z: Undoing player token selection");
           undoSelection();
@@ -313,5 +321,6 @@ export function useKeyboardShortcuts(options: UseKeyboardShortcutsOptions): void
     undoSelection,
     canUndoSelection,
     mapEditMode,
+    fogBrushMode,
   ]);
 }
@@ -32,6 +32,9 @@ export interface UseMobileSurfaceOptions {
   // matters here: capturing a point needs the MAP, and it is armed from a
   // full-height screen. So it joins the same edge.
   alignmentMode: boolean;
+  // The fog brush is armed from the DM screen the same way, and paints on the
+  // map the same way.
+  fogBrushMode?: boolean;
 }
 
 export interface MobileSurfaceMachine {
@@ -45,9 +48,9 @@ export interface MobileSurfaceMachine {
 
 export function useMobileSurface(options: UseMobileSurfaceOptions): MobileSurfaceMachine {
   const { diceRollerOpen, rollLogOpen, toggleDiceRoller, toggleRollLog, mapEditMode } = options;
-  // The two modes that need the canvas, as one fact. They are separate props
+  // The modes that need the canvas, as one fact. They are separate props
   // because only map-edit re-purposes the dock.
-  const needsTheMap = mapEditMode || options.alignmentMode;
+  const needsTheMap = mapEditMode || options.alignmentMode || !!options.fogBrushMode;
   const [local, setLocal] = useState<LocalSurface>("none");
 
   // DERIVED, not stored: the prop-controlled panels win, and rendering exactly
@@ -17,7 +17,7 @@
  */
 
 import { useCallback } from "react";
-import type { ClientMessage, TokenSize } from "@herobyte/shared";
+import type { ClientMessage, SenseProfile, TokenLight, TokenSize } from "@herobyte/shared";
 
 /**
  * Dependencies required by the useSceneObjectActions hook.
@@ -112,6 +112,12 @@ export interface UseSceneObjectActionsReturn {
   updateTokenSize: (tokenId: string, size: TokenSize) => void;
   /** DM-only: set a token's sight limit in feet, or null for unlimited (S7). */
   updateTokenVisionRadius: (tokenId: string, radiusFeet: number | null) => void;
+  /** DM-only: set a token's special senses, or null for none. */
+  updateTokenSenses: (tokenId: string, senses: SenseProfile | null) => void;
+  /** Owner or DM: light a carried torch/lantern/Light cantrip, or null to put it out. */
+  updateTokenLight: (tokenId: string, light: TokenLight | null) => void;
+  /** DM-only: set a token's walking speed in feet, or null for the default. */
+  updateTokenSpeed: (tokenId: string, speedFeet: number | null) => void;
 }
 
 /**
@@ -243,6 +249,40 @@ export function useSceneObjectActions({
     [sendMessage],
   );
 
+  /**
+   * Set a token's special senses (darkvision, blindsight, tremorsense,
+   * truesight), or clear them. DM-only, like the sight radius.
+   */
+  const updateTokenSenses = useCallback(
+    (tokenId: string, senses: SenseProfile | null) => {
+      sendMessage({ t: "set-token-senses", tokenId, senses });
+    },
+    [sendMessage],
+  );
+
+  /**
+   * Light the torch, lantern or Light cantrip a token carries, or put it out.
+   * Unlike sight and senses this is the owner's own choice; the server
+   * accepts it from the token's owner or a DM.
+   */
+  const updateTokenLight = useCallback(
+    (tokenId: string, light: TokenLight | null) => {
+      sendMessage({ t: "set-token-light", tokenId, light });
+    },
+    [sendMessage],
+  );
+
+  /**
+   * Set how far a token walks in a turn, or clear it back to the default.
+   * DM-only: the speed is what the combat movement budget holds players to.
+   */
+  const updateTokenSpeed = useCallback(
+    (tokenId: string, speedFeet: number | null) => {
+      sendMessage({ t: "set-token-speed", tokenId, speed: speedFeet });
+    },
+    [sendMessage],
+  );
+
   return {
     recolorToken,
     transformSceneObject,
@@ -251,5 +291,8 @@ export function useSceneObjectActions({
     updateTokenImage,
     updateTokenSize,
     updateTokenVisionRadius,
+    updateTokenSenses,
+    updateTokenLight,
+    updateTokenSpeed,
   };
 }
@@ -127,6 +127,7 @@ export interface UseServerEventHandlersReturn {
  * - `room-password-update-failed`: Room password update failed
  * - `dm-status`: DM elevation status update (shows toast when isDM=true)
  * - `dm-elevation-failed`: DM elevation failed (shows error toast)
+ * - `map-link-used`: tokens went through a map link (DM-only info toast)
  *
  * @example
  * ```tsx
@@ -190,7 +191,7 @@ export function useServerEventHandlers({
   );
 
   const lastDmStatusRef = useRef<boolean | null>(null);
-  const { success: toastSuccess, error: toastError } = toast;
+  const { success: toastSuccess, error: toastError, info: toastInfo } = toast;
 
   /**
    * Register handler for server events
@@ -239,6 +240,14 @@ export function useServerEventHandlers({
         (message.t === "table-forked" || message.t === "table-fork-failed")
       ) {
         onTableForkMessage?.(message);
+      } else if ("t" in message && message.t === "map-link-used") {
+        // Only DMs are sent these: tokens that left for another scene are off
+        // the table until someone switches to it, so say where they went.
+        const where = message.sceneName ? ` to ${message.sceneName}` : "";
+        toastInfo(
+          `${message.by} took ${message.tokenNames.join(", ")} through the ${message.label}${where}.`,
+          5000,
+        );
       } else if ("t" in message && message.t === "session-file") {
         // Routed rather than handled: the DM's chosen filename lives in
         // useSessionManagement, down in the DM menu. See sessionFileBridge.
@@ -257,6 +266,7 @@ export function useServerEventHandlers({
     registerServerEventHandler,
     toastSuccess,
     toastError,
+    toastInfo,
     onDMElevationFailed,
     onTableForkMessage,
     onMapStudioMessage,
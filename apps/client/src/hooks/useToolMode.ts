@@ -69,6 +69,11 @@ export interface UseToolModeReturn {
    * True if live map-edit mode (on-table authoring) is active
    */
   mapEditMode: boolean;
+
+  /**
+   * True if the DM's fog reveal/conceal brush is armed
+   */
+  fogBrushMode: boolean;
 }
 
 /**
@@ -119,6 +124,7 @@ export function useToolMode(): UseToolModeReturn {
   const selectMode = activeTool === "select";
   const alignmentMode = activeTool === "align";
   const mapEditMode = activeTool === "map-edit";
+  const fogBrushMode = activeTool === "fog";
 
   // Handle Escape key to clear active tool
   useEffect(() => {
@@ -149,5 +155,6 @@ export function useToolMode(): UseToolModeReturn {
     selectMode,
     alignmentMode,
     mapEditMode,
+    fogBrushMode,
   };
 }
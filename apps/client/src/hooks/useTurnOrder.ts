@@ -0,0 +1,99 @@
+/**
+ * useTurnOrder Hook
+ *
+ * The initiative tracker's ways of bending the order: delay to later in the
+ * round, hold and resume, ready an action, and (DM only) drag the whole
+ * tracker into a new order or mark someone down, dead or fled. The server
+ * checks whose turn it is and who may act for whom; these only send the
+ * request.
+ *
+ * @module hooks/useTurnOrder
+ */
+
+import { useCallback } from "react";
+import type { CharacterStatus, ClientMessage } from "@herobyte/shared";
+
+export interface UseTurnOrderOptions {
+  /**
+   * Function to send messages to the server
+   */
+  sendMessage: (message: ClientMessage) => void;
+}
+
+export interface UseTurnOrderReturn {
+  /** On their own turn: act after `afterCharacterId`, or hold when it is absent. */
+  delayTurn: (characterId: string, afterCharacterId?: string) => void;
+  /** A holding combatant comes back in, acting next. */
+  resumeTurn: (characterId: string) => void;
+  /** Ready an action with a trigger ("" for none), or clear it with undefined. */
+  readyAction: (characterId: string, trigger?: string) => void;
+  /** DM: the tracker's new order, by character id. */
+  reorderInitiative: (order: string[]) => void;
+  /** DM: a combatant's status; the turn skips the defeated. */
+  setCharacterStatus: (characterId: string, status: CharacterStatus) => void;
+}
+
+/**
+ * Hook to send turn order changes.
+ *
+ * @example
+ * ```tsx
+ * const { delayTurn } = useTurnOrder({ sendMessage });
+ *
+ * delayTurn('aria', 'goblin-1'); // Aria acts right after the goblin
+ * ```
+ */
+export function useTurnOrder(options: UseTurnOrderOptions): UseTurnOrderReturn {
+  const { sendMessage } = options;
+
+  const delayTurn = useCallback(
+    (characterId: string, afterCharacterId?: string) => {
+      sendMessage(
+        afterCharacterId === undefined
+          ? { t: "delay-turn", characterId }
+          : { t: "delay-turn", characterId, afterCharacterId },
+      );
+    },
+    [sendMessage],
+  );
+
+  const resumeTurn = useCallback(
+    (characterId: string) => {
+      sendMessage({ t: "resume-turn", characterId });
+    },
+    [sendMessage],
+  );
+
+  const readyAction = useCallback(
+    (characterId: string, trigger?: string) => {
+      sendMessage(
+        trigger === undefined
+          ? { t: "ready-action", characterId }
+          : { t: "ready-action", characterId, trigger },
+      );
+    },
+    [sendMessage],
+  );
+
+  const reorderInitiative = useCallback(
+    (order: string[]) => {
+      sendMessage({ t: "reorder-initiative", order });
+    },
+    [sendMessage],
+  );
+
+  const setCharacterStatus = useCallback(
+    (characterId: string, status: CharacterStatus) => {
+      sendMessage({ t: "set-character-status", characterId, status });
+    },
+    [sendMessage],
+  );
+
+  return {
+    delayTurn,
+    resumeTurn,
+    readyAction,
+    reorderInitiative,
+    setCharacterStatus,
+  };
+}
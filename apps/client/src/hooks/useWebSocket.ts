@@ -5,7 +5,14 @@
 
 import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { WebSocketService, ConnectionState, AuthState, AuthEvent } from "../services/websocket";
-import type { RoomSnapshot, ClientMessage, MeasureEvent, ServerMessage } from "@herobyte/shared";
+import type {
+  RoomSnapshot,
+  ClientMessage,
+  DragPreviewEvent,
+  DragPreviewObject,
+  MeasureEvent,
+  ServerMessage,
+} from "@herobyte/shared";
 
 interface UseWebSocketOptions {
   url: string;
@@ -23,6 +30,13 @@ interface UseWebSocketReturn {
    * this channel is the only way they arrive.
    */
   remoteMeasurements: MeasureEvent[];
+  /**
+   * Everyone else's token drags that carry a route (dragRoute.ts), one per
+   * token. Same lifetime rules as measurements: your own echo is dropped, a
+   * route-less preview (the drop) clears the token's entry, and a dragger who
+   * leaves takes their routes with them.
+   */
+  remoteDragRoutes: DragPreviewObject[];
   connectionState: ConnectionState;
   isConnected: boolean;
   authState: AuthState;
@@ -40,6 +54,29 @@ interface UseWebSocketReturn {
   registerCommandDropHandler: (handler: (messageType: string, reason: string) => void) => void;
 }
 
+interface RemoteDragRoute {
+  uid: string;
+  object: DragPreviewObject;
+}
+
+/** Fold one preview into the routes being drawn, keyed by token. */
+function applyDragPreviewRoutes(
+  current: Record<string, RemoteDragRoute>,
+  preview: DragPreviewEvent,
+): Record<string, RemoteDragRoute> {
+  let next = current;
+  for (const object of preview.objects) {
+    if (object.route) {
+      next = next === current ? { ...current } : next;
+      next[object.tokenId] = { uid: preview.uid, object };
+    } else if (object.tokenId in next) {
+      next = next === current ? { ...current } : next;
+      delete next[object.tokenId];
+    }
+  }
+  return next;
+}
+
 /**
  * Hook to manage WebSocket connection and room state
  *
@@ -62,6 +99,7 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
   const [authState, setAuthState] = useState<AuthState>(AuthState.UNAUTHENTICATED);
   const [authError, setAuthError] = useState<string | null>(null);
   const [measurements, setMeasurements] = useState<Record<string, MeasureEvent>>({});
+  const [dragRoutes, setDragRoutes] = useState<Record<string, RemoteDragRoute>>({});
 
   // Use ref to store the current RTC signal handler
   const rtcHandlerRef = useRef<((from: string, signal: unknown) => void) | undefined>(onRtcSignal);
@@ -81,6 +119,7 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
           setAuthState(AuthState.UNAUTHENTICATED);
           setSnapshot(null);
           setMeasurements({});
+          setDragRoutes({});
           // authError is deliberately PRESERVED here. The server sends
           // `auth-failed` and then closes the socket ~100 ms later; that close
           // raises `reset`, which used to null the reason out from under the
@@ -102,6 +141,7 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
           setAuthError(event.reason ?? "Authentication failed");
           setSnapshot(null);
           setMeasurements({});
+          setDragRoutes({});
           break;
       }
     };
@@ -147,6 +187,10 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
           return { ...current, [measure.uid]: measure };
         });
       },
+      onDragPreview: (preview) => {
+        if (preview.uid === uid) return;
+        setDragRoutes((current) => applyDragPreviewRoutes(current, preview));
+      },
     });
 
     serviceRef.current = service;
@@ -161,8 +205,8 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
     };
   }, [url, uid]); // Only recreate if URL or UID changes
 
-  // A measurement is relayed, not stored, so nothing on the server tells us
-  // when to forget one. `snapshot.users` IS the connected set (pushed on auth,
+  // A measurement (or a drag route) is relayed, not stored, so nothing on the
+  // server tells us when to forget one. `snapshot.users` IS the connected set (pushed on auth,
   // filtered on every disconnect), so pruning against it retires a line left
   // behind by a closed tab, a crash, or a heartbeat timeout alike — without a
   // second server path that could itself go missing.
@@ -182,9 +226,18 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
       // Same reference when nothing changed, so this cannot loop a render.
       return dropped ? next : current;
     });
+    setDragRoutes((current) => {
+      const live = new Set(connectedUids);
+      const kept = Object.entries(current).filter(([, entry]) => live.has(entry.uid));
+      return kept.length === Object.keys(current).length ? current : Object.fromEntries(kept);
+    });
   }, [connectedUids]);
 
   const remoteMeasurements = useMemo(() => Object.values(measurements), [measurements]);
+  const remoteDragRoutes = useMemo(
+    () => Object.values(dragRoutes).map((entry) => entry.object),
+    [dragRoutes],
+  );
 
   const send = useCallback((message: ClientMessage) => {
     serviceRef.current?.send(message);
@@ -227,6 +280,7 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
   return {
     snapshot,
     remoteMeasurements,
+    remoteDragRoutes,
     connectionState,
     isConnected,
     authState,
@@ -29,9 +29,18 @@ import type {
   Drawing,
   PlayerState,
   TokenSize,
+  SenseProfile,
   SnapshotCharacter,
+  TokenLight,
+  NamedAttack,
+  Condition,
+  CombatEvent,
+  CombatMode,
+  CharacterStatus,
+  DeathSaves,
 } from "@herobyte/shared";
 import { EntitiesPanel } from "../components/layout/EntitiesPanel";
+import type { AttackRequest, CharacterDefenses } from "../hooks/useAttacks";
 
 /**
  * NPC update partial interface for type safety
@@ -176,9 +185,27 @@ export interface BottomPanelLayoutProps {
   /** DM-only: set a token's sight limit in feet, or null for unlimited (S7;
    * optional so the layout fixtures stay untouched). */
   onTokenVisionRadiusChange?: (tokenId: string, radiusFeet: number | null) => void;
+  /** DM-only: set a token's special senses, or null for none (optional, as above). */
+  onTokenSensesChange?: (tokenId: string, senses: SenseProfile | null) => void;
+  /** Owner or DM: set a token's carried light, or null to put it out (optional, as above). */
+  onTokenLightChange?: (tokenId: string, light: TokenLight | null) => void;
+  /** DM-only: set a token's walking speed, or null for the default (optional, as above). */
+  onTokenSpeedChange?: (tokenId: string, speedFeet: number | null) => void;
   /** Handler to change token image */
   onTokenImageChange: (tokenId: string, imageUrl: string) => void;
 
+  // Attacks (2 props; optional so the layout fixtures stay untouched)
+  /** Owner or DM: roll a named attack at a target */
+  onRollAttack?: (request: AttackRequest) => void;
+  /** Owner or DM: replace a character's attack list */
+  onSetCharacterAttacks?: (characterId: string, attacks: NamedAttack[]) => void;
+  /** Owner or DM: set a character's AC and saving throws */
+  onSetCharacterDefenses?: (characterId: string, defenses: CharacterDefenses) => void;
+  onSetCharacterConditions?: (characterId: string, conditions: Condition[]) => void;
+  /** Owner or DM: roll a downed PC's death save, or set its counts by hand */
+  onRollDeathSave?: (characterId: string) => void;
+  onSetDeathSaves?: (characterId: string, deathSaves: DeathSaves) => void;
+
   // Character Management (2 props)
   /** Handler to add a new character */
   onAddCharacter: (name: string) => void;
@@ -194,6 +221,16 @@ export interface BottomPanelLayoutProps {
   combatActive?: boolean;
   /** Character ID of the entity whose turn it currently is */
   currentTurnCharacterId?: string;
+  /** The fight's round, from 1; absent before the first fight */
+  combatRound?: number;
+  /** The current (or last) fight's events, as this viewer may see them */
+  combatLog?: CombatEvent[];
+  /** The DM's arrangement of the tracker, laid over the initiative sort */
+  initiativeOrder?: string[];
+  /** Who takes a turn together: individual, group or side initiative */
+  combatMode?: CombatMode;
+  /** When the current turn's time runs out (epoch ms), if the room runs a turn timer */
+  turnDeadline?: number;
   /** Handler to set a character's initiative roll and modifier */
   onSetInitiative: (characterId: string, initiative: number, modifier: number) => void;
   /** Whether an initiative setting operation is in progress */
@@ -206,6 +243,16 @@ export interface BottomPanelLayoutProps {
   onNextTurn?: () => void;
   /** Handler to go back to the previous turn in combat */
   onPreviousTurn?: () => void;
+  /** Handler to delay a turn until after someone, or hold it (no target) */
+  onDelayTurn?: (characterId: string, afterCharacterId?: string) => void;
+  /** Handler to bring a holding combatant back in */
+  onResumeTurn?: (characterId: string) => void;
+  /** Handler to ready (trigger) or clear (undefined) a readied action */
+  onReadyAction?: (characterId: string, trigger?: string) => void;
+  /** DM handler to drag the tracker into a new order */
+  onReorderInitiative?: (order: string[]) => void;
+  /** DM handler to mark a combatant down, dead, fled or back in the fight */
+  onSetCharacterStatus?: (characterId: string, status: CharacterStatus) => void;
 }
 
 /**
@@ -311,18 +358,37 @@ export const BottomPanelLayout: React.FC<BottomPanelLayoutProps> = React.memo(
     onToggleTokenLock,
     onTokenSizeChange,
     onTokenVisionRadiusChange,
+    onTokenSensesChange,
+    onTokenLightChange,
+    onTokenSpeedChange,
     onTokenImageChange,
+    onRollAttack,
+    onSetCharacterAttacks,
+    onSetCharacterDefenses,
+    onSetCharacterConditions,
+    onRollDeathSave,
+    onSetDeathSaves,
     onAddCharacter,
     onDeleteCharacter,
     onFocusToken,
     combatActive,
     currentTurnCharacterId,
+    combatRound,
+    combatLog,
+    initiativeOrder,
+    combatMode,
+    turnDeadline,
     onSetInitiative,
     isSettingInitiative,
     initiativeError,
     onClearInitiative,
     onNextTurn,
     onPreviousTurn,
+    onDelayTurn,
+    onResumeTurn,
+    onReadyAction,
+    onReorderInitiative,
+    onSetCharacterStatus,
   }) => {
     return (
       <EntitiesPanel
@@ -372,19 +438,38 @@ export const BottomPanelLayout: React.FC<BottomPanelLayoutProps> = React.memo(
         onToggleTokenLock={onToggleTokenLock}
         onTokenSizeChange={onTokenSizeChange}
         onTokenVisionRadiusChange={onTokenVisionRadiusChange}
+        onTokenSensesChange={onTokenSensesChange}
+        onTokenLightChange={onTokenLightChange}
+        onTokenSpeedChange={onTokenSpeedChange}
         onTokenImageChange={onTokenImageChange}
+        onRollAttack={onRollAttack}
+        onSetCharacterAttacks={onSetCharacterAttacks}
+        onSetCharacterDefenses={onSetCharacterDefenses}
+        onSetCharacterConditions={onSetCharacterConditions}
+        onRollDeathSave={onRollDeathSave}
+        onSetDeathSaves={onSetDeathSaves}
         onAddCharacter={onAddCharacter}
         onDeleteCharacter={onDeleteCharacter}
         onFocusToken={onFocusToken}
         bottomPanelRef={bottomPanelRef}
         combatActive={combatActive}
         currentTurnCharacterId={currentTurnCharacterId}
+        combatRound={combatRound}
+        combatLog={combatLog}
+        initiativeOrder={initiativeOrder}
+        combatMode={combatMode}
+        turnDeadline={turnDeadline}
         onSetInitiative={onSetInitiative}
         isSettingInitiative={isSettingInitiative}
         initiativeError={initiativeError}
         onClearInitiative={onClearInitiative}
         onNextTurn={onNextTurn}
         onPreviousTurn={onPreviousTurn}
+        onDelayTurn={onDelayTurn}
+        onResumeTurn={onResumeTurn}
+        onReadyAction={onReadyAction}
+        onReorderInitiative={onReorderInitiative}
+        onSetCharacterStatus={onSetCharacterStatus}
       />
     );
   },
@@ -21,8 +21,14 @@
  */
 
 import React, { Suspense } from "react";
-import type { RoomSnapshot, ClientMessage, MeasureEvent } from "@herobyte/shared";
+import type {
+  RoomSnapshot,
+  ClientMessage,
+  MeasureEvent,
+  DragPreviewObject,
+} from "@herobyte/shared";
 import type { AlignmentPoint, AlignmentSuggestion } from "../types/alignment";
+import type { FogBrushSettings } from "../features/map";
 import type { CameraCommand } from "../ui/MapBoard";
 import type { UseDrawingStateManagerReturn } from "../hooks/useDrawingStateManager";
 import { MapLoading } from "../components/ui/MapLoading";
@@ -80,6 +86,7 @@ export interface CenterCanvasLayoutProps {
   /** Whether measure mode is active (distance measurement) */
   measureMode: boolean;
   remoteMeasurements?: MeasureEvent[];
+  remoteDragRoutes?: DragPreviewObject[];
   /** Whether draw mode is active (freehand drawing) */
   drawMode: boolean;
   /** Whether transform mode is active (object manipulation) */
@@ -148,6 +155,8 @@ export interface CenterCanvasLayoutProps {
   alignmentSuggestion: AlignmentSuggestion | null;
   /** Handler for capturing new alignment points */
   onAlignmentPointCapture: (point: AlignmentPoint) => void;
+  /** DM fog brush settings while the tool is armed, else null */
+  fogBrush?: FogBrushSettings | null;
 
   // Scene Object Actions (2 props)
   /** Handler for recoloring tokens */
@@ -225,6 +234,7 @@ export const CenterCanvasLayout: React.FC<CenterCanvasLayoutProps> = React.memo(
     pointerMode,
     measureMode,
     remoteMeasurements,
+    remoteDragRoutes,
     drawMode,
     transformMode,
     selectMode,
@@ -257,6 +267,7 @@ export const CenterCanvasLayout: React.FC<CenterCanvasLayoutProps> = React.memo(
     alignmentPoints,
     alignmentSuggestion,
     onAlignmentPointCapture,
+    fogBrush,
     onRecolorToken,
     onTransformObject,
     drawingProps,
@@ -284,6 +295,7 @@ export const CenterCanvasLayout: React.FC<CenterCanvasLayoutProps> = React.memo(
             pointerMode={pointerMode}
             measureMode={measureMode}
             remoteMeasurements={remoteMeasurements}
+            remoteDragRoutes={remoteDragRoutes}
             drawMode={drawMode}
             transformMode={transformMode}
             selectMode={selectMode}
@@ -311,6 +323,7 @@ export const CenterCanvasLayout: React.FC<CenterCanvasLayoutProps> = React.memo(
             alignmentPoints={alignmentPoints}
             alignmentSuggestion={alignmentSuggestion}
             onAlignmentPointCapture={onAlignmentPointCapture}
+            fogBrush={fogBrush}
             {...drawingProps}
             onRecolorToken={onRecolorToken}
             onTransformObject={onTransformObject}
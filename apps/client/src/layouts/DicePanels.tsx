@@ -7,11 +7,18 @@
 // leave together rather than the guard being re-baselined.
 
 import React from "react";
-import type { ChatMessage, Player } from "@herobyte/shared";
+import type {
+  ChatMessage,
+  ClientMessage,
+  DiceMacro,
+  Player,
+  SnapshotCharacter,
+} from "@herobyte/shared";
 import { DiceRoller } from "../components/dice/DiceRoller";
 import { ResultPanel } from "../components/dice/ResultPanel";
 import { RollLog } from "../components/dice/RollLog";
 import type { RollLogEntry } from "../components/dice/rollLogTypes";
+import { useDiceMacros } from "../components/dice/useDiceMacros";
 import type { DiceRollRequest } from "../hooks/useDiceRolling";
 
 export interface DicePanelsProps {
@@ -29,10 +36,20 @@ export interface DicePanelsProps {
   handleViewRoll: (roll: RollLogEntry | null) => void;
   chatMessages: ChatMessage[];
   players: Player[];
+  /** What a roll may be made against — only the characters this client was sent. */
+  characters?: SnapshotCharacter[];
   uid: string;
   handleSendChat: (text: string, to?: string) => void;
   /** Clearing the shared roll log is DM-only, server-side. */
   isDM: boolean;
+  /** DM-only: apply a logged attack's damage. */
+  handleApplyAttackDamage?: (rollId: string) => void;
+  /** The DM's shared macros, from the snapshot. */
+  tableMacros?: DiceMacro[];
+  /** Whose turn it is; their macros are shown first when they are yours. */
+  currentTurnCharacterId?: string;
+  /** Saving a macro sends the edited list straight to the server. */
+  sendMessage: (message: ClientMessage) => void;
 }
 
 export const DicePanels: React.FC<DicePanelsProps> = ({
@@ -48,48 +65,67 @@ export const DicePanels: React.FC<DicePanelsProps> = ({
   handleViewRoll,
   chatMessages,
   players,
+  characters,
   uid,
   handleSendChat,
   isDM,
-}) => (
-  <>
-    {diceRollerOpen && (
-      <DiceRoller
-        onRoll={handleRoll}
-        latestOwnRoll={latestOwnRoll}
-        onClose={() => toggleDiceRoller(false)}
-      />
-    )}
+  handleApplyAttackDamage,
+  tableMacros,
+  currentTurnCharacterId,
+  sendMessage,
+}) => {
+  const macros = useDiceMacros({
+    characters: characters ?? [],
+    tableMacros,
+    currentTurnCharacterId,
+    uid,
+    isDM,
+    sendMessage,
+  });
 
-    {rollLogOpen && (
-      <div
-        style={{
-          position: "fixed",
-          right: 20,
-          top: 200,
-          width: 350,
-          height: 500,
-          zIndex: 1000,
-        }}
-      >
-        <RollLog
-          rolls={rollHistory}
-          onClearLog={handleClearLog}
-          onViewRoll={(roll) => handleViewRoll(roll)}
-          onClose={() => toggleRollLog(false)}
-          chatMessages={chatMessages}
-          players={players}
-          currentUid={uid}
-          onSendChat={handleSendChat}
-          canClearLog={isDM}
+  return (
+    <>
+      {diceRollerOpen && (
+        <DiceRoller
+          onRoll={handleRoll}
+          latestOwnRoll={latestOwnRoll}
+          onClose={() => toggleDiceRoller(false)}
+          targets={characters}
+          macros={macros}
         />
-      </div>
-    )}
+      )}
 
-    {/* Clicking a row in the log opens ITS breakdown. This used to mount a
+      {rollLogOpen && (
+        <div
+          style={{
+            position: "fixed",
+            right: 20,
+            top: 200,
+            width: 350,
+            height: 500,
+            zIndex: 1000,
+          }}
+        >
+          <RollLog
+            rolls={rollHistory}
+            onClearLog={handleClearLog}
+            onViewRoll={(roll) => handleViewRoll(roll)}
+            onClose={() => toggleRollLog(false)}
+            chatMessages={chatMessages}
+            players={players}
+            currentUid={uid}
+            onSendChat={handleSendChat}
+            canClearLog={isDM}
+            onApplyAttackDamage={isDM ? handleApplyAttackDamage : undefined}
+          />
+        </div>
+      )}
+
+      {/* Clicking a row in the log opens ITS breakdown. This used to mount a
         second, empty DiceRoller — `viewingRoll` was read as a boolean — so the
         desktop "view roll" gesture showed a blank roller instead of the roll,
         and that roller could fire real rolls into a no-op onRoll. */}
-    <ResultPanel result={viewingRoll} onClose={() => handleViewRoll(null)} />
-  </>
-);
+      <ResultPanel result={viewingRoll} onClose={() => handleViewRoll(null)} />
+    </>
+  );
+};
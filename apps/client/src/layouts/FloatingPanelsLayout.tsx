@@ -54,7 +54,7 @@ export interface FloatingPanelsLayoutProps {
   setContextMenu: (menu: ContextMenuState | null) => void;
   /** The DM menu's whole prop surface, built once by buildDMMenuProps. */
   dmMenuProps: DMMenuContainerProps;
-  // Shared data (DicePanels reads the player roster off it)
+  // Shared data (DicePanels reads the player and character rosters off it)
   snapshot: RoomSnapshot | null;
   // Dice Roller
   diceRollerOpen: boolean;
@@ -73,6 +73,8 @@ export interface FloatingPanelsLayoutProps {
   toggleRollLog: (open: boolean) => void;
   handleClearLog: () => void;
   handleViewRoll: (roll: RollLogEntry | null) => void;
+  /** DM-only: apply a logged attack's damage (optional so the fixtures stay untouched). */
+  handleApplyAttackDamage?: (rollId: string) => void;
   // Visual Effects
   crtFilter: boolean;
   // Toast Messages
@@ -110,6 +112,7 @@ export const FloatingPanelsLayout = React.memo<FloatingPanelsLayoutProps>(
     toggleRollLog,
     handleClearLog,
     handleViewRoll,
+    handleApplyAttackDamage,
     crtFilter,
     toast,
   }) => {
@@ -192,9 +195,14 @@ export const FloatingPanelsLayout = React.memo<FloatingPanelsLayoutProps>(
           handleViewRoll={handleViewRoll}
           chatMessages={chatMessages}
           players={snapshot?.players ?? []}
+          characters={snapshot?.characters ?? []}
           uid={uid}
           handleSendChat={handleSendChat}
           isDM={isDM}
+          handleApplyAttackDamage={handleApplyAttackDamage}
+          tableMacros={snapshot?.tableMacros}
+          currentTurnCharacterId={snapshot?.currentTurnCharacterId}
+          sendMessage={dmMenuProps.sendMessage}
         />
 
         <ToastContainer messages={toast.messages} onDismiss={toast.dismiss} />
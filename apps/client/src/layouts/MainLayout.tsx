@@ -30,6 +30,10 @@ import { BottomPanelLayout } from "./BottomPanelLayout";
 import { useEntityEditHandlers } from "../hooks/useEntityEditHandlers";
 import { useInitiativeSetting } from "../hooks/useInitiativeSetting";
 import { useNpcVisibility } from "../hooks/useNpcVisibility";
+import { useAttacks } from "../hooks/useAttacks";
+import { useConditions } from "../hooks/useConditions";
+import { useDeathSaves } from "../hooks/useDeathSaves";
+import { useTurnOrder } from "../hooks/useTurnOrder";
 import { PublicTableNotice } from "../features/rooms/PublicTableNotice";
 import { buildDMMenuProps } from "../features/dm/buildDMMenuProps";
 
@@ -65,6 +69,7 @@ export const MainLayout = React.memo(function MainLayout(props: MainLayoutProps)
     pointerMode,
     measureMode,
     remoteMeasurements,
+    remoteDragRoutes,
     transformMode,
     selectMode,
     alignmentMode,
@@ -158,11 +163,15 @@ export const MainLayout = React.memo(function MainLayout(props: MainLayoutProps)
     updateTokenImage,
     updateTokenSize,
     updateTokenVisionRadius,
+    updateTokenSenses,
+    updateTokenLight,
+    updateTokenSpeed,
 
     // Alignment
     alignmentPoints,
     alignmentSuggestion,
     handleAlignmentPointCapture,
+    fogBrush,
 
     // Dice
     rollHistory,
@@ -218,6 +227,21 @@ export const MainLayout = React.memo(function MainLayout(props: MainLayoutProps)
   // DM-only NPC visibility toggles
   const { toggleNpcVisibility } = useNpcVisibility({ sendMessage });
 
+  // Attack rolls from the cards, and the DM's "Apply damage" in the roll log
+  const { rollAttack, applyAttackDamage, setCharacterAttacks, setCharacterDefenses } = useAttacks({
+    sendMessage,
+  });
+
+  // Condition badges on the cards; the server runs their round clocks
+  const { setCharacterConditions } = useConditions({ sendMessage });
+
+  // Death saves on a downed PC's card; the server throws the d20
+  const { rollDeathSave, setDeathSaves } = useDeathSaves({ sendMessage });
+
+  // Delay, hold and ready from the initiative modal; the DM's drag reorder and statuses
+  const { delayTurn, resumeTurn, readyAction, reorderInitiative, setCharacterStatus } =
+    useTurnOrder({ sendMessage });
+
   // The one mapping from the props bag onto DMMenuContainer's shape — shared
   // with the mobile shell, so a DM feature is wired once, not per layout.
   // setInitiative rides as an extra because it is a hook result, not bag state.
@@ -282,6 +306,7 @@ export const MainLayout = React.memo(function MainLayout(props: MainLayoutProps)
         pointerMode={pointerMode}
         measureMode={measureMode}
         remoteMeasurements={remoteMeasurements}
+        remoteDragRoutes={remoteDragRoutes}
         drawMode={drawMode}
         transformMode={transformMode}
         selectMode={selectMode}
@@ -313,6 +338,7 @@ export const MainLayout = React.memo(function MainLayout(props: MainLayoutProps)
         alignmentPoints={alignmentPoints}
         alignmentSuggestion={alignmentSuggestion}
         onAlignmentPointCapture={handleAlignmentPointCapture}
+        fogBrush={fogBrush?.active ? fogBrush.settings : null}
         onRecolorToken={recolorToken}
         onTransformObject={transformSceneObject}
         drawingProps={drawingProps}
@@ -363,6 +389,12 @@ export const MainLayout = React.memo(function MainLayout(props: MainLayoutProps)
         onNpcDelete={undefined}
         onNpcPlaceToken={undefined}
         onNpcToggleVisibility={isDM ? toggleNpcVisibility : undefined}
+        onRollAttack={rollAttack}
+        onSetCharacterAttacks={setCharacterAttacks}
+        onSetCharacterDefenses={setCharacterDefenses}
+        onSetCharacterConditions={setCharacterConditions}
+        onRollDeathSave={rollDeathSave}
+        onSetDeathSaves={setDeathSaves}
         // Was hardcoded undefined, which (together with an impossible isDM gate
         // in PlayerSettingsMenu) meant a DM had no way to remove a player's
         // token and the confirm string written for it was unreachable code.
@@ -372,18 +404,31 @@ export const MainLayout = React.memo(function MainLayout(props: MainLayoutProps)
         onToggleTokenLock={toggleSceneObjectLock}
         onTokenSizeChange={updateTokenSize}
         onTokenVisionRadiusChange={updateTokenVisionRadius}
+        onTokenSensesChange={updateTokenSenses}
+        onTokenLightChange={updateTokenLight}
+        onTokenSpeedChange={updateTokenSpeed}
         onTokenImageChange={updateTokenImage}
         onAddCharacter={playerActions.addCharacter}
         onDeleteCharacter={playerActions.deleteCharacter}
         onFocusToken={handleFocusToken}
         combatActive={snapshot?.combatActive}
         currentTurnCharacterId={snapshot?.currentTurnCharacterId}
+        combatRound={snapshot?.combatRound}
+        combatLog={snapshot?.combatLog}
+        initiativeOrder={snapshot?.initiativeOrder}
+        combatMode={snapshot?.combatMode}
+        turnDeadline={snapshot?.turnDeadline}
         onSetInitiative={setInitiative}
         isSettingInitiative={isSettingInitiative}
         initiativeError={initiativeError}
         onClearInitiative={clearInitiative}
         onNextTurn={handleNextTurn}
         onPreviousTurn={handlePreviousTurn}
+        onDelayTurn={delayTurn}
+        onResumeTurn={resumeTurn}
+        onReadyAction={readyAction}
+        onReorderInitiative={reorderInitiative}
+        onSetCharacterStatus={setCharacterStatus}
       />
 
       {/* Floating Panels - DM menu, context menu, visual effects, dice roller, roll log, toasts */}
@@ -407,6 +452,7 @@ export const MainLayout = React.memo(function MainLayout(props: MainLayoutProps)
         toggleRollLog={toggleRollLog}
         handleClearLog={handleClearLog}
         handleViewRoll={handleViewRoll}
+        handleApplyAttackDamage={applyAttackDamage}
         crtFilter={crtFilter}
         toast={toast}
       />
@@ -42,6 +42,7 @@ export const MobileLayout = React.memo(function MobileLayout(props: MainLayoutPr
     pointerMode,
     measureMode,
     remoteMeasurements,
+    remoteDragRoutes,
     transformMode,
     selectMode,
     alignmentMode,
@@ -72,6 +73,7 @@ export const MobileLayout = React.memo(function MobileLayout(props: MainLayoutPr
     alignmentPoints,
     alignmentSuggestion,
     handleAlignmentPointCapture,
+    fogBrush,
 
     // Dice/log open state lives at the App level; the machine drives it
     diceRollerOpen,
@@ -119,6 +121,7 @@ export const MobileLayout = React.memo(function MobileLayout(props: MainLayoutPr
     toggleRollLog,
     mapEditMode,
     alignmentMode,
+    fogBrushMode: fogBrush?.active,
   });
   const { surface, toggleSurface } = machine;
   // The two tool-derived sheets share the bottom-sheet slot with these
@@ -157,6 +160,7 @@ export const MobileLayout = React.memo(function MobileLayout(props: MainLayoutPr
             pointerMode={pointerMode}
             measureMode={measureMode}
             remoteMeasurements={remoteMeasurements}
+            remoteDragRoutes={remoteDragRoutes}
             drawMode={drawMode}
             transformMode={transformMode}
             selectMode={selectMode}
@@ -184,6 +188,7 @@ export const MobileLayout = React.memo(function MobileLayout(props: MainLayoutPr
             alignmentPoints={alignmentPoints}
             alignmentSuggestion={alignmentSuggestion}
             onAlignmentPointCapture={handleAlignmentPointCapture}
+            fogBrush={fogBrush?.active ? fogBrush.settings : null}
             {...drawingProps}
             onRecolorToken={recolorToken}
             onTransformObject={transformSceneObject}
@@ -229,6 +229,8 @@ describe("CenterCanvasLayout Section - Characterization Tests", () => {
       onMoveLayer: vi.fn(),
       onUpdateElement: vi.fn(),
       onUpdateDoor: vi.fn(),
+      onUpdateLink: vi.fn(),
+      mapDocuments: [],
       onRemoveElement: vi.fn(),
       layersOpen: false,
       onToggleLayers: vi.fn(),
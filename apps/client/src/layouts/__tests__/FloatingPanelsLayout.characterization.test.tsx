@@ -315,6 +315,8 @@ describe("FloatingPanelsLayout Section - Characterization Tests", () => {
       onMoveLayer: vi.fn(),
       onUpdateElement: vi.fn(),
       onUpdateDoor: vi.fn(),
+      onUpdateLink: vi.fn(),
+      mapDocuments: [],
       onRemoveElement: vi.fn(),
       layersOpen: false,
       onToggleLayers: vi.fn(),
@@ -166,6 +166,8 @@ describe("MobileLayout", () => {
       onMoveLayer: vi.fn(),
       onUpdateElement: vi.fn(),
       onUpdateDoor: vi.fn(),
+      onUpdateLink: vi.fn(),
+      mapDocuments: [],
       onRemoveElement: vi.fn(),
       layersOpen: false,
       onToggleLayers: vi.fn(),
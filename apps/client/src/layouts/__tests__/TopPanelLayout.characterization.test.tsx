@@ -231,6 +231,8 @@ describe("TopPanelLayout Section - Characterization Tests", () => {
       onMoveLayer: vi.fn(),
       onUpdateElement: vi.fn(),
       onUpdateDoor: vi.fn(),
+      onUpdateLink: vi.fn(),
+      mapDocuments: [],
       onRemoveElement: vi.fn(),
       layersOpen: false,
       onToggleLayers: vi.fn(),
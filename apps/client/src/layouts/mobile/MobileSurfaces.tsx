@@ -17,6 +17,8 @@ import { HelpPanel } from "../../features/help/HelpPanel";
 import { Spinner } from "../../components/ui/Spinner";
 import { useEntityEditHandlers } from "../../hooks/useEntityEditHandlers";
 import { useInitiativeSetting } from "../../hooks/useInitiativeSetting";
+import { useAttacks } from "../../hooks/useAttacks";
+import { useDiceMacros } from "../../components/dice/useDiceMacros";
 import { buildDMMenuProps } from "../../features/dm/buildDMMenuProps";
 import { DMMenuLoadFailure } from "../../features/dm/DMMenuLoadFailure";
 import { ErrorBoundary } from "../../components/ErrorBoundary";
@@ -58,6 +60,15 @@ export function MobileSurfaces({ props, machine }: MobileSurfacesProps): JSX.Ele
     sendMessage: props.sendMessage,
   });
   const dmMenuProps = buildDMMenuProps(props, { setInitiative });
+  const { applyAttackDamage } = useAttacks({ sendMessage: props.sendMessage });
+  const macros = useDiceMacros({
+    characters: props.snapshot?.characters ?? [],
+    tableMacros: props.snapshot?.tableMacros,
+    currentTurnCharacterId: props.snapshot?.currentTurnCharacterId,
+    uid: props.uid,
+    isDM: props.isDM,
+    sendMessage: props.sendMessage,
+  });
 
   return (
     <>
@@ -67,6 +78,8 @@ export function MobileSurfaces({ props, machine }: MobileSurfacesProps): JSX.Ele
             onRoll={props.handleRoll}
             latestOwnRoll={props.latestOwnRoll}
             onClose={closeSurface}
+            targets={props.snapshot?.characters}
+            macros={macros}
           />
         </div>
       )}
@@ -98,6 +111,9 @@ export function MobileSurfaces({ props, machine }: MobileSurfacesProps): JSX.Ele
             onCharacterPortraitUpdate={props.playerActions.setCharacterPortrait}
             tokens={props.snapshot?.tokens || []}
             onTokenVisionRadiusChange={props.updateTokenVisionRadius}
+            onTokenSensesChange={props.updateTokenSenses}
+            onTokenLightChange={props.updateTokenLight}
+            onTokenSpeedChange={props.updateTokenSpeed}
           />
         </MobileScreen>
       )}
@@ -113,6 +129,7 @@ export function MobileSurfaces({ props, machine }: MobileSurfacesProps): JSX.Ele
             players={props.snapshot?.players ?? []}
             currentUid={props.uid}
             onSendChat={props.handleSendChat}
+            onApplyAttackDamage={props.isDM ? applyAttackDamage : undefined}
           />
         </MobileScreen>
       )}
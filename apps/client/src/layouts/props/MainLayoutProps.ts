@@ -18,8 +18,11 @@ import type {
   ClientMessage,
   ChatMessage,
   MeasureEvent,
+  DragPreviewObject,
   SceneObjectTransform,
   TokenSize,
+  SenseProfile,
+  TokenLight,
   PlayerState,
   PlayerStagingZone,
 } from "@herobyte/shared";
@@ -32,6 +35,7 @@ import type {
 } from "../../features/map-edit/mapEditTypes";
 import type { RoomBounds } from "../../features/map-edit/roomBuilder";
 import type { AlignmentPoint, AlignmentSuggestion } from "../../types/alignment";
+import type { FogBrushController } from "../../features/map";
 import type { RollLogEntry } from "../../components/dice/rollLogTypes";
 import type { DiceRollRequest } from "../../hooks/useDiceRolling";
 import type { UseDrawingStateManagerReturn } from "../../hooks/useDrawingStateManager";
@@ -110,6 +114,8 @@ export interface MainLayoutProps {
    * fixtures stay untouched, matching the convention above.
    */
   remoteMeasurements?: MeasureEvent[];
+  /** Everyone else's routed token drags, optional for the same reason. */
+  remoteDragRoutes?: DragPreviewObject[];
   /** Whether transform mode is active */
   transformMode: boolean;
   /** Whether select mode is active */
@@ -343,6 +349,12 @@ export interface MainLayoutProps {
   /** DM-only: set a token's sight limit in feet, or null for unlimited (S7;
    * optional so the layout fixtures stay untouched). */
   updateTokenVisionRadius?: (tokenId: string, radiusFeet: number | null) => void;
+  /** DM-only: set a token's special senses, or null for none (optional, as above). */
+  updateTokenSenses?: (tokenId: string, senses: SenseProfile | null) => void;
+  /** Owner or DM: set a token's carried light, or null to put it out (optional, as above). */
+  updateTokenLight?: (tokenId: string, light: TokenLight | null) => void;
+  /** DM-only: set a token's walking speed, or null for the default (optional, as above). */
+  updateTokenSpeed?: (tokenId: string, speedFeet: number | null) => void;
 
   // -------------------------------------------------------------------------
   // Alignment
@@ -364,6 +376,12 @@ export interface MainLayoutProps {
   /** Handler for alignment point capture */
   handleAlignmentPointCapture: (point: AlignmentPoint) => void;
 
+  // -------------------------------------------------------------------------
+  // Fog brush
+  // -------------------------------------------------------------------------
+  /** DM reveal/conceal painting tool (optional so the layout fixtures stay untouched). */
+  fogBrush?: FogBrushController;
+
   // -------------------------------------------------------------------------
   // Dice
   // -------------------------------------------------------------------------
@@ -47,7 +47,13 @@
  * See: docs/refactoring/CLIENT_WEBSOCKET_PLAN.md
  */
 
-import type { RoomSnapshot, ClientMessage, MeasureEvent, ServerMessage } from "@herobyte/shared";
+import type {
+  ClientMessage,
+  DragPreviewEvent,
+  MeasureEvent,
+  RoomSnapshot,
+  ServerMessage,
+} from "@herobyte/shared";
 import type { SignalData } from "simple-peer";
 import { MessageRouter } from "./websocket/MessageRouter";
 import {
@@ -86,7 +92,8 @@ type ControlMessage =
   | Extract<ServerMessage, { t: "map-studio-deleted" }>
   | Extract<ServerMessage, { t: "map-studio-error" }>
   | Extract<ServerMessage, { t: "room-created" }>
-  | Extract<ServerMessage, { t: "room-create-failed" }>;
+  | Extract<ServerMessage, { t: "room-create-failed" }>
+  | Extract<ServerMessage, { t: "map-link-used" }>;
 
 // Re-export for backward compatibility
 export { AuthState, type AuthEvent, ConnectionState };
@@ -101,6 +108,9 @@ interface WebSocketServiceConfig {
   onControlMessage?: (message: ControlMessage) => void;
   /** Someone's live measurement (S6). Ephemeral — never part of a snapshot. */
   onMeasure?: (measure: MeasureEvent) => void;
+  /** A drag preview, after the snapshot has moved its tokens — for the drag
+   * routes it carries, which like measurements never enter a snapshot. */
+  onDragPreview?: (preview: DragPreviewEvent) => void;
   /** A RELIABLE command (one carrying a commandId) was dropped for good —
    * retries exhausted or the offline queue overflowed. The user's change did
    * NOT reach the server; surface it (toast) instead of losing it to the
@@ -201,6 +211,7 @@ export class WebSocketService {
       onControlMessage: () => {},
       onCommandDropped: () => {},
       onMeasure: () => {},
+      onDragPreview: () => {},
       ...config,
     };
 
@@ -224,7 +235,10 @@ export class WebSocketService {
       onControlMessage: this.config.onControlMessage,
       onDelta: (delta) => this.snapshotReconciler.applyDelta(delta),
       onPointerPreview: (pointer) => this.snapshotReconciler.applyPointerPreview(pointer),
-      onDragPreview: (preview) => this.snapshotReconciler.applyDragPreview(preview),
+      onDragPreview: (preview) => {
+        this.snapshotReconciler.applyDragPreview(preview);
+        this.config.onDragPreview?.(preview);
+      },
       // Straight through: there is no snapshot to reconcile a measurement into,
       // which is the whole point of putting it on its own channel.
       onMeasure: (measure) => this.config.onMeasure?.(measure),
@@ -59,7 +59,8 @@ type ControlMessage =
   | Extract<ServerMessage, { t: "map-studio-deleted" }>
   | Extract<ServerMessage, { t: "map-studio-error" }>
   | Extract<ServerMessage, { t: "room-created" }>
-  | Extract<ServerMessage, { t: "room-create-failed" }>;
+  | Extract<ServerMessage, { t: "room-create-failed" }>
+  | Extract<ServerMessage, { t: "map-link-used" }>;
 
 type HeartbeatAckMessage = Extract<ServerMessage, { t: "heartbeat-ack" }>;
 
@@ -342,6 +343,7 @@ export class MessageRouter {
    * - dm-elevation-failed
    * - dm-password-updated
    * - dm-password-update-failed
+   * - map-link-used
    *
    * @param value - Unknown value to check
    * @returns True if value is a control message
@@ -361,7 +363,8 @@ export class MessageRouter {
       candidate.t === "map-studio-deleted" ||
       candidate.t === "map-studio-error" ||
       candidate.t === "room-created" ||
-      candidate.t === "room-create-failed"
+      candidate.t === "room-create-failed" ||
+      candidate.t === "map-link-used"
     );
   }
 
@@ -10,7 +10,13 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { Camera } from "../hooks/useCamera";
-import type { RoomSnapshot, ClientMessage, MeasureEvent, ServerMessage } from "@herobyte/shared";
+import type {
+  RoomSnapshot,
+  ClientMessage,
+  MeasureEvent,
+  ServerMessage,
+  DragPreviewObject,
+} from "@herobyte/shared";
 import { WS_URL } from "../config";
 import { useWebSocket } from "../hooks/useWebSocket";
 import { useDrawingStateManager } from "../hooks/useDrawingStateManager";
@@ -31,7 +37,7 @@ import { AuthenticationGate } from "../features/auth";
 import { useCreateRoom } from "../features/rooms/useCreateRoom";
 import { useForkTable } from "../features/rooms/useForkTable";
 import { useMapActions } from "../hooks/useMapActions";
-import { useMapAlignment } from "../features/map";
+import { useFogBrush, useMapAlignment } from "../features/map";
 import { usePlayerActions } from "../hooks/usePlayerActions";
 import { useVoiceChatManager } from "../hooks/useVoiceChatManager";
 import { useDiceRolling } from "../hooks/useDiceRolling";
@@ -75,6 +81,7 @@ export const App: React.FC = () => {
   const {
     snapshot,
     remoteMeasurements,
+    remoteDragRoutes,
     connectionState,
     send: sendMessage,
     authState,
@@ -114,6 +121,7 @@ export const App: React.FC = () => {
         uid={uid}
         snapshot={snapshot}
         remoteMeasurements={remoteMeasurements}
+        remoteDragRoutes={remoteDragRoutes}
         sendMessage={sendMessage}
         getAuthCredentials={getAuthCredentials}
         registerRtcHandler={registerRtcHandler}
@@ -131,6 +139,8 @@ interface AuthenticatedAppProps {
   snapshot: RoomSnapshot | null;
   /** Everyone else's live measurement (S6); relayed, never in the snapshot. */
   remoteMeasurements: MeasureEvent[];
+  /** Everyone else's routed token drags; relayed, never in the snapshot. */
+  remoteDragRoutes: DragPreviewObject[];
   sendMessage: (message: ClientMessage) => void;
   getAuthCredentials: () => { secret: string; roomId?: string } | null;
   registerRtcHandler: (handler: (from: string, signal: unknown) => void) => void;
@@ -144,6 +154,7 @@ function AuthenticatedApp({
   uid,
   snapshot,
   remoteMeasurements,
+  remoteDragRoutes,
   sendMessage,
   getAuthCredentials,
   registerRtcHandler,
@@ -152,8 +163,9 @@ function AuthenticatedApp({
   isConnected,
   authState,
 }: AuthenticatedAppProps): JSX.Element {
-  // Chime when the active combatant changes. Takes the whole snapshot on
-  // purpose: it must tell "no snapshot" from "no active turn" (see the hook).
+  // Chime when the active combatant changes, and tick through the last
+  // seconds of a timed turn. Takes the whole snapshot on purpose: it must tell
+  // "no snapshot" from "no active turn" (see the hook).
   useTurnChime(snapshot);
 
   // Publish the room credentials for the session feature: restoring a session
@@ -176,6 +188,7 @@ function AuthenticatedApp({
     selectMode,
     alignmentMode,
     mapEditMode,
+    fogBrushMode,
   } = useToolMode();
 
   // Custom hooks for state management
@@ -448,6 +461,9 @@ function AuthenticatedApp({
     updateTokenImage,
     updateTokenSize,
     updateTokenVisionRadius,
+    updateTokenSenses,
+    updateTokenLight,
+    updateTokenSpeed,
   } = useSceneObjectActions({ sendMessage });
 
   /**
@@ -621,6 +637,9 @@ function AuthenticatedApp({
     transformSceneObject,
   });
 
+  // DM fog brush (reveal/conceal painting)
+  const fogBrush = useFogBrush({ activeTool, setActiveTool, sendMessage });
+
   // Keyboard shortcuts
   useKeyboardShortcuts({
     selectedObjectIds,
@@ -634,6 +653,7 @@ function AuthenticatedApp({
     undoSelection,
     canUndoSelection: canUndo,
     mapEditMode,
+    fogBrushMode,
   });
 
   // -------------------------------------------------------------------------
@@ -734,6 +754,7 @@ function AuthenticatedApp({
     pointerMode,
     measureMode,
     remoteMeasurements,
+    remoteDragRoutes,
     transformMode,
     selectMode,
     alignmentMode,
@@ -835,6 +856,9 @@ function AuthenticatedApp({
     updateTokenImage,
     updateTokenSize,
     updateTokenVisionRadius,
+    updateTokenSenses,
+    updateTokenLight,
+    updateTokenSpeed,
     // Alignment
     alignmentPoints,
     alignmentSuggestion,
@@ -844,6 +868,8 @@ function AuthenticatedApp({
     handleAlignmentCancel,
     handleAlignmentApply,
     handleAlignmentPointCapture,
+    // Fog brush
+    fogBrush,
     // Dice
     rollHistory,
     chatMessages,
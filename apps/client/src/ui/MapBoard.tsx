@@ -14,7 +14,13 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Stage, Layer } from "react-konva";
 import type Konva from "konva";
-import type { CompiledDoorState, DragPreviewUpdate } from "@herobyte/shared";
+import {
+  createTerrainMovementLookup,
+  type CompiledDoorState,
+  type DragPreviewUpdate,
+  type ExploredFogUpload,
+  type FogRegionDraft,
+} from "@herobyte/shared";
 import { buildTokenPlates } from "../features/map/tokenPlates";
 import { ENABLE_DRAG_PREVIEWS } from "../config.js";
 import { usePointerTool } from "../hooks/usePointerTool.js";
@@ -39,11 +45,14 @@ import {
   TerrainLayer,
   MapElementsLayer,
   DoorsLayer,
+  MapLinksLayer,
   FogLayer,
+  FogBrushLayer,
   TokensLayer,
   PointersLayer,
   DrawingsLayer,
   MeasureLayer,
+  DragPathLayer,
   TransformGizmo,
   PropsLayer,
   StagingZoneLayer,
@@ -51,19 +60,28 @@ import {
   AlignmentInstructionOverlay,
   MarqueeOverlay,
   withEmissiveLights,
+  withCarriedLights,
+  CarriedLightsLayer,
 } from "../features/map/components";
 import { useE2ETestingSupport } from "../utils/useE2ETestingSupport";
 import { useMapEditTool } from "../features/map-edit/useMapEditTool";
 import { isDragTool } from "../features/map-edit/mapEditToolKinds";
 import { MapEditPreviewLayer } from "../features/map-edit/MapEditPreviewLayer";
 import { MapEditQuickWheel } from "../features/map-edit/MapEditQuickWheel";
-import { dmViewActive, fogViewers, visibleDoors } from "../features/map/playerLens";
-import { exploredFogKey } from "../features/map/exploredFogStore";
-import { currentRoomId } from "../features/rooms/roomDirectory";
+import {
+  dmViewActive,
+  fogTremorTargets,
+  fogViewers,
+  visibleDoors,
+} from "../features/map/playerLens";
 import { WallsOverlayLayer } from "../features/map-edit/WallsOverlayLayer";
 import { NotesOverlayLayer } from "../features/map-edit/NotesOverlayLayer";
 import type { CameraCommand, MapBoardProps, SelectionRequestOptions } from "./MapBoard.types";
-import { STATUS_OPTIONS, type StatusOption } from "../features/players/constants/statusOptions";
+import {
+  STATUS_OPTIONS,
+  conditionBadge,
+  type StatusOption,
+} from "../features/players/constants/statusOptions";
 
 // Re-export types for backward compatibility
 export type { CameraCommand, MapBoardProps, SelectionRequestOptions };
@@ -90,6 +108,7 @@ export default function MapBoard({
   pointerMode,
   measureMode,
   remoteMeasurements,
+  remoteDragRoutes,
   drawMode,
   transformMode,
   selectMode,
@@ -118,6 +137,7 @@ export default function MapBoard({
   alignmentPoints = [],
   alignmentSuggestion = null,
   onAlignmentPointCapture,
+  fogBrush = null,
   drawTool,
   drawColor,
   drawWidth,
@@ -148,14 +168,19 @@ export default function MapBoard({
   const { sceneObjects, mapObject, drawingObjects, stagingZoneObject, stagingZoneDimensions } =
     useSceneObjectsData(snapshot, gridSize);
 
-  // Where THIS player's memory of THIS map on THIS table is kept (S7). The uid
-  // segment is what stops a DM's player-lens session — which sees the party's
-  // union, not any one player's — from writing into a player's memory.
-  const exploredStorageKey = useMemo(() => {
-    const documentId = snapshot?.compiledScene?.sourceDocumentId;
-    if (!documentId || !uid) return null;
-    return exploredFogKey(currentRoomId(), uid, documentId);
-  }, [snapshot?.compiledScene?.sourceDocumentId, uid]);
+  // THIS player's memory of the published scene, as the server keeps it (S7).
+  // The DM's player lens sees the party's union rather than any one player's
+  // view, so it remembers only for as long as the lens is open and never
+  // uploads — inspecting the party must not write into anyone's memory.
+  const exploredMemory = snapshot?.exploredFog?.find((mask) => mask.uid === uid);
+  const handleExploredChange = useCallback(
+    (mask: ExploredFogUpload) => sendMessage({ t: "explored-fog", mask }),
+    [sendMessage],
+  );
+  const handleFogPaint = useCallback(
+    (region: FogRegionDraft) => sendMessage({ t: "add-fog-region", region }),
+    [sendMessage],
+  );
 
   // Build statusEffectsByTokenId map from characters array
   // Maps token IDs to their character's status effect details
@@ -180,14 +205,20 @@ export default function MapBoard({
             ? (playerStatusMap.get(character.ownedByPlayerUID) ?? [])
             : [];
 
-      if (ownedStatuses.length === 0) continue;
+      // Conditions lead: they carry a clock, so they are the badges worth
+      // seeing first. A status repeating a condition's name is left out.
+      const conditions = character.conditions ?? [];
+      const statuses = ownedStatuses.filter(
+        (value) => !conditions.some((condition) => condition.key === value),
+      );
+      if (conditions.length === 0 && statuses.length === 0) continue;
 
-      const mapped = ownedStatuses.map((value) => {
+      const mapped = statuses.map((value) => {
         const option = STATUS_OPTIONS.find((opt) => opt.value === value);
         return option ?? { value, label: value, emoji: "?" };
       });
 
-      result[`token:${character.tokenId}`] = mapped;
+      result[`token:${character.tokenId}`] = [...conditions.map(conditionBadge), ...mapped];
     }
     return result;
   }, [snapshot?.characters, snapshot?.players]);
@@ -512,11 +543,15 @@ export default function MapBoard({
   }, [mapEditMode]);
   const dragPreviewEnabled = ENABLE_DRAG_PREVIEWS;
 
+  // Your own drag's route, drawn from the same updates the channel carries —
+  // whether or not the channel is on, the path is yours to see.
+  const [localDragRoute, setLocalDragRoute] = useState<DragPreviewUpdate | null>(null);
   const handleDragPreview = useCallback(
     (updates: DragPreviewUpdate[]) => {
       if (!updates || updates.length === 0) {
         return;
       }
+      setLocalDragRoute(updates.find((update) => update.route) ?? null);
       if (!dragPreviewEnabled) {
         return;
       }
@@ -525,6 +560,12 @@ export default function MapBoard({
     [sendMessage, dragPreviewEnabled],
   );
 
+  const dragPathRoutes = useMemo(
+    () =>
+      localDragRoute ? [...(remoteDragRoutes ?? []), localDragRoute] : (remoteDragRoutes ?? []),
+    [localDragRoute, remoteDragRoutes],
+  );
+
   const handleRecolorToken = useCallback(
     (sceneId: string, owner?: string | null) => {
       onRecolorToken(sceneId, owner);
@@ -541,6 +582,19 @@ export default function MapBoard({
     [sendMessage],
   );
 
+  // Selected tokens the viewer may send through a map link (the server checks again).
+  const linkTravellers = useMemo(
+    () =>
+      (snapshot?.tokens ?? []).filter(
+        (token) => selectedObjectIds.includes(`token:${token.id}`) && (isDM || token.owner === uid),
+      ),
+    [snapshot?.tokens, selectedObjectIds, isDM, uid],
+  );
+  const handleUseMapLink = useCallback(
+    (linkId: string, tokenIds: string[]) => sendMessage({ t: "use-map-link", linkId, tokenIds }),
+    [sendMessage],
+  );
+
   const handleSetDoorState = useCallback(
     (doorId: string, state: CompiledDoorState) => {
       sendMessage({ t: "set-door-state", doorId, state });
@@ -597,6 +651,38 @@ export default function MapBoard({
     [registerNode],
   );
 
+  // Carried lights follow token deltas live (tokenLights.ts). Fog and glow
+  // both read this scene, never the payload's copy, or a torch would lag one
+  // snapshot behind the token carrying it.
+  const litScene = useMemo(
+    () =>
+      snapshot?.compiledScene
+        ? withCarriedLights(snapshot.compiledScene, snapshot.tokens ?? [], {
+            gridSize: grid.size,
+            gridSquareSize: snapshot.gridSquareSize ?? 5,
+            mapTransform: mapObject?.transform,
+          })
+        : undefined,
+    [
+      snapshot?.compiledScene,
+      snapshot?.tokens,
+      snapshot?.gridSquareSize,
+      grid.size,
+      mapObject?.transform,
+    ],
+  );
+
+  // The ruler charges difficult ground the way a walk across it is charged.
+  const measureTerrain = useMemo(
+    () =>
+      createTerrainMovementLookup(
+        snapshot?.compiledScene?.terrain,
+        grid.size,
+        mapObject?.transform,
+      ),
+    [snapshot?.compiledScene?.terrain, grid.size, mapObject?.transform],
+  );
+
   // -------------------------------------------------------------------------
   // RENDER
   // -------------------------------------------------------------------------
@@ -691,6 +777,13 @@ export default function MapBoard({
               mapTransform={mapObject?.transform}
             />
           )}
+          {litScene && (
+            <CarriedLightsLayer
+              cam={cam}
+              mapTransform={mapObject?.transform}
+              lights={litScene.lights}
+            />
+          )}
           {grid.show && (
             <GridLayer
               cam={cam}
@@ -713,12 +806,24 @@ export default function MapBoard({
               onSetDoorState={handleSetDoorState}
             />
           )}
+          {snapshot?.compiledScene?.links && !mapEditMode && (
+            <MapLinksLayer
+              cam={cam}
+              scene={snapshot.compiledScene}
+              mapTransform={mapObject?.transform}
+              gridSize={grid.size}
+              selectedTokens={linkTravellers}
+              isDM={dmView}
+              onUseLink={handleUseMapLink}
+            />
+          )}
           {/* DM-only walls overlay: shown while authoring, or pinned to persist. */}
           {dmView && (mapEditMode || mapEditWallsOverlayPinned) && snapshot?.compiledScene && (
             <WallsOverlayLayer
               cam={cam}
               mapTransform={mapObject?.transform}
               walls={snapshot.compiledScene.walls}
+              terrain={snapshot.compiledScene.terrain}
             />
           )}
           {/* DM-only GM notes (generated spawn/loot keys). Read from the live
@@ -794,7 +899,7 @@ export default function MapBoard({
             onSelectObject={onSelectObject}
             onTokenNodeReady={handleTokenNodeReady}
             interactionsEnabled={tokenInteractionsEnabled}
-            onDragPreview={dragPreviewEnabled ? handleDragPreview : undefined}
+            onDragPreview={handleDragPreview}
             statusEffectsByTokenId={statusEffectsByTokenId}
             hpByTokenId={hpByTokenId}
             platesByTokenId={platesByTokenId}
@@ -807,10 +912,10 @@ export default function MapBoard({
             pixel centers, matching the renderer. The player lens (P4) turns
             fog ON for the DM with the party's union vision (fogViewers), and
             each viewer clips to its own sight radius. */}
-        {!dmView && snapshot?.fogEnabled && snapshot.compiledScene && (
+        {!dmView && snapshot?.fogEnabled && litScene && (
           <FogLayer
             cam={cam}
-            compiledScene={snapshot.compiledScene}
+            compiledScene={litScene}
             mapTransform={mapObject?.transform}
             viewers={fogViewers(
               snapshot.tokens ?? [],
@@ -819,9 +924,31 @@ export default function MapBoard({
               grid.size,
               snapshot.defaultVisionRadius,
             )}
+            tremorTargets={fogTremorTargets(
+              snapshot.tokens ?? [],
+              uid,
+              isDM && playerLens,
+              grid.size,
+            )}
             gridSize={grid.size}
             gridSquareSize={snapshot?.gridSquareSize ?? 5}
-            exploredStorageKey={exploredStorageKey}
+            remembersExplored={!!uid}
+            exploredMemory={exploredMemory}
+            onExploredChange={isDM ? undefined : handleExploredChange}
+            regions={snapshot.fogRegions}
+          />
+        )}
+
+        {/* DM fog brush: paints reveal/conceal regions while the tool is armed. */}
+        {isDM && fogBrush && snapshot?.compiledScene && (
+          <FogBrushLayer
+            cam={cam}
+            viewport={{ w, h }}
+            mapTransform={mapObject?.transform}
+            regions={snapshot.fogRegions ?? []}
+            settings={fogBrush}
+            toWorld={toWorld}
+            onPaint={handleFogPaint}
           />
         )}
 
@@ -836,6 +963,16 @@ export default function MapBoard({
             previewUid={uid}
             pointerMode={pointerMode}
           />
+          <DragPathLayer
+            cam={cam}
+            routes={dragPathRoutes}
+            tokens={snapshot?.tokens ?? []}
+            gridSize={grid.size}
+            gridSquareSize={snapshot?.gridSquareSize}
+            diagonalRule={snapshot?.diagonalRule}
+            scene={snapshot?.compiledScene}
+            mapTransform={mapObject?.transform}
+          />
           <MeasureLayer
             cam={cam}
             measureStart={measureStart}
@@ -844,6 +981,7 @@ export default function MapBoard({
             gridSquareSize={snapshot?.gridSquareSize}
             diagonalRule={snapshot?.diagonalRule}
             remoteMeasurements={remoteMeasurements}
+            terrain={measureTerrain}
           />
           <AlignmentOverlay
             alignmentMode={alignmentMode}
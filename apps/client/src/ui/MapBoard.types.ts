@@ -1,4 +1,10 @@
-import type { RoomSnapshot, ClientMessage, DrawTool, MeasureEvent } from "@herobyte/shared";
+import type {
+  RoomSnapshot,
+  ClientMessage,
+  DrawTool,
+  MeasureEvent,
+  DragPreviewObject,
+} from "@herobyte/shared";
 import type { AlignmentPoint, AlignmentSuggestion } from "../types/alignment";
 import type { Camera } from "../hooks/useCamera";
 import type { MapStudioController } from "../features/map-studio/types";
@@ -8,6 +14,7 @@ import type {
   MapEditWallFamily,
 } from "../features/map-edit/mapEditTypes";
 import type { RoomBounds } from "../features/map-edit/roomBuilder";
+import type { FogBrushSettings } from "../features/map/useFogBrush";
 
 /**
  * Camera command for programmatic camera control.
@@ -36,6 +43,7 @@ export interface MapBoardProps {
   pointerMode: boolean; // Pointer tool active
   measureMode: boolean; // Measure tool active
   remoteMeasurements?: MeasureEvent[]; // Other players' live measurements (S6)
+  remoteDragRoutes?: DragPreviewObject[]; // Other players' routed token drags
   drawMode: boolean; // Draw tool active
   transformMode: boolean; // Transform tool active (gizmo mode)
   selectMode: boolean; // Selection tool active
@@ -66,6 +74,7 @@ export interface MapBoardProps {
   alignmentPoints?: AlignmentPoint[]; // Captured alignment points
   alignmentSuggestion?: AlignmentSuggestion | null; // Preview transform for alignment
   onAlignmentPointCapture?: (point: AlignmentPoint) => void;
+  fogBrush?: FogBrushSettings | null; // DM fog brush settings while the tool is armed
   drawTool: DrawTool; // Active drawing tool
   drawColor: string; // Drawing color
   drawWidth: number; // Drawing brush size
@@ -73,6 +73,9 @@ vi.mock("../../features/map/components", () => ({
       data-remote-count={props.remoteMeasurements?.length ?? -1}
     />
   ),
+  DragPathLayer: (props: { routes: unknown[] }) => (
+    <div data-testid="drag-path-layer" data-route-count={props.routes.length} />
+  ),
   // Same idea for the fog wiring: MapBoard's fogViewers call is the ONE place
   // the client resolves the table default, and the slice review flagged it as
   // untested. The required 5th parameter makes DROPPING the argument a compile
@@ -83,6 +86,7 @@ vi.mock("../../features/map/components", () => ({
       data-viewer-radii={props.viewers.map((viewer) => viewer.radiusFeet ?? "unlimited").join("|")}
     />
   ),
+  FogBrushLayer: () => <div data-testid="fog-brush-layer" />,
   TransformGizmo: () => <div data-testid="transform-gizmo" />,
   PropsLayer: () => <div data-testid="props-layer" />,
   StagingZoneLayer: () => <div data-testid="staging-zone-layer" />,
@@ -90,6 +94,8 @@ vi.mock("../../features/map/components", () => ({
   AlignmentInstructionOverlay: () => <div data-testid="alignment-instruction-overlay" />,
   MarqueeOverlay: () => <div data-testid="marquee-overlay" />,
   withEmissiveLights: (mapElements?: { lighting?: unknown }) => mapElements?.lighting,
+  withCarriedLights: (scene: unknown) => scene,
+  CarriedLightsLayer: () => <div data-testid="carried-lights-layer" />,
 }));
 
 // Mock all the hooks
@@ -498,6 +504,23 @@ describe("MapBoard", () => {
 
       expect(screen.getByTestId("measure-layer")).toHaveAttribute("data-remote-count", "1");
     });
+
+    it("hands DragPathLayer the relayed drag routes", () => {
+      const props = getDefaultProps({
+        remoteDragRoutes: [
+          {
+            tokenId: "t1",
+            id: "token:t1",
+            x: 3,
+            y: 1,
+            route: { from: { x: 1, y: 1 }, waypoints: [] },
+          },
+        ],
+      });
+      render(<MapBoard {...props} />);
+
+      expect(screen.getByTestId("drag-path-layer")).toHaveAttribute("data-route-count", "1");
+    });
   });
 
   // The review's last surviving finding: nothing exercised the fogViewers call
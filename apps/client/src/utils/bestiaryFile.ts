@@ -0,0 +1,54 @@
+// ============================================================================
+// BESTIARY FILE UTILITIES
+// ============================================================================
+// Export a room's monster templates to a JSON file and read one back. The
+// server coerces every imported template on arrival, so reading here only
+// checks the outer shape — a file it cannot find templates in at all.
+
+import { buildBestiaryFile, readBestiaryFile, type MonsterTemplate } from "@herobyte/shared";
+
+/**
+ * Trigger a download of the bestiary as a BestiaryFile.
+ */
+export function saveBestiaryFile(templates: MonsterTemplate[]): void {
+  const json = JSON.stringify(buildBestiaryFile(templates), null, 2);
+  const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "bestiary.json";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read the templates out of a bestiary file the DM picked. Rejects with a
+ * message fit for a toast when the file is not JSON or not a bestiary.
+ */
+export function loadBestiaryFile(file: File): Promise<unknown[]> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error("Failed to read bestiary file"));
+    reader.onload = () => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(reader.result as string);
+      } catch {
+        reject(new Error("Bestiary file is not valid JSON"));
+        return;
+      }
+      const read = readBestiaryFile(parsed);
+      if (!read.ok) {
+        reject(new Error(`Cannot import: ${read.error}`));
+      } else if (read.templates.length === 0) {
+        reject(new Error("Cannot import: the file has no templates"));
+      } else {
+        resolve(read.templates);
+      }
+    };
+    reader.readAsText(file);
+  });
+}
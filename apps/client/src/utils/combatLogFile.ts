@@ -0,0 +1,25 @@
+// ============================================================================
+// COMBAT LOG FILE
+// ============================================================================
+// Download a fight's log as Markdown, ready to paste into session notes. The
+// events are whatever this client's snapshot holds, so a player's export has
+// the same redactions their screen does.
+
+import { combatLogMarkdown, type CombatEvent } from "@herobyte/shared";
+
+/**
+ * Trigger a download of the combat log as combat-log.md.
+ */
+export function saveCombatLogMarkdown(events: CombatEvent[]): void {
+  const markdown = combatLogMarkdown(events);
+  const url = URL.createObjectURL(new Blob([markdown], { type: "text/markdown" }));
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = "combat-log.md";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
@@ -170,6 +170,11 @@ export function loadSession(file: File): Promise<SessionFile> {
             : [],
           liveMapDocumentId:
             typeof parsed.liveMapDocumentId === "string" ? parsed.liveMapDocumentId : undefined,
+          // Absent in files saved before scenes existed; the server coerces
+          // each entry, so only the outer shape is checked here.
+          scenes: Array.isArray(parsed.scenes)
+            ? (parsed.scenes as SessionFile["scenes"])
+            : undefined,
           // Absent in files saved before assets were inlined, and in sessions
           // that only use external image URLs. Both are normal.
           assets: Array.isArray(parsed.assets) ? (parsed.assets as SessionFile["assets"]) : [],
@@ -418,4 +418,79 @@ describe("CharacterService", () => {
       expect(updated?.name).toBe("Ambushing Enemy");
     });
   });
+
+  describe("combatant status", () => {
+    it("knocks a PC out at 0 HP and gets them up when healed", () => {
+      const state = createEmptyRoomState();
+      const pc = service.createCharacter(state, "Rogue", 25);
+
+      service.takeDamage(state, pc.id, 30);
+      expect(pc.status).toBe("unconscious");
+
+      service.updateHP(state, pc.id, 4, 25);
+      expect(pc.status).toBeUndefined();
+    });
+
+    it("leaves an NPC at 0 HP, and the dead, to the DM", () => {
+      const state = createEmptyRoomState();
+      const npc = service.createCharacter(state, "Goblin", 7, undefined, "npc");
+      const pc = service.createCharacter(state, "Rogue", 25);
+
+      service.updateHP(state, npc.id, 0, 7);
+      expect(npc.status).toBeUndefined();
+
+      service.setStatus(state, pc.id, "dead");
+      service.updateHP(state, pc.id, 10, 25);
+      expect(pc.status).toBe("dead");
+
+      // "active" clears the status rather than storing it.
+      expect(service.setStatus(state, pc.id, "active")).toBe(true);
+      expect(pc.status).toBeUndefined();
+      expect(service.setStatus(state, "missing", "dead")).toBe(false);
+    });
+  });
+
+  describe("death saves", () => {
+    function downedPc() {
+      const state = createEmptyRoomState();
+      const pc = service.createCharacter(state, "Rogue", 25);
+      service.takeDamage(state, pc.id, 25);
+      return { state, pc };
+    }
+
+    it("counts saves into the tally and marks the PC dead at three failures", () => {
+      const { state, pc } = downedPc();
+
+      expect(service.recordDeathSave(state, pc.id, 14)).toBe("success");
+      expect(service.recordDeathSave(state, pc.id, 1)).toBe("failure");
+      expect(pc.deathSaves).toEqual({ successes: 1, failures: 2 });
+
+      expect(service.recordDeathSave(state, pc.id, 5)).toBe("dead");
+      expect(pc.status).toBe("dead");
+      expect(pc.deathSaves).toBeUndefined();
+      expect(service.recordDeathSave(state, pc.id, 15)).toBeUndefined();
+    });
+
+    it("stops counting once the PC is stable", () => {
+      const { state, pc } = downedPc();
+      service.setDeathSaves(state, pc.id, { successes: 2, failures: 1 });
+
+      expect(service.recordDeathSave(state, pc.id, 10)).toBe("stable");
+      expect(service.recordDeathSave(state, pc.id, 10)).toBeUndefined();
+      expect(pc.status).toBe("unconscious");
+    });
+
+    it("starts the tally again from nothing once the PC is up", () => {
+      const { state, pc } = downedPc();
+      service.setDeathSaves(state, pc.id, { successes: 1, failures: 2 });
+
+      service.updateHP(state, pc.id, 5, 25);
+      expect(pc.deathSaves).toBeUndefined();
+      expect(service.setDeathSaves(state, pc.id, { successes: 1, failures: 0 })).toBe(false);
+
+      service.takeDamage(state, pc.id, 5);
+      expect(service.recordDeathSave(state, pc.id, 12)).toBe("success");
+      expect(pc.deathSaves).toEqual({ successes: 1, failures: 0 });
+    });
+  });
 });
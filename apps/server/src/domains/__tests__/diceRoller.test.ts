@@ -8,7 +8,7 @@
 // going quietly green on different-but-plausible numbers.
 
 import { describe, expect, it } from "vitest";
-import { createSeededRng, parseDiceFormula, type DiceTerm } from "@herobyte/shared";
+import { DICE_LIMITS, createSeededRng, parseDiceFormula, type DiceTerm } from "@herobyte/shared";
 import { cryptoDiceRng, rollTerms, type DiceRng } from "../dice/roller.js";
 
 /** A deterministic DiceRng over the shared mulberry32 stream. */
@@ -191,3 +191,80 @@ describe("cryptoDiceRng", () => {
     expect(face).toBeLessThanOrEqual(20);
   });
 });
+
+describe("rollTerms — keep, drop, explode, reroll and fudge", () => {
+  /** Hands out the given faces in order, whatever the die. */
+  function scripted(...faces: number[]): DiceRng {
+    let next = 0;
+    return () => faces[next++] ?? 1;
+  }
+
+  function rollScripted(formula: string, ...faces: number[]) {
+    return rollTerms(termsOf(formula), "normal", scripted(...faces));
+  }
+
+  it("keeps the highest three of four for a stat", () => {
+    const [term] = rollScripted("4d6kh3", 3, 6, 1, 4).breakdown;
+    expect(term).toEqual({
+      tokenId: "t0",
+      die: "d6",
+      rolls: [3, 6, 4],
+      dice: [{ value: 3 }, { value: 6 }, { value: 1, discarded: true }, { value: 4 }],
+      subtotal: 13,
+    });
+  });
+
+  it("drops the lowest and keeps the first of a tie", () => {
+    expect(rollScripted("2d20kl1", 7, 7).breakdown[0]?.dice).toEqual([
+      { value: 7 },
+      { value: 7, discarded: true },
+    ]);
+    expect(rollScripted("3d6dl1", 2, 5, 2).breakdown[0]?.rolls).toEqual([2, 5]);
+  });
+
+  it("explodes on the maximum face, in a chain", () => {
+    const result = rollScripted("2d6!", 6, 6, 2, 3);
+    expect(result.breakdown[0]?.dice).toEqual([
+      { value: 6 },
+      { value: 6, exploded: true },
+      { value: 2, exploded: true },
+      { value: 3 },
+    ]);
+    expect(result.total).toBe(17);
+  });
+
+  it("rerolls until the face clears, or only once", () => {
+    expect(rollScripted("d6r2", 1, 2, 5).breakdown[0]).toMatchObject({
+      rolls: [5],
+      dice: [{ value: 1, rerolled: true }, { value: 2, rerolled: true }, { value: 5 }],
+    });
+    // Great Weapon Fighting: the second 1 stands.
+    expect(rollScripted("2d6ro2", 1, 1, 4).breakdown[0]).toMatchObject({
+      rolls: [1, 4],
+      subtotal: 5,
+    });
+  });
+
+  it("stops adding dice once the extra-dice budget is spent", () => {
+    // Every face a six: without the budget this would never settle.
+    const result = rollTerms(termsOf("d6!"), "normal", () => 6);
+    expect(result.breakdown[0]?.rolls).toHaveLength(DICE_LIMITS.EXTRA_DICE_MAX + 1);
+  });
+
+  it("throws the whole term twice under advantage", () => {
+    const result = rollTerms(termsOf("2d20kh1"), "advantage", scripted(3, 9, 15, 4));
+    expect(result.breakdown[0]).toMatchObject({ rolls: [15], dropped: [9], subtotal: 15 });
+  });
+
+  it("lands fudge dice on -1, 0 or +1", () => {
+    const result = rollScripted("3dF + 1", 1, 2, 3);
+    expect(result.formula).toBe("3dF + 1");
+    expect(result.breakdown[0]).toEqual({
+      tokenId: "t0",
+      die: "dF",
+      rolls: [-1, 0, 1],
+      subtotal: 0,
+    });
+    expect(result.total).toBe(1);
+  });
+});
@@ -171,4 +171,72 @@ describe("DiceService", () => {
     const uniqueIds = new Set(history.map((roll) => roll.id));
     expect(uniqueIds.size).toBe(rollCount);
   });
+
+  it("rolls an attack's d20 under advantage and its damage straight, floored at zero", () => {
+    const state = createEmptyRoomState();
+    const faces = [8, 15, 1];
+    const roll = service.rollAttackFor(
+      state,
+      {
+        playerUid: "uid-1",
+        playerName: "Player",
+        attacker: { id: "a", name: "Aria" },
+        attack: { name: "Dagger", toHit: 5, damage: "1d4-3" },
+        target: { id: "g", name: "Goblin" },
+        mode: "advantage",
+        visibility: "public",
+      },
+      () => faces.shift() ?? 1,
+      1234,
+    );
+
+    expect(roll?.total).toBe(20);
+    expect(roll?.mode).toBe("advantage");
+    expect(roll?.breakdown[0]).toMatchObject({ rolls: [15], dropped: [8] });
+    expect(roll?.attack?.damage).toMatchObject({ formula: "d4 - 3", total: 0 });
+    expect(roll?.attack?.damage).not.toHaveProperty("damageType");
+    expect(state.diceRolls).toEqual([roll]);
+  });
+
+  it("settles the outcome against the target's AC without recording the AC", () => {
+    const state = createEmptyRoomState();
+    const attack = (faces: number[]) =>
+      service.rollAttackFor(
+        state,
+        {
+          playerUid: "uid-1",
+          playerName: "Player",
+          attacker: { id: "a", name: "Aria" },
+          attack: { name: "Dagger", toHit: 5, damage: "1d4" },
+          target: { id: "g", name: "Goblin", ac: 17 },
+          mode: "normal",
+          visibility: "public",
+        },
+        () => faces.shift() ?? 1,
+      );
+
+    expect(attack([12, 2])?.outcome).toBe("hit");
+    expect(attack([11, 2])?.outcome).toBe("miss");
+    expect(attack([20, 2])?.outcome).toBe("crit");
+    expect(JSON.stringify(state.diceRolls)).not.toContain(`"ac"`);
+  });
+
+  it("leaves a targeted roll unresolved when the target has no AC or there is no d20", () => {
+    const state = createEmptyRoomState();
+    const roll = service.rollFor(
+      state,
+      {
+        playerUid: "uid-1",
+        playerName: "Player",
+        terms: [{ kind: "die", die: "d6", qty: 1, sign: 1 }],
+        mode: "normal",
+        visibility: "public",
+        target: { id: "g", name: "Goblin", ac: 12 },
+      },
+      () => 4,
+    );
+
+    expect(roll.target).toEqual({ id: "g", name: "Goblin" });
+    expect(roll).not.toHaveProperty("outcome");
+  });
 });
@@ -141,10 +141,10 @@ describe("Room Model - toSnapshot", () => {
     });
 
     it("keeps compiled lights DM-only without touching server state", () => {
-      // Nothing renders lights at the table yet, so a player gains nothing from
-      // their coordinates except a map of the rooms fog is hiding — and every
-      // generated dungeon lights its rooms. When lighting ships, lights must
-      // come back VISION-FILTERED, not restored wholesale.
+      // A light's coordinates are a map of the rooms fog is hiding — and every
+      // generated dungeon lights its rooms. Players only get the lights their
+      // vision reaches (see visionFilter.visibleLightIds); with no vision to
+      // filter by, that is none.
       const state = stateWithCompiledScene();
 
       expect(toSnapshot(state, true).compiledScene?.lights).toHaveLength(1);
@@ -376,6 +376,22 @@ describe("Room Model - toSnapshot", () => {
       expect(toSnapshot(state, true).currentTurnCharacterId).toBe(hiddenNPC.id);
     });
 
+    it("withholds the turn timer's deadline along with a withheld turn", () => {
+      // A clock ticking down for nobody is the same tell as an unresolvable
+      // id — and every client would hear its last seconds.
+      const state = createEmptyRoomState();
+      const hiddenNPC = characterService.createCharacter(state, "Stalker", 15, undefined, "npc");
+      characterService.setNPCVisibility(state, hiddenNPC.id, false);
+      state.combatActive = true;
+      state.currentTurnCharacterId = hiddenNPC.id;
+      state.turnTimer = { seconds: 30, onExpire: "advance" };
+      state.turnDeadline = Date.now() + 30_000;
+
+      expect(toSnapshot(state, false).turnDeadline).toBeUndefined();
+      expect(toSnapshot(state, false).turnTimer).toEqual(state.turnTimer);
+      expect(toSnapshot(state, true).turnDeadline).toBe(state.turnDeadline);
+    });
+
     it("never ships a turn id absent from the recipient's own characters", () => {
       // Stated as the general property rather than the one case, because this
       // is the rule the leak broke: toSnapshot stripped the record and the
@@ -3,6 +3,8 @@ import type { CompiledScene } from "@herobyte/shared";
 import { TokenService } from "../token/service.js";
 import { createEmptyRoomState } from "../room/model.js";
 
+// The wall runs the full height of the map and past both edges, so there is
+// no walking round it.
 function compiledSceneWithWall(): CompiledScene {
   return {
     schemaVersion: 1,
@@ -17,7 +19,7 @@ function compiledSceneWithWall(): CompiledScene {
         x1: 50,
         y1: -100,
         x2: 50,
-        y2: 100,
+        y2: 2200,
         blocksMovement: true,
         blocksVision: true,
       },
@@ -120,6 +122,34 @@ describe("TokenService", () => {
       expect(state.tokens[0]).toMatchObject({ x: 2, y: 0 });
     });
 
+    it("lets a player walk round the end of a wall the straight line crosses", () => {
+      const state = createEmptyRoomState();
+      const scene = compiledSceneWithWall();
+      scene.walls[0] = { ...scene.walls[0]!, y2: 100 };
+      state.compiledScene = scene;
+      const token = service.createToken(state, "owner-1", 0, 0);
+
+      expect(service.moveToken(state, token.id, "owner-1", 2, 0)).toBe(true);
+      expect(state.tokens[0]).toMatchObject({ x: 2, y: 0 });
+    });
+
+    it("keeps a Huge token out of a gap only a Medium one fits through", () => {
+      const state = createEmptyRoomState();
+      const scene = compiledSceneWithWall();
+      // A one-square gap at row 2 (y 100-150).
+      scene.walls = [
+        { ...scene.walls[0]!, id: "upper", y2: 100 },
+        { ...scene.walls[0]!, id: "lower", y1: 150 },
+      ];
+      state.compiledScene = scene;
+      const medium = service.createToken(state, "owner-1", 0, 2);
+      const huge = service.createToken(state, "owner-1", 0, 2);
+      huge.size = "huge";
+
+      expect(service.moveToken(state, medium.id, "owner-1", 2, 2)).toBe(true);
+      expect(service.moveToken(state, huge.id, "owner-1", 2, 2)).toBe(false);
+    });
+
     it("moves freely when no scene has been published", () => {
       const state = createEmptyRoomState();
       const token = service.createToken(state, "owner-1", 0, 0);
@@ -0,0 +1,78 @@
+// The bestiary domain: who assigns ids, how an import merges, what the dice
+// say, and who gets to read the stat blocks.
+
+import { describe, expect, it } from "vitest";
+import { BESTIARY_LIMITS, type MonsterTemplate } from "@herobyte/shared";
+import { createEmptyRoomState, toSnapshot } from "../../room/model.js";
+import {
+  deleteMonsterTemplate,
+  importBestiary,
+  rollTemplateHp,
+  upsertMonsterTemplate,
+} from "../bestiary.js";
+
+const WOLF: MonsterTemplate = {
+  id: "wolf",
+  name: "Wolf",
+  ac: 13,
+  hpFormula: "2d8+2",
+  initiativeModifier: 2,
+  attacks: [{ name: "Bite", toHit: 4, damage: "2d4+2", damageType: "piercing" }],
+};
+
+describe("bestiary", () => {
+  it("refuses an edit naming a template this room does not have", () => {
+    const state = createEmptyRoomState();
+
+    expect(upsertMonsterTemplate(state, WOLF)).toBeUndefined();
+    expect(upsertMonsterTemplate(state, { ...WOLF, hpFormula: "a pack" })).toBeUndefined();
+    expect(state.bestiary).toEqual([]);
+
+    const stored = upsertMonsterTemplate(state, { ...WOLF, id: undefined });
+    expect(stored?.id).not.toBe("wolf");
+    expect(state.bestiary).toEqual([stored]);
+  });
+
+  it("merges an import by id, keeps other rooms' ids, and skips what it cannot use", () => {
+    const state = createEmptyRoomState();
+    state.bestiary = [{ ...WOLF, ac: 10 }];
+
+    const stored = importBestiary(state, [
+      WOLF,
+      { ...WOLF, id: "dire-wolf", name: "Dire Wolf" },
+      { name: "Ghost" },
+    ]);
+
+    expect(stored).toBe(2);
+    expect(state.bestiary.map((template) => `${template.id}:${template.ac}`)).toEqual([
+      "wolf:13",
+      "dire-wolf:13",
+    ]);
+  });
+
+  it("stops adding at the cap", () => {
+    const state = createEmptyRoomState();
+    const pack = Array.from({ length: BESTIARY_LIMITS.TEMPLATES_MAX + 5 }, (_, index) => ({
+      ...WOLF,
+      id: `wolf-${index}`,
+    }));
+
+    expect(importBestiary(state, pack)).toBe(BESTIARY_LIMITS.TEMPLATES_MAX);
+    expect(upsertMonsterTemplate(state, { ...WOLF, id: undefined })).toBeUndefined();
+    expect(deleteMonsterTemplate(state, "wolf-0")).toBe(true);
+    expect(deleteMonsterTemplate(state, "wolf-0")).toBe(false);
+  });
+
+  it("rolls hit points from the formula, never below 1", () => {
+    expect(rollTemplateHp(WOLF, () => 5)).toBe(12);
+    expect(rollTemplateHp({ ...WOLF, hpFormula: "1d4-3" }, () => 1)).toBe(1);
+  });
+
+  it("sends the stat blocks to the DM only", () => {
+    const state = createEmptyRoomState();
+    state.bestiary = [WOLF];
+
+    expect(toSnapshot(state, true).bestiary).toEqual([WOLF]);
+    expect(toSnapshot(state, false, "p1")).not.toHaveProperty("bestiary");
+  });
+});
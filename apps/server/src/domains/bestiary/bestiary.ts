@@ -0,0 +1,106 @@
+/**
+ * The room's bestiary: the DM's monster templates, and the hit-point roll that
+ * turns one into an NPC.
+ *
+ * Every template that enters room state goes through coerceMonsterTemplate
+ * first, whoever sent it. Ids are the server's to assign: a template arriving
+ * without one is new, one arriving with an id this room does not know is
+ * refused rather than adopted, so a client cannot pick the ids other rooms'
+ * exports will collide with.
+ *
+ * @module domains/bestiary/bestiary
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  BESTIARY_LIMITS,
+  coerceMonsterTemplate,
+  parseDiceFormula,
+  type MonsterTemplate,
+} from "@herobyte/shared";
+import type { RoomState } from "../room/model.js";
+import { cryptoDiceRng, rollTerms, type DiceRng } from "../dice/roller.js";
+
+export function findMonsterTemplate(
+  state: RoomState,
+  templateId: string,
+): MonsterTemplate | undefined {
+  return state.bestiary.find((template) => template.id === templateId);
+}
+
+/**
+ * Add a template (no id) or replace one (a known id). Returns the stored
+ * template, or undefined when the input is unusable, names an unknown id, or
+ * the bestiary is full.
+ */
+export function upsertMonsterTemplate(
+  state: RoomState,
+  input: unknown,
+): MonsterTemplate | undefined {
+  const template = coerceMonsterTemplate(input);
+  if (!template) return undefined;
+
+  if (template.id) {
+    const index = state.bestiary.findIndex((existing) => existing.id === template.id);
+    if (index === -1) return undefined;
+    state.bestiary[index] = template;
+    return template;
+  }
+
+  if (state.bestiary.length >= BESTIARY_LIMITS.TEMPLATES_MAX) return undefined;
+  template.id = randomUUID();
+  state.bestiary.push(template);
+  return template;
+}
+
+/**
+ * Remove a template. NPCs already created from it keep their `templateId`;
+ * it simply stops resolving, which every reader of that field has to allow
+ * for anyway.
+ */
+export function deleteMonsterTemplate(state: RoomState, templateId: string): boolean {
+  const index = state.bestiary.findIndex((template) => template.id === templateId);
+  if (index === -1) return false;
+  state.bestiary.splice(index, 1);
+  return true;
+}
+
+/**
+ * Merge an imported bestiary file into the room's. Unlike a DM's edit, an
+ * import may carry ids this room has never seen — they are another room's —
+ * so a known id replaces that template and an unknown one is kept as a new
+ * template. Unusable entries are skipped, and the import stops at the cap.
+ * Returns how many templates were stored.
+ */
+export function importBestiary(state: RoomState, inputs: readonly unknown[]): number {
+  let stored = 0;
+  for (const input of inputs) {
+    const template = coerceMonsterTemplate(input);
+    if (!template) continue;
+    const index = template.id
+      ? state.bestiary.findIndex((existing) => existing.id === template.id)
+      : -1;
+    if (index !== -1) {
+      state.bestiary[index] = template;
+    } else {
+      if (state.bestiary.length >= BESTIARY_LIMITS.TEMPLATES_MAX) break;
+      template.id ||= randomUUID();
+      state.bestiary.push(template);
+    }
+    stored += 1;
+  }
+  return stored;
+}
+
+/**
+ * Roll a template's hit points with the server's dice. At least 1: a formula
+ * like "1d4-3" is a legal stat block and a creature at 0 HP is already down.
+ *
+ * `rng` exists for tests only, as on DiceService.rollFor.
+ */
+export function rollTemplateHp(template: MonsterTemplate, rng: DiceRng = cryptoDiceRng): number {
+  const parsed = parseDiceFormula(template.hpFormula);
+  // Unreachable for a coerced template; a fixed 1 beats throwing mid-batch.
+  if (!parsed.ok) return 1;
+  return Math.max(1, rollTerms(parsed.terms, "normal", rng).total);
+}
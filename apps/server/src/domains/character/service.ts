@@ -4,8 +4,26 @@
 // Handles character-related business logic (Phase 1: PCs only)
 
 import { randomUUID } from "crypto";
-import type { Character } from "@herobyte/shared";
+import {
+  applyDamage,
+  applyDeathSave,
+  applyManualOrder,
+  coerceArmorClass,
+  coerceCharacterMacros,
+  coerceConditions,
+  coerceDeathSaves,
+  coerceNamedAttacks,
+  coerceSavingThrows,
+  compareInitiative,
+  conditionName,
+  conditionTicksAt,
+  isStable,
+  statusAtHp,
+  tracksDeathSaves,
+} from "@herobyte/shared";
+import type { Character, CharacterStatus, Condition, DeathSaveResult } from "@herobyte/shared";
 import type { RoomState } from "../room/model.js";
+import { combatSubject, recordCombatEvent, recordHpChange } from "../room/combat/combatLog.js";
 import type { TokenService } from "../token/service.js";
 
 /**
@@ -103,18 +121,186 @@ export class CharacterService {
   }
 
   /**
-   * Update character HP
+   * Update character HP. This and the other HP writers below record the
+   * change in the combat log, which ignores them outside combat, and knock a
+   * PC out at 0 HP or get them up again (shared combatantStatus.ts).
    */
   updateHP(state: RoomState, characterId: string, hp: number, maxHp: number): boolean {
     const character = this.findCharacter(state, characterId);
     if (character) {
+      const before = character.hp;
       character.hp = hp;
       character.maxHp = maxHp;
+      this.settleStatus(character);
+      recordHpChange(state, character, before);
       return true;
     }
     return false;
   }
 
+  /**
+   * Take damage off a character, temporary hit points first (hpUtils
+   * applyDamage — the same rule the domain models use).
+   */
+  takeDamage(state: RoomState, characterId: string, amount: number): boolean {
+    const character = this.findCharacter(state, characterId);
+    if (!character) return false;
+    const before = character.hp;
+    const { hp, tempHp } = applyDamage(character.hp, character.tempHp, amount);
+    character.hp = hp;
+    character.tempHp = tempHp;
+    this.settleStatus(character);
+    recordHpChange(state, character, before);
+    return true;
+  }
+
+  /**
+   * Mark a character unconscious, dead or fled, or back in the fight.
+   * "active" is stored as no status at all, the way a fresh character has it.
+   */
+  setStatus(state: RoomState, characterId: string, status: CharacterStatus): boolean {
+    const character = this.findCharacter(state, characterId);
+    if (!character) return false;
+    character.status = status === "active" ? undefined : status;
+    this.dropStaleDeathSaves(character);
+    return true;
+  }
+
+  /**
+   * Count one death save's natural d20 into a downed PC's tally and act on
+   * it: a natural 20 puts them back on 1 HP, a third failure marks them dead.
+   * Undefined, and nothing changed, when the PC has no save to make — not
+   * down, or already stable.
+   */
+  recordDeathSave(
+    state: RoomState,
+    characterId: string,
+    natural: number,
+  ): DeathSaveResult | undefined {
+    const character = this.findCharacter(state, characterId);
+    if (!character || !tracksDeathSaves(character) || isStable(character.deathSaves)) {
+      return undefined;
+    }
+    const { saves, result } = applyDeathSave(character.deathSaves, natural);
+    character.deathSaves = saves;
+    if (result === "revived") {
+      const before = character.hp;
+      character.hp = 1;
+      this.settleStatus(character);
+      recordHpChange(state, character, before);
+    } else if (result === "dead") {
+      character.status = "dead";
+      this.dropStaleDeathSaves(character);
+    }
+    return result;
+  }
+
+  /**
+   * Set a downed PC's tally by hand, for a table rolling its own dice. Only
+   * the counts change: three failures entered here do not kill anyone, the
+   * DM does that with the status.
+   */
+  setDeathSaves(state: RoomState, characterId: string, deathSaves: unknown): boolean {
+    const character = this.findCharacter(state, characterId);
+    const coerced = coerceDeathSaves(deathSaves);
+    if (!character || !coerced || !tracksDeathSaves(character)) return false;
+    character.deathSaves = coerced;
+    return true;
+  }
+
+  /**
+   * Replace a character's named attacks. Coerced here as well as validated on
+   * the wire, since this is the copy that gets rolled.
+   */
+  setAttacks(state: RoomState, characterId: string, attacks: unknown): boolean {
+    const character = this.findCharacter(state, characterId);
+    if (!character) return false;
+    const coerced = coerceNamedAttacks(attacks);
+    character.attacks = coerced.length > 0 ? coerced : undefined;
+    return true;
+  }
+
+  /**
+   * Replace a character's dice macros; an empty list clears them. Coerced for
+   * the same reason as setAttacks: each one is rolled as stored.
+   */
+  setMacros(state: RoomState, characterId: string, macros: unknown): boolean {
+    const character = this.findCharacter(state, characterId);
+    if (!character) return false;
+    character.macros = coerceCharacterMacros(macros);
+    return true;
+  }
+
+  /**
+   * Replace a character's armor class and saving throws; whichever is absent
+   * is cleared. Coerced for the same reason as setAttacks.
+   */
+  setDefenses(
+    state: RoomState,
+    characterId: string,
+    defenses: { ac?: unknown; savingThrows?: unknown },
+  ): boolean {
+    const character = this.findCharacter(state, characterId);
+    if (!character) return false;
+    character.ac = coerceArmorClass(defenses.ac);
+    character.savingThrows = coerceSavingThrows(defenses.savingThrows);
+    return true;
+  }
+
+  /**
+   * Replace a character's conditions; an empty list clears them. Coerced for
+   * the same reason as setAttacks. Each condition the character did not
+   * already have (by name) goes in the combat log.
+   */
+  setConditions(state: RoomState, characterId: string, conditions: unknown): boolean {
+    const character = this.findCharacter(state, characterId);
+    if (!character) return false;
+    const had = new Set((character.conditions ?? []).map(conditionName));
+    const coerced = coerceConditions(conditions);
+    character.conditions = coerced.length > 0 ? coerced : undefined;
+    for (const condition of coerced) {
+      const name = conditionName(condition);
+      if (had.has(name)) continue;
+      had.add(name);
+      recordCombatEvent(state, {
+        kind: "condition-added",
+        ...combatSubject(character),
+        condition: name,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Run every condition clock for one turn change: the turns of `endedIds`
+   * ended and those of `startedIds` began (several at once when a group
+   * shares the turn). Each clock anchored to any of those boundaries loses a
+   * round; those that reach zero are removed and returned, in table order,
+   * for the caller to announce.
+   */
+  tickConditions(
+    state: RoomState,
+    endedIds: readonly string[],
+    startedIds: readonly string[],
+  ): { character: Character; condition: Condition }[] {
+    const expired: { character: Character; condition: Condition }[] = [];
+    for (const character of state.characters) {
+      if (!character.conditions) continue;
+      const kept: Condition[] = [];
+      for (const condition of character.conditions) {
+        const ticks =
+          endedIds.some((id) => conditionTicksAt(condition, character.id, id, "end")) ||
+          startedIds.some((id) => conditionTicksAt(condition, character.id, id, "start"));
+        const rounds = ticks && condition.rounds !== undefined ? condition.rounds - 1 : undefined;
+        if (rounds === undefined) kept.push(condition);
+        else if (rounds > 0) kept.push({ ...condition, rounds });
+        else expired.push({ character, condition });
+      }
+      character.conditions = kept.length > 0 ? kept : undefined;
+    }
+    return expired;
+  }
+
   /**
    * Update character name
    */
@@ -175,9 +361,11 @@ export class CharacterService {
       return false;
     }
 
+    const before = character.hp;
     character.name = updates.name;
     character.maxHp = Math.max(0, updates.maxHp);
     character.hp = Math.min(character.maxHp, Math.max(0, updates.hp));
+    recordHpChange(state, character, before);
     character.portrait = updates.portrait || undefined;
     character.type = "npc";
     character.tokenImage = updates.tokenImage?.trim() || null;
@@ -242,6 +430,12 @@ export class CharacterService {
       0,
       character.tokenImage ?? undefined,
     );
+    // A template's movement and senses belong on the token, where the budget
+    // and the vision filter read them. Looked up now rather than copied at
+    // creation, so a template fixed after the fact reaches the next placement.
+    const template = state.bestiary.find((entry) => entry.id === character.templateId);
+    if (template?.speed !== undefined) token.speed = template.speed;
+    if (template?.senses) token.senses = { ...template.senses };
     character.tokenId = token.id;
     return character;
   }
@@ -260,7 +454,8 @@ export class CharacterService {
   }
 
   /**
-   * Set initiative for a character
+   * Set initiative for a character. A fresh roll takes the character out of
+   * the DM's arrangement, so the sort places them by the new value.
    */
   setInitiative(
     state: RoomState,
@@ -290,6 +485,7 @@ export class CharacterService {
       ...state.characters.slice(characterIndex + 1),
     ];
 
+    this.dropFromArrangement(state, characterId);
     console.log(
       `Set initiative for ${updatedCharacter.name}: ${initiative} (modifier: ${updatedCharacter.initiativeModifier ?? 0})`,
     );
@@ -303,6 +499,9 @@ export class CharacterService {
     const character = this.findCharacter(state, characterId);
     if (character) {
       character.initiative = undefined;
+      character.initiativeHeld = undefined;
+      character.readiedAction = undefined;
+      this.dropFromArrangement(state, characterId);
       console.log(`Cleared initiative for ${character.name}`);
       return true;
     }
@@ -310,18 +509,25 @@ export class CharacterService {
   }
 
   /**
-   * Clear initiative for all characters
+   * Clear initiative for all characters, with the DM's arrangement and every
+   * hold and readied action — none of them mean anything without a roll.
    */
   clearAllInitiative(state: RoomState): void {
     state.characters.forEach((character) => {
       character.initiative = undefined;
+      character.initiativeHeld = undefined;
+      character.readiedAction = undefined;
     });
+    state.initiativeOrder = undefined;
     console.log("Cleared initiative for all characters");
   }
 
   /**
-   * Get characters in initiative order (highest to lowest).
-   * Tiebreaker: initiative > PC before NPC > creation order.
+   * Get characters in initiative order (highest to lowest), with the DM's
+   * arrangement laid over it. Tiebreaker: initiative > modifier > PC before
+   * NPC > creation order (shared initiativeOrder.ts — the client draws the
+   * tracker with the same rule). Holding characters are included; the turn
+   * walk skips them.
    *
    * **Business Rule**: Excludes DM's player characters from combat.
    */
@@ -329,16 +535,30 @@ export class CharacterService {
     const indexMap = new Map<string, number>();
     state.characters.forEach((c, index) => indexMap.set(c.id, index));
 
-    return state.characters
+    const sorted = state.characters
       .filter((c) => c.initiative !== undefined)
       .filter((c) => shouldCharacterParticipateInCombat(c, state.players))
-      .sort((a, b) => {
-        const initDiff = (b.initiative ?? 0) - (a.initiative ?? 0);
-        if (initDiff !== 0) return initDiff;
-        if (a.type === "pc" && b.type === "npc") return -1;
-        if (a.type === "npc" && b.type === "pc") return 1;
-        return (indexMap.get(a.id) ?? 0) - (indexMap.get(b.id) ?? 0);
-      });
+      .sort((a, b) => compareInitiative(a, b, indexMap));
+    return applyManualOrder(sorted, (c) => c.id, state.initiativeOrder);
+  }
+
+  /** Bring a character's status in line with its HP; most writes leave it be. */
+  private settleStatus(character: Character): void {
+    const status = statusAtHp(character);
+    if (status !== character.status) character.status = status;
+    this.dropStaleDeathSaves(character);
+  }
+
+  /** A tally outlives nothing: once the PC is up, dead or gone, it starts again from zero. */
+  private dropStaleDeathSaves(character: Character): void {
+    if (character.deathSaves && !tracksDeathSaves(character)) character.deathSaves = undefined;
+  }
+
+  /** Remove a character from the DM's arrangement, dropping it when empty. */
+  private dropFromArrangement(state: RoomState, characterId: string): void {
+    if (!state.initiativeOrder) return;
+    const order = state.initiativeOrder.filter((id) => id !== characterId);
+    state.initiativeOrder = order.length > 0 ? order : undefined;
   }
 
   /**
@@ -48,7 +48,35 @@ export class ChatService {
     if (to && to.trim().length > 0) {
       message.to = to.trim();
     }
+    return this.append(state, message);
+  }
+
+  /**
+   * Append a line the table itself says — "Poisoned ends on Goblin 1." It has
+   * no author (`authorUid` is empty, which no connection can hold), so it can
+   * only be written from here, never forged from the wire.
+   *
+   * @param to - Whisper target uid (a DM, for news about a hidden NPC).
+   */
+  addSystemMessage(
+    state: RoomState,
+    text: string,
+    to?: string,
+    timestamp: number = Date.now(),
+  ): ChatMessage {
+    const message: ChatMessage = {
+      id: randomUUID(),
+      authorUid: "",
+      authorName: "",
+      text,
+      timestamp,
+      system: true,
+    };
+    if (to) message.to = to;
+    return this.append(state, message);
+  }
 
+  private append(state: RoomState, message: ChatMessage): ChatMessage {
     state.chatLog.push(message);
     if (state.chatLog.length > this.MAX_MESSAGES) {
       state.chatLog = state.chatLog.slice(-this.MAX_MESSAGES);
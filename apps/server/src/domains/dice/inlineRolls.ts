@@ -0,0 +1,26 @@
+// ============================================================================
+// DICE DOMAIN — INLINE ROLLS
+// ============================================================================
+// The server half of [[...]] in chat (shared inlineRolls.ts): find the
+// brackets in a message's text and roll each with the roller, the same RNG a
+// `{ t: "dice-roll" }` gets. A bracket whose notation does not parse is not
+// an error — "[[sic]]" is something people type — so it simply gets no roll
+// and the chat tab shows it as written.
+
+import { findInlineRolls, parseDiceFormula, type InlineRoll } from "@herobyte/shared";
+import { cryptoDiceRng, rollTerms, type DiceRng } from "./roller.js";
+
+/**
+ * Roll every [[...]] in `text`, up to INLINE_ROLLS_MAX. Each is rolled
+ * "normal": a chat line has no advantage toggle to honour.
+ */
+export function rollInline(text: string, rng: DiceRng = cryptoDiceRng): InlineRoll[] {
+  const rolls: InlineRoll[] = [];
+  for (const source of findInlineRolls(text)) {
+    const parsed = parseDiceFormula(source.notation);
+    if (!parsed.ok) continue;
+    const { formula, total, breakdown } = rollTerms(parsed.terms, "normal", rng);
+    rolls.push({ index: source.index, formula, total, breakdown });
+  }
+  return rolls;
+}
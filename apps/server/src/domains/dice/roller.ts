@@ -1,10 +1,11 @@
 // ============================================================================
 // DICE DOMAIN — THE ROLLER
 // ============================================================================
-// The randomness lives here, on the server, with exactly one caller
-// (DiceService.rollFor). That is the whole of S5: before it the client rolled
-// and the server stored the answer, so a devtools console could post a 999
-// under someone else's name (arc defect D2).
+// The randomness lives here, on the server. Its callers are server code only:
+// DiceService.rollFor for the table's rolls, the bestiary for a created
+// NPC's hit points, and rollInline for the [[...]] in a chat line. That is the whole of S5: before it the client rolled and
+// the server stored the answer, so a devtools console could post a 999 under
+// someone else's name (arc defect D2).
 //
 // It deliberately does NOT live in @herobyte/shared. A roller both halves can
 // import is an invitation to roll on the client "just for the preview", and
@@ -12,8 +13,8 @@
 // notation (parseDiceFormula); the server owns the dice.
 
 import { randomInt } from "node:crypto";
-import { DIE_FACES, formatDiceTerms } from "@herobyte/shared";
-import type { DiceRoll, DiceRollMode, DiceTerm } from "@herobyte/shared";
+import { DICE_LIMITS, DIE_FACES, FUDGE_DIE, formatDiceTerms } from "@herobyte/shared";
+import type { DiceRoll, DiceRollMode, DiceTerm, RolledDie } from "@herobyte/shared";
 
 /**
  * A source of die faces: given a face count, return a value in [1, faces].
@@ -43,10 +44,94 @@ function sum(values: number[]): number {
   return values.reduce((a, b) => a + b, 0);
 }
 
-function rollSet(qty: number, faces: number, rng: DiceRng): number[] {
-  const rolls: number[] = [];
-  for (let i = 0; i < qty; i++) rolls.push(rng(faces));
-  return rolls;
+type DieTerm = Extract<DiceTerm, { kind: "die" }>;
+
+/** One throw of a term: the faces that count, and every die when it has suffixes. */
+interface ThrownTerm {
+  rolls: number[];
+  dice?: RolledDie[];
+}
+
+/**
+ * Dice a roll may still add beyond its formula's own. Shared by every term
+ * and both throws of an advantage roll, so "100d6!" against a rigged rng
+ * stops after EXTRA_DICE_MAX more rather than never.
+ */
+interface ExtraDiceBudget {
+  left: number;
+}
+
+/**
+ * One die of a term, with its rerolls and explosions in the order they were
+ * thrown. A reroll replaces the face before it; an explosion adds to it, and
+ * the added die is rerolled and may explode in turn, as any other would.
+ */
+function throwDie(term: DieTerm, rng: DiceRng, budget: ExtraDiceBudget): RolledDie[] {
+  const faces = DIE_FACES[term.die];
+  const thrown: RolledDie[] = [];
+  const flag = (die: RolledDie, exploded: boolean): RolledDie =>
+    exploded ? { ...die, exploded: true } : die;
+
+  let exploded = false;
+  let value = rng(faces);
+  for (;;) {
+    let rerolls = 0;
+    while (
+      term.reroll &&
+      value <= term.reroll.atOrBelow &&
+      !(term.reroll.once && rerolls > 0) &&
+      budget.left > 0
+    ) {
+      thrown.push(flag({ value, rerolled: true }, exploded));
+      budget.left--;
+      rerolls++;
+      value = rng(faces);
+    }
+    thrown.push(flag({ value }, exploded));
+
+    if (!term.explode || value !== faces || budget.left <= 0) return thrown;
+    budget.left--;
+    exploded = true;
+    value = rng(faces);
+  }
+}
+
+/**
+ * Mark the dice keep/drop leaves out. Ties go to the die thrown first, so a
+ * seed always settles the same way; rerolled faces were never in the pool.
+ */
+function applySelection(term: DieTerm, dice: RolledDie[]): void {
+  if (!term.select) return;
+  const pool = dice.filter((die) => !die.rerolled);
+  const { rule, count } = term.select;
+  const highestFirst = rule === "kh" || rule === "dl";
+  const ranked = [...pool].sort((a, b) => (highestFirst ? b.value - a.value : a.value - b.value));
+  const keep = rule.startsWith("k") ? count : pool.length - count;
+  for (const die of ranked.slice(keep)) die.discarded = true;
+}
+
+function throwTerm(
+  term: Exclude<DiceTerm, { kind: "mod" }>,
+  rng: DiceRng,
+  budget: ExtraDiceBudget,
+): ThrownTerm {
+  if (term.kind === "fudge") {
+    const rolls: number[] = [];
+    for (let i = 0; i < term.qty; i++) rolls.push(rng(3) - 2);
+    return { rolls };
+  }
+
+  if (!term.select && !term.explode && !term.reroll) {
+    const rolls: number[] = [];
+    for (let i = 0; i < term.qty; i++) rolls.push(rng(DIE_FACES[term.die]));
+    return { rolls };
+  }
+
+  const dice: RolledDie[] = [];
+  for (let i = 0; i < term.qty; i++) dice.push(...throwDie(term, rng, budget));
+  applySelection(term, dice);
+  const rolls = dice.filter((die) => !die.rerolled && !die.discarded).map((die) => die.value);
+  return { rolls, dice };
 }
 
 /**
@@ -65,13 +150,21 @@ function rollSet(qty: number, faces: number, rng: DiceRng): number[] {
  * `rolls` always holds raw faces; the term's sign rides on `subtotal`. Crit
  * detection on the client reads faces, so "1d20 - 1d4" still lights up a
  * natural 20.
+ *
+ * Keep/drop, explode and reroll (shared dice.ts) settle inside each throw:
+ * `rolls` is the faces that count, in the order thrown, and `dice` is every
+ * die with what happened to it. Under advantage the whole term is thrown
+ * twice, suffixes and all, and the better throw wins as above — so
+ * "2d20kh1" with advantage is four d20s, which is what the table would do.
+ * Fudge dice (dF) land on -1, 0 or +1.
  */
 export function rollTerms(
   terms: DiceTerm[],
   requestedMode: DiceRollMode = "normal",
   rng: DiceRng = cryptoDiceRng,
 ): RolledFormula {
-  const advantageIndex = terms.findIndex((term) => term.kind === "die");
+  const advantageIndex = terms.findIndex((term) => term.kind !== "mod");
+  const budget: ExtraDiceBudget = { left: DICE_LIMITS.EXTRA_DICE_MAX };
   const mode: DiceRollMode = advantageIndex === -1 ? "normal" : requestedMode;
 
   const breakdown: DiceRoll["breakdown"] = [];
@@ -89,34 +182,37 @@ export function rollTerms(
       return;
     }
 
-    const faces = DIE_FACES[term.die];
-    const first = rollSet(term.qty, faces, rng);
+    const first = throwTerm(term, rng, budget);
     let kept = first;
     let dropped: number[] | undefined;
 
     if (mode !== "normal" && index === advantageIndex) {
-      const second = rollSet(term.qty, faces, rng);
+      const second = throwTerm(term, rng, budget);
       // Compare what each throw CONTRIBUTES, not its raw faces. On a
       // subtracted term ("-1d20 + 50") the higher faces make the total lower,
       // so comparing raw sums would quietly turn advantage into
       // disadvantage — the mode would be recorded and badged as the opposite
       // of what it did. Advantage always maximises the total.
-      const contribution = (rolls: number[]) => term.sign * sum(rolls);
+      const contribution = (thrown: ThrownTerm) => term.sign * sum(thrown.rolls);
       const takeSecond =
         mode === "advantage"
           ? contribution(second) > contribution(first)
           : contribution(second) < contribution(first);
       kept = takeSecond ? second : first;
-      dropped = takeSecond ? first : second;
+      dropped = (takeSecond ? first : second).rolls;
     }
 
-    const subtotal = term.sign * sum(kept);
+    const subtotal = term.sign * sum(kept.rolls);
     total += subtotal;
-    breakdown.push(
-      dropped
-        ? { tokenId, die: term.die, rolls: kept, dropped, subtotal }
-        : { tokenId, die: term.die, rolls: kept, subtotal },
-    );
+    const die = term.kind === "fudge" ? FUDGE_DIE : term.die;
+    breakdown.push({
+      tokenId,
+      die,
+      rolls: kept.rolls,
+      ...(dropped ? { dropped } : {}),
+      ...(kept.dice ? { dice: kept.dice } : {}),
+      subtotal,
+    });
   });
 
   return { formula: formatDiceTerms(terms), total, mode, breakdown };
@@ -11,12 +11,28 @@
 // mistake being made again by accident. Compare ChatService.addMessage, which
 // is built the same way and for the same reason.
 //
+// rollAttackFor is rollFor for an attack: the same author rule, two rolls
+// settled at once, and the numbers read off the attacker's stored attack
+// rather than anything the message carried.
+//
+// Either may be made against a target. The outcome (hit, miss, crit) is
+// settled here against the target's AC and only the outcome is kept — the
+// roll log is read by players an NPC's AC may be withheld from.
+//
 // addRoll survives as the append-and-trim primitive. It is not a wire entry
 // point: nothing outside this file and its tests calls it with a roll a client
 // supplied.
 
 import { randomUUID } from "node:crypto";
-import type { DiceRoll, DiceRollMode, DiceTerm, DiceVisibility } from "@herobyte/shared";
+import { naturalD20, parseDiceFormula, resolveRollOutcome } from "@herobyte/shared";
+import type {
+  Character,
+  DiceRoll,
+  DiceRollMode,
+  DiceTerm,
+  DiceVisibility,
+  NamedAttack,
+} from "@herobyte/shared";
 import type { RoomState } from "../room/model.js";
 import { cryptoDiceRng, rollTerms, type DiceRng } from "./roller.js";
 
@@ -30,6 +46,33 @@ export interface DiceRollRequest {
   terms: DiceTerm[];
   mode: DiceRollMode;
   visibility: DiceVisibility;
+  /** A character to resolve the roll against; its AC is read, never recorded. */
+  target?: Pick<Character, "id" | "name" | "ac">;
+}
+
+/** An attack to settle: who swings what at whom. Author rules as DiceRollRequest. */
+export interface AttackRollRequest {
+  playerUid: string;
+  playerName: string;
+  attacker: Pick<Character, "id" | "name">;
+  /** Already coerced; its damage formula parses. */
+  attack: NamedAttack;
+  target: Pick<Character, "id" | "name" | "ac">;
+  mode: DiceRollMode;
+  visibility: DiceVisibility;
+}
+
+/** "d20 + 4": the attack roll for a to-hit bonus. */
+function toHitTerms(toHit: number): DiceTerm[] {
+  const d20: DiceTerm = { kind: "die", die: "d20", qty: 1, sign: 1 };
+  return toHit === 0 ? [d20] : [d20, { kind: "mod", value: toHit }];
+}
+
+/** Hit, miss or crit against the target's AC; nothing when either side cannot say. */
+function outcomeAgainst(roll: DiceRoll, target: Pick<Character, "ac">): void {
+  const natural = naturalD20(roll.breakdown);
+  if (target.ac === undefined || natural === undefined) return;
+  roll.outcome = resolveRollOutcome(roll.total, natural, target.ac);
 }
 
 /**
@@ -66,6 +109,61 @@ export class DiceService {
     // reads as normal/public, which is what every pre-S5 roll already means.
     if (rolled.mode !== "normal") roll.mode = rolled.mode;
     if (request.visibility !== "public") roll.visibility = request.visibility;
+    if (request.target) {
+      roll.target = { id: request.target.id, name: request.target.name };
+      outcomeAgainst(roll, request.target);
+    }
+
+    this.addRoll(state, roll);
+    return roll;
+  }
+
+  /**
+   * Roll an attack — to-hit and damage together — and append it to history
+   * as one roll whose `attack` names the target. Returns undefined only if the
+   * damage formula does not parse, which coercion already ruled out.
+   *
+   * Advantage applies to the d20, never the damage. The damage is recorded,
+   * not applied: taking it off the target is the caller's decision.
+   */
+  rollAttackFor(
+    state: RoomState,
+    request: AttackRollRequest,
+    rng: DiceRng = cryptoDiceRng,
+    now: number = Date.now(),
+  ): DiceRoll | undefined {
+    const damageTerms = parseDiceFormula(request.attack.damage);
+    if (!damageTerms.ok) return undefined;
+
+    const toHit = rollTerms(toHitTerms(request.attack.toHit), request.mode, rng);
+    const damage = rollTerms(damageTerms.terms, "normal", rng);
+
+    const roll: DiceRoll = {
+      id: randomUUID(),
+      playerUid: request.playerUid,
+      playerName: request.playerName,
+      formula: toHit.formula,
+      total: toHit.total,
+      breakdown: toHit.breakdown,
+      attack: {
+        attackerId: request.attacker.id,
+        attackerName: request.attacker.name,
+        attackName: request.attack.name,
+        targetId: request.target.id,
+        targetName: request.target.name,
+        damage: {
+          formula: damage.formula,
+          // Damage never heals: "1d4-3" on a low roll is a graze, not a cure.
+          total: Math.max(0, damage.total),
+          breakdown: damage.breakdown,
+          ...(request.attack.damageType ? { damageType: request.attack.damageType } : {}),
+        },
+      },
+      timestamp: now,
+    };
+    if (toHit.mode !== "normal") roll.mode = toHit.mode;
+    if (request.visibility !== "public") roll.visibility = request.visibility;
+    outcomeAgainst(roll, request.target);
 
     this.addRoll(state, roll);
     return roll;
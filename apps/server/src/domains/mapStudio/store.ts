@@ -55,9 +55,14 @@ export function cloneMapDocument(document: MapDocument): MapDocument {
 
 function cloneMapElement(element: MapDocument["elements"][number]): typeof element {
   const data =
-    element.type === "shape" || element.type === "wall" || element.type === "spline"
+    element.type === "shape" ||
+    element.type === "wall" ||
+    element.type === "spline" ||
+    element.type === "area"
       ? { ...element.data, points: element.data.points.map((point) => ({ ...point })) }
-      : { ...element.data };
+      : element.type === "link"
+        ? { ...element.data, target: { ...element.data.target } }
+        : { ...element.data };
   return {
     ...element,
     transform: { ...element.transform },
@@ -351,3 +351,41 @@ describe("compiledSceneFor — fusion safety", () => {
     expect(original.walls).toHaveLength(2);
   });
 });
+
+describe("compiledSceneFor — lights", () => {
+  const torch = (id: string) => ({
+    id,
+    x: 0,
+    y: 0,
+    radius: 100,
+    color: "#fa0",
+    intensity: 1,
+    castsShadows: true,
+  });
+  const scene: CompiledScene = {
+    schemaVersion: 1,
+    sourceDocumentId: "doc",
+    sourceRevision: 1,
+    width: 1000,
+    height: 1000,
+    compiledAt: 0,
+    walls: [],
+    doors: [],
+    lights: [torch("seen"), torch("unseen")],
+  };
+
+  it("hands a player only the lights their vision reaches", () => {
+    expect(compiledSceneFor(scene, false, new Set(["seen"])).lights.map((l) => l.id)).toEqual([
+      "seen",
+    ]);
+  });
+
+  it("hands a player no lights at all when there is no vision to filter by", () => {
+    expect(compiledSceneFor(scene, false).lights).toEqual([]);
+    expect(compiledSceneFor(scene, false, null).lights).toEqual([]);
+  });
+
+  it("gives the DM every light", () => {
+    expect(compiledSceneFor(scene, true, new Set()).lights).toHaveLength(2);
+  });
+});
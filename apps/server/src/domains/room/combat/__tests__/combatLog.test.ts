@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Character, SnapshotCharacter } from "@herobyte/shared";
+import { createEmptyRoomState, type RoomState } from "../../model.js";
+import { CharacterService } from "../../../character/service.js";
+import { combatLogFor, recordCombatEvent, recordHpChange } from "../combatLog.js";
+
+function character(overrides: Partial<Character>): Character {
+  return { id: "c", name: "C", type: "pc", hp: 10, maxHp: 10, ...overrides } as Character;
+}
+
+describe("combat log", () => {
+  let state: RoomState;
+
+  beforeEach(() => {
+    state = createEmptyRoomState();
+    state.characters = [
+      character({ id: "aria", name: "Aria", ownedByPlayerUID: "p1" }),
+      character({ id: "gob", name: "Goblin", type: "npc", hp: 7, maxHp: 7 }),
+    ];
+    state.combatActive = true;
+    state.combatRound = 2;
+  });
+
+  it("records nothing outside combat", () => {
+    state.combatActive = false;
+
+    recordCombatEvent(state, { kind: "combat-started" });
+    new CharacterService().takeDamage(state, "gob", 3);
+
+    expect(state.combatLog).toEqual([]);
+  });
+
+  it("logs hit point changes and a drop to zero as a defeat", () => {
+    const service = new CharacterService();
+
+    service.takeDamage(state, "gob", 3);
+    service.updateHP(state, "gob", 0, 7);
+
+    expect(
+      state.combatLog.map(({ kind, from, to, change, round }) => [kind, from, to, change, round]),
+    ).toEqual([
+      ["hp-changed", 7, 4, "damage", 2],
+      ["hp-changed", 4, 0, "damage", 2],
+      ["defeated", undefined, undefined, undefined, 2],
+    ]);
+  });
+
+  it("logs each newly added condition once", () => {
+    const service = new CharacterService();
+
+    service.setConditions(state, "aria", [{ key: "poisoned" }]);
+    service.setConditions(state, "aria", [{ key: "poisoned" }, { key: "prone" }]);
+
+    expect(state.combatLog.map((event) => [event.kind, event.name, event.condition])).toEqual([
+      ["condition-added", "Aria", "Poisoned"],
+      ["condition-added", "Aria", "Prone"],
+    ]);
+  });
+
+  it("gives players the visible events, with NPC numbers redacted", () => {
+    state.monsterHpDisplay = "bloodied";
+    const goblin = state.characters[1];
+    goblin.hp = 2;
+    recordCombatEvent(state, { kind: "combat-started" });
+    recordHpChange(state, goblin, 7);
+    recordCombatEvent(state, {
+      kind: "turn-started",
+      characterId: "gone-npc",
+      name: "X",
+      npc: true,
+    });
+    recordCombatEvent(state, { kind: "turn-started", characterId: "gone-pc", name: "Bram" });
+    const visible = state.characters as SnapshotCharacter[];
+
+    expect(combatLogFor(state, true, visible)).toBe(state.combatLog);
+    expect(
+      combatLogFor(state, false, visible).map((event) => [event.kind, event.name, event.to]),
+    ).toEqual([
+      ["combat-started", undefined, undefined],
+      ["hp-changed", "Goblin", undefined],
+      ["turn-started", "Bram", undefined],
+    ]);
+    expect(combatLogFor(state, false, [visible[0]]).map((event) => event.kind)).toEqual([
+      "combat-started",
+      "turn-started",
+    ]);
+
+    state.monsterHpDisplay = "exact";
+    expect(combatLogFor(state, false, visible)[1]).toMatchObject({ from: 7, to: 2 });
+  });
+});
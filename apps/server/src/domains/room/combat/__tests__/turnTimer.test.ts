@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Character } from "@herobyte/shared";
+import { createEmptyRoomState, type RoomState } from "../../model.js";
+import { CharacterService } from "../../../character/service.js";
+import { ChatService } from "../../../chat/service.js";
+import { advanceTurn, resetTurnClock } from "../turnHandOff.js";
+import { expireTurnClock } from "../turnTimer.js";
+
+function combatant(id: string, initiative: number, overrides: Partial<Character> = {}): Character {
+  return { id, name: id, type: "pc", hp: 10, maxHp: 10, initiative, ...overrides } as Character;
+}
+
+const NOW = 1_000_000;
+
+describe("turn timer", () => {
+  let state: RoomState;
+  const characterService = new CharacterService();
+  const chatService = new ChatService();
+
+  const expire = (at: number) => expireTurnClock(state, characterService, chatService, at);
+
+  beforeEach(() => {
+    state = createEmptyRoomState();
+    state.characters = [combatant("aria", 18), combatant("gob", 12, { type: "npc" })];
+    state.players = [{ uid: "dm", name: "DM", isDM: true } as RoomState["players"][number]];
+    state.combatActive = true;
+    state.combatRound = 1;
+    state.currentTurnCharacterId = "aria";
+    state.turnTimer = { seconds: 30, onExpire: "advance" };
+  });
+
+  it("runs a clock only while a timed turn is in progress", () => {
+    resetTurnClock(state, NOW);
+    expect(state.turnDeadline).toBe(NOW + 30_000);
+
+    state.turnTimer = undefined;
+    resetTurnClock(state, NOW);
+    expect(state.turnDeadline).toBeUndefined();
+
+    state.turnTimer = { seconds: 30, onExpire: "advance" };
+    state.combatActive = false;
+    resetTurnClock(state, NOW);
+    expect(state.turnDeadline).toBeUndefined();
+  });
+
+  it("restarts the clock on every hand-off", () => {
+    state.turnDeadline = NOW; // aria's clock, long since started
+    const earliest = Date.now() + 30_000;
+
+    advanceTurn(state, characterService, chatService);
+
+    expect(state.currentTurnCharacterId).toBe("gob");
+    expect(state.turnDeadline).toBeGreaterThanOrEqual(earliest);
+  });
+
+  it("does nothing before the deadline", () => {
+    resetTurnClock(state, NOW);
+
+    expect(expire(NOW + 29_999)).toBe(false);
+    expect(state.currentTurnCharacterId).toBe("aria");
+  });
+
+  it("advances the turn when time runs out in advance mode", () => {
+    resetTurnClock(state, NOW);
+
+    expect(expire(NOW + 30_000)).toBe(true);
+
+    expect(state.currentTurnCharacterId).toBe("gob");
+    expect(state.chatLog.map((message) => message.text)).toContain("⏰ Time is up for aria.");
+    // The next turn got a clock of its own.
+    expect(state.turnDeadline).toBeDefined();
+  });
+
+  it("tells only the DM, once, and leaves the turn in notify mode", () => {
+    state.turnTimer = { seconds: 30, onExpire: "notify" };
+    resetTurnClock(state, NOW);
+
+    expect(expire(NOW + 31_000)).toBe(true);
+    expect(expire(NOW + 32_000)).toBe(false);
+
+    expect(state.currentTurnCharacterId).toBe("aria");
+    expect(state.turnDeadline).toBeUndefined();
+    expect(state.chatLog).toHaveLength(1);
+    expect(state.chatLog[0]).toMatchObject({ text: "⏰ Time is up for aria.", to: "dm" });
+  });
+
+  it("keeps a hidden NPC's name out of the public announcement", () => {
+    state.characters[1].visibleToPlayers = false;
+    state.currentTurnCharacterId = "gob";
+    resetTurnClock(state, NOW);
+
+    expire(NOW + 30_000);
+
+    const notice = state.chatLog.find((message) => message.text.includes("gob"));
+    expect(notice?.to).toBe("dm");
+  });
+});
@@ -0,0 +1,108 @@
+// The round counter and the combat log (shared combatLog.ts). Handlers call in
+// here at the moments worth remembering; nothing is written while combat is
+// not running, so HP edits between fights stay out of the record.
+//
+// The log is per fight: `beginCombatLog` (every path that starts combat)
+// resets it and the round, and `end-combat` leaves both in place so the DM can
+// export the fight after calling it.
+
+import { randomUUID } from "node:crypto";
+import {
+  COMBAT_LOG_LIMITS,
+  type Character,
+  type CombatEvent,
+  type SnapshotCharacter,
+} from "@herobyte/shared";
+import type { RoomState } from "../model.js";
+
+/** What a caller says happened; the id, round and time are stamped here. */
+export type CombatEventInput = Omit<CombatEvent, "id" | "round" | "at">;
+
+/** Append an event to the running fight's log; a no-op outside combat. */
+export function recordCombatEvent(state: RoomState, input: CombatEventInput): void {
+  if (!state.combatActive) return;
+  const event: CombatEvent = {
+    id: randomUUID(),
+    round: state.combatRound ?? 1,
+    at: Date.now(),
+    ...input,
+  };
+  state.combatLog.push(event);
+  if (state.combatLog.length > COMBAT_LOG_LIMITS.EVENTS_MAX) {
+    state.combatLog = state.combatLog.slice(-COMBAT_LOG_LIMITS.EVENTS_MAX);
+  }
+}
+
+/** The subject fields every per-character event carries. */
+export function combatSubject(
+  character: Character,
+): Pick<CombatEvent, "characterId" | "name" | "npc"> {
+  return character.type === "npc"
+    ? { characterId: character.id, name: character.name, npc: true }
+    : { characterId: character.id, name: character.name };
+}
+
+/** Start a fresh log at round 1. Call after `combatActive` is set. */
+export function beginCombatLog(state: RoomState): void {
+  state.combatRound = 1;
+  state.combatLog = [];
+  recordCombatEvent(state, { kind: "combat-started" });
+}
+
+/**
+ * Log the start of whoever now holds the turn, or of each of `sharers` when
+ * the turn belongs to a group.
+ */
+export function recordTurnStarted(state: RoomState, sharers?: Character[]): void {
+  const holder = state.characters.find((c) => c.id === state.currentTurnCharacterId);
+  for (const character of sharers ?? (holder ? [holder] : [])) {
+    recordCombatEvent(state, { kind: "turn-started", ...combatSubject(character) });
+  }
+}
+
+/**
+ * Log a hit point change made to `character`, whose HP was `before`. Dropping
+ * from above zero to zero also logs the character as defeated.
+ */
+export function recordHpChange(state: RoomState, character: Character, before: number): void {
+  if (character.hp === before) return;
+  recordCombatEvent(state, {
+    kind: "hp-changed",
+    ...combatSubject(character),
+    change: character.hp < before ? "damage" : "healing",
+    from: before,
+    to: character.hp,
+  });
+  if (before > 0 && character.hp <= 0) {
+    recordCombatEvent(state, { kind: "defeated", ...combatSubject(character) });
+  }
+}
+
+/**
+ * The log as one recipient may see it. The DM sees everything. A player loses
+ * every event about a character they cannot currently see (`visible` is their
+ * already-filtered character list) — a hidden or fogged NPC's turn is exactly
+ * what the snapshot's turn id withholds — and, outside "exact" monster HP,
+ * the numbers on an NPC's hp-changed events.
+ */
+export function combatLogFor(
+  state: RoomState,
+  isDM: boolean,
+  visible: SnapshotCharacter[],
+): CombatEvent[] {
+  if (isDM) return state.combatLog;
+  const visibleIds = new Set(visible.map((character) => character.id));
+  const redactNumbers = state.monsterHpDisplay !== "exact";
+  return state.combatLog
+    .filter((event) => {
+      if (!event.characterId || visibleIds.has(event.characterId)) return true;
+      // Gone from the room: a PC's history stays. A deleted NPC's goes with
+      // it, because this cannot tell one the player saw from one they never did.
+      return !event.npc && !state.characters.some((c) => c.id === event.characterId);
+    })
+    .map((event) => {
+      if (!(redactNumbers && event.npc && event.kind === "hp-changed")) return event;
+      const { from: _from, to: _to, ...redacted } = event;
+      return redacted;
+    });
+}
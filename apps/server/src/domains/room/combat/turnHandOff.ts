@@ -0,0 +1,161 @@
+// What happens every time the turn passes to someone, whichever message moved
+// it: next-turn, a delay, a hold. Kept in one place so a delayed turn starts
+// exactly like an ordinary one — the movement budget resets, condition clocks
+// tick, the combat log records it, the new actor's readied action lapses, and
+// the turn timer (combat/turnTimer.ts) starts counting again.
+//
+// In group and side modes (shared combatModes.ts) a turn belongs to several
+// combatants at once. The walk then has one stop per group, and everything
+// above happens for every member of the group whose turn ends or starts.
+//
+// The walk passes by anyone dead, fled or knocked out (shared
+// combatantStatus.ts), except whoever holds the turn right now: a goblin
+// killed on its own turn is where the next turn is measured from.
+
+import { conditionName, sharesTurn, skipsTurn, turnStops, type Character } from "@herobyte/shared";
+import type { CharacterService } from "../../character/service.js";
+import type { ChatService } from "../../chat/service.js";
+import type { RoomState } from "../model.js";
+import { clearMovementLedger } from "../scene/movementBudget.js";
+import { recordTurnStarted } from "./combatLog.js";
+
+/**
+ * The order the turn walks: everyone in it except those holding and those
+ * out of the fight, with one stop per group when the room's mode groups them.
+ */
+export function turnWalk(order: Character[], state: RoomState): Character[] {
+  return turnStops(
+    order.filter(
+      (character) =>
+        !character.initiativeHeld &&
+        (!skipsTurn(character) || character.id === state.currentTurnCharacterId),
+    ),
+    state.combatMode,
+    state.currentTurnCharacterId,
+  );
+}
+
+/** Everyone whose turn `holderId`'s turn is: just them, or their group. */
+export function turnSharers(order: Character[], state: RoomState, holderId?: string): Character[] {
+  const holder = order.find((character) => character.id === holderId);
+  if (!holder) return [];
+  return order.filter((character) => sharesTurn(character, holder, state.combatMode));
+}
+
+/**
+ * Pass the turn to whoever is next in the walk, as next-turn does. Wrapping
+ * past the end starts a new round. Returns who has the turn now, or undefined
+ * when nobody is in the walk.
+ */
+export function advanceTurn(
+  state: RoomState,
+  characterService: CharacterService,
+  chatService: ChatService,
+): Character | undefined {
+  const walk = turnWalk(characterService.getCharactersInInitiativeOrder(state), state);
+  if (walk.length === 0) return undefined;
+
+  const currentIndex = walk.findIndex((c) => c.id === state.currentTurnCharacterId);
+  const nextIndex = (currentIndex + 1) % walk.length;
+  if (state.combatActive && currentIndex !== -1 && nextIndex <= currentIndex) {
+    state.combatRound = (state.combatRound ?? 1) + 1;
+  }
+  handOffTurn(state, characterService, chatService, state.currentTurnCharacterId, walk[nextIndex]);
+  return walk[nextIndex];
+}
+
+/**
+ * Give the turn to `next`. `endedId` is whose turn just ended, or undefined
+ * when it was given up rather than taken (a delay or hold), so that turn's
+ * end-of-turn clocks do not run.
+ */
+export function handOffTurn(
+  state: RoomState,
+  characterService: CharacterService,
+  chatService: ChatService,
+  endedId: string | undefined,
+  next: Character,
+): void {
+  const order = characterService.getCharactersInInitiativeOrder(state);
+  const ended = endedId === undefined ? [] : turnSharers(order, state, endedId);
+  const endedIds = ended.length > 0 || endedId === undefined ? ended.map((c) => c.id) : [endedId];
+  state.currentTurnCharacterId = next.id;
+  clearMovementLedger(state);
+  const started = turnSharers(order, state, next.id);
+  // Readied "until my next turn": it has come.
+  for (const character of started) character.readiedAction = undefined;
+  announceExpired(
+    state,
+    characterService,
+    chatService,
+    endedIds,
+    started.map((character) => character.id),
+  );
+  recordTurnStarted(state, started);
+  resetTurnClock(state);
+}
+
+/**
+ * Start the turn timer for the turn that has just begun, or stop it when the
+ * room has no timer or no turn is running. Every path that moves the turn
+ * calls this, so a turn never inherits the clock of the one before it.
+ */
+export function resetTurnClock(state: RoomState, now: number = Date.now()): void {
+  state.turnDeadline =
+    state.turnTimer && state.combatActive && state.currentTurnCharacterId
+      ? now + state.turnTimer.seconds * 1000
+      : undefined;
+}
+
+/** Holds and readied actions last only as long as the fight. */
+export function clearTurnActions(state: RoomState): void {
+  for (const character of state.characters) {
+    character.initiativeHeld = undefined;
+    character.readiedAction = undefined;
+  }
+}
+
+/**
+ * Tell the table something about `character`. News about a character the
+ * players cannot see goes to each DM as a whisper instead: a public
+ * "Restrained ends on Assassin" would give the hidden NPC away.
+ */
+export function announceAbout(
+  state: RoomState,
+  chatService: ChatService,
+  character: Character,
+  text: string,
+): void {
+  if (character.visibleToPlayers === false) {
+    whisperToDMs(state, chatService, text);
+  } else {
+    chatService.addSystemMessage(state, text);
+  }
+}
+
+/** A system message only the DMs see. */
+export function whisperToDMs(state: RoomState, chatService: ChatService, text: string): void {
+  for (const dm of state.players.filter((player) => player.isDM)) {
+    chatService.addSystemMessage(state, text, dm.uid);
+  }
+}
+
+/** Tick condition clocks for a turn change and say what ran out. */
+function announceExpired(
+  state: RoomState,
+  characterService: CharacterService,
+  chatService: ChatService,
+  endedIds: string[],
+  startedIds: string[],
+): void {
+  const expired = characterService.tickConditions(state, endedIds, startedIds);
+  for (const { character, condition } of expired) {
+    const from = condition.source ? ` (${condition.source})` : "";
+    announceAbout(
+      state,
+      chatService,
+      character,
+      `${conditionName(condition)}${from} ends on ${character.name}.`,
+    );
+  }
+}
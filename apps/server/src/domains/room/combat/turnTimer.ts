@@ -0,0 +1,38 @@
+// The turn timer (shared turnTimer.ts), server half. The deadline is stamped
+// by resetTurnClock (turnHandOff.ts) wherever a turn starts; this is what
+// happens when it passes. Nothing here runs on a client's say-so: the
+// lifecycle sweep (ws/lifecycle/TurnTimerManager.ts) checks every loaded room
+// once a second, so a turn runs out even when nobody at the table is sending
+// anything.
+
+import type { CharacterService } from "../../character/service.js";
+import type { ChatService } from "../../chat/service.js";
+import type { RoomState } from "../model.js";
+import { advanceTurn, announceAbout, whisperToDMs } from "./turnHandOff.js";
+
+/**
+ * If the running turn's time is up, act on it: pass the turn on, or tell the
+ * DM and leave it where it is. Either way the clock stops, so the DM is told
+ * once per turn rather than once a second. Returns whether the room changed.
+ */
+export function expireTurnClock(
+  state: RoomState,
+  characterService: CharacterService,
+  chatService: ChatService,
+  now: number = Date.now(),
+): boolean {
+  if (state.turnDeadline === undefined || now < state.turnDeadline) return false;
+  state.turnDeadline = undefined;
+  if (!state.combatActive || !state.turnTimer) return true;
+
+  const holder = characterService.findCharacter(state, state.currentTurnCharacterId ?? "");
+  if (state.turnTimer.onExpire === "notify") {
+    whisperToDMs(state, chatService, `⏰ Time is up for ${holder?.name ?? "the current turn"}.`);
+    return true;
+  }
+
+  if (holder) announceAbout(state, chatService, holder, `⏰ Time is up for ${holder.name}.`);
+  const next = advanceTurn(state, characterService, chatService);
+  if (next) console.log(`Turn timer ran out; turn advanced to ${next.name}`);
+  return true;
+}
@@ -6,7 +6,7 @@
 // it that way, the way `deriveMapElements` is the sole producer of player-safe
 // scenery. A second stripper is how secrets leak.
 
-import type { CompiledScene, CompiledWallSegment } from "@herobyte/shared";
+import type { CompiledMapLink, CompiledScene, CompiledWallSegment } from "@herobyte/shared";
 
 /**
  * The compiled scene as `isDM` may see it.
@@ -30,14 +30,25 @@ import type { CompiledScene, CompiledWallSegment } from "@herobyte/shared";
  * floor plan, which betrays a generated secret whatever the geometry says. See
  * generation/dungeonGeometry.emitDoors.
  *
- * LIGHTS are DM-only: nothing renders them at the table yet, so their
- * coordinates buy a player nothing but a map of the rooms fog is hiding (and
- * every generated dungeon lights its rooms). When the lighting system ships,
- * lights must come back VISION-FILTERED — like tokens — never restored whole.
+ * LIGHTS come back VISION-FILTERED, like tokens, never whole: a player gets
+ * exactly the lights whose glow reaches their line of sight
+ * (`visibleLightIds`), because their fog needs those to paint the lit areas
+ * the server already lets them see. Every other light is a map of a room fog
+ * is hiding (and every generated dungeon lights its rooms), so with no set —
+ * fog off, or no identified recipient — a player gets none at all.
+ *
+ * MAP LINKS a player may not use are left out entirely, like a secret door:
+ * the DM's private portal is not a thing players get told about. The ones
+ * they may use arrive without `target` — where the stairs go is found out by
+ * taking them.
  *
  * Pure: the caller's scene is never mutated.
  */
-export function compiledSceneFor(scene: CompiledScene, isDM: boolean): CompiledScene {
+export function compiledSceneFor(
+  scene: CompiledScene,
+  isDM: boolean,
+  visibleLightIds?: ReadonlySet<string> | null,
+): CompiledScene {
   if (isDM) return scene;
 
   const disguised = scene.doors
@@ -54,12 +65,17 @@ export function compiledSceneFor(scene: CompiledScene, isDM: boolean): CompiledS
 
   return {
     ...scene,
-    lights: [],
+    lights: visibleLightIds ? scene.lights.filter((light) => visibleLightIds.has(light.id)) : [],
     walls: mergeCollinear([...scene.walls, ...disguised]),
     doors: scene.doors.filter((door) => door.state !== "secret"),
+    ...(scene.links ? { links: playerLinks(scene.links) } : {}),
   };
 }
 
+function playerLinks(links: CompiledMapLink[]): CompiledMapLink[] {
+  return links.filter((link) => link.playersMayUse).map(({ target: _dmOnly, ...link }) => link);
+}
+
 /**
  * Fuse axis-aligned segments that are collinear AND touch end-to-end into one
  * maximal segment, so the decomposition carries no information about how the
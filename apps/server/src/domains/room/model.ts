@@ -16,15 +16,29 @@ import type {
   ChatMessage,
   Character,
   DiagonalRule,
+  ExploredFogMask,
+  FogRegion,
   MonsterHpDisplay,
   Prop,
   SceneObject,
   SelectionStateEntry,
   PlayerStagingZone,
+  SavedScene,
+  MonsterTemplate,
+  DiceMacro,
+  CombatEvent,
+  CombatMode,
+  TurnTimer,
 } from "@herobyte/shared";
 import { buildSnapshotAssets } from "./assets/SnapshotAssetBuilder.js";
 import { compiledSceneFor } from "./compiledSceneView.js";
+import { exploredFogFor } from "./scene/exploredFog.js";
+import { fogRegionsFor } from "./scene/fogRegions.js";
+import { sceneSummariesFor } from "./scene/sceneList.js";
+import { litCompiledScene } from "./scene/visionFilter.js";
 import { buildRecipientView } from "./snapshot/recipientFilter.js";
+import { combatLogFor } from "./combat/combatLog.js";
+import type { MovementLedger } from "./scene/movementBudget.js";
 import { createSelectionMap } from "./selectionSerialization.js";
 import type { DrawingOperation } from "../map/types.js";
 
@@ -54,6 +68,11 @@ export interface RoomState {
   playerStagingZone?: PlayerStagingZone; // Spawn area for player tokens
   combatActive: boolean; // Whether combat/initiative tracking is active
   currentTurnCharacterId?: string; // ID of character whose turn it currently is
+  combatRound?: number; // Round of the current (or last) fight; absent before the first
+  combatLog: CombatEvent[]; // The current (or last) fight's events (combat/combatLog.ts)
+  initiativeOrder?: string[]; // The DM's arrangement of the tracker (shared initiativeOrder.ts)
+  combatMode: CombatMode; // Who takes a turn together (shared combatModes.ts; walked in combat/turnHandOff.ts)
+  turnTimer?: TurnTimer; // Each turn's length and what happens when it runs out (combat/turnTimer.ts)
   compiledScene?: CompiledScene; // Geometry compiled from the last published Map Studio document
   mapTerrain?: MapTerrainSnapshot; // Painted terrain published as data (elements-only backgrounds)
   mapElements?: MapElementsSnapshot; // Player-safe live-authored scenery (privacy-filtered at derive)
@@ -62,8 +81,27 @@ export interface RoomState {
   monsterHpDisplay: MonsterHpDisplay; // How much monster HP players see (enforced in the recipient filter)
   diagonalRule: DiagonalRule; // How the table counts diagonal distance (measureGridDistance)
   playerPropsEnabled: boolean; // Players may create/edit/delete their OWN props (enforced in PropDispatcher)
+  movementBudgetEnabled: boolean; // Hold combatants to their speed on their own turn (enforced in movementBudget.ts)
+  /** Feet walked this turn, per token. Transient: never persisted, resets itself when the turn moves. */
+  movementLedger?: MovementLedger;
+  /** When the current turn's time runs out (epoch ms). Transient: a restart starts the clock again on the next turn. */
+  turnDeadline?: number;
   /** Sight limit in FEET for tokens carrying no radius of their own; null = unlimited. Applied at read time. */
   defaultVisionRadius: number | null;
+  /** Each player's explored-area mask per scene, most recently touched first (scene/exploredFog.ts). */
+  exploredFog: ExploredFogMask[];
+  /** The DM's painted reveal/conceal regions, every scene's, bottom of each stack first (scene/fogRegions.ts). */
+  fogRegions: FogRegion[];
+  /** Undone regions, most recent last. Transient, like the drawing redo stacks. */
+  fogRegionRedo?: FogRegion[];
+  /** Saved scenes in list order; the active one's content is the live state above (scene/sceneList.ts). */
+  scenes: SavedScene[];
+  /** Which of `scenes` is on the table. Absent until the room makes a list. */
+  activeSceneId?: string;
+  /** The DM's monster templates, in list order (domains/bestiary). DM-only in snapshots. */
+  bestiary: MonsterTemplate[];
+  /** The DM's shared macros (shared diceMacros.ts), shown in every macro bar. */
+  tableMacros: DiceMacro[];
   /** The public test table (see RoomSnapshot.isPublicTable). Set at boot. */
   isPublicTable?: boolean;
   /** Display name a private table was created or forked with. */
@@ -95,6 +133,8 @@ export function createEmptyRoomState(): RoomState {
     playerStagingZone: undefined,
     combatActive: false,
     currentTurnCharacterId: undefined,
+    combatLog: [],
+    combatMode: "individual",
     compiledScene: undefined,
     mapTerrain: undefined,
     mapElements: undefined,
@@ -103,7 +143,13 @@ export function createEmptyRoomState(): RoomState {
     monsterHpDisplay: "exact",
     diagonalRule: "5e",
     playerPropsEnabled: false,
+    movementBudgetEnabled: false,
     defaultVisionRadius: null,
+    exploredFog: [],
+    fogRegions: [],
+    scenes: [],
+    bestiary: [],
+    tableMacros: [],
   };
 }
 
@@ -155,10 +201,21 @@ export function toSnapshot(
     // A table rule, not a secret: every recipient must measure the same way or
     // "is Grak in range" gets two answers.
     diagonalRule: state.diagonalRule,
+    // Players need it to light up every combatant sharing the turn, not just
+    // the one whose id the turn is held under.
+    combatMode: state.combatMode,
+    // The setting and the running clock are table knowledge, like the turn
+    // itself — except that a withheld turn (a hidden NPC's) runs no visible
+    // clock: a countdown nobody can see the owner of would announce them.
+    turnTimer: state.turnTimer,
+    turnDeadline: view.currentTurnCharacterId ? state.turnDeadline : undefined,
     // A capability flag, not a secret: players need it to know whether the
     // prop tools render at all. Enforcement is the prop dispatcher's re-check
     // of room state per message, never this field.
     playerPropsEnabled: state.playerPropsEnabled,
+    // A table rule like diagonalRule: players need it to see the budget their
+    // drag will be held to. The server enforces it per move regardless.
+    movementBudgetEnabled: state.movementBudgetEnabled,
   };
 
   // `!== null`, never truthiness: 0 is a real default ("total darkness, torches
@@ -168,14 +225,51 @@ export function toSnapshot(
     snapshot.defaultVisionRadius = state.defaultVisionRadius;
   }
 
+  // The published scene's memory only: the player's own mask, or the whole
+  // party's for the DM, who is the one resetting and revealing it.
+  const exploredFog = exploredFogFor(state, isDM, recipientUid);
+  if (exploredFog.length > 0) snapshot.exploredFog = exploredFog;
+
+  // To everyone, players included: their client draws its own fog, and the
+  // regions only ever shape map art — the entity filter applies them too.
+  const fogRegions = fogRegionsFor(state);
+  if (fogRegions.length > 0) snapshot.fogRegions = fogRegions;
+
+  // Players learn where they are, never where the DM might take them next.
+  if (state.activeSceneId) {
+    snapshot.scenes = sceneSummariesFor(state, isDM);
+    snapshot.activeSceneId = state.activeSceneId;
+  }
+
+  // The round is table knowledge, like whose turn it is. The log is filtered
+  // against this recipient's characters, so it follows the same fog and
+  // hidden-NPC rules the character list just did.
+  if (state.combatRound !== undefined) snapshot.combatRound = state.combatRound;
+  const combatLog = combatLogFor(state, isDM, view.characters);
+  if (combatLog.length > 0) snapshot.combatLog = combatLog;
+  // Likewise cut to the characters this recipient can see: a hidden NPC's id
+  // in the order would announce it.
+  if (state.initiativeOrder) {
+    const visible = new Set(view.characters.map((character) => character.id));
+    snapshot.initiativeOrder = state.initiativeOrder.filter((id) => visible.has(id));
+  }
+
+  // Stat blocks are the DM's notes: a player learning the goblin's AC from
+  // the payload is the same leak as learning it from the DM's screen.
+  if (isDM && state.bestiary.length > 0) snapshot.bestiary = state.bestiary;
+  // Unlike the bestiary, to everyone: the DM sets them for the table to roll.
+  if (state.tableMacros.length > 0) snapshot.tableMacros = state.tableMacros;
+
   // Only ever sent when true — absent reads as "not a public table".
   if (state.isPublicTable) snapshot.isPublicTable = true;
   if (state.tableName) snapshot.tableName = state.tableName;
 
-  // Secret doors and lights are DM-only; compiledSceneView owns that rule and
-  // is the only place allowed to.
-  if (state.compiledScene) {
-    snapshot.compiledScene = compiledSceneFor(state.compiledScene, isDM);
+  // Secret doors are DM-only and lights are vision-filtered; compiledSceneView
+  // owns that rule and is the only place allowed to. Carried lights ride in
+  // the lights list like authored ones, filtered by the same rule.
+  const litScene = litCompiledScene(state);
+  if (litScene) {
+    snapshot.compiledScene = compiledSceneFor(litScene, isDM, view.lightIds);
   }
 
   // Terrain + live scenery are player-safe map art: the same data for every
@@ -14,15 +14,31 @@ import { readFileSync, existsSync, renameSync } from "fs";
 import { writeFile, rename } from "fs/promises";
 import type { Player, Character, SceneObject } from "@herobyte/shared";
 import {
+  coerceBestiary,
+  coerceCharacterMacros,
+  coerceDiceMacros,
+  coerceCombatLog,
+  coerceCombatRound,
+  coerceInitiativeOrder,
   coerceDefaultVisionRadius,
+  coerceCombatMode,
+  coerceTurnTimer,
   coerceDiagonalRule,
+  coerceExploredFog,
+  coerceFogRegions,
   coerceMonsterHpDisplay,
+  coerceTokenLights,
+  coerceTokenSenses,
+  coerceTokenSpeeds,
   coerceTokenVisionRadii,
+  MACRO_LIMITS,
 } from "@herobyte/shared";
 import { resolveServerPath } from "../../../config/serverPaths.js";
 import type { RoomState } from "../model.js";
 import { createSelectionMap } from "../model.js";
 import type { StagingZoneManager } from "../staging/StagingZoneManager.js";
+import { toPersistentData } from "./persistentData.js";
+import { coerceSceneList } from "../scene/sceneList.js";
 
 /**
  * Default file path for state persistence, anchored to the package root so
@@ -106,7 +122,13 @@ export class StatePersistence {
           // changes behaviour and no test notices. Keep both: they protect
           // different things (a crash, and a poisoned field), and either could
           // be moved or dropped by a later refactor of the other.
-          tokens: coerceTokenVisionRadii(Array.isArray(data.tokens) ? data.tokens : []),
+          tokens: coerceTokenSpeeds(
+            coerceTokenLights(
+              coerceTokenSenses(
+                coerceTokenVisionRadii(Array.isArray(data.tokens) ? data.tokens : []),
+              ),
+            ),
+          ),
           players: (data.players || []).map((player: Player) => ({
             ...player,
             isDM: player.isDM ?? false,
@@ -117,6 +139,8 @@ export class StatePersistence {
             type: character.type === "npc" ? ("npc" as const) : ("pc" as const),
             tokenImage: character.tokenImage ?? undefined,
             tokenId: character.tokenId ?? undefined,
+            // Each is rolled by a tap, so a hand-edited one is checked now.
+            macros: coerceCharacterMacros(character.macros),
           })),
           props: data.props || [],
           mapBackground: data.mapBackground,
@@ -136,6 +160,14 @@ export class StatePersistence {
           playerStagingZone: this.stagingManager.sanitize(data.playerStagingZone),
           combatActive: data.combatActive ?? false,
           currentTurnCharacterId: data.currentTurnCharacterId ?? undefined,
+          // Like initiative, the fight's record survives a restart.
+          combatRound: coerceCombatRound(data.combatRound),
+          combatLog: coerceCombatLog(data.combatLog),
+          initiativeOrder: coerceInitiativeOrder(data.initiativeOrder),
+          // Whitelisted like the other table rules: the turn walk branches on it.
+          combatMode: coerceCombatMode(data.combatMode),
+          // A malformed clock is no clock, never a zero-second one.
+          turnTimer: coerceTurnTimer(data.turnTimer),
           compiledScene: data.compiledScene ?? undefined,
           mapTerrain: data.mapTerrain ?? undefined,
           mapElements: data.mapElements ?? undefined,
@@ -152,10 +184,21 @@ export class StatePersistence {
           // because a hand-edited file carried "yes" or 1. Older files have no
           // key at all, which reads as off — the shipped default.
           playerPropsEnabled: data.playerPropsEnabled === true,
+          movementBudgetEnabled: data.movementBudgetEnabled === true,
           // Clamped rather than passed through: the sweep divides by this, and
           // ABSENT is the normal case — every state file already on the
           // production disk predates the field and must read as no default.
           defaultVisionRadius: coerceDefaultVisionRadius(data.defaultVisionRadius),
+          // Rebuilt mask by mask: the bits are decoded on every merge, so a
+          // hand-edited entry must be well-formed before it is held at all.
+          // Older files have no key, which reads as nobody remembering anything.
+          exploredFog: coerceExploredFog(data.exploredFog),
+          // Rebuilt point by point: the vision filter hit-tests every one.
+          fogRegions: coerceFogRegions(data.fogRegions),
+          // Off-table scenes go live on activation, so they are coerced too.
+          ...coerceSceneList(data.scenes, data.activeSceneId, this.stagingManager),
+          bestiary: coerceBestiary(data.bestiary),
+          tableMacros: coerceDiceMacros(data.tableMacros, MACRO_LIMITS.TABLE_MAX),
         };
 
         this.setState(loadedState);
@@ -200,65 +243,37 @@ export class StatePersistence {
    * Called after every state change (via broadcast). Uses fire-and-forget pattern
    * to prevent blocking the event loop during gameplay.
    *
-   * Persisted fields:
+   * Persisted fields (see toPersistentData):
    * - tokens, players, characters, props
    * - mapBackground, drawings
    * - gridSize, gridSquareSize
    * - diceRolls, sceneObjects
    * - playerStagingZone
+   * - exploredFog (what each player has uncovered, per scene)
+   * - fogRegions (the DM's painted reveal/conceal areas, per scene)
+   * - scenes, activeSceneId (every saved scene, the inactive ones' content too)
+   * - bestiary (the DM's monster templates)
+   * - tableMacros (the DM's shared dice macros; characters carry their own)
    * - combatActive, currentTurnCharacterId (initiative survives a restart)
+   * - combatRound, combatLog (the fight's round and record, likewise)
+   * - initiativeOrder (the DM's arrangement of the tracker)
+   * - combatMode (individual, group or side initiative)
+   * - turnTimer (the setting; the running deadline is not kept)
    *
    * NOT persisted (ephemeral/runtime state):
    * - users (reconnect with new connection)
    * - pointers (expire after 3 seconds)
-   * - drawingUndoStacks, drawingRedoStacks (runtime-only)
+   * - drawingUndoStacks, drawingRedoStacks, fogRegionRedo (runtime-only)
    * - selectionState (UI state, not game state)
+   * - movementLedger, turnDeadline (belong to the turn in progress)
    *
    * Error handling:
    * - Logs errors to console
    * - Does not throw or propagate errors
    * - Game continues even if save fails
-   *
-   * @example
-   * ```typescript
-   * const persistence = new StatePersistence(state, stagingManager);
-   * persistence.saveToDisk(); // Returns immediately, file writes in background
-   * ```
    */
   saveToDisk(): void {
-    const state = this.getState();
-    const persistentData = {
-      tokens: state.tokens,
-      players: state.players,
-      characters: state.characters,
-      props: state.props,
-      mapBackground: state.mapBackground,
-      drawings: state.drawings,
-      gridSize: state.gridSize,
-      gridSquareSize: state.gridSquareSize,
-      diceRolls: state.diceRolls,
-      // Chat survives a restart for the same reason initiative does: a crash
-      // mid-session must not silently erase what the table said. Whispers are
-      // included — this file is server-local, and the per-recipient filter
-      // runs on the way OUT, so nothing here reaches the wrong client.
-      chatLog: state.chatLog,
-      sceneObjects: state.sceneObjects,
-      playerStagingZone: state.playerStagingZone,
-      compiledScene: state.compiledScene,
-      mapTerrain: state.mapTerrain,
-      mapElements: state.mapElements,
-      liveMapDocumentId: state.liveMapDocumentId,
-      fogEnabled: state.fogEnabled,
-      monsterHpDisplay: state.monsterHpDisplay,
-      diagonalRule: state.diagonalRule,
-      playerPropsEnabled: state.playerPropsEnabled,
-      defaultVisionRadius: state.defaultVisionRadius,
-      stateVersion: state.stateVersion,
-      // Combat state survives a restart on purpose (VISION.md calls this a
-      // launch gate): a mid-fight crash or redeploy must not lose initiative.
-      combatActive: state.combatActive,
-      currentTurnCharacterId: state.currentTurnCharacterId,
-    };
+    const persistentData = toPersistentData(this.getState());
 
     // Serialize NOW (synchronously) so the queued write captures a consistent
     // snapshot of the state as it was when the save was requested. The fields in
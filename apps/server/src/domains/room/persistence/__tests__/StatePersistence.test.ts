@@ -27,7 +27,9 @@ vi.mock("fs/promises", async () => {
 });
 
 import * as fsPromises from "fs/promises";
+import { maskGeometryFor } from "@herobyte/shared";
 import { RoomService } from "../../service.js";
+import { activateScene, createScene } from "../../scene/sceneList.js";
 
 const TEST_STATE_FILE = "./test-herobyte-state.json";
 // A SCRATCH path, deliberately not the real "./herobyte-state.json". This
@@ -234,6 +236,82 @@ describe("StatePersistence - Characterization Tests", () => {
       expect(fresh.getState().defaultVisionRadius).toBe(0);
     });
 
+    it("round-trips explored-area masks, dropping malformed ones and reading an absent key as none", async () => {
+      const mask = {
+        uid: "player-1",
+        sceneId: "map",
+        sceneWidth: 80,
+        sceneHeight: 40,
+        ...maskGeometryFor(80, 40),
+        epoch: 2,
+        bits: "",
+      };
+      roomService.getState().exploredFog = [mask];
+      roomService.saveState();
+      await roomService.awaitPendingWrites();
+
+      const fresh = new RoomService({ stateFile: PROD_STATE_FILE });
+      fresh.loadState();
+      expect(fresh.getState().exploredFog).toEqual([mask]);
+
+      // The bits are decoded on every merge, so a hand-edited mask whose
+      // geometry disagrees with its scene must not be held at all.
+      const raw = JSON.parse(readFileSync(PROD_STATE_FILE, "utf-8"));
+      raw.exploredFog = [{ ...mask, cols: 999 }, "junk"];
+      writeFileSync(PROD_STATE_FILE, JSON.stringify(raw));
+      const poisoned = new RoomService({ stateFile: PROD_STATE_FILE });
+      poisoned.loadState();
+      expect(poisoned.getState().exploredFog).toEqual([]);
+
+      delete raw.exploredFog;
+      writeFileSync(PROD_STATE_FILE, JSON.stringify(raw));
+      const legacy = new RoomService({ stateFile: PROD_STATE_FILE });
+      legacy.loadState();
+      expect(legacy.getState().exploredFog).toEqual([]);
+    });
+
+    it("round-trips painted fog regions, dropping malformed ones", async () => {
+      const region = {
+        id: "fr-1",
+        sceneId: "map",
+        mode: "conceal" as const,
+        shape: "stroke" as const,
+        points: [{ x: 5, y: 5 }],
+        radius: 10,
+      };
+      roomService.getState().fogRegions = [region];
+      roomService.saveState();
+      await roomService.awaitPendingWrites();
+
+      const fresh = new RoomService({ stateFile: PROD_STATE_FILE });
+      fresh.loadState();
+      expect(fresh.getState().fogRegions).toEqual([region]);
+
+      const raw = JSON.parse(readFileSync(PROD_STATE_FILE, "utf-8"));
+      raw.fogRegions = [{ ...region, radius: -1 }, "junk"];
+      writeFileSync(PROD_STATE_FILE, JSON.stringify(raw));
+      const poisoned = new RoomService({ stateFile: PROD_STATE_FILE });
+      poisoned.loadState();
+      expect(poisoned.getState().fogRegions).toEqual([]);
+    });
+
+    it("round-trips the scene list, the scenes off the table included", async () => {
+      const state = roomService.getState();
+      state.mapBackground = "town.png";
+      createScene(state, "Crypt");
+      activateScene(state, state.scenes[1]!.id);
+      roomService.saveState();
+      await roomService.awaitPendingWrites();
+
+      const fresh = new RoomService({ stateFile: PROD_STATE_FILE });
+      fresh.loadState();
+      const loaded = fresh.getState();
+      expect(loaded.activeSceneId).toBe(state.scenes[1]!.id);
+      expect(loaded.scenes.map((scene) => scene.name)).toEqual(["Scene 1", "Crypt"]);
+      expect(loaded.scenes[0]!.content?.mapBackground).toBe("town.png");
+      expect(loaded.mapBackground).toBeUndefined();
+    });
+
     it("should do nothing when state file does not exist", () => {
       // Ensure file doesn't exist
       expect(existsSync(PROD_STATE_FILE)).toBe(false);
@@ -817,6 +895,9 @@ describe("StatePersistence - Characterization Tests", () => {
       expect(savedData).toHaveProperty("playerStagingZone");
       expect(savedData).toHaveProperty("playerPropsEnabled");
       expect(savedData).toHaveProperty("defaultVisionRadius");
+      expect(savedData).toHaveProperty("exploredFog");
+      expect(savedData).toHaveProperty("fogRegions");
+      expect(savedData).toHaveProperty("scenes");
     });
 
     it("should be fire-and-forget (async, non-blocking)", () => {
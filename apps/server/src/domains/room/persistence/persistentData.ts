@@ -0,0 +1,65 @@
+/**
+ * Persistent room data
+ *
+ * The fields of RoomState that are written to the state file. Kept apart from
+ * StatePersistence so the file I/O (queueing, tmp+rename, quarantine) does not
+ * grow every time the room learns to remember something new; the load side's
+ * coercion stays with the loader, next to the reason each field is trusted.
+ *
+ * @module domains/room/persistence/persistentData
+ */
+
+import type { RoomState } from "../model.js";
+
+/**
+ * Pick the persisted fields out of the room. The values are live references
+ * into the state — serialize the result straight away (saveToDisk does).
+ */
+export function toPersistentData(state: RoomState) {
+  return {
+    tokens: state.tokens,
+    players: state.players,
+    characters: state.characters,
+    props: state.props,
+    mapBackground: state.mapBackground,
+    drawings: state.drawings,
+    gridSize: state.gridSize,
+    gridSquareSize: state.gridSquareSize,
+    diceRolls: state.diceRolls,
+    // Chat survives a restart for the same reason initiative does: a crash
+    // mid-session must not silently erase what the table said. Whispers are
+    // included — this file is server-local, and the per-recipient filter
+    // runs on the way OUT, so nothing here reaches the wrong client.
+    chatLog: state.chatLog,
+    sceneObjects: state.sceneObjects,
+    playerStagingZone: state.playerStagingZone,
+    compiledScene: state.compiledScene,
+    mapTerrain: state.mapTerrain,
+    mapElements: state.mapElements,
+    liveMapDocumentId: state.liveMapDocumentId,
+    fogEnabled: state.fogEnabled,
+    monsterHpDisplay: state.monsterHpDisplay,
+    diagonalRule: state.diagonalRule,
+    playerPropsEnabled: state.playerPropsEnabled,
+    movementBudgetEnabled: state.movementBudgetEnabled,
+    defaultVisionRadius: state.defaultVisionRadius,
+    // What each player has uncovered survives a restart: keeping it off the
+    // browser was the point, and a redeploy must not be the new refresh.
+    exploredFog: state.exploredFog,
+    fogRegions: state.fogRegions,
+    scenes: state.scenes,
+    activeSceneId: state.activeSceneId,
+    bestiary: state.bestiary,
+    tableMacros: state.tableMacros,
+    stateVersion: state.stateVersion,
+    // Combat state survives a restart on purpose (VISION.md calls this a
+    // launch gate): a mid-fight crash or redeploy must not lose initiative.
+    combatActive: state.combatActive,
+    currentTurnCharacterId: state.currentTurnCharacterId,
+    combatRound: state.combatRound,
+    combatLog: state.combatLog,
+    initiativeOrder: state.initiativeOrder,
+    combatMode: state.combatMode,
+    turnTimer: state.turnTimer,
+  };
+}
@@ -34,6 +34,13 @@ export function isRoomStatePristine(state: RoomState): boolean {
     state.mapElements === undefined &&
     state.liveMapDocumentId === undefined &&
     state.playerStagingZone === undefined &&
+    // A saved scene is a whole map the DM built, even with an empty one on
+    // the table.
+    state.scenes.length === 0 &&
+    state.bestiary.length === 0 &&
+    state.tableMacros.length === 0 &&
+    // A finished fight's log is still waiting to be exported.
+    state.combatLog.length === 0 &&
     state.combatActive === false
   );
 }
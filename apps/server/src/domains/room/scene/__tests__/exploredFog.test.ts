@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_EXPLORED_SCENES_PER_PLAYER,
+  encodeExploredBits,
+  exploredFraction,
+  exploredMaskByteLength,
+  maskGeometryFor,
+  type ExploredFogMask,
+  type Player,
+} from "@herobyte/shared";
+import { createEmptyRoomState, toSnapshot, type RoomState } from "../../model.js";
+import { exploredFogFor, mergeExploredUpload, setExploredFog } from "../exploredFog.js";
+
+// An 80x40 scene: the smallest mask cell (8 px), so 10 x 5 = 50 mask cells.
+const META = maskGeometryFor(80, 40);
+
+function bitsWith(indices: number[]): string {
+  const bytes = new Uint8Array(exploredMaskByteLength(META));
+  for (const index of indices) bytes[index >> 3]! |= 1 << (index & 7);
+  return encodeExploredBits(bytes);
+}
+
+function upload(indices: number[], overrides: Partial<ExploredFogMask> = {}) {
+  return {
+    sceneId: "map",
+    sceneWidth: 80,
+    sceneHeight: 40,
+    ...META,
+    epoch: 0,
+    bits: bitsWith(indices),
+    ...overrides,
+  };
+}
+
+function player(uid: string, isDM = false): Player {
+  return { uid, name: uid, hp: 10, maxHp: 10, isDM } as Player;
+}
+
+function room(): RoomState {
+  const state = createEmptyRoomState();
+  state.players = [player("dm", true), player("alice"), player("bob")];
+  state.compiledScene = {
+    schemaVersion: 1,
+    sourceDocumentId: "map",
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 80,
+    height: 40,
+    walls: [],
+    doors: [],
+    lights: [],
+  };
+  return state;
+}
+
+function memoryOf(state: RoomState, uid: string): ExploredFogMask | undefined {
+  return state.exploredFog.find((mask) => mask.uid === uid && mask.sceneId === "map");
+}
+
+describe("explored fog", () => {
+  it("ORs uploads into the player's memory and reports only real change", () => {
+    const state = room();
+    expect(mergeExploredUpload(state, "alice", upload([1]))).toBe(true);
+    expect(mergeExploredUpload(state, "alice", upload([2]))).toBe(true);
+    expect(mergeExploredUpload(state, "alice", upload([1]))).toBe(false);
+
+    expect(memoryOf(state, "alice")?.bits).toBe(bitsWith([1, 2]));
+  });
+
+  // The normal race of a debounced upload, not an error: the scene changed
+  // under it, or the DM reset the memory it was built on.
+  it("drops an upload for another scene, another size, or an old epoch", () => {
+    const state = room();
+    expect(mergeExploredUpload(state, "alice", upload([1], { sceneId: "old" }))).toBe(false);
+    const resized = maskGeometryFor(160, 40);
+    expect(
+      mergeExploredUpload(state, "alice", upload([], { sceneWidth: 160, ...resized, bits: "" })),
+    ).toBe(false);
+
+    setExploredFog(state, "reset", "alice");
+    expect(mergeExploredUpload(state, "alice", upload([7]))).toBe(false);
+    expect(memoryOf(state, "alice")?.bits).toBe("");
+    expect(mergeExploredUpload(state, "alice", upload([7], { epoch: 1 }))).toBe(true);
+  });
+
+  it("keeps a player's most recent scenes only", () => {
+    const state = room();
+    for (let i = 0; i <= MAX_EXPLORED_SCENES_PER_PLAYER; i += 1) {
+      state.compiledScene = { ...state.compiledScene!, sourceDocumentId: `map-${i}` };
+      mergeExploredUpload(state, "alice", upload([1], { sceneId: `map-${i}` }));
+    }
+
+    expect(state.exploredFog).toHaveLength(MAX_EXPLORED_SCENES_PER_PLAYER);
+    expect(state.exploredFog.some((mask) => mask.sceneId === "map-0")).toBe(false);
+  });
+
+  it("reveals the whole scene to one player, or to every player but the DM", () => {
+    const state = room();
+    setExploredFog(state, "reveal", "bob");
+    expect(exploredFraction(memoryOf(state, "bob")!)).toBe(1);
+    expect(memoryOf(state, "alice")).toBeUndefined();
+
+    setExploredFog(state, "reveal");
+    expect(exploredFraction(memoryOf(state, "alice")!)).toBe(1);
+    expect(memoryOf(state, "dm")).toBeUndefined();
+    // Each reveal is a new epoch, so an upload from before it cannot land.
+    expect(memoryOf(state, "bob")?.epoch).toBe(2);
+  });
+
+  it("refuses a reset with no published scene or for someone not at the table", () => {
+    const state = room();
+    expect(() => setExploredFog(state, "reset", "mallory")).toThrow("Unknown player");
+    state.compiledScene = undefined;
+    expect(() => setExploredFog(state, "reset")).toThrow("No published scene");
+  });
+
+  it("sends a player only their own memory of the published scene, and the DM everyone's", () => {
+    const state = room();
+    mergeExploredUpload(state, "alice", upload([1]));
+    mergeExploredUpload(state, "bob", upload([2]));
+    state.exploredFog.push({ ...memoryOf(state, "alice")!, sceneId: "elsewhere" });
+
+    expect(exploredFogFor(state, false, "alice").map((mask) => mask.uid)).toEqual(["alice"]);
+    expect(toSnapshot(state, false, "bob").exploredFog?.map((mask) => mask.uid)).toEqual(["bob"]);
+    expect(toSnapshot(state, true, "dm").exploredFog).toHaveLength(2);
+    expect(toSnapshot(state, false, "carol").exploredFog).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { MAX_FOG_REGIONS, type FogRegionDraft } from "@herobyte/shared";
+import { createEmptyRoomState, toSnapshot, type RoomState } from "../../model.js";
+import {
+  addFogRegion,
+  clearFogRegions,
+  fogRegionsFor,
+  redoFogRegion,
+  undoFogRegion,
+} from "../fogRegions.js";
+
+const DRAFT: FogRegionDraft = {
+  mode: "reveal",
+  shape: "polygon",
+  points: [
+    { x: 0, y: 0 },
+    { x: 40, y: 0 },
+    { x: 40, y: 40 },
+  ],
+};
+
+function room(sceneId = "map"): RoomState {
+  const state = createEmptyRoomState();
+  publish(state, sceneId);
+  return state;
+}
+
+function publish(state: RoomState, sceneId: string): void {
+  state.compiledScene = {
+    schemaVersion: 1,
+    sourceDocumentId: sceneId,
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 80,
+    height: 40,
+    walls: [],
+    doors: [],
+    lights: [],
+  };
+}
+
+describe("fog regions", () => {
+  it("stamps a region with an id and the published scene", () => {
+    const state = room();
+    const region = addFogRegion(state, DRAFT);
+
+    expect(region).toMatchObject({ ...DRAFT, sceneId: "map" });
+    expect(region.id).toEqual(expect.any(String));
+    expect(toSnapshot(state).fogRegions).toEqual([region]);
+  });
+
+  it("refuses to paint with nothing published, or past the limit", () => {
+    const state = createEmptyRoomState();
+    expect(() => addFogRegion(state, DRAFT)).toThrow("No published scene to paint fog on");
+
+    publish(state, "map");
+    for (let i = 0; i < MAX_FOG_REGIONS; i += 1) addFogRegion(state, DRAFT);
+    expect(() => addFogRegion(state, DRAFT)).toThrow("Fog region limit reached");
+  });
+
+  it("undoes and redoes the top of the stack, and a new stroke drops the redo", () => {
+    const state = room();
+    const first = addFogRegion(state, DRAFT);
+    const second = addFogRegion(state, { ...DRAFT, mode: "conceal" });
+
+    expect(undoFogRegion(state)).toBe(true);
+    expect(state.fogRegions).toEqual([first]);
+    expect(redoFogRegion(state)).toBe(true);
+    expect(state.fogRegions).toEqual([first, second]);
+
+    undoFogRegion(state);
+    addFogRegion(state, DRAFT);
+    expect(redoFogRegion(state)).toBe(false);
+  });
+
+  it("reports nothing to undo as no change", () => {
+    expect(undoFogRegion(room())).toBe(false);
+    expect(redoFogRegion(room())).toBe(false);
+  });
+
+  // Each map keeps its own paint: the DM may switch back to this one.
+  it("keeps another scene's regions out of view, out of undo and out of clear", () => {
+    const state = room("cellar");
+    const cellar = addFogRegion(state, DRAFT);
+    publish(state, "map");
+    addFogRegion(state, DRAFT);
+
+    undoFogRegion(state);
+    expect(undoFogRegion(state)).toBe(false);
+    expect(state.fogRegions).toEqual([cellar]);
+    expect(fogRegionsFor(state)).toEqual([]);
+
+    // The undone "map" region does not redo onto another scene either.
+    publish(state, "cellar");
+    expect(redoFogRegion(state)).toBe(false);
+
+    addFogRegion(state, DRAFT);
+    publish(state, "map");
+    addFogRegion(state, DRAFT);
+    clearFogRegions(state);
+    expect(state.fogRegions.every((region) => region.sceneId === "cellar")).toBe(true);
+    expect(state.fogRegions).toHaveLength(2);
+  });
+});
@@ -0,0 +1,133 @@
+// Map links at the table: who may take them, where tokens land, and what the
+// players' copy of the scene says about them.
+
+import { describe, expect, it } from "vitest";
+import type { CompiledMapLink, CompiledScene } from "@herobyte/shared";
+import { compiledSceneFor } from "../../compiledSceneView.js";
+import { createEmptyRoomState, type RoomState } from "../../model.js";
+import { travelThroughMapLink } from "../mapLinks.js";
+import { createScene } from "../sceneList.js";
+
+function compiled(sourceDocumentId: string, links?: CompiledMapLink[]): CompiledScene {
+  return {
+    schemaVersion: 1,
+    sourceDocumentId,
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 1000,
+    height: 1000,
+    walls: [],
+    doors: [],
+    lights: [],
+    ...(links ? { links } : {}),
+  };
+}
+
+// A one-square staircase at cell (2,4) on 50px squares.
+const STAIRS: CompiledMapLink = {
+  id: "stairs",
+  kind: "stairs",
+  label: "Stairs down",
+  x: 100,
+  y: 200,
+  width: 50,
+  height: 50,
+  target: { documentId: "crypt", x: 275, y: 275 },
+  playersMayUse: true,
+};
+const TRAPDOOR: CompiledMapLink = {
+  ...STAIRS,
+  id: "trapdoor",
+  label: "Trapdoor",
+  target: { documentId: "town", x: 525, y: 25 },
+  playersMayUse: false,
+};
+
+/** The town on the table with its crypt saved as a second scene. */
+function town(): RoomState {
+  const state = createEmptyRoomState();
+  state.gridSize = 50;
+  state.players = [
+    { uid: "dm", name: "DM", isDM: true } as never,
+    { uid: "p1", name: "Aria", isDM: false } as never,
+  ];
+  state.characters = [
+    { id: "c1", name: "Aria", type: "pc", hp: 5, maxHp: 5, ownedByPlayerUID: "p1", tokenId: "t1" },
+  ] as never;
+  state.tokens = [
+    { id: "t1", owner: "p1", x: 2, y: 4, color: "red" },
+    { id: "t2", owner: "p1", x: 9, y: 9, color: "blue" },
+    { id: "goblin", owner: "dm", x: 2, y: 4, color: "green" },
+  ];
+  state.compiledScene = compiled("town", [STAIRS, TRAPDOOR]);
+  const crypt = createScene(state, "Crypt");
+  crypt.content!.gridSize = 50;
+  crypt.content!.compiledScene = compiled("crypt");
+  crypt.content!.tokens = [{ id: "skeleton", owner: "dm", x: 5, y: 5, color: "white" }];
+  return state;
+}
+
+describe("map links", () => {
+  it("carries a player's token into the scene showing the target map", () => {
+    const state = town();
+    const trip = travelThroughMapLink(state, "stairs", ["t1"], { uid: "p1", isDM: false });
+
+    expect(trip).toEqual({ label: "Stairs down", tokenNames: ["Aria"], sceneName: "Crypt" });
+    expect(state.tokens.map((token) => token.id)).toEqual(["t2", "goblin"]);
+    const crypt = state.scenes[1]!.content!.tokens;
+    // Target (275, 275) is cell (5,5), where the skeleton stands: next door.
+    expect(crypt.find((token) => token.id === "t1")).toMatchObject({ x: 6, y: 5 });
+  });
+
+  it("moves tokens in place, side by side, when the link stays on this map", () => {
+    const state = town();
+    const trip = travelThroughMapLink(state, "trapdoor", ["t1", "goblin", "t1"], {
+      isDM: true,
+      uid: "dm",
+    });
+
+    expect(trip.sceneName).toBeUndefined();
+    expect(trip.tokenNames).toEqual(["Aria", "DM"]);
+    const cells = state.tokens
+      .filter((token) => token.id !== "t2")
+      .map((token) => `${token.x},${token.y}`);
+    expect(cells).toEqual(["10,0", "11,0"]);
+  });
+
+  it("holds players to their own tokens, standing on a link they may use", () => {
+    const state = town();
+    const player = { uid: "p1", isDM: false };
+
+    expect(() => travelThroughMapLink(state, "trapdoor", ["t1"], player)).toThrow(
+      "Unknown map link: trapdoor",
+    );
+    expect(() => travelThroughMapLink(state, "stairs", ["goblin"], player)).toThrow("own tokens");
+    expect(() => travelThroughMapLink(state, "stairs", ["t1", "t2"], player)).toThrow(
+      "Move onto the Stairs down first",
+    );
+    expect(() => travelThroughMapLink(state, "stairs", ["ghost"], player)).toThrow(
+      "Unknown token: ghost",
+    );
+    // Nothing moved on the way to any of those refusals.
+    expect(state.tokens).toHaveLength(3);
+  });
+
+  it("refuses a link to a map no saved scene shows", () => {
+    const state = town();
+    state.compiledScene!.links = [{ ...STAIRS, target: { documentId: "sewers", x: 0, y: 0 } }];
+
+    expect(() => travelThroughMapLink(state, "stairs", ["t1"], { isDM: true })).toThrow(
+      "No saved scene shows the map the Stairs down leads to",
+    );
+    expect(state.tokens).toHaveLength(3);
+  });
+
+  it("shows players only the links they may use, without where they lead", () => {
+    const scene = compiled("town", [STAIRS, TRAPDOOR]);
+
+    expect(compiledSceneFor(scene, true).links).toEqual([STAIRS, TRAPDOOR]);
+    const seen = compiledSceneFor(scene, false).links!;
+    expect(seen.map((link) => link.id)).toEqual(["stairs"]);
+    expect(seen[0]).not.toHaveProperty("target");
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { Character, CompiledScene, Token } from "@herobyte/shared";
+import { createEmptyRoomState, type RoomState } from "../../model.js";
+import {
+  chargeTokenMove,
+  clearMovementLedger,
+  remainingMovement,
+  setTokenSpeed,
+} from "../movementBudget.js";
+
+// Grid 50 px, 5 ft squares (the room defaults): one square is 5 ft, and a
+// token with no speed of its own walks 30 ft — six squares.
+function token(id: string, x = 0, y = 0): Token {
+  return { id, owner: "alice", x, y, color: "red" };
+}
+
+function combatant(id: string, tokenId: string, initiative: number): Character {
+  return { id, type: "pc", name: id, hp: 10, maxHp: 10, tokenId, initiative };
+}
+
+function fightingRoom(): RoomState {
+  const state = createEmptyRoomState();
+  state.tokens = [token("hero"), token("rival", 0, 5), token("familiar", 0, 8)];
+  state.characters = [combatant("hero-pc", "hero", 18), combatant("rival-pc", "rival", 12)];
+  state.combatActive = true;
+  state.currentTurnCharacterId = "hero-pc";
+  state.movementBudgetEnabled = true;
+  return state;
+}
+
+function hero(state: RoomState): Token {
+  return state.tokens.find((candidate) => candidate.id === "hero")!;
+}
+
+function walk(state: RoomState, id: string, x: number, y: number): boolean {
+  const moving = state.tokens.find((candidate) => candidate.id === id)!;
+  if (!chargeTokenMove(state, moving, { x, y })) return false;
+  moving.x = x;
+  moving.y = y;
+  return true;
+}
+
+describe("the combat movement budget", () => {
+  it("lets a combatant walk its speed on its turn, and no further", () => {
+    const state = fightingRoom();
+
+    expect(walk(state, "hero", 4, 0)).toBe(true);
+    expect(remainingMovement(state, hero(state))).toBe(10);
+    expect(walk(state, "hero", 7, 0)).toBe(false);
+    expect(walk(state, "hero", 6, 0)).toBe(true);
+    expect(remainingMovement(state, hero(state))).toBe(0);
+  });
+
+  it("refills when the combatant's next turn comes round", () => {
+    const state = fightingRoom();
+    walk(state, "hero", 6, 0);
+
+    // What next-turn does, twice: round to the rival and back.
+    state.currentTurnCharacterId = "rival-pc";
+    clearMovementLedger(state);
+    state.currentTurnCharacterId = "hero-pc";
+    clearMovementLedger(state);
+
+    expect(remainingMovement(state, hero(state))).toBe(30);
+  });
+
+  it("holds a combatant still on someone else's turn", () => {
+    const state = fightingRoom();
+    expect(walk(state, "rival", 1, 5)).toBe(false);
+  });
+
+  it("leaves tokens that are not in the fight alone", () => {
+    const state = fightingRoom();
+    expect(remainingMovement(state, state.tokens[2]!)).toBeUndefined();
+    expect(walk(state, "familiar", 20, 8)).toBe(true);
+  });
+
+  it("does nothing while switched off, or outside combat", () => {
+    const off = fightingRoom();
+    off.movementBudgetEnabled = false;
+    expect(walk(off, "hero", 20, 0)).toBe(true);
+
+    const peace = fightingRoom();
+    peace.combatActive = false;
+    expect(walk(peace, "hero", 20, 0)).toBe(true);
+  });
+
+  it("charges the walk round a wall, not the straight line through it", () => {
+    const state = fightingRoom();
+    // A wall between columns 1 and 2 from above the map down to y=150: the
+    // walk from (0,0) to (3,0) goes down to row 3 and back, 7 squares.
+    const scene: CompiledScene = {
+      schemaVersion: 1,
+      sourceDocumentId: "map",
+      sourceRevision: 1,
+      compiledAt: 1,
+      width: 400,
+      height: 400,
+      walls: [
+        { id: "w", x1: 100, y1: -200, x2: 100, y2: 150, blocksMovement: true, blocksVision: true },
+      ],
+      doors: [],
+      lights: [],
+    };
+    state.compiledScene = scene;
+
+    expect(walk(state, "hero", 3, 0)).toBe(false);
+    setTokenSpeed(state, "hero", 35);
+    expect(walk(state, "hero", 3, 0)).toBe(true);
+    expect(remainingMovement(state, hero(state))).toBe(0);
+  });
+});
+
+describe("setTokenSpeed", () => {
+  it("sets a speed, and clears it back to the default with null", () => {
+    const state = fightingRoom();
+
+    expect(setTokenSpeed(state, "hero", 40)).toBe(true);
+    expect(remainingMovement(state, hero(state))).toBe(40);
+    expect(setTokenSpeed(state, "hero", null)).toBe(true);
+    expect("speed" in hero(state)).toBe(false);
+    expect(setTokenSpeed(state, "nobody", 40)).toBe(false);
+  });
+});
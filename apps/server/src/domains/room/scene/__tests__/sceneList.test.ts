@@ -0,0 +1,178 @@
+// The room's saved scenes: switching swaps the whole playing surface, the
+// party follows the table, and players are told only where they stand.
+
+import { describe, expect, it } from "vitest";
+import { MAX_SCENES, type CompiledScene } from "@herobyte/shared";
+import { createEmptyRoomState, toSnapshot, type RoomState } from "../../model.js";
+import { StagingZoneManager } from "../../staging/StagingZoneManager.js";
+import {
+  activateScene,
+  coerceSceneList,
+  createScene,
+  deleteScene,
+  duplicateScene,
+} from "../sceneList.js";
+
+function compiled(sourceDocumentId: string): CompiledScene {
+  return {
+    schemaVersion: 1,
+    sourceDocumentId,
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 80,
+    height: 40,
+    walls: [],
+    doors: [
+      {
+        id: "door-1",
+        x1: 0,
+        y1: 0,
+        x2: 10,
+        y2: 0,
+        state: "closed",
+        blocksMovement: true,
+        blocksVision: true,
+      },
+    ],
+    lights: [],
+  };
+}
+
+/** A room with a town on the table, a player with a linked token, and a DM. */
+function town(): RoomState {
+  const state = createEmptyRoomState();
+  state.players = [
+    { uid: "dm", name: "DM", isDM: true } as never,
+    { uid: "p1", name: "Aria", isDM: false } as never,
+  ];
+  state.characters = [
+    { id: "c1", name: "Aria", type: "pc", hp: 5, maxHp: 5, ownedByPlayerUID: "p1", tokenId: "t1" },
+  ] as never;
+  state.tokens = [
+    { id: "t1", owner: "p1", x: 3, y: 4, color: "red" },
+    { id: "goblin", owner: "dm", x: 9, y: 9, color: "green" },
+  ];
+  state.mapBackground = "town.png";
+  state.compiledScene = compiled("town-map");
+  state.fogEnabled = true;
+  return state;
+}
+
+describe("scene list", () => {
+  it("files what is on the table as the first scene when a second is made", () => {
+    const state = town();
+    const dungeon = createScene(state, "  Dungeon ");
+
+    expect(state.scenes.map((scene) => scene.name)).toEqual(["Scene 1", "Dungeon"]);
+    expect(state.activeSceneId).toBe(state.scenes[0]!.id);
+    expect(state.scenes[0]!.content).toBeUndefined();
+    expect(dungeon.content).toMatchObject({ tokens: [], fogEnabled: false });
+    // Creating does not move the table.
+    expect(state.mapBackground).toBe("town.png");
+  });
+
+  it("swaps the whole surface on activation and restores it on the way back", () => {
+    const state = town();
+    const dungeonId = createScene(state, "Dungeon").id;
+    const townId = state.activeSceneId!;
+    state.compiledScene!.doors[0]!.state = "open";
+
+    expect(activateScene(state, dungeonId)).toBe(true);
+    expect(state.mapBackground).toBeUndefined();
+    expect(state.compiledScene).toBeUndefined();
+    expect(state.fogEnabled).toBe(false);
+    expect(state.tokens.map((token) => token.id)).toEqual(["t1"]);
+
+    expect(activateScene(state, townId)).toBe(true);
+    expect(state.mapBackground).toBe("town.png");
+    expect(state.compiledScene?.doors[0]?.state).toBe("open");
+    expect(state.tokens.find((token) => token.id === "t1")).toMatchObject({ x: 3, y: 4 });
+    expect(state.tokens.map((token) => token.id)).toContain("goblin");
+    expect(activateScene(state, townId)).toBe(false);
+  });
+
+  it("brings the party into the staging zone, and leaves a token the scene already has", () => {
+    const state = town();
+    createScene(state, "Dungeon");
+    const [townScene, dungeon] = state.scenes;
+    dungeon!.content!.playerStagingZone = { x: 500, y: 500, width: 1, height: 1, rotation: 0 };
+
+    activateScene(state, dungeon!.id);
+    const arrived = state.tokens.find((token) => token.id === "t1")!;
+    expect(Math.round(arrived.x)).toBe(500);
+    expect(Math.round(arrived.y)).toBe(500);
+
+    arrived.x = 600;
+    activateScene(state, townScene!.id);
+    activateScene(state, dungeon!.id);
+    expect(state.tokens.find((token) => token.id === "t1")!.x).toBe(600);
+  });
+
+  it("drops per-surface runtime state when the table moves", () => {
+    const state = town();
+    createScene(state, "Dungeon");
+    state.fogRegionRedo = [];
+    state.drawingUndoStacks = { dm: [] };
+
+    activateScene(state, state.scenes[1]!.id);
+
+    expect(state.fogRegionRedo).toBeUndefined();
+    expect(state.drawingUndoStacks).toEqual({});
+    expect(state.selectionState.size).toBe(0);
+  });
+
+  it("duplicates a scene as a deep copy", () => {
+    const state = town();
+    createScene(state, "Dungeon");
+    const copy = duplicateScene(state, state.activeSceneId!, "Town at night");
+
+    copy.content!.tokens[0]!.x = 99;
+    expect(state.tokens[0]!.x).toBe(3);
+    expect(copy.content!.compiledScene).toEqual(state.compiledScene);
+  });
+
+  it("refuses to delete the active scene, an unknown scene, or to grow past the limit", () => {
+    const state = town();
+    const dungeon = createScene(state, "Dungeon");
+
+    expect(() => deleteScene(state, state.activeSceneId!)).toThrow("cannot be deleted");
+    expect(() => activateScene(state, "nowhere")).toThrow("Unknown scene: nowhere");
+    deleteScene(state, dungeon.id);
+    expect(state.scenes).toHaveLength(1);
+
+    for (let i = state.scenes.length; i < MAX_SCENES; i += 1) createScene(state, `Scene ${i}`);
+    expect(() => createScene(state, "One too many")).toThrow("Scene limit reached");
+  });
+
+  it("tells players only where they are", () => {
+    const state = town();
+    createScene(state, "Dungeon");
+
+    expect(toSnapshot(state, true).scenes).toHaveLength(2);
+    expect(toSnapshot(state, false, "p1").scenes).toEqual([
+      { id: state.activeSceneId, name: "Scene 1" },
+    ]);
+    expect(toSnapshot(createEmptyRoomState(), true).scenes).toBeUndefined();
+  });
+
+  it("rebuilds a list from a file, and drops one whose active entry is missing", () => {
+    const staging = new StagingZoneManager(createEmptyRoomState());
+    const raw = [
+      { id: "a", name: "Town" },
+      { id: "b", name: "Dungeon", content: { tokens: "poison", gridSize: -4 } },
+      { id: "b", name: "Duplicate id" },
+      { id: "c", name: "   " },
+    ];
+
+    const { scenes, activeSceneId } = coerceSceneList(raw, "a", staging);
+    expect(activeSceneId).toBe("a");
+    expect(scenes.map((scene) => scene.id)).toEqual(["a", "b"]);
+    expect(scenes[0]!.content).toBeUndefined();
+    expect(scenes[1]!.content).toMatchObject({ tokens: [], gridSize: 50 });
+
+    expect(coerceSceneList(raw, "missing", staging)).toEqual({
+      scenes: [],
+      activeSceneId: undefined,
+    });
+  });
+});
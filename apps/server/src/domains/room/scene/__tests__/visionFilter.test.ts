@@ -1,12 +1,19 @@
 import { describe, expect, it } from "vitest";
-import type { CompiledScene } from "@herobyte/shared";
+import type { CompiledScene, FogRegion } from "@herobyte/shared";
 import {
   computeViewerVisionPolygon,
   getVisionBlockingSegments,
   gridCellToWorldPoint,
 } from "@herobyte/shared";
 import { createEmptyRoomState, type RoomState } from "../../model.js";
-import { createVisionContext, isWorldPointVisible, visionSignature } from "../visionFilter.js";
+import {
+  createVisionContext,
+  isWorldPointTokenPerceived,
+  isWorldPointVisible,
+  litCompiledScene,
+  visibleLightIds,
+  visionSignature,
+} from "../visionFilter.js";
 
 // A 400x400 scene split by a vertical wall at x=200: viewers on the left
 // cannot see the right half.
@@ -322,6 +329,214 @@ describe("the table default vision radius", () => {
   });
 });
 
+// ============================================================================
+// LIGHTING
+// ============================================================================
+// Torches are in document space. The viewer stands at world (75,175); the
+// right-hand room is behind the dividing wall.
+describe("lighting", () => {
+  function litState(ambient: number): RoomState {
+    const state = stateWithFog();
+    state.compiledScene = {
+      ...sceneWithDividingWall(),
+      ambient,
+      lights: [
+        { id: "near", x: 75, y: 350, radius: 40, color: "#fa0", intensity: 1, castsShadows: true },
+        { id: "far", x: 300, y: 175, radius: 60, color: "#fa0", intensity: 1, castsShadows: true },
+      ],
+    };
+    return state;
+  }
+
+  it("blinds a token with no radius of its own in a dark scene, except where it is lit", () => {
+    const context = createVisionContext(litState(0), "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 100, y: 175 })).toBe(false);
+    expect(isWorldPointVisible(context, { x: 75, y: 360 })).toBe(true);
+    expect(isWorldPointVisible(context, { x: 300, y: 175 })).toBe(false);
+  });
+
+  it("keeps a token's own radius working in the dark", () => {
+    const state = litState(0);
+    state.tokens[0]!.visionRadius = 10;
+    const context = createVisionContext(state, "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 150, y: 175 })).toBe(true);
+    expect(isWorldPointVisible(context, { x: 75, y: 290 })).toBe(false);
+  });
+
+  it("names only the lights the recipient's line of sight reaches", () => {
+    const context = createVisionContext(litState(0), "player-1")!;
+
+    expect([...visibleLightIds(context)]).toEqual(["near"]);
+  });
+
+  it("changes nothing in daylight for a token with unlimited sight", () => {
+    const context = createVisionContext(litState(1), "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 100, y: 175 })).toBe(true);
+    expect(visibleLightIds(context).size).toBe(0);
+  });
+});
+
+describe("sense profiles", () => {
+  it("lets tremorsense perceive a token through the wall, and nothing else", () => {
+    const state = stateWithFog();
+    state.tokens[0]!.senses = { tremorsense: 30 }; // 300 px
+    const context = createVisionContext(state, "player-1")!;
+    const behindWall = { x: 325, y: 175 };
+
+    expect(isWorldPointVisible(context, behindWall)).toBe(false);
+    expect(isWorldPointTokenPerceived(context, behindWall)).toBe(true);
+  });
+
+  it("lets blindsight see past a blinding radius, but not through the wall", () => {
+    const state = stateWithFog();
+    state.tokens[0]!.visionRadius = 0;
+    state.tokens[0]!.senses = { blindsight: 10 };
+    const context = createVisionContext(state, "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 150, y: 175 })).toBe(true);
+    expect(isWorldPointVisible(context, { x: 225, y: 175 })).toBe(false);
+  });
+
+  it("is part of the vision signature", () => {
+    const state = stateWithFog();
+    const before = visionSignature(state, "player-1");
+    state.tokens[0]!.senses = { darkvision: 60 };
+    expect(visionSignature(state, "player-1")).not.toBe(before);
+  });
+});
+
+describe("carried lights", () => {
+  // A dark scene; player-2's torchbearer at cell (1,6) = world (75,325), on
+  // player-1's side of the wall. A candle reaches 10 ft = 100 px.
+  function darkStateWithCandle(): RoomState {
+    const state = stateWithFog();
+    state.compiledScene = { ...sceneWithDividingWall(), ambient: 0 };
+    state.tokens.push({
+      id: "torchbearer",
+      owner: "player-2",
+      x: 1,
+      y: 6,
+      color: "gold",
+      light: { kind: "candle", radiusFeet: 10, color: "#ffcc66" },
+    });
+    return state;
+  }
+
+  it("lights the dark around the token carrying it, for everyone in line of sight", () => {
+    const context = createVisionContext(darkStateWithCandle(), "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 75, y: 300 })).toBe(true);
+    expect(isWorldPointVisible(context, { x: 75, y: 200 })).toBe(false);
+    expect([...visibleLightIds(context)]).toEqual(["token:torchbearer"]);
+  });
+
+  it("goes where the token goes", () => {
+    const state = darkStateWithCandle();
+    state.tokens[2]!.x = 6; // behind the wall
+    const context = createVisionContext(state, "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 75, y: 300 })).toBe(false);
+    expect(visibleLightIds(context).size).toBe(0);
+  });
+
+  it("ignores a hidden NPC's light, which would give the NPC away", () => {
+    const state = darkStateWithCandle();
+    state.characters = [
+      {
+        id: "npc",
+        name: "Lurker",
+        type: "npc",
+        hp: 5,
+        maxHp: 5,
+        tokenId: "torchbearer",
+        visibleToPlayers: false,
+      },
+    ] as RoomState["characters"];
+
+    expect(litCompiledScene(state)!.lights).toEqual([]);
+    const context = createVisionContext(state, "player-1")!;
+    expect(isWorldPointVisible(context, { x: 75, y: 300 })).toBe(false);
+  });
+
+  it("keeps the published scene's identity when nobody carries a light", () => {
+    const state = stateWithFog();
+    expect(litCompiledScene(state)).toBe(state.compiledScene);
+  });
+
+  it("moves every recipient's signature when a lit token moves, not only its owner's", () => {
+    const state = darkStateWithCandle();
+    const before = visionSignature(state, "player-1");
+    state.tokens[2]!.y = 5;
+    expect(visionSignature(state, "player-1")).not.toBe(before);
+  });
+});
+
+describe("painted fog regions", () => {
+  function paint(state: RoomState, mode: FogRegion["mode"], x: number, id = mode): void {
+    state.fogRegions.push({
+      id,
+      sceneId: "map",
+      mode,
+      shape: "polygon",
+      points: [
+        { x, y: 100 },
+        { x: x + 100, y: 100 },
+        { x: x + 100, y: 300 },
+        { x, y: 300 },
+      ],
+    });
+  }
+
+  it("shows a revealed area behind the wall, to tokens and to everything else", () => {
+    const state = stateWithFog();
+    paint(state, "reveal", 250);
+    const context = createVisionContext(state, "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 300, y: 200 })).toBe(true);
+    expect(isWorldPointTokenPerceived(context, { x: 300, y: 200 })).toBe(true);
+    expect(isWorldPointVisible(context, { x: 300, y: 350 })).toBe(false);
+  });
+
+  it("hides a concealed area the viewer could otherwise see", () => {
+    const state = stateWithFog();
+    paint(state, "conceal", 50);
+    const context = createVisionContext(state, "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 100, y: 200 })).toBe(false);
+    expect(isWorldPointVisible(context, { x: 100, y: 350 })).toBe(true);
+  });
+
+  it("lets the region painted last win where two overlap", () => {
+    const state = stateWithFog();
+    paint(state, "reveal", 250);
+    paint(state, "conceal", 280);
+    const context = createVisionContext(state, "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 260, y: 200 })).toBe(true);
+    expect(isWorldPointVisible(context, { x: 300, y: 200 })).toBe(false);
+  });
+
+  it("ignores regions painted on another scene", () => {
+    const state = stateWithFog();
+    paint(state, "reveal", 250);
+    state.fogRegions[0]!.sceneId = "cellar";
+    const context = createVisionContext(state, "player-1")!;
+
+    expect(isWorldPointVisible(context, { x: 300, y: 200 })).toBe(false);
+  });
+
+  it("is part of the vision signature", () => {
+    const state = stateWithFog();
+    const before = visionSignature(state, "player-1");
+    paint(state, "reveal", 250);
+
+    expect(visionSignature(state, "player-1")).not.toBe(before);
+  });
+});
+
 describe("visionSignature", () => {
   it("changes when the recipient's own token gains a radius", () => {
     const before = stateWithFog();
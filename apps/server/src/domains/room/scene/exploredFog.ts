@@ -0,0 +1,118 @@
+// Explored-fog memory: each player's union of everywhere their tokens have
+// seen on each published scene (shared exploredFog.ts owns the mask format).
+// The client rasterises and uploads; this module merges, scopes what each
+// recipient gets back, and carries out the DM's reset and reveal.
+//
+// Masks are keyed by the scene's `sourceDocumentId` and checked against its
+// size — not its revision, which a live-bound table bumps on every DM brush
+// stroke and would wipe the party's memory with. A republish under a new id
+// starts a fresh memory; the old one ages out of the per-player cap.
+
+import {
+  MAX_EXPLORED_SCENES_PER_PLAYER,
+  fullExploredBits,
+  maskGeometryFor,
+  mergeExploredBits,
+  sanitizeExploredMask,
+  type ExploredFogAction,
+  type ExploredFogMask,
+  type ExploredFogUpload,
+} from "@herobyte/shared";
+import type { RoomState } from "../model.js";
+
+function onScene(state: RoomState, mask: ExploredFogMask): boolean {
+  const scene = state.compiledScene;
+  return (
+    !!scene &&
+    mask.sceneId === scene.sourceDocumentId &&
+    mask.sceneWidth === scene.width &&
+    mask.sceneHeight === scene.height
+  );
+}
+
+/** Put `mask` first (most recent) and drop the player's least recent scenes past the cap. */
+function store(state: RoomState, mask: ExploredFogMask): void {
+  let kept = 0;
+  state.exploredFog = [mask, ...state.exploredFog].filter((entry, index) => {
+    if (entry.uid !== mask.uid) return true;
+    if (index > 0 && entry.sceneId === mask.sceneId) return false;
+    kept += 1;
+    return kept <= MAX_EXPLORED_SCENES_PER_PLAYER;
+  });
+}
+
+/**
+ * The masks one recipient receives: the published scene's only, the player's
+ * own, or every player's for the DM. Another player's memory is not a secret
+ * the fog protects, but it is nobody else's business either.
+ */
+export function exploredFogFor(
+  state: RoomState,
+  isDM: boolean,
+  recipientUid?: string,
+): ExploredFogMask[] {
+  return state.exploredFog.filter(
+    (mask) => onScene(state, mask) && (isDM || mask.uid === recipientUid),
+  );
+}
+
+/**
+ * OR a player's upload into their memory of the published scene. True when
+ * anything changed.
+ *
+ * A stale upload is dropped rather than refused: one built for a scene that
+ * has since been republished or resized, or on an epoch the DM has since reset
+ * or revealed past, is the normal race of a debounced upload, not an error.
+ */
+export function mergeExploredUpload(
+  state: RoomState,
+  uid: string,
+  upload: ExploredFogUpload,
+): boolean {
+  const mask = sanitizeExploredMask({ ...upload, uid });
+  if (!mask || !onScene(state, mask)) return false;
+  const existing = state.exploredFog.find(
+    (entry) => entry.uid === uid && entry.sceneId === mask.sceneId,
+  );
+  if (!existing || !onScene(state, existing)) {
+    store(state, mask);
+    return true;
+  }
+  if (existing.epoch !== mask.epoch) return false;
+  const bits = mergeExploredBits(existing.bits, mask.bits, mask);
+  if (bits === null || bits === existing.bits) return false;
+  store(state, { ...existing, bits });
+  return true;
+}
+
+/**
+ * The DM's controls over the published scene's memory: `reset` forgets it,
+ * `reveal` marks all of it explored. Either starts a new epoch, so an upload
+ * already in flight from before cannot undo it. Without a `uid` it applies to
+ * every player at the table; the DM's own memory is never the point.
+ */
+export function setExploredFog(state: RoomState, action: ExploredFogAction, uid?: string): void {
+  const scene = state.compiledScene;
+  if (!scene) {
+    throw new Error("No published scene to change explored areas on");
+  }
+  const players = state.players.filter((player) => !player.isDM).map((player) => player.uid);
+  if (uid !== undefined && !players.includes(uid)) {
+    throw new Error(`Unknown player: ${uid}`);
+  }
+  const meta = maskGeometryFor(scene.width, scene.height);
+  for (const target of uid === undefined ? players : [uid]) {
+    const existing = state.exploredFog.find(
+      (entry) => entry.uid === target && entry.sceneId === scene.sourceDocumentId,
+    );
+    store(state, {
+      uid: target,
+      sceneId: scene.sourceDocumentId,
+      sceneWidth: scene.width,
+      sceneHeight: scene.height,
+      ...meta,
+      epoch: (existing?.epoch ?? 0) + 1,
+      bits: action === "reveal" ? fullExploredBits(meta) : "",
+    });
+  }
+}
@@ -0,0 +1,68 @@
+// The DM's painted reveal/conceal regions (shared fogRegions.ts owns the shape
+// and the hit test). This module keeps each scene's stack, with the undo and
+// redo a brush tool needs; visionFilter reads `fogRegionsFor` to apply them.
+//
+// Undo is room-wide rather than per-DM like the drawing stacks: a table has
+// one fog, and a co-DM undoing the other's stroke is the expected behaviour.
+// The redo stack is runtime-only, the same as the drawing ones.
+
+import { randomUUID } from "crypto";
+import { MAX_FOG_REGIONS, type FogRegion, type FogRegionDraft } from "@herobyte/shared";
+import type { RoomState } from "../model.js";
+
+/** The published scene's stack, bottom first, or nothing when none is published. */
+export function fogRegionsFor(state: RoomState): FogRegion[] {
+  const sceneId = state.compiledScene?.sourceDocumentId;
+  if (!sceneId) return [];
+  return state.fogRegions.filter((region) => region.sceneId === sceneId);
+}
+
+function requireSceneId(state: RoomState): string {
+  const sceneId = state.compiledScene?.sourceDocumentId;
+  if (!sceneId) {
+    throw new Error("No published scene to paint fog on");
+  }
+  return sceneId;
+}
+
+/** Paint a region on top of the published scene's stack. Starts a new redo history. */
+export function addFogRegion(state: RoomState, draft: FogRegionDraft): FogRegion {
+  const sceneId = requireSceneId(state);
+  if (fogRegionsFor(state).length >= MAX_FOG_REGIONS) {
+    throw new Error(`Fog region limit reached (${MAX_FOG_REGIONS}); undo or clear some first`);
+  }
+  const region: FogRegion = { ...draft, id: randomUUID(), sceneId };
+  state.fogRegions.push(region);
+  state.fogRegionRedo = [];
+  return region;
+}
+
+/** Take the published scene's topmost region off. False when there is none. */
+export function undoFogRegion(state: RoomState): boolean {
+  const sceneId = state.compiledScene?.sourceDocumentId;
+  let index = state.fogRegions.length - 1;
+  while (index >= 0 && state.fogRegions[index]!.sceneId !== sceneId) index -= 1;
+  if (!sceneId || index < 0) return false;
+  const [region] = state.fogRegions.splice(index, 1);
+  (state.fogRegionRedo ??= []).push(region!);
+  return true;
+}
+
+/**
+ * Put the last undone region back. Only onto the scene it came from: after a
+ * republish under another id, the old redo history is left where it is.
+ */
+export function redoFogRegion(state: RoomState): boolean {
+  const region = state.fogRegionRedo?.at(-1);
+  if (!region || region.sceneId !== state.compiledScene?.sourceDocumentId) return false;
+  state.fogRegionRedo!.pop();
+  state.fogRegions.push(region);
+  return true;
+}
+
+/** Remove every region from the published scene; other scenes keep theirs. */
+export function clearFogRegions(state: RoomState): void {
+  const sceneId = requireSceneId(state);
+  state.fogRegions = state.fogRegions.filter((region) => region.sceneId !== sceneId);
+  state.fogRegionRedo = [];
+}
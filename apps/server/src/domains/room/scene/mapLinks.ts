@@ -0,0 +1,174 @@
+// Taking the stairs: tokens standing on a published map link are moved to
+// where it leads. A link into the same map (a trapdoor to the cellar) just
+// moves them; a link into another map puts them into the saved scene showing
+// that map, where they wait for the DM to switch the table over. Either way
+// the DM is told (see SceneMessageHandler), because a token vanishing off the
+// table mid-session is otherwise indistinguishable from a bug.
+//
+// Links name map DOCUMENTS, not scenes: a map is authored once in Map Studio
+// and may be laid out as a scene in any room, so the room resolves the
+// document to a scene only when the link is used.
+
+import {
+  isTokenOnMapLink,
+  transformScenePoint,
+  type CompiledMapLink,
+  type SceneContent,
+  type SceneObject,
+  type ScenePoint,
+  type SceneTransform,
+  type Token,
+} from "@herobyte/shared";
+import type { RoomState } from "../model.js";
+
+/** Who is using the link: the DM may send anyone, from anywhere. */
+export interface MapLinkActor {
+  uid?: string;
+  isDM: boolean;
+}
+
+/** What happened, for the DMs' notice. */
+export interface MapLinkTrip {
+  label: string;
+  tokenNames: string[];
+  /** Set when the tokens left this scene for another one. */
+  sceneName?: string;
+}
+
+function mapTransformOf(sceneObjects: SceneObject[]): SceneTransform | undefined {
+  return sceneObjects.find((object) => object.type === "map")?.transform;
+}
+
+/**
+ * A player asking about a link they may not use gets the same answer as for
+ * one that does not exist, for the same reason a secret door does.
+ */
+function requireLink(state: RoomState, linkId: string, isDM: boolean): CompiledMapLink {
+  const link = state.compiledScene?.links?.find((candidate) => candidate.id === linkId);
+  if (!link || !link.target || (!link.playersMayUse && !isDM)) {
+    throw new Error(`Unknown map link: ${linkId}`);
+  }
+  return link;
+}
+
+function requireTravellers(
+  state: RoomState,
+  link: CompiledMapLink,
+  tokenIds: string[],
+  actor: MapLinkActor,
+): Token[] {
+  const transform = mapTransformOf(state.sceneObjects);
+  return [...new Set(tokenIds)].map((tokenId) => {
+    const token = state.tokens.find((candidate) => candidate.id === tokenId);
+    if (!token) {
+      throw new Error(`Unknown token: ${tokenId}`);
+    }
+    if (!actor.isDM && token.owner !== actor.uid) {
+      throw new Error("Players can only send their own tokens through a map link");
+    }
+    if (!actor.isDM && !isTokenOnMapLink(link, token, state.gridSize, transform)) {
+      throw new Error(`Move onto the ${link.label} first`);
+    }
+    return token;
+  });
+}
+
+/** Tokens carry no name of their own: the character's, else the owner's. */
+function tokenName(state: RoomState, token: Token): string {
+  const character = state.characters.find((candidate) => candidate.tokenId === token.id);
+  const owner = state.players.find((player) => player.uid === token.owner);
+  return character?.name ?? owner?.name ?? "A token";
+}
+
+/**
+ * Cells around `centre`, nearest first, skipping any already taken, so a party
+ * arriving together lands in a huddle rather than a stack.
+ */
+function arrivalCells(centre: ScenePoint, count: number, taken: Set<string>): ScenePoint[] {
+  const cells: ScenePoint[] = [];
+  for (let ring = 0; cells.length < count; ring += 1) {
+    const candidates: ScenePoint[] = [];
+    for (let dy = -ring; dy <= ring; dy += 1) {
+      for (let dx = -ring; dx <= ring; dx += 1) {
+        if (Math.max(Math.abs(dx), Math.abs(dy)) === ring) {
+          candidates.push({ x: centre.x + dx, y: centre.y + dy });
+        }
+      }
+    }
+    // Nearest first; among equals, the same row first, then rightwards.
+    candidates.sort(
+      (a, b) =>
+        Math.hypot(a.x - centre.x, a.y - centre.y) - Math.hypot(b.x - centre.x, b.y - centre.y) ||
+        Math.abs(a.y - centre.y) - Math.abs(b.y - centre.y) ||
+        b.x - a.x,
+    );
+    for (const cell of candidates) {
+      if (cells.length < count && !taken.has(`${cell.x},${cell.y}`)) cells.push(cell);
+    }
+  }
+  return cells;
+}
+
+/** Move `travellers` to the link target on a surface, in place. */
+function setDown(
+  travellers: Token[],
+  target: ScenePoint,
+  surface: Pick<SceneContent, "tokens" | "gridSize" | "sceneObjects">,
+): void {
+  const transform = mapTransformOf(surface.sceneObjects);
+  const world = transform ? transformScenePoint(transform, target) : target;
+  const centre = {
+    x: Math.floor(world.x / surface.gridSize),
+    y: Math.floor(world.y / surface.gridSize),
+  };
+  const moving = new Set(travellers.map((token) => token.id));
+  const taken = new Set(
+    surface.tokens.filter((token) => !moving.has(token.id)).map((token) => `${token.x},${token.y}`),
+  );
+  arrivalCells(centre, travellers.length, taken).forEach((cell, index) => {
+    travellers[index]!.x = cell.x;
+    travellers[index]!.y = cell.y;
+  });
+}
+
+/**
+ * Send tokens through a link on the table. Throws (nothing moved) when the
+ * link, a token, or the destination is missing, or a player oversteps.
+ */
+export function travelThroughMapLink(
+  state: RoomState,
+  linkId: string,
+  tokenIds: string[],
+  actor: MapLinkActor,
+): MapLinkTrip {
+  const link = requireLink(state, linkId, actor.isDM);
+  const target = link.target!;
+  const travellers = requireTravellers(state, link, tokenIds, actor);
+  const tokenNames = travellers.map((token) => tokenName(state, token));
+
+  if (target.documentId === state.compiledScene?.sourceDocumentId) {
+    setDown(travellers, target, state);
+    return { label: link.label, tokenNames };
+  }
+
+  const destination = state.scenes.find(
+    (scene) =>
+      scene.id !== state.activeSceneId &&
+      (scene.content?.compiledScene?.sourceDocumentId === target.documentId ||
+        scene.content?.liveMapDocumentId === target.documentId),
+  );
+  if (!destination?.content) {
+    throw new Error(`No saved scene shows the map the ${link.label} leads to`);
+  }
+
+  const content = destination.content;
+  const moving = new Set(travellers.map((token) => token.id));
+  // A party token may already be waiting there from an earlier visit (party
+  // tokens follow the table); the one arriving replaces it.
+  content.tokens = content.tokens.filter((token) => !moving.has(token.id));
+  const arrivals = travellers.map((token) => ({ ...token }));
+  setDown(arrivals, target, content);
+  content.tokens.push(...arrivals);
+  state.tokens = state.tokens.filter((token) => !moving.has(token.id));
+  return { label: link.label, tokenNames, sceneName: destination.name };
+}
@@ -3,28 +3,41 @@
 // this check so walls and shut doors stay physically real regardless of which
 // message a client speaks.
 //
+// A move is legal when the token can WALK there: shared `findGridPath` looks
+// for the shortest route round walls, shut doors and gaps too narrow for the
+// token's size, and costs it under the room's diagonal rule. Testing only the
+// straight segment refused a step round a wall's end and accepted a leap of
+// any length; the walk answers both, and its length is what the movement
+// budget (movementBudget.ts) charges.
+//
 // Units: tokens live in GRID-CELL coordinates while compiled geometry lives
-// in map pixels; both positions are converted to world pixels (cell centers)
-// before the segment test, mirroring the client renderer.
+// in map pixels; findGridPath converts through cell centres, mirroring the
+// client renderer.
 
-import { findBlockingSegment, gridCellToWorldPoint, type ScenePoint } from "@herobyte/shared";
+import { findGridPath, type GridPath, type ScenePoint, type Token } from "@herobyte/shared";
 import type { RoomState } from "../model.js";
 
-export function isTokenMoveBlocked(
+/**
+ * The shortest legal walk for `token` from where it stands to `toCell`, or
+ * null when there is none — or none within `maxFeet`, when a budget applies.
+ * With no published scene there is nothing to walk round, and the walk is
+ * the straight count.
+ */
+export function findTokenWalk(
   state: RoomState,
-  fromCell: ScenePoint,
+  token: Pick<Token, "x" | "y" | "size">,
   toCell: ScenePoint,
-): boolean {
-  if (!state.compiledScene) {
-    return false;
-  }
-  const mapTransform = state.sceneObjects.find((object) => object.type === "map")?.transform;
-  return (
-    findBlockingSegment(
-      state.compiledScene,
-      gridCellToWorldPoint(state.gridSize, fromCell),
-      gridCellToWorldPoint(state.gridSize, toCell),
-      mapTransform,
-    ) !== null
-  );
+  maxFeet?: number,
+): GridPath | null {
+  return findGridPath({
+    scene: state.compiledScene,
+    from: { x: token.x, y: token.y },
+    to: toCell,
+    gridSize: state.gridSize,
+    gridSquareSize: state.gridSquareSize,
+    rule: state.diagonalRule,
+    mapTransform: state.sceneObjects.find((object) => object.type === "map")?.transform,
+    size: token.size,
+    maxFeet,
+  });
 }
@@ -0,0 +1,92 @@
+// The combat movement budget: with `movementBudgetEnabled` on and combat
+// running, a player may move a combatant's token only on that combatant's
+// turn, and only as far as its speed allows along the walk findTokenWalk
+// finds. The DM is never charged — a DM move is how the table handles a shove,
+// a Dash, a misclick or a house rule, so it is the override.
+//
+// What each token has spent lives in a ledger for the current turn. The
+// initiative handlers clear it whenever the turn moves (`clearMovementLedger`);
+// it is also stamped with the character whose turn it was, so a turn that
+// changes by some other path still cannot carry one combatant's spend into
+// another's turn. In group and side modes (shared combatModes.ts) every
+// combatant sharing the turn may move, each against its own speed.
+
+import {
+  coerceTokenSpeed,
+  sharesTurn,
+  tokenSpeedFeet,
+  type ScenePoint,
+  type Token,
+} from "@herobyte/shared";
+import type { RoomState } from "../model.js";
+import { findTokenWalk } from "./movementBlocking.js";
+
+/** Feet each token has walked during the turn of `characterId`. */
+export interface MovementLedger {
+  characterId: string;
+  spentFeet: Record<string, number>;
+}
+
+function ledgerFor(state: RoomState, characterId: string): MovementLedger {
+  if (state.movementLedger?.characterId !== characterId) {
+    state.movementLedger = { characterId, spentFeet: {} };
+  }
+  return state.movementLedger;
+}
+
+/** Start the turn's spend afresh. Called by every handler that moves the turn. */
+export function clearMovementLedger(state: RoomState): void {
+  delete state.movementLedger;
+}
+
+/**
+ * How many feet `token` may still walk, or undefined when no budget applies:
+ * the budget is off, combat is not running, nobody holds the turn, or the
+ * token is not a combatant (no character with an initiative is linked to it).
+ * A combatant whose turn it is NOT has nothing left to spend.
+ */
+export function remainingMovement(state: RoomState, token: Token): number | undefined {
+  const turn = state.currentTurnCharacterId;
+  if (!state.movementBudgetEnabled || !state.combatActive || !turn) return undefined;
+  const combatant = state.characters.find(
+    (character) => character.tokenId === token.id && character.initiative !== undefined,
+  );
+  if (!combatant) return undefined;
+  const holder = state.characters.find((character) => character.id === turn);
+  if (!holder || !sharesTurn(combatant, holder, state.combatMode)) return 0;
+  const spent = ledgerFor(state, turn).spentFeet[token.id] ?? 0;
+  return Math.max(0, tokenSpeedFeet(token) - spent);
+}
+
+/**
+ * Check a player's move and charge it: true when `token` can walk to `toCell`
+ * within what it has left, with the walk's length added to its spend. The
+ * caller applies the new position.
+ */
+export function chargeTokenMove(state: RoomState, token: Token, toCell: ScenePoint): boolean {
+  const remaining = remainingMovement(state, token);
+  const walk = findTokenWalk(state, token, toCell, remaining);
+  if (!walk) return false;
+  if (remaining !== undefined && state.currentTurnCharacterId) {
+    const ledger = ledgerFor(state, state.currentTurnCharacterId);
+    ledger.spentFeet[token.id] = (ledger.spentFeet[token.id] ?? 0) + walk.feet;
+  }
+  return true;
+}
+
+/**
+ * Set a token's walking speed in feet, or clear it back to the default (null).
+ * DM ONLY, for the reason `Token.speed` gives. Coerced, so "default" is always
+ * spelled by an absent field.
+ */
+export function setTokenSpeed(state: RoomState, tokenId: string, speed: number | null): boolean {
+  const token = state.tokens.find((candidate) => candidate.id === tokenId);
+  if (!token) return false;
+  const coerced = coerceTokenSpeed(speed);
+  if (coerced === undefined) {
+    delete token.speed;
+  } else {
+    token.speed = coerced;
+  }
+  return true;
+}
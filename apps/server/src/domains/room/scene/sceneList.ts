@@ -0,0 +1,249 @@
+// The room's saved scenes (shared scenes.ts owns the shapes). The active
+// scene's content IS the room's live state, so nothing else on the server has
+// to know scenes exist: switching stores the outgoing surface into its list
+// entry and lifts the incoming one out, field by field.
+//
+// A room starts without a list. The first create or duplicate files whatever
+// is on the table as the first scene, so a room that predates scenes loses
+// nothing by growing some.
+
+import { randomUUID } from "crypto";
+import {
+  MAX_SCENES,
+  coerceExploredFog,
+  coerceFogRegions,
+  coerceTokenLights,
+  coerceTokenSenses,
+  coerceTokenSpeeds,
+  coerceTokenVisionRadii,
+  sanitizeSceneName,
+  type SavedScene,
+  type SceneContent,
+  type SceneSummary,
+  type Token,
+} from "@herobyte/shared";
+import type { RoomState } from "../model.js";
+import { createSelectionMap } from "../selectionSerialization.js";
+import { StagingZoneManager } from "../staging/StagingZoneManager.js";
+
+/** The scene list as one recipient may see it: players get the active entry only. */
+export function sceneSummariesFor(state: RoomState, isDM: boolean): SceneSummary[] {
+  return state.scenes
+    .filter((scene) => isDM || scene.id === state.activeSceneId)
+    .map(({ id, name }) => ({ id, name }));
+}
+
+/** The live fields the active scene owns, by reference. */
+function captureScene(state: RoomState): SceneContent {
+  return {
+    tokens: state.tokens,
+    props: state.props,
+    drawings: state.drawings,
+    sceneObjects: state.sceneObjects,
+    mapBackground: state.mapBackground,
+    gridSize: state.gridSize,
+    playerStagingZone: state.playerStagingZone,
+    compiledScene: state.compiledScene,
+    mapTerrain: state.mapTerrain,
+    mapElements: state.mapElements,
+    liveMapDocumentId: state.liveMapDocumentId,
+    fogEnabled: state.fogEnabled,
+    exploredFog: state.exploredFog,
+    fogRegions: state.fogRegions,
+  };
+}
+
+/**
+ * Lift a scene onto the table. Every field is written, absent ones included:
+ * a scene with no map must clear the last one's, not inherit it.
+ */
+function applyScene(state: RoomState, content: SceneContent): void {
+  state.tokens = content.tokens;
+  state.props = content.props;
+  state.drawings = content.drawings;
+  state.sceneObjects = content.sceneObjects;
+  state.mapBackground = content.mapBackground;
+  state.gridSize = content.gridSize;
+  state.playerStagingZone = content.playerStagingZone;
+  state.compiledScene = content.compiledScene;
+  state.mapTerrain = content.mapTerrain;
+  state.mapElements = content.mapElements;
+  state.liveMapDocumentId = content.liveMapDocumentId;
+  state.fogEnabled = content.fogEnabled;
+  state.exploredFog = content.exploredFog;
+  state.fogRegions = content.fogRegions;
+}
+
+/** A blank surface. The grid is the table's habit, so it carries over. */
+function emptyScene(state: RoomState): SceneContent {
+  return {
+    tokens: [],
+    props: [],
+    drawings: [],
+    sceneObjects: [],
+    gridSize: state.gridSize,
+    fogEnabled: false,
+    exploredFog: [],
+    fogRegions: [],
+  };
+}
+
+function requireScene(state: RoomState, sceneId: string): SavedScene {
+  const scene = state.scenes.find((candidate) => candidate.id === sceneId);
+  if (!scene) {
+    throw new Error(`Unknown scene: ${sceneId}`);
+  }
+  return scene;
+}
+
+function requireName(name: string): string {
+  const sanitized = sanitizeSceneName(name);
+  if (!sanitized) {
+    throw new Error("Scene name is required");
+  }
+  return sanitized;
+}
+
+/** File what is on the table as the first scene, once, when a second is made. */
+function ensureSceneList(state: RoomState): void {
+  if (state.scenes.length > 0) return;
+  const scene: SavedScene = { id: randomUUID(), name: "Scene 1" };
+  state.scenes.push(scene);
+  state.activeSceneId = scene.id;
+}
+
+function addScene(state: RoomState, name: string, content: SceneContent): SavedScene {
+  ensureSceneList(state);
+  if (state.scenes.length >= MAX_SCENES) {
+    throw new Error(`Scene limit reached (${MAX_SCENES}); delete one first`);
+  }
+  const scene: SavedScene = { id: randomUUID(), name: requireName(name), content };
+  state.scenes.push(scene);
+  return scene;
+}
+
+/** Add an empty scene to the list. The table stays where it is. */
+export function createScene(state: RoomState, name: string): SavedScene {
+  return addScene(state, name, emptyScene(state));
+}
+
+/**
+ * Copy a scene — the active one included — into a new, inactive entry. A deep
+ * copy: the two share ids (so a character's token link holds in either) but
+ * never objects, or moving a token in one would move it in both.
+ */
+export function duplicateScene(state: RoomState, sceneId: string, name: string): SavedScene {
+  const source = requireScene(state, sceneId);
+  const content = source.id === state.activeSceneId ? captureScene(state) : source.content;
+  return addScene(state, name, structuredClone(content ?? emptyScene(state)));
+}
+
+/**
+ * Put a saved scene on the table. The party travels with it: a player's
+ * linked token that the incoming scene does not already hold is carried over
+ * into its staging zone, so nobody arrives in the dungeon without a body.
+ * A token the scene does hold stays where the party left it last time.
+ *
+ * Returns false when the scene is already active.
+ */
+export function activateScene(state: RoomState, sceneId: string): boolean {
+  const incoming = requireScene(state, sceneId);
+  if (incoming.id === state.activeSceneId) return false;
+
+  const outgoing = state.scenes.find((scene) => scene.id === state.activeSceneId);
+  const departing = captureScene(state);
+  if (outgoing) outgoing.content = departing;
+
+  applyScene(state, incoming.content ?? emptyScene(state));
+  incoming.content = undefined;
+  state.activeSceneId = incoming.id;
+  // Per-surface runtime state: a selection, an undo step or a half-spent move
+  // on the map the table just left means nothing on this one.
+  state.pointers = [];
+  state.selectionState = createSelectionMap();
+  state.drawingUndoStacks = {};
+  state.drawingRedoStacks = {};
+  state.fogRegionRedo = undefined;
+  state.movementLedger = undefined;
+
+  const staging = new StagingZoneManager(state);
+  for (const token of partyTokens(state, departing)) {
+    if (state.tokens.some((candidate) => candidate.id === token.id)) continue;
+    state.tokens.push({ ...token, ...staging.getSpawnPosition() });
+  }
+  return true;
+}
+
+/** Non-DM players' tokens that a character is linked to. */
+function partyTokens(state: RoomState, content: SceneContent): Token[] {
+  const dms = new Set(state.players.filter((player) => player.isDM).map((player) => player.uid));
+  const linked = new Set(
+    state.characters
+      .filter((character) => character.ownedByPlayerUID && !dms.has(character.ownedByPlayerUID))
+      .map((character) => character.tokenId),
+  );
+  return content.tokens.filter((token) => linked.has(token.id));
+}
+
+/** Remove a saved scene. The active one cannot go: the table has to stand somewhere. */
+export function deleteScene(state: RoomState, sceneId: string): void {
+  const scene = requireScene(state, sceneId);
+  if (scene.id === state.activeSceneId) {
+    throw new Error("The active scene cannot be deleted; activate another scene first");
+  }
+  state.scenes = state.scenes.filter((candidate) => candidate !== scene);
+}
+
+/**
+ * Rebuild a scene list read from a state or session file. Each saved scene's
+ * content goes through the same coercers its live counterpart does on load —
+ * it becomes live state the moment the DM activates it. A list whose active
+ * entry is missing is dropped whole rather than guessed at.
+ */
+export function coerceSceneList(
+  rawScenes: unknown,
+  rawActiveSceneId: unknown,
+  stagingManager: StagingZoneManager,
+): Pick<RoomState, "scenes" | "activeSceneId"> {
+  const scenes: SavedScene[] = [];
+  const seen = new Set<string>();
+  for (const raw of Array.isArray(rawScenes) ? rawScenes.slice(0, MAX_SCENES) : []) {
+    const name = sanitizeSceneName(raw?.name);
+    if (typeof raw?.id !== "string" || !raw.id || seen.has(raw.id) || !name) continue;
+    seen.add(raw.id);
+    const active = raw.id === rawActiveSceneId;
+    scenes.push({
+      id: raw.id,
+      name,
+      ...(active ? {} : { content: coerceSceneContent(raw.content, stagingManager) }),
+    });
+  }
+  if (typeof rawActiveSceneId !== "string" || !seen.has(rawActiveSceneId)) {
+    return { scenes: [], activeSceneId: undefined };
+  }
+  return { scenes, activeSceneId: rawActiveSceneId };
+}
+
+function coerceSceneContent(raw: unknown, stagingManager: StagingZoneManager): SceneContent {
+  const content = (raw && typeof raw === "object" ? raw : {}) as Partial<SceneContent>;
+  const list = <T>(value: T[] | undefined): T[] => (Array.isArray(value) ? value : []);
+  return {
+    tokens: coerceTokenSpeeds(
+      coerceTokenLights(coerceTokenSenses(coerceTokenVisionRadii(list(content.tokens)))),
+    ),
+    props: list(content.props),
+    drawings: list(content.drawings),
+    sceneObjects: list(content.sceneObjects),
+    mapBackground: typeof content.mapBackground === "string" ? content.mapBackground : undefined,
+    gridSize: typeof content.gridSize === "number" && content.gridSize > 0 ? content.gridSize : 50,
+    playerStagingZone: stagingManager.sanitize(content.playerStagingZone),
+    compiledScene: content.compiledScene ?? undefined,
+    mapTerrain: content.mapTerrain ?? undefined,
+    mapElements: content.mapElements ?? undefined,
+    liveMapDocumentId:
+      typeof content.liveMapDocumentId === "string" ? content.liveMapDocumentId : undefined,
+    fogEnabled: content.fogEnabled === true,
+    exploredFog: coerceExploredFog(content.exploredFog),
+    fogRegions: coerceFogRegions(content.fogRegions),
+  };
+}
@@ -7,26 +7,127 @@
 // world positions are inverse-transformed through the live map transform,
 // exactly like the client fog. Fog only covers the published map rect, so
 // anything outside it — staging zones, off-map tokens — is never filtered.
+//
+// Lighting (shared lighting.ts) rides on top: a viewer also sees whatever is
+// LIT inside its line of sight, and in a dark scene its own radius is all it
+// has besides. The lit areas are the same polygons the client fog punches out.
+//
+// Special senses (shared senses.ts) ride on the same vision: darkvision,
+// truesight and blindsight widen what is VISIBLE, while tremorsense only
+// widens which TOKENS are perceived — ask `isWorldPointTokenPerceived` for a
+// token and `isWorldPointVisible` for everything else.
+//
+// Carried lights (shared tokenLights.ts) are the one lighting input that is
+// not on the compiled scene: `litCompiledScene` adds them where the tokens
+// stand right now, and everything downstream — lit areas, `visibleLightIds`,
+// the player's compiled-scene lights — reads that scene instead.
+//
+// The DM's painted fog regions (shared fogRegions.ts) overrule all of the
+// above inside the scene rect: where the topmost region reveals, the point is
+// visible to everyone; where it conceals, to no one, whatever sight says.
 
 import {
-  computeViewerVisionPolygon,
+  compileTokenLights,
+  computeLitViewerVision,
+  computeSceneLighting,
   effectiveVisionRadiusFeet,
+  fogRegionsKey,
   getVisionBlockingSegments,
   gridCellToWorldPoint,
   inverseTransformScenePoint,
-  pointInPolygon,
+  isPointLitVisible,
+  isPointTokenPerceived,
+  manualFogAt,
+  senseProfileKey,
+  tokenLightsKey,
+  withTokenLights,
+  type BlockingSegment,
   type CompiledScene,
+  type FogRegion,
+  type LitViewerVision,
+  type SceneLighting,
   type ScenePoint,
+  type SceneTransform,
 } from "@herobyte/shared";
 import type { RoomState } from "../model.js";
+import { fogRegionsFor } from "./fogRegions.js";
 
 export interface VisionContext {
-  /** Vision polygons for the recipient's own tokens, in document space. */
+  /** Own-sight polygons for the recipient's own tokens, in document space. */
   polygons: ScenePoint[][];
+  /** The same viewers with lighting applied — what `isWorldPointVisible` reads. */
+  visions: LitViewerVision[];
   scene: CompiledScene;
+  /** The published scene's painted regions, bottom first. */
+  regions: FogRegion[];
   toDocSpace: (point: ScenePoint) => ScenePoint;
 }
 
+// Lit areas depend on the scene, its door states and the carried lights, never
+// on the recipient, so one broadcast pass must not sweep every light once per
+// player. Keyed on the AUTHORED scene object (a republish replaces it; the lit
+// scene is rebuilt per call) plus a string of everything else: door states
+// flip in place, and carried lights move with their tokens.
+const lightingCache = new WeakMap<CompiledScene, { key: string; lighting: SceneLighting }>();
+
+function sceneLightingFor(
+  state: RoomState,
+  scene: CompiledScene,
+  segments: readonly BlockingSegment[],
+): SceneLighting {
+  const key = [
+    scene.doors.map((door) => door.state).join(","),
+    tokenLightsKey(carriedLightTokens(state)),
+    state.gridSize,
+    state.gridSquareSize,
+    transformKeyOf(mapTransformOf(state)),
+  ].join("|");
+  const cached = lightingCache.get(scene);
+  if (cached && cached.key === key) return cached.lighting;
+  const lighting = computeSceneLighting(litCompiledScene(state) ?? scene, segments);
+  lightingCache.set(scene, { key, lighting });
+  return lighting;
+}
+
+/**
+ * Tokens whose carried light counts. A hidden NPC's torch does not: its glow
+ * moving through a dark corridor would announce the NPC the DM is hiding.
+ */
+function carriedLightTokens(state: RoomState): RoomState["tokens"] {
+  const hidden = getHiddenNpcTokenIds(state);
+  return state.tokens.filter((token) => token.light && !hidden.has(token.id));
+}
+
+/**
+ * The published scene with every carried light added where its token stands,
+ * or null when nothing is published. The same object when no token carries a
+ * light. This is the scene lighting reads, and the one whose lights a
+ * player's payload is filtered from (model.ts), so a torch around a corner
+ * reaches a player's fog exactly when its glow reaches their line of sight.
+ */
+export function litCompiledScene(state: RoomState): CompiledScene | null {
+  const scene = state.compiledScene;
+  if (!scene) return null;
+  return withTokenLights(
+    scene,
+    compileTokenLights(carriedLightTokens(state), {
+      gridSize: state.gridSize,
+      gridSquareSize: state.gridSquareSize,
+      mapTransform: mapTransformOf(state),
+    }),
+  );
+}
+
+function mapTransformOf(state: RoomState): SceneTransform | undefined {
+  return state.sceneObjects.find((object) => object.type === "map")?.transform;
+}
+
+function transformKeyOf(transform: SceneTransform | undefined): string {
+  return transform
+    ? `${transform.x},${transform.y},${transform.scaleX},${transform.scaleY},${transform.rotation}`
+    : "";
+}
+
 /**
  * Build the recipient's vision for one broadcast pass, or null when no
  * filtering applies (fog off, or nothing published). DM recipients should
@@ -38,42 +139,86 @@ export function createVisionContext(state: RoomState, recipientUid: string): Vis
     return null;
   }
 
-  const mapTransform = state.sceneObjects.find((object) => object.type === "map")?.transform;
+  const mapTransform = mapTransformOf(state);
   const toDocSpace = (point: ScenePoint): ScenePoint =>
     mapTransform ? inverseTransformScenePoint(mapTransform, point) : point;
 
   const segments = getVisionBlockingSegments(scene);
   const bounds = { width: scene.width, height: scene.height };
+  const lighting = sceneLightingFor(state, scene, segments);
   // Tokens live in grid cells; vision origins are their world-pixel centers.
   // `computeViewerVisionPolygon` — not `computeVisionPolygon` — is what keeps
   // this identical to the client's fog: it owns BOTH the world->document
   // conversion of the origin and the feet->document conversion of the radius,
   // so neither half of the app can spell that chain its own way.
-  const polygons = state.tokens
+  // `computeLitViewerVision` wraps it and adds what the lights reveal.
+  const visions = state.tokens
     .filter((token) => token.owner === recipientUid)
     .map((token) =>
-      computeViewerVisionPolygon({
-        origin: gridCellToWorldPoint(state.gridSize, { x: token.x, y: token.y }),
-        radiusFeet: effectiveVisionRadiusFeet(token.visionRadius, state.defaultVisionRadius),
-        segments,
-        bounds,
-        gridSize: state.gridSize,
-        gridSquareSize: state.gridSquareSize,
-        mapTransform,
-      }),
+      computeLitViewerVision(
+        {
+          origin: gridCellToWorldPoint(state.gridSize, { x: token.x, y: token.y }),
+          radiusFeet: effectiveVisionRadiusFeet(token.visionRadius, state.defaultVisionRadius),
+          segments,
+          bounds,
+          gridSize: state.gridSize,
+          gridSquareSize: state.gridSquareSize,
+          mapTransform,
+        },
+        lighting,
+        token.senses,
+      ),
     );
 
-  return { polygons, scene, toDocSpace };
+  return {
+    polygons: visions.map((vision) => vision.sight),
+    visions,
+    scene,
+    regions: fogRegionsFor(state),
+    toDocSpace,
+  };
 }
 
 export function isWorldPointVisible(context: VisionContext, point: ScenePoint): boolean {
   const doc = context.toDocSpace(point);
   // Fog only covers the published map rect; the void outside it is never
   // hidden (staging zones live there).
-  if (doc.x < 0 || doc.y < 0 || doc.x > context.scene.width || doc.y > context.scene.height) {
-    return true;
+  if (outsideScene(context, doc)) return true;
+  const painted = manualFogAt(context.regions, doc);
+  if (painted) return painted === "reveal";
+  return context.visions.some((vision) => isPointLitVisible(vision, doc));
+}
+
+/**
+ * `isWorldPointVisible` for a TOKEN standing at this point: the same answer,
+ * plus whatever the recipient's tremorsense feels through walls and darkness.
+ * Tokens only — a drawing or a prop inside a tremorsense disc stays hidden.
+ */
+export function isWorldPointTokenPerceived(context: VisionContext, point: ScenePoint): boolean {
+  const doc = context.toDocSpace(point);
+  if (outsideScene(context, doc)) return true;
+  // A conceal beats tremorsense too: the DM hid that area on purpose.
+  const painted = manualFogAt(context.regions, doc);
+  if (painted) return painted === "reveal";
+  return context.visions.some((vision) => isPointTokenPerceived(vision, doc));
+}
+
+function outsideScene(context: VisionContext, doc: ScenePoint): boolean {
+  return doc.x < 0 || doc.y < 0 || doc.x > context.scene.width || doc.y > context.scene.height;
+}
+
+/**
+ * Ids of the lights this recipient's line of sight reaches into — the only
+ * lights a player payload may carry (see compiledSceneView). A light whose
+ * glow never touches anything the player could see is a map of a room they
+ * have not found.
+ */
+export function visibleLightIds(context: VisionContext): Set<string> {
+  const ids = new Set<string>();
+  for (const vision of context.visions) {
+    for (const area of vision.lit) ids.add(area.lightId);
   }
-  return context.polygons.some((polygon) => pointInPolygon(doc, polygon));
+  return ids;
 }
 
 /** Token ids of NPCs the DM has hidden — never sent to non-DM clients on any channel. */
@@ -90,8 +235,8 @@ export function getHiddenNpcTokenIds(state: RoomState): Set<string> {
 /**
  * Cache key covering everything a recipient's vision polygons depend on:
  * fog flag, published scene identity, grid scale, feet per square, door
- * states, the recipient's own token cells AND their sight radii, and the live
- * map transform.
+ * states, the recipient's own token cells, sight radii AND sense profiles,
+ * every carried light's cell and range, and the live map transform.
  *
  * Every input the polygon reads must appear here or the router serves a stale
  * one. S7 added two: `visionRadius` because setting one otherwise does nothing
@@ -100,19 +245,19 @@ export function getHiddenNpcTokenIds(state: RoomState): Set<string> {
  * feet-per-square live, with no republish. The room default is here for the
  * first of those reasons and more sharply: it is resolved at READ time for
  * every token that has no radius of its own, so a DM setting it changes what
- * every such player may see while nothing about any token has changed.
+ * every such player may see while nothing about any token has changed. The
+ * painted fog regions are the same again: a DM stroke moves no token at all.
  */
 export function visionSignature(state: RoomState, recipientUid: string): string {
   const scene = state.compiledScene;
   const doors = scene ? scene.doors.map((door) => door.state).join(",") : "";
   const ownTokens = state.tokens
     .filter((token) => token.owner === recipientUid)
-    .map((token) => `${token.x}:${token.y}:${token.visionRadius ?? ""}`)
+    .map(
+      (token) =>
+        `${token.x}:${token.y}:${token.visionRadius ?? ""}:${senseProfileKey(token.senses)}`,
+    )
     .join(";");
-  const transform = state.sceneObjects.find((object) => object.type === "map")?.transform;
-  const transformKey = transform
-    ? `${transform.x},${transform.y},${transform.scaleX},${transform.scaleY},${transform.rotation}`
-    : "";
   return [
     state.fogEnabled ? 1 : 0,
     scene?.compiledAt ?? 0,
@@ -122,6 +267,10 @@ export function visionSignature(state: RoomState, recipientUid: string): string
     doors,
     ownTokens,
     state.defaultVisionRadius ?? "",
-    transformKey,
+    // Anyone's torch, not just the recipient's: a light moving across the
+    // map changes what every viewer with a line of sight to it can see.
+    tokenLightsKey(carriedLightTokens(state)),
+    transformKeyOf(mapTransformOf(state)),
+    fogRegionsKey(fogRegionsFor(state)),
   ].join("|");
 }
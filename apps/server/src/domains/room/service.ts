@@ -4,7 +4,7 @@
 // Handles room state management, persistence, and broadcasting
 
 import type { WebSocket } from "ws";
-import type { RoomSnapshot, PlayerStagingZone } from "@herobyte/shared";
+import type { RoomSnapshot, PlayerStagingZone, SavedScene } from "@herobyte/shared";
 import type { RoomState } from "./model.js";
 import { createEmptyRoomState, toSnapshot } from "./model.js";
 import { StagingZoneManager } from "./staging/StagingZoneManager.js";
@@ -128,9 +128,10 @@ export class RoomService {
 
   /**
    * Load a snapshot from client (from saved session file)
-   * Merges loaded data with currently connected players
+   * Merges loaded data with currently connected players. `scenes` is the
+   * session file's scene list; the snapshot itself is the active scene.
    */
-  loadSnapshot(snapshot: RoomSnapshot): void {
+  loadSnapshot(snapshot: RoomSnapshot, scenes?: SavedScene[]): void {
     // Count before merging for logging
     const currentPlayerUIDs = new Set(this.state.players.map((p) => p.uid));
     const currentPlayerCharacters = this.state.characters.filter(
@@ -145,6 +146,7 @@ export class RoomService {
       snapshot,
       this.state,
       this.stagingManager,
+      scenes,
     );
     Object.assign(this.state, mergedState);
     this.store.set(this.roomId, this.state);
@@ -3,16 +3,31 @@
 // ============================================================================
 // Loads and merges saved game sessions with current server state
 
-import type { Drawing, Player, RoomSnapshot } from "@herobyte/shared";
+import type { Drawing, Player, RoomSnapshot, SavedScene } from "@herobyte/shared";
 import {
+  coerceBestiary,
+  coerceCharacterMacros,
+  coerceDiceMacros,
+  coerceCombatLog,
+  coerceCombatRound,
+  coerceInitiativeOrder,
   coerceDefaultVisionRadius,
+  coerceCombatMode,
+  coerceTurnTimer,
   coerceDiagonalRule,
+  coerceExploredFog,
+  coerceFogRegions,
   coerceMonsterHpDisplay,
+  coerceTokenLights,
+  coerceTokenSenses,
+  coerceTokenSpeeds,
   coerceTokenVisionRadii,
   normalizeHPValues,
+  MACRO_LIMITS,
 } from "@herobyte/shared";
 import type { RoomState } from "../model.js";
 import { createSelectionMap } from "../model.js";
+import { coerceSceneList } from "../scene/sceneList.js";
 import type { StagingZoneManager } from "../staging/StagingZoneManager.js";
 
 /**
@@ -35,12 +50,14 @@ export class SnapshotLoader {
    * @param snapshot - Saved game session snapshot
    * @param currentState - Current room state
    * @param stagingManager - Staging zone manager for sanitization
+   * @param scenes - The session file's scene list (SessionFile.scenes), if any
    * @returns New merged room state
    */
   mergeSnapshot(
     snapshot: RoomSnapshot,
     currentState: RoomState,
     stagingManager: StagingZoneManager,
+    scenes?: SavedScene[],
   ): RoomState {
     // Merge players: Keep currently connected players, update their data if they exist in snapshot
     const loadedPlayers = (snapshot.players ?? []).map((player) => ({
@@ -79,6 +96,7 @@ export class SnapshotLoader {
           type: character.type === "npc" ? ("npc" as const) : ("pc" as const),
           tokenId: character.tokenId ?? null,
           tokenImage: character.tokenImage ?? null,
+          macros: coerceCharacterMacros(character.macros),
         };
       },
     );
@@ -114,8 +132,14 @@ export class SnapshotLoader {
     // geometry. The live half is already ours, so it keeps its identity.
     const mergedTokens = [
       ...currentPlayerTokens,
-      ...coerceTokenVisionRadii(
-        (snapshot.tokens ?? []).filter((token) => !preservedTokenIds.has(token.id)),
+      ...coerceTokenSpeeds(
+        coerceTokenLights(
+          coerceTokenSenses(
+            coerceTokenVisionRadii(
+              (snapshot.tokens ?? []).filter((token) => !preservedTokenIds.has(token.id)),
+            ),
+          ),
+        ),
       ),
     ];
 
@@ -160,6 +184,13 @@ export class SnapshotLoader {
       playerStagingZone: stagingManager.sanitize(snapshot.playerStagingZone),
       combatActive: snapshot.combatActive ?? false,
       currentTurnCharacterId: snapshot.currentTurnCharacterId ?? undefined,
+      combatRound: coerceCombatRound(snapshot.combatRound),
+      combatLog: coerceCombatLog(snapshot.combatLog),
+      initiativeOrder: coerceInitiativeOrder(snapshot.initiativeOrder),
+      combatMode: coerceCombatMode(snapshot.combatMode),
+      turnTimer: coerceTurnTimer(snapshot.turnTimer),
+      // The clock belonged to the turn that was running before the load.
+      turnDeadline: undefined,
       compiledScene: snapshot.compiledScene ?? undefined,
       mapTerrain: snapshot.mapTerrain ?? undefined,
       // These two were ABSENT from this literal, which meant Object.assign in
@@ -188,9 +219,26 @@ export class SnapshotLoader {
       // ADMITS writes (PropDispatcher checks it): a truthy string must not
       // open the prop tools to the table. Absent (older files) reads as off.
       playerPropsEnabled: snapshot.playerPropsEnabled === true,
+      movementBudgetEnabled: snapshot.movementBudgetEnabled === true,
       // Same clamp, for the least trustworthy source there is. Absent reads as
       // no default, which is how every session file written before now loads.
       defaultVisionRadius: coerceDefaultVisionRadius(snapshot.defaultVisionRadius),
+      // Authoritative like the map: a session file carries every remembered
+      // scene (flattenForFile), and one without any restores a table where
+      // nobody has explored yet rather than keeping this room's memory of a
+      // different map.
+      exploredFog: coerceExploredFog(snapshot.exploredFog),
+      fogRegions: coerceFogRegions(snapshot.fogRegions),
+      // Authoritative too: a file with no scene list restores a room without
+      // one, not this room's scenes wrapped around a different table.
+      ...coerceSceneList(scenes, snapshot.activeSceneId, stagingManager),
+      // NOT authoritative, unlike everything above: a bestiary is the DM's
+      // library rather than part of any one table, so a file written before
+      // templates existed keeps the room's own instead of wiping it.
+      bestiary:
+        snapshot.bestiary === undefined ? currentState.bestiary : coerceBestiary(snapshot.bestiary),
+      // Authoritative again: these are this table's rolls, set for its party.
+      tableMacros: coerceDiceMacros(snapshot.tableMacros, MACRO_LIMITS.TABLE_MAX),
     };
   }
 }
@@ -1229,6 +1229,51 @@ describe("SnapshotLoader - Characterization Tests", () => {
       expect(state.liveMapDocumentId).toBeUndefined();
     });
 
+    it("restores a file's bestiary, and keeps the room's when the file predates one", () => {
+      const wolf = {
+        id: "wolf",
+        name: "Wolf",
+        ac: 13,
+        hpFormula: "2d8+2",
+        initiativeModifier: 2,
+        attacks: [],
+      };
+      roomService.loadSnapshot(sessionSnapshot({ bestiary: [wolf, { ...wolf, hpFormula: "?" }] }));
+      expect(roomService.getState().bestiary).toEqual([wolf]);
+
+      roomService.loadSnapshot(sessionSnapshot());
+      expect(roomService.getState().bestiary).toEqual([wolf]);
+    });
+
+    it("restores the file's table macros and characters' macros, checked as they load", () => {
+      const perception = { id: "t1", label: "Perception", formula: "d20", mode: "normal" };
+      const longsword = { id: "m1", label: "Longsword", formula: "1d8+3", mode: "advantage" };
+      const broken = { ...longsword, id: "m2", formula: "swing" };
+      roomService.loadSnapshot(
+        sessionSnapshot({
+          tableMacros: [perception, { ...perception, id: "" }],
+          characters: [
+            {
+              id: "aria",
+              name: "Aria",
+              type: "pc",
+              hp: 10,
+              maxHp: 10,
+              macros: [longsword, broken],
+            },
+          ],
+        } as Partial<RoomSnapshot>),
+      );
+
+      const state = roomService.getState();
+      expect(state.tableMacros).toEqual([perception]);
+      expect(state.characters[0].macros).toEqual([longsword]);
+
+      // The table's macros are the file's, like its map: none in it, none kept.
+      roomService.loadSnapshot(sessionSnapshot());
+      expect(roomService.getState().tableMacros).toEqual([]);
+    });
+
     it("round-trips the whole map channel set together", () => {
       // The four fields are one map. Restoring a subset yields a table whose
       // floor, walls and scenery disagree — worse than restoring none.
@@ -26,7 +26,12 @@ import type {
 import { coerceDiceVisibility, gridCellToWorldPoint, hpBadgeFor } from "@herobyte/shared";
 import type { RoomState } from "../model.js";
 import { selectionMapToRecord } from "../selectionSerialization.js";
-import { createVisionContext, isWorldPointVisible } from "../scene/visionFilter.js";
+import {
+  createVisionContext,
+  isWorldPointTokenPerceived,
+  isWorldPointVisible,
+  visibleLightIds,
+} from "../scene/visionFilter.js";
 
 /** The per-recipient view of every position-sensitive collection. */
 export interface RecipientView {
@@ -42,6 +47,8 @@ export interface RecipientView {
   chatLog: ChatMessage[];
   /** Roll history with other people's private rolls removed. */
   diceRolls: DiceRoll[];
+  /** Compiled lights whose glow reaches this recipient's sight; null = none apply. */
+  lightIds: Set<string> | null;
 }
 
 /**
@@ -166,13 +173,13 @@ export function buildRecipientView(
 
   // Fog of war: entities outside the recipient's sightlines never enter the
   // payload, so socket sniffing reveals nothing the fog hides. Own tokens are
-  // always included.
+  // always included, and tokens are the one entity tremorsense can perceive.
   const vision = !isDM && recipientUid ? createVisionContext(state, recipientUid) : null;
   const visibleTokens = vision
     ? npcFilteredTokens.filter(
         (token) =>
           token.owner === recipientUid ||
-          isWorldPointVisible(
+          isWorldPointTokenPerceived(
             vision,
             gridCellToWorldPoint(state.gridSize, { x: token.x, y: token.y }),
           ),
@@ -197,9 +204,12 @@ export function buildRecipientView(
   // mode substitutes a coarse badge computed with the SHARED hpBadgeFor, the
   // same function the client's player lens uses, so the two views can never
   // disagree. PCs always keep exact numbers: party health is the party's own
-  // information. Shallow CLONES on the redacted records only — every object in
-  // this view aliases live RoomState, and mutating one would corrupt the
-  // authoritative state and persist it on the next save.
+  // information. Armor class and saving throws go with the numbers: knowing a
+  // monster's AC is the same kind of spoiler, and a targeted roll already
+  // tells the table hit or miss without it. Shallow CLONES on the redacted
+  // records only — every object in this view aliases live RoomState, and
+  // mutating one would corrupt the authoritative state and persist it on the
+  // next save.
   const hpMode = state.monsterHpDisplay ?? "exact";
   const hpRedactedCharacters: SnapshotCharacter[] =
     isDM || hpMode === "exact"
@@ -211,6 +221,8 @@ export function buildRecipientView(
             hp: undefined,
             maxHp: undefined,
             tempHp: undefined,
+            ac: undefined,
+            savingThrows: undefined,
           };
           if (hpMode === "bloodied") {
             redacted.hpBadge = hpBadgeFor(character.hp, character.maxHp);
@@ -325,5 +337,6 @@ export function buildRecipientView(
     currentTurnCharacterId: visibleTurnCharacterId,
     chatLog: visibleChatFor(state.chatLog, recipientUid),
     diceRolls: visibleRollsFor(state.diceRolls, isDM, recipientUid),
+    lightIds: vision ? visibleLightIds(vision) : null,
   };
 }
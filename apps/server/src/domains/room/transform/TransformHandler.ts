@@ -17,7 +17,7 @@
 
 import type { SceneObject } from "@herobyte/shared";
 import type { RoomState } from "../model.js";
-import { isTokenMoveBlocked } from "../scene/movementBlocking.js";
+import { chargeTokenMove } from "../scene/movementBudget.js";
 
 /**
  * Transform changes that can be applied to a scene object
@@ -127,12 +127,9 @@ export class TransformHandler {
     // Permission check: DM or token owner
     if (!isDM && token.owner !== actorUid) return false;
 
-    // Compiled walls and shut doors block player movement on every path.
-    if (
-      changes.position &&
-      !isDM &&
-      isTokenMoveBlocked(state, { x: token.x, y: token.y }, changes.position)
-    ) {
+    // Compiled walls, shut doors and the movement budget hold player movement
+    // on every path.
+    if (changes.position && !isDM && !chargeTokenMove(state, token, changes.position)) {
       return false;
     }
 
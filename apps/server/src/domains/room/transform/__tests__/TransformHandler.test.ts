@@ -184,12 +184,13 @@ describe("TransformHandler - Characterization Tests", () => {
           width: 2048,
           height: 2048,
           walls: [
+            // Floor to ceiling and past the map's edges: no way round.
             {
               id: "wall-1#0",
               x1: 75,
               y1: -100,
               x2: 75,
-              y2: 100,
+              y2: 2200,
               blocksMovement: true,
               blocksVision: true,
             },
@@ -4,9 +4,16 @@
 // Handles token-related business logic
 
 import { randomUUID } from "crypto";
-import type { Token, TokenSize } from "@herobyte/shared";
+import {
+  coerceSenseProfile,
+  coerceTokenLight,
+  type SenseProfile,
+  type Token,
+  type TokenLight,
+  type TokenSize,
+} from "@herobyte/shared";
 import type { RoomState } from "../room/model.js";
-import { isTokenMoveBlocked } from "../room/scene/movementBlocking.js";
+import { chargeTokenMove } from "../room/scene/movementBudget.js";
 
 /**
  * Token service - manages tokens on the map
@@ -97,8 +104,9 @@ export class TokenService {
    * Move a token (with ownership validation or DM override).
    *
    * Compiled walls and shut doors are physically real for players: a move
-   * whose straight path crosses a blocking segment is refused. The DM moves
-   * anything anywhere.
+   * with no legal walk round them is refused, as is one longer than the
+   * token has left under the combat movement budget. The DM moves anything
+   * anywhere, uncharged.
    */
   moveToken(
     state: RoomState,
@@ -112,7 +120,7 @@ export class TokenService {
     if (!token || (token.owner !== ownerUid && !isDM)) {
       return false;
     }
-    if (!isDM && isTokenMoveBlocked(state, { x: token.x, y: token.y }, { x, y })) {
+    if (!isDM && !chargeTokenMove(state, token, { x, y })) {
       return false;
     }
     token.x = x;
@@ -256,6 +264,54 @@ export class TokenService {
     return true;
   }
 
+  /**
+   * Set a token's special senses, or clear them (null). DM ONLY, for the
+   * reason `setVisionRadius` is: every sense WIDENS what the token perceives,
+   * so a player able to grant their own would undo the DM's darkness.
+   *
+   * The profile is coerced (zero ranges and all) so "no senses" is always
+   * spelled by an absent field, never by `{}` or `{ darkvision: 0 }`.
+   */
+  setSenses(state: RoomState, tokenId: string, senses: SenseProfile | null): boolean {
+    const token = state.tokens.find((t) => t.id === tokenId);
+    if (!token) {
+      return false;
+    }
+    const coerced = coerceSenseProfile(senses);
+    if (coerced === undefined) {
+      delete token.senses;
+    } else {
+      token.senses = coerced;
+    }
+    return true;
+  }
+
+  /**
+   * Light or put out the light a token carries (null). Owner or DM: unlike a
+   * sense, a light shows what it illuminates to EVERYONE with a line of sight
+   * to it, the DM's darkness included, so it is a player's own choice to make.
+   * Coerced, so "no light" is always spelled by an absent field.
+   */
+  setLight(
+    state: RoomState,
+    tokenId: string,
+    senderUid: string,
+    light: TokenLight | null,
+    isDM: boolean = false,
+  ): boolean {
+    const token = state.tokens.find((t) => t.id === tokenId);
+    if (!token || (token.owner !== senderUid && !isDM)) {
+      return false;
+    }
+    const coerced = coerceTokenLight(light);
+    if (coerced === undefined) {
+      delete token.light;
+    } else {
+      token.light = coerced;
+    }
+    return true;
+  }
+
   /**
    * Remove all tokens except those owned by specified UID
    */
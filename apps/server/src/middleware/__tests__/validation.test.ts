@@ -1,6 +1,16 @@
 import { describe, expect, it } from "vitest";
 import { validateMessage } from "../validation.js";
-import type { ClientMessage } from "@herobyte/shared";
+import {
+  ATTACK_LIMITS,
+  BESTIARY_LIMITS,
+  CONDITION_LIMITS,
+  DEFENSE_LIMITS,
+  INITIATIVE_LIMITS,
+  MACRO_LIMITS,
+  MAX_MAP_LINK_TOKENS,
+  maskGeometryFor,
+  type ClientMessage,
+} from "@herobyte/shared";
 
 const baseDrawing = {
   id: "drawing-1",
@@ -343,6 +353,20 @@ describe("validateMessage", () => {
         error: "drag-preview: object 0 missing coordinates",
       });
     });
+
+    it("accepts a drag route and rejects a malformed one", () => {
+      const object = { id: "token:1", x: 1, y: 2 };
+      const route = { from: { x: 0, y: 0 }, waypoints: [{ x: 1, y: 0 }] };
+      expect(validateMessage({ t: "drag-preview", objects: [{ ...object, route }] })).toEqual({
+        valid: true,
+      });
+      expect(
+        validateMessage({
+          t: "drag-preview",
+          objects: [{ ...object, route: { ...route, waypoints: [{ x: null, y: 0 }] } }],
+        }),
+      ).toMatchObject({ valid: false, error: "drag-preview: object 0 has an invalid route" });
+    });
   });
 
   describe("selection message validation", () => {
@@ -1780,6 +1804,436 @@ describe("validateMessage", () => {
     });
   });
 
+  describe("set-token-senses", () => {
+    it("accepts null and a profile of known senses in range", () => {
+      expect(validateMessage({ t: "set-token-senses", tokenId: "t1", senses: null })).toEqual({
+        valid: true,
+      });
+      expect(
+        validateMessage({
+          t: "set-token-senses",
+          tokenId: "t1",
+          senses: { darkvision: 60, blindsight: 0, tremorsense: 1000, truesight: 120 },
+        }),
+      ).toEqual({ valid: true });
+    });
+
+    it("rejects a missing tokenId and a non-object profile", () => {
+      expect(validateMessage({ t: "set-token-senses", senses: null }).valid).toBe(false);
+      for (const senses of [undefined, 60, "darkvision", [60]]) {
+        expect(validateMessage({ t: "set-token-senses", tokenId: "t1", senses }).valid).toBe(false);
+      }
+    });
+
+    it("rejects an unknown sense and a range outside the vision bounds", () => {
+      expect(
+        validateMessage({ t: "set-token-senses", tokenId: "t1", senses: { xray: 30 } }).valid,
+      ).toBe(false);
+      for (const range of [-1, 1001, "60", Number.NaN]) {
+        expect(
+          validateMessage({ t: "set-token-senses", tokenId: "t1", senses: { darkvision: range } })
+            .valid,
+        ).toBe(false);
+      }
+    });
+  });
+
+  describe("set-token-light", () => {
+    const torch = { kind: "torch", radiusFeet: 40, color: "#ffb347" };
+
+    it("accepts null and a light of a known kind in range", () => {
+      expect(validateMessage({ t: "set-token-light", tokenId: "t1", light: null })).toEqual({
+        valid: true,
+      });
+      expect(validateMessage({ t: "set-token-light", tokenId: "t1", light: torch })).toEqual({
+        valid: true,
+      });
+    });
+
+    it("rejects a missing tokenId and a non-object light", () => {
+      expect(validateMessage({ t: "set-token-light", light: null }).valid).toBe(false);
+      for (const light of [undefined, 40, "torch", [torch]]) {
+        expect(validateMessage({ t: "set-token-light", tokenId: "t1", light }).valid).toBe(false);
+      }
+    });
+
+    it("rejects an unknown kind, a range outside (0, 1000] and a bad colour", () => {
+      const bad = [
+        { ...torch, kind: "sun" },
+        ...[0, -5, 1001, "40", Number.NaN].map((radiusFeet) => ({ ...torch, radiusFeet })),
+        { ...torch, color: "" },
+        { ...torch, color: 7 },
+        { ...torch, color: "x".repeat(129) },
+      ];
+      for (const light of bad) {
+        expect(validateMessage({ t: "set-token-light", tokenId: "t1", light }).valid).toBe(false);
+      }
+    });
+  });
+
+  describe("set-token-speed", () => {
+    it("accepts null, zero and a speed up to the ceiling", () => {
+      for (const speed of [null, 0, 30, 500]) {
+        expect(validateMessage({ t: "set-token-speed", tokenId: "t1", speed })).toEqual({
+          valid: true,
+        });
+      }
+    });
+
+    it("rejects a missing tokenId and a speed that is not feet in range", () => {
+      expect(validateMessage({ t: "set-token-speed", speed: 30 }).valid).toBe(false);
+      for (const speed of [undefined, -5, 501, "30", Number.NaN]) {
+        expect(validateMessage({ t: "set-token-speed", tokenId: "t1", speed }).valid).toBe(false);
+      }
+    });
+  });
+
+  describe("set-movement-budget", () => {
+    it("accepts a boolean and nothing else", () => {
+      expect(validateMessage({ t: "set-movement-budget", enabled: true })).toEqual({ valid: true });
+      expect(validateMessage({ t: "set-movement-budget", enabled: "yes" }).valid).toBe(false);
+    });
+  });
+
+  describe("explored-fog", () => {
+    const meta = maskGeometryFor(80, 40);
+    const mask = { sceneId: "map", sceneWidth: 80, sceneHeight: 40, ...meta, epoch: 0, bits: "" };
+
+    it("accepts a mask shaped for its scene", () => {
+      expect(validateMessage({ t: "explored-fog", mask })).toEqual({ valid: true });
+    });
+
+    // The identity is the connection's: a mask naming its own owner is
+    // someone trying to write another player's memory.
+    it("rejects a claimed uid, foreign geometry, or mis-sized bits", () => {
+      expect(validateMessage({ t: "explored-fog", mask: { ...mask, uid: "bob" } }).valid).toBe(
+        false,
+      );
+      expect(validateMessage({ t: "explored-fog", mask: { ...mask, cell: 64 } }).valid).toBe(false);
+      expect(validateMessage({ t: "explored-fog", mask: { ...mask, bits: "AAAA" } }).valid).toBe(
+        false,
+      );
+      expect(validateMessage({ t: "explored-fog" }).valid).toBe(false);
+    });
+  });
+
+  describe("set-explored-fog", () => {
+    it("accepts reset and reveal, for one player or all", () => {
+      expect(validateMessage({ t: "set-explored-fog", action: "reset" })).toEqual({ valid: true });
+      expect(validateMessage({ t: "set-explored-fog", action: "reveal", uid: "p1" })).toEqual({
+        valid: true,
+      });
+    });
+
+    it("rejects any other action or a malformed uid", () => {
+      expect(validateMessage({ t: "set-explored-fog", action: "wipe" }).valid).toBe(false);
+      expect(validateMessage({ t: "set-explored-fog", action: "reset", uid: 7 }).valid).toBe(false);
+    });
+  });
+
+  describe("add-fog-region", () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+      { x: 100, y: 100 },
+    ];
+
+    it("accepts a polygon and a brush stroke", () => {
+      expect(
+        validateMessage({
+          t: "add-fog-region",
+          region: { mode: "reveal", shape: "polygon", points },
+        }),
+      ).toEqual({ valid: true });
+      expect(
+        validateMessage({
+          t: "add-fog-region",
+          region: { mode: "conceal", shape: "stroke", points: points.slice(0, 1), radius: 20 },
+        }),
+      ).toEqual({ valid: true });
+    });
+
+    it("rejects an unknown mode, a stroke with no radius, or no region", () => {
+      expect(
+        validateMessage({ t: "add-fog-region", region: { mode: "blur", shape: "polygon", points } })
+          .valid,
+      ).toBe(false);
+      expect(
+        validateMessage({
+          t: "add-fog-region",
+          region: { mode: "reveal", shape: "stroke", points },
+        }).valid,
+      ).toBe(false);
+      expect(validateMessage({ t: "add-fog-region" }).valid).toBe(false);
+    });
+  });
+
+  describe("scene list messages", () => {
+    it("accepts a named scene and a scene id", () => {
+      expect(validateMessage({ t: "create-scene", name: "Crypt" })).toEqual({ valid: true });
+      expect(validateMessage({ t: "activate-scene", sceneId: "s-1" })).toEqual({ valid: true });
+      expect(
+        validateMessage({ t: "duplicate-scene", sceneId: "s-1", name: "Crypt, flooded" }),
+      ).toEqual({ valid: true });
+    });
+
+    it("rejects a blank name or a missing scene id", () => {
+      expect(validateMessage({ t: "create-scene", name: "   " }).valid).toBe(false);
+      expect(validateMessage({ t: "duplicate-scene", sceneId: "s-1" }).valid).toBe(false);
+      expect(validateMessage({ t: "delete-scene" }).valid).toBe(false);
+    });
+
+    it("accepts a map link use carrying between one and the limit of tokens", () => {
+      expect(validateMessage({ t: "use-map-link", linkId: "stairs", tokenIds: ["t1"] })).toEqual({
+        valid: true,
+      });
+      expect(validateMessage({ t: "use-map-link", linkId: "stairs", tokenIds: [] }).valid).toBe(
+        false,
+      );
+      const crowd = Array.from({ length: MAX_MAP_LINK_TOKENS + 1 }, (_, index) => `t${index}`);
+      expect(validateMessage({ t: "use-map-link", linkId: "stairs", tokenIds: crowd }).valid).toBe(
+        false,
+      );
+      expect(validateMessage({ t: "use-map-link", tokenIds: ["t1"] }).valid).toBe(false);
+    });
+
+    it("holds a session file's saved scenes to the snapshot's caps", () => {
+      const snapshot = { players: [], tokens: [], drawings: [] };
+      const scene = (tokens: number) => ({
+        id: "s-1",
+        name: "Crypt",
+        content: { tokens: Array.from({ length: tokens }, () => ({})) },
+      });
+      expect(validateMessage({ t: "load-session", snapshot, scenes: [scene(2)] })).toEqual({
+        valid: true,
+      });
+      expect(validateMessage({ t: "load-session", snapshot, scenes: [scene(1001)] }).valid).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("bestiary messages", () => {
+    const template = {
+      name: "Goblin",
+      ac: 15,
+      hpFormula: "2d6",
+      initiativeModifier: 2,
+      attacks: [],
+    };
+
+    it("accepts a template only when it has a name and a rollable HP formula", () => {
+      expect(validateMessage({ t: "upsert-monster-template", template })).toEqual({ valid: true });
+      for (const broken of [
+        { ...template, hpFormula: "lots" },
+        { ...template, name: "" },
+        "Goblin",
+      ]) {
+        expect(validateMessage({ t: "upsert-monster-template", template: broken }).valid).toBe(
+          false,
+        );
+      }
+    });
+
+    it("bounds an import, but leaves skipping bad entries to the import itself", () => {
+      expect(
+        validateMessage({ t: "import-bestiary", templates: [template, { name: "?" }] }),
+      ).toEqual({ valid: true });
+      expect(validateMessage({ t: "import-bestiary", templates: [] }).valid).toBe(false);
+      expect(validateMessage({ t: "import-bestiary", templates: ["Goblin"] }).valid).toBe(false);
+      const hoard = Array.from({ length: BESTIARY_LIMITS.TEMPLATES_MAX + 1 }, () => template);
+      expect(validateMessage({ t: "import-bestiary", templates: hoard }).valid).toBe(false);
+    });
+
+    it("holds create-npc-from-template to create-npc's count range", () => {
+      const base = { t: "create-npc-from-template", templateId: "goblin" };
+      expect(validateMessage(base)).toEqual({ valid: true });
+      expect(validateMessage({ ...base, count: 20 })).toEqual({ valid: true });
+      expect(validateMessage({ ...base, count: 21 }).valid).toBe(false);
+      expect(validateMessage({ ...base, count: 1.5 }).valid).toBe(false);
+      expect(validateMessage({ t: "create-npc-from-template", templateId: "" }).valid).toBe(false);
+      expect(validateMessage({ t: "delete-monster-template", id: 7 }).valid).toBe(false);
+    });
+  });
+
+  describe("attack messages", () => {
+    const attack = { t: "roll-attack", attackerId: "aria", attackName: "Scimitar", targetId: "g" };
+    const scimitar = { name: "Scimitar", toHit: 4, damage: "1d6+2" };
+
+    it("needs an attacker, an attack name and a target, and a real mode", () => {
+      expect(validateMessage(attack)).toEqual({ valid: true });
+      expect(validateMessage({ ...attack, mode: "advantage", applyDamage: true })).toEqual({
+        valid: true,
+      });
+      expect(validateMessage({ ...attack, targetId: "" }).valid).toBe(false);
+      expect(validateMessage({ ...attack, attackName: 4 }).valid).toBe(false);
+      expect(validateMessage({ ...attack, mode: "triple" }).valid).toBe(false);
+      expect(validateMessage({ ...attack, applyDamage: "yes" }).valid).toBe(false);
+      expect(validateMessage({ t: "apply-attack-damage", rollId: "" }).valid).toBe(false);
+    });
+
+    it("refuses an attack list with any attack the roller could not roll", () => {
+      const base = { t: "set-character-attacks", characterId: "aria" };
+      expect(validateMessage({ ...base, attacks: [scimitar] })).toEqual({ valid: true });
+      expect(validateMessage({ ...base, attacks: [] })).toEqual({ valid: true });
+      expect(
+        validateMessage({ ...base, attacks: [scimitar, { ...scimitar, damage: "lots" }] }).valid,
+      ).toBe(false);
+      const arsenal = Array.from({ length: ATTACK_LIMITS.ATTACKS_MAX + 1 }, () => scimitar);
+      expect(validateMessage({ ...base, attacks: arsenal }).valid).toBe(false);
+    });
+
+    it("refuses a macro list with a formula that does not roll or a repeated id", () => {
+      const longsword = { id: "m1", label: "Longsword", formula: "1d8+3", mode: "normal" };
+      const base = { t: "set-character-macros", characterId: "aria" };
+      expect(validateMessage({ ...base, macros: [longsword] })).toEqual({ valid: true });
+      expect(validateMessage({ ...base, macros: [] })).toEqual({ valid: true });
+      expect(validateMessage({ ...base, characterId: "", macros: [] }).valid).toBe(false);
+      expect(
+        validateMessage({ ...base, macros: [longsword, { ...longsword, id: "m2", formula: "x" }] })
+          .valid,
+      ).toBe(false);
+      expect(validateMessage({ ...base, macros: [longsword, longsword] }).valid).toBe(false);
+
+      const table = { t: "set-table-macros" };
+      expect(validateMessage({ ...table, macros: [longsword] })).toEqual({ valid: true });
+      const many = Array.from({ length: MACRO_LIMITS.TABLE_MAX + 1 }, (_, index) => ({
+        ...longsword,
+        id: `m${index}`,
+      }));
+      expect(validateMessage({ ...table, macros: many }).valid).toBe(false);
+      expect(validateMessage(table).valid).toBe(false);
+    });
+
+    it("holds defenses to a whole-number AC and known saving throws", () => {
+      const base = { t: "set-character-defenses", characterId: "aria" };
+      expect(validateMessage(base)).toEqual({ valid: true });
+      expect(validateMessage({ ...base, ac: 15, savingThrows: { dex: 2, wis: -1 } })).toEqual({
+        valid: true,
+      });
+      expect(validateMessage({ ...base, ac: 15.5 }).valid).toBe(false);
+      expect(validateMessage({ ...base, ac: DEFENSE_LIMITS.AC_MAX + 1 }).valid).toBe(false);
+      expect(validateMessage({ ...base, savingThrows: { luck: 1 } }).valid).toBe(false);
+      expect(validateMessage({ ...base, savingThrows: [2] }).valid).toBe(false);
+    });
+
+    it("lets a dice-roll name a target by id", () => {
+      const roll = { t: "dice-roll", formula: "d20+5" };
+      expect(validateMessage({ ...roll, targetId: "goblin" })).toEqual({ valid: true });
+      expect(validateMessage({ ...roll, targetId: "" }).valid).toBe(false);
+      expect(validateMessage({ ...roll, targetId: 3 }).valid).toBe(false);
+    });
+  });
+
+  describe("set-character-conditions", () => {
+    const base = { t: "set-character-conditions", characterId: "aria" };
+
+    it("accepts an empty list and conditions with a source and a clock", () => {
+      expect(validateMessage({ ...base, conditions: [] })).toEqual({ valid: true });
+      expect(
+        validateMessage({
+          ...base,
+          conditions: [
+            { key: "restrained", source: "Net", rounds: 2 },
+            { key: "custom", label: "Hexed", endsAt: { characterId: "mage", boundary: "end" } },
+          ],
+        }),
+      ).toEqual({ valid: true });
+    });
+
+    it("refuses unknown keys, unnamed custom conditions and oversized lists", () => {
+      expect(validateMessage(base).valid).toBe(false);
+      expect(validateMessage({ ...base, conditions: [{ key: "sleepy" }] }).valid).toBe(false);
+      expect(validateMessage({ ...base, conditions: [{ key: "custom" }] }).valid).toBe(false);
+      expect(validateMessage({ ...base, conditions: ["prone"] }).valid).toBe(false);
+      const pile = Array.from({ length: CONDITION_LIMITS.CONDITIONS_MAX + 1 }, () => ({
+        key: "prone",
+      }));
+      expect(validateMessage({ ...base, conditions: pile }).valid).toBe(false);
+    });
+  });
+
+  describe("turn order messages", () => {
+    it("accepts a delay with or without a target, and a resume", () => {
+      expect(validateMessage({ t: "delay-turn", characterId: "aria" })).toEqual({ valid: true });
+      expect(
+        validateMessage({ t: "delay-turn", characterId: "aria", afterCharacterId: "gob" }),
+      ).toEqual({ valid: true });
+      expect(validateMessage({ t: "resume-turn", characterId: "aria" })).toEqual({ valid: true });
+      expect(
+        validateMessage({ t: "delay-turn", characterId: "aria", afterCharacterId: 3 }).valid,
+      ).toBe(false);
+      expect(validateMessage({ t: "resume-turn" }).valid).toBe(false);
+    });
+
+    it("bounds a readied trigger", () => {
+      expect(validateMessage({ t: "ready-action", characterId: "aria", trigger: "" })).toEqual({
+        valid: true,
+      });
+      expect(
+        validateMessage({
+          t: "ready-action",
+          characterId: "aria",
+          trigger: "x".repeat(INITIATIVE_LIMITS.TRIGGER_MAX + 1),
+        }).valid,
+      ).toBe(false);
+    });
+
+    it("wants a reorder to be a list of ids", () => {
+      expect(validateMessage({ t: "reorder-initiative", order: ["aria", "gob"] })).toEqual({
+        valid: true,
+      });
+      expect(validateMessage({ t: "reorder-initiative", order: ["aria", ""] }).valid).toBe(false);
+      expect(validateMessage({ t: "reorder-initiative", order: "aria" }).valid).toBe(false);
+    });
+
+    it("accepts only the known combat modes", () => {
+      expect(validateMessage({ t: "set-combat-mode", mode: "side" })).toEqual({ valid: true });
+      expect(validateMessage({ t: "set-combat-mode", mode: "squads" }).valid).toBe(false);
+    });
+
+    it("takes a turn timer within the limits, or none to turn it off", () => {
+      expect(
+        validateMessage({ t: "set-turn-timer", timer: { seconds: 60, onExpire: "advance" } }),
+      ).toEqual({ valid: true });
+      expect(validateMessage({ t: "set-turn-timer" })).toEqual({ valid: true });
+      expect(
+        validateMessage({ t: "set-turn-timer", timer: { seconds: 1, onExpire: "advance" } }).valid,
+      ).toBe(false);
+      expect(
+        validateMessage({ t: "set-turn-timer", timer: { seconds: 60, onExpire: "explode" } }).valid,
+      ).toBe(false);
+      expect(validateMessage({ t: "set-turn-timer", timer: null }).valid).toBe(false);
+    });
+
+    it("accepts only the known combatant statuses", () => {
+      expect(
+        validateMessage({ t: "set-character-status", characterId: "gob", status: "dead" }),
+      ).toEqual({ valid: true });
+      expect(
+        validateMessage({ t: "set-character-status", characterId: "gob", status: "petrified" })
+          .valid,
+      ).toBe(false);
+      expect(validateMessage({ t: "set-character-status", status: "fled" }).valid).toBe(false);
+      expect(validateMessage({ t: "remove-defeated" })).toEqual({ valid: true });
+    });
+
+    it("takes a death-save roll by id and a tally of whole counts up to three", () => {
+      expect(validateMessage({ t: "roll-death-save", characterId: "aria" })).toEqual({
+        valid: true,
+      });
+      expect(validateMessage({ t: "roll-death-save" }).valid).toBe(false);
+
+      const tally = (deathSaves: unknown) =>
+        validateMessage({ t: "set-death-saves", characterId: "aria", deathSaves }).valid;
+      expect(tally({ successes: 3, failures: 0 })).toBe(true);
+      expect(tally({ successes: 4, failures: 0 })).toBe(false);
+      expect(tally({ successes: 1.5, failures: 0 })).toBe(false);
+      expect(tally({ successes: 1 })).toBe(false);
+      expect(tally(null)).toBe(false);
+    });
+  });
+
   describe("set-default-vision-radius", () => {
     it("accepts null — the clear-the-table-default signal", () => {
       expect(validateMessage({ t: "set-default-vision-radius", radius: null })).toEqual({
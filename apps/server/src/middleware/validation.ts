@@ -18,7 +18,9 @@ import { isRecord } from "./validators/index.js";
 import { validateForkTableMessage } from "./validators/forkValidators.js";
 import { validateChatMessage, validateClearChatLogMessage } from "./validators/chatValidators.js";
 import { validateDiceRollMessage } from "./validators/diceValidators.js";
+import { macroValidators } from "./validators/macroValidators.js";
 import { validateLoadSessionMessage } from "./validators/sessionValidators.js";
+import { turnOrderValidators } from "./validators/turnOrderValidators.js";
 import {
   validateMoveMessage,
   validateRecolorMessage,
@@ -27,6 +29,9 @@ import {
   validateSetTokenSizeMessage,
   validateSetTokenColorMessage,
   validateSetTokenVisionRadiusMessage,
+  validateSetTokenSensesMessage,
+  validateSetTokenLightMessage,
+  validateSetTokenSpeedMessage,
   validateDragPreviewMessage,
 } from "./validators/index.js";
 
@@ -85,7 +90,25 @@ import {
   validateSetFogEnabledMessage,
   validateSetMonsterHpDisplayMessage,
   validateSetDiagonalRuleMessage,
+  validateSetMovementBudgetMessage,
+  validateExploredFogMessage,
+  validateSetExploredFogMessage,
+  validateAddFogRegionMessage,
+  validateFogRegionControlMessage,
+  validateCreateSceneMessage,
+  validateDuplicateSceneMessage,
+  validateSceneIdMessage,
+  validateUseMapLinkMessage,
   validateMeasureMessage,
+  validateUpsertMonsterTemplateMessage,
+  validateDeleteMonsterTemplateMessage,
+  validateImportBestiaryMessage,
+  validateCreateNpcFromTemplateMessage,
+  validateRollAttackMessage,
+  validateApplyAttackDamageMessage,
+  validateSetCharacterAttacksMessage,
+  validateSetCharacterDefensesMessage,
+  validateSetCharacterConditionsMessage,
 } from "./validators/index.js";
 
 // Prop validators
@@ -144,6 +167,9 @@ const messageValidators: { readonly [K in ClientMessageType]: MessageValidator }
   "set-token-size": validateSetTokenSizeMessage,
   "set-token-color": validateSetTokenColorMessage,
   "set-token-vision-radius": validateSetTokenVisionRadiusMessage,
+  "set-token-senses": validateSetTokenSensesMessage,
+  "set-token-light": validateSetTokenLightMessage,
+  "set-token-speed": validateSetTokenSpeedMessage,
   "drag-preview": validateDragPreviewMessage,
 
   // ==========================================================================
@@ -172,8 +198,19 @@ const messageValidators: { readonly [K in ClientMessageType]: MessageValidator }
   "update-character-hp": validateUpdateCharacterHpMessage,
   "set-character-portrait": validateSetCharacterPortraitMessage,
   "set-character-status-effects": validateSetCharacterStatusEffectsMessage,
+  "set-character-attacks": validateSetCharacterAttacksMessage,
+  "set-character-defenses": validateSetCharacterDefensesMessage,
+  "set-character-conditions": validateSetCharacterConditionsMessage,
   "link-token": validateLinkTokenMessage,
 
+  // ==========================================================================
+  // BESTIARY MESSAGES
+  // ==========================================================================
+  "upsert-monster-template": validateUpsertMonsterTemplateMessage,
+  "delete-monster-template": validateDeleteMonsterTemplateMessage,
+  "import-bestiary": validateImportBestiaryMessage,
+  "create-npc-from-template": validateCreateNpcFromTemplateMessage,
+
   // ==========================================================================
   // INITIATIVE / COMBAT MESSAGES
   // ==========================================================================
@@ -183,6 +220,7 @@ const messageValidators: { readonly [K in ClientMessageType]: MessageValidator }
   "next-turn": validateCombatControlMessage,
   "previous-turn": validateCombatControlMessage,
   "clear-all-initiative": validateCombatControlMessage,
+  ...turnOrderValidators,
 
   // ==========================================================================
   // MAP MESSAGES
@@ -215,7 +253,19 @@ const messageValidators: { readonly [K in ClientMessageType]: MessageValidator }
   "set-fog-enabled": validateSetFogEnabledMessage,
   "set-monster-hp-display": validateSetMonsterHpDisplayMessage,
   "set-diagonal-rule": validateSetDiagonalRuleMessage,
+  "set-movement-budget": validateSetMovementBudgetMessage,
   "set-default-vision-radius": validateSetDefaultVisionRadiusMessage,
+  "explored-fog": validateExploredFogMessage,
+  "set-explored-fog": validateSetExploredFogMessage,
+  "add-fog-region": validateAddFogRegionMessage,
+  "undo-fog-region": validateFogRegionControlMessage,
+  "redo-fog-region": validateFogRegionControlMessage,
+  "clear-fog-regions": validateFogRegionControlMessage,
+  "create-scene": validateCreateSceneMessage,
+  "activate-scene": validateSceneIdMessage,
+  "duplicate-scene": validateDuplicateSceneMessage,
+  "delete-scene": validateSceneIdMessage,
+  "use-map-link": validateUseMapLinkMessage,
   measure: validateMeasureMessage,
 
   // ==========================================================================
@@ -264,6 +314,9 @@ const messageValidators: { readonly [K in ClientMessageType]: MessageValidator }
   // ==========================================================================
   "dice-roll": validateDiceRollMessage,
   "clear-roll-history": validateRoomControlMessage,
+  "roll-attack": validateRollAttackMessage,
+  "apply-attack-damage": validateApplyAttackDamageMessage,
+  ...macroValidators,
 
   // ==========================================================================
   // CHAT MESSAGES
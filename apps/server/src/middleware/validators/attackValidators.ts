@@ -0,0 +1,128 @@
+// ============================================================================
+// ATTACK AND DEFENSE VALIDATION
+// ============================================================================
+// roll-attack, apply-attack-damage, set-character-attacks and
+// set-character-defenses. Like dice-roll, an attack message names things and
+// carries no numbers the server keeps: the to-hit bonus and damage formula are
+// read off the attacker's own record, so there is no result here to bound —
+// only ids, and the attacks and defenses a player writes onto their own
+// character.
+
+import {
+  ATTACK_LIMITS,
+  DEFENSE_LIMITS,
+  SAVING_THROW_ABILITIES,
+  coerceNamedAttack,
+} from "@herobyte/shared";
+import type { ValidationResult, MessageRecord } from "./commonValidators.js";
+import { isRecord } from "./commonValidators.js";
+
+const ROLL_MODES = new Set(["normal", "advantage", "disadvantage"]);
+
+function isId(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= 128;
+}
+
+/**
+ * Validate roll-attack message
+ * Required: attackerId, attackName, targetId
+ * Optional: mode, applyDamage (boolean; honoured for the DM only)
+ */
+export function validateRollAttackMessage(message: MessageRecord): ValidationResult {
+  const { attackerId, attackName, targetId, mode, applyDamage } = message;
+  if (!isId(attackerId) || !isId(targetId)) {
+    return { valid: false, error: "roll-attack: missing or invalid attackerId/targetId" };
+  }
+  if (
+    typeof attackName !== "string" ||
+    attackName.length === 0 ||
+    attackName.length > ATTACK_LIMITS.NAME_MAX
+  ) {
+    return { valid: false, error: "roll-attack: missing or invalid attackName" };
+  }
+  if (mode !== undefined && !ROLL_MODES.has(mode as string)) {
+    return { valid: false, error: "roll-attack: mode must be normal, advantage or disadvantage" };
+  }
+  if (applyDamage !== undefined && typeof applyDamage !== "boolean") {
+    return { valid: false, error: "roll-attack: applyDamage must be a boolean" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate apply-attack-damage message
+ * Required: rollId
+ */
+export function validateApplyAttackDamageMessage(message: MessageRecord): ValidationResult {
+  if (!isId(message.rollId)) {
+    return { valid: false, error: "apply-attack-damage: missing or invalid rollId" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate set-character-attacks message
+ * Required: characterId, attacks (ATTACKS_MAX at most). Unlike an import, one
+ * unusable attack refuses the whole list: this is a form the sender just
+ * filled in, and quietly saving fewer attacks than they wrote would lose one.
+ */
+export function validateSetCharacterAttacksMessage(message: MessageRecord): ValidationResult {
+  const { characterId, attacks } = message;
+  if (!isId(characterId)) {
+    return { valid: false, error: "set-character-attacks: missing or invalid characterId" };
+  }
+  if (!Array.isArray(attacks) || attacks.length > ATTACK_LIMITS.ATTACKS_MAX) {
+    return {
+      valid: false,
+      error: `set-character-attacks: attacks must be an array of at most ${ATTACK_LIMITS.ATTACKS_MAX}`,
+    };
+  }
+  if (!attacks.every((attack) => isRecord(attack) && coerceNamedAttack(attack) !== null)) {
+    return {
+      valid: false,
+      error: "set-character-attacks: every attack needs a name and rollable damage",
+    };
+  }
+  return { valid: true };
+}
+
+const ABILITIES = new Set<string>(SAVING_THROW_ABILITIES);
+
+function isWholeNumberIn(value: unknown, min: number, max: number): boolean {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate set-character-defenses message
+ * Required: characterId
+ * Optional: ac, savingThrows (each absent one is cleared; the message replaces both)
+ */
+export function validateSetCharacterDefensesMessage(message: MessageRecord): ValidationResult {
+  const { characterId, ac, savingThrows } = message;
+  if (!isId(characterId)) {
+    return { valid: false, error: "set-character-defenses: missing or invalid characterId" };
+  }
+  if (ac !== undefined && !isWholeNumberIn(ac, DEFENSE_LIMITS.AC_MIN, DEFENSE_LIMITS.AC_MAX)) {
+    return {
+      valid: false,
+      error: `set-character-defenses: ac must be a whole number from ${DEFENSE_LIMITS.AC_MIN} to ${DEFENSE_LIMITS.AC_MAX}`,
+    };
+  }
+  if (savingThrows !== undefined) {
+    if (!isRecord(savingThrows)) {
+      return { valid: false, error: "set-character-defenses: savingThrows must be an object" };
+    }
+    for (const [ability, bonus] of Object.entries(savingThrows)) {
+      if (
+        !ABILITIES.has(ability) ||
+        !isWholeNumberIn(bonus, -DEFENSE_LIMITS.SAVE_ABS_MAX, DEFENSE_LIMITS.SAVE_ABS_MAX)
+      ) {
+        return {
+          valid: false,
+          error: `set-character-defenses: invalid saving throw "${ability}"`,
+        };
+      }
+    }
+  }
+  return { valid: true };
+}
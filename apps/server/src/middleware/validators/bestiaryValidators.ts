@@ -0,0 +1,82 @@
+// ============================================================================
+// BESTIARY VALIDATION
+// ============================================================================
+// The DM's monster template messages and create-npc-from-template. A template
+// passes when the shared coercion can make a template of it at all; the
+// coercion runs again in the domain, which is the copy that gets stored.
+
+import { BESTIARY_LIMITS, NPC_CREATE_LIMITS, coerceMonsterTemplate } from "@herobyte/shared";
+import type { ValidationResult, MessageRecord } from "./commonValidators.js";
+import { isIntegerInRange, isRecord } from "./commonValidators.js";
+
+function isTemplateId(value: unknown): boolean {
+  return typeof value === "string" && value.length > 0 && value.length <= 128;
+}
+
+/**
+ * Validate upsert-monster-template message
+ * Required: template (needs a name and a rollable hpFormula)
+ */
+export function validateUpsertMonsterTemplateMessage(message: MessageRecord): ValidationResult {
+  if (!isRecord(message.template) || !coerceMonsterTemplate(message.template)) {
+    return {
+      valid: false,
+      error: "upsert-monster-template: template needs a name and a valid HP formula",
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate delete-monster-template message
+ * Required: id
+ */
+export function validateDeleteMonsterTemplateMessage(message: MessageRecord): ValidationResult {
+  if (!isTemplateId(message.id)) {
+    return { valid: false, error: "delete-monster-template: missing or invalid id" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate import-bestiary message
+ * Required: templates (array of objects, TEMPLATES_MAX at most). Individual
+ * templates that cannot be used are skipped by the import, not refused here:
+ * one bad entry in a shared file should not cost the DM the other fifty.
+ */
+export function validateImportBestiaryMessage(message: MessageRecord): ValidationResult {
+  const { templates } = message;
+  if (!Array.isArray(templates) || templates.length === 0) {
+    return { valid: false, error: "import-bestiary: templates must be a non-empty array" };
+  }
+  if (templates.length > BESTIARY_LIMITS.TEMPLATES_MAX) {
+    return {
+      valid: false,
+      error: `import-bestiary: too many templates (max ${BESTIARY_LIMITS.TEMPLATES_MAX})`,
+    };
+  }
+  if (!templates.every((template) => isRecord(template))) {
+    return { valid: false, error: "import-bestiary: templates must be objects" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate create-npc-from-template message
+ * Required: templateId
+ * Optional: count (bounded like create-npc's, since the handler loops on it)
+ */
+export function validateCreateNpcFromTemplateMessage(message: MessageRecord): ValidationResult {
+  const { templateId, count } = message;
+  if (!isTemplateId(templateId)) {
+    return { valid: false, error: "create-npc-from-template: missing or invalid templateId" };
+  }
+  const { COUNT_MIN, COUNT_MAX } = NPC_CREATE_LIMITS;
+  if (count !== undefined && !isIntegerInRange(count, COUNT_MIN, COUNT_MAX)) {
+    return {
+      valid: false,
+      error: `create-npc-from-template: count must be an integer between ${COUNT_MIN} and ${COUNT_MAX}`,
+    };
+  }
+  return { valid: true };
+}
@@ -0,0 +1,35 @@
+// ============================================================================
+// CONDITION VALIDATION
+// ============================================================================
+// set-character-conditions replaces a character's whole list, so the check is
+// the list's: its length, and that every entry survives coerceCondition — the
+// same function the service keeps them with. A list the service would quietly
+// shorten is refused here instead, so the writer finds out.
+
+import { CONDITION_LIMITS, coerceCondition } from "@herobyte/shared";
+import type { ValidationResult, MessageRecord } from "./commonValidators.js";
+import { isRecord } from "./commonValidators.js";
+
+/**
+ * Validate set-character-conditions message
+ * Required: characterId, conditions (array; may be empty to clear)
+ */
+export function validateSetCharacterConditionsMessage(message: MessageRecord): ValidationResult {
+  const { characterId, conditions } = message;
+  if (typeof characterId !== "string" || characterId.length === 0 || characterId.length > 128) {
+    return { valid: false, error: "set-character-conditions: missing or invalid characterId" };
+  }
+  if (!Array.isArray(conditions) || conditions.length > CONDITION_LIMITS.CONDITIONS_MAX) {
+    return {
+      valid: false,
+      error: `set-character-conditions: conditions must be an array of at most ${CONDITION_LIMITS.CONDITIONS_MAX}`,
+    };
+  }
+  if (!conditions.every((condition) => isRecord(condition) && coerceCondition(condition))) {
+    return {
+      valid: false,
+      error: "set-character-conditions: every condition needs a known key (or a custom label)",
+    };
+  }
+  return { valid: true };
+}
@@ -18,7 +18,7 @@ const ROLL_MODES = new Set(["normal", "advantage", "disadvantage"]);
 const VISIBILITIES = new Set(["public", "dm", "self"]);
 
 /**
- * `{ t: "dice-roll"; formula: string; mode?; visibility? }`
+ * `{ t: "dice-roll"; formula: string; mode?; visibility?; targetId? }`
  *
  * The formula check IS `parseDiceFormula` — the same function the handler uses
  * to produce terms. Reusing it rather than writing a looser shape check here
@@ -45,5 +45,13 @@ export function validateDiceRollMessage(message: MessageRecord): ValidationResul
     return { valid: false, error: "dice-roll: visibility must be public, dm or self" };
   }
 
+  const { targetId } = message;
+  if (
+    targetId !== undefined &&
+    (typeof targetId !== "string" || targetId.length === 0 || targetId.length > 128)
+  ) {
+    return { valid: false, error: "dice-roll: targetId must be a character id" };
+  }
+
   return { valid: true };
 }
@@ -0,0 +1,30 @@
+// ============================================================================
+// FOG REGION VALIDATION
+// ============================================================================
+// Its own module rather than a block in mapValidators.ts, which sits close to
+// the 350-LOC guardrail. The shape rules themselves live in the shared
+// sanitizer so the server, the session loader and the client all agree on
+// what a well-formed region is; this only turns its verdict into an error.
+
+import { sanitizeFogRegionDraft } from "@herobyte/shared";
+import type { ValidationResult, MessageRecord } from "./commonValidators.js";
+
+/**
+ * Validate add-fog-region message
+ * Required: region — { mode: reveal|conceal, shape: polygon|stroke, points,
+ * radius (strokes only) } in document pixels. No id or sceneId: the server
+ * assigns both, so a client cannot aim a region at another scene.
+ */
+export function validateAddFogRegionMessage(message: MessageRecord): ValidationResult {
+  if (!sanitizeFogRegionDraft(message.region)) {
+    return { valid: false, error: "add-fog-region: invalid region" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate undo-fog-region, redo-fog-region, clear-fog-regions (no parameters)
+ */
+export function validateFogRegionControlMessage(): ValidationResult {
+  return { valid: true };
+}
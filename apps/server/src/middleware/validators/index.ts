@@ -8,7 +8,13 @@ export * from "./commonValidators.js";
 export * from "./tokenValidators.js";
 export * from "./playerValidators.js";
 export * from "./characterValidators.js";
+export * from "./bestiaryValidators.js";
+export * from "./attackValidators.js";
+export * from "./conditionValidators.js";
+export * from "./turnOrderValidators.js";
 export * from "./mapValidators.js";
+export * from "./fogValidators.js";
+export * from "./sceneValidators.js";
 export * from "./mapStudioValidators.js";
 export * from "./mapStudioLiveValidators.js";
 export * from "./generationValidators.js";
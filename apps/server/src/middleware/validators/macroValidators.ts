@@ -0,0 +1,65 @@
+// ============================================================================
+// DICE MACRO VALIDATION
+// ============================================================================
+// set-character-macros and set-table-macros. Each carries a whole list, which
+// replaces the one stored. Every formula in it is checked with the same
+// parseDiceFormula the roller uses, through coerceDiceMacro, so a macro the
+// gate admits is one the server can roll when it is tapped.
+
+import { MACRO_LIMITS, coerceDiceMacro } from "@herobyte/shared";
+import type { ValidationResult, MessageRecord } from "./commonValidators.js";
+import { isRecord } from "./commonValidators.js";
+
+/**
+ * The list check both messages share. Like set-character-attacks, one bad
+ * macro refuses the whole list rather than saving fewer than were sent, and
+ * so does a repeated id: the handler would keep only the first, and the
+ * sender's bar would lose a button without being told.
+ */
+function validateMacroList(type: string, macros: unknown, max: number): ValidationResult {
+  if (!Array.isArray(macros) || macros.length > max) {
+    return { valid: false, error: `${type}: macros must be an array of at most ${max}` };
+  }
+  const ids = new Set<string>();
+  for (const entry of macros) {
+    const macro = isRecord(entry) ? coerceDiceMacro(entry) : null;
+    if (!macro) {
+      return {
+        valid: false,
+        error: `${type}: every macro needs an id, a label and a formula that rolls`,
+      };
+    }
+    if (ids.has(macro.id)) {
+      return { valid: false, error: `${type}: macro id "${macro.id}" is repeated` };
+    }
+    ids.add(macro.id);
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate set-character-macros message
+ * Required: characterId, macros (CHARACTER_MAX at most)
+ */
+export function validateSetCharacterMacrosMessage(message: MessageRecord): ValidationResult {
+  const { characterId } = message;
+  if (typeof characterId !== "string" || characterId.length === 0 || characterId.length > 128) {
+    return { valid: false, error: "set-character-macros: missing or invalid characterId" };
+  }
+  return validateMacroList("set-character-macros", message.macros, MACRO_LIMITS.CHARACTER_MAX);
+}
+
+/**
+ * Validate set-table-macros message
+ * Required: macros (TABLE_MAX at most). Whether the sender is the DM is the
+ * handler's check, not the gate's.
+ */
+export function validateSetTableMacrosMessage(message: MessageRecord): ValidationResult {
+  return validateMacroList("set-table-macros", message.macros, MACRO_LIMITS.TABLE_MAX);
+}
+
+/** Spread into validation.ts's table, like turnOrderValidators. */
+export const macroValidators = {
+  "set-character-macros": validateSetCharacterMacrosMessage,
+  "set-table-macros": validateSetTableMacrosMessage,
+};
@@ -145,6 +145,36 @@ const splineElement = z
   })
   .strict();
 
+// Movement area: a closed polygon of ground that is difficult or impassable.
+// Three points is the smallest polygon; the same ceiling as a shape outline.
+const areaElement = z
+  .object({
+    ...elementBase,
+    type: z.literal("area"),
+    data: z
+      .object({
+        points: z.array(point).min(3).max(5000),
+        movement: z.enum(["difficult", "impassable"]),
+      })
+      .strict(),
+  })
+  .strict();
+
+// Map link: a box tokens stand in, and the point on a map it sends them to.
+// Exported for update-link, which replaces the whole data block.
+export const linkData = z
+  .object({
+    kind: z.enum(["stairs", "ladder", "portal", "map-edge"]),
+    label: z.string().trim().min(1).max(60),
+    width: positive.max(10000),
+    height: positive.max(10000),
+    target: z.object({ documentId: id, x: finite, y: finite }).strict(),
+    playersMayUse: z.boolean(),
+  })
+  .strict();
+
+const linkElement = z.object({ ...elementBase, type: z.literal("link"), data: linkData }).strict();
+
 export const element = z.discriminatedUnion("type", [
   tileElement,
   stampElement,
@@ -154,4 +184,6 @@ export const element = z.discriminatedUnion("type", [
   lightElement,
   textElement,
   splineElement,
+  areaElement,
+  linkElement,
 ]);
@@ -7,6 +7,7 @@ import {
   element,
   finite,
   id,
+  linkData,
   name,
   positive,
   transform,
@@ -122,6 +123,9 @@ const command = z.discriminatedUnion("type", [
       width: positive.max(1000),
     })
     .strict(),
+  z
+    .object({ ...commandBase, type: z.literal("update-link"), elementId: id, link: linkData })
+    .strict(),
   z.object({ ...commandBase, type: z.literal("remove-element"), elementId: id }).strict(),
   z.object({ ...commandBase, type: z.literal("paint-terrain"), cells: terrainCells }).strict(),
   z
@@ -3,10 +3,11 @@
 // ============================================================================
 // Validates map and drawing-related messages
 
-import { DIAGONAL_RULES, MONSTER_HP_DISPLAY_MODES } from "@herobyte/shared";
+import { DIAGONAL_RULES, MONSTER_HP_DISPLAY_MODES, sanitizeExploredMask } from "@herobyte/shared";
 import type { ValidationResult, MessageRecord } from "./commonValidators.js";
 import {
   isFiniteNumber,
+  isRecord,
   validateDrawingPayload,
   validatePartialSegment,
   MAX_PARTIAL_SEGMENTS,
@@ -138,6 +139,48 @@ export function validateSetDiagonalRuleMessage(message: MessageRecord): Validati
   return { valid: true };
 }
 
+/**
+ * Validate set-movement-budget message
+ * Required: enabled (boolean)
+ */
+export function validateSetMovementBudgetMessage(message: MessageRecord): ValidationResult {
+  if (typeof message.enabled !== "boolean") {
+    return { valid: false, error: "set-movement-budget: enabled must be a boolean" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate explored-fog message (a player's explored-area upload)
+ * Required: mask — geometry matching its scene size, bits of exactly that size.
+ * The uid is the connection's, stamped by the handler; a placeholder stands in
+ * here so the shared sanitizer can check everything else.
+ */
+export function validateExploredFogMessage(message: MessageRecord): ValidationResult {
+  const { mask } = message;
+  if (!isRecord(mask) || "uid" in mask || !sanitizeExploredMask({ ...mask, uid: "sender" })) {
+    return { valid: false, error: "explored-fog: invalid mask" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate set-explored-fog message
+ * Required: action (reset|reveal). Optional: uid (one player; absent = all)
+ */
+export function validateSetExploredFogMessage(message: MessageRecord): ValidationResult {
+  if (message.action !== "reset" && message.action !== "reveal") {
+    return { valid: false, error: "set-explored-fog: action must be reset or reveal" };
+  }
+  if (
+    message.uid !== undefined &&
+    (typeof message.uid !== "string" || message.uid.length === 0 || message.uid.length > 256)
+  ) {
+    return { valid: false, error: "set-explored-fog: uid must be a player uid" };
+  }
+  return { valid: true };
+}
+
 /**
  * Validate measure message (the live measurement relayed to the table)
  * Required: measure — either null (stop measuring) or { start, end } with
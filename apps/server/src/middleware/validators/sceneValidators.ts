@@ -0,0 +1,71 @@
+// ============================================================================
+// SCENE LIST VALIDATION
+// ============================================================================
+// The DM's create/activate/duplicate/delete scene messages. Names go through
+// the shared sanitizer so the server and the DM menu agree on what a usable
+// one is; whether the scene exists is the handler's question, not this one's.
+// Map link use lives here too, being the other message that moves things
+// between scenes.
+
+import { MAX_MAP_LINK_TOKENS, sanitizeSceneName } from "@herobyte/shared";
+import type { ValidationResult, MessageRecord } from "./commonValidators.js";
+
+function isSceneId(value: unknown): boolean {
+  return typeof value === "string" && value.length > 0 && value.length <= 128;
+}
+
+/**
+ * Validate create-scene message
+ * Required: name (non-empty after trimming, MAX_SCENE_NAME_LENGTH at most)
+ */
+export function validateCreateSceneMessage(message: MessageRecord): ValidationResult {
+  if (!sanitizeSceneName(message.name)) {
+    return { valid: false, error: "create-scene: invalid name" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate duplicate-scene message
+ * Required: sceneId, name (the copy's)
+ */
+export function validateDuplicateSceneMessage(message: MessageRecord): ValidationResult {
+  if (!isSceneId(message.sceneId)) {
+    return { valid: false, error: "duplicate-scene: missing or invalid sceneId" };
+  }
+  if (!sanitizeSceneName(message.name)) {
+    return { valid: false, error: "duplicate-scene: invalid name" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate activate-scene, delete-scene
+ * Required: sceneId
+ */
+export function validateSceneIdMessage(message: MessageRecord): ValidationResult {
+  if (!isSceneId(message.sceneId)) {
+    return { valid: false, error: `${String(message.t)}: missing or invalid sceneId` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate use-map-link message
+ * Required: linkId, tokenIds (1 to MAX_MAP_LINK_TOKENS ids)
+ */
+export function validateUseMapLinkMessage(message: MessageRecord): ValidationResult {
+  if (!isSceneId(message.linkId)) {
+    return { valid: false, error: "use-map-link: missing or invalid linkId" };
+  }
+  const { tokenIds } = message;
+  if (
+    !Array.isArray(tokenIds) ||
+    tokenIds.length === 0 ||
+    tokenIds.length > MAX_MAP_LINK_TOKENS ||
+    !tokenIds.every(isSceneId)
+  ) {
+    return { valid: false, error: "use-map-link: invalid tokenIds" };
+  }
+  return { valid: true };
+}
@@ -9,6 +9,16 @@
 // crossed the ceiling when chatLog was added to SNAPSHOT_LIMITS).
 
 import { z } from "zod";
+import {
+  BESTIARY_LIMITS,
+  COMBAT_LOG_LIMITS,
+  INITIATIVE_LIMITS,
+  MACRO_LIMITS,
+  MAX_EXPLORED_SCENES_PER_PLAYER,
+  MAX_FOG_REGIONS,
+  MAX_SCENES,
+  MAX_SCENE_NAME_LENGTH,
+} from "@herobyte/shared";
 import type { MessageRecord, ValidationResult } from "./commonValidators.js";
 import { isRecord } from "./commonValidators.js";
 import { importDocument } from "./mapStudioValidators.js";
@@ -35,15 +45,11 @@ const mapDocuments = z
   .array(importDocument)
   .max(MAX_SESSION_DOCUMENTS, { message: `exceeds ${MAX_SESSION_DOCUMENTS} map documents` });
 
-const envelopeSchema = z.object({
-  mapDocuments: mapDocuments.optional(),
-  liveMapDocumentId: z.string().trim().min(1).max(128).optional(),
-});
-
 /**
- * Validate the map-document half of a load-session message. Both fields are
- * optional: a legacy save file is a bare snapshot with neither, and must still
- * load (it just restores a map that cannot be edited afterwards).
+ * Validate the envelope half of a load-session message: the map documents and
+ * the saved scenes. All optional: a legacy save file is a bare snapshot with
+ * none, and must still load (it just restores a map that cannot be edited
+ * afterwards).
  */
 export function validateLoadSessionEnvelope(message: MessageRecord): ValidationResult {
   const result = envelopeSchema.safeParse(message);
@@ -93,8 +99,51 @@ export const SNAPSHOT_LIMITS = {
   diceRolls: 1000,
   sceneObjects: 5000,
   chatLog: 200,
+  // One mask per remembered scene for every player the file may hold.
+  exploredFog: 100 * MAX_EXPLORED_SCENES_PER_PLAYER,
+  // A full region stack on each of twenty painted scenes.
+  fogRegions: 20 * MAX_FOG_REGIONS,
+  bestiary: BESTIARY_LIMITS.TEMPLATES_MAX,
+  tableMacros: MACRO_LIMITS.TABLE_MAX,
+  combatLog: COMBAT_LOG_LIMITS.EVENTS_MAX,
+  initiativeOrder: INITIATIVE_LIMITS.ORDER_MAX,
 } as const;
 
+/**
+ * A saved scene's content becomes live state the moment the DM activates it,
+ * so each of its collections is held to the same cap as the snapshot's. The
+ * loader (coerceSceneList) still rebuilds every field; this only bounds what
+ * it is asked to read.
+ */
+const capped = (limit: number) => z.array(z.record(z.unknown())).max(limit).optional();
+
+const sceneContent = z
+  .object({
+    tokens: capped(SNAPSHOT_LIMITS.tokens),
+    props: capped(SNAPSHOT_LIMITS.props),
+    drawings: capped(SNAPSHOT_LIMITS.drawings),
+    sceneObjects: capped(SNAPSHOT_LIMITS.sceneObjects),
+    exploredFog: capped(SNAPSHOT_LIMITS.exploredFog),
+    fogRegions: capped(SNAPSHOT_LIMITS.fogRegions),
+  })
+  .passthrough();
+
+const sceneList = z
+  .array(
+    z.object({
+      id: z.string().min(1).max(128),
+      name: z.string().trim().min(1).max(MAX_SCENE_NAME_LENGTH),
+      content: sceneContent.optional(),
+    }),
+  )
+  .max(MAX_SCENES, { message: `exceeds ${MAX_SCENES} scenes` });
+
+const envelopeSchema = z.object({
+  mapDocuments: mapDocuments.optional(),
+  liveMapDocumentId: z.string().trim().min(1).max(128).optional(),
+  scenes: sceneList.optional(),
+});
+
 /**
  * Validate load-session message
  * Required: snapshot (object with players, tokens, drawings arrays)
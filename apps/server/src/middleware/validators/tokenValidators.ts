@@ -1,9 +1,17 @@
 // ============================================================================
 // TOKEN VALIDATION
 // ============================================================================
-// Validates token-related messages: move, recolor, delete, update-image, set-size, set-color
+// Validates token-related messages: move, recolor, delete, update-image, set-size, set-color,
+// the vision inputs (vision radius, senses, carried light) and walking speed
 
-import { VISION_RADIUS_MAX_FEET, VISION_RADIUS_MIN_FEET } from "@herobyte/shared";
+import {
+  SENSE_KINDS,
+  TOKEN_LIGHT_KINDS,
+  TOKEN_SPEED_MAX_FEET,
+  VISION_RADIUS_MAX_FEET,
+  VISION_RADIUS_MIN_FEET,
+  sanitizeDragRoute,
+} from "@herobyte/shared";
 import type { ValidationResult, MessageRecord } from "./commonValidators.js";
 import { isFiniteNumber, isRecord, VALID_TOKEN_SIZES } from "./commonValidators.js";
 import { STRING_LIMITS } from "./constants.js";
@@ -109,6 +117,101 @@ export function validateSetTokenVisionRadiusMessage(message: MessageRecord): Val
   return { valid: true };
 }
 
+/**
+ * Validate set-token-senses message
+ * Required: tokenId (string), senses (null for none, or an object whose keys
+ * are sense kinds and whose values are feet in the vision-radius range)
+ *
+ * Strict rather than coercing: an unknown key is a client bug worth hearing
+ * about, not something to drop silently. Zero is accepted and means "does not
+ * have this sense" — the UI clears one sense that way without rebuilding the
+ * whole profile.
+ */
+export function validateSetTokenSensesMessage(message: MessageRecord): ValidationResult {
+  if (typeof message.tokenId !== "string" || message.tokenId.length === 0) {
+    return { valid: false, error: "set-token-senses: tokenId required" };
+  }
+  if (message.senses === null) {
+    return { valid: true };
+  }
+  if (!isRecord(message.senses) || Array.isArray(message.senses)) {
+    return { valid: false, error: "set-token-senses: senses must be an object or null" };
+  }
+  for (const [kind, range] of Object.entries(message.senses)) {
+    if (!(SENSE_KINDS as readonly string[]).includes(kind)) {
+      return { valid: false, error: `set-token-senses: unknown sense "${kind}"` };
+    }
+    if (
+      !isFiniteNumber(range) ||
+      range < VISION_RADIUS_MIN_FEET ||
+      range > VISION_RADIUS_MAX_FEET
+    ) {
+      return {
+        valid: false,
+        error: `set-token-senses: ${kind} must be between ${VISION_RADIUS_MIN_FEET} and ${VISION_RADIUS_MAX_FEET} feet`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate set-token-light message
+ * Required: tokenId (string), light (null to put it out, or { kind, radiusFeet,
+ * color } with a known kind, a range above 0 and at most the vision ceiling,
+ * and a colour under the same limits as set-token-color).
+ */
+export function validateSetTokenLightMessage(message: MessageRecord): ValidationResult {
+  if (typeof message.tokenId !== "string" || message.tokenId.length === 0) {
+    return { valid: false, error: "set-token-light: tokenId required" };
+  }
+  if (message.light === null) {
+    return { valid: true };
+  }
+  if (!isRecord(message.light) || Array.isArray(message.light)) {
+    return { valid: false, error: "set-token-light: light must be an object or null" };
+  }
+  const { kind, radiusFeet, color } = message.light;
+  if (typeof kind !== "string" || !(TOKEN_LIGHT_KINDS as readonly string[]).includes(kind)) {
+    return { valid: false, error: "set-token-light: unknown light kind" };
+  }
+  if (!isFiniteNumber(radiusFeet) || radiusFeet <= 0 || radiusFeet > VISION_RADIUS_MAX_FEET) {
+    return {
+      valid: false,
+      error: `set-token-light: radiusFeet must be above 0 and at most ${VISION_RADIUS_MAX_FEET} feet`,
+    };
+  }
+  if (typeof color !== "string") {
+    return { valid: false, error: "set-token-light: color must be a string" };
+  }
+  const trimmed = color.trim();
+  if (trimmed.length < STRING_LIMITS.COLOR_MIN || trimmed.length > STRING_LIMITS.COLOR_MAX) {
+    return { valid: false, error: "set-token-light: color must be 1-128 chars" };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate set-token-speed message
+ * Required: tokenId (string), speed (null for the default, or feet from 0 to
+ * the shared ceiling — 0 is a real speed: grappled, restrained)
+ */
+export function validateSetTokenSpeedMessage(message: MessageRecord): ValidationResult {
+  if (typeof message.tokenId !== "string" || message.tokenId.length === 0) {
+    return { valid: false, error: "set-token-speed: tokenId required" };
+  }
+  if (message.speed === null) {
+    return { valid: true };
+  }
+  if (!isFiniteNumber(message.speed) || message.speed < 0 || message.speed > TOKEN_SPEED_MAX_FEET) {
+    return {
+      valid: false,
+      error: `set-token-speed: speed must be null or between 0 and ${TOKEN_SPEED_MAX_FEET} feet`,
+    };
+  }
+  return { valid: true };
+}
+
 /**
  * Validate set-token-color message
  * Required: tokenId (string), color (non-empty string, max 128 chars)
@@ -133,6 +236,7 @@ export function validateSetTokenColorMessage(message: MessageRecord): Validation
 /**
  * Validate drag-preview message
  * Required: objects (array of { id: string; x: number; y: number })
+ * Optional per object: route ({ from: cell; waypoints: cell[] }, see dragRoute.ts)
  */
 export function validateDragPreviewMessage(message: MessageRecord): ValidationResult {
   if (!Array.isArray(message.objects)) {
@@ -156,6 +260,10 @@ export function validateDragPreviewMessage(message: MessageRecord): ValidationRe
     if (!isFiniteNumber(entry.x) || !isFiniteNumber(entry.y)) {
       return { valid: false, error: `drag-preview: object ${index} missing coordinates` };
     }
+
+    if (entry.route !== undefined && !sanitizeDragRoute(entry.route)) {
+      return { valid: false, error: `drag-preview: object ${index} has an invalid route` };
+    }
   }
 
   return { valid: true };
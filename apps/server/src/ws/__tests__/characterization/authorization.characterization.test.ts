@@ -100,7 +100,15 @@ describe("MessageRouter - Authorization Characterization", () => {
       monsterHpDisplay: "exact" as const,
       diagonalRule: "5e" as const,
       playerPropsEnabled: false,
+      movementBudgetEnabled: false,
       defaultVisionRadius: null,
+      exploredFog: [],
+      fogRegions: [],
+      scenes: [],
+      bestiary: [],
+      tableMacros: [],
+      combatLog: [],
+      combatMode: "individual",
     };
 
     // Create minimal mocks that return success without deep execution
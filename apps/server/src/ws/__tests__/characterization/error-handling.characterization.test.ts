@@ -89,7 +89,15 @@ describe("MessageRouter - Error Handling Characterization", () => {
       monsterHpDisplay: "exact" as const,
       diagonalRule: "5e" as const,
       playerPropsEnabled: false,
+      movementBudgetEnabled: false,
       defaultVisionRadius: null,
+      exploredFog: [],
+      fogRegions: [],
+      scenes: [],
+      bestiary: [],
+      tableMacros: [],
+      combatLog: [],
+      combatMode: "individual",
     };
 
     mockRoomService = {
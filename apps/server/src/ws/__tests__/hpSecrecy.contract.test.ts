@@ -184,6 +184,22 @@ describe("monster HP secrecy contracts", () => {
     expect(rawBytesSentTo(aliceWs)).not.toContain(String(SECRET_TEMP_HP));
   });
 
+  it("an NPC's AC and saves go with its numbers, and a roll at it carries only the verdict", () => {
+    const npc = roomService.getState().characters[0]!;
+    npc.ac = 17;
+    npc.savingThrows = { dex: 2 };
+    route({ t: "set-monster-hp-display", mode: "hidden" }, DM);
+    route({ t: "dice-roll", formula: "d20+3", targetId: "npc-goblin" }, ALICE);
+
+    const seen = npcsSeenBy(aliceWs).at(-1);
+    expect(seen?.ac).toBeUndefined();
+    expect(seen?.savingThrows).toBeUndefined();
+    expect(rawBytesSentTo(aliceWs)).not.toContain(`"ac"`);
+    expect(rawBytesSentTo(aliceWs)).not.toContain(`"savingThrows"`);
+    expect(rawBytesSentTo(aliceWs)).toContain(`"outcome"`);
+    expect(npcsSeenBy(dmWs).at(-1)).toMatchObject({ ac: 17, savingThrows: { dex: 2 } });
+  });
+
   it("the DM always sees exact numbers, whatever the mode", () => {
     route({ t: "set-monster-hp-display", mode: "hidden" }, DM);
 
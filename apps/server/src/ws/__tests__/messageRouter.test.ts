@@ -72,7 +72,15 @@ describe("MessageRouter", () => {
       monsterHpDisplay: "exact" as const,
       diagonalRule: "5e" as const,
       playerPropsEnabled: false,
+      movementBudgetEnabled: false,
       defaultVisionRadius: null,
+      exploredFog: [],
+      fogRegions: [],
+      scenes: [],
+      bestiary: [],
+      tableMacros: [],
+      combatLog: [],
+      combatMode: "individual",
     };
 
     const snapshotTemplate: RoomSnapshot = {
@@ -1099,7 +1107,7 @@ describe("MessageRouter", () => {
       const msg: ClientMessage = { t: "load-session", snapshot };
       routeAndFlush(msg, "player-1");
 
-      expect(mockRoomService.loadSnapshot).toHaveBeenCalledWith(snapshot);
+      expect(mockRoomService.loadSnapshot).toHaveBeenCalledWith(snapshot, undefined);
       expect(mockRoomService.broadcast).toHaveBeenCalled();
       expect(mockRoomService.saveState).toHaveBeenCalled();
     });
@@ -0,0 +1,188 @@
+// ============================================================================
+// MOVEMENT BUDGET CONTRACTS
+// ============================================================================
+// The budget is only worth having if the real router enforces it on the
+// messages a client actually sends: the DM alone switches it on and sets
+// speeds, a player's `move` is held to the speed on their own turn, the
+// `next-turn` a player sends refills it, and the DM's own moves are free.
+//
+// Copies the measurement contract harness: real router, real room service,
+// fake sockets.
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import path from "node:path";
+import type { WebSocket, WebSocketServer } from "ws";
+import {
+  compileScene,
+  createMapDocument,
+  createTerrainMap,
+  setTerrainCells,
+  type ClientMessage,
+} from "@herobyte/shared";
+import { MessageRouter } from "../messageRouter.js";
+import { RoomService } from "../../domains/room/service.js";
+import { PlayerService } from "../../domains/player/service.js";
+import { TokenService } from "../../domains/token/service.js";
+import { MapService } from "../../domains/map/service.js";
+import { DiceService } from "../../domains/dice/service.js";
+import { CharacterService } from "../../domains/character/service.js";
+import { PropService } from "../../domains/prop/service.js";
+import { SelectionService } from "../../domains/selection/service.js";
+import type { AuthService } from "../../domains/auth/service.js";
+
+const ALICE = "alice-uid";
+const BOB = "bob-uid";
+const DM = "dm-uid";
+
+function player(uid: string, name: string, isDM: boolean) {
+  return {
+    uid,
+    name,
+    portrait: undefined,
+    isDM,
+    hp: 10,
+    maxHp: 10,
+    micLevel: 0,
+    lastHeartbeat: Date.now(),
+    statusEffects: [],
+  };
+}
+
+function token(id: string, owner: string, y: number) {
+  return { id, owner, x: 0, y, color: "red" };
+}
+
+function pc(id: string, owner: string, tokenId: string, initiative: number) {
+  return {
+    id,
+    type: "pc" as const,
+    name: id,
+    hp: 10,
+    maxHp: 10,
+    tokenId,
+    ownedByPlayerUID: owner,
+    initiative,
+  };
+}
+
+describe("movement budget contracts", () => {
+  let router: MessageRouter;
+  let roomService: RoomService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    roomService = new RoomService({
+      stateFile: path.join(process.cwd(), ".tmp", "movement-budget-contract-state.json"),
+    });
+    // Alice (initiative 18) acts before Bob (12); the fight is on, Alice's turn.
+    roomService.setState({
+      players: [player(ALICE, "Alice", false), player(BOB, "Bob", false), player(DM, "Dee", true)],
+      characters: [pc("alice-pc", ALICE, "alice-token", 18), pc("bob-pc", BOB, "bob-token", 12)],
+      tokens: [token("alice-token", ALICE, 0), token("bob-token", BOB, 4)],
+      pointers: [],
+      sceneObjects: [],
+      chatLog: [],
+      fogEnabled: false,
+      combatActive: true,
+      currentTurnCharacterId: "alice-pc",
+    });
+
+    const sockets = [ALICE, BOB, DM].map(
+      (uid) => [uid, { readyState: 1, send: vi.fn() } as unknown as WebSocket] as const,
+    );
+    const uidToWs = new Map<string, WebSocket>(sockets);
+    const clients = new Set<WebSocket>(uidToWs.values());
+
+    router = new MessageRouter(
+      roomService,
+      new PlayerService(),
+      new TokenService(),
+      new MapService(),
+      new DiceService(),
+      new CharacterService(),
+      new PropService(),
+      new SelectionService(),
+      {} as unknown as AuthService,
+      {} as unknown as WebSocketServer,
+      uidToWs,
+      () => clients,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function route(message: ClientMessage, senderUid: string): void {
+    router.route(message, senderUid);
+    vi.advanceTimersByTime(50);
+  }
+
+  function positionOf(tokenId: string) {
+    const found = roomService.getState().tokens.find((candidate) => candidate.id === tokenId);
+    return { x: found?.x, y: found?.y };
+  }
+
+  it("only the DM can switch the budget on or set a speed", () => {
+    route({ t: "set-movement-budget", enabled: true }, ALICE);
+    route({ t: "set-token-speed", tokenId: "alice-token", speed: 120 }, ALICE);
+    expect(roomService.getState().movementBudgetEnabled).toBe(false);
+    expect(roomService.getState().tokens[0]?.speed).toBeUndefined();
+
+    route({ t: "set-movement-budget", enabled: true }, DM);
+    route({ t: "set-token-speed", tokenId: "alice-token", speed: 40 }, DM);
+    expect(roomService.getState().movementBudgetEnabled).toBe(true);
+    expect(roomService.getState().tokens[0]?.speed).toBe(40);
+  });
+
+  it("holds a player's moves to their speed on their own turn, and refills it next turn", () => {
+    route({ t: "set-movement-budget", enabled: true }, DM);
+
+    // 30 ft is six squares: a 40 ft move is refused outright, not clipped.
+    route({ t: "move", id: "alice-token", x: 8, y: 0 }, ALICE);
+    expect(positionOf("alice-token")).toEqual({ x: 0, y: 0 });
+    route({ t: "move", id: "alice-token", x: 6, y: 0 }, ALICE);
+    expect(positionOf("alice-token")).toEqual({ x: 6, y: 0 });
+
+    // Bob may not move on Alice's turn.
+    route({ t: "move", id: "bob-token", x: 1, y: 4 }, BOB);
+    expect(positionOf("bob-token")).toEqual({ x: 0, y: 4 });
+
+    route({ t: "next-turn" }, ALICE);
+    route({ t: "move", id: "bob-token", x: 6, y: 4 }, BOB);
+    expect(positionOf("bob-token")).toEqual({ x: 6, y: 4 });
+  });
+
+  it("charges double for the difficult squares a walk wades through", () => {
+    // A stream down column 3, the length of the map: crossing it is the only
+    // sensible way east, and its square costs 10 ft.
+    const document = {
+      ...createMapDocument({ id: "ford", name: "Ford", timestamp: 1 }),
+      terrain: setTerrainCells(
+        createTerrainMap(),
+        Array.from({ length: 40 }, (_, y) => ({ x: 3, y, assetId: "terrain:water" })),
+      ),
+    };
+    // Alice stands mid-bank, too far from either end to walk round.
+    roomService.setState({
+      compiledScene: compileScene(document, 1),
+      tokens: [token("alice-token", ALICE, 10), token("bob-token", BOB, 4)],
+    });
+    route({ t: "set-movement-budget", enabled: true }, DM);
+
+    // Six squares east would be 30 ft on dry ground; across the stream it is 35.
+    route({ t: "move", id: "alice-token", x: 6, y: 10 }, ALICE);
+    expect(positionOf("alice-token")).toEqual({ x: 0, y: 10 });
+    route({ t: "move", id: "alice-token", x: 5, y: 10 }, ALICE);
+    expect(positionOf("alice-token")).toEqual({ x: 5, y: 10 });
+  });
+
+  it("never charges or limits the DM", () => {
+    route({ t: "set-movement-budget", enabled: true }, DM);
+
+    route({ t: "move", id: "bob-token", x: 20, y: 4 }, DM);
+    expect(positionOf("bob-token")).toEqual({ x: 20, y: 4 });
+    route({ t: "move", id: "alice-token", x: 6, y: 0 }, ALICE);
+    expect(positionOf("alice-token")).toEqual({ x: 6, y: 0 });
+  });
+});
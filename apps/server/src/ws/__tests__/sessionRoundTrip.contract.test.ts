@@ -17,7 +17,13 @@
 import path from "node:path";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import type { WebSocket, WebSocketServer } from "ws";
-import type { ClientMessage, MapDocument, ServerMessage } from "@herobyte/shared";
+import {
+  maskGeometryFor,
+  type ClientMessage,
+  type MapDocument,
+  type SavedScene,
+  type ServerMessage,
+} from "@herobyte/shared";
 import { MessageRouter } from "../messageRouter.js";
 import { MapStudioService } from "../../domains/mapStudio/service.js";
 import { RoomService } from "../../domains/room/service.js";
@@ -177,6 +183,7 @@ describe("session round trip", () => {
         snapshot: Record<string, unknown>;
         mapDocuments: MapDocument[];
         liveMapDocumentId?: string;
+        scenes?: SavedScene[];
       };
     }>;
     // Through JSON, always. The first version of this helper handed the live
@@ -204,6 +211,7 @@ describe("session round trip", () => {
     selectionState: "per-connection UI state, keyed by uids that no longer exist",
     drawingUndoStacks: "per-player undo history; not table state",
     drawingRedoStacks: "per-player redo history; not table state",
+    fogRegionRedo: "the DM's fog brush redo history; not table state",
     stateVersion: "a monotonic counter the restoring server owns (it max()es)",
     players: "connection metadata; mergeSnapshot merges live players over the file",
     characters: "merged, not replaced — connected players keep their own",
@@ -270,7 +278,35 @@ describe("session round trip", () => {
         } as never,
       ],
       diceRolls: [{ id: "r-1", uid: DM, formula: "1d20", total: 17 } as never],
+      // A scene that is NOT the published one: the DM's wire snapshot only
+      // carries the published scene's memory, so this proves the file carries
+      // every scene rather than what the exporting DM happened to be sent.
+      exploredFog: [
+        {
+          uid: "p-1",
+          sceneId: "last-week",
+          sceneWidth: 80,
+          sceneHeight: 40,
+          ...maskGeometryFor(80, 40),
+          epoch: 3,
+          bits: "",
+        },
+      ],
+      // Same point for painted fog: the file carries every scene's regions.
+      fogRegions: [
+        {
+          id: "fr-1",
+          sceneId: "last-week",
+          mode: "reveal",
+          shape: "stroke",
+          points: [{ x: 5, y: 5 }],
+          radius: 10,
+        },
+      ],
     });
+    // A second scene off the table: its content exists nowhere in the
+    // snapshot, so only the file's scene list can bring it back.
+    origin.route({ t: "create-scene", name: "Dungeon" });
 
     const before = origin.roomService.getState();
     const file = exportSession();
@@ -280,6 +316,7 @@ describe("session round trip", () => {
       snapshot: file.snapshot as never,
       mapDocuments: file.mapDocuments,
       liveMapDocumentId: file.liveMapDocumentId,
+      scenes: file.scenes,
     });
     const after = restored.roomService.getState();
 
@@ -320,6 +357,11 @@ describe("session round trip", () => {
     expect(after.compiledScene?.walls.length).toBeGreaterThan(0);
     expect(after.mapTerrain).toBeDefined();
     expect(after.liveMapDocumentId).toBe("live");
+    expect(after.exploredFog).toEqual(before.exploredFog);
+    expect(after.fogRegions).toEqual(before.fogRegions);
+    expect(after.activeSceneId).toBe(before.activeSceneId);
+    expect(after.scenes.map((scene) => scene.name)).toEqual(["Scene 1", "Dungeon"]);
+    expect(after.scenes[1]!.content).toEqual(before.scenes[1]!.content);
   });
 
   it("writes a file the loaders can actually read", () => {
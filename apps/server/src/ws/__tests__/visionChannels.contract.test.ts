@@ -93,12 +93,14 @@ describe("vision-filtered channel contracts", () => {
         width: 400,
         height: 400,
         walls: [
+          // Runs well past both map edges: moves are pathfound, and a wall
+          // that stops at the edge can be walked round just off the map.
           {
             id: "divider",
             x1: 200,
-            y1: 0,
+            y1: -2000,
             x2: 200,
-            y2: 400,
+            y2: 2400,
             blocksMovement: true,
             blocksVision: true,
           },
@@ -307,6 +309,22 @@ describe("vision-filtered channel contracts", () => {
       expect(frames[0]!.preview.objects).toHaveLength(1);
     });
 
+    it("routes the drag to the DM but keeps its start and pins from a watcher", () => {
+      const dragRoute = { from: { x: 1, y: 1 }, waypoints: [{ x: 1, y: 3 }] };
+      route(
+        { t: "drag-preview", objects: [{ id: "token:t-mover", x: 2, y: 3, route: dragRoute }] },
+        MOVER,
+      );
+
+      const objectsOf = (socket: FakeSocket) =>
+        (framesOf(socket, "drag-preview") as { preview: { objects: { route?: unknown }[] } }[])[0]!
+          .preview.objects;
+      expect(objectsOf(dmWs)[0]!.route).toEqual(dragRoute);
+      expect(objectsOf(moverWs)[0]!.route).toEqual(dragRoute);
+      expect(objectsOf(watcherWs)).toHaveLength(1);
+      expect(objectsOf(watcherWs)[0]!.route).toBeUndefined();
+    });
+
     it("always shows owners their own token being dragged by the DM", () => {
       // The DM drags the watcher's token deep into fog the watcher cannot see.
       route({ t: "drag-preview", objects: [{ id: "token:t-watch", x: 6, y: 5 }] }, DM);
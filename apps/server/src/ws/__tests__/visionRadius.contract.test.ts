@@ -67,6 +67,14 @@ function rawBytesSentTo(socket: FakeSocket): string {
   return socket.send.mock.calls.map(([payload]) => String(payload)).join("\n");
 }
 
+/** How many pointer frames this socket has been relayed. */
+function pointerFramesSeenBy(socket: FakeSocket): number {
+  return socket.send.mock.calls.filter(([payload]) => {
+    const message = JSON.parse(String(payload)) as { t?: string };
+    return message.t === "pointer-preview";
+  }).length;
+}
+
 // A 400x400 open scene. Nothing occludes, so anything hidden is hidden by the
 // RADIUS and nothing else.
 function openScene(): CompiledScene {
@@ -323,13 +331,6 @@ describe("vision radius contracts (S7)", () => {
   // (A DM's ping is narration and reaches everyone unfiltered, so it cannot
   // show this — Bob has to be the one pointing.)
   describe("the cached vision path sees the change immediately", () => {
-    function pointerFramesSeenBy(socket: FakeSocket): number {
-      return socket.send.mock.calls.filter(([payload]) => {
-        const message = JSON.parse(String(payload)) as { t?: string };
-        return message.t === "pointer-preview";
-      }).length;
-    }
-
     it("stops relaying a ping that a newly-limited player can no longer see", () => {
       // Warm the cache: with unlimited sight Bob's ping is inside Alice's.
       route({ t: "point", x: 275, y: 75 }, BOB);
@@ -388,4 +389,99 @@ describe("vision radius contracts (S7)", () => {
       expect(pointerFramesSeenBy(aliceWs)).toBeGreaterThan(0);
     });
   });
+
+  // Senses ride the same vision, so they share its contracts: DM-only, and
+  // they change the player's BYTES, immediately.
+  describe("sense profiles, through the real router", () => {
+    function sensesOf(tokenId: string) {
+      return roomService.getState().tokens.find((token) => token.id === tokenId)?.senses;
+    }
+
+    it("a DM sets senses, and a player cannot grant their own", () => {
+      route({ t: "set-token-senses", tokenId: "alice-token", senses: { blindsight: 30 } }, ALICE);
+      expect(sensesOf("alice-token")).toBeUndefined();
+
+      route({ t: "set-token-senses", tokenId: "alice-token", senses: { blindsight: 30 } }, DM);
+      expect(sensesOf("alice-token")).toEqual({ blindsight: 30 });
+    });
+
+    it("clears to no field at all, whether by null or by zeroed ranges", () => {
+      route({ t: "set-token-senses", tokenId: "alice-token", senses: { darkvision: 60 } }, DM);
+      route({ t: "set-token-senses", tokenId: "alice-token", senses: { darkvision: 0 } }, DM);
+      expect("senses" in roomService.getState().tokens[0]!).toBe(false);
+    });
+
+    it("lets a blinded token perceive by blindsight, the moment it is set", () => {
+      route({ t: "set-token-vision-radius", tokenId: "alice-token", radius: 0 }, DM);
+      expect(tokenIdsLastSeenBy(aliceWs)).toEqual(["alice-token"]);
+
+      route({ t: "set-token-senses", tokenId: "alice-token", senses: { blindsight: 30 } }, DM);
+      expect(tokenIdsLastSeenBy(aliceWs)).toContain("far-monster");
+    });
+
+    it("lets tremorsense feel a token, but relays nothing else from there", () => {
+      route({ t: "set-token-vision-radius", tokenId: "alice-token", radius: 0 }, DM);
+      route({ t: "set-token-senses", tokenId: "alice-token", senses: { tremorsense: 30 } }, DM);
+      expect(tokenIdsLastSeenBy(aliceWs)).toContain("far-monster");
+
+      aliceWs.send.mockClear();
+      route({ t: "point", x: 275, y: 75 }, BOB);
+      expect(pointerFramesSeenBy(aliceWs)).toBe(0);
+    });
+  });
+
+  // A carried light is the one vision input a player sets themselves, and the
+  // one that changes what OTHER players see: Bob, in the dark, sees what
+  // Alice's candle lights, wherever she carries it.
+  describe("carried lights, through the real router", () => {
+    const CANDLE = { kind: "candle", radiusFeet: 10, color: "#ffcc66" } as const;
+
+    function lightOf(tokenId: string) {
+      return roomService.getState().tokens.find((token) => token.id === tokenId)?.light;
+    }
+
+    /** Light ids in the compiled scene of the LAST full snapshot this socket received. */
+    function lightIdsLastSeenBy(socket: FakeSocket): string[] | null {
+      for (let i = socket.send.mock.calls.length - 1; i >= 0; i -= 1) {
+        const message = JSON.parse(String(socket.send.mock.calls[i]![0])) as {
+          t?: string;
+          tokens?: unknown[];
+          compiledScene?: CompiledScene;
+        };
+        if (message.t === undefined && message.tokens) {
+          return message.compiledScene?.lights.map((light) => light.id) ?? null;
+        }
+      }
+      return null;
+    }
+
+    beforeEach(() => {
+      const state = roomService.getState();
+      state.compiledScene = { ...openScene(), ambient: 0 };
+      // Bob stands at cell (1,6) = world (75,325), in the dark.
+      state.tokens.push({ id: "bob-token", owner: BOB, x: 1, y: 6, color: "blue" });
+    });
+
+    it("the owner lights their own token, another player cannot, and a DM can put it out", () => {
+      route({ t: "set-token-light", tokenId: "alice-token", light: CANDLE }, BOB);
+      expect(lightOf("alice-token")).toBeUndefined();
+
+      route({ t: "set-token-light", tokenId: "alice-token", light: CANDLE }, ALICE);
+      expect(lightOf("alice-token")).toEqual(CANDLE);
+
+      route({ t: "set-token-light", tokenId: "alice-token", light: null }, DM);
+      expect("light" in roomService.getState().tokens[0]!).toBe(false);
+    });
+
+    it("shows another player what the light reaches, and moves it with the token", () => {
+      route({ t: "set-token-light", tokenId: "alice-token", light: CANDLE }, ALICE);
+      // The candle reaches 100 px: Alice, not the monster 200 px away.
+      expect(tokenIdsLastSeenBy(bobWs)).toEqual(["alice-token", "bob-token"]);
+      expect(lightIdsLastSeenBy(bobWs)).toEqual(["token:alice-token"]);
+
+      // Alice walks to cell (4,1), 50 px from the monster. Bob never moved.
+      route({ t: "move", id: "alice-token", x: 4, y: 1 }, ALICE);
+      expect(tokenIdsLastSeenBy(bobWs)).toContain("far-monster");
+    });
+  });
 });
@@ -4,6 +4,7 @@ import { handleForkTable, type ForkTableDeps } from "../tableFork.js";
 import { RoomService } from "../../../domains/room/service.js";
 import { MapStudioService } from "../../../domains/mapStudio/service.js";
 import { InMemoryMapDocumentStore } from "../../../domains/mapStudio/store.js";
+import { createScene } from "../../../domains/room/scene/sceneList.js";
 
 // Scratch state file: a bare `new RoomService({ stateFile: TEST_STATE_FILE })` writes the REAL
 // apps/server/herobyte-state.json, which parallel workers and the dev
@@ -124,6 +125,28 @@ describe("handleForkTable", () => {
     expect(mapStudioService.list("default")).toHaveLength(1);
   });
 
+  it("carries the scene list across as the copy's own", async () => {
+    const { ws, source, rooms, deps } = setup();
+    createScene(source.getState(), "Crypt");
+
+    await handleForkTable(
+      ws,
+      {
+        roomId: "table-keeper",
+        name: "Sunday Game",
+        roomPassword: "a-good-password",
+      },
+      deps,
+    );
+
+    const copy = rooms.get("table-keeper")!.getState();
+    expect(copy.scenes.map((scene) => scene.name)).toEqual(["Scene 1", "Crypt"]);
+    expect(copy.activeSceneId).toBe(source.getState().activeSceneId);
+    // Renaming a scene in the copy must not reach back into the source.
+    copy.scenes[1]!.name = "Renamed";
+    expect(source.getState().scenes[1]!.name).toBe("Crypt");
+  });
+
   it("co-claims the uploads so clearing the source cannot delete them", async () => {
     // Without this the copy references images it does not own, and the next
     // hourly sweep of the test table drops the last claim and deletes them.
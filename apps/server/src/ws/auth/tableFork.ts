@@ -115,8 +115,12 @@ export async function handleForkTable(
     const target = deps.getRoomServiceForRoom(roomId);
 
     // Unfiltered DM view (createSnapshot with no recipient), so secret doors
-    // and hidden NPCs survive the copy. Same path load-session uses.
-    target.loadSnapshot(deps.sourceRoomService.createSnapshot());
+    // and hidden NPCs survive the copy. Same path load-session uses. The saved
+    // scenes ride along as copies: the two tables must never share a token.
+    target.loadSnapshot(
+      deps.sourceRoomService.createSnapshot(),
+      structuredClone(deps.sourceRoomService.getState().scenes),
+    );
     target.setState({ tableName: name, isPublicTable: false });
 
     // Map documents are the live map itself — the whole point of keeping the
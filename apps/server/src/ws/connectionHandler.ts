@@ -11,6 +11,7 @@ import type { Container } from "../container.js";
 import { AuthenticationHandler } from "./auth/AuthenticationHandler.js";
 import { HeartbeatTimeoutManager } from "./lifecycle/HeartbeatTimeoutManager.js";
 import { IdleRoomUnloadManager } from "./lifecycle/IdleRoomUnloadManager.js";
+import { TurnTimerManager } from "./lifecycle/TurnTimerManager.js";
 import { DisconnectionCleanupManager } from "./lifecycle/DisconnectionCleanupManager.js";
 import { ConnectionLifecycleManager } from "./lifecycle/ConnectionLifecycleManager.js";
 import { MessagePipelineManager } from "./message/MessagePipelineManager.js";
@@ -29,6 +30,7 @@ export class ConnectionHandler {
   private lifecycleManager: ConnectionLifecycleManager;
   private heartbeatManager: HeartbeatTimeoutManager;
   private idleRoomManager: IdleRoomUnloadManager;
+  private turnTimerManager: TurnTimerManager;
   private pipelineManager: MessagePipelineManager;
   private authenticator: MessageAuthenticator;
   // Socket → remote IP, recorded at connection time for the per-IP auth
@@ -68,6 +70,7 @@ export class ConnectionHandler {
     );
     this.heartbeatManager = new HeartbeatTimeoutManager(container, this.cleanupManager);
     this.idleRoomManager = new IdleRoomUnloadManager(container);
+    this.turnTimerManager = new TurnTimerManager(container);
     this.pipelineManager = new MessagePipelineManager(
       {
         maxMessageSize: 1024 * 1024, // 1MB
@@ -94,6 +97,9 @@ export class ConnectionHandler {
 
     // Start idle-room unloader (dormant tables cost no memory)
     this.idleRoomManager.start();
+
+    // Start the turn timer's clock (deadlines pass with nobody sending)
+    this.turnTimerManager.start();
   }
 
   /**
@@ -1,5 +1,6 @@
 import type { ClientMessage } from "@herobyte/shared";
 import type { CharacterMessageHandler } from "../handlers/CharacterMessageHandler.js";
+import type { CombatantStatusMessageHandler } from "../handlers/CombatantStatusMessageHandler.js";
 import type { NPCMessageHandler } from "../handlers/NPCMessageHandler.js";
 import type { AuthorizationCheckWrapper } from "../services/AuthorizationCheckWrapper.js";
 import type { RoutingContext } from "../services/MessageRoutingContext.js";
@@ -9,6 +10,7 @@ export class CharacterDispatcher {
   constructor(
     private characterHandler: CharacterMessageHandler,
     private npcHandler: NPCMessageHandler,
+    private statusHandler: CombatantStatusMessageHandler,
     private authWrapper: AuthorizationCheckWrapper,
   ) {}
 
@@ -81,6 +83,42 @@ export class CharacterDispatcher {
           isDM,
         );
 
+      case "set-character-attacks":
+        return this.characterHandler.handleSetCharacterAttacks(
+          state,
+          message.characterId,
+          senderUid,
+          message.attacks,
+          isDM,
+        );
+
+      case "set-character-defenses":
+        return this.characterHandler.handleSetCharacterDefenses(
+          state,
+          message.characterId,
+          senderUid,
+          { ac: message.ac, savingThrows: message.savingThrows },
+          isDM,
+        );
+
+      case "set-character-conditions":
+        return this.characterHandler.handleSetCharacterConditions(
+          state,
+          message.characterId,
+          senderUid,
+          message.conditions,
+          isDM,
+        );
+
+      case "set-death-saves":
+        return this.statusHandler.handleSetDeathSaves(
+          state,
+          message.characterId,
+          senderUid,
+          message.deathSaves,
+          isDM,
+        );
+
       case "set-character-portrait":
         return this.characterHandler.handleSetCharacterPortrait(
           state,
@@ -138,6 +176,50 @@ export class CharacterDispatcher {
           ) ?? {}
         );
 
+      // Combatant Status Actions
+      case "set-character-status":
+        return (
+          this.authWrapper.executeIfDMAuthorized(senderUid, isDM, "set character status", () =>
+            this.statusHandler.handleSetCharacterStatus(state, message.characterId, message.status),
+          ) ?? {}
+        );
+
+      case "remove-defeated":
+        return (
+          this.authWrapper.executeIfDMAuthorized(senderUid, isDM, "remove defeated NPCs", () =>
+            this.statusHandler.handleRemoveDefeated(state),
+          ) ?? {}
+        );
+
+      // Bestiary Actions
+      case "upsert-monster-template":
+        return (
+          this.authWrapper.executeIfDMAuthorized(senderUid, isDM, "edit bestiary", () =>
+            this.npcHandler.handleUpsertMonsterTemplate(state, message.template),
+          ) ?? {}
+        );
+
+      case "delete-monster-template":
+        return (
+          this.authWrapper.executeIfDMAuthorized(senderUid, isDM, "edit bestiary", () =>
+            this.npcHandler.handleDeleteMonsterTemplate(state, message.id),
+          ) ?? {}
+        );
+
+      case "import-bestiary":
+        return (
+          this.authWrapper.executeIfDMAuthorized(senderUid, isDM, "import bestiary", () =>
+            this.npcHandler.handleImportBestiary(state, message.templates),
+          ) ?? {}
+        );
+
+      case "create-npc-from-template":
+        return (
+          this.authWrapper.executeIfDMAuthorized(senderUid, isDM, "create NPC", () =>
+            this.npcHandler.handleCreateNPCFromTemplate(state, message.templateId, message.count),
+          ) ?? {}
+        );
+
       default:
         return null;
     }
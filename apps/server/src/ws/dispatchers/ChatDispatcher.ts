@@ -23,7 +23,7 @@ export class ChatDispatcher {
 
     switch (message.t) {
       case "chat":
-        return this.handler.handleChat(state, senderUid, message.text, message.to);
+        return this.handler.handleChat(state, senderUid, message.text, message.to, context.isDM());
 
       case "clear-chat-log":
         return this.handler.handleClearChatLog(state, senderUid, context.isDM());
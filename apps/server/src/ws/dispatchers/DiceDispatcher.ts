@@ -1,4 +1,5 @@
 import type { ClientMessage } from "@herobyte/shared";
+import type { DiceMacroMessageHandler } from "../handlers/DiceMacroMessageHandler.js";
 import type { DiceMessageHandler } from "../handlers/DiceMessageHandler.js";
 import type { RoutingContext } from "../services/MessageRoutingContext.js";
 import type { RouteHandlerResult } from "../services/RouteResultHandler.js";
@@ -11,7 +12,10 @@ import type { RouteHandlerResult } from "../services/RouteResultHandler.js";
  * total. It now carries only a formula.
  */
 export class DiceDispatcher {
-  constructor(private handler: DiceMessageHandler) {}
+  constructor(
+    private handler: DiceMessageHandler,
+    private macroHandler: DiceMacroMessageHandler,
+  ) {}
 
   dispatch(
     message: ClientMessage,
@@ -28,11 +32,55 @@ export class DiceDispatcher {
           message.formula,
           message.mode,
           message.visibility,
+          message.targetId,
+          context.isDM(),
         );
 
       case "clear-roll-history":
         return this.handler.handleClearRollHistory(state, senderUid, context.isDM());
 
+      case "roll-attack":
+        return this.handler.handleRollAttack(state, senderUid, context.isDM(), {
+          attackerId: message.attackerId,
+          attackName: message.attackName,
+          targetId: message.targetId,
+          mode: message.mode,
+          applyDamage: message.applyDamage,
+        });
+
+      case "roll-death-save":
+        return this.handler.handleRollDeathSave(
+          state,
+          senderUid,
+          context.isDM(),
+          message.characterId,
+        );
+
+      case "apply-attack-damage":
+        return this.handler.handleApplyAttackDamage(
+          state,
+          senderUid,
+          context.isDM(),
+          message.rollId,
+        );
+
+      case "set-character-macros":
+        return this.macroHandler.handleSetCharacterMacros(
+          state,
+          message.characterId,
+          senderUid,
+          message.macros,
+          context.isDM(),
+        );
+
+      case "set-table-macros":
+        return this.macroHandler.handleSetTableMacros(
+          state,
+          senderUid,
+          message.macros,
+          context.isDM(),
+        );
+
       default:
         return null;
     }
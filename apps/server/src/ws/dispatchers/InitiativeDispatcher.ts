@@ -1,10 +1,27 @@
 import type { ClientMessage } from "@herobyte/shared";
-import type { InitiativeMessageHandler } from "../handlers/InitiativeMessageHandler.js";
+import type { RoomState } from "../../domains/room/model.js";
+import type {
+  InitiativeMessageHandler,
+  InitiativeMessageResult,
+} from "../handlers/InitiativeMessageHandler.js";
+import type { TurnOrderMessageHandler } from "../handlers/TurnOrderMessageHandler.js";
+import { CombatSettingsMessageHandler } from "../handlers/CombatSettingsMessageHandler.js";
 import type { RoutingContext } from "../services/MessageRoutingContext.js";
 import type { RouteHandlerResult } from "../services/RouteResultHandler.js";
 
+/**
+ * Routes initiative messages, and is where the room's combat mode (shared
+ * combatModes.ts) is enforced: in group mode one roll sets a whole batch's
+ * initiative, and outside individual mode nobody may delay or hold — a
+ * shared turn is taken together. The turn walk itself groups by mode in
+ * combat/turnHandOff.ts, so next-turn activates a whole group at once.
+ */
 export class InitiativeDispatcher {
-  constructor(private handler: InitiativeMessageHandler) {}
+  constructor(
+    private handler: InitiativeMessageHandler,
+    private turnOrderHandler: TurnOrderMessageHandler,
+    private settingsHandler: CombatSettingsMessageHandler = new CombatSettingsMessageHandler(),
+  ) {}
 
   dispatch(
     message: ClientMessage,
@@ -15,15 +32,31 @@ export class InitiativeDispatcher {
     const isDM = context.isDM();
 
     switch (message.t) {
-      case "set-initiative":
-        return this.handler.handleSetInitiative(
-          state,
-          message.characterId,
-          senderUid,
-          message.initiative,
-          message.initiativeModifier,
-          isDM,
+      case "set-initiative": {
+        // Clearing stays per combatant: dropping a dead goblin from the
+        // tracker must not take its whole group with it.
+        const ids =
+          message.initiative === undefined
+            ? [message.characterId]
+            : this.rollsTogether(state, message.characterId);
+        const results = ids.map((id) =>
+          this.handler.handleSetInitiative(
+            state,
+            id,
+            senderUid,
+            message.initiative,
+            message.initiativeModifier,
+            isDM,
+          ),
         );
+        return mergeResults(results);
+      }
+
+      case "set-combat-mode":
+        return this.settingsHandler.handleSetCombatMode(state, message.mode, senderUid, isDM);
+
+      case "set-turn-timer":
+        return this.settingsHandler.handleSetTurnTimer(state, message.timer, senderUid, isDM);
 
       case "start-combat":
         return this.handler.handleStartCombat(state, senderUid, isDM);
@@ -40,8 +73,50 @@ export class InitiativeDispatcher {
       case "clear-all-initiative":
         return this.handler.handleClearAllInitiative(state, senderUid, isDM);
 
+      case "delay-turn":
+        if (state.combatMode !== "individual") {
+          console.warn(`delay-turn refused: the room takes turns by ${state.combatMode}`);
+          return { broadcast: false, save: false };
+        }
+        return this.turnOrderHandler.handleDelayTurn(
+          state,
+          message.characterId,
+          message.afterCharacterId,
+          senderUid,
+          isDM,
+        );
+
+      case "resume-turn":
+        return this.turnOrderHandler.handleResumeTurn(state, message.characterId, senderUid, isDM);
+
+      case "ready-action":
+        return this.turnOrderHandler.handleReadyAction(
+          state,
+          message.characterId,
+          message.trigger,
+          senderUid,
+          isDM,
+        );
+
+      case "reorder-initiative":
+        return this.turnOrderHandler.handleReorderInitiative(state, message.order, senderUid, isDM);
+
       default:
         return null;
     }
   }
+
+  /** `characterId` and, in group mode, everyone created in its batch. */
+  private rollsTogether(state: RoomState, characterId: string): string[] {
+    const group = state.characters.find((c) => c.id === characterId)?.initiativeGroup;
+    if (state.combatMode !== "group" || !group) return [characterId];
+    return state.characters.filter((c) => c.initiativeGroup === group).map((c) => c.id);
+  }
+}
+
+function mergeResults(results: InitiativeMessageResult[]): InitiativeMessageResult {
+  return {
+    broadcast: results.some((result) => result.broadcast),
+    save: results.some((result) => result.save),
+  };
 }
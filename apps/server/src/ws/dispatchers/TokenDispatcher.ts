@@ -1,5 +1,6 @@
 import type { ClientMessage, DragPreviewEvent } from "@herobyte/shared";
 import { isDragPreviewEnabled } from "../../config/featureFlags.js";
+import { setTokenSpeed } from "../../domains/room/scene/movementBudget.js";
 import type { TokenMessageHandler } from "../handlers/TokenMessageHandler.js";
 import type { AuthorizationCheckWrapper } from "../services/AuthorizationCheckWrapper.js";
 import type { RoutingContext } from "../services/MessageRoutingContext.js";
@@ -59,6 +60,20 @@ export class TokenDispatcher {
       case "set-token-vision-radius":
         return this.handler.handleSetVisionRadius(state, message.tokenId, message.radius, isDM);
 
+      case "set-token-senses":
+        return this.handler.handleSetSenses(state, message.tokenId, message.senses, isDM);
+
+      case "set-token-light":
+        return this.handler.handleSetLight(state, message.tokenId, senderUid, message.light, isDM);
+
+      case "set-token-speed":
+        return (
+          this.authWrapper.executeIfDMAuthorized(senderUid, isDM, "set token speed", () => {
+            const updated = setTokenSpeed(state, message.tokenId, message.speed);
+            return { broadcast: updated, save: updated };
+          }) ?? {}
+        );
+
       case "link-token":
         return this.handler.handleLinkToken(
           state,
@@ -0,0 +1,188 @@
+/**
+ * Tests for InitiativeDispatcher's combat mode enforcement: group rolls,
+ * group and side turns, and delay refused outside individual mode. Run
+ * against the real handlers and CharacterService so the walk is the one the
+ * room uses.
+ *
+ * @module ws/dispatchers/__tests__/InitiativeDispatcher.test
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Character, ClientMessage } from "@herobyte/shared";
+import { InitiativeDispatcher } from "../InitiativeDispatcher.js";
+import { InitiativeMessageHandler } from "../../handlers/InitiativeMessageHandler.js";
+import { TurnOrderMessageHandler } from "../../handlers/TurnOrderMessageHandler.js";
+import { CharacterService } from "../../../domains/character/service.js";
+import type { RoomService } from "../../../domains/room/service.js";
+import { createEmptyRoomState, type RoomState } from "../../../domains/room/model.js";
+import { remainingMovement } from "../../../domains/room/scene/movementBudget.js";
+import type { RoutingContext } from "../../services/MessageRoutingContext.js";
+
+function combatant(
+  id: string,
+  initiative: number | undefined,
+  extra: Partial<Character> = {},
+): Character {
+  return { id, name: id, type: "npc", hp: 10, maxHp: 10, initiative, ...extra };
+}
+
+describe("InitiativeDispatcher", () => {
+  let state: RoomState;
+  let dispatcher: InitiativeDispatcher;
+
+  const send = (message: ClientMessage, isDM = true, senderUid = "dm") =>
+    dispatcher.dispatch(
+      message,
+      { getState: () => state, isDM: () => isDM } as unknown as RoutingContext,
+      senderUid,
+    );
+
+  beforeEach(() => {
+    state = createEmptyRoomState();
+    state.characters = [
+      combatant("aria", 18, { type: "pc", ownedByPlayerUID: "p1" }),
+      combatant("gob1", undefined, { initiativeGroup: "goblins" }),
+      combatant("gob2", undefined, { initiativeGroup: "goblins" }),
+      combatant("bram", 9, { type: "pc", ownedByPlayerUID: "p2" }),
+      combatant("ogre", 4),
+    ];
+    const characterService = new CharacterService();
+    dispatcher = new InitiativeDispatcher(
+      new InitiativeMessageHandler(characterService, {} as RoomService),
+      new TurnOrderMessageHandler(characterService),
+    );
+  });
+
+  it("lets only the DM change the combat mode", () => {
+    expect(send({ t: "set-combat-mode", mode: "group" }, false, "p1")).toEqual({
+      broadcast: false,
+      save: false,
+    });
+    expect(state.combatMode).toBe("individual");
+
+    expect(send({ t: "set-combat-mode", mode: "group" })).toEqual({ broadcast: true, save: true });
+    expect(state.combatMode).toBe("group");
+  });
+
+  it("lets only the DM set the turn timer, and starts the running turn's clock", () => {
+    const timer = { seconds: 60, onExpire: "notify" } as const;
+    state.combatActive = true;
+    state.currentTurnCharacterId = "aria";
+
+    send({ t: "set-turn-timer", timer }, false, "p1");
+    expect(state.turnTimer).toBeUndefined();
+
+    send({ t: "set-turn-timer", timer });
+    expect(state.turnTimer).toEqual(timer);
+    expect(state.turnDeadline).toBeGreaterThan(Date.now());
+
+    send({ t: "set-turn-timer" });
+    expect(state.turnDeadline).toBeUndefined();
+  });
+
+  describe("defeated combatants", () => {
+    beforeEach(() => {
+      state.characters.find((c) => c.id === "gob1")!.initiative = 12;
+      send({ t: "start-combat" });
+    });
+
+    it("skips the dead and the fled but keeps a downed PC's turn", () => {
+      state.characters.find((c) => c.id === "gob1")!.status = "dead";
+      state.characters.find((c) => c.id === "ogre")!.status = "fled";
+      state.characters.find((c) => c.id === "bram")!.status = "unconscious";
+
+      send({ t: "next-turn" });
+      expect(state.currentTurnCharacterId).toBe("bram");
+      send({ t: "next-turn" });
+      expect(state.currentTurnCharacterId).toBe("aria");
+      expect(state.combatRound).toBe(2);
+    });
+
+    it("moves on from a combatant who fell on their own turn", () => {
+      send({ t: "next-turn" });
+      state.characters.find((c) => c.id === "gob1")!.status = "dead";
+
+      send({ t: "next-turn" });
+      expect(state.currentTurnCharacterId).toBe("bram");
+    });
+  });
+
+  describe("group mode", () => {
+    beforeEach(() => {
+      state.combatMode = "group";
+    });
+
+    it("gives one roll to the whole batch", () => {
+      send({ t: "set-initiative", characterId: "gob1", initiative: 12, initiativeModifier: 2 });
+
+      expect(state.characters.find((c) => c.id === "gob2")?.initiative).toBe(12);
+    });
+
+    it("clears one member without clearing the group", () => {
+      send({ t: "set-initiative", characterId: "gob1", initiative: 12 });
+      send({ t: "set-initiative", characterId: "gob2" });
+
+      expect(state.characters.find((c) => c.id === "gob1")?.initiative).toBe(12);
+      expect(state.characters.find((c) => c.id === "gob2")?.initiative).toBeUndefined();
+    });
+
+    it("activates the whole group at once and logs each member's turn", () => {
+      send({ t: "set-initiative", characterId: "gob1", initiative: 12 });
+      send({ t: "start-combat" });
+      expect(state.currentTurnCharacterId).toBe("aria");
+
+      send({ t: "next-turn" });
+      expect(state.currentTurnCharacterId).toBe("gob1");
+      expect(state.combatLog.slice(-2).map((event) => event.name)).toEqual(["gob1", "gob2"]);
+
+      // One stop for the goblins: the next turn is Bram's, not gob2's.
+      send({ t: "next-turn" });
+      expect(state.currentTurnCharacterId).toBe("bram");
+    });
+
+    it("lets every member of the active group move under the movement budget", () => {
+      send({ t: "set-initiative", characterId: "gob1", initiative: 12 });
+      send({ t: "start-combat" });
+      send({ t: "next-turn" });
+      state.movementBudgetEnabled = true;
+      state.tokens = [
+        { id: "t-gob2", owner: "dm", x: 0, y: 0, color: "#000" },
+        { id: "t-ogre", owner: "dm", x: 1, y: 1, color: "#000" },
+      ];
+      state.characters.find((c) => c.id === "gob2")!.tokenId = "t-gob2";
+      state.characters.find((c) => c.id === "ogre")!.tokenId = "t-ogre";
+
+      expect(remainingMovement(state, state.tokens[0])).toBeGreaterThan(0);
+      expect(remainingMovement(state, state.tokens[1])).toBe(0);
+    });
+
+    it("refuses to let one member delay out of a shared turn", () => {
+      send({ t: "set-initiative", characterId: "gob1", initiative: 12 });
+      send({ t: "start-combat" });
+      send({ t: "next-turn" });
+
+      expect(send({ t: "delay-turn", characterId: "gob1" })).toEqual({
+        broadcast: false,
+        save: false,
+      });
+      expect(state.characters.find((c) => c.id === "gob1")?.initiativeHeld).toBeUndefined();
+    });
+  });
+
+  describe("side mode", () => {
+    it("alternates the party and the monsters, the best roll first", () => {
+      state.combatMode = "side";
+      send({ t: "set-initiative", characterId: "gob1", initiative: 20 });
+      send({ t: "start-combat" });
+
+      // Side mode does not spread a roll: gob2 has none and stays out.
+      expect(state.currentTurnCharacterId).toBe("gob1");
+      send({ t: "next-turn" });
+      expect(state.currentTurnCharacterId).toBe("aria");
+      expect(state.combatLog.slice(-2).map((event) => event.name)).toEqual(["aria", "bram"]);
+      send({ t: "next-turn" });
+      expect(state.currentTurnCharacterId).toBe("gob1");
+      expect(state.combatRound).toBe(2);
+    });
+  });
+});
@@ -245,13 +245,9 @@ export class CharacterMessageHandler {
     senderUid: string,
     isDM: boolean,
   ): CharacterMessageResult {
-    const character = this.characterService.findCharacter(state, characterId);
-    if (!character || (!isDM && !this.characterService.canControlCharacter(character, senderUid))) {
-      console.warn(`Player ${senderUid} tried to update HP of a character they don't control`);
-      return { broadcast: false, save: false };
-    }
-    const updated = this.characterService.updateHP(state, characterId, hp, maxHp);
-    return { broadcast: updated, save: updated };
+    return this.editIfAllowed(state, characterId, senderUid, isDM, "HP", () =>
+      this.characterService.updateHP(state, characterId, hp, maxHp),
+    );
   }
 
   /**
@@ -271,27 +267,54 @@ export class CharacterMessageHandler {
     effects: string[],
     isDM: boolean,
   ): CharacterMessageResult {
-    // Find the character
-    const character = this.characterService.findCharacter(state, characterId);
+    return this.editIfAllowed(state, characterId, senderUid, isDM, "status effects", () =>
+      this.characterService.setStatusEffects(state, characterId, effects),
+    );
+  }
 
-    // Permission check: Only allow if player owns this character or is DM
-    const canModify =
-      isDM || (character && this.characterService.canControlCharacter(character, senderUid));
+  /**
+   * Handle set character attacks message. Owner or DM, like status effects:
+   * a player writes their own character's actions, the DM anyone's.
+   */
+  handleSetCharacterAttacks(
+    state: RoomState,
+    characterId: string,
+    senderUid: string,
+    attacks: unknown,
+    isDM: boolean,
+  ): CharacterMessageResult {
+    return this.editIfAllowed(state, characterId, senderUid, isDM, "attacks", () =>
+      this.characterService.setAttacks(state, characterId, attacks),
+    );
+  }
 
-    if (!canModify) {
-      console.warn(
-        `Player ${senderUid} attempted to set status effects for character they don't control`,
-      );
-      return { broadcast: false, save: false };
-    }
+  /** Replace a character's AC and saving throws. Owner or DM, like attacks. */
+  handleSetCharacterDefenses(
+    state: RoomState,
+    characterId: string,
+    senderUid: string,
+    defenses: { ac?: number; savingThrows?: unknown },
+    isDM: boolean,
+  ): CharacterMessageResult {
+    return this.editIfAllowed(state, characterId, senderUid, isDM, "defenses", () =>
+      this.characterService.setDefenses(state, characterId, defenses),
+    );
+  }
 
-    const updated = this.characterService.setStatusEffects(state, characterId, effects);
-    return { broadcast: updated, save: updated };
+  /** Replace a character's conditions (owner or DM); the server runs their clocks. */
+  handleSetCharacterConditions(
+    state: RoomState,
+    characterId: string,
+    senderUid: string,
+    conditions: unknown,
+    isDM: boolean,
+  ): CharacterMessageResult {
+    return this.editIfAllowed(state, characterId, senderUid, isDM, "conditions", () =>
+      this.characterService.setConditions(state, characterId, conditions),
+    );
   }
 
-  /**
-   * Handle set character portrait message
-   */
+  /** Handle set character portrait message */
   handleSetCharacterPortrait(
     state: RoomState,
     characterId: string,
@@ -299,18 +322,26 @@ export class CharacterMessageHandler {
     portrait: string | undefined,
     isDM: boolean,
   ): CharacterMessageResult {
-    const character = this.characterService.findCharacter(state, characterId);
-    const canModify =
-      isDM || (character && this.characterService.canControlCharacter(character, senderUid));
+    return this.editIfAllowed(state, characterId, senderUid, isDM, "portrait", () =>
+      this.characterService.setPortrait(state, characterId, portrait),
+    );
+  }
 
-    if (!canModify) {
-      console.warn(
-        `Player ${senderUid} attempted to set portrait for character they don't control`,
-      );
+  /** Owner or DM: the rule every sheet write but a rename shares. Warns on refusal. */
+  private editIfAllowed(
+    state: RoomState,
+    characterId: string,
+    senderUid: string,
+    isDM: boolean,
+    what: string,
+    write: () => boolean,
+  ): CharacterMessageResult {
+    const character = this.characterService.findCharacter(state, characterId);
+    if (!isDM && !(character && this.characterService.canControlCharacter(character, senderUid))) {
+      console.warn(`Player ${senderUid} attempted to set ${what} for character they don't control`);
       return { broadcast: false, save: false };
     }
-
-    const updated = this.characterService.setPortrait(state, characterId, portrait);
+    const updated = write();
     return { broadcast: updated, save: updated };
   }
 }
@@ -6,16 +6,41 @@
 // from anything in the payload. `{ t: "chat" }` has no author field to trust
 // in the first place (see the shared contract), so there is nothing here to
 // get wrong by accident.
+//
+// Nor are its [[...]] rolls anybody's to claim: the text arrives as typed,
+// and the results are rolled here, on the server, after it is recorded.
+//
+// Slash commands (shared chatCommands.ts) are read here too, from the same
+// text: "/r 2d6" goes to DiceService.rollFor under the sender's uid, as if it
+// had come in as a dice-roll, and "/w Alice hi" becomes a whisper to
+// whichever player is called Alice. A command that cannot be carried out is
+// answered with a system line only its sender sees.
 
+import {
+  parseChatCommand,
+  parseDiceFormula,
+  resolveWhisperTarget,
+  type ChatStyle,
+  type DiceVisibility,
+  type Player,
+} from "@herobyte/shared";
 import type { RoomState } from "../../domains/room/model.js";
 import type { ChatService } from "../../domains/chat/service.js";
+import type { DiceService } from "../../domains/dice/service.js";
 import type { PlayerService } from "../../domains/player/service.js";
 import type { RouteHandlerResult } from "../services/RouteResultHandler.js";
+import { rollInline } from "../../domains/dice/inlineRolls.js";
+import { cryptoDiceRng, type DiceRng } from "../../domains/dice/roller.js";
+
+const CHANGED: RouteHandlerResult = { broadcast: true, save: true };
 
 export class ChatMessageHandler {
   constructor(
     private chatService: ChatService,
     private playerService: PlayerService,
+    private diceService: DiceService,
+    /** Tests pin the faces; production always rolls with crypto. */
+    private rng: DiceRng = cryptoDiceRng,
   ) {}
 
   /**
@@ -24,12 +49,19 @@ export class ChatMessageHandler {
    * The display name is read from the sender's own player record rather than
    * taken from the wire, so a client cannot post under someone else's name
    * any more than it can post under their uid.
+   *
+   * Inline rolls ride on the message, so a whisper's rolls are as private as
+   * its text: visibleChatFor drops the whole message for anyone else.
+   *
+   * `to` is the whisper picker's target. It carries over to /me, /ooc and
+   * /desc; /w names its own target, and a /r is not a chat line at all.
    */
   handleChat(
     state: RoomState,
     senderUid: string,
     text: string,
     to?: string,
+    isDM = false,
   ): RouteHandlerResult | null {
     const author = this.playerService.findPlayer(state, senderUid);
     if (!author) {
@@ -39,8 +71,71 @@ export class ChatMessageHandler {
       return { broadcast: false, save: false };
     }
 
-    this.chatService.addMessage(state, senderUid, author.name, text, to);
-    return { broadcast: true, save: true };
+    const command = parseChatCommand(text);
+    switch (command.kind) {
+      case "say":
+        return this.say(state, author, command.text, to, command.style);
+      case "desc":
+        if (!isDM) return this.tellSender(state, senderUid, "Only the DM can narrate with /desc.");
+        return this.say(state, author, command.text, to, "desc");
+      case "whisper": {
+        const others = state.players.filter((player) => player.uid !== senderUid);
+        const whisper = resolveWhisperTarget(command.body, others);
+        if (!whisper) {
+          return this.tellSender(state, senderUid, "No one here by that name to whisper to.");
+        }
+        return this.say(state, author, whisper.text, whisper.player.uid);
+      }
+      case "roll":
+        return this.roll(state, author, command.formula, command.visibility);
+      case "error":
+        return this.tellSender(state, senderUid, command.error);
+    }
+  }
+
+  private say(
+    state: RoomState,
+    author: Player,
+    text: string,
+    to?: string,
+    style?: ChatStyle,
+  ): RouteHandlerResult {
+    const message = this.chatService.addMessage(state, author.uid, author.name, text, to);
+    if (style) message.style = style;
+    const inlineRolls = rollInline(message.text, this.rng);
+    if (inlineRolls.length > 0) message.inlineRolls = inlineRolls;
+    return CHANGED;
+  }
+
+  /** A /r or /gmr: into the roll log, exactly as a dice-roll with no target. */
+  private roll(
+    state: RoomState,
+    author: Player,
+    formula: string,
+    visibility: DiceVisibility,
+  ): RouteHandlerResult {
+    const parsed = parseDiceFormula(formula);
+    if (!parsed.ok) {
+      return this.tellSender(state, author.uid, `Can't roll "${formula}": ${parsed.error}.`);
+    }
+    this.diceService.rollFor(
+      state,
+      {
+        playerUid: author.uid,
+        playerName: author.name,
+        terms: parsed.terms,
+        mode: "normal",
+        visibility,
+      },
+      this.rng,
+    );
+    return { broadcast: true, save: false };
+  }
+
+  /** Why a command did nothing, as a system line addressed to its sender alone. */
+  private tellSender(state: RoomState, senderUid: string, text: string): RouteHandlerResult {
+    this.chatService.addSystemMessage(state, text, senderUid);
+    return CHANGED;
   }
 
   /**
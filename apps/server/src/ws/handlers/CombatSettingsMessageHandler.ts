@@ -0,0 +1,70 @@
+/**
+ * CombatSettingsMessageHandler
+ *
+ * Handles the DM's settings for how fights run, as opposed to the fight
+ * itself (InitiativeMessageHandler):
+ * - set-combat-mode: individual, group or side initiative (shared combatModes)
+ * - set-turn-timer: each turn's length and what happens when it runs out
+ *   (shared turnTimer; the deadline is kept in combat/turnHandOff.ts)
+ *
+ * Both are safe to change mid-fight and both are DM only.
+ *
+ * @module ws/handlers/CombatSettingsMessageHandler
+ */
+
+import type { CombatMode, TurnTimer } from "@herobyte/shared";
+import type { RoomState } from "../../domains/room/model.js";
+import { resetTurnClock } from "../../domains/room/combat/turnHandOff.js";
+import type { InitiativeMessageResult } from "./InitiativeMessageHandler.js";
+
+const NO_CHANGE: InitiativeMessageResult = { broadcast: false, save: false };
+const CHANGED: InitiativeMessageResult = { broadcast: true, save: true };
+
+/**
+ * Handler for the room's combat settings
+ */
+export class CombatSettingsMessageHandler {
+  /**
+   * Handle set-combat-mode message (DM only)
+   *
+   * Switches between individual, group and side initiative. Safe mid-fight:
+   * the turn stays with whoever holds it, and from the next hand-off on it
+   * walks group by group (or one by one) under the new mode.
+   */
+  handleSetCombatMode(
+    state: RoomState,
+    mode: CombatMode,
+    senderUid: string,
+    isDM: boolean,
+  ): InitiativeMessageResult {
+    if (!isDM) {
+      console.warn(`Non-DM ${senderUid} attempted to change the combat mode`);
+      return NO_CHANGE;
+    }
+    if (state.combatMode === mode) return NO_CHANGE;
+    state.combatMode = mode;
+    return CHANGED;
+  }
+
+  /**
+   * Handle set-turn-timer message (DM only)
+   *
+   * Sets each turn's length and what happens when it runs out, or without a
+   * timer turns the clock off. The turn in progress gets a full clock from
+   * now: cutting it short because the DM changed a setting would be unfair.
+   */
+  handleSetTurnTimer(
+    state: RoomState,
+    timer: TurnTimer | undefined,
+    senderUid: string,
+    isDM: boolean,
+  ): InitiativeMessageResult {
+    if (!isDM) {
+      console.warn(`Non-DM ${senderUid} attempted to change the turn timer`);
+      return NO_CHANGE;
+    }
+    state.turnTimer = timer;
+    resetTurnClock(state);
+    return CHANGED;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * CombatantStatusMessageHandler
+ *
+ * Handles how combatants leave a fight without leaving the room (shared
+ * combatantStatus.ts):
+ * - set-character-status: mark a character unconscious, dead or fled, or
+ *   back in the fight
+ * - remove-defeated: sweep every defeated NPC off the board, token and all
+ * - set-death-saves: a downed PC's tally, set by hand (shared deathSaves.ts)
+ *
+ * The first two are DM only; CharacterDispatcher checks that before either
+ * runs. A death-save tally is the owner's as well, and checked here. A PC's
+ * fall to unconscious at 0 HP is not here: it follows the HP write, in
+ * CharacterService. Nor is the death-save roll, which is a roll and goes
+ * through DiceMessageHandler.
+ *
+ * @module ws/handlers/CombatantStatusMessageHandler
+ */
+
+import { isDefeated, type CharacterStatus } from "@herobyte/shared";
+import type { RoomState } from "../../domains/room/model.js";
+import type { CharacterService } from "../../domains/character/service.js";
+import type { ChatService } from "../../domains/chat/service.js";
+import { advanceTurn, resetTurnClock } from "../../domains/room/combat/turnHandOff.js";
+import type { NPCMessageHandler, NPCMessageResult } from "./NPCMessageHandler.js";
+
+const NO_CHANGE: NPCMessageResult = { broadcast: false, save: false };
+const CHANGED: NPCMessageResult = { broadcast: true, save: true };
+
+/**
+ * Handler for combatant status messages
+ */
+export class CombatantStatusMessageHandler {
+  constructor(
+    private characterService: CharacterService,
+    private npcHandler: NPCMessageHandler,
+    private chatService: ChatService,
+  ) {}
+
+  /**
+   * Handle set-character-status message (DM only)
+   *
+   * Takes effect on the next hand-off: a combatant marked dead on their own
+   * turn keeps it until the DM moves on, and the walk skips them after that.
+   */
+  handleSetCharacterStatus(
+    state: RoomState,
+    characterId: string,
+    status: CharacterStatus,
+  ): NPCMessageResult {
+    return this.characterService.setStatus(state, characterId, status) ? CHANGED : NO_CHANGE;
+  }
+
+  /**
+   * Handle remove-defeated message (DM only)
+   *
+   * Deletes every unconscious, dead or fled NPC the way delete-npc would.
+   * PCs are left alone whatever their state. When the turn is on one of the
+   * removed, it passes on first, so the fight never points at someone gone.
+   */
+  handleRemoveDefeated(state: RoomState): NPCMessageResult {
+    const defeated = state.characters.filter((c) => c.type === "npc" && isDefeated(c));
+    if (defeated.length === 0) return NO_CHANGE;
+
+    const removedIds = new Set(defeated.map((npc) => npc.id));
+    if (state.combatActive && removedIds.has(state.currentTurnCharacterId ?? "")) {
+      advanceTurn(state, this.characterService, this.chatService);
+    }
+    // Nobody left to pass to: the walk came back round to the removed.
+    if (removedIds.has(state.currentTurnCharacterId ?? "")) {
+      state.currentTurnCharacterId = undefined;
+      resetTurnClock(state);
+    }
+
+    for (const npc of defeated) this.npcHandler.handleDeleteNPC(state, npc.id);
+    console.log(`Removed ${defeated.length} defeated NPC(s)`);
+    return CHANGED;
+  }
+
+  /**
+   * Handle set-death-saves message (owner or DM)
+   *
+   * Refused for anyone not down at 0 HP: there is no tally to keep for them.
+   */
+  handleSetDeathSaves(
+    state: RoomState,
+    characterId: string,
+    senderUid: string,
+    deathSaves: unknown,
+    isDM: boolean,
+  ): NPCMessageResult {
+    const character = this.characterService.findCharacter(state, characterId);
+    if (!isDM && !(character && this.characterService.canControlCharacter(character, senderUid))) {
+      console.warn(
+        `Player ${senderUid} attempted to set death saves for a character they don't control`,
+      );
+      return NO_CHANGE;
+    }
+    return this.characterService.setDeathSaves(state, characterId, deathSaves)
+      ? CHANGED
+      : NO_CHANGE;
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * DiceMacroMessageHandler
+ *
+ * Handles the saved rolls of the macro bar (shared diceMacros.ts):
+ * - set-character-macros: replace one character's macros (owner or DM)
+ * - set-table-macros: replace the table's shared macros (DM only)
+ *
+ * Both carry the whole list, so the client edits a copy and sends it back.
+ * Neither rolls anything: tapping a macro sends an ordinary dice-roll with
+ * its formula, which DiceMessageHandler settles like any other.
+ *
+ * @module ws/handlers/DiceMacroMessageHandler
+ */
+
+import { MACRO_LIMITS, coerceDiceMacros } from "@herobyte/shared";
+import type { RoomState } from "../../domains/room/model.js";
+import type { CharacterService } from "../../domains/character/service.js";
+import type { DiceMessageResult } from "./DiceMessageHandler.js";
+
+const NO_CHANGE: DiceMessageResult = { broadcast: false, save: false };
+const CHANGED: DiceMessageResult = { broadcast: true, save: true };
+
+/**
+ * Handler for dice macro messages
+ */
+export class DiceMacroMessageHandler {
+  constructor(private characterService: CharacterService) {}
+
+  /**
+   * Handle set-character-macros message (owner or DM)
+   *
+   * The DM may write any character's, which is how an NPC gets its own.
+   */
+  handleSetCharacterMacros(
+    state: RoomState,
+    characterId: string,
+    senderUid: string,
+    macros: unknown,
+    isDM: boolean,
+  ): DiceMessageResult {
+    const character = this.characterService.findCharacter(state, characterId);
+    if (!isDM && !(character && this.characterService.canControlCharacter(character, senderUid))) {
+      console.warn(
+        `Player ${senderUid} attempted to set macros for a character they don't control`,
+      );
+      return NO_CHANGE;
+    }
+    return this.characterService.setMacros(state, characterId, macros) ? CHANGED : NO_CHANGE;
+  }
+
+  /**
+   * Handle set-table-macros message (DM only)
+   *
+   * An empty list clears them.
+   */
+  handleSetTableMacros(
+    state: RoomState,
+    senderUid: string,
+    macros: unknown,
+    isDM: boolean,
+  ): DiceMessageResult {
+    if (!isDM) {
+      console.warn(`Non-DM ${senderUid} attempted to set the table macros`);
+      return NO_CHANGE;
+    }
+    state.tableMacros = coerceDiceMacros(macros, MACRO_LIMITS.TABLE_MAX);
+    return CHANGED;
+  }
+}
@@ -7,6 +7,15 @@
  * else: no total, no uid, no name. There is nothing here to get wrong by
  * accident, which is the point of the wire change (arc defect D2).
  *
+ * Attacks follow the same rule. `roll-attack` names an attacker, one of its
+ * attacks and a target; the bonus and the damage formula come off the
+ * attacker's stored record, and whether the damage lands now or waits for the
+ * DM is the DM's call alone.
+ *
+ * A death save is rolled here too, though what it does lands on the PC: the
+ * d20 is thrown like any other, and CharacterService counts its natural face
+ * into the tally.
+ *
  * Extracted from: apps/server/src/ws/messageRouter.ts
  * - dice-roll (lines 735-738)
  * - clear-roll-history (lines 740-744)
@@ -16,11 +25,20 @@
  * @module ws/handlers/DiceMessageHandler
  */
 
-import { coerceDiceRollMode, coerceDiceVisibility, parseDiceFormula } from "@herobyte/shared";
+import {
+  coerceDiceRollMode,
+  coerceDiceVisibility,
+  coerceNamedAttack,
+  isStable,
+  naturalD20,
+  parseDiceFormula,
+  tracksDeathSaves,
+} from "@herobyte/shared";
 import type { DiceRollMode, DiceVisibility } from "@herobyte/shared";
 import type { RoomState } from "../../domains/room/model.js";
 import type { DiceService } from "../../domains/dice/service.js";
 import type { PlayerService } from "../../domains/player/service.js";
+import type { CharacterService } from "../../domains/character/service.js";
 
 /**
  * Result of handling a dice message
@@ -39,6 +57,7 @@ export class DiceMessageHandler {
   constructor(
     private diceService: DiceService,
     private playerService: PlayerService,
+    private characterService: CharacterService,
   ) {}
 
   /**
@@ -57,8 +76,16 @@ export class DiceMessageHandler {
    * @param state - Current room state
    * @param senderUid - Author, taken from the connection
    * @param formula - Dice notation from the client; the only thing it supplies
+   * A `targetId` resolves the roll against that character's AC. A target the
+   * sender cannot see (an NPC hidden from players) is dropped rather than
+   * refused: the roll still happens, it just names no one. The DM may target
+   * a hidden NPC, and then the roll is kept from the table, as an attack
+   * would be.
+   *
    * @param mode - Advantage/disadvantage; anything unrecognized becomes "normal"
    * @param visibility - Who may see it; anything unrecognized fails closed to "self"
+   * @param targetId - A character to resolve the roll against, if any
+   * @param isDM - Whether the sender may target hidden NPCs
    * @returns Result indicating if broadcast/save is needed
    */
   handleDiceRoll(
@@ -67,6 +94,8 @@ export class DiceMessageHandler {
     formula: string,
     mode?: DiceRollMode,
     visibility?: DiceVisibility,
+    targetId?: string,
+    isDM = false,
   ): DiceMessageResult {
     const author = this.playerService.findPlayer(state, senderUid);
     if (!author) {
@@ -82,16 +111,163 @@ export class DiceMessageHandler {
       return { broadcast: false, save: false };
     }
 
+    const found = targetId ? this.characterService.findCharacter(state, targetId) : undefined;
+    const target = found && (isDM || found.visibleToPlayers !== false) ? found : undefined;
+    let rollVisibility = coerceDiceVisibility(visibility);
+    if (target?.visibleToPlayers === false && rollVisibility === "public") rollVisibility = "dm";
+
     this.diceService.rollFor(state, {
       playerUid: senderUid,
       playerName: author.name,
       terms: parsed.terms,
       mode: coerceDiceRollMode(mode),
-      visibility: coerceDiceVisibility(visibility),
+      visibility: rollVisibility,
+      ...(target ? { target } : {}),
+    });
+    return { broadcast: true, save: false };
+  }
+
+  /**
+   * Roll one of `attackerId`'s attacks at `targetId` and log it.
+   *
+   * The sender must control the attacker (the DM controls everyone). The
+   * attack is looked up by name on the attacker's own list and coerced again
+   * before rolling — the list may have come off disk from an older build.
+   *
+   * The roll is public unless either party is an NPC hidden from players: a
+   * log line naming a creature the table cannot see would announce it.
+   *
+   * @param applyDamage - Take the damage off now; ignored unless `isDM`, and
+   *   for a roll that missed the target's AC (the log still offers it)
+   */
+  handleRollAttack(
+    state: RoomState,
+    senderUid: string,
+    isDM: boolean,
+    request: {
+      attackerId: string;
+      attackName: string;
+      targetId: string;
+      mode?: DiceRollMode;
+      applyDamage?: boolean;
+    },
+  ): DiceMessageResult {
+    const author = this.playerService.findPlayer(state, senderUid);
+    const attacker = this.characterService.findCharacter(state, request.attackerId);
+    const target = this.characterService.findCharacter(state, request.targetId);
+    if (!author || !attacker || !target) {
+      console.warn(`[Dice] Dropping attack from ${senderUid}: unknown player or character`);
+      return { broadcast: false, save: false };
+    }
+    if (!isDM && !this.characterService.canControlCharacter(attacker, senderUid)) {
+      console.warn(`[Dice] ${senderUid} tried to attack with ${attacker.name}, not theirs`);
+      return { broadcast: false, save: false };
+    }
+    const attack = coerceNamedAttack(
+      attacker.attacks?.find((candidate) => candidate.name === request.attackName),
+    );
+    if (!attack) {
+      console.warn(`[Dice] ${attacker.name} has no usable attack "${request.attackName}"`);
+      return { broadcast: false, save: false };
+    }
+
+    const hidden = attacker.visibleToPlayers === false || target.visibleToPlayers === false;
+    const roll = this.diceService.rollAttackFor(state, {
+      playerUid: senderUid,
+      playerName: author.name,
+      attacker,
+      attack,
+      target,
+      mode: coerceDiceRollMode(request.mode),
+      visibility: hidden ? "dm" : "public",
     });
+    if (!roll) return { broadcast: false, save: false };
+
+    if (isDM && request.applyDamage === true && roll.outcome !== "miss") {
+      this.applyLoggedDamage(state, roll.id);
+      return { broadcast: true, save: true };
+    }
     return { broadcast: true, save: false };
   }
 
+  /**
+   * Roll a death save for a downed PC the sender controls (the DM controls
+   * everyone) and count it. The log row names the PC and says what the roll
+   * did; it is public, because the whole table is waiting on it.
+   *
+   * The PC goes to rollFor as no target at all and is named on the roll only
+   * afterwards: a target would be judged against an AC, and a death save is
+   * judged against 10.
+   */
+  handleRollDeathSave(
+    state: RoomState,
+    senderUid: string,
+    isDM: boolean,
+    characterId: string,
+  ): DiceMessageResult {
+    const author = this.playerService.findPlayer(state, senderUid);
+    const character = this.characterService.findCharacter(state, characterId);
+    if (!author || !character) {
+      console.warn(`[Dice] Dropping death save from ${senderUid}: unknown player or character`);
+      return { broadcast: false, save: false };
+    }
+    if (!isDM && !this.characterService.canControlCharacter(character, senderUid)) {
+      console.warn(
+        `[Dice] ${senderUid} tried to roll a death save for ${character.name}, not theirs`,
+      );
+      return { broadcast: false, save: false };
+    }
+    if (!tracksDeathSaves(character) || isStable(character.deathSaves)) {
+      console.warn(`[Dice] ${character.name} has no death save to make`);
+      return { broadcast: false, save: false };
+    }
+
+    const roll = this.diceService.rollFor(state, {
+      playerUid: senderUid,
+      playerName: author.name,
+      terms: [{ kind: "die", die: "d20", qty: 1, sign: 1 }],
+      mode: "normal",
+      visibility: "public",
+    });
+    const result = this.characterService.recordDeathSave(
+      state,
+      character.id,
+      naturalD20(roll.breakdown) ?? roll.total,
+    );
+    roll.target = { id: character.id, name: character.name };
+    if (result) roll.deathSave = result;
+    return { broadcast: true, save: true };
+  }
+
+  /**
+   * The DM confirms a logged attack: its damage comes off the target named in
+   * the log, once. A second confirmation, or one for a target since deleted,
+   * changes nothing.
+   */
+  handleApplyAttackDamage(
+    state: RoomState,
+    senderUid: string,
+    isDM: boolean,
+    rollId: string,
+  ): DiceMessageResult {
+    if (!isDM) {
+      console.warn(`[Dice] Non-DM ${senderUid} attempted to apply attack damage`);
+      return { broadcast: false, save: false };
+    }
+    const applied = this.applyLoggedDamage(state, rollId);
+    return { broadcast: applied, save: applied };
+  }
+
+  private applyLoggedDamage(state: RoomState, rollId: string): boolean {
+    const attack = this.diceService.getHistory(state).find((roll) => roll.id === rollId)?.attack;
+    if (!attack || attack.applied) return false;
+    if (!this.characterService.takeDamage(state, attack.targetId, attack.damage.total)) {
+      return false;
+    }
+    attack.applied = true;
+    return true;
+  }
+
   /**
    * Wipe the log. DM-only, for the same reason clearing the chat log is: roll
    * history is shared history, and one player should not be able to erase what
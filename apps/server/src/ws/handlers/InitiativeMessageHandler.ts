@@ -18,10 +18,23 @@
  * @module ws/handlers/InitiativeMessageHandler
  */
 
-import type {} from "@herobyte/shared";
 import type { RoomState } from "../../domains/room/model.js";
 import type { CharacterService } from "../../domains/character/service.js";
 import type { RoomService } from "../../domains/room/service.js";
+import { ChatService } from "../../domains/chat/service.js";
+import { clearMovementLedger } from "../../domains/room/scene/movementBudget.js";
+import {
+  beginCombatLog,
+  recordCombatEvent,
+  recordTurnStarted,
+} from "../../domains/room/combat/combatLog.js";
+import {
+  advanceTurn,
+  clearTurnActions,
+  resetTurnClock,
+  turnSharers,
+  turnWalk,
+} from "../../domains/room/combat/turnHandOff.js";
 
 /**
  * Result of handling an initiative message
@@ -39,10 +52,16 @@ export interface InitiativeMessageResult {
 export class InitiativeMessageHandler {
   private characterService: CharacterService;
   private roomService: RoomService;
+  private chatService: ChatService;
 
-  constructor(characterService: CharacterService, roomService: RoomService) {
+  constructor(
+    characterService: CharacterService,
+    roomService: RoomService,
+    chatService: ChatService = new ChatService(),
+  ) {
     this.characterService = characterService;
     this.roomService = roomService;
+    this.chatService = chatService;
   }
 
   /**
@@ -102,15 +121,24 @@ export class InitiativeMessageHandler {
       if (!state.combatActive) {
         state.combatActive = true;
         state.currentTurnCharacterId = characterId;
+        clearMovementLedger(state);
+        beginCombatLog(state);
+        recordTurnStarted(state);
+        resetTurnClock(state);
         console.log(
           `[Server] Auto-starting combat with first initiative roll from ${character.name}`,
         );
       }
       // If combat is active but no turn is set, set the first character with initiative as current turn
       else if (!state.currentTurnCharacterId) {
-        const charactersInOrder = this.characterService.getCharactersInInitiativeOrder(state);
+        const charactersInOrder = turnWalk(
+          this.characterService.getCharactersInInitiativeOrder(state),
+          state,
+        );
         if (charactersInOrder.length > 0) {
           state.currentTurnCharacterId = charactersInOrder[0].id;
+          clearMovementLedger(state);
+          resetTurnClock(state);
           console.log(
             `[Server] Combat active with no current turn, setting first character as current turn: ${charactersInOrder[0].name}`,
           );
@@ -127,7 +155,8 @@ export class InitiativeMessageHandler {
    * Handle start-combat message
    *
    * Activates combat mode and sets the first character in initiative order
-   * as the current turn. Only DMs can start combat.
+   * as the current turn. Only DMs can start combat. Starting also opens a
+   * fresh combat log at round 1; the previous fight's log is discarded.
    *
    * @param state - Current room state
    * @param senderUid - UID of the sender
@@ -142,10 +171,15 @@ export class InitiativeMessageHandler {
 
     state.combatActive = true;
     // Set first character with initiative as current turn
-    const charactersInOrder = this.characterService.getCharactersInInitiativeOrder(state);
+    const order = this.characterService.getCharactersInInitiativeOrder(state);
+    const charactersInOrder = turnWalk(order, state);
     if (charactersInOrder.length > 0) {
       state.currentTurnCharacterId = charactersInOrder[0].id;
     }
+    clearMovementLedger(state);
+    beginCombatLog(state);
+    recordTurnStarted(state, turnSharers(order, state, state.currentTurnCharacterId));
+    resetTurnClock(state);
     console.log(`Combat started by ${senderUid}`);
 
     return { broadcast: true, save: true };
@@ -154,8 +188,9 @@ export class InitiativeMessageHandler {
   /**
    * Handle end-combat message
    *
-   * Deactivates combat mode and clears all initiative values.
-   * Only DMs can end combat.
+   * Deactivates combat mode. Only DMs can end combat. The round counter and
+   * the combat log are left in place so the finished fight can be exported;
+   * holds and readied actions end with the fight.
    *
    * @param state - Current room state
    * @param senderUid - UID of the sender
@@ -168,8 +203,13 @@ export class InitiativeMessageHandler {
       return { broadcast: false, save: false };
     }
 
+    // Logged first: the log only takes events while combat is running.
+    recordCombatEvent(state, { kind: "combat-ended" });
     state.combatActive = false;
     state.currentTurnCharacterId = undefined;
+    clearMovementLedger(state);
+    clearTurnActions(state);
+    resetTurnClock(state);
     // Deliberately does NOT clear initiative. Ending combat used to wipe every
     // rolled value, which the label, the panel copy, and the existence of a
     // separate "Clear All Initiative" button directly beneath it all imply it
@@ -184,8 +224,15 @@ export class InitiativeMessageHandler {
    * Handle next-turn message
    *
    * Advances to the next character in initiative order.
-   * Wraps around to the first character if at the end.
-   * All players can advance turns.
+   * Wraps around to the first character if at the end, which during combat
+   * starts the next round. Anyone holding is skipped. All players can
+   * advance turns.
+   *
+   * The hand-off is also the tick of every condition clock (see the shared
+   * conditions module): the turn that ended and the turn that began each
+   * take a round off whatever is anchored to them, and what runs out is
+   * announced in chat. Previous-turn has no mirror of this — rounds are
+   * never given back.
    *
    * @param state - Current room state
    * @param senderUid - UID of the sender
@@ -193,15 +240,11 @@ export class InitiativeMessageHandler {
    * @returns Result indicating if broadcast/save is needed
    */
   handleNextTurn(state: RoomState, senderUid: string, _isDM: boolean): InitiativeMessageResult {
-    const charactersInOrder = this.characterService.getCharactersInInitiativeOrder(state);
-    if (charactersInOrder.length === 0) {
+    const next = advanceTurn(state, this.characterService, this.chatService);
+    if (!next) {
       return { broadcast: false, save: false };
     }
-
-    const currentIndex = charactersInOrder.findIndex((c) => c.id === state.currentTurnCharacterId);
-    const nextIndex = (currentIndex + 1) % charactersInOrder.length;
-    state.currentTurnCharacterId = charactersInOrder[nextIndex].id;
-    console.log(`Turn advanced to ${charactersInOrder[nextIndex].name} by ${senderUid}`);
+    console.log(`Turn advanced to ${next.name} by ${senderUid}`);
 
     return { broadcast: true, save: true };
   }
@@ -210,7 +253,9 @@ export class InitiativeMessageHandler {
    * Handle previous-turn message
    *
    * Goes back to the previous character in initiative order.
-   * Wraps around to the last character if at the beginning.
+   * Wraps around to the last character if at the beginning, stepping the
+   * round counter back with it (never below 1). Nothing is logged: the log
+   * records what happened, and an undo did not happen at the table.
    * All players can go back turns.
    *
    * @param state - Current room state
@@ -219,14 +264,22 @@ export class InitiativeMessageHandler {
    * @returns Result indicating if broadcast/save is needed
    */
   handlePreviousTurn(state: RoomState, senderUid: string, _isDM: boolean): InitiativeMessageResult {
-    const charactersInOrder = this.characterService.getCharactersInInitiativeOrder(state);
+    const charactersInOrder = turnWalk(
+      this.characterService.getCharactersInInitiativeOrder(state),
+      state,
+    );
     if (charactersInOrder.length === 0) {
       return { broadcast: false, save: false };
     }
 
     const currentIndex = charactersInOrder.findIndex((c) => c.id === state.currentTurnCharacterId);
     const prevIndex = currentIndex <= 0 ? charactersInOrder.length - 1 : currentIndex - 1;
+    if (currentIndex === 0 && (state.combatRound ?? 1) > 1) {
+      state.combatRound = (state.combatRound ?? 1) - 1;
+    }
     state.currentTurnCharacterId = charactersInOrder[prevIndex].id;
+    clearMovementLedger(state);
+    resetTurnClock(state);
     console.log(`Turn moved back to ${charactersInOrder[prevIndex].name} by ${senderUid}`);
 
     return { broadcast: true, save: true };
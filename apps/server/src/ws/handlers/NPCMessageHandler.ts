@@ -10,16 +10,27 @@
  * - delete-npc (lines 273-288)
  * - place-npc-token (lines 290-301)
  *
+ * Also handles the bestiary: monster template edits and create-npc-from-template.
+ *
  * Extraction date: 2025-11-14
  *
  * @module ws/handlers/NPCMessageHandler
  */
 
+import { randomUUID } from "node:crypto";
 import type { RoomState } from "../../domains/room/model.js";
 import type { CharacterService } from "../../domains/character/service.js";
 import type { TokenService } from "../../domains/token/service.js";
 import type { SelectionService } from "../../domains/selection/service.js";
 import { allocateNpcNames } from "../../domains/character/npcNaming.js";
+import {
+  deleteMonsterTemplate,
+  findMonsterTemplate,
+  importBestiary,
+  rollTemplateHp,
+  upsertMonsterTemplate,
+} from "../../domains/bestiary/bestiary.js";
+import { cryptoDiceRng, type DiceRng } from "../../domains/dice/roller.js";
 import { SNAPSHOT_LIMITS } from "../../middleware/validators/sessionValidators.js";
 
 /**
@@ -80,7 +91,9 @@ export class NPCMessageHandler {
    * Creates `options.count` NPCs (default 1) in one pass, numbered so a DM can
    * tell Goblin 3 from Goblin 5. One message in, one broadcast and one save
    * out — which is also what keeps the client's single-flight creation guard
-   * honest, since it was written for exactly one create in the air.
+   * honest, since it was written for exactly one create in the air. A batch
+   * of more than one shares an `initiativeGroup`, so group initiative can
+   * roll for it and run its turn as one.
    *
    * @param state - Room state
    * @param name - NPC name, used as the base for numbering
@@ -96,27 +109,12 @@ export class NPCMessageHandler {
     portrait?: string,
     options?: CreateNPCOptions,
   ): NPCMessageResult {
-    const requested = Math.max(1, Math.floor(options?.count ?? 1));
-
-    // A room whose characters outgrow the snapshot limit produces a session
-    // file that fails its own load validation — the DM's backup stops being a
-    // backup. Bulk creation is the first way to hit that by accident, so it is
-    // the first thing that has to refuse. Partial batches are deliberate: 3 of
-    // 5 goblins beats 0, and the DM can see what landed.
-    const room = Math.max(0, SNAPSHOT_LIMITS.characters - state.characters.length);
-    const toCreate = Math.min(requested, room);
-    if (toCreate === 0) {
-      console.warn(
-        `Refusing to create NPC: room is at the ${SNAPSHOT_LIMITS.characters}-character limit`,
-      );
+    const names = this.numberedNames(state, name, options?.count);
+    if (names.length === 0) {
       return { broadcast: false, save: false };
     }
 
-    const names = allocateNpcNames(
-      state.characters.map((character) => character.name),
-      name,
-      toCreate,
-    );
+    const group = batchGroup(names);
     for (const allocated of names) {
       // An explicit literal, NOT the options bag. The bag carries `count` and
       // `visibleToPlayers`, which are loop control and a post-creation flag —
@@ -147,11 +145,99 @@ export class NPCMessageHandler {
       if (options?.visibleToPlayers === false) {
         created.visibleToPlayers = false;
       }
+      if (group) created.initiativeGroup = group;
     }
 
     return { broadcast: true, save: true };
   }
 
+  /**
+   * Handle create NPC from template message (DM only)
+   *
+   * Stamps out `count` copies of a bestiary template, numbered exactly as
+   * create-npc numbers them. Each copy rolls its own hit points with the
+   * server's dice, so five goblins are five different goblins, and carries
+   * its own copy of the template's attacks for roll-attack.
+   *
+   * @param state - Room state
+   * @param templateId - Bestiary template to copy
+   * @param count - How many to create, validated upstream like create-npc's
+   * @param rng - Test-only die source; production takes the crypto default
+   * @returns Result indicating broadcast/save needs
+   */
+  handleCreateNPCFromTemplate(
+    state: RoomState,
+    templateId: string,
+    count?: number,
+    rng: DiceRng = cryptoDiceRng,
+  ): NPCMessageResult {
+    const template = findMonsterTemplate(state, templateId);
+    if (!template) {
+      console.warn(`Refusing to create NPC from unknown template ${templateId}`);
+      return { broadcast: false, save: false };
+    }
+
+    const names = this.numberedNames(state, template.name, count);
+    const group = batchGroup(names);
+    for (const allocated of names) {
+      const created = this.characterService.createCharacter(
+        state,
+        allocated,
+        rollTemplateHp(template, rng),
+        template.portrait,
+        "npc",
+        { tokenImage: template.tokenImage },
+      );
+      created.initiativeModifier = template.initiativeModifier;
+      created.templateId = template.id;
+      if (group) created.initiativeGroup = group;
+      created.ac = template.ac;
+      // Copied, not referenced: editing one goblin's scimitar is not editing the page.
+      if (template.attacks.length > 0) {
+        created.attacks = template.attacks.map((attack) => ({ ...attack }));
+      }
+    }
+
+    const created = names.length > 0;
+    return { broadcast: created, save: created };
+  }
+
+  /**
+   * Handle upsert monster template message (DM only)
+   *
+   * @param state - Room state
+   * @param template - Untrusted template; coerced before it is stored
+   * @returns Result indicating broadcast/save needs
+   */
+  handleUpsertMonsterTemplate(state: RoomState, template: unknown): NPCMessageResult {
+    const stored = !!upsertMonsterTemplate(state, template);
+    return { broadcast: stored, save: stored };
+  }
+
+  /**
+   * Handle delete monster template message (DM only)
+   *
+   * @param state - Room state
+   * @param templateId - Template to remove; NPCs made from it are untouched
+   * @returns Result indicating broadcast/save needs
+   */
+  handleDeleteMonsterTemplate(state: RoomState, templateId: string): NPCMessageResult {
+    const removed = deleteMonsterTemplate(state, templateId);
+    return { broadcast: removed, save: removed };
+  }
+
+  /**
+   * Handle import bestiary message (DM only)
+   *
+   * @param state - Room state
+   * @param templates - Untrusted templates from a bestiary file
+   * @returns Result indicating broadcast/save needs
+   */
+  handleImportBestiary(state: RoomState, templates: readonly unknown[]): NPCMessageResult {
+    const stored = importBestiary(state, templates) > 0;
+    return { broadcast: stored, save: stored };
+  }
+
   /**
    * Handle update NPC message (DM only)
    *
@@ -222,4 +308,37 @@ export class NPCMessageHandler {
     const updated = this.characterService.setNPCVisibility(state, npcId, visible);
     return { broadcast: updated, save: updated };
   }
+
+  /**
+   * Names for up to `count` new NPCs (default 1), numbered from `baseName` and
+   * cut short at the character limit. Empty when the room is already full.
+   */
+  private numberedNames(state: RoomState, baseName: string, count?: number): string[] {
+    const requested = Math.max(1, Math.floor(count ?? 1));
+
+    // A room whose characters outgrow the snapshot limit produces a session
+    // file that fails its own load validation — the DM's backup stops being a
+    // backup. Bulk creation is the first way to hit that by accident, so it is
+    // the first thing that has to refuse. Partial batches are deliberate: 3 of
+    // 5 goblins beats 0, and the DM can see what landed.
+    const room = Math.max(0, SNAPSHOT_LIMITS.characters - state.characters.length);
+    const toCreate = Math.min(requested, room);
+    if (toCreate === 0) {
+      console.warn(
+        `Refusing to create NPC: room is at the ${SNAPSHOT_LIMITS.characters}-character limit`,
+      );
+      return [];
+    }
+
+    return allocateNpcNames(
+      state.characters.map((character) => character.name),
+      baseName,
+      toCreate,
+    );
+  }
+}
+
+/** A shared initiative group id for a batch of more than one NPC. */
+function batchGroup(names: string[]): string | undefined {
+  return names.length > 1 ? randomUUID() : undefined;
 }
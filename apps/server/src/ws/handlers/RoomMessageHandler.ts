@@ -18,7 +18,7 @@ import type { RoomState } from "../../domains/room/model.js";
 import type { RoomService } from "../../domains/room/service.js";
 import type { AuthService } from "../../domains/auth/service.js";
 import type { MapStudioService } from "../../domains/mapStudio/service.js";
-import type { MapDocument, RoomSnapshot, ServerMessage } from "@herobyte/shared";
+import type { MapDocument, RoomSnapshot, SavedScene, ServerMessage } from "@herobyte/shared";
 import { toSnapshot } from "../../domains/room/model.js";
 import { getDefaultRoomId, getRoomSecret } from "../../config/auth.js";
 
@@ -61,6 +61,12 @@ function flattenForFile(snapshot: RoomSnapshot, state: RoomState): RoomSnapshot
     diceRolls: (rest.diceRolls ?? []).filter(
       (roll) => roll.visibility === undefined || roll.visibility === "public",
     ),
+    // Every player's memory of EVERY scene, not just the published one the
+    // DM's snapshot carries: a restored session should remember the dungeon
+    // the party left last week as well as the one they are standing in.
+    ...(state.exploredFog.length === 0 ? {} : { exploredFog: state.exploredFog }),
+    // Likewise every scene's painted fog, not just the published scene's.
+    ...(state.fogRegions.length === 0 ? {} : { fogRegions: state.fogRegions }),
     ...(state.mapBackground === undefined ? {} : { mapBackground: state.mapBackground }),
   };
 }
@@ -123,6 +129,7 @@ export class RoomMessageHandler {
     isDM: boolean,
     mapDocuments?: MapDocument[],
     liveMapDocumentId?: string,
+    scenes?: SavedScene[],
   ): RoomMessageResult {
     if (!isDM) {
       console.warn(`Non-DM ${senderUid} attempted to load session`);
@@ -134,10 +141,13 @@ export class RoomMessageHandler {
     const roomId = this.getRoomIdForUid?.(senderUid);
     const restored = this.restoreMapDocuments(roomId, mapDocuments);
 
-    this.roomService.loadSnapshot({
-      ...snapshot,
-      liveMapDocumentId: liveMapDocumentId ?? snapshot.liveMapDocumentId,
-    });
+    this.roomService.loadSnapshot(
+      {
+        ...snapshot,
+        liveMapDocumentId: liveMapDocumentId ?? snapshot.liveMapDocumentId,
+      },
+      scenes,
+    );
 
     // A binding to a document we do not have is NOT inert: the DM's client
     // auto-opens the bound doc, map-studio-get throws MapDocumentNotFoundError,
@@ -151,6 +161,14 @@ export class RoomMessageHandler {
         `load-session: cleared live binding ${bound} — the session file carried no such map document`,
       );
     }
+    // The same dangling binding would only wait for the saved scene to be
+    // activated, so the scenes not on the table get the same check now.
+    for (const scene of state.scenes) {
+      const sceneBinding = scene.content?.liveMapDocumentId;
+      if (sceneBinding && !this.hasDocument(roomId, sceneBinding)) {
+        scene.content!.liveMapDocumentId = undefined;
+      }
+    }
 
     console.log(
       `Loaded session for room ${roomId ?? "(default)"}: restored ${restored} map document(s)`,
@@ -187,6 +205,8 @@ export class RoomMessageHandler {
         snapshot: flattenForFile(toSnapshot(state, true, senderUid), state),
         mapDocuments,
         liveMapDocumentId: state.liveMapDocumentId,
+        // The scenes off the table are room state the snapshot cannot carry.
+        ...(state.scenes.length === 0 ? {} : { scenes: state.scenes }),
       },
     });
     return { broadcast: false, save: false };
@@ -1,17 +1,42 @@
 // Live interactions against the compiled scene: publish compiles the
 // geometry, this handler makes it playable — doors flip, fog toggles — and
-// the snapshot broadcast animates every client.
+// the snapshot broadcast animates every client. The DM's scene list lives
+// here too: switching scenes swaps which compiled scene is live, and map links
+// move tokens between them.
 
-import type { ClientMessage, CompiledDoor } from "@herobyte/shared";
+import type { ClientMessage, CompiledDoor, ServerMessage } from "@herobyte/shared";
 import type { RoomState } from "../../domains/room/model.js";
+import { mergeExploredUpload, setExploredFog } from "../../domains/room/scene/exploredFog.js";
+import {
+  addFogRegion,
+  clearFogRegions,
+  redoFogRegion,
+  undoFogRegion,
+} from "../../domains/room/scene/fogRegions.js";
+import { travelThroughMapLink } from "../../domains/room/scene/mapLinks.js";
+import {
+  activateScene,
+  createScene,
+  deleteScene,
+  duplicateScene,
+} from "../../domains/room/scene/sceneList.js";
 import type { RouteHandlerResult } from "../services/RouteResultHandler.js";
 
 type GetRoomState = (roomId: string) => RoomState;
+type NotifyDMs = (roomId: string, message: ServerMessage) => void;
 
 export class SceneMessageHandler {
-  constructor(private readonly getRoomState: GetRoomState) {}
+  constructor(
+    private readonly getRoomState: GetRoomState,
+    private readonly notifyDMs?: NotifyDMs,
+  ) {}
 
-  handle(message: ClientMessage, roomId: string, isDM: boolean): RouteHandlerResult | null {
+  handle(
+    message: ClientMessage,
+    roomId: string,
+    isDM: boolean,
+    senderUid?: string,
+  ): RouteHandlerResult | null {
     if (message.t === "toggle-door") {
       this.toggleDoor(roomId, message.doorId, isDM);
       return { broadcast: true, save: true };
@@ -49,6 +74,16 @@ export class SceneMessageHandler {
       this.getRoomState(roomId).diagonalRule = message.rule;
       return { broadcast: true, save: true };
     }
+    if (message.t === "set-movement-budget") {
+      if (!isDM) {
+        throw new Error("Movement budget changes require DM permission");
+      }
+      // Stored only. chargeTokenMove reads it on every player move, and the
+      // DM's own moves are never charged, so switching it on mid-fight needs
+      // no catch-up: the current turn simply starts counting.
+      this.getRoomState(roomId).movementBudgetEnabled = message.enabled;
+      return { broadcast: true, save: true };
+    }
     if (message.t === "set-player-props-enabled") {
       if (!isDM) {
         throw new Error("Player prop permission changes require DM permission");
@@ -69,9 +104,103 @@ export class SceneMessageHandler {
       this.getRoomState(roomId).defaultVisionRadius = message.radius;
       return { broadcast: true, save: true };
     }
+    if (message.t === "explored-fog") {
+      // Saved but NOT broadcast: the uploader already has these pixels on
+      // screen, and a table of explorers re-sending every few seconds would
+      // otherwise push a full snapshot to everyone each time. The DM's view of
+      // it catches up with the next broadcast, which play supplies constantly.
+      const changed =
+        !!senderUid && mergeExploredUpload(this.getRoomState(roomId), senderUid, message.mask);
+      return { broadcast: false, save: changed };
+    }
+    if (message.t === "set-explored-fog") {
+      if (!isDM) {
+        throw new Error("Explored area changes require DM permission");
+      }
+      setExploredFog(this.getRoomState(roomId), message.action, message.uid);
+      return { broadcast: true, save: true };
+    }
+    if (
+      message.t === "add-fog-region" ||
+      message.t === "undo-fog-region" ||
+      message.t === "redo-fog-region" ||
+      message.t === "clear-fog-regions"
+    ) {
+      if (!isDM) {
+        throw new Error("Fog region changes require DM permission");
+      }
+      return this.changeFogRegions(this.getRoomState(roomId), message);
+    }
+    if (
+      message.t === "create-scene" ||
+      message.t === "activate-scene" ||
+      message.t === "duplicate-scene" ||
+      message.t === "delete-scene"
+    ) {
+      if (!isDM) {
+        throw new Error("Scene changes require DM permission");
+      }
+      return this.changeScenes(this.getRoomState(roomId), message);
+    }
+    if (message.t === "use-map-link") {
+      const state = this.getRoomState(roomId);
+      const trip = travelThroughMapLink(state, message.linkId, message.tokenIds, {
+        uid: senderUid,
+        isDM,
+      });
+      // The DM hears about every trip, their own included: tokens that left
+      // for another scene are off the table until someone switches to it.
+      const by = isDM
+        ? "DM"
+        : (state.players.find((player) => player.uid === senderUid)?.name ?? "A player");
+      this.notifyDMs?.(roomId, { t: "map-link-used", ...trip, by });
+      return { broadcast: true, save: true };
+    }
     return null;
   }
 
+  private changeScenes(
+    state: RoomState,
+    message: Extract<
+      ClientMessage,
+      { t: "create-scene" | "activate-scene" | "duplicate-scene" | "delete-scene" }
+    >,
+  ): RouteHandlerResult {
+    if (message.t === "create-scene") {
+      createScene(state, message.name);
+    } else if (message.t === "duplicate-scene") {
+      duplicateScene(state, message.sceneId, message.name);
+    } else if (message.t === "delete-scene") {
+      deleteScene(state, message.sceneId);
+    } else {
+      // Activating the scene already on the table is a no-op, not a reload.
+      const changed = activateScene(state, message.sceneId);
+      return { broadcast: changed, save: changed };
+    }
+    return { broadcast: true, save: true };
+  }
+
+  private changeFogRegions(
+    state: RoomState,
+    message: Extract<
+      ClientMessage,
+      { t: "add-fog-region" | "undo-fog-region" | "redo-fog-region" | "clear-fog-regions" }
+    >,
+  ): RouteHandlerResult {
+    if (message.t === "add-fog-region") {
+      addFogRegion(state, message.region);
+      return { broadcast: true, save: true };
+    }
+    if (message.t === "clear-fog-regions") {
+      clearFogRegions(state);
+      return { broadcast: true, save: true };
+    }
+    // An undo with nothing left to undo is a no-op, not an error: the DM's
+    // Ctrl+Z is held down far more often than it is aimed.
+    const changed = message.t === "undo-fog-region" ? undoFogRegion(state) : redoFogRegion(state);
+    return { broadcast: changed, save: changed };
+  }
+
   private toggleDoor(roomId: string, doorId: string, isDM: boolean): void {
     const door = this.requireDoor(roomId, doorId, isDM);
     if (door.state === "locked" && !isDM) {
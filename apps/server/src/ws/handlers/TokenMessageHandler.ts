@@ -12,16 +12,25 @@
  * - set-token-size (lines 129-134)
  * - set-token-color (lines 136-147)
  * - link-token (lines 559-564)
- * - clear-all-tokens (lines 815-837)
+ * - clear-all-tokens (lines 815-837; body now in tokenClearAll.ts)
+ * - set-token-vision-radius, set-token-senses, set-token-light (added since)
  *
  * Extraction date: 2025-11-14
  *
  * @module ws/handlers/TokenMessageHandler
  */
 
-import type { DragPreviewEvent, DragPreviewUpdate, Token, TokenSize } from "@herobyte/shared";
+import type {
+  DragPreviewEvent,
+  DragPreviewUpdate,
+  SenseProfile,
+  Token,
+  TokenLight,
+  TokenSize,
+} from "@herobyte/shared";
 import { isDeltaChannelEnabled } from "../../config/featureFlags.js";
 import { buildTokenDragPreview } from "./tokenDragPreview.js";
+import { clearAllTokensForDM } from "./tokenClearAll.js";
 import type { RoomState } from "../../domains/room/model.js";
 import type { TokenService } from "../../domains/token/service.js";
 import type { CharacterService } from "../../domains/character/service.js";
@@ -244,6 +253,44 @@ export class TokenMessageHandler {
     return { broadcast: updated, save: updated };
   }
 
+  /**
+   * Handle set token senses message (DM only — see TokenService.setSenses).
+   *
+   * @param isDM - Whether sender is a DM; a non-DM change is refused outright
+   * @returns Result indicating broadcast/save needs
+   */
+  handleSetSenses(
+    state: RoomState,
+    tokenId: string,
+    senses: SenseProfile | null,
+    isDM: boolean,
+  ): TokenMessageResult {
+    if (!isDM) {
+      return { broadcast: false, save: false };
+    }
+    const updated = this.tokenService.setSenses(state, tokenId, senses);
+    return { broadcast: updated, save: updated };
+  }
+
+  /**
+   * Handle set token light message (owner, or DM — see TokenService.setLight).
+   *
+   * @param senderUid - UID of the player lighting the token
+   * @param light - The carried light, or null to put it out
+   * @param isDM - Whether sender is a DM
+   * @returns Result indicating broadcast/save needs
+   */
+  handleSetLight(
+    state: RoomState,
+    tokenId: string,
+    senderUid: string,
+    light: TokenLight | null,
+    isDM: boolean,
+  ): TokenMessageResult {
+    const updated = this.tokenService.setLight(state, tokenId, senderUid, light, isDM);
+    return { broadcast: updated, save: updated };
+  }
+
   /**
    * Handle link token to character message (owner of BOTH ends, or DM)
    *
@@ -290,32 +337,7 @@ export class TokenMessageHandler {
    * @returns Result indicating broadcast/save needs
    */
   handleClearAll(state: RoomState, senderUid: string): TokenMessageResult {
-    // Get IDs of tokens to be removed (all except sender's)
-    const removedIds = state.tokens
-      .filter((token) => token.owner !== senderUid)
-      .map((token) => token.id);
-
-    // Clear tokens except sender's
-    this.tokenService.clearAllTokensExcept(state, senderUid);
-
-    // Remove selections for deleted tokens
-    for (const tokenId of removedIds) {
-      this.selectionService.removeObject(state, tokenId);
-    }
-
-    // Get UIDs of players to be removed (all except sender)
-    const removedPlayerUids = state.players
-      .filter((player) => player.uid !== senderUid)
-      .map((player) => player.uid);
-
-    // Remove all players except sender (DM)
-    state.players = state.players.filter((p) => p.uid === senderUid);
-
-    // Deselect for removed players
-    for (const uid of removedPlayerUids) {
-      this.selectionService.deselect(state, uid);
-    }
-
+    clearAllTokensForDM(state, senderUid, this.tokenService, this.selectionService);
     return { broadcast: true, save: true };
   }
 }
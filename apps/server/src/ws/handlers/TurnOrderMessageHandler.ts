@@ -0,0 +1,172 @@
+/**
+ * TurnOrderMessageHandler
+ *
+ * Handles the messages that bend the initiative order mid-fight (the rules
+ * are in the shared initiativeOrder module):
+ * - delay-turn: on your own turn, move to just after someone later this
+ *   round, or hold (no target) and step out of the order
+ * - resume-turn: a holding combatant comes back in, acting next
+ * - ready-action: set or clear a readied action's trigger
+ * - reorder-initiative: the DM drags the tracker into a new order
+ *
+ * A combatant's owner or the DM may delay, hold, resume or ready for them.
+ * Every path leaves `currentTurnCharacterId` on someone still in the walk:
+ * delay and hold pass the turn on exactly as next-turn would (turnHandOff),
+ * and a reorder or resume moves people around it without moving it.
+ *
+ * @module ws/handlers/TurnOrderMessageHandler
+ */
+
+import type { Character } from "@herobyte/shared";
+import type { RoomState } from "../../domains/room/model.js";
+import type { CharacterService } from "../../domains/character/service.js";
+import { ChatService } from "../../domains/chat/service.js";
+import { handOffTurn, turnWalk } from "../../domains/room/combat/turnHandOff.js";
+import type { InitiativeMessageResult } from "./InitiativeMessageHandler.js";
+
+const NO_CHANGE: InitiativeMessageResult = { broadcast: false, save: false };
+const CHANGED: InitiativeMessageResult = { broadcast: true, save: true };
+
+/**
+ * Handler for delay, hold, ready and manual reordering
+ */
+export class TurnOrderMessageHandler {
+  private characterService: CharacterService;
+  private chatService: ChatService;
+
+  constructor(characterService: CharacterService, chatService: ChatService = new ChatService()) {
+    this.characterService = characterService;
+    this.chatService = chatService;
+  }
+
+  /**
+   * Handle delay-turn message
+   *
+   * With `afterCharacterId`, the current actor moves to just after that
+   * combatant, who must come later this round; without it they hold. Either
+   * way the turn passes to whoever was next, and the delayer's end-of-turn
+   * clocks do not run — they have not taken their turn yet.
+   */
+  handleDelayTurn(
+    state: RoomState,
+    characterId: string,
+    afterCharacterId: string | undefined,
+    senderUid: string,
+    isDM: boolean,
+  ): InitiativeMessageResult {
+    const character = this.actingFor(state, characterId, senderUid, isDM);
+    if (!character || !state.combatActive || state.currentTurnCharacterId !== characterId) {
+      console.warn(`delay-turn refused for ${characterId}: not their turn, or not theirs to move`);
+      return NO_CHANGE;
+    }
+
+    const order = this.characterService.getCharactersInInitiativeOrder(state);
+    const walk = turnWalk(order, state);
+    const index = walk.findIndex((c) => c.id === characterId);
+    if (index === -1 || walk.length < 2) return NO_CHANGE;
+
+    if (afterCharacterId === undefined) {
+      const nextIndex = (index + 1) % walk.length;
+      if (nextIndex <= index) state.combatRound = (state.combatRound ?? 1) + 1;
+      character.initiativeHeld = true;
+      console.log(`${character.name} holds their turn`);
+      handOffTurn(state, this.characterService, this.chatService, undefined, walk[nextIndex]);
+      return CHANGED;
+    }
+
+    // Later this round only: delaying "back" would be a second turn.
+    if (walk.findIndex((c) => c.id === afterCharacterId) <= index) return NO_CHANGE;
+    const ids = order.map((c) => c.id).filter((id) => id !== characterId);
+    ids.splice(ids.indexOf(afterCharacterId) + 1, 0, characterId);
+    state.initiativeOrder = ids;
+    console.log(`${character.name} delays until after ${afterCharacterId}`);
+    handOffTurn(state, this.characterService, this.chatService, undefined, walk[index + 1]);
+    return CHANGED;
+  }
+
+  /**
+   * Handle resume-turn message
+   *
+   * A holding combatant re-enters the order just after the current actor, so
+   * theirs is the next turn. The current turn itself does not move.
+   */
+  handleResumeTurn(
+    state: RoomState,
+    characterId: string,
+    senderUid: string,
+    isDM: boolean,
+  ): InitiativeMessageResult {
+    const character = this.actingFor(state, characterId, senderUid, isDM);
+    if (!character?.initiativeHeld || !state.combatActive) return NO_CHANGE;
+
+    const ids = this.characterService
+      .getCharactersInInitiativeOrder(state)
+      .map((c) => c.id)
+      .filter((id) => id !== characterId);
+    const current = ids.indexOf(state.currentTurnCharacterId ?? "");
+    ids.splice(current + 1, 0, characterId);
+    state.initiativeOrder = ids;
+    character.initiativeHeld = undefined;
+    console.log(`${character.name} stops holding and acts next`);
+    return CHANGED;
+  }
+
+  /**
+   * Handle ready-action message
+   *
+   * Sets the readied trigger ("" readies without one) or, when absent,
+   * clears it. It lapses by itself when the readier's next turn starts.
+   */
+  handleReadyAction(
+    state: RoomState,
+    characterId: string,
+    trigger: string | undefined,
+    senderUid: string,
+    isDM: boolean,
+  ): InitiativeMessageResult {
+    const character = this.actingFor(state, characterId, senderUid, isDM);
+    if (!character || character.initiative === undefined) return NO_CHANGE;
+    character.readiedAction = trigger?.trim();
+    return CHANGED;
+  }
+
+  /**
+   * Handle reorder-initiative message (DM only)
+   *
+   * The order becomes the room's arrangement. Ids no longer in the fight are
+   * dropped, and any combatant the list leaves out keeps their place by the
+   * sort (shared applyManualOrder), so a stale client cannot lose anyone.
+   */
+  handleReorderInitiative(
+    state: RoomState,
+    order: string[],
+    senderUid: string,
+    isDM: boolean,
+  ): InitiativeMessageResult {
+    if (!isDM) {
+      console.warn(`Non-DM ${senderUid} attempted to reorder initiative`);
+      return NO_CHANGE;
+    }
+    const inFight = new Set(
+      this.characterService.getCharactersInInitiativeOrder(state).map((c) => c.id),
+    );
+    const arranged = [...new Set(order)].filter((id) => inFight.has(id));
+    if (arranged.length === 0) return NO_CHANGE;
+    state.initiativeOrder = arranged;
+    return CHANGED;
+  }
+
+  /** The character, if the sender may act for it. */
+  private actingFor(
+    state: RoomState,
+    characterId: string,
+    senderUid: string,
+    isDM: boolean,
+  ): Character | undefined {
+    const character = this.characterService.findCharacter(state, characterId);
+    if (!character) return undefined;
+    return isDM || this.characterService.canControlCharacter(character, senderUid)
+      ? character
+      : undefined;
+  }
+}
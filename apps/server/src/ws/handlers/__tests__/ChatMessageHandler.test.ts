@@ -2,13 +2,20 @@ import { describe, it, expect, vi } from "vitest";
 import { ChatMessageHandler } from "../ChatMessageHandler.js";
 import { ChatService } from "../../../domains/chat/service.js";
 import { PlayerService } from "../../../domains/player/service.js";
+import { DiceService } from "../../../domains/dice/service.js";
 import { createEmptyRoomState } from "../../../domains/room/model.js";
+import { visibleChatFor } from "../../../domains/room/snapshot/recipientFilter.js";
 
 function setup() {
   const state = createEmptyRoomState();
   state.players.push({ uid: "uid-alice", name: "Alice", isDM: false });
   state.players.push({ uid: "uid-dm", name: "The DM", isDM: true });
-  return { state, handler: new ChatMessageHandler(new ChatService(), new PlayerService()) };
+  // Every die lands on 4, so each bracket's total is known.
+  const rng = () => 4;
+  return {
+    state,
+    handler: new ChatMessageHandler(new ChatService(), new PlayerService(), new DiceService(), rng),
+  };
 }
 
 describe("ChatMessageHandler.handleChat", () => {
@@ -38,6 +45,98 @@ describe("ChatMessageHandler.handleChat", () => {
     handler.handleChat(state, "uid-alice", "psst", "uid-dm");
     expect(state.chatLog[0]?.to).toBe("uid-dm");
   });
+
+  it("rolls each [[...]] on the server and keeps the text as typed", () => {
+    const { state, handler } = setup();
+
+    handler.handleChat(state, "uid-alice", "I swing [[1d20+5]] for [[2d8 + 3]] [[sic]]");
+
+    const [message] = state.chatLog;
+    expect(message?.text).toBe("I swing [[1d20+5]] for [[2d8 + 3]] [[sic]]");
+    expect(
+      message?.inlineRolls?.map(({ index, formula, total }) => ({ index, formula, total })),
+    ).toEqual([
+      { index: 0, formula: "d20 + 5", total: 9 },
+      { index: 1, formula: "2d8 + 3", total: 11 },
+    ]);
+  });
+
+  it("adds no rolls to a plain message", () => {
+    const { state, handler } = setup();
+    handler.handleChat(state, "uid-alice", "hello");
+    expect(state.chatLog[0]).not.toHaveProperty("inlineRolls");
+  });
+
+  it("keeps a whisper's rolls between its author and target", () => {
+    const { state, handler } = setup();
+    handler.handleChat(state, "uid-alice", "secret [[d20]]", "uid-dm");
+
+    expect(visibleChatFor(state.chatLog, "uid-dm")[0]?.inlineRolls).toHaveLength(1);
+    expect(visibleChatFor(state.chatLog, "uid-bob")).toEqual([]);
+  });
+});
+
+describe("ChatMessageHandler.handleChat — slash commands", () => {
+  it("rolls /r and /gmr into the roll log under the sender, not into chat", () => {
+    const { state, handler } = setup();
+
+    expect(handler.handleChat(state, "uid-alice", "/r 2d6+3")).toEqual({
+      broadcast: true,
+      save: false,
+    });
+    handler.handleChat(state, "uid-alice", "/gmroll d20");
+
+    expect(state.chatLog).toEqual([]);
+    expect(
+      state.diceRolls.map(({ playerUid, formula, total, visibility }) => ({
+        playerUid,
+        formula,
+        total,
+        visibility,
+      })),
+    ).toEqual([
+      { playerUid: "uid-alice", formula: "2d6 + 3", total: 11, visibility: undefined },
+      { playerUid: "uid-alice", formula: "d20", total: 4, visibility: "dm" },
+    ]);
+  });
+
+  it("whispers to a player named in /w", () => {
+    const { state, handler } = setup();
+    handler.handleChat(state, "uid-alice", "/w the dm meet me [[d6]]");
+
+    expect(state.chatLog[0]).toMatchObject({ to: "uid-dm", text: "meet me [[d6]]" });
+    expect(state.chatLog[0]?.inlineRolls).toHaveLength(1);
+  });
+
+  it("styles /me and /ooc, and keeps /desc for the DM", () => {
+    const { state, handler } = setup();
+    handler.handleChat(state, "uid-alice", "/me draws a sword");
+    handler.handleChat(state, "uid-alice", "/ooc brb");
+    handler.handleChat(state, "uid-dm", "/desc The door creaks.", undefined, true);
+
+    expect(state.chatLog.map(({ text, style }) => ({ text, style }))).toEqual([
+      { text: "draws a sword", style: "emote" },
+      { text: "brb", style: "ooc" },
+      { text: "The door creaks.", style: "desc" },
+    ]);
+  });
+
+  it("answers a command it cannot carry out to the sender alone", () => {
+    const { state, handler } = setup();
+    handler.handleChat(state, "uid-alice", "/desc I am the DM now", undefined, false);
+    handler.handleChat(state, "uid-alice", "/w Nobody hi");
+    handler.handleChat(state, "uid-alice", "/r banana");
+    handler.handleChat(state, "uid-alice", "/dance");
+
+    expect(state.chatLog.every((m) => m.system && m.to === "uid-alice")).toBe(true);
+    expect(state.chatLog.map((m) => m.text)).toEqual([
+      "Only the DM can narrate with /desc.",
+      "No one here by that name to whisper to.",
+      expect.stringContaining('Can\'t roll "banana"'),
+      'Unknown command "/dance".',
+    ]);
+    expect(visibleChatFor(state.chatLog, "uid-dm")).toEqual([]);
+  });
 });
 
 describe("ChatMessageHandler.handleClearChatLog", () => {
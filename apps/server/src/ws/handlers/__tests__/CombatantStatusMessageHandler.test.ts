@@ -0,0 +1,96 @@
+/**
+ * Tests for CombatantStatusMessageHandler: marking combatants out of the
+ * fight, and the DM's sweep of defeated NPCs. Run against the real services
+ * so the token cleanup and the turn hand-off are the ones delete-npc and
+ * next-turn use.
+ *
+ * @module ws/handlers/__tests__/CombatantStatusMessageHandler.test
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { Character } from "@herobyte/shared";
+import { CombatantStatusMessageHandler } from "../CombatantStatusMessageHandler.js";
+import { NPCMessageHandler } from "../NPCMessageHandler.js";
+import { CharacterService } from "../../../domains/character/service.js";
+import { ChatService } from "../../../domains/chat/service.js";
+import { SelectionService } from "../../../domains/selection/service.js";
+import { TokenService } from "../../../domains/token/service.js";
+import { createEmptyRoomState, type RoomState } from "../../../domains/room/model.js";
+
+const CHANGED = { broadcast: true, save: true };
+
+function combatant(id: string, initiative: number, extra: Partial<Character> = {}): Character {
+  return { id, name: id, type: "npc", hp: 10, maxHp: 10, initiative, ...extra };
+}
+
+describe("CombatantStatusMessageHandler", () => {
+  let state: RoomState;
+  let handler: CombatantStatusMessageHandler;
+
+  const ids = () => state.characters.map((c) => c.id);
+
+  beforeEach(() => {
+    state = createEmptyRoomState();
+    state.characters = [
+      combatant("aria", 20, { type: "pc", ownedByPlayerUID: "p1" }),
+      combatant("gob", 15, { tokenId: "t-gob" }),
+      combatant("bram", 10, { type: "pc", ownedByPlayerUID: "p2" }),
+      combatant("ogre", 5),
+    ];
+    state.tokens = [{ id: "t-gob", owner: "dm", x: 0, y: 0, color: "#000" }];
+    const characterService = new CharacterService();
+    handler = new CombatantStatusMessageHandler(
+      characterService,
+      new NPCMessageHandler(characterService, new TokenService(), new SelectionService()),
+      new ChatService(),
+    );
+  });
+
+  it("sets and clears a status", () => {
+    expect(handler.handleSetCharacterStatus(state, "gob", "fled")).toEqual({
+      broadcast: true,
+      save: true,
+    });
+    expect(state.characters[1].status).toBe("fled");
+
+    handler.handleSetCharacterStatus(state, "gob", "active");
+    expect(state.characters[1].status).toBeUndefined();
+    expect(handler.handleSetCharacterStatus(state, "nobody", "dead").broadcast).toBe(false);
+  });
+
+  it("removes defeated NPCs with their tokens and never a PC", () => {
+    handler.handleSetCharacterStatus(state, "gob", "dead");
+    handler.handleSetCharacterStatus(state, "bram", "dead");
+
+    expect(handler.handleRemoveDefeated(state)).toEqual({ broadcast: true, save: true });
+    expect(ids()).toEqual(["aria", "bram", "ogre"]);
+    expect(state.tokens).toEqual([]);
+
+    expect(handler.handleRemoveDefeated(state).broadcast).toBe(false);
+  });
+
+  it("passes the turn on before removing whoever holds it", () => {
+    state.combatActive = true;
+    state.currentTurnCharacterId = "gob";
+    handler.handleSetCharacterStatus(state, "gob", "dead");
+
+    handler.handleRemoveDefeated(state);
+
+    expect(state.currentTurnCharacterId).toBe("bram");
+    expect(state.combatLog.at(-1)).toMatchObject({ kind: "turn-started", name: "bram" });
+  });
+
+  it("lets the owner or the DM set a downed PC's death saves, and no one else", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    Object.assign(state.characters[0], { hp: 0, status: "unconscious" });
+    const saves = { successes: 2, failures: 1 };
+
+    expect(handler.handleSetDeathSaves(state, "aria", "p2", saves, false).broadcast).toBe(false);
+    expect(handler.handleSetDeathSaves(state, "aria", "p1", saves, false)).toEqual(CHANGED);
+    expect(state.characters[0].deathSaves).toEqual(saves);
+
+    // Bram is on his feet: there is no tally to keep.
+    expect(handler.handleSetDeathSaves(state, "bram", "dm", saves, true).broadcast).toBe(false);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for DiceMacroMessageHandler: a character's macros and the table's,
+ * who may write each, and that what is stored is the coerced list.
+ *
+ * @module ws/handlers/__tests__/DiceMacroMessageHandler.test
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MACRO_LIMITS, type Character } from "@herobyte/shared";
+import { DiceMacroMessageHandler } from "../DiceMacroMessageHandler.js";
+import { CharacterService } from "../../../domains/character/service.js";
+import { createEmptyRoomState, toSnapshot, type RoomState } from "../../../domains/room/model.js";
+
+const CHANGED = { broadcast: true, save: true };
+const LONGSWORD = { id: "m1", label: "Longsword", formula: "1d8+3", mode: "normal" as const };
+const PERCEPTION = { id: "t1", label: "Perception", formula: "d20", mode: "normal" as const };
+
+function pc(id: string, owner: string): Character {
+  return { id, name: id, type: "pc", hp: 10, maxHp: 10, ownedByPlayerUID: owner };
+}
+
+describe("DiceMacroMessageHandler", () => {
+  let state: RoomState;
+  let handler: DiceMacroMessageHandler;
+  let warn: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    state = createEmptyRoomState();
+    state.characters = [pc("aria", "p1"), pc("bram", "p2")];
+    handler = new DiceMacroMessageHandler(new CharacterService());
+    warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    return () => warn.mockRestore();
+  });
+
+  it("lets the owner or the DM set a character's macros, and no one else", () => {
+    expect(handler.handleSetCharacterMacros(state, "aria", "p2", [LONGSWORD], false)).toEqual({
+      broadcast: false,
+      save: false,
+    });
+    expect(state.characters[0].macros).toBeUndefined();
+
+    expect(handler.handleSetCharacterMacros(state, "aria", "p1", [LONGSWORD], false)).toEqual(
+      CHANGED,
+    );
+    expect(state.characters[0].macros).toEqual([LONGSWORD]);
+
+    expect(handler.handleSetCharacterMacros(state, "bram", "dm", [LONGSWORD], true)).toEqual(
+      CHANGED,
+    );
+    expect(handler.handleSetCharacterMacros(state, "nobody", "dm", [], true).broadcast).toBe(false);
+  });
+
+  it("stores the coerced list, and clears it when the list is empty", () => {
+    const many = Array.from({ length: MACRO_LIMITS.CHARACTER_MAX + 2 }, (_, index) => ({
+      ...LONGSWORD,
+      id: `m${index}`,
+    }));
+    handler.handleSetCharacterMacros(state, "aria", "p1", many, false);
+    expect(state.characters[0].macros).toHaveLength(MACRO_LIMITS.CHARACTER_MAX);
+
+    handler.handleSetCharacterMacros(state, "aria", "p1", [], false);
+    expect(state.characters[0].macros).toBeUndefined();
+  });
+
+  it("lets only the DM set the table macros, which every player then receives", () => {
+    expect(handler.handleSetTableMacros(state, "p1", [PERCEPTION], false).broadcast).toBe(false);
+    expect(state.tableMacros).toEqual([]);
+
+    expect(
+      handler.handleSetTableMacros(
+        state,
+        "dm",
+        [PERCEPTION, { ...PERCEPTION, formula: "x" }],
+        true,
+      ),
+    ).toEqual(CHANGED);
+    expect(state.tableMacros).toEqual([PERCEPTION]);
+    expect(toSnapshot(state, false, "p1").tableMacros).toEqual([PERCEPTION]);
+
+    handler.handleSetTableMacros(state, "dm", [], true);
+    expect(toSnapshot(state, false, "p1").tableMacros).toBeUndefined();
+  });
+});
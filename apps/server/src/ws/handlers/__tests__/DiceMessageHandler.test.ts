@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Character } from "@herobyte/shared";
+import { DiceMessageHandler } from "../DiceMessageHandler.js";
+import { DiceService } from "../../../domains/dice/service.js";
+import { PlayerService } from "../../../domains/player/service.js";
+import { CharacterService } from "../../../domains/character/service.js";
+import { createEmptyRoomState } from "../../../domains/room/model.js";
+
+const SCIMITAR = { name: "Scimitar", toHit: 4, damage: "1d6+2", damageType: "slashing" };
+
+function character(overrides: Partial<Character> & Pick<Character, "id" | "name">): Character {
+  return { type: "pc", hp: 20, maxHp: 20, ...overrides };
+}
+
+function setup() {
+  const state = createEmptyRoomState();
+  state.players.push({ uid: "uid-alice", name: "Alice", isDM: false });
+  state.players.push({ uid: "uid-dm", name: "The DM", isDM: true });
+  state.characters.push(
+    character({ id: "aria", name: "Aria", ownedByPlayerUID: "uid-alice", attacks: [SCIMITAR] }),
+    character({ id: "goblin", name: "Goblin", type: "npc", hp: 7, maxHp: 7, tempHp: 3 }),
+  );
+  const diceService = new DiceService();
+  const handler = new DiceMessageHandler(diceService, new PlayerService(), new CharacterService());
+  return { state, handler, diceService };
+}
+
+const ATTACK = { attackerId: "aria", attackName: "Scimitar", targetId: "goblin" };
+
+describe("DiceMessageHandler.handleRollAttack", () => {
+  it("logs the to-hit and damage as one roll naming the target, without touching its HP", () => {
+    const { state, handler } = setup();
+
+    const result = handler.handleRollAttack(state, "uid-alice", false, ATTACK);
+
+    expect(result).toEqual({ broadcast: true, save: false });
+    const roll = state.diceRolls[0];
+    expect(roll?.playerName).toBe("Alice");
+    expect(roll?.formula).toBe("d20 + 4");
+    expect(roll?.attack).toMatchObject({
+      attackerName: "Aria",
+      attackName: "Scimitar",
+      targetName: "Goblin",
+      damage: { formula: "d6 + 2", damageType: "slashing" },
+    });
+    expect(roll?.attack?.applied).toBeUndefined();
+    expect(state.characters[1]).toMatchObject({ hp: 7, tempHp: 3 });
+  });
+
+  it("refuses a player swinging someone else's character, and attacks it does not have", () => {
+    const { state, handler } = setup();
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    handler.handleRollAttack(state, "uid-alice", false, {
+      ...ATTACK,
+      attackerId: "goblin",
+      targetId: "aria",
+    });
+    handler.handleRollAttack(state, "uid-alice", false, { ...ATTACK, attackName: "Fireball" });
+
+    expect(state.diceRolls).toHaveLength(0);
+    warn.mockRestore();
+  });
+
+  it("applies at once only when the DM asks, and only for the DM", () => {
+    const { state, handler } = setup();
+
+    handler.handleRollAttack(state, "uid-alice", false, { ...ATTACK, applyDamage: true });
+    expect(state.diceRolls[0]?.attack?.applied).toBeUndefined();
+
+    const result = handler.handleRollAttack(state, "uid-dm", true, {
+      ...ATTACK,
+      applyDamage: true,
+    });
+    expect(result).toEqual({ broadcast: true, save: true });
+    expect(state.diceRolls[1]?.attack?.applied).toBe(true);
+  });
+
+  it("does not apply damage for an attack that missed", () => {
+    const { state, handler, diceService } = setup();
+    state.characters[1]!.ac = 12;
+    const rollAttackFor = diceService.rollAttackFor.bind(diceService);
+    // Every die shows 1: a natural 1 misses whatever the AC.
+    vi.spyOn(diceService, "rollAttackFor").mockImplementation((s, request) =>
+      rollAttackFor(s, request, () => 1),
+    );
+
+    const result = handler.handleRollAttack(state, "uid-dm", true, {
+      ...ATTACK,
+      applyDamage: true,
+    });
+
+    expect(result).toEqual({ broadcast: true, save: false });
+    expect(state.diceRolls[0]?.outcome).toBe("miss");
+    expect(state.diceRolls[0]?.attack?.applied).toBeUndefined();
+    expect(state.characters[1]).toMatchObject({ hp: 7, tempHp: 3 });
+  });
+
+  it("keeps an attack involving a hidden NPC out of the players' log", () => {
+    const { state, handler } = setup();
+    state.characters[1]!.visibleToPlayers = false;
+
+    handler.handleRollAttack(state, "uid-alice", false, ATTACK);
+
+    expect(state.diceRolls[0]?.visibility).toBe("dm");
+  });
+});
+
+describe("DiceMessageHandler.handleDiceRoll with a target", () => {
+  it("records the target and the outcome, never the AC", () => {
+    const { state, handler } = setup();
+    state.characters[1]!.ac = 13;
+
+    handler.handleDiceRoll(state, "uid-alice", "d20+3", undefined, "public", "goblin");
+
+    const roll = state.diceRolls[0]!;
+    expect(roll.target).toEqual({ id: "goblin", name: "Goblin" });
+    expect(["hit", "miss", "crit"]).toContain(roll.outcome);
+    expect(JSON.stringify(roll)).not.toContain(`"ac"`);
+  });
+
+  it("drops a hidden target for a player, and hides the DM's roll at one", () => {
+    const { state, handler } = setup();
+    state.characters[1]!.visibleToPlayers = false;
+
+    handler.handleDiceRoll(state, "uid-alice", "d20", undefined, "public", "goblin");
+    handler.handleDiceRoll(state, "uid-dm", "d20", undefined, "public", "goblin", true);
+
+    expect(state.diceRolls[0]?.target).toBeUndefined();
+    expect(state.diceRolls[0]?.visibility).toBeUndefined();
+    expect(state.diceRolls[1]).toMatchObject({ target: { id: "goblin" }, visibility: "dm" });
+  });
+});
+
+describe("DiceMessageHandler.handleApplyAttackDamage", () => {
+  it("takes the logged damage off temp HP first, exactly once, and only for the DM", () => {
+    const { state, handler } = setup();
+    handler.handleRollAttack(state, "uid-alice", false, ATTACK);
+    const roll = state.diceRolls[0]!;
+    const damage = roll.attack!.damage.total;
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect(handler.handleApplyAttackDamage(state, "uid-alice", false, roll.id).broadcast).toBe(
+      false,
+    );
+    expect(handler.handleApplyAttackDamage(state, "uid-dm", true, roll.id)).toEqual({
+      broadcast: true,
+      save: true,
+    });
+    expect(handler.handleApplyAttackDamage(state, "uid-dm", true, roll.id).broadcast).toBe(false);
+
+    // 1d6+2 is 3–8 against 3 temp HP: the temp HP always goes first.
+    const goblin = state.characters[1]!;
+    expect(goblin.tempHp).toBeUndefined();
+    expect(goblin.hp).toBe(7 - (damage - 3));
+    warn.mockRestore();
+  });
+});
+
+describe("DiceMessageHandler.handleRollDeathSave", () => {
+  /** Aria on 0 HP, with every die the server throws showing `face`. */
+  function downed(face: number) {
+    const { state, handler, diceService } = setup();
+    Object.assign(state.characters[0]!, { hp: 0, status: "unconscious" });
+    const rollFor = diceService.rollFor.bind(diceService);
+    vi.spyOn(diceService, "rollFor").mockImplementation((s, request) =>
+      rollFor(s, request, () => face),
+    );
+    return { state, handler, aria: state.characters[0]! };
+  }
+
+  it("rolls a public d20 naming the PC and counts it", () => {
+    const { state, handler, aria } = downed(12);
+
+    expect(handler.handleRollDeathSave(state, "uid-alice", false, "aria")).toEqual({
+      broadcast: true,
+      save: true,
+    });
+
+    expect(state.diceRolls[0]).toMatchObject({
+      formula: "d20",
+      total: 12,
+      target: { id: "aria", name: "Aria" },
+      deathSave: "success",
+    });
+    expect(state.diceRolls[0]?.visibility).toBeUndefined();
+    expect(state.diceRolls[0]?.outcome).toBeUndefined();
+    expect(aria.deathSaves).toEqual({ successes: 1, failures: 0 });
+  });
+
+  it("puts them back on 1 HP on a natural 20", () => {
+    const { state, handler, aria } = downed(20);
+
+    handler.handleRollDeathSave(state, "uid-dm", true, "aria");
+
+    expect(state.diceRolls[0]?.deathSave).toBe("revived");
+    expect(aria).toMatchObject({ hp: 1, status: undefined, deathSaves: undefined });
+  });
+
+  it("refuses someone else's PC, and anyone with no save to make", () => {
+    const { state, handler } = downed(12);
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    state.players.push({ uid: "uid-bob", name: "Bob", isDM: false });
+
+    handler.handleRollDeathSave(state, "uid-bob", false, "aria");
+    handler.handleRollDeathSave(state, "uid-dm", true, "goblin");
+    state.characters[0]!.deathSaves = { successes: 3, failures: 0 };
+    handler.handleRollDeathSave(state, "uid-alice", false, "aria");
+
+    expect(state.diceRolls).toHaveLength(0);
+    warn.mockRestore();
+  });
+});
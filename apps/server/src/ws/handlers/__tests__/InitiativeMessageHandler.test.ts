@@ -20,7 +20,7 @@ import { InitiativeMessageHandler } from "../InitiativeMessageHandler.js";
 import type { Character } from "@herobyte/shared";
 import { createEmptyRoomState } from "../../../domains/room/model.js";
 import type { RoomState } from "../../../domains/room/model.js";
-import type { CharacterService } from "../../../domains/character/service.js";
+import { CharacterService } from "../../../domains/character/service.js";
 import type { RoomService } from "../../../domains/room/service.js";
 
 describe("InitiativeMessageHandler", () => {
@@ -102,6 +102,10 @@ describe("InitiativeMessageHandler", () => {
             return bTotal - aTotal; // Higher initiative first
           });
       }),
+      // The real clock: ticking is plain state arithmetic with nothing to stub.
+      tickConditions: vi.fn((state: RoomState, endedIds: string[], startedIds: string[]) =>
+        new CharacterService().tickConditions(state, endedIds, startedIds),
+      ),
       clearAllInitiative: vi.fn((state: RoomState) => {
         state.characters.forEach((c) => {
           c.initiative = undefined;
@@ -321,6 +325,19 @@ describe("InitiativeMessageHandler", () => {
       expect(state.combatActive).toBe(true);
       expect(state.currentTurnCharacterId).toBeUndefined();
     });
+
+    it("opens a fresh combat log at round 1 with the first turn", () => {
+      state.combatRound = 4;
+      state.combatLog = [{ id: "old", kind: "combat-ended", round: 4, at: 0 }];
+
+      handler.handleStartCombat(state, "dmPlayer", true);
+
+      expect(state.combatRound).toBe(1);
+      expect(state.combatLog.map((event) => [event.kind, event.name, event.round])).toEqual([
+        ["combat-started", undefined, 1],
+        ["turn-started", "Wizard", 1],
+      ]);
+    });
   });
 
   describe("handleEndCombat", () => {
@@ -350,6 +367,17 @@ describe("InitiativeMessageHandler", () => {
       expect(state.characters[1].initiative).toBe(18);
     });
 
+    it("logs the end and keeps the log and round for export", () => {
+      state.combatRound = 3;
+
+      handler.handleEndCombat(state, "dmPlayer", true);
+
+      expect(state.combatRound).toBe(3);
+      expect(state.combatLog).toEqual([
+        expect.objectContaining({ kind: "combat-ended", round: 3 }),
+      ]);
+    });
+
     it("should reject non-DM ending combat", () => {
       const result = handler.handleEndCombat(state, "player1", false);
 
@@ -392,6 +420,29 @@ describe("InitiativeMessageHandler", () => {
       expect(state.currentTurnCharacterId).toBe("char2");
     });
 
+    it("starts the next round on wrapping and logs the new turn", () => {
+      state.combatRound = 1;
+      handler.handleNextTurn(state, "dmPlayer", true);
+      expect(state.combatRound).toBe(1);
+
+      state.currentTurnCharacterId = "char3";
+      handler.handleNextTurn(state, "dmPlayer", true);
+
+      expect(state.combatRound).toBe(2);
+      expect(state.combatLog.map((event) => [event.name, event.round])).toEqual([
+        ["Fighter", 1],
+        ["Wizard", 2],
+      ]);
+    });
+
+    it("starts the movement budget afresh for the new turn", () => {
+      state.movementLedger = { characterId: "char2", spentFeet: { "token-2": 30 } };
+
+      handler.handleNextTurn(state, "dmPlayer", true);
+
+      expect(state.movementLedger).toBeUndefined();
+    });
+
     it("should allow non-DM advancing turn", () => {
       const result = handler.handleNextTurn(state, "player1", false);
 
@@ -411,6 +462,51 @@ describe("InitiativeMessageHandler", () => {
       expect(result.save).toBe(false);
       expect(state.currentTurnCharacterId).toBe("char2");
     });
+
+    it("ticks condition clocks on the turns that end and begin", () => {
+      state.characters[0].conditions = [{ key: "poisoned", rounds: 2 }];
+      state.characters[2].conditions = [
+        { key: "restrained", rounds: 1, endsAt: { characterId: "char2", boundary: "end" } },
+        { key: "prone" },
+      ];
+
+      handler.handleNextTurn(state, "dmPlayer", true);
+
+      expect(state.characters[0].conditions).toEqual([{ key: "poisoned", rounds: 1 }]);
+      expect(state.characters[2].conditions).toEqual([{ key: "prone" }]);
+    });
+
+    it("announces what runs out in chat", () => {
+      state.characters[0].conditions = [{ key: "frightened", source: "Dragon", rounds: 1 }];
+
+      handler.handleNextTurn(state, "dmPlayer", true);
+
+      expect(state.characters[0].conditions).toBeUndefined();
+      expect(state.chatLog).toEqual([
+        expect.objectContaining({
+          authorUid: "",
+          system: true,
+          text: "Frightened (Dragon) ends on Fighter.",
+        }),
+      ]);
+      expect(state.chatLog[0].to).toBeUndefined();
+    });
+
+    it("whispers the expiry to each DM when the character is hidden", () => {
+      state.players = [
+        { uid: "dm1", name: "DM", isDM: true },
+        { uid: "player1", name: "P1", isDM: false },
+      ] as RoomState["players"];
+      state.characters[2].visibleToPlayers = false;
+      state.characters[2].conditions = [
+        { key: "stunned", rounds: 1, endsAt: { characterId: "char2", boundary: "end" } },
+      ];
+
+      handler.handleNextTurn(state, "dmPlayer", true);
+
+      expect(state.chatLog).toHaveLength(1);
+      expect(state.chatLog[0]).toMatchObject({ to: "dm1", text: "Stunned ends on Goblin." });
+    });
   });
 
   describe("handlePreviousTurn", () => {
@@ -444,6 +540,19 @@ describe("InitiativeMessageHandler", () => {
       expect(state.currentTurnCharacterId).toBe("char3");
     });
 
+    it("steps the round back when wrapping, never below 1, without logging", () => {
+      state.currentTurnCharacterId = "char2";
+      state.combatRound = 2;
+
+      handler.handlePreviousTurn(state, "dmPlayer", true);
+      expect(state.combatRound).toBe(1);
+
+      state.currentTurnCharacterId = "char2";
+      handler.handlePreviousTurn(state, "dmPlayer", true);
+      expect(state.combatRound).toBe(1);
+      expect(state.combatLog).toEqual([]);
+    });
+
     it("should allow non-DM going back turn", () => {
       const result = handler.handlePreviousTurn(state, "player1", false);
 
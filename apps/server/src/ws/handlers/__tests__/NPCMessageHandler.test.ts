@@ -16,6 +16,7 @@
 import path from "node:path";
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { MessageRouter } from "../../messageRouter.js";
+import { NPCMessageHandler } from "../NPCMessageHandler.js";
 import { SNAPSHOT_LIMITS } from "../../../middleware/validators/sessionValidators.js";
 import { RoomService } from "../../../domains/room/service.js";
 import { PlayerService } from "../../../domains/player/service.js";
@@ -340,6 +341,8 @@ describe("NPCMessageHandler - Characterization Tests", () => {
         "initiativeModifier",
         "statusEffects",
         "visibleToPlayers",
+        // Stamped on a batch of more than one, for group initiative.
+        "initiativeGroup",
       ]);
 
       const created = roomService.getState().characters;
@@ -350,6 +353,20 @@ describe("NPCMessageHandler - Characterization Tests", () => {
       }
     });
 
+    it("groups a batch for initiative, and leaves a single NPC ungrouped", () => {
+      messageRouter.route(
+        { t: "create-npc", name: "Goblin", hp: 7, maxHp: 7, count: 3 } as ClientMessage,
+        dmUid,
+      );
+      messageRouter.route(create(undefined), dmUid);
+
+      const [first, second, third, alone] = roomService.getState().characters;
+      expect(first.initiativeGroup).toEqual(expect.any(String));
+      expect(second.initiativeGroup).toBe(first.initiativeGroup);
+      expect(third.initiativeGroup).toBe(first.initiativeGroup);
+      expect(alone.initiativeGroup).toBeUndefined();
+    });
+
     it("honours only an exact false, so a junk value cannot hide an NPC", () => {
       // The flag has no validator branch of its own — it drives a boolean, not
       // a loop — so the handler's `=== false` is what makes anything else inert.
@@ -632,4 +649,93 @@ describe("NPCMessageHandler - Characterization Tests", () => {
       expect(state.characters).toHaveLength(1);
     });
   });
+
+  /**
+   * The bestiary rides the NPC dispatcher: templates are stored through the
+   * shared coercion, and create-npc-from-template numbers its copies exactly
+   * like create-npc while each rolls its own hit points.
+   */
+  describe("bestiary messages", () => {
+    const goblin = {
+      name: "Goblin",
+      ac: 15,
+      hpFormula: "2d6",
+      speed: 25,
+      senses: { darkvision: 60 },
+      initiativeModifier: 2,
+      attacks: [{ name: "Scimitar", toHit: 4, damage: "1d6+2", damageType: "slashing" }],
+      tokenImage: "goblin-token.png",
+    };
+
+    function addGoblin(): string {
+      messageRouter.route({ t: "upsert-monster-template", template: goblin }, dmUid);
+      return roomService.getState().bestiary[0]!.id;
+    }
+
+    it("stores a DM's template under a server-assigned id, and refuses a player's", () => {
+      messageRouter.route({ t: "upsert-monster-template", template: goblin }, playerUid);
+      expect(roomService.getState().bestiary).toHaveLength(0);
+
+      const id = addGoblin();
+      expect(id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(roomService.getState().bestiary[0]).toMatchObject({ ...goblin, id });
+
+      messageRouter.route(
+        { t: "upsert-monster-template", template: { ...goblin, id, ac: 17 } },
+        dmUid,
+      );
+      expect(roomService.getState().bestiary.map((template) => template.ac)).toEqual([17]);
+
+      messageRouter.route({ t: "delete-monster-template", id }, dmUid);
+      expect(roomService.getState().bestiary).toHaveLength(0);
+    });
+
+    it("numbers template copies and rolls each one's hit points", () => {
+      const templateId = addGoblin();
+      messageRouter.route({ t: "create-npc-from-template", templateId, count: 3 }, dmUid);
+
+      const npcs = roomService.getState().characters;
+      expect(npcs.map((npc) => npc.name)).toEqual(["Goblin 1", "Goblin 2", "Goblin 3"]);
+      for (const npc of npcs) {
+        expect(npc).toMatchObject({ type: "npc", templateId, initiativeModifier: 2, ac: 15 });
+        expect(npc.attacks).toEqual(goblin.attacks);
+        expect(npc.maxHp).toBeGreaterThanOrEqual(2);
+        expect(npc.maxHp).toBeLessThanOrEqual(12);
+        expect(npc.hp).toBe(npc.maxHp);
+      }
+    });
+
+    it("rolls with the server's dice, so a seeded roll is reproducible", () => {
+      const state = roomService.getState();
+      state.bestiary.push({ ...goblin, id: "goblin", hpFormula: "2d6+1", attacks: [] });
+      const handler = new NPCMessageHandler(characterService, tokenService, selectionService);
+
+      handler.handleCreateNPCFromTemplate(state, "goblin", 2, () => 4);
+
+      expect(state.characters.map((npc) => npc.maxHp)).toEqual([9, 9]);
+    });
+
+    it("ignores an unknown template and a player's request", () => {
+      const templateId = addGoblin();
+      messageRouter.route({ t: "create-npc-from-template", templateId: "nope" }, dmUid);
+      messageRouter.route({ t: "create-npc-from-template", templateId }, playerUid);
+
+      expect(roomService.getState().characters).toHaveLength(0);
+    });
+
+    it("gives the placed token the template's speed and senses", () => {
+      const templateId = addGoblin();
+      messageRouter.route({ t: "create-npc-from-template", templateId }, dmUid);
+      const npc = roomService.getState().characters[0]!;
+
+      messageRouter.route({ t: "place-npc-token", id: npc.id }, dmUid);
+
+      const token = roomService.getState().tokens.find((t) => t.id === npc.tokenId);
+      expect(token).toMatchObject({
+        imageUrl: "goblin-token.png",
+        speed: 25,
+        senses: { darkvision: 60 },
+      });
+    });
+  });
 });
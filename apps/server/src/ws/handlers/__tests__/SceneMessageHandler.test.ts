@@ -1,5 +1,10 @@
 import { beforeEach, describe, expect, it } from "vitest";
-import type { CompiledDoor } from "@herobyte/shared";
+import {
+  fullExploredBits,
+  maskGeometryFor,
+  type CompiledDoor,
+  type Player,
+} from "@herobyte/shared";
 import { createEmptyRoomState, type RoomState } from "../../../domains/room/model.js";
 import { SceneMessageHandler } from "../SceneMessageHandler.js";
 
@@ -67,6 +72,19 @@ describe("SceneMessageHandler", () => {
     expect(roomState.playerPropsEnabled).toBe(false);
   });
 
+  it("stores the movement budget toggle for the DM and refuses players", () => {
+    expect(handler.handle({ t: "set-movement-budget", enabled: true }, "room", true)).toEqual({
+      broadcast: true,
+      save: true,
+    });
+    expect(roomState.movementBudgetEnabled).toBe(true);
+
+    expect(() =>
+      handler.handle({ t: "set-movement-budget", enabled: false }, "room", false),
+    ).toThrow("Movement budget changes require DM permission");
+    expect(roomState.movementBudgetEnabled).toBe(true);
+  });
+
   it("stores the table sight default for a DM and refuses a player", () => {
     expect(handler.handle({ t: "set-default-vision-radius", radius: 60 }, "room", true)).toEqual({
       broadcast: true,
@@ -89,6 +107,123 @@ describe("SceneMessageHandler", () => {
     expect(roomState.defaultVisionRadius).toBeNull();
   });
 
+  it("saves a player's explored-area upload without broadcasting, and lets only the DM reset it", () => {
+    const meta = maskGeometryFor(2048, 2048);
+    const mask = { sceneId: "map", sceneWidth: 2048, sceneHeight: 2048, ...meta, epoch: 0 };
+    const bits = fullExploredBits(meta);
+
+    expect(
+      handler.handle({ t: "explored-fog", mask: { ...mask, bits } }, "room", false, "p1"),
+    ).toEqual({ broadcast: false, save: true });
+    expect(roomState.exploredFog).toEqual([{ uid: "p1", ...mask, bits }]);
+
+    roomState.players = [{ uid: "p1", name: "P1", hp: 1, maxHp: 1, isDM: false } as Player];
+    expect(() =>
+      handler.handle({ t: "set-explored-fog", action: "reset", uid: "p1" }, "room", false),
+    ).toThrow("Explored area changes require DM permission");
+    expect(handler.handle({ t: "set-explored-fog", action: "reset" }, "room", true)).toEqual({
+      broadcast: true,
+      save: true,
+    });
+    expect(roomState.exploredFog[0]).toMatchObject({ uid: "p1", epoch: 1, bits: "" });
+  });
+
+  it("paints, undoes and clears fog regions for the DM only", () => {
+    const region = {
+      mode: "conceal" as const,
+      shape: "stroke" as const,
+      points: [{ x: 10, y: 10 }],
+      radius: 25,
+    };
+    expect(() => handler.handle({ t: "add-fog-region", region }, "room", false)).toThrow(
+      "Fog region changes require DM permission",
+    );
+    expect(() => handler.handle({ t: "clear-fog-regions" }, "room", false)).toThrow(
+      "Fog region changes require DM permission",
+    );
+
+    expect(handler.handle({ t: "add-fog-region", region }, "room", true)).toEqual({
+      broadcast: true,
+      save: true,
+    });
+    expect(roomState.fogRegions).toEqual([{ ...region, id: expect.any(String), sceneId: "map" }]);
+
+    expect(handler.handle({ t: "undo-fog-region" }, "room", true)).toEqual({
+      broadcast: true,
+      save: true,
+    });
+    // Nothing left to undo: no broadcast, nothing to save.
+    expect(handler.handle({ t: "undo-fog-region" }, "room", true)).toEqual({
+      broadcast: false,
+      save: false,
+    });
+    handler.handle({ t: "redo-fog-region" }, "room", true);
+    expect(roomState.fogRegions).toHaveLength(1);
+
+    handler.handle({ t: "clear-fog-regions" }, "room", true);
+    expect(roomState.fogRegions).toEqual([]);
+  });
+
+  it("creates and switches scenes for the DM only", () => {
+    expect(() => handler.handle({ t: "create-scene", name: "Crypt" }, "room", false)).toThrow(
+      "Scene changes require DM permission",
+    );
+
+    handler.handle({ t: "create-scene", name: "Crypt" }, "room", true);
+    const crypt = roomState.scenes[1]!;
+    expect(() => handler.handle({ t: "activate-scene", sceneId: crypt.id }, "room", false)).toThrow(
+      "Scene changes require DM permission",
+    );
+
+    expect(handler.handle({ t: "activate-scene", sceneId: crypt.id }, "room", true)).toEqual({
+      broadcast: true,
+      save: true,
+    });
+    expect(roomState.compiledScene).toBeUndefined();
+    // Already on the table: nothing to send.
+    expect(handler.handle({ t: "activate-scene", sceneId: crypt.id }, "room", true)).toEqual({
+      broadcast: false,
+      save: false,
+    });
+  });
+
+  it("sends tokens through a map link and tells the DMs who went where", () => {
+    const notices: unknown[] = [];
+    handler = new SceneMessageHandler(
+      () => roomState,
+      (_roomId, message) => notices.push(message),
+    );
+    roomState.gridSize = 50;
+    roomState.players = [{ uid: "p1", name: "Aria", isDM: false } as Player];
+    roomState.tokens = [{ id: "t1", owner: "p1", x: 0, y: 0, color: "red" }];
+    roomState.compiledScene!.links = [
+      {
+        id: "trapdoor",
+        kind: "ladder",
+        label: "Trapdoor",
+        x: 0,
+        y: 0,
+        width: 50,
+        height: 50,
+        target: { documentId: "map", x: 425, y: 425 },
+        playersMayUse: true,
+      },
+    ];
+
+    expect(
+      handler.handle(
+        { t: "use-map-link", linkId: "trapdoor", tokenIds: ["t1"] },
+        "room",
+        false,
+        "p1",
+      ),
+    ).toEqual({ broadcast: true, save: true });
+    expect(roomState.tokens[0]).toMatchObject({ x: 8, y: 8 });
+    expect(notices).toEqual([
+      { t: "map-link-used", label: "Trapdoor", tokenNames: ["Aria"], by: "Aria" },
+    ]);
+  });
+
   it("lets anyone toggle a closed door open and back", () => {
     expect(handler.handle({ t: "toggle-door", doorId: "door-closed" }, "room", false)).toEqual({
       broadcast: true,
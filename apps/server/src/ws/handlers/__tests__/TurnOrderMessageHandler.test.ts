@@ -0,0 +1,146 @@
+/**
+ * Tests for TurnOrderMessageHandler: delay, hold, resume, ready and the DM's
+ * manual reorder, run against the real CharacterService ordering so the walk
+ * the handler sees is the one next-turn walks.
+ *
+ * @module ws/handlers/__tests__/TurnOrderMessageHandler.test
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Character } from "@herobyte/shared";
+import { TurnOrderMessageHandler } from "../TurnOrderMessageHandler.js";
+import { InitiativeMessageHandler } from "../InitiativeMessageHandler.js";
+import { CharacterService } from "../../../domains/character/service.js";
+import type { RoomService } from "../../../domains/room/service.js";
+import { createEmptyRoomState, type RoomState } from "../../../domains/room/model.js";
+
+function combatant(id: string, initiative: number, owner: string | null = null): Character {
+  return {
+    id,
+    name: id,
+    type: owner ? "pc" : "npc",
+    ownedByPlayerUID: owner,
+    hp: 10,
+    maxHp: 10,
+    initiative,
+  };
+}
+
+describe("TurnOrderMessageHandler", () => {
+  let state: RoomState;
+  let characterService: CharacterService;
+  let handler: TurnOrderMessageHandler;
+  let initiative: InitiativeMessageHandler;
+
+  const order = () => characterService.getCharactersInInitiativeOrder(state).map((c) => c.id);
+
+  beforeEach(() => {
+    state = createEmptyRoomState();
+    state.characters = [
+      combatant("aria", 20, "p1"),
+      combatant("gob", 15),
+      combatant("bram", 10, "p2"),
+      combatant("ogre", 5),
+    ];
+    state.combatActive = true;
+    state.combatRound = 1;
+    state.currentTurnCharacterId = "aria";
+    characterService = new CharacterService();
+    handler = new TurnOrderMessageHandler(characterService);
+    initiative = new InitiativeMessageHandler(characterService, {} as RoomService);
+  });
+
+  describe("handleDelayTurn", () => {
+    it("moves the actor after a later combatant and passes the turn on", () => {
+      const result = handler.handleDelayTurn(state, "aria", "bram", "p1", false);
+
+      expect(result).toEqual({ broadcast: true, save: true });
+      expect(order()).toEqual(["gob", "bram", "aria", "ogre"]);
+      expect(state.currentTurnCharacterId).toBe("gob");
+      expect(state.combatLog.at(-1)).toMatchObject({ kind: "turn-started", name: "gob" });
+
+      initiative.handleNextTurn(state, "p1", false);
+      initiative.handleNextTurn(state, "p1", false);
+      expect(state.currentTurnCharacterId).toBe("aria");
+      expect(state.combatRound).toBe(1);
+    });
+
+    it("refuses off-turn, backwards, and other players' delays", () => {
+      expect(handler.handleDelayTurn(state, "bram", "ogre", "p2", false).save).toBe(false);
+      expect(handler.handleDelayTurn(state, "aria", "aria", "p1", false).save).toBe(false);
+      expect(handler.handleDelayTurn(state, "aria", "bram", "p2", false).save).toBe(false);
+      state.currentTurnCharacterId = "bram";
+      expect(handler.handleDelayTurn(state, "bram", "gob", "p2", false).save).toBe(false);
+      expect(state.initiativeOrder).toBeUndefined();
+    });
+  });
+
+  describe("hold and resume", () => {
+    it("holds out of the walk and comes back right after the current actor", () => {
+      handler.handleDelayTurn(state, "aria", undefined, "p1", false);
+
+      expect(state.currentTurnCharacterId).toBe("gob");
+      initiative.handleNextTurn(state, "dm", true);
+      initiative.handleNextTurn(state, "dm", true);
+      initiative.handleNextTurn(state, "dm", true);
+      expect(state.currentTurnCharacterId).toBe("gob");
+      expect(state.combatRound).toBe(2);
+
+      expect(handler.handleResumeTurn(state, "aria", "p1", false).save).toBe(true);
+      expect(order()).toEqual(["gob", "aria", "bram", "ogre"]);
+      expect(state.currentTurnCharacterId).toBe("gob");
+      initiative.handleNextTurn(state, "dm", true);
+      expect(state.currentTurnCharacterId).toBe("aria");
+    });
+
+    it("starts a new round when the last in the order holds", () => {
+      state.currentTurnCharacterId = "ogre";
+
+      handler.handleDelayTurn(state, "ogre", undefined, "dm", true);
+
+      expect(state.currentTurnCharacterId).toBe("aria");
+      expect(state.combatRound).toBe(2);
+    });
+
+    it("does not resume someone who is not holding", () => {
+      expect(handler.handleResumeTurn(state, "bram", "p2", false).save).toBe(false);
+    });
+  });
+
+  describe("handleReadyAction", () => {
+    it("readies a trigger that lapses when the readier's turn comes round", () => {
+      handler.handleReadyAction(state, "bram", "  when the door opens ", "p2", false);
+      expect(characterService.findCharacter(state, "bram")?.readiedAction).toBe(
+        "when the door opens",
+      );
+
+      state.currentTurnCharacterId = "gob";
+      initiative.handleNextTurn(state, "dm", true);
+
+      expect(characterService.findCharacter(state, "bram")?.readiedAction).toBeUndefined();
+    });
+  });
+
+  describe("handleReorderInitiative", () => {
+    it("lets the DM arrange the order without moving the current turn", () => {
+      const result = handler.handleReorderInitiative(state, ["ogre", "gone", "aria"], "dm", true);
+
+      expect(result.save).toBe(true);
+      expect(state.initiativeOrder).toEqual(["ogre", "aria"]);
+      expect(order()).toEqual(["ogre", "aria", "gob", "bram"]);
+      expect(state.currentTurnCharacterId).toBe("aria");
+    });
+
+    it("refuses players", () => {
+      expect(handler.handleReorderInitiative(state, ["ogre"], "p1", false).save).toBe(false);
+    });
+
+    it("lets a fresh roll put the roller back where the sort says", () => {
+      handler.handleReorderInitiative(state, ["ogre", "aria", "gob", "bram"], "dm", true);
+
+      characterService.setInitiative(state, "ogre", 1);
+
+      expect(order()).toEqual(["aria", "gob", "bram", "ogre"]);
+    });
+  });
+});
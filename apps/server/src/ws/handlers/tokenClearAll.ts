@@ -0,0 +1,51 @@
+/**
+ * The DM's "clear all tokens" sweep for token messages.
+ *
+ * Extracted from TokenMessageHandler when the set-token-light handler pushed
+ * that file over the structural guardrail. Like tokenDragPreview, it is a
+ * self-contained seam: one mutation over state, through the two services it
+ * was already calling.
+ *
+ * @module ws/handlers/tokenClearAll
+ */
+
+import type { RoomState } from "../../domains/room/model.js";
+import type { SelectionService } from "../../domains/selection/service.js";
+import type { TokenService } from "../../domains/token/service.js";
+
+/**
+ * Remove every token except the sender's and every player except the sender,
+ * cleaning up the selections that pointed at either.
+ */
+export function clearAllTokensForDM(
+  state: RoomState,
+  senderUid: string,
+  tokenService: TokenService,
+  selectionService: SelectionService,
+): void {
+  // Get IDs of tokens to be removed (all except sender's)
+  const removedIds = state.tokens
+    .filter((token) => token.owner !== senderUid)
+    .map((token) => token.id);
+
+  // Clear tokens except sender's
+  tokenService.clearAllTokensExcept(state, senderUid);
+
+  // Remove selections for deleted tokens
+  for (const tokenId of removedIds) {
+    selectionService.removeObject(state, tokenId);
+  }
+
+  // Get UIDs of players to be removed (all except sender)
+  const removedPlayerUids = state.players
+    .filter((player) => player.uid !== senderUid)
+    .map((player) => player.uid);
+
+  // Remove all players except sender (DM)
+  state.players = state.players.filter((p) => p.uid === senderUid);
+
+  // Deselect for removed players
+  for (const uid of removedPlayerUids) {
+    selectionService.deselect(state, uid);
+  }
+}
@@ -9,7 +9,7 @@
  * @module ws/handlers/tokenDragPreview
  */
 
-import type { DragPreviewEvent, DragPreviewUpdate } from "@herobyte/shared";
+import { sanitizeDragRoute, type DragPreviewEvent, type DragPreviewUpdate } from "@herobyte/shared";
 import type { RoomState } from "../../domains/room/model.js";
 
 /**
@@ -71,10 +71,13 @@ function toPreviewObject(
     return null;
   }
 
+  // Rebuilt rather than passed through, so nothing but cells reaches the table.
+  const route = sanitizeDragRoute(update.route);
   return {
     tokenId,
     id: `token:${tokenId}`,
     x: update.x,
     y: update.y,
+    ...(route ? { route } : {}),
   };
 }
@@ -0,0 +1,59 @@
+// ============================================================================
+// TURN TIMER MANAGER
+// ============================================================================
+// Runs out the turn timer (domains/room/combat/turnTimer.ts). A deadline has to
+// pass even when nobody sends a message — that is the whole point of the
+// timer — so no message handler can be the one to notice it. Once a second
+// this checks every loaded room, and a room whose turn ran out is broadcast
+// and saved exactly as if a handler had changed it.
+
+import type { Container } from "../../container.js";
+import { ChatService } from "../../domains/chat/service.js";
+import { expireTurnClock } from "../../domains/room/combat/turnTimer.js";
+
+export class TurnTimerManager {
+  private readonly container: Container;
+  private readonly chatService = new ChatService();
+  private interval: NodeJS.Timeout | null = null;
+  // A second is the timer's own resolution: the clients count whole seconds.
+  private readonly CHECK_INTERVAL = 1000;
+
+  constructor(container: Container) {
+    this.container = container;
+  }
+
+  start(): void {
+    this.interval = setInterval(() => this.expireDeadlines(), this.CHECK_INTERVAL);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  private expireDeadlines(): void {
+    const now = Date.now();
+    for (const roomId of this.container.roomRegistry.listRooms()) {
+      const roomService = this.container.roomRegistry.get(roomId);
+      // One room's failure must not stop every other table's clock.
+      try {
+        const state = roomService.getState();
+        if (!expireTurnClock(state, this.container.characterService, this.chatService, now)) {
+          continue;
+        }
+        // uidToWs is required: broadcast filters per recipient through it
+        // (see DisconnectionCleanupManager for what goes wrong without).
+        roomService.broadcast(
+          this.container.getAuthenticatedClientsForRoom(roomId),
+          this.container.uidToWs,
+          { reason: "turn-timer" },
+        );
+        roomService.saveState();
+      } catch (error) {
+        console.error(`[TurnTimer] Expiry failed in room ${roomId}`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+// The manager's tick is the only thing that ever runs a turn out, so these
+// drive the real interval with fake timers and a real room, rather than
+// calling expireTurnClock directly — which would pass with the wiring gone.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Character } from "@herobyte/shared";
+import { TurnTimerManager } from "../TurnTimerManager.js";
+import type { Container } from "../../../container.js";
+import { createEmptyRoomState, type RoomState } from "../../../domains/room/model.js";
+import { CharacterService } from "../../../domains/character/service.js";
+import { resetTurnClock } from "../../../domains/room/combat/turnHandOff.js";
+
+function combatant(id: string, initiative: number): Character {
+  return { id, name: id, type: "pc", hp: 10, maxHp: 10, initiative } as Character;
+}
+
+describe("TurnTimerManager", () => {
+  let state: RoomState;
+  let room: {
+    getState: () => RoomState;
+    broadcast: ReturnType<typeof vi.fn>;
+    saveState: ReturnType<typeof vi.fn>;
+  };
+  let manager: TurnTimerManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    state = createEmptyRoomState();
+    state.characters = [combatant("aria", 18), combatant("bram", 9)];
+    state.combatActive = true;
+    state.currentTurnCharacterId = "aria";
+    state.turnTimer = { seconds: 10, onExpire: "advance" };
+    resetTurnClock(state);
+    room = { getState: () => state, broadcast: vi.fn(), saveState: vi.fn() };
+    const container = {
+      roomRegistry: { listRooms: () => ["table"], get: () => room },
+      characterService: new CharacterService(),
+      getAuthenticatedClientsForRoom: () => new Set(),
+      uidToWs: new Map(),
+    };
+    manager = new TurnTimerManager(container as unknown as Container);
+    manager.start();
+  });
+
+  afterEach(() => {
+    manager.stop();
+    vi.useRealTimers();
+  });
+
+  it("leaves a turn alone until its time is up", () => {
+    vi.advanceTimersByTime(9_000);
+
+    expect(state.currentTurnCharacterId).toBe("aria");
+    expect(room.broadcast).not.toHaveBeenCalled();
+  });
+
+  it("passes the turn on, then broadcasts and saves the room", () => {
+    vi.advanceTimersByTime(10_000);
+
+    expect(state.currentTurnCharacterId).toBe("bram");
+    expect(room.broadcast).toHaveBeenCalledTimes(1);
+    expect(room.broadcast.mock.calls[0][2]).toEqual({ reason: "turn-timer" });
+    expect(room.saveState).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps ticking after a room throws", () => {
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    room.broadcast.mockImplementationOnce(() => {
+      throw new Error("socket gone");
+    });
+
+    vi.advanceTimersByTime(20_000);
+
+    expect(errors).toHaveBeenCalledTimes(1);
+    // Bram's turn still ran out on the next clock.
+    expect(state.currentTurnCharacterId).toBe("aria");
+  });
+});
@@ -16,6 +16,7 @@ import {
 import {
   createVisionContext,
   getHiddenNpcTokenIds,
+  isWorldPointTokenPerceived,
   isWorldPointVisible,
   visionSignature,
   type VisionContext,
@@ -37,13 +38,16 @@ import { PointerHandler, type PointerHandlerResult } from "./handlers/PointerHan
 import { TokenMessageHandler } from "./handlers/TokenMessageHandler.js";
 import { CharacterMessageHandler } from "./handlers/CharacterMessageHandler.js";
 import { NPCMessageHandler } from "./handlers/NPCMessageHandler.js";
+import { CombatantStatusMessageHandler } from "./handlers/CombatantStatusMessageHandler.js";
 import { PropMessageHandler } from "./handlers/PropMessageHandler.js";
 import { PlayerMessageHandler } from "./handlers/PlayerMessageHandler.js";
 import { InitiativeMessageHandler } from "./handlers/InitiativeMessageHandler.js";
+import { TurnOrderMessageHandler } from "./handlers/TurnOrderMessageHandler.js";
 import { MapMessageHandler } from "./handlers/MapMessageHandler.js";
 import { DrawingMessageHandler } from "./handlers/DrawingMessageHandler.js";
 import { SelectionMessageHandler } from "./handlers/SelectionMessageHandler.js";
 import { DiceMessageHandler } from "./handlers/DiceMessageHandler.js";
+import { DiceMacroMessageHandler } from "./handlers/DiceMacroMessageHandler.js";
 import { ChatMessageHandler } from "./handlers/ChatMessageHandler.js";
 import { ChatService } from "../domains/chat/service.js";
 import { RoomMessageHandler } from "./handlers/RoomMessageHandler.js";
@@ -203,9 +207,15 @@ export class MessageRouter {
       tokenService,
       selectionService,
     );
+    // Chat has no injected service of its own: it is stateless beyond the
+    // room's own chatLog, so the router owns the instance. Initiative, turn
+    // order and combatant status share it to announce what a turn change
+    // brings (conditions running out, a turn passed on).
+    const chatService = new ChatService();
     this.characterDispatcher = new CharacterDispatcher(
       this.characterMessageHandler,
       this.npcMessageHandler,
+      new CombatantStatusMessageHandler(characterService, this.npcMessageHandler, chatService),
       this.authorizationCheckWrapper,
     );
     this.propMessageHandler = new PropMessageHandler(propService, selectionService);
@@ -215,8 +225,15 @@ export class MessageRouter {
     );
     this.playerMessageHandler = new PlayerMessageHandler(playerService, roomService);
     this.playerDispatcher = new PlayerDispatcher(this.playerMessageHandler);
-    this.initiativeMessageHandler = new InitiativeMessageHandler(characterService, roomService);
-    this.initiativeDispatcher = new InitiativeDispatcher(this.initiativeMessageHandler);
+    this.initiativeMessageHandler = new InitiativeMessageHandler(
+      characterService,
+      roomService,
+      chatService,
+    );
+    this.initiativeDispatcher = new InitiativeDispatcher(
+      this.initiativeMessageHandler,
+      new TurnOrderMessageHandler(characterService, chatService),
+    );
     this.mapMessageHandler = new MapMessageHandler(mapService, roomService);
     this.drawingMessageHandler = new DrawingMessageHandler(
       mapService,
@@ -230,11 +247,12 @@ export class MessageRouter {
     );
     this.selectionMessageHandler = new SelectionMessageHandler(selectionService, roomService);
     this.selectionDispatcher = new SelectionDispatcher(this.selectionMessageHandler);
-    this.diceMessageHandler = new DiceMessageHandler(diceService, playerService);
-    this.diceDispatcher = new DiceDispatcher(this.diceMessageHandler);
-    // Chat has no injected service of its own: it is stateless beyond the
-    // room's own chatLog, so the router owns the instance.
-    this.chatMessageHandler = new ChatMessageHandler(new ChatService(), playerService);
+    this.diceMessageHandler = new DiceMessageHandler(diceService, playerService, characterService);
+    this.diceDispatcher = new DiceDispatcher(
+      this.diceMessageHandler,
+      new DiceMacroMessageHandler(characterService),
+    );
+    this.chatMessageHandler = new ChatMessageHandler(chatService, playerService, diceService);
     this.chatDispatcher = new ChatDispatcher(this.chatMessageHandler);
     this.roomMessageHandler = new RoomMessageHandler(
       roomService,
@@ -260,7 +278,10 @@ export class MessageRouter {
       (roomId, message) => this.sendMapStudioMessageToDMs(roomId, message),
       () => this.roomService.getState(),
     );
-    this.sceneMessageHandler = new SceneMessageHandler(() => this.roomService.getState());
+    this.sceneMessageHandler = new SceneMessageHandler(
+      () => this.roomService.getState(),
+      (roomId, message) => this.sendMapStudioMessageToDMs(roomId, message),
+    );
   }
 
   /**
@@ -314,6 +335,7 @@ export class MessageRouter {
         message,
         this.getRoomIdForUid(senderUid),
         context.isDM(),
+        senderUid,
       );
       if (sceneResult) {
         this.handleRouteResult(sceneResult, message.t);
@@ -462,6 +484,9 @@ export class MessageRouter {
    * - The token's owner gets a fresh filtered snapshot when their own move
    *   relocated their vision origin (newly visible entities must arrive),
    *   otherwise the raw delta (e.g. a blocked-move correction).
+   * - A token carrying a light moved its light too, so with fog on every
+   *   other player gets a fresh filtered snapshot: the lit area they can see
+   *   moved whether or not they can see the token itself.
    * - Others get the delta while the token stays inside their vision, a
    *   filtered snapshot when it crosses their vision boundary (a delta would
    *   leak the hidden destination or leave a stale ghost), and a state-sync
@@ -493,6 +518,7 @@ export class MessageRouter {
       !delta.previousCell ||
       delta.previousCell.x !== delta.token.x ||
       delta.previousCell.y !== delta.token.y;
+    const lightMoved = fogActive && ownerMoved && Boolean(delta.token.light);
     const wsToUid = this.buildWsToUid();
 
     this.getAuthorizedClients().forEach((client) => {
@@ -515,13 +541,17 @@ export class MessageRouter {
         }
         return;
       }
+      if (lightMoved) {
+        client.send(JSON.stringify(this.roomService.createSnapshotForPlayer(uid)));
+        return;
+      }
       const context = this.getVisionContextFor(uid);
       if (!context) {
         client.send(payload);
         return;
       }
-      const sawBefore = isWorldPointVisible(context, previousWorld);
-      const seesNow = isWorldPointVisible(context, newWorld);
+      const sawBefore = isWorldPointTokenPerceived(context, previousWorld);
+      const seesNow = isWorldPointTokenPerceived(context, newWorld);
       if (sawBefore && seesNow) {
         client.send(payload);
       } else if (sawBefore !== seesNow) {
@@ -620,7 +650,9 @@ export class MessageRouter {
    * receives the dragger's own preview, previews of tokens they own, and
    * previews inside their vision. A token dragged behind a wall simply
    * vanishes from the preview; the committed move resolves it via the delta
-   * channel.
+   * channel. Under fog a watcher gets the token but not its drag route: the
+   * route names where the drag began and every pin, which may all be cells
+   * the watcher cannot see.
    */
   private broadcastFilteredDragPreview(preview: DragPreviewEvent, hiddenNpcIds: Set<string>): void {
     const state = this.roomService.getState();
@@ -638,18 +670,24 @@ export class MessageRouter {
         return;
       }
       const context = fogActive ? this.getVisionContextFor(uid) : null;
-      const objects = preview.objects.filter((object) => {
-        if (hiddenNpcIds.has(object.tokenId)) return false;
-        if (uid === preview.uid || tokenOwners.get(object.tokenId) === uid) return true;
-        if (!fogActive || !context) return true;
-        return isWorldPointVisible(
+      let trimmed = false;
+      const objects = preview.objects.flatMap((object) => {
+        if (hiddenNpcIds.has(object.tokenId)) return [];
+        if (uid === preview.uid || tokenOwners.get(object.tokenId) === uid) return [object];
+        if (!fogActive || !context) return [object];
+        const perceived = isWorldPointTokenPerceived(
           context,
           gridCellToWorldPoint(state.gridSize, { x: object.x, y: object.y }),
         );
+        if (!perceived) return [];
+        if (!object.route) return [object];
+        trimmed = true;
+        const { route: _route, ...watched } = object;
+        return [watched];
       });
       if (objects.length === 0) return;
       client.send(
-        objects.length === preview.objects.length
+        objects.length === preview.objects.length && !trimmed
           ? fullPayload
           : JSON.stringify({ t: "drag-preview", preview: { ...preview, objects } }),
       );
@@ -57,7 +57,15 @@ describe("AuthorizationService", () => {
       monsterHpDisplay: "exact" as const,
       diagonalRule: "5e" as const,
       playerPropsEnabled: false,
+      movementBudgetEnabled: false,
       defaultVisionRadius: null,
+      exploredFog: [],
+      fogRegions: [],
+      scenes: [],
+      bestiary: [],
+      tableMacros: [],
+      combatLog: [],
+      combatMode: "individual",
     };
   });
 
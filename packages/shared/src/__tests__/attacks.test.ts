@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { ATTACK_LIMITS, coerceNamedAttack, coerceNamedAttacks } from "../index.js";
+
+const SCIMITAR = { name: "Scimitar", toHit: 4, damage: "1d6+2", damageType: "slashing" };
+
+describe("coerceNamedAttack", () => {
+  it("keeps a well-formed attack as it was written", () => {
+    expect(coerceNamedAttack(SCIMITAR)).toEqual(SCIMITAR);
+  });
+
+  it("refuses an attack without a name or with damage the roller cannot roll", () => {
+    expect(coerceNamedAttack({ ...SCIMITAR, name: " " })).toBeNull();
+    expect(coerceNamedAttack({ ...SCIMITAR, damage: "a lot" })).toBeNull();
+    expect(coerceNamedAttack("Scimitar")).toBeNull();
+  });
+
+  it("rounds and bounds the to-hit bonus, and drops unknown fields", () => {
+    expect(coerceNamedAttack({ ...SCIMITAR, toHit: 4.6, evil: true })).toEqual({
+      ...SCIMITAR,
+      toHit: 5,
+    });
+    expect(coerceNamedAttack({ ...SCIMITAR, toHit: 999 })?.toHit).toBe(
+      ATTACK_LIMITS.TO_HIT_ABS_MAX,
+    );
+    expect(coerceNamedAttack({ ...SCIMITAR, toHit: "4" })?.toHit).toBe(0);
+  });
+});
+
+describe("coerceNamedAttacks", () => {
+  it("drops what it cannot use and caps the list", () => {
+    const many = Array.from({ length: ATTACK_LIMITS.ATTACKS_MAX + 3 }, () => SCIMITAR);
+
+    expect(coerceNamedAttacks([SCIMITAR, { name: "Bite" }])).toEqual([SCIMITAR]);
+    expect(coerceNamedAttacks(many)).toHaveLength(ATTACK_LIMITS.ATTACKS_MAX);
+    expect(coerceNamedAttacks({ 0: SCIMITAR })).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  BESTIARY_LIMITS,
+  buildBestiaryFile,
+  coerceBestiary,
+  coerceMonsterTemplate,
+  readBestiaryFile,
+} from "../index.js";
+
+const GOBLIN = {
+  id: "goblin",
+  name: "Goblin",
+  ac: 15,
+  hpFormula: "2d6",
+  speed: 30,
+  senses: { darkvision: 60 },
+  initiativeModifier: 2,
+  attacks: [{ name: "Scimitar", toHit: 4, damage: "1d6+2", damageType: "slashing" }],
+};
+
+describe("coerceMonsterTemplate", () => {
+  it("keeps a well-formed stat block as it was written", () => {
+    expect(coerceMonsterTemplate(GOBLIN)).toEqual(GOBLIN);
+  });
+
+  it("refuses a template without a name or a rollable HP formula", () => {
+    expect(coerceMonsterTemplate({ ...GOBLIN, name: "  " })).toBeNull();
+    expect(coerceMonsterTemplate({ ...GOBLIN, hpFormula: "lots" })).toBeNull();
+    expect(coerceMonsterTemplate({ ...GOBLIN, hpFormula: "2d7" })).toBeNull();
+    expect(coerceMonsterTemplate("goblin")).toBeNull();
+  });
+
+  it("clamps numbers, drops unrollable attacks and anything it does not know", () => {
+    const template = coerceMonsterTemplate({
+      ...GOBLIN,
+      ac: 999,
+      initiativeModifier: -1e9,
+      speed: -10,
+      senses: { xray: 60 },
+      attacks: [
+        { name: "Bite", toHit: "4", damage: "1d4" },
+        { name: "Gaze", damage: "doom" },
+      ],
+      hostile: true,
+    });
+
+    expect(template).toEqual({
+      id: "goblin",
+      name: "Goblin",
+      ac: BESTIARY_LIMITS.AC_MAX,
+      hpFormula: "2d6",
+      initiativeModifier: -BESTIARY_LIMITS.MODIFIER_ABS_MAX,
+      attacks: [{ name: "Bite", toHit: 0, damage: "1d4" }],
+    });
+  });
+});
+
+describe("coerceBestiary", () => {
+  it("drops templates without an id and keeps the first of a duplicated id", () => {
+    const list = coerceBestiary([
+      GOBLIN,
+      { ...GOBLIN, name: "Goblin Boss" },
+      { ...GOBLIN, id: undefined },
+      { ...GOBLIN, id: "wolf", name: "Wolf" },
+    ]);
+    expect(list.map((template) => template.name)).toEqual(["Goblin", "Wolf"]);
+    expect(coerceBestiary({ goblin: GOBLIN })).toEqual([]);
+  });
+});
+
+describe("bestiary files", () => {
+  it("reads back what it exports, and a bare template list", () => {
+    const file = JSON.parse(JSON.stringify(buildBestiaryFile([GOBLIN as never])));
+    expect(readBestiaryFile(file)).toEqual({ ok: true, templates: [GOBLIN] });
+    expect(readBestiaryFile([GOBLIN])).toEqual({ ok: true, templates: [GOBLIN] });
+  });
+
+  it("refuses a file that is not a bestiary", () => {
+    expect(readBestiaryFile({ schemaVersion: 1, snapshot: {} })).toEqual({
+      ok: false,
+      error: "not a bestiary file",
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { findChatCommand, parseChatCommand, resolveWhisperTarget } from "../chatCommands.js";
+
+describe("parseChatCommand", () => {
+  it("says anything that is not a command, and unescapes a doubled slash", () => {
+    expect(parseChatCommand("  hello  ")).toEqual({ kind: "say", text: "hello" });
+    expect(parseChatCommand("//shrug")).toEqual({ kind: "say", text: "/shrug" });
+  });
+
+  it("reads rolls, with /gmr going to the DM", () => {
+    expect(parseChatCommand("/r 2d6+3")).toEqual({
+      kind: "roll",
+      formula: "2d6+3",
+      visibility: "public",
+    });
+    expect(parseChatCommand("/GMROLL d20")).toEqual({
+      kind: "roll",
+      formula: "d20",
+      visibility: "dm",
+    });
+  });
+
+  it("reads whispers, emotes, out-of-character lines and narration", () => {
+    expect(parseChatCommand("/w Alice meet me")).toEqual({
+      kind: "whisper",
+      body: "Alice meet me",
+    });
+    expect(parseChatCommand("/me draws a sword")).toEqual({
+      kind: "say",
+      text: "draws a sword",
+      style: "emote",
+    });
+    expect(parseChatCommand("/ooc brb")).toEqual({ kind: "say", text: "brb", style: "ooc" });
+    expect(parseChatCommand("/desc The door creaks.")).toEqual({
+      kind: "desc",
+      text: "The door creaks.",
+    });
+  });
+
+  it("answers an unknown or empty command with what went wrong", () => {
+    expect(parseChatCommand("/dance now")).toEqual({
+      kind: "error",
+      error: 'Unknown command "/dance".',
+    });
+    expect(parseChatCommand("/r   ")).toEqual({ kind: "error", error: "Usage: /r 2d6+3" });
+  });
+});
+
+describe("findChatCommand", () => {
+  it("knows commands by alias", () => {
+    expect(findChatCommand("roll")?.name).toBe("r");
+    expect(findChatCommand("nope")).toBeUndefined();
+  });
+});
+
+describe("resolveWhisperTarget", () => {
+  const players = [{ name: "Al" }, { name: "Alice" }, { name: "Sir Bram" }];
+
+  it("picks the longest name the body starts with", () => {
+    expect(resolveWhisperTarget("alice hi there", players)).toEqual({
+      player: players[1],
+      text: "hi there",
+    });
+    expect(resolveWhisperTarget("Al hi", players)?.player).toBe(players[0]);
+    expect(resolveWhisperTarget("Sir Bram psst", players)?.player).toBe(players[2]);
+  });
+
+  it("takes a quoted name, and refuses a stranger or an empty whisper", () => {
+    expect(resolveWhisperTarget('"sir bram" psst', players)?.text).toBe("psst");
+    expect(resolveWhisperTarget("Zed hi", players)).toBeUndefined();
+    expect(resolveWhisperTarget("Alice", players)).toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  COMBAT_LOG_LIMITS,
+  coerceCombatLog,
+  coerceCombatRound,
+  combatEventText,
+  combatLogMarkdown,
+  type CombatEvent,
+} from "../index.js";
+
+function event(overrides: Partial<CombatEvent>): CombatEvent {
+  return { id: "e", kind: "turn-started", round: 1, at: 0, ...overrides };
+}
+
+describe("combatEventText", () => {
+  it("shows hit point numbers when the event carries them", () => {
+    expect(combatEventText(event({ kind: "hp-changed", name: "Goblin 1", from: 7, to: 2 }))).toBe(
+      "Goblin 1: HP 7 → 2.",
+    );
+  });
+
+  it("says only which way HP went when the numbers were redacted", () => {
+    expect(combatEventText(event({ kind: "hp-changed", name: "Ogre", change: "damage" }))).toBe(
+      "Ogre takes damage.",
+    );
+    expect(combatEventText(event({ kind: "hp-changed", name: "Ogre", change: "healing" }))).toBe(
+      "Ogre is healed.",
+    );
+  });
+
+  it("names turns, conditions and the fallen", () => {
+    expect(combatEventText(event({ name: "Aria" }))).toBe("Aria’s turn.");
+    expect(
+      combatEventText(event({ kind: "condition-added", name: "Aria", condition: "Poisoned" })),
+    ).toBe("Aria is Poisoned.");
+    expect(combatEventText(event({ kind: "defeated", name: "Goblin 1" }))).toBe(
+      "Goblin 1 is defeated.",
+    );
+  });
+});
+
+describe("combatLogMarkdown", () => {
+  it("writes a heading per round and a bullet per event", () => {
+    const markdown = combatLogMarkdown([
+      event({ kind: "combat-started" }),
+      event({ name: "Aria" }),
+      event({ round: 2, name: "Goblin 1" }),
+      event({ round: 2, kind: "defeated", name: "Goblin 1" }),
+    ]);
+
+    expect(markdown).toBe(
+      [
+        "# Combat log",
+        "",
+        "## Round 1",
+        "",
+        "- Combat begins.",
+        "- Aria’s turn.",
+        "",
+        "## Round 2",
+        "",
+        "- Goblin 1’s turn.",
+        "- Goblin 1 is defeated.",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("coerceCombatLog", () => {
+  it("drops malformed events and keeps the newest within the cap", () => {
+    expect(coerceCombatLog({})).toEqual([]);
+    expect(
+      coerceCombatLog([
+        event({ id: "ok", npc: true, from: 3, to: 1, change: "damage" }),
+        { ...event({}), kind: "teleported" },
+        { ...event({}), round: 0 },
+        "junk",
+      ]),
+    ).toEqual([event({ id: "ok", npc: true, from: 3, to: 1, change: "damage" })]);
+
+    const many = Array.from({ length: COMBAT_LOG_LIMITS.EVENTS_MAX + 5 }, (_, index) =>
+      event({ id: `e${index}` }),
+    );
+    const kept = coerceCombatLog(many);
+    expect(kept).toHaveLength(COMBAT_LOG_LIMITS.EVENTS_MAX);
+    expect(kept[0].id).toBe("e5");
+  });
+});
+
+describe("coerceCombatRound", () => {
+  it("keeps whole rounds from 1 and drops anything else", () => {
+    expect(coerceCombatRound(3)).toBe(3);
+    expect(coerceCombatRound(COMBAT_LOG_LIMITS.ROUND_MAX + 1)).toBe(COMBAT_LOG_LIMITS.ROUND_MAX);
+    expect(coerceCombatRound(0)).toBeUndefined();
+    expect(coerceCombatRound(1.5)).toBeUndefined();
+    expect(coerceCombatRound("2")).toBeUndefined();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  coerceCombatMode,
+  sharesTurn,
+  turnGroupKey,
+  turnStops,
+  type TurnSharer,
+} from "../index.js";
+
+const ARIA: TurnSharer = { id: "aria", type: "pc" };
+const BRAM: TurnSharer = { id: "bram", type: "pc" };
+const GOB1: TurnSharer = { id: "gob1", type: "npc", initiativeGroup: "goblins" };
+const GOB2: TurnSharer = { id: "gob2", type: "npc", initiativeGroup: "goblins" };
+const OGRE: TurnSharer = { id: "ogre", type: "npc" };
+
+const ids = (characters: TurnSharer[]) => characters.map((character) => character.id);
+
+describe("coerceCombatMode", () => {
+  it("keeps known modes and defaults the rest to individual", () => {
+    expect(coerceCombatMode("side")).toBe("side");
+    expect(coerceCombatMode("squads")).toBe("individual");
+    expect(coerceCombatMode(undefined)).toBe("individual");
+  });
+});
+
+describe("turnGroupKey", () => {
+  it("is the character itself in individual mode", () => {
+    expect(turnGroupKey(GOB1, "individual")).not.toBe(turnGroupKey(GOB2, "individual"));
+  });
+
+  it("joins a batch in group mode and leaves lone NPCs and PCs alone", () => {
+    expect(turnGroupKey(GOB1, "group")).toBe(turnGroupKey(GOB2, "group"));
+    expect(turnGroupKey(OGRE, "group")).toBe("ogre");
+    expect(turnGroupKey(ARIA, "group")).not.toBe(turnGroupKey(BRAM, "group"));
+  });
+
+  it("joins everyone on the same side in side mode", () => {
+    expect(turnGroupKey(ARIA, "side")).toBe(turnGroupKey(BRAM, "side"));
+    expect(turnGroupKey(OGRE, "side")).toBe(turnGroupKey(GOB1, "side"));
+    expect(turnGroupKey(ARIA, "side")).not.toBe(turnGroupKey(OGRE, "side"));
+  });
+});
+
+describe("sharesTurn", () => {
+  it("leaves a holder out of their group's turn", () => {
+    expect(sharesTurn(GOB2, GOB1, "group")).toBe(true);
+    expect(sharesTurn({ ...GOB2, initiativeHeld: true }, GOB1, "group")).toBe(false);
+    expect(sharesTurn(GOB2, GOB1, "individual")).toBe(false);
+  });
+});
+
+describe("turnStops", () => {
+  it("stops once per group, where the group first appears", () => {
+    expect(ids(turnStops([GOB1, ARIA, GOB2, OGRE], "group"))).toEqual(["gob1", "aria", "ogre"]);
+    expect(ids(turnStops([GOB1, ARIA, GOB2, BRAM], "side"))).toEqual(["gob1", "aria"]);
+    expect(ids(turnStops([GOB1, ARIA, GOB2], "individual"))).toEqual(["gob1", "aria", "gob2"]);
+  });
+
+  it("lets the turn holder stand for their group", () => {
+    expect(ids(turnStops([GOB1, ARIA, GOB2], "group", "gob2"))).toEqual(["gob2", "aria"]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { isDefeated, sharesTurn, skipsTurn, statusAtHp, type StatusBearer } from "../index.js";
+
+describe("isDefeated", () => {
+  it("counts everyone but the fighting", () => {
+    expect(isDefeated({})).toBe(false);
+    expect(isDefeated({ status: "active" })).toBe(false);
+    expect(isDefeated({ status: "unconscious" })).toBe(true);
+    expect(isDefeated({ status: "dead" })).toBe(true);
+    expect(isDefeated({ status: "fled" })).toBe(true);
+  });
+});
+
+describe("skipsTurn", () => {
+  it("passes by the dead, the fled and knocked-out NPCs", () => {
+    expect(skipsTurn({ type: "npc", status: "dead" })).toBe(true);
+    expect(skipsTurn({ type: "pc", status: "fled" })).toBe(true);
+    expect(skipsTurn({ type: "npc", status: "unconscious" })).toBe(true);
+    expect(skipsTurn({ type: "npc" })).toBe(false);
+  });
+
+  it("keeps an unconscious PC's turn for their death saves", () => {
+    expect(skipsTurn({ type: "pc", status: "unconscious" })).toBe(false);
+  });
+});
+
+describe("statusAtHp", () => {
+  const pc = (hp: number, status?: StatusBearer["status"]) => ({ type: "pc" as const, hp, status });
+
+  it("knocks a PC out at 0 HP and gets them up when healed", () => {
+    expect(statusAtHp(pc(0))).toBe("unconscious");
+    expect(statusAtHp(pc(5, "unconscious"))).toBeUndefined();
+    expect(statusAtHp(pc(5))).toBeUndefined();
+  });
+
+  it("leaves the dead, the fled and every NPC as they are", () => {
+    expect(statusAtHp(pc(7, "dead"))).toBe("dead");
+    expect(statusAtHp(pc(0, "fled"))).toBe("fled");
+    expect(statusAtHp({ type: "npc", hp: 0 })).toBeUndefined();
+  });
+});
+
+describe("sharesTurn with statuses", () => {
+  it("leaves a skipped member out of its group's turn", () => {
+    const gob1 = { id: "gob1", type: "npc" as const, initiativeGroup: "goblins" };
+    const gob2 = { ...gob1, id: "gob2", status: "dead" as const };
+
+    expect(sharesTurn(gob2, gob1, "group")).toBe(false);
+    expect(sharesTurn({ ...gob2, status: undefined }, gob1, "group")).toBe(true);
+  });
+});
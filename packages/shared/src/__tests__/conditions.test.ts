@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  CONDITION_LIMITS,
+  coerceCondition,
+  coerceConditions,
+  conditionName,
+  conditionTicksAt,
+} from "../index.js";
+
+describe("coerceCondition", () => {
+  it("keeps a 5e condition with its source and clock", () => {
+    expect(
+      coerceCondition({
+        key: "restrained",
+        label: "ignored",
+        source: " Goblin 2's net ",
+        rounds: 2.4,
+        endsAt: { characterId: "goblin-2", boundary: "end" },
+      }),
+    ).toEqual({
+      key: "restrained",
+      source: "Goblin 2's net",
+      rounds: 2,
+      endsAt: { characterId: "goblin-2", boundary: "end" },
+    });
+  });
+
+  it("gives an anchored condition with no rounds a single round", () => {
+    expect(
+      coerceCondition({ key: "frightened", endsAt: { characterId: "c", boundary: "start" } }),
+    ).toMatchObject({ rounds: 1 });
+    expect(coerceCondition({ key: "prone" })).toEqual({ key: "prone" });
+  });
+
+  it("refuses unknown keys and unnamed custom conditions", () => {
+    expect(coerceCondition({ key: "sleepy" })).toBeNull();
+    expect(coerceCondition({ key: "custom", label: "  " })).toBeNull();
+    expect(coerceCondition({ key: "custom", label: "Hexed" })).toEqual({
+      key: "custom",
+      label: "Hexed",
+    });
+  });
+
+  it("drops a malformed clock rather than the condition", () => {
+    expect(
+      coerceCondition({ key: "stunned", rounds: 0, endsAt: { characterId: "c", boundary: "mid" } }),
+    ).toEqual({ key: "stunned" });
+    expect(coerceCondition({ key: "stunned", rounds: 1e9 })?.rounds).toBe(
+      CONDITION_LIMITS.ROUNDS_MAX,
+    );
+  });
+});
+
+describe("coerceConditions", () => {
+  it("drops what cannot be kept and caps the list", () => {
+    expect(coerceConditions("prone")).toEqual([]);
+    expect(coerceConditions([{ key: "prone" }, { key: "nope" }])).toEqual([{ key: "prone" }]);
+    const pile = Array.from({ length: CONDITION_LIMITS.CONDITIONS_MAX + 3 }, () => ({
+      key: "prone",
+    }));
+    expect(coerceConditions(pile)).toHaveLength(CONDITION_LIMITS.CONDITIONS_MAX);
+  });
+});
+
+describe("conditionName", () => {
+  it("capitalizes a 5e key and uses a custom label as given", () => {
+    expect(conditionName({ key: "poisoned" })).toBe("Poisoned");
+    expect(conditionName({ key: "custom", label: "Hunter's Mark" })).toBe("Hunter's Mark");
+  });
+});
+
+describe("conditionTicksAt", () => {
+  it("ticks on the bearer's turn start unless anchored elsewhere", () => {
+    const timed = { key: "poisoned" as const, rounds: 3 };
+    expect(conditionTicksAt(timed, "aria", "aria", "start")).toBe(true);
+    expect(conditionTicksAt(timed, "aria", "aria", "end")).toBe(false);
+
+    const anchored = { ...timed, endsAt: { characterId: "mage", boundary: "end" as const } };
+    expect(conditionTicksAt(anchored, "aria", "aria", "start")).toBe(false);
+    expect(conditionTicksAt(anchored, "aria", "mage", "end")).toBe(true);
+  });
+
+  it("never ticks a condition with no clock", () => {
+    expect(conditionTicksAt({ key: "prone" }, "aria", "aria", "start")).toBe(false);
+  });
+});
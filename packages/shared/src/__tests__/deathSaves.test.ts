@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { applyDeathSave, coerceDeathSaves, isStable, tracksDeathSaves } from "../index.js";
+
+describe("applyDeathSave", () => {
+  it("counts 10 or more as a success and under 10 as a failure", () => {
+    expect(applyDeathSave(undefined, 10)).toEqual({
+      saves: { successes: 1, failures: 0 },
+      result: "success",
+    });
+    expect(applyDeathSave({ successes: 1, failures: 0 }, 9)).toEqual({
+      saves: { successes: 1, failures: 1 },
+      result: "failure",
+    });
+  });
+
+  it("settles at three either way", () => {
+    expect(applyDeathSave({ successes: 2, failures: 2 }, 15).result).toBe("stable");
+    expect(applyDeathSave({ successes: 2, failures: 2 }, 4).result).toBe("dead");
+  });
+
+  it("counts a natural 1 as two failures", () => {
+    expect(applyDeathSave(undefined, 1)).toEqual({
+      saves: { successes: 0, failures: 2 },
+      result: "failure",
+    });
+    expect(applyDeathSave({ successes: 0, failures: 2 }, 1)).toEqual({
+      saves: { successes: 0, failures: 3 },
+      result: "dead",
+    });
+  });
+
+  it("brings them back on a natural 20 with a clean tally", () => {
+    expect(applyDeathSave({ successes: 1, failures: 2 }, 20)).toEqual({
+      saves: { successes: 0, failures: 0 },
+      result: "revived",
+    });
+  });
+});
+
+describe("tracksDeathSaves", () => {
+  it("tracks an unconscious PC on 0 HP and no one else", () => {
+    expect(tracksDeathSaves({ type: "pc", hp: 0, status: "unconscious" })).toBe(true);
+    expect(tracksDeathSaves({ type: "pc", hp: 0, status: "dead" })).toBe(false);
+    expect(tracksDeathSaves({ type: "pc", hp: 3 })).toBe(false);
+    expect(tracksDeathSaves({ type: "npc", hp: 0, status: "unconscious" })).toBe(false);
+  });
+
+  it("knows a stable tally has nothing left to roll", () => {
+    expect(isStable({ successes: 3, failures: 1 })).toBe(true);
+    expect(isStable({ successes: 2, failures: 0 })).toBe(false);
+    expect(isStable(undefined)).toBe(false);
+  });
+});
+
+describe("coerceDeathSaves", () => {
+  it("rounds and clamps each count into 0–3", () => {
+    expect(coerceDeathSaves({ successes: 7, failures: -2 })).toEqual({ successes: 3, failures: 0 });
+    expect(coerceDeathSaves({ successes: 1.4, failures: 2 })).toEqual({
+      successes: 1,
+      failures: 2,
+    });
+  });
+
+  it("refuses anything that is not two numbers", () => {
+    expect(coerceDeathSaves({ successes: 1 })).toBeUndefined();
+    expect(coerceDeathSaves([1, 2])).toBeUndefined();
+    expect(coerceDeathSaves("3/0")).toBeUndefined();
+  });
+});
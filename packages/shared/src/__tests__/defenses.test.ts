@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFENSE_LIMITS,
+  coerceArmorClass,
+  coerceSavingThrows,
+  naturalD20,
+  resolveRollOutcome,
+} from "../index.js";
+
+describe("coerceArmorClass", () => {
+  it("rounds and clamps a number, and refuses anything else", () => {
+    expect(coerceArmorClass(15)).toBe(15);
+    expect(coerceArmorClass(14.6)).toBe(15);
+    expect(coerceArmorClass(-3)).toBe(DEFENSE_LIMITS.AC_MIN);
+    expect(coerceArmorClass(999)).toBe(DEFENSE_LIMITS.AC_MAX);
+    expect(coerceArmorClass("15")).toBeUndefined();
+    expect(coerceArmorClass(Number.NaN)).toBeUndefined();
+  });
+});
+
+describe("coerceSavingThrows", () => {
+  it("keeps known abilities and drops the rest", () => {
+    expect(coerceSavingThrows({ dex: 2, wis: -1.4, luck: 5, con: "3" })).toEqual({
+      dex: 2,
+      wis: -1,
+    });
+  });
+
+  it("is undefined when nothing usable is left", () => {
+    expect(coerceSavingThrows({})).toBeUndefined();
+    expect(coerceSavingThrows([1, 2])).toBeUndefined();
+    expect(coerceSavingThrows(null)).toBeUndefined();
+  });
+});
+
+describe("naturalD20", () => {
+  it("reads the face a single d20 kept, advantage or not", () => {
+    expect(
+      naturalD20([
+        { tokenId: "t0", die: "d20", rolls: [17], dropped: [4], subtotal: 17 },
+        { tokenId: "t1", subtotal: 5 },
+      ]),
+    ).toBe(17);
+  });
+
+  it("is undefined without exactly one kept d20", () => {
+    expect(naturalD20([{ tokenId: "t0", die: "d6", rolls: [3], subtotal: 3 }])).toBeUndefined();
+    expect(
+      naturalD20([{ tokenId: "t0", die: "d20", rolls: [3, 18], subtotal: 21 }]),
+    ).toBeUndefined();
+  });
+});
+
+describe("resolveRollOutcome", () => {
+  it("hits on meeting the AC and misses below it", () => {
+    expect(resolveRollOutcome(15, 11, 15)).toBe("hit");
+    expect(resolveRollOutcome(14, 10, 15)).toBe("miss");
+  });
+
+  it("crits on a natural 20 and misses on a natural 1, whatever the total", () => {
+    expect(resolveRollOutcome(22, 20, 30)).toBe("crit");
+    expect(resolveRollOutcome(21, 1, 5)).toBe("miss");
+  });
+});
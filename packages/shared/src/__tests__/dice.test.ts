@@ -124,6 +124,57 @@ describe("parseDiceFormula", () => {
   });
 });
 
+describe("parseDiceFormula — keep, drop, explode, reroll and fudge", () => {
+  it("reads keep and drop, with a bare k meaning keep highest", () => {
+    expect(terms("4d6kh3")[0]).toMatchObject({ select: { rule: "kh", count: 3 } });
+    expect(terms("4d6k3")[0]).toMatchObject({ select: { rule: "kh", count: 3 } });
+    expect(terms("2d20kl1")[0]).toMatchObject({ select: { rule: "kl", count: 1 } });
+    expect(terms("4d6dl1")[0]).toMatchObject({ select: { rule: "dl", count: 1 } });
+  });
+
+  it("still reads a bare d after a die as another die", () => {
+    expect(terms("2d6d4")).toEqual([
+      { kind: "die", die: "d6", qty: 2, sign: 1 },
+      { kind: "die", die: "d4", qty: 1, sign: 1 },
+    ]);
+  });
+
+  it("reads exploding and rerolling dice, suffixes in any order", () => {
+    expect(terms("3d6!")[0]).toEqual({ kind: "die", die: "d6", qty: 3, sign: 1, explode: true });
+    expect(terms("2d6r1")[0]).toMatchObject({ reroll: { atOrBelow: 1, once: false } });
+    expect(terms("2d6ro<2")[0]).toMatchObject({ reroll: { atOrBelow: 2, once: true } });
+    expect(terms("4D6KH3!RO1")[0]).toEqual(terms("4d6ro1!kh3")[0]);
+  });
+
+  it("reads fudge dice", () => {
+    expect(terms("4dF + 1")).toEqual([
+      { kind: "fudge", qty: 4, sign: 1 },
+      { kind: "mod", value: 1 },
+    ]);
+    expect(terms("-df")).toEqual([{ kind: "fudge", qty: 1, sign: -1 }]);
+  });
+
+  it.each([
+    ["4d6kh5", "cannot keep 5 of 4 dice"],
+    ["4d6dl4", "cannot drop 4 of 4 dice"],
+    ["4d6kh0", "at least 1"],
+    ["4d6kh3kl1", "one keep or drop"],
+    ["3d6!!", "explodes once"],
+    ["2d6r1r2", "one reroll"],
+    // A reroll that covers every face would never stop.
+    ["2d6r6", "a d6 can only reroll 1 to 5"],
+    ["2d6r0", "a d6 can only reroll 1 to 5"],
+    ["4dF!", "fudge dice take no"],
+    ["4d6k", 'unexpected "k" in formula'],
+  ])("rejects %j", (formula, expected) => {
+    expect(errorFor(formula)).toContain(expected);
+  });
+
+  it("counts fudge dice toward the total", () => {
+    expect(errorFor(`${DICE_LIMITS.TOTAL_DICE_MAX}dF + dF`)).toContain("more than");
+  });
+});
+
 describe("formatDiceTerms", () => {
   it("round-trips a formula to canonical notation", () => {
     expect(formatDiceTerms(terms("2d20+5"))).toBe("2d20 + 5");
@@ -133,6 +184,12 @@ describe("formatDiceTerms", () => {
     expect(formatDiceTerms(terms("1d6"))).toBe("d6");
   });
 
+  it("writes suffixes in one canonical order", () => {
+    expect(formatDiceTerms(terms("4d6k3"))).toBe("4d6kh3");
+    expect(formatDiceTerms(terms("4d6 kh3 ! ro<1 - 1dF"))).toBe("4d6ro1!kh3 - dF");
+    expect(formatDiceTerms(terms("2d6r2"))).toBe("2d6r2");
+  });
+
   it("is stable: formatting a parsed format parses to the same terms", () => {
     const original = terms("3d8 - 2 + 1d4 - 1");
     expect(terms(formatDiceTerms(original))).toEqual(original);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { MACRO_LIMITS, coerceDiceMacro, coerceDiceMacros } from "../index.js";
+
+const LONGSWORD = { id: "m1", label: "Longsword", formula: "1d8+3", mode: "normal" };
+
+describe("coerceDiceMacro", () => {
+  it("keeps a well-formed macro as it was written", () => {
+    expect(coerceDiceMacro(LONGSWORD)).toEqual(LONGSWORD);
+    expect(coerceDiceMacro({ ...LONGSWORD, formula: "2d20kh1", mode: "advantage" })).toEqual({
+      ...LONGSWORD,
+      formula: "2d20kh1",
+      mode: "advantage",
+    });
+  });
+
+  it("refuses a macro without an id or label, or whose formula does not parse", () => {
+    expect(coerceDiceMacro({ ...LONGSWORD, id: "" })).toBeNull();
+    expect(coerceDiceMacro({ ...LONGSWORD, label: "  " })).toBeNull();
+    expect(coerceDiceMacro({ ...LONGSWORD, formula: "a sword" })).toBeNull();
+    const longLabel = "x".repeat(MACRO_LIMITS.LABEL_MAX + 1);
+    expect(coerceDiceMacro({ ...LONGSWORD, label: longLabel })).toBeNull();
+    expect(coerceDiceMacro("1d8+3")).toBeNull();
+  });
+
+  it("reads an unknown mode as normal and drops unknown fields", () => {
+    expect(coerceDiceMacro({ ...LONGSWORD, mode: "chaos", evil: true })).toEqual(LONGSWORD);
+  });
+});
+
+describe("coerceDiceMacros", () => {
+  it("drops what it cannot use or has already seen, and caps the list", () => {
+    const many = Array.from({ length: MACRO_LIMITS.CHARACTER_MAX + 3 }, (_, index) => ({
+      ...LONGSWORD,
+      id: `m${index}`,
+    }));
+
+    expect(
+      coerceDiceMacros([LONGSWORD, { id: "m2" }, { ...LONGSWORD, label: "Again" }], 12),
+    ).toEqual([LONGSWORD]);
+    expect(coerceDiceMacros(many, MACRO_LIMITS.CHARACTER_MAX)).toHaveLength(
+      MACRO_LIMITS.CHARACTER_MAX,
+    );
+    expect(coerceDiceMacros({ 0: LONGSWORD }, 12)).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+// Drag routes — the walk a dragged token shows. Pins that an unpinned drag is
+// the server's own walk, that pins are walked in turn and their costs added,
+// that a leg with no way through is drawn straight and flagged rather than
+// dropped, and that a route from the wire is cleaned before anyone routes it.
+
+import { describe, expect, it } from "vitest";
+import {
+  MAX_DRAG_ROUTE_WAYPOINTS,
+  findGridPath,
+  planDragRoute,
+  sanitizeDragRoute,
+  type CompiledScene,
+  type CompiledWallSegment,
+  type DragRouteQuery,
+} from "../index.js";
+
+function wall(id: string, x1: number, y1: number, x2: number, y2: number): CompiledWallSegment {
+  return { id, x1, y1, x2, y2, blocksMovement: true, blocksVision: true };
+}
+
+function scene(walls: CompiledWallSegment[]): CompiledScene {
+  return {
+    schemaVersion: 1,
+    sourceDocumentId: "map",
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 400,
+    height: 400,
+    walls,
+    doors: [],
+    lights: [],
+  };
+}
+
+function plan(overrides: Partial<DragRouteQuery> & Pick<DragRouteQuery, "route" | "to">) {
+  return planDragRoute({ gridSize: 50, gridSquareSize: 5, rule: "5e", ...overrides });
+}
+
+// A wall down x = 150 from the top to y = 300: cells in column 2 and beyond
+// are reached from column 0 only by going under it, through row 6 or 7.
+const DIVIDER = scene([wall("w", 150, 0, 150, 300)]);
+
+describe("planDragRoute", () => {
+  it("is the server's walk when nothing is pinned", () => {
+    const from = { x: 1, y: 3 };
+    const to = { x: 4, y: 3 };
+    const route = plan({ scene: DIVIDER, route: { from, waypoints: [] }, to });
+    const walk = findGridPath({
+      scene: DIVIDER,
+      from,
+      to,
+      gridSize: 50,
+      gridSquareSize: 5,
+      rule: "5e",
+    })!;
+
+    expect(route).toEqual({
+      cells: walk.cells,
+      squares: walk.squares,
+      feet: walk.feet,
+      waypoints: [],
+    });
+  });
+
+  it("walks each pin in turn and adds the legs", () => {
+    const route = plan({
+      route: { from: { x: 0, y: 0 }, waypoints: [{ x: 0, y: 3 }] },
+      to: { x: 3, y: 3 },
+    });
+
+    expect(route).toMatchObject({ squares: 6, feet: 30, waypoints: [{ x: 0, y: 3 }] });
+    expect(route.cells[0]).toEqual({ x: 0, y: 0 });
+    expect(route.cells.at(-1)).toEqual({ x: 3, y: 3 });
+    expect(route.blocked).toBeUndefined();
+  });
+
+  it("draws a leg with no way through straight, and says so", () => {
+    // Fully sealed: a box round cell (5, 5).
+    const sealed = scene([
+      wall("n", 250, 250, 300, 250),
+      wall("e", 300, 250, 300, 300),
+      wall("s", 250, 300, 300, 300),
+      wall("w", 250, 250, 250, 300),
+    ]);
+    const route = plan({
+      scene: sealed,
+      route: { from: { x: 2, y: 5 }, waypoints: [] },
+      to: { x: 5, y: 5 },
+    });
+
+    expect(route).toMatchObject({ blocked: true, squares: 3, feet: 15 });
+    expect(route.cells).toEqual([
+      { x: 2, y: 5 },
+      { x: 5, y: 5 },
+    ]);
+  });
+});
+
+describe("sanitizeDragRoute", () => {
+  it("keeps a well-formed route", () => {
+    const route = { from: { x: 1, y: 2 }, waypoints: [{ x: 3, y: 4 }] };
+    expect(sanitizeDragRoute(route)).toEqual(route);
+  });
+
+  it("drops anything malformed or over the pin cap", () => {
+    const tooMany = Array.from({ length: MAX_DRAG_ROUTE_WAYPOINTS + 1 }, () => ({ x: 0, y: 0 }));
+    expect(sanitizeDragRoute({ from: { x: 0, y: 0 }, waypoints: tooMany })).toBeUndefined();
+    expect(sanitizeDragRoute({ from: { x: Infinity, y: 0 }, waypoints: [] })).toBeUndefined();
+    expect(
+      sanitizeDragRoute({ from: { x: 0, y: 0 }, waypoints: [{ x: "1", y: 0 }] }),
+    ).toBeUndefined();
+    expect(sanitizeDragRoute({ from: { x: 0, y: 0 } })).toBeUndefined();
+    expect(sanitizeDragRoute("route")).toBeUndefined();
+  });
+});
@@ -0,0 +1,140 @@
+// Explored fog — the per-player memory the server now keeps. Pins the mask
+// geometry both halves derive, that the bits survive the wire byte for byte,
+// that a merge is a union and a reveal is exactly everything, and that a mask
+// from an upload or a file is rebuilt or refused before anyone holds it.
+
+import { describe, expect, it } from "vitest";
+import {
+  MASK_MAX_DIMENSION,
+  MAX_EXPLORED_SCENES_PER_PLAYER,
+  coerceExploredFog,
+  decodeExploredBits,
+  encodeExploredBits,
+  exploredFraction,
+  exploredMaskByteLength,
+  fullExploredBits,
+  maskGeometryFor,
+  mergeExploredBits,
+  sanitizeExploredMask,
+  type ExploredFogMask,
+} from "../index.js";
+
+const META = maskGeometryFor(800, 600);
+
+function bitsWith(indices: number[]): string {
+  const bytes = new Uint8Array(exploredMaskByteLength(META));
+  for (const index of indices) bytes[index >> 3]! |= 1 << (index & 7);
+  return encodeExploredBits(bytes);
+}
+
+function mask(overrides: Partial<ExploredFogMask> = {}): ExploredFogMask {
+  return {
+    uid: "player",
+    sceneId: "map",
+    sceneWidth: 800,
+    sceneHeight: 600,
+    ...META,
+    epoch: 0,
+    bits: bitsWith([3]),
+    ...overrides,
+  };
+}
+
+describe("maskGeometryFor", () => {
+  it("never exceeds the dimension cap, so one mask stays a bounded payload", () => {
+    const huge = maskGeometryFor(20000, 12000);
+    expect(huge.cols).toBeLessThanOrEqual(MASK_MAX_DIMENSION);
+    expect(huge.rows).toBeLessThanOrEqual(MASK_MAX_DIMENSION);
+    // 512*512 bits = 32KB packed; base64 is ~4/3 of that.
+    expect(exploredMaskByteLength(maskGeometryFor(20000, 20000))).toBeLessThanOrEqual(32 * 1024);
+  });
+
+  it("keeps a floor on resolution for a small map rather than one cell per pixel", () => {
+    expect(maskGeometryFor(80, 40)).toEqual({ cell: 8, cols: 10, rows: 5 });
+  });
+
+  it("covers the whole scene even when it does not divide evenly", () => {
+    const meta = maskGeometryFor(801, 601);
+    expect(meta.cols * meta.cell).toBeGreaterThanOrEqual(801);
+    expect(meta.rows * meta.cell).toBeGreaterThanOrEqual(601);
+  });
+});
+
+describe("mask bits", () => {
+  it("round-trip exactly, at every padding length", () => {
+    for (const length of [1, 2, 3, 4, 5]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 97 + 13) & 0xff);
+      expect(decodeExploredBits(encodeExploredBits(bytes), length)).toEqual(bytes);
+    }
+  });
+
+  it("encode as standard base64", () => {
+    expect(encodeExploredBits(Uint8Array.from([0x66, 0x6f, 0x6f, 0x62]))).toBe("Zm9vYg==");
+  });
+
+  it("refuse a payload of the wrong length or alphabet", () => {
+    expect(decodeExploredBits("Zm9vYg==", 6)).toBeNull();
+    expect(decodeExploredBits("Zm9v!g==", 4)).toBeNull();
+  });
+
+  it("read the empty string as nothing explored", () => {
+    expect(decodeExploredBits("", 3)).toEqual(new Uint8Array(3));
+  });
+
+  it("merge as a union", () => {
+    const merged = mergeExploredBits(bitsWith([1, 9]), bitsWith([9, 40]), META);
+    expect(merged).toBe(bitsWith([1, 9, 40]));
+    expect(mergeExploredBits("", bitsWith([2]), META)).toBe(bitsWith([2]));
+  });
+
+  it("reveal every cell and nothing past the last one", () => {
+    const odd = maskGeometryFor(80, 24); // 10 x 3 = 30 cells, two padding bits
+    expect(exploredFraction(mask({ ...odd, bits: fullExploredBits(odd) }))).toBe(1);
+    expect(exploredFraction(mask({ bits: "" }))).toBe(0);
+  });
+});
+
+describe("sanitizeExploredMask", () => {
+  it("rebuilds a well-formed mask, dropping unknown keys", () => {
+    expect(sanitizeExploredMask({ ...mask(), extra: "x" })).toEqual(mask());
+  });
+
+  // A mask cannot choose its own resolution: the server holds what
+  // maskGeometryFor says the scene's mask is, and nothing coarser or finer.
+  it("refuses geometry that disagrees with the claimed scene size", () => {
+    expect(sanitizeExploredMask(mask({ cell: META.cell * 2 }))).toBeNull();
+    expect(sanitizeExploredMask(mask({ sceneWidth: 1200 }))).toBeNull();
+  });
+
+  it("refuses bits that are not exactly the mask's size", () => {
+    expect(sanitizeExploredMask(mask({ bits: "AAAA" }))).toBeNull();
+  });
+
+  it("refuses a missing identity or a bad epoch", () => {
+    expect(sanitizeExploredMask(mask({ uid: "" }))).toBeNull();
+    expect(sanitizeExploredMask(mask({ epoch: -1 }))).toBeNull();
+    expect(sanitizeExploredMask(mask({ epoch: 1.5 }))).toBeNull();
+  });
+});
+
+describe("coerceExploredFog", () => {
+  it("reads a non-array as no memory at all", () => {
+    expect(coerceExploredFog({})).toEqual([]);
+  });
+
+  it("keeps the first entry per player per scene and drops malformed ones", () => {
+    const first = mask({ bits: bitsWith([1]) });
+    expect(coerceExploredFog([first, mask({ bits: bitsWith([2]) }), { uid: 1 }])).toEqual([first]);
+  });
+
+  it("caps how many scenes one player remembers", () => {
+    const many = Array.from({ length: MAX_EXPLORED_SCENES_PER_PLAYER + 2 }, (_, i) =>
+      mask({ sceneId: `map-${i}` }),
+    );
+    const kept = coerceExploredFog([...many, mask({ uid: "other" })]);
+    expect(kept.filter((entry) => entry.uid === "player")).toHaveLength(
+      MAX_EXPLORED_SCENES_PER_PLAYER,
+    );
+    expect(kept.some((entry) => entry.uid === "other")).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+// Fog regions — the DM's painted reveal/conceal stack. Pins the two shapes'
+// hit tests, that the topmost region wins, and that a region from a message
+// or a file is rebuilt or refused before anyone holds it.
+
+import { describe, expect, it } from "vitest";
+import {
+  MAX_FOG_REGIONS,
+  coerceFogRegions,
+  fogRegionContains,
+  manualFogAt,
+  sanitizeFogRegionDraft,
+  type FogRegion,
+} from "../index.js";
+
+function square(x: number, y: number, size: number) {
+  return [
+    { x, y },
+    { x: x + size, y },
+    { x: x + size, y: y + size },
+    { x, y: y + size },
+  ];
+}
+
+function region(overrides: Partial<FogRegion> = {}): FogRegion {
+  return {
+    id: "r1",
+    sceneId: "map",
+    mode: "reveal",
+    shape: "polygon",
+    points: square(0, 0, 100),
+    ...overrides,
+  };
+}
+
+describe("fogRegionContains", () => {
+  it("tests a polygon by its outline", () => {
+    expect(fogRegionContains(region(), { x: 50, y: 50 })).toBe(true);
+    expect(fogRegionContains(region(), { x: 150, y: 50 })).toBe(false);
+  });
+
+  it("tests a stroke by distance to its centreline", () => {
+    const stroke = region({
+      shape: "stroke",
+      points: [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+      ],
+      radius: 10,
+    });
+    expect(fogRegionContains(stroke, { x: 50, y: 9 })).toBe(true);
+    expect(fogRegionContains(stroke, { x: 50, y: 11 })).toBe(false);
+    // Round caps: past the end, the radius still reaches.
+    expect(fogRegionContains(stroke, { x: 107, y: 0 })).toBe(true);
+  });
+
+  it("treats a one-point stroke as a disc", () => {
+    const dab = region({ shape: "stroke", points: [{ x: 0, y: 0 }], radius: 5 });
+    expect(fogRegionContains(dab, { x: 3, y: 3 })).toBe(true);
+    expect(fogRegionContains(dab, { x: 5, y: 5 })).toBe(false);
+  });
+});
+
+describe("manualFogAt", () => {
+  // Conceal the map, then reveal a room: the room shows, the rest stays dark.
+  it("lets the topmost region covering a point decide", () => {
+    const regions = [
+      region({ id: "all", mode: "conceal", points: square(0, 0, 1000) }),
+      region({ id: "room", mode: "reveal", points: square(100, 100, 100) }),
+    ];
+    expect(manualFogAt(regions, { x: 150, y: 150 })).toBe("reveal");
+    expect(manualFogAt(regions, { x: 500, y: 500 })).toBe("conceal");
+  });
+
+  it("leaves an unpainted point to sight", () => {
+    expect(manualFogAt([region()], { x: 500, y: 500 })).toBeNull();
+    expect(manualFogAt([], { x: 0, y: 0 })).toBeNull();
+  });
+});
+
+describe("sanitizeFogRegionDraft", () => {
+  it("rebuilds a draft, dropping unknown keys and any id the client sent", () => {
+    const { id: _id, sceneId: _scene, ...draft } = region();
+    expect(sanitizeFogRegionDraft({ ...region(), extra: 1 })).toEqual(draft);
+  });
+
+  it("refuses a polygon that encloses nothing and a stroke without a radius", () => {
+    expect(sanitizeFogRegionDraft(region({ points: square(0, 0, 1).slice(0, 2) }))).toBeNull();
+    expect(sanitizeFogRegionDraft(region({ shape: "stroke" }))).toBeNull();
+    expect(sanitizeFogRegionDraft(region({ shape: "stroke", radius: -1 }))).toBeNull();
+  });
+
+  it("refuses an unknown mode and non-finite points", () => {
+    expect(sanitizeFogRegionDraft({ ...region(), mode: "blur" })).toBeNull();
+    expect(
+      sanitizeFogRegionDraft(region({ points: [...square(0, 0, 1), { x: NaN, y: 0 }] })),
+    ).toBeNull();
+  });
+});
+
+describe("coerceFogRegions", () => {
+  it("drops malformed entries and repeated ids", () => {
+    expect(coerceFogRegions([region(), region(), { id: "x" }, null])).toEqual([region()]);
+    expect(coerceFogRegions("nope")).toEqual([]);
+  });
+
+  it("caps each scene's stack, keeping the bottom of it", () => {
+    const many = Array.from({ length: MAX_FOG_REGIONS + 3 }, (_, i) => region({ id: `r${i}` }));
+    const kept = coerceFogRegions([...many, region({ id: "other", sceneId: "elsewhere" })]);
+    expect(kept.filter((entry) => entry.sceneId === "map")).toHaveLength(MAX_FOG_REGIONS);
+    expect(kept[0]!.id).toBe("r0");
+    expect(kept.some((entry) => entry.sceneId === "elsewhere")).toBe(true);
+  });
+});
@@ -5,6 +5,7 @@ import {
   parseMaxHPInput,
   hpBadgeFor,
   coerceMonsterHpDisplay,
+  applyDamage,
 } from "../hpUtils.js";
 
 describe("hpUtils", () => {
@@ -72,3 +73,16 @@ describe("coerceMonsterHpDisplay", () => {
     expect(coerceMonsterHpDisplay(42)).toBe("exact");
   });
 });
+
+describe("applyDamage", () => {
+  it("spends temporary hit points before real ones", () => {
+    expect(applyDamage(20, 5, 3)).toEqual({ hp: 20, tempHp: 2 });
+    expect(applyDamage(20, 5, 8)).toEqual({ hp: 17, tempHp: undefined });
+    expect(applyDamage(20, undefined, 8)).toEqual({ hp: 12, tempHp: undefined });
+  });
+
+  it("stops at zero and ignores negative damage", () => {
+    expect(applyDamage(4, 0, 30)).toEqual({ hp: 0, tempHp: undefined });
+    expect(applyDamage(4, 2, -10)).toEqual({ hp: 4, tempHp: 2 });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyManualOrder,
+  coerceInitiativeOrder,
+  compareInitiative,
+  type InitiativeEntrant,
+} from "../index.js";
+
+const ARIA: InitiativeEntrant = { id: "aria", type: "pc", initiative: 15, initiativeModifier: 1 };
+const BRAM: InitiativeEntrant = { id: "bram", type: "pc", initiative: 15, initiativeModifier: 3 };
+const GOB: InitiativeEntrant = { id: "gob", type: "npc", initiative: 15, initiativeModifier: 1 };
+const OGRE: InitiativeEntrant = { id: "ogre", type: "npc", initiative: 20 };
+const LATE: InitiativeEntrant = { id: "late", type: "pc" };
+
+function sort(entrants: InitiativeEntrant[]): string[] {
+  const creation = new Map(entrants.map((entrant, index) => [entrant.id, index]));
+  return [...entrants].sort((a, b) => compareInitiative(a, b, creation)).map((e) => e.id);
+}
+
+describe("compareInitiative", () => {
+  it("breaks ties on the modifier, then PC before NPC, and puts the unrolled last", () => {
+    expect(sort([LATE, GOB, ARIA, BRAM, OGRE])).toEqual(["ogre", "bram", "aria", "gob", "late"]);
+  });
+});
+
+describe("applyManualOrder", () => {
+  const sorted = ["ogre", "bram", "aria", "gob"];
+  const id = (value: string) => value;
+
+  it("keeps the sorted order without an arrangement", () => {
+    expect(applyManualOrder(sorted, id, undefined)).toBe(sorted);
+  });
+
+  it("follows the arrangement and ignores ids no longer in play", () => {
+    expect(applyManualOrder(sorted, id, ["gob", "gone", "aria", "bram", "ogre"])).toEqual([
+      "gob",
+      "aria",
+      "bram",
+      "ogre",
+    ]);
+  });
+
+  it("slots entrants the arrangement does not name in where the sort puts them", () => {
+    expect(applyManualOrder(sorted, id, ["gob", "ogre"])).toEqual(["gob", "ogre", "bram", "aria"]);
+    expect(applyManualOrder(sorted, id, ["aria", "gob"])).toEqual(["ogre", "bram", "aria", "gob"]);
+  });
+});
+
+describe("coerceInitiativeOrder", () => {
+  it("keeps distinct ids and drops the rest", () => {
+    expect(coerceInitiativeOrder(["a", "b", "a", 3, ""])).toEqual(["a", "b"]);
+    expect(coerceInitiativeOrder([])).toBeUndefined();
+    expect(coerceInitiativeOrder("a")).toBeUndefined();
+  });
+});
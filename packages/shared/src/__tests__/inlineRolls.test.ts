@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  INLINE_ROLLS_MAX,
+  findInlineRolls,
+  splitInlineRolls,
+  type InlineRoll,
+} from "../inlineRolls.js";
+
+const rolled = (index: number, total: number): InlineRoll => ({
+  index,
+  formula: "d20",
+  total,
+  breakdown: [{ tokenId: "t0", die: "d20", rolls: [total], subtotal: total }],
+});
+
+describe("findInlineRolls", () => {
+  it("finds each bracket in order, with what it held", () => {
+    expect(findInlineRolls("I swing [[1d20+5]] for [[ 1d8 + 3 ]]")).toEqual([
+      { index: 0, notation: "1d20+5" },
+      { index: 1, notation: " 1d8 + 3 " },
+    ]);
+    expect(findInlineRolls("no dice [here] or [[there")).toEqual([]);
+  });
+
+  it("stops at the per-message cap", () => {
+    const text = "[[d4]] ".repeat(INLINE_ROLLS_MAX + 3);
+    expect(findInlineRolls(text)).toHaveLength(INLINE_ROLLS_MAX);
+  });
+});
+
+describe("splitInlineRolls", () => {
+  it("puts each roll where its bracket was", () => {
+    const segments = splitInlineRolls("I swing [[1d20+5]] for [[1d8+3]]!", [
+      rolled(0, 17),
+      rolled(1, 7),
+    ]);
+    expect(segments.map((s) => (s.kind === "text" ? s.text : s.roll.total))).toEqual([
+      "I swing ",
+      17,
+      " for ",
+      7,
+      "!",
+    ]);
+  });
+
+  it("leaves a bracket with no roll as the text that was typed", () => {
+    expect(splitInlineRolls("a [[nope]] b [[d6]]", [rolled(1, 4)])).toEqual([
+      { kind: "text", text: "a [[nope]] b " },
+      { kind: "roll", roll: rolled(1, 4), source: "[[d6]]" },
+    ]);
+    expect(splitInlineRolls("[[d6]]", "corrupt")).toEqual([{ kind: "text", text: "[[d6]]" }]);
+  });
+});
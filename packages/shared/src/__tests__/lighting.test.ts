@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import {
+  ambientLightLevel,
+  compileScene,
+  computeLitAreas,
+  computeLitViewerVision,
+  computeSceneLighting,
+  computeViewerVisionPolygon,
+  createMapDocument,
+  getVisionBlockingSegments,
+  isPointLitVisible,
+  lightBands,
+  sightRadiusFeetAt,
+  type CompiledLight,
+  type CompiledScene,
+  type ScenePoint,
+  type ViewerVisionInput,
+} from "../index.js";
+
+// A 400x400 scene split by a vertical wall at x=200. Grid 50 px, 5 ft squares,
+// so 10 ft of sight is 100 px.
+function scene(lights: CompiledLight[], ambient?: number): CompiledScene {
+  return {
+    schemaVersion: 1,
+    sourceDocumentId: "map",
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 400,
+    height: 400,
+    walls: [
+      { id: "divider", x1: 200, y1: 0, x2: 200, y2: 400, blocksMovement: true, blocksVision: true },
+    ],
+    doors: [],
+    lights,
+    ...(ambient === undefined ? {} : { ambient }),
+  };
+}
+
+function torch(id: string, x: number, y: number, radius = 100, castsShadows = true): CompiledLight {
+  return { id, x, y, radius, color: "#ffaa00", intensity: 1, castsShadows };
+}
+
+function viewer(compiled: CompiledScene, origin: ScenePoint, radiusFeet?: number) {
+  const input: ViewerVisionInput = {
+    origin,
+    radiusFeet,
+    segments: getVisionBlockingSegments(compiled),
+    bounds: { width: compiled.width, height: compiled.height },
+    gridSize: 50,
+    gridSquareSize: 5,
+  };
+  return {
+    input,
+    vision: computeLitViewerVision(
+      input,
+      computeSceneLighting(compiled, getVisionBlockingSegments(compiled)),
+    ),
+  };
+}
+
+describe("ambientLightLevel", () => {
+  it("reads an absent ambient as daylight, so old scenes keep their vision", () => {
+    expect(ambientLightLevel(undefined)).toBe("bright");
+  });
+
+  it("maps the lighting layer's opacity onto thirds", () => {
+    expect(ambientLightLevel(1)).toBe("bright");
+    expect(ambientLightLevel(0.7)).toBe("bright");
+    expect(ambientLightLevel(0.5)).toBe("dim");
+    expect(ambientLightLevel(0.2)).toBe("dark");
+    expect(ambientLightLevel(0)).toBe("dark");
+  });
+
+  it("degrades a corrupt value to daylight rather than blinding the table", () => {
+    expect(ambientLightLevel(Number.NaN)).toBe("bright");
+  });
+});
+
+describe("lightBands", () => {
+  it("gives a full-intensity light a bright core of half its radius", () => {
+    expect(lightBands({ radius: 100, intensity: 1 })).toEqual({ bright: 50, dim: 100 });
+  });
+
+  it("makes a faint light dim all the way out", () => {
+    expect(lightBands({ radius: 100, intensity: 0.3 })).toEqual({ bright: 0, dim: 100 });
+  });
+
+  it("treats a light with no radius or no intensity as no light", () => {
+    expect(lightBands({ radius: 0, intensity: 1 })).toBeNull();
+    expect(lightBands({ radius: 100, intensity: 0 })).toBeNull();
+    expect(lightBands({ radius: Number.NaN, intensity: 1 })).toBeNull();
+  });
+});
+
+describe("computeLitAreas", () => {
+  const segments = getVisionBlockingSegments(scene([]));
+
+  it("emits a bright and a dim band per light", () => {
+    const areas = computeLitAreas([torch("t", 100, 200)], segments, { width: 400, height: 400 });
+    expect(areas.map((area) => area.level)).toEqual(["bright", "dim"]);
+    expect(areas.every((area) => area.lightId === "t")).toBe(true);
+  });
+
+  it("stops a shadow-casting light at walls", () => {
+    const [, dim] = computeLitAreas([torch("t", 150, 200)], segments, { width: 400, height: 400 });
+    const polygon = dim!.polygon;
+    const inside = (point: ScenePoint) =>
+      polygon.length >= 3 &&
+      isPointLitVisible(
+        { sight: polygon, lineOfSight: null, lit: [], sensed: [], tremor: null },
+        point,
+      );
+    expect(inside({ x: 190, y: 200 })).toBe(true);
+    expect(inside({ x: 220, y: 200 })).toBe(false);
+  });
+
+  it("lets a light that casts no shadows shine through the wall", () => {
+    const [, dim] = computeLitAreas([torch("t", 150, 200, 100, false)], segments, {
+      width: 400,
+      height: 400,
+    });
+    expect(
+      isPointLitVisible(
+        { sight: dim!.polygon, lineOfSight: null, lit: [], sensed: [], tremor: null },
+        { x: 220, y: 200 },
+      ),
+    ).toBe(true);
+  });
+});
+
+describe("sightRadiusFeetAt", () => {
+  it("leaves radii alone outside darkness", () => {
+    expect(sightRadiusFeetAt(undefined, "bright")).toBeUndefined();
+    expect(sightRadiusFeetAt(30, "dim")).toBe(30);
+  });
+
+  it("blinds an unconfigured viewer in darkness but keeps an explicit radius", () => {
+    expect(sightRadiusFeetAt(undefined, "dark")).toBe(0);
+    expect(sightRadiusFeetAt(null, "dark")).toBe(0);
+    expect(sightRadiusFeetAt(10, "dark")).toBe(10);
+  });
+});
+
+describe("computeLitViewerVision", () => {
+  it("is the plain viewer polygon when there is no lighting at all", () => {
+    const compiled = scene([]);
+    const { input } = viewer(compiled, { x: 100, y: 200 }, 10);
+    const vision = computeLitViewerVision(input, null);
+    expect(vision.sight).toEqual(computeViewerVisionPolygon(input));
+    expect(vision.lineOfSight).toBeNull();
+  });
+
+  it("changes nothing in daylight for a viewer with unlimited sight", () => {
+    const compiled = scene([torch("t", 100, 100)]);
+    const { input, vision } = viewer(compiled, { x: 100, y: 200 });
+    expect(vision.sight).toEqual(computeViewerVisionPolygon(input));
+    expect(vision.lit).toEqual([]);
+  });
+
+  it("sees nothing in an unlit dark room", () => {
+    const { vision } = viewer(scene([], 0), { x: 100, y: 200 });
+    expect(vision.sight).toEqual([]);
+    expect(isPointLitVisible(vision, { x: 120, y: 200 })).toBe(false);
+  });
+
+  it("sees a torchlit spot across a dark room, but not the dark beside it", () => {
+    const { vision } = viewer(scene([torch("t", 100, 50)], 0), { x: 100, y: 350 });
+    expect(isPointLitVisible(vision, { x: 100, y: 60 })).toBe(true);
+    expect(isPointLitVisible(vision, { x: 100, y: 250 })).toBe(false);
+    expect(vision.lit.map((area) => area.lightId)).toContain("t");
+  });
+
+  it("does not see a lit area on the far side of a wall", () => {
+    const { vision } = viewer(scene([torch("t", 300, 200)], 0), { x: 100, y: 200 });
+    expect(isPointLitVisible(vision, { x: 300, y: 200 })).toBe(false);
+    // Both polygons END on the dividing wall. Touching is not seeing.
+    expect(vision.lit).toEqual([]);
+  });
+
+  it("sees a lit room through an open doorway", () => {
+    const compiled = scene([torch("t", 300, 200)], 0);
+    compiled.walls = [
+      { id: "top", x1: 200, y1: 0, x2: 200, y2: 180, blocksMovement: true, blocksVision: true },
+      {
+        id: "bottom",
+        x1: 200,
+        y1: 220,
+        x2: 200,
+        y2: 400,
+        blocksMovement: true,
+        blocksVision: true,
+      },
+    ];
+    const { vision } = viewer(compiled, { x: 100, y: 200 });
+    expect(isPointLitVisible(vision, { x: 260, y: 200 })).toBe(true);
+    expect(isPointLitVisible(vision, { x: 300, y: 100 })).toBe(false);
+  });
+
+  it("keeps an explicit radius working in the dark", () => {
+    const { vision } = viewer(scene([], 0), { x: 100, y: 200 }, 10);
+    expect(isPointLitVisible(vision, { x: 150, y: 200 })).toBe(true);
+    expect(isPointLitVisible(vision, { x: 100, y: 340 })).toBe(false);
+  });
+
+  it("lets light extend a limited radius in daylight too", () => {
+    const { vision } = viewer(scene([torch("t", 100, 50)]), { x: 100, y: 350 }, 5);
+    expect(isPointLitVisible(vision, { x: 100, y: 60 })).toBe(true);
+    expect(isPointLitVisible(vision, { x: 100, y: 200 })).toBe(false);
+  });
+});
+
+describe("compileScene ambient", () => {
+  it("omits ambient for a daylit document, so old scenes compile byte-identical", () => {
+    const document = createMapDocument({ id: "doc", name: "Doc", timestamp: 1 });
+    expect("ambient" in compileScene(document, 1)).toBe(false);
+  });
+
+  it("carries the lighting layer's opacity, and reads an invisible layer as daylight", () => {
+    const document = createMapDocument({ id: "doc", name: "Doc", timestamp: 1 });
+    const dark = {
+      ...document,
+      layers: document.layers.map((layer) =>
+        layer.kind === "lighting" ? { ...layer, opacity: 0.2 } : layer,
+      ),
+    };
+    expect(compileScene(dark, 1).ambient).toBe(0.2);
+    const killed = {
+      ...dark,
+      layers: dark.layers.map((layer) =>
+        layer.kind === "lighting" ? { ...layer, visible: false } : layer,
+      ),
+    };
+    expect("ambient" in compileScene(killed, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+// Map links from authoring to the table: the element survives sanitizing and
+// its own edit path, compiles to an upright box, and the box answers "who is
+// standing on it" the same way for every caller.
+
+import { describe, expect, it } from "vitest";
+import {
+  addMapElement,
+  compileScene,
+  createMapDocument,
+  isTokenOnMapLink,
+  mapLinksUnder,
+  updateMapLink,
+  type CompiledMapLink,
+  type MapLinkElement,
+} from "../index.js";
+
+function link(overrides: Partial<MapLinkElement> = {}): MapLinkElement {
+  return {
+    id: "stairs-1",
+    layerId: "walls",
+    type: "link",
+    locked: false,
+    hidden: false,
+    transform: { x: 100, y: 200, scaleX: 1, scaleY: 1, rotation: 0 },
+    data: {
+      kind: "stairs",
+      label: "Stairs down",
+      width: 50,
+      height: 100,
+      target: { documentId: "crypt", x: 300, y: 300 },
+      playersMayUse: true,
+    },
+    ...overrides,
+  };
+}
+
+const BOX: CompiledMapLink = {
+  id: "stairs-1",
+  kind: "stairs",
+  label: "Stairs down",
+  x: 100,
+  y: 200,
+  width: 50,
+  height: 100,
+  playersMayUse: true,
+};
+
+describe("map links", () => {
+  it("compiles to an upright box that keeps its target, and only when there is one", () => {
+    const base = createMapDocument({ id: "town", name: "Town", timestamp: 1 });
+    expect(compileScene(base, 1).links).toBeUndefined();
+
+    const rotated = link({ transform: { x: 100, y: 200, scaleX: 1, scaleY: 1, rotation: 90 } });
+    const [compiled] = compileScene(addMapElement(base, rotated, 2), 2).links!;
+    expect(compiled).toMatchObject({ kind: "stairs", target: { documentId: "crypt" } });
+    expect(compiled!.x).toBeCloseTo(0);
+    expect(compiled!.y).toBeCloseTo(200);
+    expect(compiled!.width).toBeCloseTo(100);
+    expect(compiled!.height).toBeCloseTo(50);
+
+    const hidden = addMapElement(base, link({ hidden: true }), 2);
+    expect(compileScene(hidden, 2).links).toBeUndefined();
+  });
+
+  it("is sanitized on the way in and edited in place by its own command", () => {
+    const base = createMapDocument({ id: "town", name: "Town", timestamp: 1 });
+    expect(() => addMapElement(base, link({ data: { ...link().data, label: "   " } }), 2)).toThrow(
+      "Map link label is required",
+    );
+    expect(() =>
+      addMapElement(base, link({ data: { ...link().data, kind: "chute" as never } }), 2),
+    ).toThrow("Map link kind");
+
+    const placed = addMapElement(base, link(), 2);
+    const edited = updateMapLink(
+      placed,
+      "stairs-1",
+      { ...link().data, label: " Trapdoor ", target: { documentId: "town", x: 5, y: 5 } },
+      3,
+    );
+    const element = edited.elements[0] as MapLinkElement;
+    expect(element.id).toBe("stairs-1");
+    expect(element.data.label).toBe("Trapdoor");
+    expect(element.data.target.documentId).toBe("town");
+    expect(() => updateMapLink(edited, "nope", link().data, 4)).toThrow(
+      "Unknown map element: nope",
+    );
+  });
+
+  it("finds tokens standing on the box, give or take half a square", () => {
+    // Cell (2,4) at 50px squares is centred on (125, 225): inside.
+    expect(isTokenOnMapLink(BOX, { x: 2, y: 4 }, 50)).toBe(true);
+    // Cell (3,4) is centred on (175, 225): 25px past the right edge, the slack.
+    expect(isTokenOnMapLink(BOX, { x: 3, y: 4 }, 50)).toBe(true);
+    expect(isTokenOnMapLink(BOX, { x: 4, y: 4 }, 50)).toBe(false);
+    // Through a map shifted right by 500px the same cells are far away.
+    const shifted = { x: 500, y: 0, scaleX: 1, scaleY: 1, rotation: 0 };
+    expect(isTokenOnMapLink(BOX, { x: 2, y: 4 }, 50, shifted)).toBe(false);
+    expect(isTokenOnMapLink(BOX, { x: 12, y: 4 }, 50, shifted)).toBe(true);
+  });
+
+  it("offers a link to a group only when the whole group stands on it", () => {
+    const scene = compileScene(
+      addMapElement(createMapDocument({ id: "town", name: "Town", timestamp: 1 }), link(), 2),
+      2,
+    );
+    expect(mapLinksUnder(scene, [{ x: 2, y: 4 }], 50).map((entry) => entry.id)).toEqual([
+      "stairs-1",
+    ]);
+    expect(
+      mapLinksUnder(
+        scene,
+        [
+          { x: 2, y: 4 },
+          { x: 9, y: 9 },
+        ],
+        50,
+      ),
+    ).toEqual([]);
+    expect(mapLinksUnder(scene, [], 50)).toEqual([]);
+    expect(mapLinksUnder(undefined, [{ x: 2, y: 4 }], 50)).toEqual([]);
+  });
+});
@@ -200,6 +200,42 @@ describe("measureGridDistance — degenerate input", () => {
   });
 });
 
+describe("measureGridDistance — difficult terrain", () => {
+  // A stream down column 2; everything else is ordinary ground.
+  const stream = (c: { x: number; y: number }) => (c.x === 2 ? ("difficult" as const) : undefined);
+
+  function across(from: [number, number], to: [number, number], rule: DiagonalRule) {
+    return measureGridDistance({
+      start: cell(...from),
+      end: cell(...to),
+      gridSize: GRID,
+      gridSquareSize: FEET,
+      rule,
+      terrain: stream,
+    });
+  }
+
+  it("charges the square of water twice under 5e", () => {
+    expect(across([0, 0], [4, 0], "5e")).toMatchObject({ squares: 5, feet: 25, difficult: true });
+  });
+
+  it("doubles the step that enters it under pathfinder, a 10 ft diagonal included", () => {
+    // Two diagonals, 5 + 10 ft; the second lands in the stream and costs 20.
+    expect(across([0, 0], [2, 2], "pathfinder")).toMatchObject({ squares: 5, feet: 25 });
+  });
+
+  it("charges the difficult share of the line double under euclidean", () => {
+    // One of four steps is in the stream: 4 squares become 5.
+    expect(across([0, 0], [4, 0], "euclidean")).toMatchObject({ squares: 5, difficult: true });
+  });
+
+  it("leaves a line that never enters it alone", () => {
+    const dry = across([3, 0], [6, 0], "5e");
+    expect(dry).toMatchObject({ squares: 3, feet: 15 });
+    expect(dry.difficult).toBeUndefined();
+  });
+});
+
 describe("formatMeasurement", () => {
   it("renders the readout every screen at the table shows", () => {
     expect(formatMeasurement(measure(cell(0, 0), cell(2, 2), "5e"))).toBe("2 Squares (10 ft)");
@@ -207,4 +243,16 @@ describe("formatMeasurement", () => {
       "2.8 Squares (14 ft)",
     );
   });
+
+  it("says when the number includes difficult terrain", () => {
+    expect(
+      formatMeasurement({
+        squares: 6,
+        feet: 30,
+        from: cell(0, 0),
+        to: cell(5, 0),
+        difficult: true,
+      }),
+    ).toBe("6 Squares (30 ft, difficult)");
+  });
 });
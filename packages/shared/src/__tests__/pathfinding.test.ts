@@ -0,0 +1,246 @@
+import { describe, expect, it } from "vitest";
+import {
+  compileTerrainCosts,
+  createMapDocument,
+  createTerrainMap,
+  createTerrainMovementLookup,
+  findGridPath,
+  gridCellToWorldPoint,
+  measureGridDistance,
+  segmentsIntersect,
+  type CompiledDoor,
+  type CompiledScene,
+  type CompiledWallSegment,
+  type DiagonalRule,
+  type GridPathQuery,
+  type ScenePoint,
+  setTerrainCells,
+} from "../index.js";
+
+// Grid 50 px, 5 ft squares: cell (c, r) has its centre at (50c + 25, 50r + 25).
+const GRID = { gridSize: 50, gridSquareSize: 5 };
+
+function wall(id: string, x1: number, y1: number, x2: number, y2: number): CompiledWallSegment {
+  return { id, x1, y1, x2, y2, blocksMovement: true, blocksVision: true };
+}
+
+function scene(walls: CompiledWallSegment[], doors: CompiledDoor[] = []): CompiledScene {
+  return {
+    schemaVersion: 1,
+    sourceDocumentId: "map",
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 400,
+    height: 400,
+    walls,
+    doors,
+    lights: [],
+  };
+}
+
+function path(query: Partial<GridPathQuery> & Pick<GridPathQuery, "from" | "to">) {
+  return findGridPath({ ...GRID, rule: "5e", ...query });
+}
+
+function crossesAnyWall(cells: ScenePoint[], walls: CompiledWallSegment[]): boolean {
+  return cells.slice(1).some((cell, index) => {
+    const a = gridCellToWorldPoint(50, cells[index]!);
+    const b = gridCellToWorldPoint(50, cell);
+    return walls.some((w) => segmentsIntersect(a, b, { x: w.x1, y: w.y1 }, { x: w.x2, y: w.y2 }));
+  });
+}
+
+// A wall down x=100 from well above the map to y=150: columns 1 and 2 are
+// split for rows 0-2, and row 3 is the only way round.
+const SHORT_WALL = [wall("short", 100, -200, 100, 150)];
+
+// The same line, but a 1-square doorway at row 2 and no way round.
+function doorway(state: CompiledDoor["state"]): CompiledScene {
+  return scene(
+    [wall("upper", 100, -200, 100, 100), wall("lower", 100, 150, 100, 600)],
+    [
+      {
+        id: "door",
+        x1: 100,
+        y1: 100,
+        x2: 100,
+        y2: 150,
+        state,
+        blocksMovement: true,
+        blocksVision: true,
+      },
+    ],
+  );
+}
+
+describe("findGridPath across open ground", () => {
+  it("charges exactly what the ruler measures, under every rule", () => {
+    for (const rule of ["5e", "pathfinder", "euclidean"] as DiagonalRule[]) {
+      const measured = measureGridDistance({
+        start: gridCellToWorldPoint(50, { x: 0, y: 0 }),
+        end: gridCellToWorldPoint(50, { x: 3, y: 1 }),
+        ...GRID,
+        rule,
+      });
+      // With no scene, and with a scene whose only wall is out of the way.
+      for (const withScene of [undefined, scene([wall("far", 390, 300, 390, 390)])]) {
+        const walk = path({ scene: withScene, from: { x: 0, y: 0 }, to: { x: 3, y: 1 }, rule });
+        expect(walk).toMatchObject({ squares: measured.squares, feet: measured.feet });
+      }
+    }
+  });
+
+  it("is free to stand still", () => {
+    expect(path({ from: { x: 2, y: 2 }, to: { x: 2, y: 2 } })).toEqual({
+      cells: [{ x: 2, y: 2 }],
+      squares: 0,
+      feet: 0,
+    });
+  });
+});
+
+describe("findGridPath around walls", () => {
+  it("walks round a wall the straight line crosses, and charges the walk", () => {
+    const walk = path({ scene: scene(SHORT_WALL), from: { x: 0, y: 0 }, to: { x: 3, y: 0 } });
+
+    expect(walk?.cells[0]).toEqual({ x: 0, y: 0 });
+    expect(walk?.cells.at(-1)).toEqual({ x: 3, y: 0 });
+    expect(crossesAnyWall(walk!.cells, SHORT_WALL)).toBe(false);
+    // Down to row 3, across, and back up: 7 squares, not the straight 3.
+    expect(walk).toMatchObject({ squares: 7, feet: 35 });
+  });
+
+  it("counts the detour's diagonals under the pathfinder rule", () => {
+    const walk = path({
+      scene: scene(SHORT_WALL),
+      from: { x: 0, y: 0 },
+      to: { x: 3, y: 0 },
+      rule: "pathfinder",
+    });
+    expect(walk).toMatchObject({ squares: 8, feet: 40 });
+  });
+
+  it("finds nothing when the wall has no way round", () => {
+    const sealed = scene([wall("sealed", 100, -200, 100, 600)]);
+    expect(path({ scene: sealed, from: { x: 0, y: 0 }, to: { x: 3, y: 0 } })).toBeNull();
+  });
+
+  it("will not slip diagonally between two walls that meet at a corner", () => {
+    const corner = scene([wall("down", 100, 0, 100, 100), wall("across", 0, 100, 100, 100)]);
+    const walk = path({ scene: corner, from: { x: 1, y: 1 }, to: { x: 2, y: 2 } });
+    expect(walk?.cells.length).toBeGreaterThan(2);
+  });
+
+  it("passes an open door and not a shut or locked one", () => {
+    const through = { from: { x: 0, y: 2 }, to: { x: 3, y: 2 } };
+    expect(path({ scene: doorway("open"), ...through })).toMatchObject({ squares: 3 });
+    expect(path({ scene: doorway("closed"), ...through })).toBeNull();
+    expect(path({ scene: doorway("locked"), ...through })).toBeNull();
+  });
+
+  it("follows the map transform onto the table", () => {
+    // The sealed wall dragged 200 px right now stands at world x=300.
+    const sealed = scene([wall("sealed", 100, -200, 100, 600)]);
+    const mapTransform = { x: 200, y: 0, scaleX: 1, scaleY: 1, rotation: 0 };
+    expect(
+      path({ scene: sealed, mapTransform, from: { x: 0, y: 0 }, to: { x: 3, y: 0 } }),
+    ).not.toBeNull();
+    expect(
+      path({ scene: sealed, mapTransform, from: { x: 0, y: 0 }, to: { x: 7, y: 0 } }),
+    ).toBeNull();
+  });
+});
+
+describe("findGridPath and token size", () => {
+  const through = { scene: doorway("open"), from: { x: 0, y: 2 }, to: { x: 3, y: 2 } };
+
+  it("lets Medium and Large creatures through a 5 ft doorway", () => {
+    expect(path({ ...through, size: "medium" })).not.toBeNull();
+    expect(path({ ...through, size: "large" })).not.toBeNull();
+  });
+
+  it("keeps Huge and Gargantuan creatures on their side of it", () => {
+    expect(path({ ...through, size: "huge" })).toBeNull();
+    expect(path({ ...through, size: "gargantuan" })).toBeNull();
+  });
+});
+
+describe("findGridPath with a speed budget", () => {
+  const detour = { scene: scene(SHORT_WALL), from: { x: 0, y: 0 }, to: { x: 3, y: 0 } };
+
+  it("refuses a walk longer than the budget and allows one that fits", () => {
+    expect(path({ ...detour, maxFeet: 30 })).toBeNull();
+    expect(path({ ...detour, maxFeet: 35 })).toMatchObject({ feet: 35 });
+  });
+
+  it("applies the budget on open ground too", () => {
+    expect(path({ from: { x: 0, y: 0 }, to: { x: 7, y: 0 }, maxFeet: 30 })).toBeNull();
+  });
+});
+
+describe("findGridPath over terrain", () => {
+  // Terrain painted on a document whose 50 px lattice is the table's.
+  function ground(cells: [number, number, string][]): CompiledScene {
+    const document = {
+      ...createMapDocument({ id: "map", name: "Ford", timestamp: 1 }),
+      terrain: setTerrainCells(
+        createTerrainMap(),
+        cells.map(([x, y, assetId]) => ({ x, y, assetId })),
+      ),
+    };
+    return { ...scene([]), terrain: compileTerrainCosts(document) };
+  }
+  const column = (x: number, rows: number, assetId: string) =>
+    Array.from({ length: rows }, (_, y): [number, number, string] => [x, y, assetId]);
+
+  // A stream down column 2, the length of the scene: from mid-bank, wading
+  // across is far cheaper than walking round either end.
+  const STREAM = ground(column(2, 8, "terrain:water"));
+
+  it("charges double for the square of water, matching the ruler, under every rule", () => {
+    for (const rule of ["5e", "pathfinder", "euclidean"] as DiagonalRule[]) {
+      const walk = path({ scene: STREAM, from: { x: 0, y: 3 }, to: { x: 4, y: 3 }, rule });
+      expect(walk).toMatchObject({ squares: 5, feet: 25, difficult: true });
+
+      const measured = measureGridDistance({
+        start: gridCellToWorldPoint(50, { x: 0, y: 3 }),
+        end: gridCellToWorldPoint(50, { x: 4, y: 3 }),
+        ...GRID,
+        rule,
+        terrain: createTerrainMovementLookup(STREAM.terrain, 50),
+      });
+      expect(measured).toMatchObject({ feet: 25, difficult: true });
+    }
+  });
+
+  it("steps round a puddle when going round costs no more", () => {
+    const walk = path({
+      scene: ground([[2, 0, "terrain:water"]]),
+      from: { x: 0, y: 0 },
+      to: { x: 4, y: 0 },
+    });
+    expect(walk).toMatchObject({ squares: 4, feet: 20 });
+    expect(walk?.difficult).toBeUndefined();
+  });
+
+  it("walks round impassable ground, and never onto it", () => {
+    // Lava down column 2 with a gap at the bottom row: through the gap is
+    // three squares down and three back up.
+    const flow = ground(column(2, 7, "terrain:lava"));
+    const walk = path({ scene: flow, from: { x: 0, y: 4 }, to: { x: 4, y: 4 } });
+    expect(walk).toMatchObject({ squares: 6, feet: 30 });
+    expect(walk?.cells).toContainEqual({ x: 2, y: 7 });
+    expect(path({ scene: flow, from: { x: 0, y: 4 }, to: { x: 2, y: 3 } })).toBeNull();
+  });
+
+  it("keeps a Large body's whole footprint off impassable ground", () => {
+    // Lava along row 1. A Medium body stands beside it on row 0; a Large one
+    // standing there would overlap it.
+    const ledge = ground(
+      Array.from({ length: 8 }, (_, x): [number, number, string] => [x, 1, "terrain:lava"]),
+    );
+    const along = { scene: ledge, from: { x: 0, y: 0 }, to: { x: 5, y: 0 } };
+    expect(path({ ...along, size: "medium" })).toMatchObject({ squares: 5 });
+    expect(path({ ...along, size: "large" })).toBeNull();
+  });
+});
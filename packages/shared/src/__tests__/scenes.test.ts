@@ -0,0 +1,17 @@
+// Scene names — the one field of a scene a client types in, so the server,
+// the session loader and the DM menu must agree on what a usable one is.
+
+import { describe, expect, it } from "vitest";
+import { MAX_SCENE_NAME_LENGTH, sanitizeSceneName } from "../scenes.js";
+
+describe("sanitizeSceneName", () => {
+  it("trims a usable name", () => {
+    expect(sanitizeSceneName("  The Sunken Crypt ")).toBe("The Sunken Crypt");
+  });
+
+  it("rejects blank, overlong and non-string names", () => {
+    expect(sanitizeSceneName("   ")).toBeNull();
+    expect(sanitizeSceneName("x".repeat(MAX_SCENE_NAME_LENGTH + 1))).toBeNull();
+    expect(sanitizeSceneName(42)).toBeNull();
+  });
+});
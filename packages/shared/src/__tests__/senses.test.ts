@@ -0,0 +1,260 @@
+import { describe, expect, it } from "vitest";
+import {
+  coerceSenseProfile,
+  coerceTokenSenses,
+  computeLitViewerVision,
+  computeSceneLighting,
+  computeSensedAreas,
+  getVisionBlockingSegments,
+  isPointLitVisible,
+  isPointTokenPerceived,
+  senseProfileKey,
+  type CompiledScene,
+  type SenseProfile,
+  type ViewerVisionInput,
+} from "../index.js";
+
+// ============================================================================
+// GOLDEN TABLE
+// ============================================================================
+// One 400x400 scene split by a wall at x=200, one viewer at (100,200), four
+// probes. Grid 50 px, 5 ft squares: 10 ft is 100 px. Each row is one rule from
+// the table at the top of senses.ts; if a row changes, a rule changed, and
+// both the fog and the server filter changed with it.
+//
+//   A (120,200) —  20 px,  2 ft, same room
+//   B (100,330) — 130 px, 13 ft, same room
+//   C (240,200) — 140 px, 14 ft, BEHIND the wall
+//   D (100, 20) — 180 px, 18 ft, same room
+const PROBES = {
+  A: { x: 120, y: 200 },
+  B: { x: 100, y: 330 },
+  C: { x: 240, y: 200 },
+  D: { x: 100, y: 20 },
+} as const;
+type Probe = keyof typeof PROBES;
+
+const AMBIENT = { bright: 1, dark: 0 } as const;
+
+interface GoldenRow {
+  name: string;
+  ambient: keyof typeof AMBIENT;
+  radiusFeet?: number;
+  senses?: SenseProfile;
+  /** What the viewer SEES: map, drawings, props, tokens. */
+  visible: Probe[];
+  /** Tokens the viewer perceives — `visible` plus tremorsense. */
+  perceived: Probe[];
+}
+
+const GOLDEN: GoldenRow[] = [
+  {
+    name: "no senses in daylight: walls are the only limit",
+    ambient: "bright",
+    visible: ["A", "B", "D"],
+    perceived: ["A", "B", "D"],
+  },
+  { name: "no senses in the dark: nothing", ambient: "dark", visible: [], perceived: [] },
+  {
+    name: "darkvision sees the dark out to its range, not through walls",
+    ambient: "dark",
+    senses: { darkvision: 15 },
+    visible: ["A", "B"],
+    perceived: ["A", "B"],
+  },
+  {
+    name: "darkvision does not lift a daylight sight limit",
+    ambient: "bright",
+    radiusFeet: 5,
+    senses: { darkvision: 15 },
+    visible: ["A"],
+    perceived: ["A"],
+  },
+  {
+    name: "darkvision needs eyes",
+    ambient: "dark",
+    radiusFeet: 0,
+    senses: { darkvision: 15 },
+    visible: [],
+    perceived: [],
+  },
+  {
+    name: "darkvision and a short explicit radius: the union",
+    ambient: "dark",
+    radiusFeet: 5,
+    senses: { darkvision: 15 },
+    visible: ["A", "B"],
+    perceived: ["A", "B"],
+  },
+  {
+    name: "truesight sees the dark out to its range",
+    ambient: "dark",
+    senses: { truesight: 15 },
+    visible: ["A", "B"],
+    perceived: ["A", "B"],
+  },
+  {
+    name: "blindsight works for a blinded token",
+    ambient: "dark",
+    radiusFeet: 0,
+    senses: { blindsight: 15 },
+    visible: ["A", "B"],
+    perceived: ["A", "B"],
+  },
+  {
+    name: "blindsight reaches past a daylight sight limit",
+    ambient: "bright",
+    radiusFeet: 5,
+    senses: { blindsight: 15 },
+    visible: ["A", "B"],
+    perceived: ["A", "B"],
+  },
+  {
+    name: "tremorsense feels tokens through the wall, and shows no map",
+    ambient: "dark",
+    senses: { tremorsense: 15 },
+    visible: [],
+    perceived: ["A", "B", "C"],
+  },
+  {
+    name: "tremorsense adds the far side of the wall even in daylight",
+    ambient: "bright",
+    senses: { tremorsense: 15 },
+    visible: ["A", "B", "D"],
+    perceived: ["A", "B", "C", "D"],
+  },
+];
+
+function scene(ambient: number): CompiledScene {
+  return {
+    schemaVersion: 1,
+    sourceDocumentId: "map",
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 400,
+    height: 400,
+    walls: [
+      { id: "divider", x1: 200, y1: 0, x2: 200, y2: 400, blocksMovement: true, blocksVision: true },
+    ],
+    doors: [],
+    lights: [],
+    ...(ambient < 1 ? { ambient } : {}),
+  };
+}
+
+function input(compiled: CompiledScene, radiusFeet?: number): ViewerVisionInput {
+  return {
+    origin: { x: 100, y: 200 },
+    radiusFeet,
+    segments: getVisionBlockingSegments(compiled),
+    bounds: { width: compiled.width, height: compiled.height },
+    gridSize: 50,
+    gridSquareSize: 5,
+  };
+}
+
+describe("sense profiles — golden table", () => {
+  for (const row of GOLDEN) {
+    it(row.name, () => {
+      const compiled = scene(AMBIENT[row.ambient]);
+      const vision = computeLitViewerVision(
+        input(compiled, row.radiusFeet),
+        computeSceneLighting(compiled, getVisionBlockingSegments(compiled)),
+        row.senses,
+      );
+      const probes = Object.keys(PROBES) as Probe[];
+      expect(probes.filter((probe) => isPointLitVisible(vision, PROBES[probe]))).toEqual(
+        row.visible,
+      );
+      expect(probes.filter((probe) => isPointTokenPerceived(vision, PROBES[probe]))).toEqual(
+        row.perceived,
+      );
+    });
+  }
+});
+
+describe("computeSensedAreas", () => {
+  const compiled = scene(0);
+
+  it("renders darkvision as dim and truesight as bright", () => {
+    const { areas } = computeSensedAreas(
+      input(compiled),
+      { darkvision: 10, truesight: 10 },
+      "dark",
+      false,
+    );
+    expect(areas.map((area) => [area.kind, area.level])).toEqual([
+      ["darkvision", "dim"],
+      ["truesight", "bright"],
+    ]);
+  });
+
+  it("adds no wall-bounded area when sight already reaches the walls", () => {
+    const sensed = computeSensedAreas(
+      input(compiled),
+      { blindsight: 10, tremorsense: 10 },
+      "bright",
+      true,
+    );
+    expect(sensed.areas).toEqual([]);
+    expect(sensed.tremor).not.toBeNull();
+  });
+
+  it("is empty for a token with no senses", () => {
+    expect(computeSensedAreas(input(compiled), undefined, "dark", false)).toEqual({
+      areas: [],
+      tremor: null,
+    });
+  });
+});
+
+describe("coerceSenseProfile", () => {
+  it("keeps known senses and clamps them to the vision ceiling", () => {
+    expect(coerceSenseProfile({ darkvision: 60, truesight: 5000 })).toEqual({
+      darkvision: 60,
+      truesight: 1000,
+    });
+  });
+
+  it("drops unknown keys, junk ranges and non-positive ranges", () => {
+    expect(
+      coerceSenseProfile({ darkvision: "60", blindsight: 0, tremorsense: -5, xray: 30 }),
+    ).toBeUndefined();
+    expect(coerceSenseProfile({ blindsight: Number.NaN, truesight: 30 })).toEqual({
+      truesight: 30,
+    });
+  });
+
+  it("reads anything that is not a plain object as no senses", () => {
+    expect(coerceSenseProfile(null)).toBeUndefined();
+    expect(coerceSenseProfile([60])).toBeUndefined();
+    expect(coerceSenseProfile(60)).toBeUndefined();
+  });
+});
+
+describe("coerceTokenSenses", () => {
+  it("keeps the identity of tokens that need no change", () => {
+    const clean = { id: "a", senses: { darkvision: 60 } };
+    const bare: { id: string; senses?: SenseProfile } = { id: "b" };
+    const [first, second] = coerceTokenSenses([clean, bare]);
+    expect(first).toBe(clean);
+    expect(second).toBe(bare);
+  });
+
+  it("strips a profile that coerces to nothing, and repairs one that coerces to something", () => {
+    const [emptied, repaired] = coerceTokenSenses([
+      { id: "a", senses: { darkvision: -1 } },
+      { id: "b", senses: { darkvision: 60, bogus: 1 } as SenseProfile },
+    ]);
+    expect("senses" in emptied!).toBe(false);
+    expect(repaired!.senses).toEqual({ darkvision: 60 });
+  });
+});
+
+describe("senseProfileKey", () => {
+  it("is empty for no senses and moves when any range moves", () => {
+    expect(senseProfileKey(undefined)).toBe("");
+    expect(senseProfileKey({ darkvision: 60 })).not.toBe(senseProfileKey({ darkvision: 30 }));
+    expect(senseProfileKey({ darkvision: 60 })).not.toBe(senseProfileKey({ truesight: 60 }));
+  });
+});
@@ -0,0 +1,156 @@
+// Terrain movement — the compile side. Pins what lands in the scene's cost
+// grid (painted kinds, area elements, the harsher rule winning), that a map
+// with no such ground compiles exactly as before, and that the lookup finds a
+// cell through the live map transform the way walls are placed.
+
+import { describe, expect, it } from "vitest";
+import {
+  compileScene,
+  createMapDocument,
+  createTerrainMap,
+  createTerrainMovementLookup,
+  deriveMapElements,
+  setTerrainCells,
+  type MapAreaElement,
+  type MapDocument,
+  type TerrainMovement,
+} from "../index.js";
+import { sanitizeElement } from "../mapStudioValidation.js";
+
+// Document grid 50 px with no offset: document cell (c, r) is the table cell
+// (c, r) while the map sits untransformed at the origin.
+function document(overrides: Partial<MapDocument> = {}): MapDocument {
+  return { ...createMapDocument({ id: "map", name: "Ford", timestamp: 1 }), ...overrides };
+}
+
+function painted(cells: [number, number, string][]) {
+  return setTerrainCells(
+    createTerrainMap(),
+    cells.map(([x, y, assetId]) => ({ x, y, assetId })),
+  );
+}
+
+function area(
+  movement: TerrainMovement,
+  points: [number, number][],
+  overrides: Partial<MapAreaElement> = {},
+): MapAreaElement {
+  return {
+    id: `area-${movement}`,
+    layerId: "walls",
+    type: "area",
+    locked: false,
+    hidden: false,
+    transform: { x: 0, y: 0, scaleX: 1, scaleY: 1, rotation: 0 },
+    data: { points: points.map(([x, y]) => ({ x, y })), movement },
+    ...overrides,
+  };
+}
+
+function lookupFor(doc: MapDocument) {
+  return createTerrainMovementLookup(compileScene(doc, 1).terrain, 50)!;
+}
+
+describe("compiling terrain movement", () => {
+  it("marks painted water difficult and lava impassable, and leaves floors alone", () => {
+    const at = lookupFor(
+      document({
+        terrain: painted([
+          [1, 1, "terrain:water"],
+          [2, 1, "terrain:lava"],
+          [3, 1, "terrain:stone-floor"],
+        ]),
+      }),
+    );
+
+    expect(at({ x: 1, y: 1 })).toBe("difficult");
+    expect(at({ x: 2, y: 1 })).toBe("impassable");
+    expect(at({ x: 3, y: 1 })).toBeUndefined();
+    expect(at({ x: 0, y: 0 })).toBeUndefined();
+  });
+
+  it("compiles a map with no such ground exactly as before", () => {
+    const scene = compileScene(document({ terrain: painted([[0, 0, "terrain:grass"]]) }), 1);
+    expect("terrain" in scene).toBe(false);
+  });
+
+  it("marks every cell whose centre an area covers", () => {
+    // A 100 x 100 px square from (50, 50): cells (1,1) to (2,2).
+    const at = lookupFor(
+      document({
+        elements: [
+          area("difficult", [
+            [50, 50],
+            [150, 50],
+            [150, 150],
+            [50, 150],
+          ]),
+        ],
+      }),
+    );
+
+    expect([at({ x: 1, y: 1 }), at({ x: 2, y: 2 })]).toEqual(["difficult", "difficult"]);
+    expect([at({ x: 0, y: 1 }), at({ x: 3, y: 2 })]).toEqual([undefined, undefined]);
+  });
+
+  it("lets the harsher rule win where paint and an area overlap", () => {
+    const chasm = area("impassable", [
+      [0, 0],
+      [100, 0],
+      [0, 100],
+    ]);
+    const at = lookupFor(
+      document({ terrain: painted([[0, 0, "terrain:water"]]), elements: [chasm] }),
+    );
+    expect(at({ x: 0, y: 0 })).toBe("impassable");
+  });
+
+  it("ignores a hidden area", () => {
+    const hidden = area(
+      "difficult",
+      [
+        [0, 0],
+        [100, 0],
+        [0, 100],
+      ],
+      { hidden: true },
+    );
+    expect(compileScene(document({ elements: [hidden] }), 1).terrain).toBeUndefined();
+  });
+
+  it("follows the live map transform", () => {
+    const costs = compileScene(document({ terrain: painted([[0, 0, "terrain:lava"]]) }), 1).terrain;
+    // The map dragged two squares right: its cell (0,0) is now table cell (2,0).
+    const moved = createTerrainMovementLookup(costs, 50, {
+      x: 100,
+      y: 0,
+      scaleX: 1,
+      scaleY: 1,
+      rotation: 0,
+    })!;
+    expect(moved({ x: 0, y: 0 })).toBeUndefined();
+    expect(moved({ x: 2, y: 0 })).toBe("impassable");
+  });
+});
+
+describe("the area element", () => {
+  const triangle: [number, number][] = [
+    [0, 0],
+    [100, 0],
+    [0, 100],
+  ];
+
+  it("needs three points and a known movement rule", () => {
+    expect(() => sanitizeElement(area("difficult", triangle.slice(0, 2)))).toThrow(/3 points/);
+    expect(() => sanitizeElement(area("swampy" as TerrainMovement, triangle))).toThrow(
+      /difficult or impassable/,
+    );
+    const clean = sanitizeElement(area("difficult", triangle)) as MapAreaElement;
+    expect(clean.data.points).toEqual(area("difficult", triangle).data.points);
+  });
+
+  it("never reaches players as scenery", () => {
+    const elements = deriveMapElements(document({ elements: [area("impassable", triangle)] }));
+    expect(elements).toBeUndefined();
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import {
+  coerceTokenLight,
+  coerceTokenLights,
+  compileTokenLights,
+  computeLitViewerVision,
+  computeSceneLighting,
+  getVisionBlockingSegments,
+  isPointLitVisible,
+  TOKEN_LIGHT_PRESETS,
+  tokenLightId,
+  tokenLightsKey,
+  withTokenLights,
+  type CompiledScene,
+  type TokenLight,
+} from "../index.js";
+
+// A dark 400x400 scene split by a wall at x=200. Grid 50 px, 5 ft squares,
+// so a 40 ft torch reaches 400 px and its bright core 200 px.
+function darkScene(): CompiledScene {
+  return {
+    schemaVersion: 1,
+    sourceDocumentId: "map",
+    sourceRevision: 1,
+    compiledAt: 1,
+    width: 400,
+    height: 400,
+    walls: [
+      { id: "divider", x1: 200, y1: 0, x2: 200, y2: 400, blocksMovement: true, blocksVision: true },
+    ],
+    doors: [],
+    lights: [],
+    ambient: 0,
+  };
+}
+
+const SPACE = { gridSize: 50, gridSquareSize: 5 };
+
+describe("compileTokenLights", () => {
+  it("puts a lit token's light at its cell centre with its range in document units", () => {
+    const [light] = compileTokenLights(
+      [{ id: "hero", x: 1, y: 3, light: TOKEN_LIGHT_PRESETS.torch }],
+      SPACE,
+    );
+    expect(light).toEqual({
+      id: tokenLightId("hero"),
+      x: 75,
+      y: 175,
+      radius: 400,
+      color: TOKEN_LIGHT_PRESETS.torch.color,
+      intensity: 1,
+      castsShadows: true,
+    });
+  });
+
+  it("skips tokens without a light, and a light with no grid to measure it against", () => {
+    expect(compileTokenLights([{ id: "dark", x: 0, y: 0 }], SPACE)).toEqual([]);
+    expect(
+      compileTokenLights([{ id: "hero", x: 0, y: 0, light: TOKEN_LIGHT_PRESETS.torch }], {
+        gridSize: 0,
+        gridSquareSize: 5,
+      }),
+    ).toEqual([]);
+  });
+
+  it("follows the map transform onto the document", () => {
+    const [light] = compileTokenLights(
+      [{ id: "hero", x: 1, y: 1, light: TOKEN_LIGHT_PRESETS.candle }],
+      { ...SPACE, mapTransform: { x: 25, y: 25, scaleX: 2, scaleY: 2, rotation: 0 } },
+    );
+    expect(light).toMatchObject({ x: 25, y: 25, radius: 50 });
+  });
+});
+
+describe("a carried light in a dark scene", () => {
+  function visionFor(tokenCell: { x: number; y: number }, viewerCell: { x: number; y: number }) {
+    const scene = withTokenLights(
+      darkScene(),
+      compileTokenLights([{ id: "hero", ...tokenCell, light: TOKEN_LIGHT_PRESETS.candle }], SPACE),
+    );
+    const segments = getVisionBlockingSegments(scene);
+    return computeLitViewerVision(
+      {
+        origin: { x: viewerCell.x * 50 + 25, y: viewerCell.y * 50 + 25 },
+        segments,
+        bounds: { width: scene.width, height: scene.height },
+        ...SPACE,
+      },
+      computeSceneLighting(scene, segments),
+    );
+  }
+
+  it("lights the ground around the token wherever it moves", () => {
+    const before = visionFor({ x: 1, y: 1 }, { x: 1, y: 6 });
+    expect(isPointLitVisible(before, { x: 75, y: 75 })).toBe(true);
+    expect(isPointLitVisible(before, { x: 75, y: 275 })).toBe(false);
+
+    const after = visionFor({ x: 1, y: 5 }, { x: 1, y: 6 });
+    expect(isPointLitVisible(after, { x: 75, y: 75 })).toBe(false);
+    expect(isPointLitVisible(after, { x: 75, y: 275 })).toBe(true);
+  });
+
+  it("stops at walls like any other light", () => {
+    const vision = visionFor({ x: 3, y: 4 }, { x: 5, y: 4 });
+    expect(isPointLitVisible(vision, { x: 175, y: 225 })).toBe(false);
+    expect(vision.lit).toEqual([]);
+  });
+});
+
+describe("withTokenLights", () => {
+  it("returns the same scene when no token carries a light", () => {
+    const scene = darkScene();
+    expect(withTokenLights(scene, [])).toBe(scene);
+  });
+});
+
+describe("coerceTokenLight", () => {
+  it("keeps a valid light and clamps its range to the vision ceiling", () => {
+    expect(coerceTokenLight({ kind: "lantern", radiusFeet: 60, color: "#fff" })).toEqual({
+      kind: "lantern",
+      radiusFeet: 60,
+      color: "#fff",
+    });
+    expect(coerceTokenLight({ kind: "custom", radiusFeet: 5000, color: "#fff" })?.radiusFeet).toBe(
+      1000,
+    );
+  });
+
+  it("repairs an unknown kind and a missing colour rather than dropping the light", () => {
+    expect(coerceTokenLight({ kind: "sun", radiusFeet: 20 })).toEqual({
+      kind: "custom",
+      radiusFeet: 20,
+      color: "#ffd27f",
+    });
+  });
+
+  it("reads no usable range, or anything that is not an object, as no light", () => {
+    expect(coerceTokenLight({ kind: "torch", radiusFeet: 0, color: "#fff" })).toBeUndefined();
+    expect(coerceTokenLight({ kind: "torch", radiusFeet: "40" })).toBeUndefined();
+    expect(coerceTokenLight(null)).toBeUndefined();
+    expect(coerceTokenLight([40])).toBeUndefined();
+  });
+});
+
+describe("coerceTokenLights", () => {
+  it("keeps the identity of tokens that need no change, and strips a dead light", () => {
+    const lit = { id: "a", light: TOKEN_LIGHT_PRESETS.torch };
+    const broken = {
+      id: "b",
+      light: { kind: "torch", radiusFeet: -1, color: "#fff" } as TokenLight,
+    };
+    const [first, second] = coerceTokenLights([lit, broken]);
+    expect(first).toBe(lit);
+    expect("light" in second!).toBe(false);
+  });
+});
+
+describe("tokenLightsKey", () => {
+  it("moves when a lit token moves, but not when an unlit one does", () => {
+    const lit = { id: "a", x: 1, y: 1, light: TOKEN_LIGHT_PRESETS.torch };
+    const unlit = { id: "b", x: 1, y: 1 };
+    const key = tokenLightsKey([lit, unlit]);
+    expect(tokenLightsKey([{ ...lit, x: 2 }, unlit])).not.toBe(key);
+    expect(tokenLightsKey([lit, { ...unlit, x: 2 }])).toBe(key);
+    expect(tokenLightsKey([unlit])).toBe("");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import {
+  coerceTokenSpeed,
+  coerceTokenSpeeds,
+  TOKEN_SPEED_DEFAULT_FEET,
+  tokenSpeedFeet,
+} from "../index.js";
+
+describe("tokenSpeedFeet", () => {
+  it("reads a token with no speed of its own as the default", () => {
+    expect(tokenSpeedFeet({})).toBe(TOKEN_SPEED_DEFAULT_FEET);
+    expect(tokenSpeedFeet({ speed: 0 })).toBe(0);
+  });
+});
+
+describe("coerceTokenSpeed", () => {
+  it("keeps zero, clamps the absurd and drops the unusable", () => {
+    expect(coerceTokenSpeed(0)).toBe(0);
+    expect(coerceTokenSpeed(40)).toBe(40);
+    expect(coerceTokenSpeed(99999)).toBe(500);
+    expect(coerceTokenSpeed(-5)).toBeUndefined();
+    expect(coerceTokenSpeed("30")).toBeUndefined();
+    expect(coerceTokenSpeed(Number.NaN)).toBeUndefined();
+  });
+});
+
+describe("coerceTokenSpeeds", () => {
+  it("keeps the identity of tokens that need no change, and strips a bad speed", () => {
+    const fast = { id: "a", speed: 40 };
+    const broken = { id: "b", speed: -1 };
+    const [first, second] = coerceTokenSpeeds([fast, broken]);
+    expect(first).toBe(fast);
+    expect("speed" in second!).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { coerceTurnTimer, turnSecondsLeft, TURN_TIMER_LIMITS } from "../index.js";
+
+describe("coerceTurnTimer", () => {
+  it("keeps a well-formed setting", () => {
+    expect(coerceTurnTimer({ seconds: 60, onExpire: "advance" })).toEqual({
+      seconds: 60,
+      onExpire: "advance",
+    });
+  });
+
+  it("treats a length outside the limits, or not a whole number, as no timer", () => {
+    expect(
+      coerceTurnTimer({ seconds: TURN_TIMER_LIMITS.MIN_SECONDS - 1, onExpire: "notify" }),
+    ).toBeUndefined();
+    expect(
+      coerceTurnTimer({ seconds: TURN_TIMER_LIMITS.MAX_SECONDS + 1, onExpire: "notify" }),
+    ).toBeUndefined();
+    expect(coerceTurnTimer({ seconds: 30.5, onExpire: "notify" })).toBeUndefined();
+    expect(coerceTurnTimer("60")).toBeUndefined();
+    expect(coerceTurnTimer(null)).toBeUndefined();
+  });
+
+  it("falls back to notifying the DM for an unknown expiry, never to advancing", () => {
+    expect(coerceTurnTimer({ seconds: 30, onExpire: "explode" })).toEqual({
+      seconds: 30,
+      onExpire: "notify",
+    });
+  });
+});
+
+describe("turnSecondsLeft", () => {
+  it("rounds up, so the last second reads 1 until it is over", () => {
+    expect(turnSecondsLeft(10_000, 9_001)).toBe(1);
+    expect(turnSecondsLeft(10_000, 10_000)).toBe(0);
+    expect(turnSecondsLeft(10_000, 12_000)).toBe(0);
+    expect(turnSecondsLeft(10_000, 0)).toBe(10);
+  });
+});
@@ -0,0 +1,95 @@
+// ============================================================================
+// ATTACKS — named actions, and what rolling one records
+// ============================================================================
+// A character or NPC carries its actions as data: "Scimitar +4, 1d6+2
+// slashing". Rolling one (`roll-attack`) is two server rolls settled together
+// — the d20 plus the to-hit bonus, and the damage formula — recorded as ONE
+// entry in the dice log that names the target. The damage is not taken off
+// the target by the roll itself unless the DM asked for that; otherwise it
+// waits on the log entry until the DM applies it (`apply-attack-damage`), at
+// most once.
+//
+// Attacks arrive from the wire, the state file, session files and bestiary
+// imports, so every one is rebuilt by `coerceNamedAttack` before it is kept.
+
+import { parseDiceFormula } from "./dice.js";
+import type { DiceRoll } from "./index.js";
+
+/** One line of a stat block's actions: "Scimitar +4, 1d6+2 slashing". */
+export interface NamedAttack {
+  name: string;
+  /** Added to the d20 attack roll. */
+  toHit: number;
+  /** Dice notation, e.g. "1d6+2". */
+  damage: string;
+  /** Free text ("slashing", "fire"); absent when the stat block gives none. */
+  damageType?: string;
+}
+
+/** Bounds on a character's attack list; every list rides in every snapshot. */
+export const ATTACK_LIMITS = {
+  ATTACKS_MAX: 12,
+  NAME_MAX: 40,
+  DAMAGE_TYPE_MAX: 20,
+  TO_HIT_ABS_MAX: 30,
+  FORMULA_MAX: 128,
+} as const;
+
+/**
+ * What the dice log keeps about an attack, on the DiceRoll whose own formula
+ * and total are the to-hit roll. Names are snapshotted at roll time, like the
+ * roller's, so a later rename does not rewrite the log.
+ */
+export interface AttackRollDetail {
+  attackerId: string;
+  attackerName: string;
+  attackName: string;
+  targetId: string;
+  targetName: string;
+  damage: {
+    formula: string;
+    total: number;
+    breakdown: DiceRoll["breakdown"];
+    damageType?: string;
+  };
+  /** Set once the damage has been taken off the target; it is never applied twice. */
+  applied?: boolean;
+}
+
+function text(value: unknown, max: number): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed.slice(0, max) : undefined;
+}
+
+/**
+ * Rebuild an untrusted attack, or refuse it. One whose damage cannot be rolled
+ * is refused rather than kept as text: the roll would otherwise fail at the
+ * table, mid-fight, instead of when the stat block was written.
+ */
+export function coerceNamedAttack(value: unknown): NamedAttack | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const name = text(raw.name, ATTACK_LIMITS.NAME_MAX);
+  const damage = text(raw.damage, ATTACK_LIMITS.FORMULA_MAX);
+  if (!name || !damage || !parseDiceFormula(damage).ok) return null;
+  const toHit =
+    typeof raw.toHit === "number" && Number.isFinite(raw.toHit) ? Math.round(raw.toHit) : 0;
+  const attack: NamedAttack = {
+    name,
+    toHit: Math.min(ATTACK_LIMITS.TO_HIT_ABS_MAX, Math.max(-ATTACK_LIMITS.TO_HIT_ABS_MAX, toHit)),
+    damage,
+  };
+  const damageType = text(raw.damageType, ATTACK_LIMITS.DAMAGE_TYPE_MAX);
+  if (damageType) attack.damageType = damageType;
+  return attack;
+}
+
+/** Coerce a list of attacks: unusable entries are dropped, and the list is capped. */
+export function coerceNamedAttacks(value: unknown): NamedAttack[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .slice(0, ATTACK_LIMITS.ATTACKS_MAX)
+    .map(coerceNamedAttack)
+    .filter((attack): attack is NamedAttack => attack !== null);
+}
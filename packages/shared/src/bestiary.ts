@@ -0,0 +1,172 @@
+// ============================================================================
+// BESTIARY — reusable NPC templates with stat blocks
+// ============================================================================
+// A room keeps a list of monster templates the DM fills in once and stamps out
+// every session: "Goblin, AC 15, 2d6 hp, 30 ft, darkvision 60, Scimitar +4".
+// Creating NPCs from one (`create-npc-from-template`) rolls each copy's hit
+// points on the server, so the formula here is notation only — parsed by the
+// same parseDiceFormula that gates the dice tray, and never rolled in shared.
+//
+// Templates arrive from three untrusted places — the wire, the state file, and
+// an imported bestiary file a DM found on a forum — and all three go through
+// `coerceMonsterTemplate`. It rebuilds a template field by field rather than
+// passing the object through, so nothing unknown rides into room state, and
+// it refuses (null) rather than repairs the two fields a template is useless
+// without: a name, and an HP formula the roller can actually roll.
+
+import { coerceNamedAttacks, ATTACK_LIMITS, type NamedAttack } from "./attacks.js";
+import { DEFENSE_LIMITS } from "./defenses.js";
+import { parseDiceFormula } from "./dice.js";
+import { coerceSenseProfile, type SenseProfile } from "./senses.js";
+import { coerceTokenSpeed } from "./tokenSpeed.js";
+
+export interface MonsterTemplate {
+  id: string;
+  name: string;
+  ac: number;
+  /** Dice notation rolled once per created NPC, e.g. "2d6" or "7" for a fixed value. */
+  hpFormula: string;
+  /** Walking speed in FEET, applied to the token when it is placed. Absent = the default. */
+  speed?: number;
+  /** Special senses in FEET, applied to the token when it is placed. */
+  senses?: SenseProfile;
+  initiativeModifier: number;
+  attacks: NamedAttack[];
+  portrait?: string;
+  tokenImage?: string;
+  notes?: string;
+}
+
+/** A template as the DM sends it: no id yet means "add", an id means "replace". */
+export type MonsterTemplateInput = Omit<MonsterTemplate, "id"> & { id?: string };
+
+/**
+ * What "Export bestiary" downloads and "Import bestiary" reads back. The kind
+ * tag lets the importer refuse a session file or a map document dropped on the
+ * wrong button with a useful message, instead of importing nothing silently.
+ */
+export interface BestiaryFile {
+  kind: "herobyte-bestiary";
+  version: 1;
+  templates: MonsterTemplate[];
+}
+
+export const BESTIARY_FILE_KIND = "herobyte-bestiary";
+
+/**
+ * Bounds on what a template may hold. Generous for any printed stat block;
+ * they exist because every template rides in the DM's snapshot on every
+ * broadcast, so an unbounded import is an unbounded payload.
+ */
+export const BESTIARY_LIMITS = {
+  TEMPLATES_MAX: 200,
+  /** Matches the NPC name ceiling, so a template's name is always a legal NPC name. */
+  NAME_MAX: 50,
+  AC_MAX: DEFENSE_LIMITS.AC_MAX,
+  MODIFIER_ABS_MAX: 30,
+  ATTACKS_MAX: ATTACK_LIMITS.ATTACKS_MAX,
+  ATTACK_NAME_MAX: ATTACK_LIMITS.NAME_MAX,
+  DAMAGE_TYPE_MAX: ATTACK_LIMITS.DAMAGE_TYPE_MAX,
+  NOTES_MAX: 2000,
+  /** Image URLs or upload references — room for a long URL, not for an inline data URL. */
+  IMAGE_MAX: 2048,
+} as const;
+
+function text(value: unknown, max: number): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed.slice(0, max) : undefined;
+}
+
+/** Images are references, so one too long to keep is dropped rather than cut into a broken URL. */
+function image(value: unknown): string | undefined {
+  const reference = text(value, Infinity);
+  return reference && reference.length <= BESTIARY_LIMITS.IMAGE_MAX ? reference : undefined;
+}
+
+function wholeNumber(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+function isRollable(formula: string): boolean {
+  return parseDiceFormula(formula).ok;
+}
+
+/**
+ * Rebuild an untrusted template, or refuse it. `id` is kept only when it is a
+ * non-empty string — the server assigns one to a new template, so callers that
+ * need an id check for it themselves.
+ */
+export function coerceMonsterTemplate(value: unknown): MonsterTemplate | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const name = text(raw.name, BESTIARY_LIMITS.NAME_MAX);
+  const hpFormula = text(raw.hpFormula, 128);
+  if (!name || !hpFormula || !isRollable(hpFormula)) return null;
+
+  const template: MonsterTemplate = {
+    id: text(raw.id, 128) ?? "",
+    name,
+    ac: wholeNumber(raw.ac, 0, BESTIARY_LIMITS.AC_MAX, 10),
+    hpFormula,
+    initiativeModifier: wholeNumber(
+      raw.initiativeModifier,
+      -BESTIARY_LIMITS.MODIFIER_ABS_MAX,
+      BESTIARY_LIMITS.MODIFIER_ABS_MAX,
+      0,
+    ),
+    attacks: coerceNamedAttacks(raw.attacks),
+  };
+  const speed = coerceTokenSpeed(raw.speed);
+  if (speed !== undefined) template.speed = speed;
+  const senses = coerceSenseProfile(raw.senses);
+  if (senses) template.senses = senses;
+  const portrait = image(raw.portrait);
+  if (portrait) template.portrait = portrait;
+  const tokenImage = image(raw.tokenImage);
+  if (tokenImage) template.tokenImage = tokenImage;
+  const notes = text(raw.notes, BESTIARY_LIMITS.NOTES_MAX);
+  if (notes) template.notes = notes;
+  return template;
+}
+
+/**
+ * Coerce a stored bestiary (state file, session file): templates that fail
+ * coercion or carry no id are dropped, duplicate ids keep the first, and the
+ * list is capped. A non-array reads as an empty bestiary.
+ */
+export function coerceBestiary(value: unknown): MonsterTemplate[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const templates: MonsterTemplate[] = [];
+  for (const entry of value) {
+    const template = coerceMonsterTemplate(entry);
+    if (!template || !template.id || seen.has(template.id)) continue;
+    seen.add(template.id);
+    templates.push(template);
+    if (templates.length === BESTIARY_LIMITS.TEMPLATES_MAX) break;
+  }
+  return templates;
+}
+
+/** The export file for a room's bestiary. */
+export function buildBestiaryFile(templates: MonsterTemplate[]): BestiaryFile {
+  return { kind: BESTIARY_FILE_KIND, version: 1, templates };
+}
+
+/**
+ * Read the templates out of a parsed bestiary file, or say why not. Also
+ * accepts a bare array of templates, which is what people hand-write.
+ */
+export function readBestiaryFile(
+  value: unknown,
+): { ok: true; templates: unknown[] } | { ok: false; error: string } {
+  if (Array.isArray(value)) return { ok: true, templates: value };
+  if (!value || typeof value !== "object") return { ok: false, error: "not a bestiary file" };
+  const raw = value as Record<string, unknown>;
+  if (raw.kind !== BESTIARY_FILE_KIND || !Array.isArray(raw.templates)) {
+    return { ok: false, error: "not a bestiary file" };
+  }
+  return { ok: true, templates: raw.templates };
+}
@@ -0,0 +1,135 @@
+// ============================================================================
+// CHAT COMMANDS — the slash grammar of the chat box
+// ============================================================================
+// A line that starts with "/" is a command, not something said:
+//
+//   /r 2d6+3, /roll       roll for the table (it lands in the roll log)
+//   /gmr d20, /gmroll     roll that only you and the DM see
+//   /w Alice text         whisper to one player, by name
+//   /me draws a sword     an emote: "Alice draws a sword"
+//   /ooc text             out of character
+//   /desc text            DM narration, with no name on it (DM only)
+//
+// and "//" escapes a line that should start with a slash. Everything else is
+// said as typed.
+//
+// The wire does not change: the client sends `{ t: "chat", text }` exactly as
+// the player typed it and the SERVER reads the command, so the author of a
+// roll or a whisper is stamped from the connection like any other chat line.
+// This file is the grammar both halves agree on — the server to act on it,
+// the chat box to offer completions from CHAT_COMMANDS.
+
+import type { DiceVisibility } from "./dice.js";
+
+/** How a said line is drawn. Absent is ordinary speech. */
+export type ChatStyle = "emote" | "ooc" | "desc";
+
+/** One command, as the chat box offers it. */
+export interface ChatCommandInfo {
+  /** The name completion fills in. */
+  name: string;
+  /** Other names that do the same; "r" for "roll". */
+  aliases: string[];
+  usage: string;
+  description: string;
+  /** Refused by the server for anyone else; the chat box hides it from them. */
+  dmOnly?: boolean;
+}
+
+export const CHAT_COMMANDS: ChatCommandInfo[] = [
+  { name: "r", aliases: ["roll"], usage: "/r 2d6+3", description: "Roll dice for the table" },
+  {
+    name: "gmr",
+    aliases: ["gmroll"],
+    usage: "/gmr d20",
+    description: "Roll dice only you and the DM see",
+  },
+  { name: "w", aliases: ["whisper"], usage: "/w Alice text", description: "Whisper to a player" },
+  { name: "me", aliases: ["emote"], usage: "/me draws a sword", description: "Act it out" },
+  { name: "ooc", aliases: [], usage: "/ooc text", description: "Speak out of character" },
+  {
+    name: "desc",
+    aliases: [],
+    usage: "/desc text",
+    description: "Narrate as the DM",
+    dmOnly: true,
+  },
+];
+
+/**
+ * What a chat line asks for. A whisper's `body` is still "Alice text": who
+ * Alice is depends on who is at the table, which is resolveWhisperTarget's
+ * question rather than the grammar's.
+ */
+export type ChatCommand =
+  | { kind: "say"; text: string; style?: ChatStyle }
+  | { kind: "roll"; formula: string; visibility: DiceVisibility }
+  | { kind: "whisper"; body: string }
+  | { kind: "desc"; text: string }
+  | { kind: "error"; error: string };
+
+/** The command a typed name means, by name or alias, any case. */
+export function findChatCommand(name: string): ChatCommandInfo | undefined {
+  const wanted = name.toLowerCase();
+  return CHAT_COMMANDS.find(
+    (command) => command.name === wanted || command.aliases.includes(wanted),
+  );
+}
+
+/** Read one chat line. Never throws: a bad command is an "error" for the sender. */
+export function parseChatCommand(text: string): ChatCommand {
+  const line = text.trim();
+  if (!line.startsWith("/")) return { kind: "say", text: line };
+  if (line.startsWith("//")) return { kind: "say", text: line.slice(1) };
+
+  const match = /^\/(\S+)\s*([\s\S]*)$/.exec(line);
+  const command = findChatCommand(match?.[1] ?? "");
+  if (!command) return { kind: "error", error: `Unknown command "${line.split(/\s/)[0]}".` };
+
+  const rest = (match?.[2] ?? "").trim();
+  if (!rest) return { kind: "error", error: `Usage: ${command.usage}` };
+
+  switch (command.name) {
+    case "r":
+      return { kind: "roll", formula: rest, visibility: "public" };
+    case "gmr":
+      return { kind: "roll", formula: rest, visibility: "dm" };
+    case "w":
+      return { kind: "whisper", body: rest };
+    case "me":
+      return { kind: "say", text: rest, style: "emote" };
+    case "ooc":
+      return { kind: "say", text: rest, style: "ooc" };
+    default:
+      return { kind: "desc", text: rest };
+  }
+}
+
+/**
+ * Who "/w Alice text" is for: `"Sir Bram" text` names them in quotes, and
+ * otherwise the longest player name the body starts with wins, so "Al" and
+ * "Alice" at one table cannot be confused. Case does not matter. Undefined
+ * when no one matches or nothing is left to say.
+ */
+export function resolveWhisperTarget<T extends { name: string }>(
+  body: string,
+  players: T[],
+): { player: T; text: string } | undefined {
+  const quoted = /^"([^"]+)"\s+([\s\S]+)$/.exec(body);
+  if (quoted) {
+    const wanted = quoted[1].trim().toLowerCase();
+    const player = players.find((candidate) => candidate.name.trim().toLowerCase() === wanted);
+    return player ? { player, text: quoted[2].trim() } : undefined;
+  }
+
+  const lower = body.toLowerCase();
+  let best: { player: T; text: string } | undefined;
+  for (const player of players) {
+    const name = player.name.trim();
+    if (!name || (best && best.player.name.trim().length >= name.length)) continue;
+    if (!lower.startsWith(name.toLowerCase()) || !/\s/.test(body.charAt(name.length))) continue;
+    const text = body.slice(name.length).trim();
+    if (text) best = { player, text };
+  }
+  return best;
+}
@@ -0,0 +1,153 @@
+// ============================================================================
+// COMBAT LOG — what happened in a fight, round by round
+// ============================================================================
+// The initiative tracker used to know only whose turn it was. The server now
+// also counts rounds and writes one event per thing worth remembering: a turn
+// starting, hit points changing, a condition landing, a combatant dropping.
+// The log lives in room state (persisted like initiative, so a restart
+// mid-fight keeps it), starts afresh at `start-combat`, and is kept after
+// `end-combat` so the table can export it.
+//
+// Events name characters as they were at the time (`name`), so a later rename
+// or deletion does not rewrite history — the same rule chat author names
+// follow. An NPC's numbers are still a secret in the redacted HP modes, so an
+// hp-changed event says which way HP went (`change`) as well as the numbers,
+// and the recipient filter can drop the numbers and keep the line.
+
+export const COMBAT_EVENT_KINDS = [
+  "combat-started",
+  "turn-started",
+  "hp-changed",
+  "condition-added",
+  "defeated",
+  "combat-ended",
+] as const;
+
+export type CombatEventKind = (typeof COMBAT_EVENT_KINDS)[number];
+
+/** Bounds on the log; it rides in every snapshot. */
+export const COMBAT_LOG_LIMITS = {
+  EVENTS_MAX: 500,
+  ROUND_MAX: 10000,
+  NAME_MAX: 128,
+} as const;
+
+export interface CombatEvent {
+  id: string;
+  kind: CombatEventKind;
+  /** The round it happened in, from 1. */
+  round: number;
+  /** Epoch ms. */
+  at: number;
+  /** Who it happened to; absent for combat-started and combat-ended. */
+  characterId?: string;
+  /** Their name at the time. */
+  name?: string;
+  /** Set when the subject is an NPC — the recipient filter's cue. */
+  npc?: boolean;
+  /** hp-changed: which way. Kept when the numbers are redacted. */
+  change?: "damage" | "healing";
+  /** hp-changed: hit points before and after. */
+  from?: number;
+  to?: number;
+  /** condition-added: the condition's display name. */
+  condition?: string;
+}
+
+const KINDS: ReadonlySet<string> = new Set(COMBAT_EVENT_KINDS);
+
+function wholeNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) ? value : undefined;
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === "string" && value.length > 0
+    ? value.slice(0, COMBAT_LOG_LIMITS.NAME_MAX)
+    : undefined;
+}
+
+/** A round number read from a file, or undefined when it is not one. */
+export function coerceCombatRound(value: unknown): number | undefined {
+  const round = wholeNumber(value);
+  return round !== undefined && round >= 1
+    ? Math.min(round, COMBAT_LOG_LIMITS.ROUND_MAX)
+    : undefined;
+}
+
+/**
+ * Rebuild a log read from a state or session file: malformed events are
+ * dropped, and only the newest EVENTS_MAX are kept.
+ */
+export function coerceCombatLog(value: unknown): CombatEvent[] {
+  if (!Array.isArray(value)) return [];
+  const events: CombatEvent[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object") continue;
+    const raw = entry as Record<string, unknown>;
+    const round = wholeNumber(raw.round);
+    if (typeof raw.id !== "string" || typeof raw.kind !== "string" || !KINDS.has(raw.kind)) {
+      continue;
+    }
+    if (round === undefined || round < 1 || typeof raw.at !== "number") continue;
+    const event: CombatEvent = {
+      id: raw.id,
+      kind: raw.kind as CombatEventKind,
+      round: Math.min(round, COMBAT_LOG_LIMITS.ROUND_MAX),
+      at: raw.at,
+    };
+    const characterId = text(raw.characterId);
+    const name = text(raw.name);
+    const condition = text(raw.condition);
+    const from = wholeNumber(raw.from);
+    const to = wholeNumber(raw.to);
+    if (characterId) event.characterId = characterId;
+    if (name) event.name = name;
+    if (raw.npc === true) event.npc = true;
+    if (raw.change === "damage" || raw.change === "healing") event.change = raw.change;
+    if (from !== undefined) event.from = from;
+    if (to !== undefined) event.to = to;
+    if (condition) event.condition = condition;
+    events.push(event);
+  }
+  return events.slice(-COMBAT_LOG_LIMITS.EVENTS_MAX);
+}
+
+/** One event as a sentence: "Goblin 1: HP 7 → 2.", "Aria’s turn." */
+export function combatEventText(event: CombatEvent): string {
+  const who = event.name ?? "Someone";
+  switch (event.kind) {
+    case "combat-started":
+      return "Combat begins.";
+    case "combat-ended":
+      return "Combat ends.";
+    case "turn-started":
+      return `${who}’s turn.`;
+    case "hp-changed":
+      if (event.from !== undefined && event.to !== undefined) {
+        return `${who}: HP ${event.from} → ${event.to}.`;
+      }
+      return event.change === "healing" ? `${who} is healed.` : `${who} takes damage.`;
+    case "condition-added":
+      return `${who} is ${event.condition ?? "affected"}.`;
+    case "defeated":
+      return `${who} is defeated.`;
+  }
+}
+
+/**
+ * The log as a Markdown document: a heading per round, a bullet per event,
+ * in the order they happened.
+ */
+export function combatLogMarkdown(events: CombatEvent[]): string {
+  const lines = ["# Combat log"];
+  let round: number | undefined;
+  for (const event of events) {
+    if (event.round !== round) {
+      round = event.round;
+      lines.push("", `## Round ${round}`, "");
+    }
+    lines.push(`- ${combatEventText(event)}`);
+  }
+  if (events.length === 0) lines.push("", "_Nothing happened._");
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,91 @@
+// ============================================================================
+// COMBAT MODES — who takes a turn together
+// ============================================================================
+// Every combatant used to take a turn of their own. Some tables run group
+// initiative instead (all the goblins act at once) or side initiative (the
+// party, then the monsters). The room's `combatMode` picks one:
+//
+//   - "individual": one turn per combatant, as before.
+//   - "group": NPCs created together in one batch (`create-npc` or
+//     `create-npc-from-template` with a count above 1) share an
+//     `initiativeGroup` id, roll once and act as one turn. PCs and NPCs made
+//     one at a time still act alone.
+//   - "side": every PC acts in one turn and every NPC in another; whichever
+//     side has the best roll goes first.
+//
+// A shared turn is still held by ONE character id (`currentTurnCharacterId`,
+// the first of them in the order), so the snapshot, the chime and the combat
+// log keep working unchanged; `sharesTurn` is how anyone asks "is it this
+// character's turn too?".
+
+import type { Character } from "./index.js";
+import { skipsTurn } from "./combatantStatus.js";
+
+export const COMBAT_MODES = ["individual", "group", "side"] as const;
+
+export type CombatMode = (typeof COMBAT_MODES)[number];
+
+export const COMBAT_MODE_LABELS: Record<CombatMode, string> = {
+  individual: "Individual",
+  group: "Group",
+  side: "Side",
+};
+
+/** A stored or received mode; anything unrecognised is the default. */
+export function coerceCombatMode(value: unknown): CombatMode {
+  return COMBAT_MODES.includes(value as never) ? (value as CombatMode) : "individual";
+}
+
+/** What the grouping reads off a character. */
+export type TurnSharer = Pick<
+  Character,
+  "id" | "type" | "initiativeGroup" | "initiativeHeld" | "status"
+>;
+
+/**
+ * The turn `character` acts in under `mode`: its own id, its batch, or its
+ * side. Two characters with the same key take their turn together.
+ */
+export function turnGroupKey(character: TurnSharer, mode: CombatMode | undefined): string {
+  if (mode === "side") return `side:${character.type}`;
+  if (mode === "group" && character.initiativeGroup) return `group:${character.initiativeGroup}`;
+  return character.id;
+}
+
+/**
+ * Does `character` act on the turn `holder` holds? Anyone holding their
+ * action stays out of it until they resume, and anyone the turn skips
+ * (combatantStatus.ts) stays out of it for good: the dead goblin does not
+ * move with the living ones.
+ */
+export function sharesTurn(
+  character: TurnSharer,
+  holder: TurnSharer,
+  mode: CombatMode | undefined,
+): boolean {
+  if (character.id === holder.id) return true;
+  return (
+    !character.initiativeHeld &&
+    !skipsTurn(character) &&
+    turnGroupKey(character, mode) === turnGroupKey(holder, mode)
+  );
+}
+
+/**
+ * One stop per turn for the turn to walk, in the order each group first
+ * appears. A group is represented by its first member, except the group whose
+ * turn it is, which keeps `currentId` — so moving from that stop is measured
+ * from where the turn actually is.
+ */
+export function turnStops<T extends TurnSharer>(
+  order: T[],
+  mode: CombatMode | undefined,
+  currentId?: string,
+): T[] {
+  const stops = new Map<string, T>();
+  for (const character of order) {
+    const key = turnGroupKey(character, mode);
+    if (!stops.has(key) || character.id === currentId) stops.set(key, character);
+  }
+  return [...stops.values()];
+}
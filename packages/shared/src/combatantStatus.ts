@@ -0,0 +1,65 @@
+// ============================================================================
+// COMBATANT STATUS — who is still in the fight
+// ============================================================================
+// A beaten monster used to have one way off the board: deletion, which took
+// its loot notes and its place in the tracker with it. A character's `status`
+// now says how it left the fight instead, and the record stays:
+//
+//   - absent (or "active"): fighting.
+//   - "unconscious": down at 0 HP. A PC drops to it by itself when its HP
+//     reaches 0 and gets up again when healed; an NPC only when the DM says.
+//   - "dead", "fled": the DM's call, and only the DM undoes them — healing a
+//     corpse does not raise it.
+//
+// The turn skips anyone dead, fled or knocked out, with one exception: an
+// unconscious PC keeps their turn, because the start of it is when they roll
+// death saves. "Remove all defeated" deletes defeated NPCs only; a PC is
+// never swept off the board with the monsters.
+
+import type { Character } from "./index.js";
+
+export const CHARACTER_STATUSES = ["active", "unconscious", "dead", "fled"] as const;
+
+export type CharacterStatus = (typeof CHARACTER_STATUSES)[number];
+
+export const CHARACTER_STATUS_LABELS: Record<CharacterStatus, string> = {
+  active: "Active",
+  unconscious: "Unconscious",
+  dead: "Dead",
+  fled: "Fled",
+};
+
+/** The mark drawn on a defeated combatant's token and tracker row. */
+export const CHARACTER_STATUS_ICONS: Record<Exclude<CharacterStatus, "active">, string> = {
+  unconscious: "💤",
+  dead: "💀",
+  fled: "🏃",
+};
+
+/** What the status rules read off a character — the domain and wire shapes both fit. */
+export type StatusBearer = Pick<Character, "type" | "status">;
+
+/** Out of the fight: unconscious, dead or fled. */
+export function isDefeated(character: Pick<Character, "status">): boolean {
+  return character.status !== undefined && character.status !== "active";
+}
+
+/** Does the turn walk pass `character` by? */
+export function skipsTurn(character: StatusBearer): boolean {
+  if (character.status === "unconscious") return character.type === "npc";
+  return isDefeated(character);
+}
+
+/**
+ * The status a character should have at its current HP: a PC at 0 goes down,
+ * and an unconscious PC brought above 0 gets up. Anything else — an NPC, the
+ * dead, the fled — keeps the status it has.
+ */
+export function statusAtHp(
+  character: StatusBearer & Pick<Character, "hp">,
+): CharacterStatus | undefined {
+  if (character.type !== "pc") return character.status;
+  if (character.hp <= 0 && !isDefeated(character)) return "unconscious";
+  if (character.hp > 0 && character.status === "unconscious") return undefined;
+  return character.status;
+}
@@ -0,0 +1,136 @@
+// ============================================================================
+// CONDITIONS — what is affecting a character, and for how long
+// ============================================================================
+// `statusEffects` is a bag of labels: nothing knows what "poisoned" means or
+// when it stops. A condition is a 5e condition (or a named custom one) with an
+// optional source and an optional clock, and the SERVER runs the clock: when
+// `next-turn` hands the turn on, every condition anchored to the turn that
+// ended or the turn that began loses a round, and one that reaches zero is
+// removed and announced in chat.
+//
+// The clock is `rounds` plus `endsAt`, the turn boundary it ticks on:
+//   - rounds, no endsAt  → ticks at the start of the bearer's own turn;
+//   - endsAt, no rounds  → one round: "until the end of X's next turn";
+//   - neither            → lasts until someone removes it.
+// Going BACK a turn never gives a round back — the tracker cannot tell a
+// correction from a replay, and an expired condition has already been
+// announced.
+//
+// Conditions arrive from the wire and from state and session files, so each
+// is rebuilt by `coerceCondition` before it is kept.
+
+export const CONDITION_KEYS = [
+  "blinded",
+  "charmed",
+  "deafened",
+  "exhaustion",
+  "frightened",
+  "grappled",
+  "incapacitated",
+  "invisible",
+  "paralyzed",
+  "petrified",
+  "poisoned",
+  "prone",
+  "restrained",
+  "stunned",
+  "unconscious",
+] as const;
+
+/** One of the 5e conditions, or "custom" for anything else (named by `label`). */
+export type ConditionKey = (typeof CONDITION_KEYS)[number] | "custom";
+
+/** Which edge of a turn a condition's clock ticks on. */
+export type TurnBoundary = "start" | "end";
+
+export interface Condition {
+  key: ConditionKey;
+  /** The name of a custom condition; ignored for the 5e ones. */
+  label?: string;
+  /** Who or what caused it: "Hold Person", "Goblin 2's net". */
+  source?: string;
+  /** Rounds left; absent for a condition with no clock. */
+  rounds?: number;
+  /** The turn boundary the clock ticks on; the bearer's turn start when absent. */
+  endsAt?: { characterId: string; boundary: TurnBoundary };
+}
+
+/** Bounds on a character's conditions; every list rides in every snapshot. */
+export const CONDITION_LIMITS = {
+  CONDITIONS_MAX: 16,
+  LABEL_MAX: 32,
+  SOURCE_MAX: 64,
+  ROUNDS_MAX: 100,
+  ID_MAX: 128,
+} as const;
+
+const KEYS: ReadonlySet<string> = new Set([...CONDITION_KEYS, "custom"]);
+
+function text(value: unknown, max: number): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed.slice(0, max) : undefined;
+}
+
+/** "Poisoned", or a custom condition's own label. */
+export function conditionName(condition: Pick<Condition, "key" | "label">): string {
+  if (condition.key === "custom") return condition.label ?? "Custom";
+  return condition.key.charAt(0).toUpperCase() + condition.key.slice(1);
+}
+
+/**
+ * Rebuild an untrusted condition, or refuse it. A custom condition needs a
+ * label — an unnamed one would be a badge nobody can read.
+ */
+export function coerceCondition(value: unknown): Condition | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.key !== "string" || !KEYS.has(raw.key)) return null;
+  const condition: Condition = { key: raw.key as ConditionKey };
+
+  if (condition.key === "custom") {
+    const label = text(raw.label, CONDITION_LIMITS.LABEL_MAX);
+    if (!label) return null;
+    condition.label = label;
+  }
+  const source = text(raw.source, CONDITION_LIMITS.SOURCE_MAX);
+  if (source) condition.source = source;
+
+  const endsAt = raw.endsAt as Record<string, unknown> | null | undefined;
+  const anchorId = endsAt ? text(endsAt.characterId, CONDITION_LIMITS.ID_MAX) : undefined;
+  const boundary = endsAt?.boundary;
+  if (anchorId && (boundary === "start" || boundary === "end")) {
+    condition.endsAt = { characterId: anchorId, boundary };
+  }
+
+  if (typeof raw.rounds === "number" && Number.isFinite(raw.rounds) && raw.rounds >= 1) {
+    condition.rounds = Math.min(CONDITION_LIMITS.ROUNDS_MAX, Math.round(raw.rounds));
+  } else if (condition.endsAt) {
+    condition.rounds = 1;
+  }
+  return condition;
+}
+
+/** Coerce a whole list, dropping what cannot be kept and anything past the cap. */
+export function coerceConditions(value: unknown): Condition[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map(coerceCondition)
+    .filter((condition): condition is Condition => condition !== null)
+    .slice(0, CONDITION_LIMITS.CONDITIONS_MAX);
+}
+
+/**
+ * Does this condition's clock tick when `characterId`'s turn reaches
+ * `boundary`? `bearerId` is whoever has the condition.
+ */
+export function conditionTicksAt(
+  condition: Condition,
+  bearerId: string,
+  characterId: string,
+  boundary: TurnBoundary,
+): boolean {
+  if (condition.rounds === undefined) return false;
+  const anchor = condition.endsAt ?? { characterId: bearerId, boundary: "start" };
+  return anchor.characterId === characterId && anchor.boundary === boundary;
+}
@@ -0,0 +1,109 @@
+// ============================================================================
+// DEATH SAVES — a PC on 0 HP, between the floor and the grave
+// ============================================================================
+// A PC that drops to 0 HP goes unconscious (combatantStatus.ts) and starts
+// rolling death saves: a d20 at the start of each of their turns, 10 or more
+// a success, under 10 a failure. Three successes and they are stable, still
+// down but no longer dying; three failures and they are dead. A natural 20
+// brings them straight back up on 1 HP, and a natural 1 counts as two
+// failures.
+//
+// The tally lives on the character as `deathSaves`, and only while they are
+// down: the server clears it whenever they get up or leave "unconscious" some
+// other way, so a PC knocked down twice in one fight starts the second count
+// from nothing, as the rule says.
+//
+// The d20 is the server's (roll-death-save). The owner or the DM may also set
+// the tally by hand — for the table that rolls real dice — and that path only
+// records the count: it never kills or revives anyone on its own.
+
+import type { StatusBearer } from "./combatantStatus.js";
+
+/** Successes and failures needed to settle it, either way. */
+export const DEATH_SAVE_LIMIT = 3;
+
+/** Lowest natural d20 that counts as a success. */
+export const DEATH_SAVE_DC = 10;
+
+export interface DeathSaves {
+  successes: number;
+  failures: number;
+}
+
+/**
+ * What one roll did. "stable" and "dead" are the rolls that reached three;
+ * "revived" is the natural 20. A natural 1 that does not kill is a "failure".
+ */
+export type DeathSaveResult = "success" | "failure" | "stable" | "dead" | "revived";
+
+export const DEATH_SAVE_RESULT_LABELS: Record<DeathSaveResult, string> = {
+  success: "Success",
+  failure: "Failure",
+  stable: "Stable",
+  dead: "Dead",
+  revived: "Revived",
+};
+
+const NO_SAVES: DeathSaves = { successes: 0, failures: 0 };
+
+/**
+ * Whose tally the tracker shows: an unconscious PC on 0 HP (an HP the
+ * snapshot redacted never is). That includes a stable one, whose tally is
+ * what says they are stable; whether there is anything left to roll is
+ * isStable's question.
+ */
+export function tracksDeathSaves(character: StatusBearer & { hp?: number }): boolean {
+  return (
+    character.type === "pc" &&
+    character.hp !== undefined &&
+    character.hp <= 0 &&
+    character.status === "unconscious"
+  );
+}
+
+/** Three successes: down, but no longer dying, so there is nothing left to roll. */
+export function isStable(saves: DeathSaves | undefined): boolean {
+  return (saves?.successes ?? 0) >= DEATH_SAVE_LIMIT;
+}
+
+/**
+ * Count one natural d20 into the tally. The returned tally is capped at three
+ * of each; the caller acts on the result (1 HP for "revived", the "dead"
+ * status for "dead").
+ */
+export function applyDeathSave(
+  saves: DeathSaves | undefined,
+  natural: number,
+): { saves: DeathSaves; result: DeathSaveResult } {
+  const current = saves ?? NO_SAVES;
+  if (natural >= 20) return { saves: { ...NO_SAVES }, result: "revived" };
+
+  if (natural >= DEATH_SAVE_DC) {
+    const successes = Math.min(DEATH_SAVE_LIMIT, current.successes + 1);
+    return {
+      saves: { successes, failures: current.failures },
+      result: successes >= DEATH_SAVE_LIMIT ? "stable" : "success",
+    };
+  }
+
+  const failures = Math.min(DEATH_SAVE_LIMIT, current.failures + (natural <= 1 ? 2 : 1));
+  return {
+    saves: { successes: current.successes, failures },
+    result: failures >= DEATH_SAVE_LIMIT ? "dead" : "failure",
+  };
+}
+
+function tally(value: unknown): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+  return Math.min(DEATH_SAVE_LIMIT, Math.max(0, Math.round(value)));
+}
+
+/** A tally from the wire or a file, each count rounded into 0–3; undefined when either is not a number. */
+export function coerceDeathSaves(value: unknown): DeathSaves | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const raw = value as Record<string, unknown>;
+  const successes = tally(raw.successes);
+  const failures = tally(raw.failures);
+  if (successes === undefined || failures === undefined) return undefined;
+  return { successes, failures };
+}
@@ -0,0 +1,83 @@
+// ============================================================================
+// DEFENSES — armor class, saving throws, and what a roll against them scored
+// ============================================================================
+// A character may carry an AC and saving throw bonuses. A roll that names a
+// target (an attack, or a plain dice-roll with `targetId`) is resolved
+// against the target's AC ON THE SERVER, and the log records only the verdict
+// — hit, miss or crit — never the AC it was compared with. That matters
+// because an NPC's defenses are redacted from players exactly as its hit
+// points are (monsterHpDisplay): a roll that carried the number would put
+// back what the snapshot took out.
+
+import type { DiceRoll } from "./index.js";
+
+export const SAVING_THROW_ABILITIES = ["str", "dex", "con", "int", "wis", "cha"] as const;
+
+export type SavingThrowAbility = (typeof SAVING_THROW_ABILITIES)[number];
+
+/** Bonus per ability; an ability that is absent has no listed bonus. */
+export type SavingThrows = Partial<Record<SavingThrowAbility, number>>;
+
+export const DEFENSE_LIMITS = {
+  AC_MIN: 0,
+  AC_MAX: 50,
+  SAVE_ABS_MAX: 30,
+} as const;
+
+/** The verdict on a targeted d20 roll. A natural 1 always misses. */
+export type RollOutcome = "hit" | "miss" | "crit";
+
+/** Who a plain dice-roll was made against; snapshotted like the roller's name. */
+export interface RollTarget {
+  id: string;
+  name: string;
+}
+
+function wholeNumber(value: unknown, min: number, max: number): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+/** An AC from the wire or a file, rounded and clamped; undefined when it is not a number. */
+export function coerceArmorClass(value: unknown): number | undefined {
+  return wholeNumber(value, DEFENSE_LIMITS.AC_MIN, DEFENSE_LIMITS.AC_MAX);
+}
+
+/**
+ * Saving throw bonuses from the wire or a file. Unknown abilities and
+ * non-numbers are dropped; undefined when nothing usable is left, so an empty
+ * object never rides in a snapshot.
+ */
+export function coerceSavingThrows(value: unknown): SavingThrows | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const raw = value as Record<string, unknown>;
+  const saves: SavingThrows = {};
+  for (const ability of SAVING_THROW_ABILITIES) {
+    const bonus = wholeNumber(
+      raw[ability],
+      -DEFENSE_LIMITS.SAVE_ABS_MAX,
+      DEFENSE_LIMITS.SAVE_ABS_MAX,
+    );
+    if (bonus !== undefined) saves[ability] = bonus;
+  }
+  return Object.keys(saves).length > 0 ? saves : undefined;
+}
+
+/**
+ * The face the roll's d20 kept, or undefined when there is no single kept
+ * d20 to read — "2d20 + 3" is not an attack roll, and "d6 + 2" is no roll at
+ * all to resolve against an AC.
+ */
+export function naturalD20(breakdown: DiceRoll["breakdown"]): number | undefined {
+  const d20s = breakdown.filter((term) => term.die === "d20");
+  if (d20s.length !== 1) return undefined;
+  const kept = d20s[0]?.rolls;
+  return kept && kept.length === 1 ? kept[0] : undefined;
+}
+
+/** 5e attack resolution: a natural 20 crits, a natural 1 misses, otherwise meet or beat AC. */
+export function resolveRollOutcome(total: number, natural: number, ac: number): RollOutcome {
+  if (natural === 20) return "crit";
+  if (natural === 1) return "miss";
+  return total >= ac ? "hit" : "miss";
+}
@@ -16,6 +16,19 @@
 // invitation to roll on the client again, and the second caller is the one
 // that reintroduces the bug. The evaluator lives in
 // apps/server/src/domains/dice/roller.ts and has exactly one caller.
+//
+// Beyond NdX and flat modifiers, a die term may carry suffixes, in any order
+// but each at most once:
+//
+//   kh3 / k3, kl1   keep the highest (lowest) N — "4d6kh3" for stats
+//   dh1, dl1        drop the highest (lowest) N; never a bare "d1", since
+//                   "2d6d4" has always meant 2d6 plus a d4
+//   !               explode: every maximum face adds another die
+//   r1, ro1, r<1    reroll faces of N or lower until they clear it, or once
+//
+// and "dF" is a fudge die: -1, 0 or +1, with no suffixes. Rerolls and
+// explosions roll dice the formula did not count, so they share one budget
+// per roll (EXTRA_DICE_MAX); once it is spent, the roll settles as it stands.
 
 /** Every die the roller understands. The UI's palette is derived from this. */
 export type DieType = "d4" | "d6" | "d8" | "d10" | "d12" | "d20" | "d100";
@@ -58,6 +71,21 @@ export type DiceRollMode = "normal" | "advantage" | "disadvantage";
  */
 export type DiceVisibility = "public" | "dm" | "self";
 
+/** The fudge die's name in notation and in a roll's breakdown. */
+export const FUDGE_DIE = "dF";
+
+/** Which dice of a term count: keep or drop the highest or lowest `count`. */
+export interface DiceSelection {
+  rule: "kh" | "kl" | "dh" | "dl";
+  count: number;
+}
+
+/** Reroll faces of `atOrBelow` or lower — until they clear it, or just `once`. */
+export interface DiceReroll {
+  atOrBelow: number;
+  once: boolean;
+}
+
 /**
  * One term of a parsed formula.
  *
@@ -65,11 +93,35 @@ export type DiceVisibility = "public" | "dm" | "self";
  * a term that can only be added would refuse it. Modifiers keep their sign in
  * `value` instead — asymmetric, but it matches how the roller adds them and
  * how the client's build strip already models a modifier.
+ *
+ * `select`, `explode` and `reroll` are present only when the formula asked
+ * for them, so a plain "2d6" parses to exactly the term it always did.
  */
 export type DiceTerm =
-  | { kind: "die"; die: DieType; qty: number; sign: 1 | -1 }
+  | {
+      kind: "die";
+      die: DieType;
+      qty: number;
+      sign: 1 | -1;
+      select?: DiceSelection;
+      explode?: true;
+      reroll?: DiceReroll;
+    }
+  | { kind: "fudge"; qty: number; sign: 1 | -1 }
   | { kind: "mod"; value: number };
 
+/**
+ * One die as it landed, for a term with suffixes. A face with no flags
+ * counted; `rerolled` was replaced by the face after it, `exploded` was added
+ * by a maximum before it, and `discarded` was left out by keep/drop.
+ */
+export interface RolledDie {
+  value: number;
+  rerolled?: true;
+  exploded?: true;
+  discarded?: true;
+}
+
 /**
  * Ceilings. These bound the SERVER's work and the snapshot's size, so they are
  * enforced at parse time — the one gate every formula passes through.
@@ -84,6 +136,8 @@ export const DICE_LIMITS = {
   QTY_MAX: 100,
   TOTAL_DICE_MAX: 100,
   MODIFIER_ABS_MAX: 9999,
+  /** Dice rolled beyond the formula's own by explosions and rerolls, per roll. */
+  EXTRA_DICE_MAX: 100,
 } as const;
 
 export type DiceParseResult = { ok: true; terms: DiceTerm[] } | { ok: false; error: string };
@@ -95,7 +149,48 @@ export type DiceParseResult = { ok: true; terms: DiceTerm[] } | { ok: false; err
  * garbage. Contiguity is checked by the caller rather than by anchoring,
  * because /g + exec is what reports WHERE a formula stopped making sense.
  */
-const TERM_PATTERN = /([+-]?)(?:(\d*)[dD](\d+)|(\d+))/g;
+const TERM_PATTERN = /([+-]?)(?:(\d*)d(\d+|f)((?:k[hl]?\d+|d[hl]\d+|!|ro?<?\d+)*)|(\d+))/gi;
+
+/** One die-term suffix; the term pattern has already vouched that they tile. */
+const SUFFIX_PATTERN = /(k[hl]?|d[hl])(\d+)|(!)|(ro?)<?(\d+)/gi;
+
+/**
+ * Read a die term's suffixes onto it, or say why they do not fit its dice:
+ * keeping more dice than were thrown, dropping all of them, or rerolling a
+ * range that covers every face (which would never stop).
+ */
+function applySuffixes(
+  term: Extract<DiceTerm, { kind: "die" }>,
+  suffixes: string,
+): string | undefined {
+  SUFFIX_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SUFFIX_PATTERN.exec(suffixes)) !== null) {
+    const [, rawRule, rawCount, bang, rawReroll, rawBelow] = match;
+    if (rawRule !== undefined) {
+      if (term.select) return "a die term takes one keep or drop";
+      const lower = rawRule.toLowerCase();
+      const rule = (lower === "k" ? "kh" : lower) as DiceSelection["rule"];
+      const count = Number(rawCount);
+      if (count < 1) return "keep and drop counts must be at least 1";
+      if (rule.startsWith("k") ? count > term.qty : count >= term.qty) {
+        return `cannot ${rule.startsWith("k") ? "keep" : "drop"} ${count} of ${term.qty} dice`;
+      }
+      term.select = { rule, count };
+    } else if (bang !== undefined) {
+      if (term.explode) return "a die term explodes once";
+      term.explode = true;
+    } else if (rawReroll !== undefined) {
+      if (term.reroll) return "a die term takes one reroll";
+      const atOrBelow = Number(rawBelow);
+      if (atOrBelow < 1 || atOrBelow >= DIE_FACES[term.die]) {
+        return `a ${term.die} can only reroll 1 to ${DIE_FACES[term.die] - 1}`;
+      }
+      term.reroll = { atOrBelow, once: rawReroll.length === 2 };
+    }
+  }
+  return undefined;
+}
 
 function fail(error: string): DiceParseResult {
   return { ok: false, error };
@@ -108,7 +203,8 @@ function dieTypeForFaces(faces: number): DieType | undefined {
 /**
  * Parse dice notation into terms, or say why it cannot.
  *
- * Accepts `d20`, `2d6+3`, `1d20 + 5 - 1d4`, `-2`, and whitespace anywhere.
+ * Accepts `d20`, `2d6+3`, `1d20 + 5 - 1d4`, `-2`, `4d6kh3`, `3d6!`, `2d6ro2`,
+ * `4dF`, and whitespace anywhere.
  * Rejects everything else — including anything that would make the server do
  * more work than a table could possibly need.
  *
@@ -145,12 +241,13 @@ export function parseDiceFormula(input: unknown): DiceParseResult {
     }
     cursor = TERM_PATTERN.lastIndex;
 
-    const [, rawSign, rawQty, rawFaces, rawMod] = match;
+    const [, rawSign, rawQty, rawFaces, suffixes, rawMod] = match;
     const sign: 1 | -1 = rawSign === "-" ? -1 : 1;
 
     if (rawFaces !== undefined) {
-      const die = dieTypeForFaces(Number(rawFaces));
-      if (!die) return fail(`unsupported die: d${rawFaces}`);
+      const fudge = rawFaces.toLowerCase() === "f";
+      const die = fudge ? undefined : dieTypeForFaces(Number(rawFaces));
+      if (!fudge && !die) return fail(`unsupported die: d${rawFaces}`);
 
       const qty = rawQty === "" ? 1 : Number(rawQty);
       if (!Number.isSafeInteger(qty) || qty < 1) return fail("dice quantity must be at least 1");
@@ -163,7 +260,15 @@ export function parseDiceFormula(input: unknown): DiceParseResult {
         return fail(`formula rolls more than ${DICE_LIMITS.TOTAL_DICE_MAX} dice`);
       }
 
-      terms.push({ kind: "die", die, qty, sign });
+      if (!die) {
+        if (suffixes) return fail("fudge dice take no keep, drop, explode or reroll");
+        terms.push({ kind: "fudge", qty, sign });
+      } else {
+        const term: DiceTerm = { kind: "die", die, qty, sign };
+        const problem = suffixes ? applySuffixes(term, suffixes) : undefined;
+        if (problem) return fail(problem);
+        terms.push(term);
+      }
     } else {
       const magnitude = Number(rawMod);
       if (!Number.isSafeInteger(magnitude)) return fail("modifier is not a whole number");
@@ -187,21 +292,32 @@ export function parseDiceFormula(input: unknown): DiceParseResult {
   return { ok: true, terms };
 }
 
+/** "4d6kh3", "3d6!", "2d6ro2": a die term's body, suffixes in one fixed order. */
+function formatDieBody(term: Extract<DiceTerm, { kind: "die" }>): string {
+  const reroll = term.reroll ? `r${term.reroll.once ? "o" : ""}${term.reroll.atOrBelow}` : "";
+  const explode = term.explode ? "!" : "";
+  const select = term.select ? `${term.select.rule}${term.select.count}` : "";
+  return `${term.qty > 1 ? term.qty : ""}${term.die}${reroll}${explode}${select}`;
+}
+
 /**
  * Render terms back to canonical notation — "2d20 + 5 - 1d4".
  *
  * The server stores THIS string on the roll rather than the client's original,
  * so the log shows what was actually rolled. A client that sends "2 d 20+5"
- * and a client that sends "2d20 + 5" produce identical history.
+ * and a client that sends "2d20 + 5" produce identical history, and "4d6k3"
+ * comes back as "4d6kh3".
  */
 export function formatDiceTerms(terms: DiceTerm[]): string {
   return terms
     .map((term, index) => {
-      const negative = term.kind === "die" ? term.sign === -1 : term.value < 0;
+      const negative = term.kind === "mod" ? term.value < 0 : term.sign === -1;
       const body =
         term.kind === "die"
-          ? `${term.qty > 1 ? term.qty : ""}${term.die}`
-          : `${Math.abs(term.value)}`;
+          ? formatDieBody(term)
+          : term.kind === "fudge"
+            ? `${term.qty > 1 ? term.qty : ""}${FUDGE_DIE}`
+            : `${Math.abs(term.value)}`;
 
       // The first term carries a bare "-"; later ones are joined with spaced
       // operators, which is how a person writes it.
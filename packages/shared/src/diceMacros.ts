@@ -0,0 +1,83 @@
+// ============================================================================
+// DICE MACROS — saved rolls that follow the character, not the browser
+// ============================================================================
+// A macro is a label on a formula and a roll mode: "Longsword" → 1d8+3. They
+// live in room state, two ways:
+//
+//   - on a CHARACTER (`Character.macros`), edited by its owner or the DM
+//     with `set-character-macros`. They go wherever the character goes — to
+//     the tablet the player picks up next session, into the state file, and
+//     into a session export with the rest of the character;
+//   - on the TABLE (`RoomSnapshot.tableMacros`), set by the DM with
+//     `set-table-macros` and shown to everyone: the rolls a table makes
+//     whoever is playing ("Perception DC check", "Wild magic surge").
+//
+// Macros arrive from the wire, the state file and session files, so each is
+// rebuilt by `coerceDiceMacro` before it is kept. One whose formula does not
+// parse is refused, for the reason coerceNamedAttack refuses bad damage: a
+// button that fails every time it is tapped is worse than no button.
+
+import { DICE_LIMITS, coerceDiceRollMode, parseDiceFormula, type DiceRollMode } from "./dice.js";
+
+export interface DiceMacro {
+  /** Unique within its list; the client makes one when the macro is saved. */
+  id: string;
+  label: string;
+  formula: string;
+  mode: DiceRollMode;
+}
+
+/** Bounds on a macro list. Every list rides in every snapshot. */
+export const MACRO_LIMITS = {
+  /** Per character. */
+  CHARACTER_MAX: 12,
+  /** Shared by the whole table. */
+  TABLE_MAX: 12,
+  LABEL_MAX: 24,
+  ID_MAX: 64,
+  FORMULA_MAX: DICE_LIMITS.FORMULA_MAX,
+} as const;
+
+function text(value: unknown, max: number): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 && trimmed.length <= max ? trimmed : undefined;
+}
+
+/** Rebuild an untrusted macro, or refuse it. */
+export function coerceDiceMacro(value: unknown): DiceMacro | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const id = text(raw.id, MACRO_LIMITS.ID_MAX);
+  const label = text(raw.label, MACRO_LIMITS.LABEL_MAX);
+  const formula = text(raw.formula, MACRO_LIMITS.FORMULA_MAX);
+  if (!id || !label || !formula || !parseDiceFormula(formula).ok) return null;
+  return { id, label, formula, mode: coerceDiceRollMode(raw.mode) };
+}
+
+/**
+ * Coerce a macro list: unusable entries and repeated ids are dropped, and the
+ * list is capped at `max` — CHARACTER_MAX or TABLE_MAX, whichever list it is.
+ */
+export function coerceDiceMacros(value: unknown, max: number): DiceMacro[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const macros: DiceMacro[] = [];
+  for (const entry of value) {
+    if (macros.length >= max) break;
+    const macro = coerceDiceMacro(entry);
+    if (!macro || seen.has(macro.id)) continue;
+    seen.add(macro.id);
+    macros.push(macro);
+  }
+  return macros;
+}
+
+/**
+ * A character's list as it is stored: none at all rather than an empty one,
+ * so a character that never saved a macro carries no key.
+ */
+export function coerceCharacterMacros(value: unknown): DiceMacro[] | undefined {
+  const macros = coerceDiceMacros(value, MACRO_LIMITS.CHARACTER_MAX);
+  return macros.length > 0 ? macros : undefined;
+}
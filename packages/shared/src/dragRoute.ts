@@ -0,0 +1,134 @@
+// ============================================================================
+// DRAG ROUTE — the walk a dragged token would take, waypoint by waypoint
+// ============================================================================
+// While a token is being dragged, the table wants to know the same thing the
+// server will ask on drop: which way does it go, and how far is that? A ghost
+// at the cursor answers neither. This module turns a drag — where it started,
+// the cells the player pinned on the way, and where the cursor is now — into
+// the walk drawn on the board and the number printed at its end.
+//
+// Each leg between pins is `findGridPath`, so an unpinned drag shows exactly
+// the route and cost the server charges on drop. Pinning is the player saying
+// "this way, not the shortest": the legs are walked in turn and their costs
+// added, so the diagonal alternation starts afresh at each pin.
+//
+// The route rides the drag-preview channel as cells, not as the walk itself:
+// every screen holds the same compiled scene, so each one routes it locally
+// and the message stays a handful of numbers however long the walk.
+
+import { measureGridDistance, type MeasurePoint } from "./measurement.js";
+import { findGridPath, type GridPathQuery } from "./pathfinding.js";
+import { gridCellToWorldPoint, type ScenePoint } from "./sceneGeometry.js";
+
+/**
+ * Pins one drag may carry. Far more than a turn of movement needs; the cap
+ * bounds what a preview message can ask every screen at the table to route.
+ */
+export const MAX_DRAG_ROUTE_WAYPOINTS = 16;
+
+/**
+ * A drag in progress, in GRID CELLS. `from` is where the token stood when the
+ * drag began — needed on the wire because remote screens have already moved
+ * the token to the cursor by the time they read it.
+ */
+export interface DragRoute {
+  from: MeasurePoint;
+  /** Cells the player pinned along the way, in order. */
+  waypoints: MeasurePoint[];
+}
+
+export interface DragRouteQuery extends Omit<GridPathQuery, "from" | "to" | "maxFeet"> {
+  route: DragRoute;
+  /** Where the cursor is now, in grid cells. */
+  to: ScenePoint;
+}
+
+export interface DragRoutePlan {
+  /** The cells to draw through, start and end included. */
+  cells: ScenePoint[];
+  /** Total length in squares, summed leg by leg. */
+  squares: number;
+  feet: number;
+  /** Present (true) when some leg pays for difficult terrain. */
+  difficult?: boolean;
+  /**
+   * Present (true) when some leg has no legal walk — a wall in the way with
+   * no way round, or a pin on impassable ground. That leg is drawn and
+   * counted straight, so the player still sees where they were trying to go.
+   */
+  blocked?: boolean;
+  /** The pinned cells, for drawing as markers. */
+  waypoints: ScenePoint[];
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Plan the walk through every pin to the cursor. Never throws; runs inside a render. */
+export function planDragRoute(query: DragRouteQuery): DragRoutePlan {
+  const { route, to, ...common } = query;
+  const feetPerSquare = Number.isFinite(query.gridSquareSize) ? query.gridSquareSize : 5;
+  const stops = [route.from, ...route.waypoints.slice(0, MAX_DRAG_ROUTE_WAYPOINTS), to];
+
+  const cells: ScenePoint[] = [{ x: Math.round(route.from.x), y: Math.round(route.from.y) }];
+  let squares = 0;
+  let difficult = false;
+  let blocked = false;
+  for (let index = 1; index < stops.length; index += 1) {
+    const legFrom = stops[index - 1];
+    const legTo = stops[index];
+    const walk = findGridPath({ ...common, from: legFrom, to: legTo });
+    if (walk) {
+      cells.push(...walk.cells.slice(1));
+      squares += walk.squares;
+      difficult ||= walk.difficult === true;
+      continue;
+    }
+    blocked = true;
+    cells.push({ x: Math.round(legTo.x), y: Math.round(legTo.y) });
+    squares += measureGridDistance({
+      start: gridCellToWorldPoint(query.gridSize, legFrom),
+      end: gridCellToWorldPoint(query.gridSize, legTo),
+      gridSize: query.gridSize,
+      gridSquareSize: feetPerSquare,
+      rule: query.rule,
+    }).squares;
+  }
+
+  squares = round1(squares);
+  return {
+    cells,
+    squares,
+    feet: round1(squares * feetPerSquare),
+    waypoints: stops.slice(1, -1).map((cell) => ({ x: Math.round(cell.x), y: Math.round(cell.y) })),
+    ...(difficult ? { difficult: true } : {}),
+    ...(blocked ? { blocked: true } : {}),
+  };
+}
+
+function finiteCell(raw: unknown): MeasurePoint | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const { x, y } = raw as Record<string, unknown>;
+  if (typeof x !== "number" || typeof y !== "number") return undefined;
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : undefined;
+}
+
+/**
+ * Coerce an untrusted route: finite cells only, pins capped. Anything else is
+ * no route — the preview still moves the token, it just draws no path.
+ */
+export function sanitizeDragRoute(value: unknown): DragRoute | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const record = value as Record<string, unknown>;
+  const from = finiteCell(record.from);
+  if (!from || !Array.isArray(record.waypoints)) return undefined;
+  if (record.waypoints.length > MAX_DRAG_ROUTE_WAYPOINTS) return undefined;
+  const waypoints: MeasurePoint[] = [];
+  for (const raw of record.waypoints) {
+    const waypoint = finiteCell(raw);
+    if (!waypoint) return undefined;
+    waypoints.push(waypoint);
+  }
+  return { from, waypoints };
+}
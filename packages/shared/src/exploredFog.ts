@@ -0,0 +1,218 @@
+// ============================================================================
+// EXPLORED FOG — what each player remembers seeing, as a compact raster
+// ============================================================================
+// One low-resolution bitmask per player per published scene: a bit is set once
+// any of that player's tokens has had the mask cell in sight. The client
+// rasterises its sightlines into the mask and uploads it; the server keeps the
+// union, hands each player their own copy back in the snapshot, and hands the
+// DM everybody's.
+//
+// STILL A RENDERING CONVENIENCE, NOT A PRIVACY BOUNDARY. A remembered room
+// re-shows map ART the client already holds; the recipient filter keeps
+// stripping every entity outside CURRENT vision exactly as before, so the
+// monster that walked into a remembered room is never sent. Nothing in this
+// module may become the reason something is or is not sent.
+//
+// A raster rather than a polygon union because the client already keeps one
+// (it is what the fog layer draws), merging two is a byte-wise OR with no
+// geometry library on the server, and its size is bounded by construction.
+
+/**
+ * The mask's longest side. Caps a single mask at 512*512 bits = 32KB packed,
+ * ~44KB of base64 — small enough to ride a snapshot and sit in the state file
+ * once per player per remembered scene.
+ */
+export const MASK_MAX_DIMENSION = 512;
+/** Never coarser than this many document pixels per mask cell (~1/6 of a grid square). */
+const MIN_MASK_CELL = 8;
+/** How many scenes a player keeps memory of before the least recent is dropped. */
+export const MAX_EXPLORED_SCENES_PER_PLAYER = 6;
+
+export interface ExploredMaskMeta {
+  /** Document pixels per mask cell. */
+  cell: number;
+  /** Mask dimensions in cells. */
+  cols: number;
+  rows: number;
+}
+
+/** One player's memory of one published scene. */
+export interface ExploredFogMask extends ExploredMaskMeta {
+  /** Whose memory this is. */
+  uid: string;
+  /** `CompiledScene.sourceDocumentId` of the scene it was built on. */
+  sceneId: string;
+  /** Scene document size the mask was built for; a resize invalidates it. */
+  sceneWidth: number;
+  sceneHeight: number;
+  /**
+   * Bumped by the server whenever the DM resets or reveals this memory. An
+   * upload built on an older epoch is dropped instead of merged, or a debounced
+   * upload already in flight would quietly undo the DM's reset.
+   */
+  epoch: number;
+  /**
+   * One bit per mask cell, row-major, packed LSB-first, base64-encoded. The
+   * empty string means nothing explored — what a reset leaves behind.
+   */
+  bits: string;
+}
+
+/** A mask as its owner uploads it: the server stamps the uid from the connection. */
+export type ExploredFogUpload = Omit<ExploredFogMask, "uid">;
+
+/** The DM's levers: forget a memory, or mark all of the scene explored. */
+export type ExploredFogAction = "reset" | "reveal";
+
+/**
+ * Mask resolution for a scene, in DOCUMENT pixels — the unit `CompiledScene`
+ * width/height are in. Not device pixels: the fog layer draws this as one
+ * upscaled image and Konva already applies the device pixel ratio once at the
+ * Stage, so scaling here would multiply memory for no visible gain.
+ *
+ * Both halves of the app derive the geometry from this one function, which is
+ * what lets the server refuse a mask whose shape disagrees with its scene.
+ */
+export function maskGeometryFor(sceneWidth: number, sceneHeight: number): ExploredMaskMeta {
+  const longest = Math.max(sceneWidth, sceneHeight, 1);
+  const cell = Math.max(MIN_MASK_CELL, Math.ceil(longest / MASK_MAX_DIMENSION));
+  return {
+    cell,
+    cols: Math.max(1, Math.ceil(sceneWidth / cell)),
+    rows: Math.max(1, Math.ceil(sceneHeight / cell)),
+  };
+}
+
+export function exploredMaskByteLength(meta: ExploredMaskMeta): number {
+  return Math.ceil((meta.cols * meta.rows) / 8);
+}
+
+// Hand-rolled rather than atob/btoa: this package targets plain ES2022, where
+// neither is declared, and the server would otherwise need Buffer for the same
+// job. The format is standard padded base64 either way.
+const BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+const BASE64_INDEX = new Map([...BASE64].map((char, index) => [char, index]));
+
+export function encodeExploredBits(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 3) {
+    const a = bytes[i]!;
+    const b = i + 1 < bytes.length ? bytes[i + 1]! : 0;
+    const c = i + 2 < bytes.length ? bytes[i + 2]! : 0;
+    out += BASE64[a >> 2]! + BASE64[((a & 3) << 4) | (b >> 4)]!;
+    out += i + 1 < bytes.length ? BASE64[((b & 15) << 2) | (c >> 6)]! : "=";
+    out += i + 2 < bytes.length ? BASE64[c & 63]! : "=";
+  }
+  return out;
+}
+
+/**
+ * Decode a mask's bits, or null when they are not exactly `byteLength` bytes
+ * of well-formed base64. The empty string decodes to an all-clear mask.
+ */
+export function decodeExploredBits(encoded: string, byteLength: number): Uint8Array | null {
+  const bytes = new Uint8Array(byteLength);
+  if (encoded === "") return bytes;
+  if (encoded.length !== Math.ceil(byteLength / 3) * 4) return null;
+  // The padding must be exactly what the length implies: "Zm9vYg==" is four
+  // bytes and must not pass for six.
+  const padding = (3 - (byteLength % 3)) % 3;
+  if (encoded.indexOf("=") !== (padding === 0 ? -1 : encoded.length - padding)) return null;
+  if (!encoded.endsWith("=".repeat(padding))) return null;
+  let written = 0;
+  for (let i = 0; i < encoded.length; i += 4) {
+    const quad = [0, 1, 2, 3].map((offset) => encoded[i + offset]!);
+    const values = quad.map((char) => (char === "=" ? 0 : BASE64_INDEX.get(char)));
+    if (values.some((value) => value === undefined)) return null;
+    const [a, b, c, d] = values as number[];
+    const decoded = [(a! << 2) | (b! >> 4), ((b! & 15) << 4) | (c! >> 2), ((c! & 3) << 6) | d!];
+    for (const byte of decoded) {
+      if (written < byteLength) bytes[written++] = byte & 0xff;
+    }
+  }
+  return bytes;
+}
+
+/** Both memories at once: the bitwise OR of two masks of the same geometry. */
+export function mergeExploredBits(a: string, b: string, meta: ExploredMaskMeta): string | null {
+  if (a === "") return b;
+  if (b === "") return a;
+  const byteLength = exploredMaskByteLength(meta);
+  const left = decodeExploredBits(a, byteLength);
+  const right = decodeExploredBits(b, byteLength);
+  if (!left || !right) return null;
+  for (let i = 0; i < byteLength; i += 1) left[i]! |= right[i]!;
+  return encodeExploredBits(left);
+}
+
+/** Every cell explored — what the DM's "reveal" hands a player. */
+export function fullExploredBits(meta: ExploredMaskMeta): string {
+  const total = meta.cols * meta.rows;
+  const bytes = new Uint8Array(exploredMaskByteLength(meta)).fill(0xff);
+  // Clear the padding bits past the last cell, so a revealed mask reads as
+  // exactly 100% explored rather than a hair over.
+  if (total % 8 !== 0) bytes[bytes.length - 1] = (1 << total % 8) - 1;
+  return encodeExploredBits(bytes);
+}
+
+/** Share of the scene explored, 0..1. An undecodable mask reads as nothing seen. */
+export function exploredFraction(mask: ExploredFogMask): number {
+  const bytes = decodeExploredBits(mask.bits, exploredMaskByteLength(mask));
+  if (!bytes) return 0;
+  let set = 0;
+  for (const byte of bytes) {
+    for (let bit = byte; bit !== 0; bit &= bit - 1) set += 1;
+  }
+  return set / (mask.cols * mask.rows);
+}
+
+function isPositiveFinite(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * A well-formed mask rebuilt from untrusted input, or null.
+ *
+ * The geometry must be exactly what `maskGeometryFor` gives for the claimed
+ * scene size — a mask cannot choose its own resolution — and the bits must
+ * decode to exactly that many bytes. Unknown keys are dropped by the rebuild.
+ */
+export function sanitizeExploredMask(value: unknown): ExploredFogMask | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const { uid, sceneId, sceneWidth, sceneHeight, epoch, bits } = record;
+  if (typeof uid !== "string" || uid.length === 0 || uid.length > 256) return null;
+  if (typeof sceneId !== "string" || sceneId.length === 0 || sceneId.length > 256) return null;
+  if (!isPositiveFinite(sceneWidth) || !isPositiveFinite(sceneHeight)) return null;
+  if (typeof epoch !== "number" || !Number.isSafeInteger(epoch) || epoch < 0) return null;
+  if (typeof bits !== "string") return null;
+  const meta = maskGeometryFor(sceneWidth, sceneHeight);
+  if (record.cell !== meta.cell || record.cols !== meta.cols || record.rows !== meta.rows) {
+    return null;
+  }
+  if (!decodeExploredBits(bits, exploredMaskByteLength(meta))) return null;
+  return { uid, sceneId, sceneWidth, sceneHeight, ...meta, epoch, bits };
+}
+
+/**
+ * A stored list of masks made safe to hold: malformed entries dropped, one
+ * entry per player per scene (the first wins — lists are kept most recent
+ * first), and no player over `MAX_EXPLORED_SCENES_PER_PLAYER`.
+ */
+export function coerceExploredFog(value: unknown): ExploredFogMask[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const perPlayer = new Map<string, number>();
+  const masks: ExploredFogMask[] = [];
+  for (const entry of value) {
+    const mask = sanitizeExploredMask(entry);
+    if (!mask) continue;
+    const key = JSON.stringify([mask.uid, mask.sceneId]);
+    const count = perPlayer.get(mask.uid) ?? 0;
+    if (seen.has(key) || count >= MAX_EXPLORED_SCENES_PER_PLAYER) continue;
+    seen.add(key);
+    perPlayer.set(mask.uid, count + 1);
+    masks.push(mask);
+  }
+  return masks;
+}
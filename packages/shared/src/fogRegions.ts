@@ -0,0 +1,152 @@
+// ============================================================================
+// FOG REGIONS — the DM's hand-painted reveal and conceal areas
+// ============================================================================
+// Sightlines answer "what can this token see" from walls and light. That does
+// nothing for theatre of the mind, or for a map with no walls drawn: there the
+// DM wants to uncover the room the party just walked into, or keep a side
+// passage dark whatever the geometry says. A fog region is that decision,
+// painted on the published scene in DOCUMENT space so it moves with the map.
+//
+// Regions are an ordered stack and the LAST one covering a point wins: a
+// reveal painted over a conceal shows the room, a conceal painted over that
+// hides a corner of it again. Where no region covers a point, sight decides
+// exactly as before. Each region belongs to the scene it was painted on, so
+// publishing another map neither inherits nor loses the first one's regions.
+//
+// Both halves of the app ask `manualFogAt` the same question — the client fog
+// to draw it, the server filter to decide what a player's socket is sent — so
+// the two cannot disagree about a painted area.
+
+import type { ScenePoint } from "./sceneGeometry.js";
+import { pointInPolygon } from "./visibility.js";
+
+/** How many regions one scene's stack may hold; undo and clear keep it tidy. */
+export const MAX_FOG_REGIONS = 200;
+/** Points in one region's outline or stroke — a long brush drag, generously. */
+export const MAX_FOG_REGION_POINTS = 2000;
+/** Largest brush radius, in document pixels. */
+export const MAX_FOG_BRUSH_RADIUS = 2000;
+
+export type FogRegionMode = "reveal" | "conceal";
+
+export interface FogRegion {
+  /** Server-assigned. */
+  id: string;
+  /** `CompiledScene.sourceDocumentId` of the scene it was painted on. */
+  sceneId: string;
+  mode: FogRegionMode;
+  /**
+   * `polygon`: `points` is a closed outline (a dragged rectangle is a
+   * four-point one). `stroke`: `points` is a brush's centreline and
+   * `radius` its half-width, so the region is every point within `radius`
+   * of the line.
+   */
+  shape: "polygon" | "stroke";
+  points: ScenePoint[];
+  radius?: number;
+}
+
+/** A region as the DM's client paints it, before the server gives it an id. */
+export type FogRegionDraft = Omit<FogRegion, "id" | "sceneId">;
+
+function distanceToSegmentSquared(point: ScenePoint, a: ScenePoint, b: ScenePoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  const x = a.x + t * dx - point.x;
+  const y = a.y + t * dy - point.y;
+  return x * x + y * y;
+}
+
+export function fogRegionContains(region: FogRegion, point: ScenePoint): boolean {
+  if (region.shape === "polygon") return pointInPolygon(point, region.points);
+  const radiusSquared = (region.radius ?? 0) ** 2;
+  const { points } = region;
+  // A single click is a dab: a zero-length segment, i.e. a disc.
+  for (let i = 0; i < points.length; i += 1) {
+    const from = points[Math.max(0, i - 1)]!;
+    if (distanceToSegmentSquared(point, from, points[i]!) <= radiusSquared) return true;
+  }
+  return false;
+}
+
+/**
+ * What the DM painted at a document-space point: the mode of the topmost
+ * region covering it, or null where sight alone decides.
+ */
+export function manualFogAt(
+  regions: readonly FogRegion[],
+  point: ScenePoint,
+): FogRegionMode | null {
+  for (let i = regions.length - 1; i >= 0; i -= 1) {
+    if (fogRegionContains(regions[i]!, point)) return regions[i]!.mode;
+  }
+  return null;
+}
+
+/**
+ * Identity of a region stack, for caches keyed on "has anything changed".
+ * Ids are never reused and regions never change in place, so the id list is
+ * the whole story.
+ */
+export function fogRegionsKey(regions: readonly FogRegion[]): string {
+  return regions.map((region) => region.id).join(",");
+}
+
+function isFinitePoint(value: unknown): value is ScenePoint {
+  if (!value || typeof value !== "object") return false;
+  const { x, y } = value as Record<string, unknown>;
+  return typeof x === "number" && Number.isFinite(x) && typeof y === "number" && Number.isFinite(y);
+}
+
+/**
+ * A well-formed draft rebuilt from untrusted input, or null. A polygon needs
+ * three points to enclose anything; a stroke needs one and a radius.
+ */
+export function sanitizeFogRegionDraft(value: unknown): FogRegionDraft | null {
+  if (!value || typeof value !== "object") return null;
+  const { mode, shape, points, radius } = value as Record<string, unknown>;
+  if (mode !== "reveal" && mode !== "conceal") return null;
+  if (shape !== "polygon" && shape !== "stroke") return null;
+  if (!Array.isArray(points) || points.length > MAX_FOG_REGION_POINTS) return null;
+  if (!points.every(isFinitePoint)) return null;
+  const clean = points.map((point) => ({ x: point.x, y: point.y }));
+  if (shape === "polygon") {
+    return clean.length >= 3 ? { mode, shape, points: clean } : null;
+  }
+  if (clean.length === 0) return null;
+  if (typeof radius !== "number" || !Number.isFinite(radius)) return null;
+  if (radius <= 0 || radius > MAX_FOG_BRUSH_RADIUS) return null;
+  return { mode, shape, points: clean, radius };
+}
+
+function isIdentifier(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0 && value.length <= 256;
+}
+
+/**
+ * A stored region list made safe to hold: malformed entries and repeated ids
+ * dropped, and no scene over `MAX_FOG_REGIONS` (the oldest are kept — they
+ * are the bottom of the stack the later ones were painted against).
+ */
+export function coerceFogRegions(value: unknown): FogRegion[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const perScene = new Map<string, number>();
+  const regions: FogRegion[] = [];
+  for (const entry of value) {
+    const draft = sanitizeFogRegionDraft(entry);
+    const { id, sceneId } = (entry ?? {}) as Record<string, unknown>;
+    if (!draft || !isIdentifier(id) || !isIdentifier(sceneId) || seen.has(id)) continue;
+    const count = perScene.get(sceneId) ?? 0;
+    if (count >= MAX_FOG_REGIONS) continue;
+    seen.add(id);
+    perScene.set(sceneId, count + 1);
+    regions.push({ id, sceneId, ...draft });
+  }
+  return regions;
+}
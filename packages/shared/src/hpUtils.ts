@@ -60,6 +60,30 @@ export function normalizeHPValues(hp: number, maxHp: number): NormalizedHP {
   };
 }
 
+/**
+ * Hit points after taking damage, temporary hit points first: they soak the
+ * damage until spent, and only the remainder comes off `hp`, which stops at 0.
+ * Spent temp HP comes back as undefined rather than 0, the same "none" every
+ * character without any already carries.
+ *
+ * @example
+ * applyDamage(20, 5, 8) // => { hp: 17, tempHp: undefined }
+ */
+export function applyDamage(
+  hp: number,
+  tempHp: number | undefined,
+  amount: number,
+): { hp: number; tempHp: number | undefined } {
+  const damage = Math.max(0, amount);
+  const temp = Math.max(0, tempHp ?? 0);
+  const absorbed = Math.min(temp, damage);
+  const remainingTemp = temp - absorbed;
+  return {
+    hp: Math.max(0, hp - (damage - absorbed)),
+    tempHp: remainingTemp > 0 ? remainingTemp : undefined,
+  };
+}
+
 /**
  * Validate and parse HP input from user input (string or number).
  * Returns 0 for invalid inputs.
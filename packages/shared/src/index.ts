@@ -13,9 +13,27 @@ import type {
 import type { MapStudioCommand } from "./mapStudioCommands.js";
 import type { CompiledDoorState, CompiledScene } from "./sceneCompiler.js";
 import type { TerrainMap } from "./terrain.js";
-import type { DiceRollMode, DiceVisibility } from "./dice.js";
+import type { DiceRollMode, DiceVisibility, RolledDie } from "./dice.js";
+import type { InlineRoll } from "./inlineRolls.js";
+import type { ChatStyle } from "./chatCommands.js";
 import type { DiagonalRule, MeasurePoint } from "./measurement.js";
+import type { SenseProfile } from "./senses.js";
+import type { TokenLight } from "./tokenLights.js";
+import type { DragRoute } from "./dragRoute.js";
+import type { ExploredFogAction, ExploredFogMask, ExploredFogUpload } from "./exploredFog.js";
+import type { FogRegion, FogRegionDraft } from "./fogRegions.js";
+import type { SavedScene, SceneSummary } from "./scenes.js";
 import type { AreaTemplate, AreaTemplateTool } from "./areaTemplates.js";
+import type { MonsterTemplate, MonsterTemplateInput } from "./bestiary.js";
+import type { AttackRollDetail, NamedAttack } from "./attacks.js";
+import type { DiceMacro } from "./diceMacros.js";
+import type { RollOutcome, RollTarget, SavingThrows } from "./defenses.js";
+import type { Condition } from "./conditions.js";
+import type { CombatEvent } from "./combatLog.js";
+import type { CombatMode } from "./combatModes.js";
+import type { TurnTimer } from "./turnTimer.js";
+import type { CharacterStatus } from "./combatantStatus.js";
+import type { DeathSaveResult, DeathSaves } from "./deathSaves.js";
 // Imported as well as re-exported below: the barrel's own declarations use it.
 import type { DrawingType } from "./drawingTypes.js";
 
@@ -34,6 +52,7 @@ export {
   hpBadgeFor,
   coerceMonsterHpDisplay,
   MONSTER_HP_DISPLAY_MODES,
+  applyDamage,
 } from "./hpUtils.js";
 export type { NormalizedHP } from "./hpUtils.js";
 
@@ -57,6 +76,40 @@ export * from "./scenePublish.js";
 export * from "./sceneGeometry.js";
 export * from "./visibility.js";
 export * from "./visionRadius.js";
+// Lights as vision input: ambient level, bright/dim bands, lit-area sight.
+export * from "./lighting.js";
+// Darkvision, blindsight, tremorsense, truesight: per-token sense profiles.
+export * from "./senses.js";
+// Torches, lanterns and Light cantrips carried by tokens.
+export * from "./tokenLights.js";
+// What each player remembers seeing: per-scene explored masks, kept server-side.
+export * from "./exploredFog.js";
+// The DM's hand-painted reveal/conceal areas, layered over sightlines.
+export * from "./fogRegions.js";
+// Several saved maps per room, one of them on the table.
+export * from "./scenes.js";
+// Stairs, ladders, portals and map edges: who stands on one, and may use it.
+export * from "./mapLinks.js";
+// Reusable NPC templates with stat blocks, kept per room and exportable.
+export * from "./bestiary.js";
+// Named attacks on characters, and the dice-log record of rolling one.
+export * from "./attacks.js";
+// Armor class and saving throws, and resolving a targeted roll against them.
+export * from "./defenses.js";
+// Structured conditions with round clocks the server runs on turn advance.
+export * from "./conditions.js";
+// The initiative tracker's round counter and its round-by-round combat log.
+export * from "./combatLog.js";
+// Initiative sorting, the DM's manual arrangement, and the delay/hold/ready rules.
+export * from "./initiativeOrder.js";
+// Individual, group and side initiative: who takes a turn together.
+export * from "./combatModes.js";
+// The optional per-turn clock the server keeps and every client counts down.
+export * from "./turnTimer.js";
+// Unconscious, dead and fled: who is out of the fight, and who the turn skips.
+export * from "./combatantStatus.js";
+// A downed PC's death saving throws: the tally, and what one d20 does to it.
+export * from "./deathSaves.js";
 
 // The Terrain Brush's pure autotiling core (47-blob + quarter-tile math).
 export * from "./autotile.js";
@@ -68,11 +121,26 @@ export * from "./rng.js";
 // Dice NOTATION only — what a formula means, and nothing that rolls one. The
 // roller is server-side on purpose (see dice.ts).
 export * from "./dice.js";
+// Dice notation in [[brackets]] inside a chat line, rolled by the server.
+export * from "./inlineRolls.js";
+// The chat box's slash commands: /r, /gmr, /w, /me, /ooc and /desc.
+export * from "./chatCommands.js";
+// Saved rolls, kept per character and per table in room state.
+export * from "./diceMacros.js";
 
 // The table's diagonal rule and the area-template geometry. One copy of each,
 // so the number on screen and any future range check cannot disagree.
 export * from "./measurement.js";
 export * from "./areaTemplates.js";
+// Shortest legal walks over the compiled scene, costed by that same rule, and
+// the walking speed the combat movement budget holds them to.
+export * from "./pathfinding.js";
+export * from "./tokenSpeed.js";
+// The walk a dragged token would take through the player's pins, and its cost.
+export * from "./dragRoute.js";
+// Difficult and impassable ground: terrain kinds, area elements, and the cost
+// grid they compile to, read by the pathfinder and the measure overlay.
+export * from "./terrainMovement.js";
 
 // Terrain storage: RLE-compressed 16x16 chunks — the Terrain Brush's wire
 // format (golden-tested; changes are schema migrations).
@@ -177,6 +245,28 @@ export interface Token {
    * player clear their own would just undo the darkness the DM authored.
    */
   visionRadius?: number;
+  /**
+   * Special senses, each a range in FEET (senses.ts has the rules for each).
+   * Absent means none. DM-set (`set-token-senses`) for the same reason as
+   * `visionRadius`: a player who could grant their own token blindsight
+   * could see through the darkness the DM authored.
+   */
+  senses?: SenseProfile;
+  /**
+   * A light the token carries (tokenLights.ts), lit where the token stands
+   * and moving with it. Absent means none. Unlike `visionRadius` and `senses`
+   * this IS the owner's own setting (`set-token-light`): lighting a torch can
+   * only ever show the darkness the DM authored to everyone who can see the
+   * flame, which is what a torch does.
+   */
+  light?: TokenLight;
+  /**
+   * Walking speed in FEET (tokenSpeed.ts). Absent means the 30 ft default.
+   * Only read when the DM has switched the combat movement budget on, and
+   * DM-set (`set-token-speed`): a player who could set their own could walk
+   * as far as they liked, which is the one thing the budget exists to stop.
+   */
+  speed?: number;
 }
 
 /**
@@ -205,6 +295,12 @@ export interface DiceRoll {
      * on the one term the mode applied to; the log shows it struck through.
      */
     dropped?: number[];
+    /**
+     * Every die the term threw, flagged, when keep/drop, explode or reroll
+     * was in its notation (shared dice.ts). `rolls` is still the faces that
+     * counted; this is what the log draws to show why.
+     */
+    dice?: RolledDie[];
     subtotal: number; // Signed: a "- 1d4" term contributes a negative subtotal
   }[];
   /** Absent means "normal" — the wire default and every pre-S5 roll. */
@@ -217,6 +313,25 @@ export interface DiceRoll {
    * same client-asserted-uid caveat as whispers — see visibleRollsFor.
    */
   visibility?: DiceVisibility;
+  /**
+   * Present when this is an attack roll (attacks.ts): the formula and total
+   * above are the to-hit roll, and this names the target and carries the
+   * damage rolled with it.
+   */
+  attack?: AttackRollDetail;
+  /** The character a plain roll was made against (an attack names its own in `attack`). */
+  target?: RollTarget;
+  /**
+   * Hit, miss or crit against the target's AC, settled server-side (defenses.ts).
+   * Absent when the target has no AC or the roll has no single d20. The AC
+   * itself is never recorded: it may be withheld from the players reading this.
+   */
+  outcome?: RollOutcome;
+  /**
+   * Present when this was a death saving throw (deathSaves.ts): `target` names
+   * the PC who made it, and this is what the d20 did to their tally.
+   */
+  deathSave?: DeathSaveResult;
   timestamp: number; // When the roll occurred
 }
 
@@ -249,6 +364,18 @@ export interface ChatMessage {
    * reconnect under their uid. See visibleChatFor for the full note.
    */
   to?: string;
+  /**
+   * Written by the server itself — a condition running out, say — rather than
+   * said by anyone. `authorUid` is empty. No client message can set it.
+   */
+  system?: boolean;
+  /**
+   * The [[...]] rolls in `text`, rolled by the server when it was sent
+   * (inlineRolls.ts). Absent when there were none.
+   */
+  inlineRolls?: InlineRoll[];
+  /** Said with /me, /ooc or /desc (chatCommands.ts). Absent is plain speech. */
+  style?: ChatStyle;
   timestamp: number; // When the message was sent
 }
 
@@ -315,6 +442,11 @@ export interface DragPreviewUpdate {
   id: string;
   x: number;
   y: number;
+  /**
+   * The drag's start and pins (dragRoute.ts), on the token under the cursor
+   * only. Absent on the drop message, which is what clears the drawn path.
+   */
+  route?: DragRoute;
 }
 
 /**
@@ -423,10 +555,19 @@ export interface Character {
   initiativeModifier?: number; // Initiative modifier (bonus/penalty added to d20 roll)
   statusEffects?: string[]; // Active status effect identifiers/labels (per character)
   visibleToPlayers?: boolean; // DM can hide NPCs from players (undefined/true = visible, false = hidden)
+  templateId?: string; // Bestiary template this NPC was created from (may since have been deleted)
+  attacks?: NamedAttack[]; // Named actions rolled with roll-attack (copied from the template, if any)
+  macros?: DiceMacro[]; // Saved rolls shown in the macro bar while this character is active (diceMacros.ts)
+  ac?: number; // Armor class; targeted rolls are resolved against it (copied from the template, if any)
+  savingThrows?: SavingThrows; // Saving throw bonuses by ability
+  conditions?: Condition[]; // Structured conditions; the server ticks their rounds on next-turn
+  initiativeHeld?: boolean; // Holding: out of the turn order until resume-turn (initiativeOrder.ts)
+  readiedAction?: string; // A readied action's trigger ("" when none was given); lapses at their next turn
+  initiativeGroup?: string; // Shared by NPCs created in one batch; they act together in "group" mode (combatModes.ts)
+  status?: CharacterStatus; // Unconscious, dead or fled; absent = fighting (combatantStatus.ts)
+  deathSaves?: DeathSaves; // Only while an unconscious PC is on 0 HP (deathSaves.ts)
 
   // Future fields (Phase 2+):
-  // templateId?: string;        // Link to character template (for NPCs)
-  // status?: "active" | "dead" | "unconscious" | "retired" | "hidden";
   // permissions?: CharacterPermissions; // Advanced ownership/visibility
 }
 
@@ -445,7 +586,8 @@ export type HpBadge = "healthy" | "bloodied";
  * `Character` records (hp/maxHp required — domain code keeps its invariants);
  * this is the wire shape, where an NPC's numbers may have been redacted per
  * the room's `monsterHpDisplay`. `hpBadge` exists only in "bloodied" mode,
- * and only on redacted NPCs; PCs always carry exact numbers.
+ * and only on redacted NPCs; PCs always carry exact numbers. A redacted NPC
+ * loses its `ac` and `savingThrows` too — they are numbers of the same kind.
  */
 export interface SnapshotCharacter extends Omit<Character, "hp" | "maxHp" | "tempHp"> {
   hp?: number;
@@ -543,6 +685,17 @@ export interface RoomSnapshot {
   playerStagingZone?: PlayerStagingZone; // DM-defined spawn area for player tokens
   combatActive?: boolean; // Whether initiative tracking/combat mode is active
   currentTurnCharacterId?: string; // Character ID of whose turn it currently is
+  combatRound?: number; // Round of the current (or last) fight, from 1; absent before the first
+  initiativeOrder?: string[]; // The DM's arrangement of the tracker, laid over the sort (initiativeOrder.ts)
+  combatMode?: CombatMode; // DM setting: who takes a turn together (absent = "individual")
+  turnTimer?: TurnTimer; // DM setting: each turn's length and what happens when it runs out (turnTimer.ts)
+  turnDeadline?: number; // When the current turn's time runs out (epoch ms); absent = no clock running
+  /**
+   * The current (or last) fight's events (combatLog.ts), filtered for THIS
+   * recipient: a player gets no events about characters they cannot see, and
+   * no NPC hit point numbers in the redacted HP modes. Absent = no fight yet.
+   */
+  combatLog?: CombatEvent[];
   compiledScene?: CompiledScene; // Play-surface geometry compiled at Map Studio publish (secret doors stripped for players)
   mapTerrain?: MapTerrainSnapshot; // Painted terrain published as data (only when the background is elements-only)
   mapElements?: MapElementsSnapshot; // Player-safe live-authored scenery (tiles/stamps/shapes/visible text); privacy-filtered, sent to ALL recipients
@@ -557,6 +710,13 @@ export interface RoomSnapshot {
    * which re-checks room state on every message rather than trusting the UI.
    */
   playerPropsEnabled?: boolean;
+  /**
+   * DM setting: during combat, a player may only move a combatant's token on
+   * that combatant's turn, and no further than its speed along the shortest
+   * legal path (absent = off). Sent to every recipient so the drag preview can
+   * warn before the server refuses; enforcement is the server's, per move.
+   */
+  movementBudgetEnabled?: boolean;
   /**
    * DM setting: sight limit in FEET for every token with no radius of its own
    * (absent = unlimited, today's behaviour). A table rule like `diagonalRule`,
@@ -564,6 +724,37 @@ export interface RoomSnapshot {
    * own fog and a DM-only copy would make the two halves disagree.
    */
   defaultVisionRadius?: number;
+  /**
+   * Explored-area memory (exploredFog.ts) for the published scene: a player
+   * receives only their own mask, the DM every player's. A session file
+   * carries every remembered scene. Absent = nobody remembers anything yet.
+   */
+  exploredFog?: ExploredFogMask[];
+  /**
+   * The DM's painted reveal/conceal regions (fogRegions.ts) for the published
+   * scene, bottom of the stack first. Sent to every recipient, because players
+   * draw their own fog; the server filter applies the same regions to what it
+   * sends. A session file carries every scene's. Absent = nothing painted.
+   */
+  fogRegions?: FogRegion[];
+  /**
+   * The room's saved scenes (scenes.ts), in list order: every one for the DM,
+   * only the active one for players, who have no business knowing where the
+   * party might be going next. Absent = the room never made a scene list.
+   */
+  scenes?: SceneSummary[];
+  /** Which of `scenes` is on the table. */
+  activeSceneId?: string;
+  /**
+   * DM-only: the room's monster templates (bestiary.ts). Stat blocks are the
+   * DM's notes, so players never receive them. Absent = an empty bestiary.
+   */
+  bestiary?: MonsterTemplate[];
+  /**
+   * The DM's shared macros (diceMacros.ts), sent to everyone: every macro bar
+   * at the table shows them. Absent = none.
+   */
+  tableMacros?: DiceMacro[];
   /**
    * True only for the default table WHILE it still opens with the password
    * published in the setup docs — i.e. it is genuinely reachable by anyone, and
@@ -620,6 +811,12 @@ export interface SessionFile {
   mapDocuments: MapDocument[];
   /** Which document was bound to the table, if any. */
   liveMapDocumentId?: string;
+  /**
+   * Every scene in the room, in list order. The active one
+   * (`snapshot.activeSceneId`) has no `content` — the snapshot is its content.
+   * Optional: a file from a room without a scene list simply has none.
+   */
+  scenes?: SavedScene[];
   /**
    * The BYTES behind every `upload:<hash>` / `/assets/<hash>` reference anywhere
    * in this file. Optional: a file saved before this existed simply has none,
@@ -708,6 +905,9 @@ type ClientMessagePayload =
   | { t: "set-token-size"; tokenId: string; size: TokenSize } // Change token size (Phase 11)
   | { t: "set-token-color"; tokenId: string; color: string } // Explicitly set token color
   | { t: "set-token-vision-radius"; tokenId: string; radius: number | null } // DM-only: sight limit in feet, null = unlimited (S7)
+  | { t: "set-token-senses"; tokenId: string; senses: SenseProfile | null } // DM-only: darkvision/blindsight/tremorsense/truesight ranges in feet, null = none
+  | { t: "set-token-light"; tokenId: string; light: TokenLight | null } // Owner or DM: carried torch/lantern/Light cantrip, null = put out
+  | { t: "set-token-speed"; tokenId: string; speed: number | null } // DM-only: walking speed in feet for the movement budget, null = default 30
 
   // Selection actions
   | SelectObjectMessage
@@ -733,6 +933,13 @@ type ClientMessagePayload =
   | { t: "update-character-hp"; characterId: string; hp: number; maxHp: number; tempHp?: number } // Update character HP
   | { t: "set-character-portrait"; characterId: string; portrait?: string } // Update character portrait
   | { t: "set-character-status-effects"; characterId: string; effects: string[] } // Set status effects for character
+  | { t: "set-character-attacks"; characterId: string; attacks: NamedAttack[] } // Owner or DM; coerced server-side
+  | { t: "set-character-macros"; characterId: string; macros: DiceMacro[] } // Owner or DM; coerced server-side
+  | { t: "set-table-macros"; macros: DiceMacro[] } // DM only; every player's macro bar shows them
+  | { t: "set-character-defenses"; characterId: string; ac?: number; savingThrows?: SavingThrows } // Owner or DM; absent clears
+  | { t: "set-character-conditions"; characterId: string; conditions: Condition[] } // Owner or DM; coerced server-side
+  | { t: "roll-death-save"; characterId: string } // Owner or DM; the server rolls the d20 and records it
+  | { t: "set-death-saves"; characterId: string; deathSaves: DeathSaves } // Owner or DM; counts only, for physical dice
   | { t: "link-token"; characterId: string; tokenId: string } // Link token to character
   | {
       t: "create-npc";
@@ -772,6 +979,17 @@ type ClientMessagePayload =
   | { t: "place-npc-token"; id: string }
   | { t: "toggle-npc-visibility"; id: string; visible: boolean }
 
+  // Bestiary actions (DM only): templates are coerced server-side on arrival
+  | { t: "upsert-monster-template"; template: MonsterTemplateInput } // No id adds, an id replaces
+  | { t: "delete-monster-template"; id: string }
+  | { t: "import-bestiary"; templates: MonsterTemplateInput[] } // Same id replaces, new ids are added
+  | {
+      t: "create-npc-from-template";
+      templateId: string;
+      /** How many, like create-npc's; each copy rolls its own hit points. */
+      count?: number;
+    }
+
   // Initiative/Combat actions
   | {
       t: "set-initiative";
@@ -784,6 +1002,15 @@ type ClientMessagePayload =
   | { t: "next-turn" } // Advances to next character in initiative order
   | { t: "previous-turn" } // Goes back to previous character in initiative order
   | { t: "clear-all-initiative" } // Clears all initiative values without ending combat
+  // On your own turn: move to just after `afterCharacterId`, or hold (no id)
+  | { t: "delay-turn"; characterId: string; afterCharacterId?: string }
+  | { t: "resume-turn"; characterId: string } // A holding combatant acts next, after the current turn
+  | { t: "ready-action"; characterId: string; trigger?: string } // Absent trigger clears it
+  | { t: "reorder-initiative"; order: string[] } // DM only: the tracker's new order, by character id
+  | { t: "set-combat-mode"; mode: CombatMode } // DM only: individual, group or side initiative
+  | { t: "set-turn-timer"; timer?: TurnTimer } // DM only: absent timer turns the clock off
+  | { t: "set-character-status"; characterId: string; status: CharacterStatus } // DM only
+  | { t: "remove-defeated" } // DM only: deletes every defeated NPC and its token
 
   // Prop actions
   | {
@@ -861,7 +1088,19 @@ type ClientMessagePayload =
   | { t: "set-monster-hp-display"; mode: MonsterHpDisplay } // DM-only: how much monster HP players see (enforced in the snapshot filter)
   | { t: "set-diagonal-rule"; rule: DiagonalRule } // DM-only: how the table counts diagonal distance
   | { t: "set-player-props-enabled"; enabled: boolean } // DM-only: players may place/manage their own props
+  | { t: "set-movement-budget"; enabled: boolean } // DM-only: hold combatants to their speed on their own turn
   | { t: "set-default-vision-radius"; radius: number | null } // DM-only: table-wide sight limit in feet for tokens with none of their own, null = unlimited
+  | { t: "explored-fog"; mask: ExploredFogUpload } // Upload the sender's explored mask for the published scene; the server ORs it into what it holds
+  | { t: "set-explored-fog"; action: ExploredFogAction; uid?: string } // DM-only: forget or fully reveal a player's (absent = every player's) memory of the published scene
+  | { t: "add-fog-region"; region: FogRegionDraft } // DM-only: paint a reveal/conceal region on top of the published scene's stack
+  | { t: "undo-fog-region" } // DM-only: take the published scene's topmost region back off
+  | { t: "redo-fog-region" } // DM-only: put the last undone region back
+  | { t: "clear-fog-regions" } // DM-only: remove every region from the published scene
+  | { t: "create-scene"; name: string } // DM-only: add an empty scene to the list (the table stays where it is)
+  | { t: "activate-scene"; sceneId: string } // DM-only: move the table to a saved scene; the party's tokens follow
+  | { t: "duplicate-scene"; sceneId: string; name: string } // DM-only: copy a scene, tokens, fog and all, under a new name
+  | { t: "delete-scene"; sceneId: string } // DM-only: remove a saved scene (never the active one)
+  | { t: "use-map-link"; linkId: string; tokenIds: string[] } // Send tokens standing on a published map link to where it leads (players: own tokens, player-usable links only)
 
   // The measurement in progress. Carries NO author — the server stamps
   // identity from the connection, the same rule chat and dice follow. `measure`
@@ -878,8 +1117,21 @@ type ClientMessagePayload =
       formula: string; // Dice notation, e.g. "2d6 + 3" — parsed by parseDiceFormula
       mode?: DiceRollMode; // Absent means "normal"
       visibility?: DiceVisibility; // Absent means "public"
+      targetId?: string; // A character to resolve the roll against (hit/miss/crit)
     }
   | { t: "clear-roll-history" } // Clear all dice rolls
+  // Attacks. Like dice-roll, only names travel: the server looks up the
+  // attack on the attacker, rolls to-hit and damage, and logs both at once.
+  | {
+      t: "roll-attack";
+      attackerId: string; // A character the sender owns (any, for the DM)
+      attackName: string;
+      targetId: string;
+      mode?: DiceRollMode; // Applies to the d20
+      /** DM only: take the damage off the target now instead of on confirmation. */
+      applyDamage?: boolean;
+    }
+  | { t: "apply-attack-damage"; rollId: string } // DM confirms a logged attack's damage
   // Chat. Deliberately carries NO author field: the server stamps identity
   // from the connection. `to` is a whisper target's uid; omit it for the
   // whole table.
@@ -898,6 +1150,7 @@ type ClientMessagePayload =
       // map that cannot be edited afterwards.
       mapDocuments?: MapDocument[];
       liveMapDocumentId?: string;
+      scenes?: SavedScene[]; // SessionFile.scenes: the saved scenes not on the table
     } // Load a saved session state
   | { t: "request-room-resync"; lastSeenVersion?: number; reason?: string } // Request fresh snapshot when client detects version gap
   | {
@@ -987,4 +1240,12 @@ export type ServerMessage =
   | { t: "room-created"; roomId: string } // A private table was minted; client may now join it
   | { t: "room-create-failed"; reason?: string }
   | { t: "table-forked"; roomId: string; name: string } // A copy of this table now lives at roomId
-  | { t: "table-fork-failed"; reason?: string };
+  | { t: "table-fork-failed"; reason?: string }
+  | {
+      t: "map-link-used"; // To every DM: tokens went through a map link
+      label: string;
+      tokenNames: string[];
+      by: string;
+      /** The scene they arrived in; absent when the link stays on this map. */
+      sceneName?: string;
+    };
@@ -0,0 +1,100 @@
+// ============================================================================
+// INITIATIVE ORDER — who goes when, and how the table bends it
+// ============================================================================
+// The order used to be a pure sort on the rolled value. Three things now move
+// a combatant within it, and both the server (which walks it on next-turn)
+// and the client (which draws the tracker) apply them the same way, here:
+//
+//   - Ties break on the initiative modifier first. In 5e that modifier IS the
+//     Dexterity modifier, so this is the "higher Dex goes first" rule without
+//     a second stat to keep. Still tied: PC before NPC, then creation order.
+//   - The DM can drag the tracker into any order. The room keeps that as a
+//     list of ids (`initiativeOrder`) laid over the sorted order; anyone it
+//     does not mention — a fresh roll, a new arrival — slots in where the
+//     sort would put them. That is also how the DM settles a tie by choice.
+//   - A combatant can delay (move to just after someone later this round),
+//     hold (step out of the order until they choose to act), or ready an
+//     action with a trigger. Delay rewrites `initiativeOrder`; hold and ready
+//     are flags on the character (`initiativeHeld`, `readiedAction`).
+
+import type { Character } from "./index.js";
+
+export const INITIATIVE_LIMITS = {
+  /** One entry per combatant, at most; matches the snapshot's character cap. */
+  ORDER_MAX: 500,
+  /** A readied action's trigger, as typed. */
+  TRIGGER_MAX: 200,
+} as const;
+
+/** What the sort reads off a character — the domain and wire shapes both fit. */
+export type InitiativeEntrant = Pick<
+  Character,
+  "id" | "type" | "initiative" | "initiativeModifier"
+>;
+
+/**
+ * The table's sort: higher initiative first; a tie goes to the higher
+ * modifier, then a PC over an NPC, then whoever was created first. A
+ * character with no initiative sorts after everyone who has one.
+ */
+export function compareInitiative(
+  a: InitiativeEntrant,
+  b: InitiativeEntrant,
+  creationIndex: ReadonlyMap<string, number>,
+): number {
+  if (a.initiative !== b.initiative) {
+    if (a.initiative === undefined) return 1;
+    if (b.initiative === undefined) return -1;
+    return b.initiative - a.initiative;
+  }
+  const modifierDiff = (b.initiativeModifier ?? 0) - (a.initiativeModifier ?? 0);
+  if (modifierDiff !== 0) return modifierDiff;
+  if (a.type === "pc" && b.type === "npc") return -1;
+  if (a.type === "npc" && b.type === "pc") return 1;
+  return (creationIndex.get(a.id) ?? 0) - (creationIndex.get(b.id) ?? 0);
+}
+
+/**
+ * Lay the DM's arrangement over an already-sorted list. Entries it names keep
+ * its order; ids it names that are not in `sorted` are ignored; each entry it
+ * does not name goes just after the last entry the sort ranks above it, or
+ * first when there is none.
+ */
+export function applyManualOrder<T>(
+  sorted: T[],
+  idOf: (item: T) => string,
+  manual: readonly string[] | undefined,
+): T[] {
+  if (!manual || manual.length === 0) return sorted;
+  const rank = new Map(sorted.map((item, index) => [idOf(item), index]));
+  const byId = new Map(sorted.map((item) => [idOf(item), item]));
+  const arranged: T[] = [];
+  const named = new Set<string>();
+  const sortRank = (item: T) => rank.get(idOf(item)) ?? 0;
+  for (const id of manual) {
+    const item = byId.get(id);
+    if (item !== undefined && !named.has(id)) {
+      arranged.push(item);
+      named.add(id);
+    }
+  }
+  for (const item of sorted) {
+    if (named.has(idOf(item))) continue;
+    const mine = sortRank(item);
+    let after = -1;
+    arranged.forEach((other, index) => {
+      if (sortRank(other) < mine) after = index;
+    });
+    arranged.splice(after + 1, 0, item);
+  }
+  return arranged;
+}
+
+/** Rebuild a stored arrangement: distinct non-empty ids, capped. */
+export function coerceInitiativeOrder(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const ids = [
+    ...new Set(value.filter((id): id is string => typeof id === "string" && id.length > 0)),
+  ];
+  return ids.length > 0 ? ids.slice(0, INITIATIVE_LIMITS.ORDER_MAX) : undefined;
+}
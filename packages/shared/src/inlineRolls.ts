@@ -0,0 +1,94 @@
+// ============================================================================
+// INLINE ROLLS — dice notation inside a chat line
+// ============================================================================
+// "I swing [[1d20+5]] for [[1d8+3]]" is one chat message with two rolls in it.
+// The text goes over the wire as the player typed it, brackets and all; the
+// SERVER finds the brackets, rolls each with its own RNG and stores the
+// results on the message as `inlineRolls`. Nothing a client sends can set a
+// result, the same rule `{ t: "dice-roll" }` follows (arc defect D2).
+//
+// A result records which bracket it belongs to by position (`index`: the
+// first [[...]] in the text is 0), not by character offset, so the server's
+// trim of the text cannot shift it. A bracket with no result — its notation
+// did not parse, or it came after INLINE_ROLLS_MAX — stays literal text.
+//
+// The rolls are part of the message, so they go wherever it goes: a whisper's
+// rolls reach its author and target and nobody else (visibleChatFor), and
+// they are not copied into the roll log, which has visibility rules of its
+// own that a whisper does not map onto.
+
+import type { DiceRoll } from "./index.js";
+
+/** Brackets rolled per message; any after that are left as written. */
+export const INLINE_ROLLS_MAX = 10;
+
+/** One rolled bracket, settled by the server. */
+export interface InlineRoll {
+  /** Which [[...]] in the message text, counting from 0. */
+  index: number;
+  /** Canonical notation the server rolled. */
+  formula: string;
+  total: number;
+  breakdown: DiceRoll["breakdown"];
+}
+
+/** A bracket as written: its position among the brackets, and what it held. */
+export interface InlineRollSource {
+  index: number;
+  notation: string;
+}
+
+/** A run of a message: plain text, or a bracket with its roll. */
+export type ChatSegment =
+  | { kind: "text"; text: string }
+  | { kind: "roll"; roll: InlineRoll; source: string };
+
+/** A fresh matcher each call: a shared /g regex carries lastIndex between callers. */
+function bracketPattern(): RegExp {
+  return /\[\[([^[\]]*)\]\]/g;
+}
+
+/** The brackets worth rolling, in order, up to INLINE_ROLLS_MAX. */
+export function findInlineRolls(text: string): InlineRollSource[] {
+  const sources: InlineRollSource[] = [];
+  for (const match of text.matchAll(bracketPattern())) {
+    if (sources.length >= INLINE_ROLLS_MAX) break;
+    sources.push({ index: sources.length, notation: match[1] ?? "" });
+  }
+  return sources;
+}
+
+/**
+ * Cut a message into text and rolls for rendering. A bracket whose index has
+ * no roll comes back as text, brackets included, so a message from before
+ * inline rolls — or a file that lost them — reads exactly as it was typed.
+ */
+export function splitInlineRolls(text: string, rolls: unknown): ChatSegment[] {
+  const byIndex = new Map<number, InlineRoll>();
+  if (Array.isArray(rolls)) {
+    for (const roll of rolls as InlineRoll[]) {
+      if (roll && typeof roll.index === "number") byIndex.set(roll.index, roll);
+    }
+  }
+
+  const segments: ChatSegment[] = [];
+  let cursor = 0;
+  let index = 0;
+  const pushText = (piece: string) => {
+    if (!piece) return;
+    const last = segments.at(-1);
+    if (last?.kind === "text") last.text += piece;
+    else segments.push({ kind: "text", text: piece });
+  };
+
+  for (const match of text.matchAll(bracketPattern())) {
+    const start = match.index ?? 0;
+    pushText(text.slice(cursor, start));
+    const roll = byIndex.get(index++);
+    if (roll) segments.push({ kind: "roll", roll, source: match[0] });
+    else pushText(match[0]);
+    cursor = start + match[0].length;
+  }
+  pushText(text.slice(cursor));
+  return segments;
+}
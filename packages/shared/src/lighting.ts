@@ -0,0 +1,318 @@
+// ============================================================================
+// LIGHTING — what a compiled light illuminates, and what a viewer sees by it
+// ============================================================================
+// Lights have been compiled since the first publish, but until now nothing
+// read them: sight was walls plus `visionRadius`, so a torch in a dark room
+// changed nothing. This module turns them into vision input, and it lives in
+// shared for the same reason visibility.ts does — the client's fog and the
+// server's per-recipient filter must run the SAME code on the SAME numbers, or
+// a player's screen and their socket disagree about what is lit.
+//
+// The model is deliberately the tabletop one, not a renderer's:
+//   - the scene has an AMBIENT level (bright, dim or dark), compiled from the
+//     lighting layer's opacity;
+//   - each light lights a BRIGHT band and a DIM band around itself, stopped by
+//     vision-blocking walls unless it was authored not to cast shadows;
+//   - a viewer sees everything in its line of sight that is lit, plus its own
+//     sight radius — and in darkness that radius is all it has.
+// Every one of those is a point-in-polygon question, so the server can answer
+// it per entity without rasterising anything.
+
+import type { BlockingSegment, CompiledLight, CompiledScene } from "./sceneCompiler.js";
+import type { ScenePoint } from "./sceneGeometry.js";
+import { inverseTransformScenePoint } from "./sceneGeometry.js";
+import { computeSensedAreas, type SensedArea, type SenseProfile } from "./senses.js";
+import {
+  computeViewerVisionPolygon,
+  computeVisionPolygon,
+  pointInPolygon,
+  type ViewerVisionInput,
+} from "./visibility.js";
+
+/** How lit a place is, in the three levels the rules care about. */
+export type LightLevel = "bright" | "dim" | "dark";
+
+/**
+ * Ambient thresholds, applied to the lighting layer's opacity (1 = daylight,
+ * toward 0 = night — the same number the terrain bake veils the map with).
+ * Thirds, so the slider reads the way it looks: the top third is day, the
+ * middle is dusk, the bottom is night. Only "dark" changes what anyone can
+ * SEE; dim light hides nothing, it just renders dimmer.
+ */
+export const AMBIENT_BRIGHT_THRESHOLD = 2 / 3;
+export const AMBIENT_DIM_THRESHOLD = 1 / 3;
+
+/**
+ * A light's bright band ends at this fraction of its radius — the 5e torch
+ * (20 ft bright, 20 ft more dim) and lantern shape. Below
+ * `DIM_ONLY_INTENSITY` the whole light is dim: a guttering candle lights its
+ * surroundings without making them bright.
+ */
+export const BRIGHT_BAND_FRACTION = 0.5;
+export const DIM_ONLY_INTENSITY = 0.5;
+
+/**
+ * The scene's ambient level. Absent means daylight — every scene compiled
+ * before ambient existed — and a non-finite value reads as daylight too, so a
+ * corrupt field degrades to the way vision has always worked rather than
+ * plunging a table into the dark.
+ */
+export function ambientLightLevel(ambient: number | undefined): LightLevel {
+  if (ambient === undefined || !Number.isFinite(ambient)) return "bright";
+  if (ambient >= AMBIENT_BRIGHT_THRESHOLD) return "bright";
+  if (ambient >= AMBIENT_DIM_THRESHOLD) return "dim";
+  return "dark";
+}
+
+/** The two bands a light paints, in document units. Bright may be zero. */
+export interface LightBands {
+  bright: number;
+  dim: number;
+}
+
+/**
+ * A light's bands, or null when it lights nothing (no radius, no intensity).
+ * Intensity is the authored 0..1 slider; above `DIM_ONLY_INTENSITY` the light
+ * has a bright core, below it only a dim glow.
+ */
+export function lightBands(light: Pick<CompiledLight, "radius" | "intensity">): LightBands | null {
+  const { radius, intensity } = light;
+  if (!Number.isFinite(radius) || radius <= 0) return null;
+  if (!Number.isFinite(intensity) || intensity <= 0) return null;
+  const bright = intensity >= DIM_ONLY_INTENSITY ? radius * BRIGHT_BAND_FRACTION : 0;
+  return { bright, dim: radius };
+}
+
+/** One band of one light, as the polygon it actually reaches. */
+export interface LitArea {
+  /** The compiled light's id. Both of its bands carry it. */
+  lightId: string;
+  level: "bright" | "dim";
+  /** Document space. A shadow-casting light's polygon stops at walls. */
+  polygon: ScenePoint[];
+  /** The light's position, document space — the polygon is swept from here. */
+  origin: ScenePoint;
+}
+
+/**
+ * Everything the scene's lights reach, band by band. Shadow-casting lights
+ * sweep against the same vision-blocking segments a viewer does, so light
+ * does not leak through a wall any more than sight does; a light authored
+ * with `castsShadows: false` is a plain disc (a magical glow, a skylight).
+ *
+ * Recipient-independent: a broadcast pass computes this once per scene, not
+ * once per player.
+ */
+export function computeLitAreas(
+  lights: readonly CompiledLight[],
+  segments: readonly BlockingSegment[],
+  bounds: { width: number; height: number },
+): LitArea[] {
+  const areas: LitArea[] = [];
+  for (const light of lights) {
+    const bands = lightBands(light);
+    if (!bands) continue;
+    const origin = { x: light.x, y: light.y };
+    const occluders = light.castsShadows ? segments : [];
+    if (bands.bright > 0) {
+      areas.push({
+        lightId: light.id,
+        level: "bright",
+        origin,
+        polygon: computeVisionPolygon(origin, occluders, bounds, {
+          x: bands.bright,
+          y: bands.bright,
+        }),
+      });
+    }
+    areas.push({
+      lightId: light.id,
+      level: "dim",
+      origin,
+      polygon: computeVisionPolygon(origin, occluders, bounds, { x: bands.dim, y: bands.dim }),
+    });
+  }
+  return areas;
+}
+
+/** The scene-wide half of lighting, shared by every viewer in a pass. */
+export interface SceneLighting {
+  ambient: LightLevel;
+  litAreas: LitArea[];
+}
+
+/** Ambient level plus lit areas for a compiled scene. */
+export function computeSceneLighting(
+  scene: Pick<CompiledScene, "ambient" | "lights" | "width" | "height">,
+  segments: readonly BlockingSegment[],
+): SceneLighting {
+  return {
+    ambient: ambientLightLevel(scene.ambient),
+    litAreas: computeLitAreas(scene.lights, segments, {
+      width: scene.width,
+      height: scene.height,
+    }),
+  };
+}
+
+/**
+ * The sight radius a viewer actually has at this ambient level. In darkness a
+ * viewer with NO radius of its own sees nothing by itself — "unlimited" was
+ * always a daylight assumption — while an explicit radius (a DM's "this one
+ * carries a lantern") keeps working. Lit areas are added on top by
+ * `computeLitViewerVision`, never folded into this number.
+ */
+export function sightRadiusFeetAt(
+  radiusFeet: number | null | undefined,
+  ambient: LightLevel,
+): number | undefined {
+  if (ambient === "dark") return radiusFeet ?? 0;
+  return radiusFeet ?? undefined;
+}
+
+/**
+ * One viewer's vision under lighting.
+ *
+ * `sight` is the polygon the viewer sees by itself — exactly what
+ * `computeViewerVisionPolygon` returns for its darkness-adjusted radius.
+ * `lineOfSight` and `lit` exist only when light can add anything: the viewer's
+ * own sight is limited AND some lit area overlaps its unlimited line of sight.
+ * `sensed` and `tremor` are the viewer's special senses (senses.ts), present
+ * only when the token has any. With none of those, this reduces to the
+ * pre-lighting polygon, vertex for vertex.
+ */
+export interface LitViewerVision {
+  sight: ScenePoint[];
+  lineOfSight: ScenePoint[] | null;
+  /** The lit areas this viewer's line of sight reaches into. */
+  lit: LitArea[];
+  /** Darkvision, truesight and blindsight — perceived without any light. */
+  sensed: SensedArea[];
+  /** Tremorsense: reveals tokens inside it, and nothing else. */
+  tremor: ScenePoint[] | null;
+}
+
+export function computeLitViewerVision(
+  input: ViewerVisionInput,
+  lighting: SceneLighting | null,
+  senses?: SenseProfile,
+): LitViewerVision {
+  const ambient = lighting?.ambient ?? "bright";
+  const radiusFeet = sightRadiusFeetAt(input.radiusFeet, ambient);
+  const sight = computeViewerVisionPolygon({ ...input, radiusFeet });
+  const { areas: sensed, tremor } = computeSensedAreas(
+    input,
+    senses,
+    ambient,
+    radiusFeet === undefined,
+  );
+  const unlit: LitViewerVision = { sight, lineOfSight: null, lit: [], sensed, tremor };
+  // Unlimited sight already reaches every lit place it could see.
+  if (!lighting || radiusFeet === undefined || lighting.litAreas.length === 0) {
+    return unlit;
+  }
+  const lineOfSight = computeViewerVisionPolygon({ ...input, radiusFeet: undefined });
+  const documentOrigin = input.mapTransform
+    ? inverseTransformScenePoint(input.mapTransform, input.origin)
+    : input.origin;
+  const lit = lighting.litAreas.filter((area) =>
+    regionsOverlap(area.polygon, area.origin, lineOfSight, documentOrigin),
+  );
+  return lit.length > 0 ? { ...unlit, lineOfSight, lit } : unlit;
+}
+
+/** Is a document-space point visible under this vision? */
+export function isPointLitVisible(vision: LitViewerVision, point: ScenePoint): boolean {
+  if (pointInPolygon(point, vision.sight)) return true;
+  if (vision.sensed.some((area) => pointInPolygon(point, area.polygon))) return true;
+  if (!vision.lineOfSight || !pointInPolygon(point, vision.lineOfSight)) return false;
+  return vision.lit.some((area) => pointInPolygon(point, area.polygon));
+}
+
+/**
+ * Is a TOKEN standing at this document-space point perceived? Everything
+ * visible, plus whatever tremorsense feels through the walls. Only tokens ask
+ * this — tremorsense reveals creatures, never the map or anything drawn on it.
+ */
+export function isPointTokenPerceived(vision: LitViewerVision, point: ScenePoint): boolean {
+  if (isPointLitVisible(vision, point)) return true;
+  return vision.tremor !== null && pointInPolygon(point, vision.tremor);
+}
+
+/**
+ * Do two star-shaped regions share any AREA? Each is a sweep polygon around
+ * its own origin. Touching is not sharing: a light's polygon and a viewer's
+ * line of sight routinely both END on the same wall, one from each side, and
+ * treating that as overlap would hand the player a light from a room they
+ * cannot see into. So vertices are tested after being pulled a hair toward
+ * their own origin (off any shared boundary), and edges only count when they
+ * cross properly.
+ */
+function regionsOverlap(
+  a: readonly ScenePoint[],
+  aOrigin: ScenePoint,
+  b: readonly ScenePoint[],
+  bOrigin: ScenePoint,
+): boolean {
+  if (a.length < 3 || b.length < 3) return false;
+  if (!boundsOverlap(boundsOf(a), boundsOf(b))) return false;
+  if (a.some((point) => pointInPolygon(pullToward(point, aOrigin), b))) return true;
+  if (b.some((point) => pointInPolygon(pullToward(point, bOrigin), a))) return true;
+  for (let i = 0; i < a.length; i += 1) {
+    const a1 = a[i]!;
+    const a2 = a[(i + 1) % a.length]!;
+    for (let j = 0; j < b.length; j += 1) {
+      if (crossesProperly(a1, a2, b[j]!, b[(j + 1) % b.length]!)) return true;
+    }
+  }
+  return false;
+}
+
+/** How far (document px) a vertex is pulled off its polygon's boundary. */
+const BOUNDARY_PULL = 0.5;
+
+function pullToward(point: ScenePoint, origin: ScenePoint): ScenePoint {
+  const dx = origin.x - point.x;
+  const dy = origin.y - point.y;
+  const length = Math.hypot(dx, dy);
+  if (length <= BOUNDARY_PULL) return origin;
+  return { x: point.x + (dx / length) * BOUNDARY_PULL, y: point.y + (dy / length) * BOUNDARY_PULL };
+}
+
+/** Strict crossing: shared endpoints and collinear overlap do not count. */
+function crossesProperly(a1: ScenePoint, a2: ScenePoint, b1: ScenePoint, b2: ScenePoint): boolean {
+  const d1 = cross(b1, b2, a1);
+  const d2 = cross(b1, b2, a2);
+  const d3 = cross(a1, a2, b1);
+  const d4 = cross(a1, a2, b2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function cross(a: ScenePoint, b: ScenePoint, c: ScenePoint): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function boundsOf(polygon: readonly ScenePoint[]): Bounds {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const point of polygon) {
+    if (point.x < minX) minX = point.x;
+    if (point.y < minY) minY = point.y;
+    if (point.x > maxX) maxX = point.x;
+    if (point.y > maxY) maxY = point.y;
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+function boundsOverlap(a: Bounds, b: Bounds): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
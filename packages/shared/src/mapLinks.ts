@@ -0,0 +1,69 @@
+// ============================================================================
+// MAP LINKS — stairs, ladders, portals and map edges at the table
+// ============================================================================
+// A published map link is a box on the map (CompiledMapLink). The tokens
+// standing in it are the ones that can be sent through, so "is this token on
+// the link" is the whole contract: the client asks it to offer the button,
+// the server asks it again before moving anything, and both must agree.
+//
+// Tokens live in grid cells and links in document px; the question is asked
+// in document space, through the map object's transform, the same chain
+// every other token-against-scene check uses (gridCellToWorldPoint first).
+
+import type { CompiledMapLink, CompiledScene } from "./sceneCompiler.js";
+import {
+  gridCellToWorldPoint,
+  inverseTransformScenePoint,
+  type ScenePoint,
+  type SceneTransform,
+} from "./sceneGeometry.js";
+
+/** Most tokens one use of a link may carry — a whole party and its animals. */
+export const MAX_MAP_LINK_TOKENS = 50;
+
+/** Display names for the four kinds, for buttons and toasts. */
+export const MAP_LINK_KIND_LABELS = {
+  stairs: "Stairs",
+  ladder: "Ladder",
+  portal: "Portal",
+  "map-edge": "Map edge",
+} as const;
+
+/**
+ * True when the token's cell centre lies in the link's box, give or take half
+ * a square — a token parked on the top step of a one-square staircase is on
+ * it, even when the art and the grid disagree by a few pixels.
+ */
+export function isTokenOnMapLink(
+  link: CompiledMapLink,
+  cell: ScenePoint,
+  gridSize: number,
+  mapTransform?: SceneTransform,
+): boolean {
+  const world = gridCellToWorldPoint(gridSize, cell);
+  const point = mapTransform ? inverseTransformScenePoint(mapTransform, world) : world;
+  const slack = gridSize / 2 / Math.abs(mapTransform?.scaleX || 1);
+  return (
+    point.x >= link.x - slack &&
+    point.x <= link.x + link.width + slack &&
+    point.y >= link.y - slack &&
+    point.y <= link.y + link.height + slack
+  );
+}
+
+/**
+ * The links every one of `cells` stands on, in map order. Empty when there is
+ * no scene, no links, or no cells: a link is offered to a group only when the
+ * whole group is on it, so nobody is left behind by accident.
+ */
+export function mapLinksUnder(
+  scene: CompiledScene | null | undefined,
+  cells: ScenePoint[],
+  gridSize: number,
+  mapTransform?: SceneTransform,
+): CompiledMapLink[] {
+  if (!scene?.links || cells.length === 0) return [];
+  return scene.links.filter((link) =>
+    cells.every((cell) => isTokenOnMapLink(link, cell, gridSize, mapTransform)),
+  );
+}
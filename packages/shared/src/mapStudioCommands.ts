@@ -14,6 +14,7 @@ import {
   removeMapElement,
   updateMapDoor,
   updateMapElement,
+  updateMapLink,
 } from "./mapStudioElements.js";
 import type {
   MapDocument,
@@ -23,6 +24,7 @@ import type {
   MapGridUpdate,
   MapLayer,
   MapLayerUpdate,
+  MapLinkElement,
 } from "./mapStudioTypes.js";
 
 interface MapCommandBase {
@@ -52,6 +54,7 @@ export type MapDocumentCommand =
       state: MapDoorState;
       width: number;
     })
+  | (MapCommandBase & { type: "update-link"; elementId: string; link: MapLinkElement["data"] })
   | (MapCommandBase & { type: "remove-element"; elementId: string })
   | (MapCommandBase & { type: "paint-terrain"; cells: TerrainPaintCell[] })
   | (MapCommandBase & { type: "place-room"; cells: TerrainPaintCell[]; elements: MapElement[] });
@@ -132,6 +135,9 @@ export function applyMapDocumentCommand(
         timestamp,
       );
       break;
+    case "update-link":
+      next = updateMapLink(document, command.elementId, command.link, timestamp);
+      break;
     case "remove-element":
       next = removeMapElement(document, command.elementId, timestamp);
       break;
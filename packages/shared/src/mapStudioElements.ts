@@ -8,7 +8,13 @@ import {
   requireElementIndex,
   sanitizeElement,
 } from "./mapStudioValidation.js";
-import type { MapDocument, MapDoorState, MapElement, MapElementUpdate } from "./mapStudioTypes.js";
+import type {
+  MapDocument,
+  MapDoorState,
+  MapElement,
+  MapElementUpdate,
+  MapLinkElement,
+} from "./mapStudioTypes.js";
 
 export function addMapElement(
   document: MapDocument,
@@ -124,6 +130,30 @@ export function updateMapDoor(
   return commit(document, { elements }, timestamp);
 }
 
+/**
+ * Author a placed map link: what it is, where it goes, who may use it. The
+ * same dedicated data path as updateMapDoor, for the same reason — the element
+ * id must survive, because use-map-link keys on it after a re-publish. The
+ * whole data block is replaced (a link has no runtime flags to preserve), and
+ * sanitizeElement re-checks the target.
+ */
+export function updateMapLink(
+  document: MapDocument,
+  elementId: string,
+  link: MapLinkElement["data"],
+  timestamp: number = Date.now(),
+): MapDocument {
+  const index = requireElementIndex(document, elementId);
+  const current = document.elements[index]!;
+  requireEditableLayer(document, current.layerId);
+  if (current.locked) throw new Error(`Map element is locked: ${elementId}`);
+  if (current.type !== "link") throw new Error(`Map element is not a map link: ${elementId}`);
+  const next = sanitizeElement({ ...current, data: { ...link, target: { ...link.target } } });
+  const elements = [...document.elements];
+  elements[index] = next;
+  return commit(document, { elements }, timestamp);
+}
+
 export function removeMapElement(
   document: MapDocument,
   elementId: string,
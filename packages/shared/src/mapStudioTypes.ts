@@ -112,6 +112,57 @@ export interface MapSplineElement extends MapElementBase {
   };
 }
 
+/**
+ * How a patch of ground treats a creature walking it: `difficult` costs double
+ * to enter, `impassable` cannot be entered at all. Declared by painted terrain
+ * kinds (terrainMovement.ts) and by area elements, and compiled into the
+ * scene's movement cost grid.
+ */
+export type TerrainMovement = "difficult" | "impassable";
+
+/** A polygon of rules-only ground — rubble, a bog, a chasm — that the scene
+ * compiler turns into movement cost. Points are local px, transformed like a
+ * wall's. DM-only geometry: never rendered at the table, the same as walls,
+ * because what it marks is already in the art. */
+export interface MapAreaElement extends MapElementBase {
+  type: "area";
+  data: {
+    points: { x: number; y: number }[];
+    movement: TerrainMovement;
+  };
+}
+
+/** How a map link reads at the table; the behaviour is the same for all four. */
+export type MapLinkKind = "stairs" | "ladder" | "portal" | "map-edge";
+
+export const MAP_LINK_KINDS: readonly MapLinkKind[] = ["stairs", "ladder", "portal", "map-edge"];
+
+/** Where a map link sets tokens down: a point, in document px, on a map. */
+export interface MapLinkTarget {
+  documentId: string;
+  x: number;
+  y: number;
+}
+
+/** A doorway to elsewhere — stairs down, a ladder up, a portal, the edge of
+ * the map. A width x height box in local px, transformed like a stamp; tokens
+ * standing on it can be sent to `target`, which may be this same document
+ * (a trapdoor to the cellar) or another one (the road out of town). The room
+ * resolves a document to the scene showing it when the link is used.
+ * `playersMayUse` opens it to the party; otherwise only the DM moves tokens
+ * through, and players are never told it is there. */
+export interface MapLinkElement extends MapElementBase {
+  type: "link";
+  data: {
+    kind: MapLinkKind;
+    label: string;
+    width: number;
+    height: number;
+    target: MapLinkTarget;
+    playersMayUse: boolean;
+  };
+}
+
 export type MapElement =
   | MapTileElement
   | MapStampElement
@@ -120,7 +171,9 @@ export type MapElement =
   | MapDoorElement
   | MapLightElement
   | MapTextElement
-  | MapSplineElement;
+  | MapSplineElement
+  | MapAreaElement
+  | MapLinkElement;
 
 /**
  * A map element narrowed to what ANY player may safely see rendered at the live
@@ -1,4 +1,9 @@
-import type { MapDocument, MapElement, MapLayer } from "./mapStudioTypes.js";
+import {
+  MAP_LINK_KINDS,
+  type MapDocument,
+  type MapElement,
+  type MapLayer,
+} from "./mapStudioTypes.js";
 
 export function sanitizeLayer(layer: MapLayer): MapLayer {
   const id = requireText(layer.id, "Map layer id");
@@ -72,6 +77,40 @@ export function sanitizeElement(element: MapElement): MapElement {
         transform,
         data: { ...element.data, points: clonePoints(element.data.points) },
       };
+    case "link": {
+      const { target } = element.data;
+      if (!MAP_LINK_KINDS.includes(element.data.kind)) {
+        throw new Error("Map link kind must be stairs, ladder, portal or map-edge");
+      }
+      requirePositiveNumber(element.data.width, "Map link width");
+      requirePositiveNumber(element.data.height, "Map link height");
+      requireFiniteNumber(target.x, "Map link target X");
+      requireFiniteNumber(target.y, "Map link target Y");
+      return {
+        ...element,
+        id,
+        layerId,
+        transform,
+        data: {
+          ...element.data,
+          label: requireText(element.data.label, "Map link label"),
+          target: { ...target, documentId: requireText(target.documentId, "Map link target map") },
+          playersMayUse: element.data.playersMayUse === true,
+        },
+      };
+    }
+    case "area":
+      requirePointCount(element.data.points, 3, "Area");
+      if (element.data.movement !== "difficult" && element.data.movement !== "impassable") {
+        throw new Error("Area movement must be difficult or impassable");
+      }
+      return {
+        ...element,
+        id,
+        layerId,
+        transform,
+        data: { ...element.data, points: clonePoints(element.data.points) },
+      };
   }
 }
 
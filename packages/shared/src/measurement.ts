@@ -12,6 +12,7 @@
 // defect D11).
 
 import { gridCellToWorldPoint } from "./sceneGeometry.js";
+import { TERRAIN_DIFFICULT_MULTIPLIER, type TerrainMovementLookup } from "./terrainMovement.js";
 
 export interface MeasurePoint {
   x: number;
@@ -72,6 +73,11 @@ export interface GridDistanceInput {
   /** Feet per grid square (`RoomState.gridSquareSize`, default 5). */
   gridSquareSize: number;
   rule: DiagonalRule;
+  /**
+   * The scene's ground (`createTerrainMovementLookup`). When given, squares of
+   * difficult terrain along the line cost double, as they do to walk.
+   */
+  terrain?: TerrainMovementLookup;
 }
 
 export interface GridDistance {
@@ -86,6 +92,8 @@ export interface GridDistance {
    */
   from: MeasurePoint;
   to: MeasurePoint;
+  /** Present (true) when the line crosses difficult terrain and was charged for it. */
+  difficult?: boolean;
 }
 
 /** One decimal place, the precision the readout has always shown. */
@@ -112,16 +120,25 @@ export function measureGridDistance(input: GridDistanceInput): GridDistance {
     return { squares: 0, feet: 0, from: start, to: end };
   }
 
+  const fromCell = worldPointToGridCell(gridSize, start);
+  const toCell = worldPointToGridCell(gridSize, end);
+  const toll = input.terrain ? terrainToll(fromCell, toCell, rule, input.terrain) : undefined;
+  const difficult = toll && toll.steps > 0 ? { difficult: true } : {};
+
   if (rule === "euclidean") {
-    const squares = round1(Math.hypot(end.x - start.x, end.y - start.y) / gridSize);
+    const straight = Math.hypot(end.x - start.x, end.y - start.y) / gridSize;
+    // The share of the line's steps that land in difficult squares is the
+    // share of its length charged at the difficult rate.
+    const charged = toll
+      ? straight * (1 + toll.share * (TERRAIN_DIFFICULT_MULTIPLIER - 1))
+      : straight;
+    const squares = round1(charged);
     // Feet derive from the ROUNDED square count, matching the original
     // readout: at grid 50 / 5 ft, a 141px diagonal has always read
     // "2.8 Squares (14 ft)" and not "14.1".
-    return { squares, feet: round1(squares * feetPerSquare), from: start, to: end };
+    return { squares, feet: round1(squares * feetPerSquare), from: start, to: end, ...difficult };
   }
 
-  const fromCell = worldPointToGridCell(gridSize, start);
-  const toCell = worldPointToGridCell(gridSize, end);
   const dx = Math.abs(toCell.x - fromCell.x);
   const dy = Math.abs(toCell.y - fromCell.y);
   const long = Math.max(dx, dy);
@@ -130,20 +147,58 @@ export function measureGridDistance(input: GridDistanceInput): GridDistance {
   // Both rules walk `short` diagonal steps and `long - short` straight ones.
   // 5e charges one square for every step. Pathfinder charges two for every
   // SECOND diagonal, which is exactly `Math.floor(short / 2)` extra squares.
-  const squares = rule === "5e" ? long : long + Math.floor(short / 2);
+  const squares = (rule === "5e" ? long : long + Math.floor(short / 2)) + (toll?.extra ?? 0);
 
   return {
     squares,
     feet: round1(squares * feetPerSquare),
     from: gridCellToWorldPoint(gridSize, fromCell),
     to: gridCellToWorldPoint(gridSize, toCell),
+    ...difficult,
   };
 }
 
+/**
+ * What difficult terrain adds along the straight walk between two cells: the
+ * walk's `long` steps, each entering the cell the line has reached by then.
+ * `extra` is the squares charged again under a grid rule (the step's own cost
+ * once more), `steps` how many steps were difficult, `share` their fraction.
+ */
+function terrainToll(
+  from: MeasurePoint,
+  to: MeasurePoint,
+  rule: DiagonalRule,
+  terrain: TerrainMovementLookup,
+): { extra: number; steps: number; share: number } {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const long = Math.max(Math.abs(dx), Math.abs(dy));
+  let extra = 0;
+  let steps = 0;
+  let diagonals = 0;
+  let previous = from;
+  for (let i = 1; i <= long; i += 1) {
+    const cell = {
+      x: from.x + Math.round((i * dx) / long),
+      y: from.y + Math.round((i * dy) / long),
+    };
+    const diagonal = cell.x !== previous.x && cell.y !== previous.y;
+    if (diagonal) diagonals += 1;
+    const cost = rule === "pathfinder" && diagonal && diagonals % 2 === 0 ? 2 : 1;
+    if (terrain(cell) === "difficult") {
+      extra += cost * (TERRAIN_DIFFICULT_MULTIPLIER - 1);
+      steps += 1;
+    }
+    previous = cell;
+  }
+  return { extra, steps, share: long > 0 ? steps / long : 0 };
+}
+
 /**
  * The readout string. Shared so a broadcast measurement reads the same on
  * every screen at the table, character for character.
  */
 export function formatMeasurement(distance: GridDistance): string {
-  return `${distance.squares} Squares (${distance.feet} ft)`;
+  const terrain = distance.difficult ? ", difficult" : "";
+  return `${distance.squares} Squares (${distance.feet} ft${terrain})`;
 }
@@ -10,6 +10,7 @@ import type {
   Character as ICharacter,
   TokenSize,
 } from "./index.js";
+import { applyDamage } from "./hpUtils.js";
 
 /**
  * Token domain model
@@ -247,33 +248,16 @@ export class PlayerModel {
    * Take damage (consumes tempHp first, then hp)
    */
   takeDamage(amount: number): PlayerModel {
-    const currentTempHp = this.tempHp ?? 0;
-    const currentHp = this.hp ?? 0;
-
-    let remainingDamage = amount;
-    let newTempHp = currentTempHp;
-    let newHp = currentHp;
-
-    // Consume temp HP first
-    if (currentTempHp > 0) {
-      const tempHpAbsorbed = Math.min(currentTempHp, remainingDamage);
-      newTempHp = currentTempHp - tempHpAbsorbed;
-      remainingDamage -= tempHpAbsorbed;
-    }
-
-    // Apply remaining damage to regular HP
-    if (remainingDamage > 0) {
-      newHp = Math.max(0, currentHp - remainingDamage);
-    }
+    const { hp, tempHp } = applyDamage(this.hp ?? 0, this.tempHp, amount);
 
     return new PlayerModel(
       this.uid,
       this.name,
       this.portrait,
       this.micLevel,
-      newHp,
+      hp,
       this.maxHp,
-      newTempHp > 0 ? newTempHp : undefined,
+      tempHp,
       this.isDM,
       [...this.statusEffects],
     );
@@ -451,26 +435,8 @@ export class CharacterModel {
    * Apply incoming damage (consumes tempHp first, then hp)
    */
   takeDamage(amount: number): CharacterModel {
-    const currentTempHp = this.tempHp ?? 0;
-    const currentHp = this.hp;
-
-    let remainingDamage = amount;
-    let newTempHp = currentTempHp;
-    let newHp = currentHp;
-
-    // Consume temp HP first
-    if (currentTempHp > 0) {
-      const tempHpAbsorbed = Math.min(currentTempHp, remainingDamage);
-      newTempHp = currentTempHp - tempHpAbsorbed;
-      remainingDamage -= tempHpAbsorbed;
-    }
-
-    // Apply remaining damage to regular HP
-    if (remainingDamage > 0) {
-      newHp = Math.max(0, currentHp - remainingDamage);
-    }
-
-    return this.setHP(newHp, this.maxHp, newTempHp > 0 ? newTempHp : undefined);
+    const { hp, tempHp } = applyDamage(this.hp, this.tempHp, amount);
+    return this.setHP(hp, this.maxHp, tempHp);
   }
 
   /**
@@ -0,0 +1,290 @@
+// ============================================================================
+// PATH SEARCH — the A* engine under pathfinding.ts
+// ============================================================================
+// Split from pathfinding.ts so that module reads as the rules (what a legal
+// step is, what a walk costs) and this one as the machinery that applies them
+// fast enough to run on every move message: walls bucketed by the cells near
+// them, cost and parent arrays indexed by cell, and a binary heap. Internal to
+// the package — nothing here is re-exported from the barrel.
+
+import type { DiagonalRule } from "./measurement.js";
+import { gridCellToWorldPoint, segmentsIntersect, type ScenePoint } from "./sceneGeometry.js";
+
+export interface WorldSegment {
+  a: ScenePoint;
+  b: ScenePoint;
+}
+
+export interface CellBounds {
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+const SQRT2 = Math.SQRT2;
+
+const STEPS: readonly { dx: number; dy: number }[] = [
+  { dx: 1, dy: 0 },
+  { dx: -1, dy: 0 },
+  { dx: 0, dy: 1 },
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 1 },
+  { dx: 1, dy: -1 },
+  { dx: -1, dy: 1 },
+  { dx: -1, dy: -1 },
+];
+
+/**
+ * Segments bucketed by the cells near them, so a step only tests the walls
+ * within reach of the cell it leaves instead of every wall on the map.
+ */
+function bucketSegments(
+  segments: readonly WorldSegment[],
+  gridSize: number,
+  bounds: CellBounds,
+  pad: number,
+): Map<number, number[]> {
+  const buckets = new Map<number, number[]>();
+  segments.forEach((segment, index) => {
+    const x0 = Math.max(
+      bounds.minX,
+      Math.floor(Math.min(segment.a.x, segment.b.x) / gridSize) - pad,
+    );
+    const x1 = Math.min(
+      bounds.minX + bounds.width - 1,
+      Math.floor(Math.max(segment.a.x, segment.b.x) / gridSize) + pad,
+    );
+    const y0 = Math.max(
+      bounds.minY,
+      Math.floor(Math.min(segment.a.y, segment.b.y) / gridSize) - pad,
+    );
+    const y1 = Math.min(
+      bounds.minY + bounds.height - 1,
+      Math.floor(Math.max(segment.a.y, segment.b.y) / gridSize) + pad,
+    );
+    for (let y = y0; y <= y1; y += 1) {
+      for (let x = x0; x <= x1; x += 1) {
+        const key = (y - bounds.minY) * bounds.width + (x - bounds.minX);
+        const bucket = buckets.get(key);
+        if (bucket) bucket.push(index);
+        else buckets.set(key, [index]);
+      }
+    }
+  });
+  return buckets;
+}
+
+interface SearchInput {
+  from: ScenePoint;
+  to: ScenePoint;
+  rule: DiagonalRule;
+  gridSize: number;
+  segments: readonly WorldSegment[];
+  reach: number;
+  bounds: CellBounds;
+  maxSquares: number;
+  /** What stepping into a cell multiplies the step's cost by: 1, 2, or Infinity. */
+  toll?: (x: number, y: number) => number;
+}
+
+/**
+ * A* over (cell, diagonal parity). Parity only matters under `pathfinder`,
+ * where the next diagonal costs 1 or 2 depending on how many came before, so
+ * two arrivals at the same cell are different states there and the same state
+ * everywhere else.
+ */
+export function searchGridPath(input: SearchInput): ScenePoint[] | null {
+  const { from, to, rule, gridSize, segments, reach, bounds, maxSquares, toll } = input;
+  const { minX, minY, width, height } = bounds;
+  const layers = rule === "pathfinder" ? 2 : 1;
+  const buckets = bucketSegments(segments, gridSize, bounds, 1 + Math.ceil(reach));
+  const cellCount = width * height;
+  const cost = new Float64Array(cellCount * layers).fill(Infinity);
+  const parent = new Int32Array(cellCount * layers).fill(-1);
+  const fits = new Int8Array(cellCount); // 0 unknown, 1 fits, -1 does not
+  const tolls = toll ? new Float64Array(cellCount).fill(NaN) : undefined;
+  const heap = new MinHeap();
+
+  const cellIndex = (x: number, y: number) => (y - minY) * width + (x - minX);
+  const centre = (x: number, y: number) => gridCellToWorldPoint(gridSize, { x, y });
+  const nearby = (index: number) => buckets.get(index) ?? [];
+
+  const stepClear = (index: number, a: ScenePoint, b: ScenePoint) =>
+    nearby(index).every((s) => !segmentsIntersect(a, b, segments[s]!.a, segments[s]!.b));
+
+  const bodyFits = (index: number, x: number, y: number): boolean => {
+    if (reach === 0) return true;
+    if (fits[index] === 0) {
+      // Shrunk by a hair so a wall exactly on the body's edge is a touch, not a cut.
+      const half = reach * gridSize - gridSize * 1e-3;
+      const c = centre(x, y);
+      const clear = nearby(index).every(
+        (s) => !segmentCutsBox(segments[s]!, c.x - half, c.y - half, c.x + half, c.y + half),
+      );
+      fits[index] = clear ? 1 : -1;
+    }
+    return fits[index] === 1;
+  };
+
+  const tollAt = (index: number, x: number, y: number): number => {
+    if (!tolls) return 1;
+    if (Number.isNaN(tolls[index]!)) tolls[index] = toll!(x, y);
+    return tolls[index]!;
+  };
+
+  const heuristic = (x: number, y: number): number => {
+    const dx = Math.abs(to.x - x);
+    const dy = Math.abs(to.y - y);
+    const long = Math.max(dx, dy);
+    const short = Math.min(dx, dy);
+    if (rule === "5e") return long;
+    if (rule === "pathfinder") return long + Math.floor(short / 2);
+    return long - short + short * SQRT2;
+  };
+
+  const start = cellIndex(from.x, from.y);
+  cost[start] = 0;
+  heap.push(heuristic(from.x, from.y), start);
+
+  while (heap.size > 0) {
+    const [priority, state] = heap.pop();
+    const index = state % cellCount;
+    const parity = (state - index) / cellCount;
+    const x = minX + (index % width);
+    const y = minY + Math.floor(index / width);
+    const g = cost[state]!;
+    // A stale entry: this state was reached more cheaply after it was queued.
+    if (priority - heuristic(x, y) > g + 1e-9) continue;
+    if (x === to.x && y === to.y) {
+      return unwind(parent, state, cellCount, width, minX, minY);
+    }
+    const here = centre(x, y);
+    for (const { dx, dy } of STEPS) {
+      const nx = x + dx;
+      const ny = y + dy;
+      if (nx < minX || ny < minY || nx >= minX + width || ny >= minY + height) continue;
+      const diagonal = dx !== 0 && dy !== 0;
+      let stepCost = 1;
+      let nextParity = parity;
+      if (diagonal) {
+        if (rule === "euclidean") stepCost = SQRT2;
+        else if (rule === "pathfinder") {
+          stepCost = parity === 0 ? 1 : 2;
+          nextParity = 1 - parity;
+        }
+      }
+      const nextIndex = cellIndex(nx, ny);
+      // Tolls only ever raise a step's cost, so the heuristic stays a lower bound.
+      const ng = g + stepCost * tollAt(nextIndex, nx, ny);
+      if (ng > maxSquares + 1e-9) continue;
+      const nextState = nextParity * cellCount + nextIndex;
+      if (ng >= cost[nextState]!) continue;
+      if (!stepClear(index, here, centre(nx, ny)) || !bodyFits(nextIndex, nx, ny)) continue;
+      cost[nextState] = ng;
+      parent[nextState] = state;
+      heap.push(ng + heuristic(nx, ny), nextState);
+    }
+  }
+  return null;
+}
+
+function unwind(
+  parent: Int32Array,
+  goal: number,
+  cellCount: number,
+  width: number,
+  minX: number,
+  minY: number,
+): ScenePoint[] {
+  const cells: ScenePoint[] = [];
+  for (let state = goal; state !== -1; state = parent[state]!) {
+    const index = state % cellCount;
+    cells.push({ x: minX + (index % width), y: minY + Math.floor(index / width) });
+  }
+  return cells.reverse();
+}
+
+/** Whether a segment passes through the inside of an axis-aligned box (Liang–Barsky). */
+function segmentCutsBox(
+  segment: WorldSegment,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+): boolean {
+  const dx = segment.b.x - segment.a.x;
+  const dy = segment.b.y - segment.a.y;
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dx, segment.a.x - left],
+    [dx, right - segment.a.x],
+    [-dy, segment.a.y - top],
+    [dy, bottom - segment.a.y],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) t0 = Math.max(t0, t);
+    else t1 = Math.min(t1, t);
+    if (t0 > t1) return false;
+  }
+  return true;
+}
+
+/** A binary min-heap of (priority, state) pairs — just enough for A*. */
+class MinHeap {
+  private priorities: number[] = [];
+  private states: number[] = [];
+
+  get size(): number {
+    return this.states.length;
+  }
+
+  push(priority: number, state: number): void {
+    this.priorities.push(priority);
+    this.states.push(state);
+    let i = this.states.length - 1;
+    while (i > 0) {
+      const up = (i - 1) >> 1;
+      if (this.priorities[up]! <= priority) break;
+      this.swap(i, up);
+      i = up;
+    }
+  }
+
+  pop(): [number, number] {
+    const top: [number, number] = [this.priorities[0]!, this.states[0]!];
+    const lastPriority = this.priorities.pop()!;
+    const lastState = this.states.pop()!;
+    if (this.states.length > 0) {
+      this.priorities[0] = lastPriority;
+      this.states[0] = lastState;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.states.length && this.priorities[left]! < this.priorities[smallest]!) {
+          smallest = left;
+        }
+        if (right < this.states.length && this.priorities[right]! < this.priorities[smallest]!) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b]!, this.priorities[a]!];
+    [this.states[a], this.states[b]] = [this.states[b]!, this.states[a]!];
+  }
+}
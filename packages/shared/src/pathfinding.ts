@@ -0,0 +1,323 @@
+// ============================================================================
+// PATHFINDING — the shortest legal walk between two grid cells
+// ============================================================================
+// Movement used to be checked as ONE straight segment from where a token stood
+// to where it landed. That is the right question for "may I walk through this
+// wall" and the wrong one for everything else: a drop two squares past a wall's
+// end was refused even though a creature can walk round it, and a drop 40
+// squares away was accepted as one step. What a move actually costs is the
+// length of the walk a creature would take, so that is what this module finds.
+//
+// The walk is made of grid steps between cell centres — the eight neighbours
+// of a square, as on a battle mat. A step is legal when the line between the
+// two centres crosses no movement-blocking segment (walls and shut doors, the
+// same list `findBlockingSegment` reads), and when the token's body fits in
+// the square it steps into. Endpoint touches count as crossings, which is what
+// stops a diagonal step slipping between two walls that meet at a grid corner.
+//
+// Cost is the table's diagonal rule, charged the way `measureGridDistance`
+// counts it, so across open ground the routed cost and the measure overlay
+// give the same number. Ground the scene marks difficult doubles the cost of
+// every step into it, and impassable ground cannot be stepped into at all
+// (terrainMovement.ts). The one module server enforcement and client previews
+// both read, for the reason measurement.ts gives for its own existence.
+
+import type { TokenSize } from "./index.js";
+import { measureGridDistance, type DiagonalRule } from "./measurement.js";
+import { getMovementBlockingSegments, type CompiledScene } from "./sceneCompiler.js";
+import {
+  gridCellToWorldPoint,
+  segmentsIntersect,
+  transformScenePoint,
+  type ScenePoint,
+  type SceneTransform,
+} from "./sceneGeometry.js";
+import { searchGridPath, type CellBounds, type WorldSegment } from "./pathSearch.js";
+import {
+  TERRAIN_DIFFICULT_MULTIPLIER,
+  createTerrainMovementLookup,
+  type TerrainMovementLookup,
+} from "./terrainMovement.js";
+
+/**
+ * The side of the square a creature of each size controls, in grid squares
+ * (5e PHB "Size Categories"). Tiny and Small share a Medium square: the grid
+ * is the smallest unit a wall can be drawn against.
+ */
+export const TOKEN_FOOTPRINT_SQUARES: Record<TokenSize, number> = {
+  tiny: 1,
+  small: 1,
+  medium: 1,
+  large: 2,
+  huge: 3,
+  gargantuan: 4,
+};
+
+/**
+ * The largest search area, in cells, a single query may cover. A move between
+ * two points that far apart is not a step anybody takes in play, and the
+ * ceiling keeps a stray far-off token from turning one message into a long
+ * stall on the server's event loop. Over the ceiling is "no legal path".
+ */
+export const PATH_SEARCH_MAX_CELLS = 250_000;
+
+export interface GridPathQuery {
+  /** The compiled scene to route around. Absent: open ground, a straight count. */
+  scene?: CompiledScene;
+  /** Start and end in GRID CELLS (the unit `Token.x`/`Token.y` are stored in). */
+  from: ScenePoint;
+  to: ScenePoint;
+  /** World pixels per grid square (`RoomState.gridSize`). */
+  gridSize: number;
+  /** Feet per grid square (`RoomState.gridSquareSize`, default 5). */
+  gridSquareSize: number;
+  rule: DiagonalRule;
+  /** The live map transform, when the DM has moved or scaled the published art. */
+  mapTransform?: SceneTransform;
+  /** The moving token's size; absent is Medium. */
+  size?: TokenSize;
+  /** Refuse any walk longer than this many feet (a remaining speed budget). */
+  maxFeet?: number;
+}
+
+export interface GridPath {
+  /** Every cell the walk visits, start and end included. */
+  cells: ScenePoint[];
+  /** Length in squares under the query's rule (whole under a grid rule). */
+  squares: number;
+  /** The same length in feet. */
+  feet: number;
+  /** Present (true) when the walk enters difficult terrain and was charged for it. */
+  difficult?: boolean;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function roundCell(cell: ScenePoint): ScenePoint {
+  return { x: Math.round(cell.x), y: Math.round(cell.y) };
+}
+
+/**
+ * How far a token's body reaches from its cell centre, in squares, beyond the
+ * half square every token already has. The renderer draws every token centred
+ * on a cell, so a Large token's two-square body cannot be CENTRED in a
+ * two-square corridor; measuring the body from the centre with touches allowed
+ * keeps the 5e answers (Huge needs 15 ft of width, Gargantuan 20 ft) and lets
+ * a Large creature squeeze down a 5 ft corridor, which 5e also allows.
+ */
+function bodyReach(size: TokenSize | undefined): number {
+  const squares = TOKEN_FOOTPRINT_SQUARES[size ?? "medium"] ?? 1;
+  return (squares - 1) / 2;
+}
+
+/**
+ * Find the shortest legal walk from `from` to `to`, or null when there is none
+ * — a wall with no way round, a body too big for the only gap, a destination
+ * on impassable ground, or every way round costing more than `maxFeet`.
+ *
+ * With no scene, or a scene with nothing that blocks movement or costs extra,
+ * the walk is the straight count `measureGridDistance` gives. Under
+ * `euclidean` the search still walks grid steps, but the charge is the length
+ * of the taut string along that walk — straight across open floor, bending
+ * only at the corners it must — so an unobstructed move costs exactly what
+ * the ruler says.
+ */
+export function findGridPath(query: GridPathQuery): GridPath | null {
+  const { gridSize, rule } = query;
+  const feetPerSquare = Number.isFinite(query.gridSquareSize) ? query.gridSquareSize : 5;
+  const from = roundCell(query.from);
+  const to = roundCell(query.to);
+  const withinBudget = (path: GridPath): GridPath | null =>
+    query.maxFeet !== undefined && path.feet > query.maxFeet + 1e-9 ? null : path;
+
+  if (from.x === to.x && from.y === to.y) {
+    return { cells: [from], squares: 0, feet: 0 };
+  }
+
+  const segments =
+    query.scene && Number.isFinite(gridSize) && gridSize > 0
+      ? worldSegments(query.scene, query.mapTransform)
+      : [];
+  const terrain = createTerrainMovementLookup(query.scene?.terrain, gridSize, query.mapTransform);
+  if (segments.length === 0 && !terrain) {
+    const distance = measureGridDistance({
+      start: gridCellToWorldPoint(gridSize, from),
+      end: gridCellToWorldPoint(gridSize, to),
+      gridSize,
+      gridSquareSize: feetPerSquare,
+      rule,
+    });
+    return withinBudget({ cells: [from, to], squares: distance.squares, feet: distance.feet });
+  }
+
+  const reach = bodyReach(query.size);
+  const bounds = searchBounds(query.scene!, query.mapTransform, gridSize, from, to, reach);
+  if (!bounds) return null;
+
+  const maxSquares =
+    query.maxFeet !== undefined && rule !== "euclidean" && feetPerSquare > 0
+      ? query.maxFeet / feetPerSquare
+      : Infinity;
+  const toll = terrain ? bodyToll(terrain, reach) : undefined;
+  const cells = searchGridPath({
+    from,
+    to,
+    rule,
+    gridSize,
+    segments,
+    reach,
+    bounds,
+    maxSquares,
+    toll,
+  });
+  if (!cells) return null;
+
+  // The toll of each step, by the cell it enters (the start is never entered).
+  const tolls = cells.map((cell, index) => (index === 0 || !toll ? 1 : toll(cell.x, cell.y)));
+  const difficult = tolls.some((value) => value > 1);
+  // The taut string is for open floor; a walk that pays difficult terrain is
+  // charged step by step, since pulling it straight would skip the toll.
+  const squares =
+    rule !== "euclidean"
+      ? walkSquares(cells, rule, tolls)
+      : round1(
+          difficult ? tolledLength(cells, tolls) : tautLength(cells, gridSize, segments, toll),
+        );
+  return withinBudget({
+    cells,
+    squares,
+    feet: round1(squares * feetPerSquare),
+    ...(difficult ? { difficult: true } : {}),
+  });
+}
+
+/**
+ * What stepping a body of `reach` into a cell multiplies the step by: the
+ * harshest ground anywhere under the body, as 1, the difficult multiplier,
+ * or Infinity for impassable. A Medium body covers its own cell; a bigger
+ * one every cell its footprint overlaps.
+ */
+function bodyToll(terrain: TerrainMovementLookup, reach: number): (x: number, y: number) => number {
+  const span = Math.ceil(reach);
+  return (x, y) => {
+    let toll = 1;
+    for (let dy = -span; dy <= span; dy += 1) {
+      for (let dx = -span; dx <= span; dx += 1) {
+        const movement = terrain({ x: x + dx, y: y + dy });
+        if (movement === "impassable") return Infinity;
+        if (movement === "difficult") toll = TERRAIN_DIFFICULT_MULTIPLIER;
+      }
+    }
+    return toll;
+  };
+}
+
+function worldSegments(scene: CompiledScene, transform?: SceneTransform): WorldSegment[] {
+  return getMovementBlockingSegments(scene).map((segment) => {
+    const a = { x: segment.x1, y: segment.y1 };
+    const b = { x: segment.x2, y: segment.y2 };
+    return transform
+      ? { a: transformScenePoint(transform, a), b: transformScenePoint(transform, b) }
+      : { a, b };
+  });
+}
+
+/**
+ * The cells worth searching: the scene's footprint in world space, plus both
+ * endpoints (a token may start in the staging area off the art), plus a margin
+ * wide enough to walk round a wall drawn on the scene's edge.
+ */
+function searchBounds(
+  scene: CompiledScene,
+  transform: SceneTransform | undefined,
+  gridSize: number,
+  from: ScenePoint,
+  to: ScenePoint,
+  reach: number,
+): CellBounds | null {
+  const corners = [
+    { x: 0, y: 0 },
+    { x: scene.width, y: 0 },
+    { x: 0, y: scene.height },
+    { x: scene.width, y: scene.height },
+  ].map((corner) => (transform ? transformScenePoint(transform, corner) : corner));
+  const margin = 1 + Math.ceil(reach);
+  const xs = corners.map((corner) => Math.floor(corner.x / gridSize));
+  const ys = corners.map((corner) => Math.floor(corner.y / gridSize));
+  const minX = Math.min(...xs, from.x, to.x) - margin;
+  const minY = Math.min(...ys, from.y, to.y) - margin;
+  const maxX = Math.max(...xs, from.x, to.x) + margin;
+  const maxY = Math.max(...ys, from.y, to.y) + margin;
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  if (!Number.isFinite(width * height) || width * height > PATH_SEARCH_MAX_CELLS) return null;
+  return { minX, minY, width, height };
+}
+
+/**
+ * Squares along a walk under a grid rule — `measureGridDistance`'s count, step
+ * by step, each step multiplied by the toll of the cell it enters.
+ */
+function walkSquares(
+  cells: readonly ScenePoint[],
+  rule: DiagonalRule,
+  tolls: readonly number[],
+): number {
+  let squares = 0;
+  let diagonals = 0;
+  for (let i = 1; i < cells.length; i += 1) {
+    const diagonal = cells[i]!.x !== cells[i - 1]!.x && cells[i]!.y !== cells[i - 1]!.y;
+    if (diagonal) diagonals += 1;
+    const cost = rule === "pathfinder" && diagonal && diagonals % 2 === 0 ? 2 : 1;
+    squares += cost * tolls[i]!;
+  }
+  return squares;
+}
+
+/** Euclidean length in squares of a walk's steps, each multiplied by its toll. */
+function tolledLength(cells: readonly ScenePoint[], tolls: readonly number[]): number {
+  let length = 0;
+  for (let i = 1; i < cells.length; i += 1) {
+    length += Math.hypot(cells[i]!.x - cells[i - 1]!.x, cells[i]!.y - cells[i - 1]!.y) * tolls[i]!;
+  }
+  return length;
+}
+
+/**
+ * Length in squares of the taut string along a walk: from each anchor, run
+ * straight to the furthest later cell the centre line can reach unbroken —
+ * crossing no wall, and passing over no ground the walk itself went round.
+ */
+function tautLength(
+  cells: readonly ScenePoint[],
+  gridSize: number,
+  segments: readonly WorldSegment[],
+  toll?: (x: number, y: number) => number,
+): number {
+  const clear = (a: ScenePoint, b: ScenePoint) => {
+    const wa = gridCellToWorldPoint(gridSize, a);
+    const wb = gridCellToWorldPoint(gridSize, b);
+    if (segments.some((segment) => segmentsIntersect(wa, wb, segment.a, segment.b))) return false;
+    if (!toll) return true;
+    // The cells the line passes, sampled as the ruler samples them.
+    const long = Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+    for (let i = 1; i <= long; i += 1) {
+      const x = a.x + Math.round(((b.x - a.x) * i) / long);
+      const y = a.y + Math.round(((b.y - a.y) * i) / long);
+      if (toll(x, y) !== 1) return false;
+    }
+    return true;
+  };
+  let length = 0;
+  let anchor = 0;
+  for (let i = 1; i < cells.length; i += 1) {
+    const next = cells[i + 1];
+    if (next === undefined || !clear(cells[anchor]!, next)) {
+      length += Math.hypot(cells[i]!.x - cells[anchor]!.x, cells[i]!.y - cells[anchor]!.y);
+      anchor = i;
+    }
+  }
+  return length;
+}
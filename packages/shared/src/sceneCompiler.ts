@@ -1,5 +1,6 @@
 // Compiles a Map Studio document into the play-surface geometry a live room
-// enforces: occlusion segments, interactive doors, and light sources.
+// enforces: occlusion segments, interactive doors, light sources, what the
+// ground costs to walk, and the links that lead off the map.
 //
 // Publish compiles, never flattens: the rendered background is cosmetic, while
 // the CompiledScene carries the structured walls/doors/lights that live
@@ -7,7 +8,15 @@
 // visibility and opacity are paint-only concerns, so walls on a hidden layer
 // still block; the per-element `hidden` flag is the only opt-out.
 
-import type { MapDocument, MapDoorElement, MapElementTransform } from "./mapStudioTypes.js";
+import type {
+  MapDocument,
+  MapDoorElement,
+  MapElementTransform,
+  MapLinkElement,
+  MapLinkKind,
+  MapLinkTarget,
+} from "./mapStudioTypes.js";
+import { compileTerrainCosts, type CompiledTerrainCosts } from "./terrainMovement.js";
 
 export const COMPILED_SCENE_SCHEMA_VERSION = 1;
 
@@ -44,6 +53,23 @@ export interface CompiledLight {
   castsShadows: boolean;
 }
 
+/**
+ * A map link as the table uses it: the axis-aligned box (document px) tokens
+ * must stand in, and where they go. `target` is absent from a player's view —
+ * where a link leads is the DM's to reveal (see compiledSceneView).
+ */
+export interface CompiledMapLink {
+  id: string;
+  kind: MapLinkKind;
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  target?: MapLinkTarget;
+  playersMayUse: boolean;
+}
+
 export interface CompiledScene {
   schemaVersion: typeof COMPILED_SCENE_SCHEMA_VERSION;
   sourceDocumentId: string;
@@ -55,6 +81,22 @@ export interface CompiledScene {
   walls: CompiledWallSegment[];
   doors: CompiledDoor[];
   lights: CompiledLight[];
+  /**
+   * The lighting layer's opacity (1 = daylight, toward 0 = night), the same
+   * number the terrain bake veils the map with. Absent means daylight, which
+   * is what every scene compiled before lighting-driven vision reads as.
+   * See lighting.ts for the levels it maps to.
+   */
+  ambient?: number;
+  /**
+   * What the ground costs to walk: difficult and impassable cells from painted
+   * terrain kinds and area elements (terrainMovement.ts). Absent when nothing
+   * on the map affects movement, which every scene compiled before terrain
+   * costs existed reads as.
+   */
+  terrain?: CompiledTerrainCosts;
+  /** Stairs, ladders, portals and map edges. Absent when the map has none. */
+  links?: CompiledMapLink[];
 }
 
 export interface BlockingSegment {
@@ -69,6 +111,7 @@ export function compileScene(document: MapDocument, timestamp: number = Date.now
   const walls: CompiledWallSegment[] = [];
   const doors: CompiledDoor[] = [];
   const lights: CompiledLight[] = [];
+  const links: CompiledMapLink[] = [];
 
   for (const element of document.elements) {
     if (element.hidden) continue;
@@ -114,9 +157,19 @@ export function compileScene(document: MapDocument, timestamp: number = Date.now
         intensity: element.data.intensity,
         castsShadows: element.data.castsShadows,
       });
+    } else if (element.type === "link") {
+      links.push(compileLink(element));
     }
   }
 
+  // Same rule as deriveMapElements' lighting channel, so the veil a player
+  // sees and the darkness their vision obeys are one number: an invisible
+  // lighting layer is the kill switch and reads as daylight. Only attached
+  // when it departs from daylight, so a daylit scene compiles byte-identical.
+  const lightingLayer = document.layers.find((layer) => layer.kind === "lighting");
+  const ambient = lightingLayer && lightingLayer.visible ? lightingLayer.opacity : 1;
+  const terrain = compileTerrainCosts(document);
+
   return {
     schemaVersion: COMPILED_SCENE_SCHEMA_VERSION,
     sourceDocumentId: document.id,
@@ -127,6 +180,35 @@ export function compileScene(document: MapDocument, timestamp: number = Date.now
     walls,
     doors,
     lights,
+    ...(ambient < 1 ? { ambient } : {}),
+    ...(terrain ? { terrain } : {}),
+    ...(links.length > 0 ? { links } : {}),
+  };
+}
+
+// A rotated link compiles to its upright bounding box: "is this token standing
+// on the stairs" does not need the exact outline, and a box is what both the
+// server check and the client highlight can test without the transform.
+function compileLink(element: MapLinkElement): CompiledMapLink {
+  const { width, height } = element.data;
+  const corners = [
+    toWorld(element.transform, 0, 0),
+    toWorld(element.transform, width, 0),
+    toWorld(element.transform, width, height),
+    toWorld(element.transform, 0, height),
+  ];
+  const xs = corners.map((corner) => corner.x);
+  const ys = corners.map((corner) => corner.y);
+  return {
+    id: element.id,
+    kind: element.data.kind,
+    label: element.data.label,
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+    target: { ...element.data.target },
+    playersMayUse: element.data.playersMayUse,
   };
 }
 
@@ -158,7 +158,7 @@ export function deriveMapElements(document: MapDocument): MapElementsSnapshot |
 }
 
 /** Narrow one authored element to its player-safe render form, or null when the
- * kind never renders as scenery (wall/door; lights ride the lighting channel)
+ * kind never renders as scenery (wall/door/area/link; lights ride the lighting channel)
  * or the text is GM-private. The `data` reference is shared here;
  * deriveMapElements deep-clones the result. */
 function toRenderable(element: MapElement): RenderableMapElement | null {
@@ -185,6 +185,6 @@ function toRenderable(element: MapElement): RenderableMapElement | null {
         },
       };
     default:
-      return null; // wall / door / light — never scenery at the table
+      return null; // wall / door / light / area / link — never scenery at the table
   }
 }
@@ -0,0 +1,73 @@
+// ============================================================================
+// SCENES — several saved maps in one room, one of them on the table
+// ============================================================================
+// A room used to hold exactly one map: taking the party from the town to the
+// dungeon meant re-publishing over the town and losing every token position,
+// door state and drawing on it. A scene is that whole playing surface saved
+// under a name — its map binding, tokens, props, drawings, doors, fog and
+// staging zone — and the DM switches the table between scenes instantly.
+//
+// Exactly one scene is ACTIVE. Its content is the room's ordinary live state
+// (every handler keeps reading `state.tokens`, `state.compiledScene`, ...),
+// so a saved scene's `content` is only held while it is NOT active; switching
+// stores the outgoing surface into its entry and lifts the incoming one out.
+// Players are only ever told about the active scene.
+
+import type {
+  CompiledScene,
+  Drawing,
+  MapElementsSnapshot,
+  MapTerrainSnapshot,
+  PlayerStagingZone,
+  Prop,
+  SceneObject,
+  Token,
+} from "./index.js";
+import type { ExploredFogMask } from "./exploredFog.js";
+import type { FogRegion } from "./fogRegions.js";
+
+/** Scenes one room may hold. Each carries a full map's worth of state. */
+export const MAX_SCENES = 20;
+export const MAX_SCENE_NAME_LENGTH = 60;
+
+/** What the scene list shows: enough to name a scene and pick it. */
+export interface SceneSummary {
+  id: string;
+  name: string;
+}
+
+/** Everything a scene owns — the room fields that change when the table moves. */
+export interface SceneContent {
+  tokens: Token[];
+  props: Prop[];
+  drawings: Drawing[];
+  /** Carries the map's alignment transform and token transforms, not just a cache. */
+  sceneObjects: SceneObject[];
+  mapBackground?: string;
+  gridSize: number;
+  playerStagingZone?: PlayerStagingZone;
+  /** Door states live on the compiled doors, so they travel with the scene. */
+  compiledScene?: CompiledScene;
+  mapTerrain?: MapTerrainSnapshot;
+  mapElements?: MapElementsSnapshot;
+  /** The map document this scene's edits auto-compile into. */
+  liveMapDocumentId?: string;
+  fogEnabled: boolean;
+  exploredFog: ExploredFogMask[];
+  fogRegions: FogRegion[];
+}
+
+/**
+ * One entry in the room's scene list. `content` is absent for the active
+ * scene, whose content is the room's live state.
+ */
+export interface SavedScene extends SceneSummary {
+  content?: SceneContent;
+}
+
+/** Trimmed and length-checked, or null when nothing usable is left. */
+export function sanitizeSceneName(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const name = raw.trim();
+  return name.length > 0 && name.length <= MAX_SCENE_NAME_LENGTH ? name : null;
+}
@@ -0,0 +1,173 @@
+// ============================================================================
+// SENSES — darkvision, blindsight, tremorsense and truesight
+// ============================================================================
+// `Token.visionRadius` answers one question: how far do this token's EYES
+// reach? A 5e table needs four more, and they are not four more radii of the
+// same thing — each sense has its own rule about darkness, about walls, and
+// about what it reveals:
+//
+//   sense        | darkness        | walls  | eyes needed | reveals
+//   -------------|-----------------|--------|-------------|---------------
+//   darkvision   | seen as DIM     | block  | yes         | map + entities
+//   truesight    | seen as BRIGHT  | block  | yes         | map + entities
+//   blindsight   | irrelevant      | block  | no          | map + entities
+//   tremorsense  | irrelevant      | ignore | no          | TOKENS only
+//
+// "Eyes needed" means an explicit `visionRadius` of 0 — the DM's "this token
+// is blind" — switches the sense off along with ordinary sight. Blindsight is
+// precisely the sense a blinded creature keeps.
+//
+// Darkvision and truesight only matter in a DARK scene: in bright or dim
+// ambient ordinary sight already sees everything they would, and a DM's sight
+// limit in daylight is a narrowing no sense should undo. Blindsight and
+// tremorsense ignore light altogether, so they apply at every ambient level.
+//
+// Like lighting.ts, this lives in shared because the client's fog and the
+// server's per-recipient filter must reach the same answer from the same code.
+
+import type { LightLevel } from "./lighting.js";
+import type { ScenePoint } from "./sceneGeometry.js";
+import { computeViewerVisionPolygon, type ViewerVisionInput } from "./visibility.js";
+import { VISION_RADIUS_MAX_FEET } from "./visionRadius.js";
+
+export const SENSE_KINDS = ["darkvision", "blindsight", "tremorsense", "truesight"] as const;
+
+export type SenseKind = (typeof SENSE_KINDS)[number];
+
+/**
+ * A token's special senses, each a range in FEET. An absent sense is one the
+ * token does not have; a profile with no senses at all is spelled by leaving
+ * `Token.senses` off, so "none" has one representation on the wire, on disk
+ * and in every cache key.
+ */
+export type SenseProfile = Partial<Record<SenseKind, number>>;
+
+/** What one sense lets a viewer perceive, as a document-space polygon. */
+export interface SensedArea {
+  kind: Exclude<SenseKind, "tremorsense">;
+  /** How the fog renders it: darkvision sees darkness as dim, the rest as bright. */
+  level: "bright" | "dim";
+  polygon: ScenePoint[];
+}
+
+/** The per-viewer output of `computeSensedAreas`. */
+export interface ViewerSenses {
+  /** Wall-bounded areas perceived without light. */
+  areas: SensedArea[];
+  /**
+   * Tremorsense: a disc that walls do not stop, which reveals TOKENS standing
+   * inside it and nothing else — no map, no drawings, no props. Null when the
+   * viewer has none.
+   */
+  tremor: ScenePoint[] | null;
+}
+
+const NO_SENSES: ViewerSenses = { areas: [], tremor: null };
+
+/**
+ * The areas a viewer's senses add on top of its own sight.
+ *
+ * `input.radiusFeet` is the viewer's EFFECTIVE radius before the ambient
+ * adjustment (`effectiveVisionRadiusFeet`), because an explicit 0 is what
+ * switches the eye-bound senses off. `sightUnlimited` says whether ordinary
+ * sight, after darkness, still reaches the walls — if it does, every
+ * wall-bounded sense is already inside it and only tremorsense, which sees
+ * THROUGH walls, can add anything.
+ */
+export function computeSensedAreas(
+  input: ViewerVisionInput,
+  senses: SenseProfile | undefined,
+  ambient: LightLevel,
+  sightUnlimited: boolean,
+): ViewerSenses {
+  if (!senses) return NO_SENSES;
+  const hasEyes = input.radiusFeet !== 0;
+  const areas: SensedArea[] = [];
+  const sense = (kind: SensedArea["kind"], level: SensedArea["level"]) => {
+    const feet = senseRange(senses[kind]);
+    if (feet === undefined) return;
+    const polygon = computeViewerVisionPolygon({ ...input, radiusFeet: feet });
+    if (polygon.length >= 3) areas.push({ kind, level, polygon });
+  };
+
+  if (!sightUnlimited) {
+    if (hasEyes && ambient === "dark") {
+      sense("darkvision", "dim");
+      sense("truesight", "bright");
+    }
+    sense("blindsight", "bright");
+  }
+
+  const tremorFeet = senseRange(senses.tremorsense);
+  const tremor =
+    tremorFeet === undefined
+      ? null
+      : computeViewerVisionPolygon({ ...input, segments: [], radiusFeet: tremorFeet });
+
+  return { areas, tremor: tremor && tremor.length >= 3 ? tremor : null };
+}
+
+/** A usable sense range, or undefined for one the token effectively lacks. */
+function senseRange(value: number | undefined): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) return undefined;
+  return Math.min(VISION_RADIUS_MAX_FEET, value);
+}
+
+/**
+ * Coerce an untrusted sense profile — a `set-token-senses` payload that got
+ * past validation, or a token read off disk. Unknown keys are dropped, each
+ * range is clamped to the same ceiling as `visionRadius`, and a sense of zero
+ * or less is no sense at all. An empty result is `undefined`, the one
+ * spelling of "no senses".
+ */
+export function coerceSenseProfile(value: unknown): SenseProfile | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined;
+  const record = value as Record<string, unknown>;
+  const profile: SenseProfile = {};
+  for (const kind of SENSE_KINDS) {
+    const range = record[kind];
+    if (typeof range !== "number" || !Number.isFinite(range) || range <= 0) continue;
+    profile[kind] = Math.min(VISION_RADIUS_MAX_FEET, range);
+  }
+  return Object.keys(profile).length > 0 ? profile : undefined;
+}
+
+/**
+ * Apply `coerceSenseProfile` across a token list from an untrusted source —
+ * the twin of `coerceTokenVisionRadii`, for the same two restore paths and
+ * the same reason: tokens are copied verbatim, so this is the only hook where
+ * a hand-edited profile can be caught before it reaches the geometry.
+ * Unchanged tokens keep their identity.
+ */
+export function coerceTokenSenses<T extends { senses?: SenseProfile }>(tokens: readonly T[]): T[] {
+  if (!Array.isArray(tokens)) return [];
+  return tokens.map((token) => {
+    if (token.senses === undefined) return token;
+    const coerced = coerceSenseProfile(token.senses);
+    if (coerced !== undefined && sameSenses(coerced, token.senses)) return token;
+    const next = { ...token };
+    if (coerced === undefined) {
+      delete next.senses;
+    } else {
+      next.senses = coerced;
+    }
+    return next;
+  });
+}
+
+function sameSenses(a: SenseProfile, b: SenseProfile): boolean {
+  const keys = Object.keys(b);
+  return (
+    keys.length === Object.keys(a).length &&
+    keys.every((key) => a[key as SenseKind] === b[key as SenseKind])
+  );
+}
+
+/**
+ * A stable string for a profile, for the cache keys that must move when a
+ * sense changes (the server's `visionSignature`, the fog's viewer key).
+ */
+export function senseProfileKey(senses: SenseProfile | undefined): string {
+  if (!senses) return "";
+  return SENSE_KINDS.map((kind) => senses[kind] ?? "").join("/");
+}
@@ -82,6 +82,30 @@ export function getTerrainCell(map: TerrainMap, cellX: number, cellY: number): s
   return value === 0 ? null : (map.palette[value - 1] ?? null);
 }
 
+/**
+ * A `getTerrainCell` for reading many cells of one map: each chunk is decoded
+ * the first time a cell in it is asked for and kept, where `getTerrainCell`
+ * decodes the whole chunk on every call. For hot loops (path search); the map
+ * must not change while the reader is in use.
+ */
+export function createTerrainCellReader(
+  map: TerrainMap,
+): (cellX: number, cellY: number) => string | null {
+  const decoded = new Map<string, number[] | null>();
+  return (cellX, cellY) => {
+    const key = chunkKey(cellX, cellY);
+    let cells = decoded.get(key);
+    if (cells === undefined) {
+      const runs = map.chunks[key];
+      cells = runs ? decodeTerrainChunk(runs) : null;
+      decoded.set(key, cells);
+    }
+    if (!cells) return null;
+    const value = cells[cellIndex(cellX, cellY)]!;
+    return value === 0 ? null : (map.palette[value - 1] ?? null);
+  };
+}
+
 /** Immutably paint (or erase, with null) one cell. */
 export function setTerrainCell(
   map: TerrainMap,
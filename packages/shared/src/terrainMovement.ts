@@ -0,0 +1,179 @@
+// ============================================================================
+// TERRAIN MOVEMENT — what the ground costs to walk
+// ============================================================================
+// Painted terrain used to be paint and nothing else: a token waded through a
+// lake or strolled across lava for the same 5 ft a square as a flagstone
+// floor. Here the ground gets rules. A terrain KIND (a painted asset id)
+// declares whether it is difficult or impassable, a DM can draw an area
+// element over any ground to say the same, and publish compiles both into a
+// cost grid on the CompiledScene. The pathfinder, the measure overlay and the
+// server's movement check all read that one grid, so "30 ft (difficult)" on
+// a player's screen is the 30 ft the server charges.
+//
+// The grid lives on the DOCUMENT's lattice, in the painted terrain's own RLE
+// chunk format (the palette holds movement values instead of asset ids), so
+// a lake costs what the paint costs on the wire. Readers sample it at the
+// centre of a table cell through the live map transform, which keeps it right
+// when the DM drags, scales or rotates the published map.
+//
+// Difficult terrain costs double to enter (5e PHB "Difficult Terrain";
+// Pathfinder's "counts as two squares"), under every diagonal rule.
+
+import type { MapDocument, TerrainMovement } from "./mapStudioTypes.js";
+import {
+  gridCellToWorldPoint,
+  inverseTransformScenePoint,
+  transformScenePoint,
+  type ScenePoint,
+  type SceneTransform,
+} from "./sceneGeometry.js";
+import {
+  createTerrainCellReader,
+  createTerrainMap,
+  forEachTerrainCell,
+  setTerrainCells,
+  type TerrainCellWrite,
+  type TerrainMap,
+} from "./terrain.js";
+
+/**
+ * The movement rules of the bundled terrain kinds. Kinds not listed are
+ * ordinary ground. Water and cliffs are difficult because swimming and
+ * climbing cost double; painted wall masses and lava cannot be entered.
+ * Overhead kinds (roofs, canopy) stay ordinary: a token under them is
+ * standing on whatever the floor is.
+ */
+export const TERRAIN_KIND_MOVEMENT: Readonly<Record<string, TerrainMovement>> = {
+  "terrain:water": "difficult",
+  "terrain:sunken-flagstone": "difficult",
+  "terrain:sunken-stairs": "difficult",
+  "terrain:abyss-water": "difficult",
+  "terrain:biolume": "difficult",
+  "terrain:cliff": "difficult",
+  "terrain:ash-drift": "difficult",
+  "terrain:crystal-gold": "difficult",
+  "terrain:crystal-verdigris": "difficult",
+  "terrain:lava": "impassable",
+  "terrain:cave-wall": "impassable",
+  "terrain:wall-brick": "impassable",
+  "terrain:wall-dark": "impassable",
+  "terrain:wall-stone": "impassable",
+  "terrain:wall-timber": "impassable",
+};
+
+/** What entering a difficult square costs, as a multiple of the step. */
+export const TERRAIN_DIFFICULT_MULTIPLIER = 2;
+
+/**
+ * The most table squares one area element may cover. Far beyond any real
+ * patch of rubble or bog; the ceiling exists because a document's grid can be
+ * a fraction of a pixel, and an area over it would otherwise stall every
+ * compile. An area over the ceiling compiles to nothing.
+ */
+export const MAX_AREA_CELLS = 65_536;
+
+export interface CompiledTerrainCosts {
+  /** The document lattice the cells are counted on, in document pixels. */
+  grid: { size: number; offsetX: number; offsetY: number };
+  /** Cell -> TerrainMovement, in the terrain RLE format; empty cells are ordinary. */
+  cells: TerrainMap;
+}
+
+/** Whether a world grid cell is difficult, impassable, or (undefined) ordinary ground. */
+export type TerrainMovementLookup = (cell: ScenePoint) => TerrainMovement | undefined;
+
+const SEVERITY: Record<TerrainMovement, number> = { difficult: 1, impassable: 2 };
+
+/**
+ * Compile a document's movement rules, or undefined when nothing on it
+ * affects movement (so a scene without them compiles byte-identical). Painted
+ * kinds and area elements combine cell by cell, the harsher rule winning.
+ * Like walls, both count whatever their layer's visibility; an element's own
+ * `hidden` flag is the opt-out.
+ */
+export function compileTerrainCosts(document: MapDocument): CompiledTerrainCosts | undefined {
+  const { size, offsetX, offsetY } = document.grid;
+  if (!Number.isFinite(size) || size <= 0) return undefined;
+
+  const marked = new Map<string, TerrainCellWrite>();
+  const mark = (x: number, y: number, movement: TerrainMovement) => {
+    const key = `${x},${y}`;
+    const existing = marked.get(key)?.assetId as TerrainMovement | undefined;
+    if (existing && SEVERITY[existing] >= SEVERITY[movement]) return;
+    marked.set(key, { x, y, assetId: movement });
+  };
+
+  if (document.terrain) {
+    forEachTerrainCell(document.terrain, (x, y, assetId) => {
+      const movement = TERRAIN_KIND_MOVEMENT[assetId];
+      if (movement) mark(x, y, movement);
+    });
+  }
+
+  for (const element of document.elements) {
+    if (element.type !== "area" || element.hidden) continue;
+    const polygon = element.data.points.map((point) =>
+      transformScenePoint(element.transform, point),
+    );
+    // Clipped to the document: ground off the map is nobody's to walk.
+    const left = Math.max(0, Math.min(...polygon.map((p) => p.x)));
+    const right = Math.min(document.width, Math.max(...polygon.map((p) => p.x)));
+    const top = Math.max(0, Math.min(...polygon.map((p) => p.y)));
+    const bottom = Math.min(document.height, Math.max(...polygon.map((p) => p.y)));
+    const x0 = Math.floor((left - offsetX) / size);
+    const x1 = Math.floor((right - offsetX) / size);
+    const y0 = Math.floor((top - offsetY) / size);
+    const y1 = Math.floor((bottom - offsetY) / size);
+    if (x1 < x0 || y1 < y0 || (x1 - x0 + 1) * (y1 - y0 + 1) > MAX_AREA_CELLS) continue;
+    for (let y = y0; y <= y1; y += 1) {
+      for (let x = x0; x <= x1; x += 1) {
+        const centre = { x: offsetX + (x + 0.5) * size, y: offsetY + (y + 0.5) * size };
+        if (pointInPolygon(centre, polygon)) mark(x, y, element.data.movement);
+      }
+    }
+  }
+
+  if (marked.size === 0) return undefined;
+  return {
+    grid: { size, offsetX, offsetY },
+    cells: setTerrainCells(createTerrainMap(), [...marked.values()]),
+  };
+}
+
+/**
+ * A lookup over compiled costs for table cells of `gridSize` world pixels, or
+ * undefined when there are no costs to look up. `mapTransform` is the live
+ * map's transform, exactly as the scene's walls are placed with it.
+ */
+export function createTerrainMovementLookup(
+  costs: CompiledTerrainCosts | undefined,
+  gridSize: number,
+  mapTransform?: SceneTransform,
+): TerrainMovementLookup | undefined {
+  if (!costs || !Number.isFinite(gridSize) || gridSize <= 0) return undefined;
+  const read = createTerrainCellReader(costs.cells);
+  const { size, offsetX, offsetY } = costs.grid;
+  return (cell) => {
+    const world = gridCellToWorldPoint(gridSize, cell);
+    const point = mapTransform ? inverseTransformScenePoint(mapTransform, world) : world;
+    const value = read(
+      Math.floor((point.x - offsetX) / size),
+      Math.floor((point.y - offsetY) / size),
+    );
+    return value === "difficult" || value === "impassable" ? value : undefined;
+  };
+}
+
+/** Even-odd ray cast; a point exactly on an edge may land either side. */
+function pointInPolygon(point: ScenePoint, polygon: readonly ScenePoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i, i += 1) {
+    const a = polygon[i]!;
+    const b = polygon[j]!;
+    if (a.y > point.y !== b.y > point.y) {
+      const crossX = a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x);
+      if (point.x < crossX) inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,197 @@
+// ============================================================================
+// TOKEN LIGHTS — a torch, a Light cantrip or a lantern carried by a token
+// ============================================================================
+// Scene lights (sceneCompiler.ts) are authored into the map document and only
+// move when the DM republishes. A carried light is the opposite: it belongs to
+// a TOKEN, is lit and put out by the token's owner mid-session, and follows
+// every move and drag without a recompile.
+//
+// So it is not stored on the compiled scene. `Token.light` carries the
+// authoring (kind, range in FEET, colour); `compileTokenLights` turns every
+// lit token into an ordinary `CompiledLight` in document space at the moment
+// someone asks, and `withTokenLights` hands lighting.ts a scene that has them.
+// From there a carried torch is indistinguishable from a wall sconce — the
+// same bright/dim bands, the same wall shadows, the same lit-area polygons —
+// and, as with the rest of lighting, the client's fog and the server's
+// per-recipient filter reach their answer through these same functions.
+
+import type { CompiledLight, CompiledScene } from "./sceneCompiler.js";
+import {
+  gridCellToWorldPoint,
+  inverseTransformScenePoint,
+  type SceneTransform,
+} from "./sceneGeometry.js";
+import { tokenVisionRadius, VISION_RADIUS_MAX_FEET } from "./visionRadius.js";
+
+export const TOKEN_LIGHT_KINDS = ["torch", "light", "lantern", "candle", "custom"] as const;
+
+export type TokenLightKind = (typeof TOKEN_LIGHT_KINDS)[number];
+
+/**
+ * A light a token carries. `radiusFeet` is the OUTER (dim) edge, like a
+ * compiled light's `radius`; the bright core is the inner half, which is the
+ * 5e shape of every preset below (a torch is 20 ft bright plus 20 ft dim).
+ * `kind` is a label for the UI — the geometry reads only range and colour.
+ */
+export interface TokenLight {
+  kind: TokenLightKind;
+  radiusFeet: number;
+  color: string;
+}
+
+/** The 5e light sources a player reaches for, as ready-made `TokenLight`s. */
+export const TOKEN_LIGHT_PRESETS: Record<Exclude<TokenLightKind, "custom">, TokenLight> = {
+  torch: { kind: "torch", radiusFeet: 40, color: "#ffb347" },
+  light: { kind: "light", radiusFeet: 40, color: "#fff4d6" },
+  lantern: { kind: "lantern", radiusFeet: 60, color: "#ffd27f" },
+  candle: { kind: "candle", radiusFeet: 10, color: "#ffcc66" },
+};
+
+/** Colour for a light whose stored colour is unusable. */
+export const TOKEN_LIGHT_DEFAULT_COLOR = "#ffd27f";
+
+/**
+ * Compiled-light ids for carried lights are the token id behind this prefix,
+ * so they can never collide with an authored light's id and a client can tell
+ * which lights in a payload are its own tokens' and which came from the map.
+ */
+export const TOKEN_LIGHT_ID_PREFIX = "token:";
+
+export function tokenLightId(tokenId: string): string {
+  return `${TOKEN_LIGHT_ID_PREFIX}${tokenId}`;
+}
+
+export function isTokenLightId(lightId: string): boolean {
+  return lightId.startsWith(TOKEN_LIGHT_ID_PREFIX);
+}
+
+/** Everything `compileTokenLights` needs besides the tokens themselves. */
+export interface TokenLightSpace {
+  /** World pixels per grid square (`RoomState.gridSize`). */
+  gridSize: number;
+  /** Feet per grid square (`RoomState.gridSquareSize`, default 5). */
+  gridSquareSize: number;
+  /** The live map transform, when the DM has moved or scaled the published art. */
+  mapTransform?: SceneTransform;
+}
+
+/**
+ * Every lit token as a `CompiledLight` in DOCUMENT space, in token order.
+ *
+ * The chain is the one vision already uses: the token's cell centre in world
+ * pixels, inverse-transformed onto the document, and the range in feet through
+ * `tokenVisionRadius`. That function returns an ellipse, because a non-uniform
+ * map scale makes one; a compiled light is a circle, so this takes the mean of
+ * the two semi-axes, which is exact under every transform the UI can produce.
+ * A range that cannot be expressed — no grid, a degenerate scale — is no light
+ * rather than a guess.
+ */
+export function compileTokenLights(
+  tokens: readonly { id: string; x: number; y: number; light?: TokenLight }[],
+  space: TokenLightSpace,
+): CompiledLight[] {
+  const lights: CompiledLight[] = [];
+  for (const token of tokens) {
+    if (!token.light) continue;
+    const semi = tokenVisionRadius({
+      radiusFeet: token.light.radiusFeet,
+      gridSize: space.gridSize,
+      gridSquareSize: space.gridSquareSize,
+      mapTransform: space.mapTransform,
+    });
+    if (!semi) continue;
+    const radius = (semi.x + semi.y) / 2;
+    if (!(radius > 0)) continue;
+    const world = gridCellToWorldPoint(space.gridSize, { x: token.x, y: token.y });
+    const origin = space.mapTransform
+      ? inverseTransformScenePoint(space.mapTransform, world)
+      : world;
+    lights.push({
+      id: tokenLightId(token.id),
+      x: origin.x,
+      y: origin.y,
+      radius,
+      color: token.light.color,
+      intensity: 1,
+      castsShadows: true,
+    });
+  }
+  return lights;
+}
+
+/**
+ * The scene with carried lights appended to its authored ones, or the scene
+ * itself when there are none — so a table nobody has lit a torch at keeps the
+ * object identity every per-scene cache is keyed on.
+ */
+export function withTokenLights(
+  scene: CompiledScene,
+  lights: readonly CompiledLight[],
+): CompiledScene {
+  if (lights.length === 0) return scene;
+  return { ...scene, lights: [...scene.lights, ...lights] };
+}
+
+/**
+ * Coerce an untrusted carried light — a `set-token-light` payload that got
+ * past validation, or a token read off disk. An unknown kind becomes
+ * "custom", the range is clamped to the vision ceiling, and a colour that is
+ * not a non-empty string falls back to a warm default. No usable range is no
+ * light: `undefined`, the one spelling of "not carrying one".
+ */
+export function coerceTokenLight(value: unknown): TokenLight | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return undefined;
+  const record = value as Record<string, unknown>;
+  const range = record.radiusFeet;
+  if (typeof range !== "number" || !Number.isFinite(range) || range <= 0) return undefined;
+  const kind = TOKEN_LIGHT_KINDS.includes(record.kind as TokenLightKind)
+    ? (record.kind as TokenLightKind)
+    : "custom";
+  const color =
+    typeof record.color === "string" && record.color.trim().length > 0
+      ? record.color.trim()
+      : TOKEN_LIGHT_DEFAULT_COLOR;
+  return { kind, radiusFeet: Math.min(VISION_RADIUS_MAX_FEET, range), color };
+}
+
+/**
+ * Apply `coerceTokenLight` across a token list from an untrusted source —
+ * the twin of `coerceTokenSenses`, for the same two restore paths. Unchanged
+ * tokens keep their identity.
+ */
+export function coerceTokenLights<T extends { light?: TokenLight }>(tokens: readonly T[]): T[] {
+  if (!Array.isArray(tokens)) return [];
+  return tokens.map((token) => {
+    if (token.light === undefined) return token;
+    const coerced = coerceTokenLight(token.light);
+    if (
+      coerced !== undefined &&
+      coerced.kind === token.light.kind &&
+      coerced.radiusFeet === token.light.radiusFeet &&
+      coerced.color === token.light.color
+    ) {
+      return token;
+    }
+    const next = { ...token };
+    if (coerced === undefined) {
+      delete next.light;
+    } else {
+      next.light = coerced;
+    }
+    return next;
+  });
+}
+
+/**
+ * A stable string for where every carried light is and how far it reaches,
+ * for the cache keys that must move when any of them does. Unlike a sense,
+ * a carried light changes what EVERY viewer can see, not just its owner's.
+ */
+export function tokenLightsKey(
+  tokens: readonly { id: string; x: number; y: number; light?: TokenLight }[],
+): string {
+  return tokens
+    .filter((token) => token.light)
+    .map((token) => `${token.id}@${token.x},${token.y}:${token.light!.radiusFeet}`)
+    .join(";");
+}
@@ -0,0 +1,47 @@
+// ============================================================================
+// TOKEN SPEED — how far a token may walk in one turn
+// ============================================================================
+// The input to the combat movement budget (RoomSnapshot.movementBudgetEnabled).
+// A walking speed in FEET, like every other range on a token, so it reads the
+// way a stat block prints it and survives a change of grid square size.
+
+/** A creature with no speed of its own walks like a 5e Medium humanoid. */
+export const TOKEN_SPEED_DEFAULT_FEET = 30;
+
+/** Ceiling for a stored speed. Far above any printed speed; it exists to bound bad input. */
+export const TOKEN_SPEED_MAX_FEET = 500;
+
+/** The token's walking speed in feet: its own, or the default when it has none. */
+export function tokenSpeedFeet(token: { speed?: number }): number {
+  return token.speed ?? TOKEN_SPEED_DEFAULT_FEET;
+}
+
+/**
+ * Coerce an untrusted speed. Zero is a real speed (grappled, restrained) and
+ * is kept; a negative, non-finite or non-number value is no speed of its own
+ * — `undefined`, which reads as the default.
+ */
+export function coerceTokenSpeed(value: unknown): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) return undefined;
+  return Math.min(TOKEN_SPEED_MAX_FEET, value);
+}
+
+/**
+ * Apply `coerceTokenSpeed` across a token list from an untrusted source — a
+ * state file or a session file. Unchanged tokens keep their identity.
+ */
+export function coerceTokenSpeeds<T extends { speed?: number }>(tokens: readonly T[]): T[] {
+  if (!Array.isArray(tokens)) return [];
+  return tokens.map((token) => {
+    if (token.speed === undefined) return token;
+    const coerced = coerceTokenSpeed(token.speed);
+    if (coerced === token.speed) return token;
+    const next = { ...token };
+    if (coerced === undefined) {
+      delete next.speed;
+    } else {
+      next.speed = coerced;
+    }
+    return next;
+  });
+}
@@ -0,0 +1,61 @@
+// ============================================================================
+// TURN TIMER — a clock on every turn, kept by the server
+// ============================================================================
+// Online fights drag when nobody's turn ends. A room can set a turn length;
+// the server then stamps a deadline (epoch milliseconds) each time the turn
+// passes to someone and sends it in the snapshot. Clients only count down to
+// it — the server decides when time is up, so a player whose tab is asleep
+// cannot stretch their turn, and everyone sees the same clock.
+//
+// What happens at the deadline is the DM's choice:
+//
+//   - "advance": the turn passes on exactly as if someone pressed Next Turn.
+//   - "notify": the DM is told, and the turn stays put until someone acts.
+
+export const TURN_TIMER_LIMITS = {
+  /** Shortest turn the DM can set. Under this, nobody gets to act at all. */
+  MIN_SECONDS: 10,
+  /** Longest: past ten minutes, a clock is not what the table needs. */
+  MAX_SECONDS: 600,
+  /** The final seconds that tick audibly on every client. */
+  WARNING_SECONDS: 5,
+} as const;
+
+export const TURN_TIMER_EXPIRY = ["advance", "notify"] as const;
+
+export type TurnTimerExpiry = (typeof TURN_TIMER_EXPIRY)[number];
+
+export const TURN_TIMER_EXPIRY_LABELS: Record<TurnTimerExpiry, string> = {
+  advance: "Auto-advance",
+  notify: "Notify DM",
+};
+
+/** The room's setting. Absent on the room = no timer. */
+export interface TurnTimer {
+  /** Length of each turn, whole seconds within TURN_TIMER_LIMITS. */
+  seconds: number;
+  onExpire: TurnTimerExpiry;
+}
+
+/** A stored or received setting; anything malformed is "no timer". */
+export function coerceTurnTimer(value: unknown): TurnTimer | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const { seconds, onExpire } = value as Partial<TurnTimer>;
+  if (
+    typeof seconds !== "number" ||
+    !Number.isInteger(seconds) ||
+    seconds < TURN_TIMER_LIMITS.MIN_SECONDS ||
+    seconds > TURN_TIMER_LIMITS.MAX_SECONDS
+  ) {
+    return undefined;
+  }
+  return {
+    seconds,
+    onExpire: TURN_TIMER_EXPIRY.includes(onExpire as never) ? onExpire! : "notify",
+  };
+}
+
+/** Whole seconds left before `deadline`, never below 0. */
+export function turnSecondsLeft(deadline: number, now: number): number {
+  return Math.max(0, Math.ceil((deadline - now) / 1000));
+}